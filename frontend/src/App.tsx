@@ -1,12 +1,13 @@
 import React, { useMemo } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
-import { ThemeProvider, createTheme, CssBaseline } from '@mui/material';
+import { ThemeProvider, createTheme, CssBaseline, Box, CircularProgress } from '@mui/material';
 import { CacheProvider } from '@emotion/react';
 import createCache from '@emotion/cache';
 import rtlPlugin from 'stylis-plugin-rtl';
 import { prefixer } from 'stylis';
 import { useTranslation } from 'react-i18next';
 import { AuthProvider, useAuth } from './auth/AuthContext';
+import type { PermissionResource } from './types';
 import { NotificationProvider } from './contexts/NotificationContext';
 import Layout from './components/Layout';
 import LoginPage from './pages/auth/LoginPage';
@@ -18,23 +19,42 @@ import VendorsPage from './pages/manager/VendorsPage';
 import AssetsPage from './pages/manager/AssetsPage';
 import ServiceRequestsPage from './pages/manager/ServiceRequestsPage';
 import WorkOrdersPage from './pages/manager/WorkOrdersPage';
+import SchedulePage from './pages/manager/SchedulePage';
 import CleaningPlansPage from './pages/manager/CleaningPlansPage';
 import JobsPage from './pages/manager/JobsPage';
 import NewRequestPage from './pages/tenant/NewRequestPage';
 import MyRequestsPage from './pages/tenant/MyRequestsPage';
 import MyChargesPage from './pages/tenant/MyChargesPage';
 import MyMessagesPage from './pages/tenant/MyMessagesPage';
+import NotificationSettingsPage from './pages/tenant/NotificationSettingsPage';
+import SecurityPage from './pages/account/SecurityPage';
+import MyAccountPage from './pages/account/MyAccountPage';
+import ForgotPasswordPage from './pages/auth/ForgotPasswordPage';
+import ResetPasswordPage from './pages/auth/ResetPasswordPage';
+import ConfirmEmailPage from './pages/auth/ConfirmEmailPage';
+import DevOutboxPage from './pages/auth/DevOutboxPage';
+import AcceptInvitePage from './pages/auth/AcceptInvitePage';
 import VendorWorkOrdersPage from './pages/vendor/VendorWorkOrdersPage';
 import HOAPlansPage from './pages/manager/HOAPlansPage';
+import BankReconciliationPage from './pages/manager/BankReconciliationPage';
+import SpecialAssessmentsPage from './pages/manager/SpecialAssessmentsPage';
 import PaymentProviderConfigPage from './pages/manager/PaymentProviderConfigPage';
 import IncomeExpensesPage from './pages/manager/IncomeExpensesPage';
+import BudgetPage from './pages/manager/BudgetPage';
 import CollectionStatusPage from './pages/manager/CollectionStatusPage';
+import RefundsPage from './pages/manager/RefundsPage';
+import StandingOrdersPage from './pages/manager/StandingOrdersPage';
 import TenantsPage from './pages/manager/TenantsPage';
 import VendorInvoicesPage from './pages/manager/VendorInvoicesPage';
 import SendRemindersPage from './pages/manager/SmsRemindersPage';
+import DunningPage from './pages/manager/DunningPage';
+import ReminderTemplatesPage from './pages/manager/ReminderTemplatesPage';
 import ManagerInvoicesPage from './pages/manager/ManagerInvoicesPage';
+import PermissionsPage from './pages/manager/PermissionsPage';
 import PaymentSuccessPage from './pages/payment/PaymentSuccessPage';
+import PayLinkPage from './pages/payment/PayLinkPage';
 import PaymentCancelPage from './pages/payment/PaymentCancelPage';
+import PaymentSimulatorPage from './pages/payment/PaymentSimulatorPage';
 
 // Emotion caches for RTL and LTR
 const rtlCache = createCache({
@@ -46,53 +66,86 @@ const ltrCache = createCache({
   stylisPlugins: [prefixer],
 });
 
-const ProtectedRoute: React.FC<{ children: React.ReactNode; roles?: string[] }> = ({ children, roles }) => {
-  const { isAuthenticated, user } = useAuth();
+/** A permission route opens for anyone who may view the resource in at least one building. */
+const ProtectedRoute: React.FC<{ children: React.ReactNode; roles?: string[]; permission?: PermissionResource }> = ({ children, roles, permission }) => {
+  const { isAuthenticated, user, can } = useAuth();
   if (!isAuthenticated) return <Navigate to="/login" replace />;
-  if (roles && !roles.some(r => user?.roles.includes(r))) return <Navigate to="/dashboard" replace />;
+  if (roles && !roles.some(r => user?.roles.includes(r))) return <Navigate to="/" replace />;
+  if (permission && !can(permission)) return <Navigate to="/" replace />;
   return <>{children}</>;
 };
 
 const AppRoutes: React.FC = () => {
-  const { isAuthenticated, user } = useAuth();
+  const { isAuthenticated, isRestoring, user, can } = useAuth();
 
   const getDefaultRoute = () => {
     if (!isAuthenticated) return '/login';
     if (user?.roles.includes('Vendor')) return '/my-work-orders';
     if (user?.roles.includes('Tenant')) return '/my-requests';
-    return '/dashboard';
+    if (can('Buildings')) return '/dashboard';
+    if (can('Finance')) return '/hoa';
+    if (can('Reports')) return '/income-expenses';
+    return '/account';
   };
 
+  // Don't send a returning user to the login page before their session has been restored
+  if (isRestoring) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '100vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
   return (
     <Routes>
       <Route path="/login" element={isAuthenticated ? <Navigate to={getDefaultRoute()} /> : <LoginPage />} />
       <Route path="/register" element={isAuthenticated ? <Navigate to={getDefaultRoute()} /> : <RegisterPage />} />
       <Route path="/register-tenant" element={isAuthenticated ? <Navigate to={getDefaultRoute()} /> : <RegisterTenantPage />} />
+      <Route path="/forgot-password" element={isAuthenticated ? <Navigate to={getDefaultRoute()} /> : <ForgotPasswordPage />} />
+      <Route path="/reset-password" element={<ResetPasswordPage />} />
+      <Route path="/confirm-email" element={<ConfirmEmailPage />} />
+      <Route path="/invite/:token" element={isAuthenticated ? <Navigate to={getDefaultRoute()} /> : <AcceptInvitePage />} />
+      {import.meta.env.DEV && <Route path="/dev/outbox" element={<DevOutboxPage />} />}
+      <Route path="/pay/:token" element={<PayLinkPage />} />
       <Route path="/" element={<ProtectedRoute><Layout /></ProtectedRoute>}>
         <Route index element={<Navigate to={getDefaultRoute()} replace />} />
-        <Route path="dashboard" element={<ProtectedRoute roles={['Admin', 'Manager']}><DashboardPage /></ProtectedRoute>} />
-        <Route path="buildings" element={<ProtectedRoute roles={['Admin', 'Manager']}><BuildingsPage /></ProtectedRoute>} />
-        <Route path="vendors" element={<ProtectedRoute roles={['Admin', 'Manager']}><VendorsPage /></ProtectedRoute>} />
-        <Route path="assets" element={<ProtectedRoute roles={['Admin', 'Manager']}><AssetsPage /></ProtectedRoute>} />
-        <Route path="service-requests" element={<ProtectedRoute roles={['Admin', 'Manager']}><ServiceRequestsPage /></ProtectedRoute>} />
-        <Route path="work-orders" element={<ProtectedRoute roles={['Admin', 'Manager']}><WorkOrdersPage /></ProtectedRoute>} />
-        <Route path="cleaning-plans" element={<ProtectedRoute roles={['Admin', 'Manager']}><CleaningPlansPage /></ProtectedRoute>} />
-        <Route path="jobs" element={<ProtectedRoute roles={['Admin', 'Manager']}><JobsPage /></ProtectedRoute>} />
-        <Route path="hoa" element={<ProtectedRoute roles={['Admin', 'Manager']}><HOAPlansPage /></ProtectedRoute>} />
-        <Route path="payment-config" element={<ProtectedRoute roles={['Admin', 'Manager']}><PaymentProviderConfigPage /></ProtectedRoute>} />
-        <Route path="income-expenses" element={<ProtectedRoute roles={['Admin', 'Manager']}><IncomeExpensesPage /></ProtectedRoute>} />
-        <Route path="collection-status" element={<ProtectedRoute roles={['Admin', 'Manager']}><CollectionStatusPage /></ProtectedRoute>} />
-        <Route path="tenants" element={<ProtectedRoute roles={['Admin', 'Manager']}><TenantsPage /></ProtectedRoute>} />
-        <Route path="vendor-invoices" element={<ProtectedRoute roles={['Admin', 'Manager']}><VendorInvoicesPage /></ProtectedRoute>} />
-        <Route path="send-reminders" element={<ProtectedRoute roles={['Admin', 'Manager']}><SendRemindersPage /></ProtectedRoute>} />
-        <Route path="manager-invoices" element={<ProtectedRoute roles={['Admin', 'Manager']}><ManagerInvoicesPage /></ProtectedRoute>} />
+        <Route path="dashboard" element={<ProtectedRoute permission="Buildings"><DashboardPage /></ProtectedRoute>} />
+        <Route path="buildings" element={<ProtectedRoute permission="Buildings"><BuildingsPage /></ProtectedRoute>} />
+        <Route path="vendors" element={<ProtectedRoute permission="Vendors"><VendorsPage /></ProtectedRoute>} />
+        <Route path="assets" element={<ProtectedRoute permission="Buildings"><AssetsPage /></ProtectedRoute>} />
+        <Route path="service-requests" element={<ProtectedRoute permission="Maintenance"><ServiceRequestsPage /></ProtectedRoute>} />
+        <Route path="work-orders" element={<ProtectedRoute permission="Maintenance"><WorkOrdersPage /></ProtectedRoute>} />
+        <Route path="schedule" element={<ProtectedRoute permission="Maintenance"><SchedulePage /></ProtectedRoute>} />
+        <Route path="cleaning-plans" element={<ProtectedRoute permission="Maintenance"><CleaningPlansPage /></ProtectedRoute>} />
+        <Route path="jobs" element={<ProtectedRoute permission="Maintenance"><JobsPage /></ProtectedRoute>} />
+        <Route path="hoa" element={<ProtectedRoute permission="Finance"><HOAPlansPage /></ProtectedRoute>} />
+        <Route path="special-assessments" element={<ProtectedRoute permission="Finance"><SpecialAssessmentsPage /></ProtectedRoute>} />
+        <Route path="bank-reconciliation" element={<ProtectedRoute permission="Finance"><BankReconciliationPage /></ProtectedRoute>} />
+        <Route path="payment-config" element={<ProtectedRoute permission="Finance"><PaymentProviderConfigPage /></ProtectedRoute>} />
+        <Route path="income-expenses" element={<ProtectedRoute permission="Reports"><IncomeExpensesPage /></ProtectedRoute>} />
+        <Route path="budget" element={<ProtectedRoute permission="Finance"><BudgetPage /></ProtectedRoute>} />
+        <Route path="collection-status" element={<ProtectedRoute permission="Reports"><CollectionStatusPage /></ProtectedRoute>} />
+        <Route path="refunds" element={<ProtectedRoute permission="Finance"><RefundsPage /></ProtectedRoute>} />
+        <Route path="standing-orders" element={<ProtectedRoute permission="Finance"><StandingOrdersPage /></ProtectedRoute>} />
+        <Route path="tenants" element={<ProtectedRoute permission="Tenants"><TenantsPage /></ProtectedRoute>} />
+        <Route path="vendor-invoices" element={<ProtectedRoute permission="Finance"><VendorInvoicesPage /></ProtectedRoute>} />
+        <Route path="send-reminders" element={<ProtectedRoute permission="Communications"><SendRemindersPage /></ProtectedRoute>} />
+        <Route path="dunning" element={<ProtectedRoute permission="Finance"><DunningPage /></ProtectedRoute>} />
+        <Route path="reminder-templates" element={<ProtectedRoute permission="Communications"><ReminderTemplatesPage /></ProtectedRoute>} />
+        <Route path="manager-invoices" element={<ProtectedRoute permission="Finance"><ManagerInvoicesPage /></ProtectedRoute>} />
+        <Route path="permissions" element={<ProtectedRoute permission="Users"><PermissionsPage /></ProtectedRoute>} />
         <Route path="payment/success" element={<ProtectedRoute><PaymentSuccessPage /></ProtectedRoute>} />
         <Route path="payment/cancel" element={<ProtectedRoute><PaymentCancelPage /></ProtectedRoute>} />
+        <Route path="payment/simulator" element={<ProtectedRoute><PaymentSimulatorPage /></ProtectedRoute>} />
         <Route path="new-request" element={<ProtectedRoute roles={['Tenant', 'Admin', 'Manager']}><NewRequestPage /></ProtectedRoute>} />
         <Route path="my-requests" element={<ProtectedRoute roles={['Tenant']}><MyRequestsPage /></ProtectedRoute>} />
         <Route path="my-charges" element={<ProtectedRoute roles={['Tenant']}><MyChargesPage /></ProtectedRoute>} />
         <Route path="my-messages" element={<ProtectedRoute roles={['Tenant']}><MyMessagesPage /></ProtectedRoute>} />
+        <Route path="notification-settings" element={<ProtectedRoute roles={['Tenant']}><NotificationSettingsPage /></ProtectedRoute>} />
         <Route path="my-work-orders" element={<ProtectedRoute roles={['Vendor']}><VendorWorkOrdersPage /></ProtectedRoute>} />
+        <Route path="account" element={<MyAccountPage />} />
+        <Route path="security" element={<SecurityPage />} />
       </Route>
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
@@ -1,60 +1,117 @@
 import axios, { AxiosError, type InternalAxiosRequestConfig } from 'axios';
+import type { LoginResponse } from '../types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || '';
 
 const apiClient = axios.create({
   baseURL: API_BASE_URL,
+  // The refresh token lives in an httpOnly cookie the server sets for /api/auth
+  withCredentials: true,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-// Token management (in-memory for security)
-let accessToken: string | null = null;
-let refreshToken: string | null = null;
+/** Refresh this long before the access token expires, so requests never race its expiry. */
+const REFRESH_AHEAD_MS = 60_000;
+const REFRESH_LOCK = 'bm-auth-refresh';
 
-export const setTokens = (access: string, refresh: string) => {
-  accessToken = access;
-  refreshToken = refresh;
+type AuthMessage = { type: 'session'; session: LoginResponse } | { type: 'logout' };
+
+// Session management: the access token stays in memory, a reload gets a new one from the refresh cookie
+let session: LoginResponse | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+let refreshInFlight: Promise<LoginResponse> | null = null;
+let sessionListener: ((session: LoginResponse | null) => void) | null = null;
+
+// Open tabs share one session: logging in, refreshing or logging out in one tab applies to all of them
+const authChannel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('bm-auth') : null;
+
+function applySession(next: LoginResponse | null) {
+  session = next;
+  clearTimeout(refreshTimer);
+  if (next) {
+    const delay = Math.max(next.expiresIn * 1000 - REFRESH_AHEAD_MS, 5_000);
+    refreshTimer = setTimeout(() => { refreshSession().catch(() => undefined); }, delay);
+  }
+  sessionListener?.(next);
+}
+
+authChannel?.addEventListener('message', (event: MessageEvent<AuthMessage>) => {
+  applySession(event.data.type === 'session' ? event.data.session : null);
+});
+
+/** AuthContext listens here for sessions started, refreshed or ended by this or another tab. */
+export const onSessionChange = (listener: ((session: LoginResponse | null) => void) | null) => {
+  sessionListener = listener;
 };
 
-export const clearTokens = () => {
-  accessToken = null;
-  refreshToken = null;
+/** Uses a session returned by login, registration or refresh, here and in every other open tab. */
+export const startSession = (next: LoginResponse) => {
+  applySession(next);
+  authChannel?.postMessage({ type: 'session', session: next } satisfies AuthMessage);
 };
 
-export const getAccessToken = () => accessToken;
-export const getRefreshToken = () => refreshToken;
+export const endSession = () => {
+  applySession(null);
+  authChannel?.postMessage({ type: 'logout' } satisfies AuthMessage);
+};
+
+export const getAccessToken = () => session?.accessToken ?? null;
+
+async function requestRefresh(): Promise<LoginResponse> {
+  try {
+    const response = await axios.post<LoginResponse>(`${API_BASE_URL}/api/auth/refresh`, null, { withCredentials: true });
+    startSession(response.data);
+    return response.data;
+  } catch (err) {
+    // The cookie is gone or was revoked; a network error keeps the session for the next attempt
+    if ((err as AxiosError).response?.status === 401 && session) endSession();
+    throw err;
+  }
+}
+
+/**
+ * Exchanges the refresh cookie for a new access token. Callers in this tab share one request, and a Web Lock
+ * keeps tabs from rotating the cookie at the same time: a tab that waited for the lock takes the session the
+ * other tab broadcast meanwhile instead of refreshing again.
+ */
+export const refreshSession = (): Promise<LoginResponse> => {
+  if (refreshInFlight) return refreshInFlight;
+
+  const before = session;
+  const run = async (): Promise<LoginResponse> => {
+    if (!('locks' in navigator)) return requestRefresh();
+    return await navigator.locks.request(REFRESH_LOCK, () => (session && session !== before ? session : requestRefresh()));
+  };
+  const shared = run().finally(() => { refreshInFlight = null; });
+  refreshInFlight = shared;
+  return shared;
+};
 
 // Request interceptor to add auth header
 apiClient.interceptors.request.use((config: InternalAxiosRequestConfig) => {
-  if (accessToken && config.headers) {
-    config.headers.Authorization = `Bearer ${accessToken}`;
+  if (session && config.headers) {
+    config.headers.Authorization = `Bearer ${session.accessToken}`;
   }
   return config;
 });
 
-// Response interceptor for token refresh
+// Response interceptor: every request that got a 401 waits for the same refresh, then retries once
 apiClient.interceptors.response.use(
   (response) => response,
   async (error: AxiosError) => {
     const originalRequest = error.config as InternalAxiosRequestConfig & { _retry?: boolean };
-    
-    if (error.response?.status === 401 && !originalRequest._retry && refreshToken) {
+
+    if (error.response?.status === 401 && !originalRequest._retry && session) {
       originalRequest._retry = true;
       try {
-        const response = await axios.post(`${API_BASE_URL}/api/auth/refresh`, {
-          refreshToken,
-        });
-        const { accessToken: newAccess, refreshToken: newRefresh } = response.data;
-        setTokens(newAccess, newRefresh);
+        const refreshed = await refreshSession();
         if (originalRequest.headers) {
-          originalRequest.headers.Authorization = `Bearer ${newAccess}`;
+          originalRequest.headers.Authorization = `Bearer ${refreshed.accessToken}`;
         }
         return apiClient(originalRequest);
       } catch {
-        clearTokens();
-        window.location.href = '/login';
         return Promise.reject(error);
       }
     }
@@ -0,0 +1,214 @@
+import axios from 'axios';
+import { workOrdersApi } from './services';
+import type { WorkOrderDto, PendingWorkOrderChange } from '../types';
+
+/**
+ * Offline support for the vendor work order view.
+ *
+ * Work orders are cached in IndexedDB so the list stays readable without signal.
+ * Status changes, notes and photos made while offline are queued (photos are stored
+ * as File blobs) and replayed in the order they were made once the connection returns.
+ */
+
+const DB_NAME = 'homehero-offline';
+const DB_VERSION = 1;
+const WORK_ORDERS_STORE = 'workOrders';
+const QUEUE_STORE = 'workOrderQueue';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WORK_ORDERS_STORE)) {
+          db.createObjectStore(WORK_ORDERS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'seq', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** True when the request never reached the server (no signal, DNS failure, timeout). */
+export const isNetworkError = (err: unknown) =>
+  !navigator.onLine || (axios.isAxiosError(err) && !err.response);
+
+/** The version a status change is based on; an order never modified has only its creation time. */
+export const workOrderVersion = (wo: WorkOrderDto) => wo.updatedAtUtc ?? wo.createdAtUtc;
+
+// ─── Work order cache ─────────────────────────────────
+
+export async function cacheWorkOrders(workOrders: WorkOrderDto[]): Promise<void> {
+  await run(WORK_ORDERS_STORE, 'readwrite', store => {
+    store.clear();
+    workOrders.forEach(wo => store.put(wo));
+  });
+}
+
+export async function cacheWorkOrder(workOrder: WorkOrderDto): Promise<void> {
+  await run(WORK_ORDERS_STORE, 'readwrite', store => store.put(workOrder));
+}
+
+export async function getCachedWorkOrders(): Promise<WorkOrderDto[]> {
+  return (await run<WorkOrderDto[]>(WORK_ORDERS_STORE, 'readonly', store => store.getAll())) ?? [];
+}
+
+// ─── Change queue ─────────────────────────────────────
+
+export async function getQueue(): Promise<PendingWorkOrderChange[]> {
+  const items = (await run<PendingWorkOrderChange[]>(QUEUE_STORE, 'readonly', store => store.getAll())) ?? [];
+  return items.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+}
+
+export async function enqueueChange(change: Omit<PendingWorkOrderChange, 'seq' | 'queuedAtUtc' | 'state'>): Promise<void> {
+  await run(QUEUE_STORE, 'readwrite', store =>
+    store.add({ ...change, queuedAtUtc: new Date().toISOString(), state: 'pending' }));
+}
+
+async function saveChange(change: PendingWorkOrderChange): Promise<void> {
+  await run(QUEUE_STORE, 'readwrite', store => store.put(change));
+}
+
+export async function removeChange(seq: number): Promise<void> {
+  await run(QUEUE_STORE, 'readwrite', store => store.delete(seq));
+}
+
+/**
+ * Applies queued changes on top of a work order so the vendor sees what they did offline.
+ * Photos are not merged — they only exist as local files until uploaded.
+ */
+export function applyPendingChanges(wo: WorkOrderDto, queue: PendingWorkOrderChange[]): WorkOrderDto {
+  return queue
+    .filter(c => c.workOrderId === wo.id && c.state !== 'failed')
+    .reduce<WorkOrderDto>((acc, c) => {
+      if (c.kind === 'status' && c.status) return { ...acc, status: c.status };
+      if (c.kind === 'note' && c.noteText) {
+        return {
+          ...acc,
+          notes: [...acc.notes, { id: -(c.seq ?? 0), noteText: c.noteText, createdAtUtc: c.queuedAtUtc, createdByUserId: '' }],
+        };
+      }
+      return acc;
+    }, wo);
+}
+
+export interface ReplayResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  /** True when the replay stopped because the connection dropped again */
+  offline: boolean;
+}
+
+async function sendChange(change: PendingWorkOrderChange, force: boolean): Promise<void> {
+  switch (change.kind) {
+    case 'status':
+      await workOrdersApi.updateStatus(change.workOrderId, {
+        status: change.status!,
+        expectedUpdatedAtUtc: force ? undefined : change.baseUpdatedAtUtc,
+      });
+      break;
+    case 'note':
+      await workOrdersApi.addNote(change.workOrderId, { noteText: change.noteText! });
+      break;
+    case 'photos':
+      await workOrdersApi.uploadAttachments(change.workOrderId, change.files ?? []);
+      break;
+  }
+}
+
+/**
+ * Replays pending changes oldest first. A conflict on a work order holds back the
+ * remaining changes for that same order (so their order is preserved) until the vendor
+ * resolves it; changes for other orders keep flowing.
+ */
+export async function replayQueue(): Promise<ReplayResult> {
+  const result: ReplayResult = { synced: 0, conflicts: 0, failed: 0, offline: false };
+  const blocked = new Set<number>();
+  const rebased = new Map<number, PendingWorkOrderChange>();
+  const queue = await getQueue();
+
+  for (const queued of queue) {
+    const change = rebased.get(queued.seq!) ?? queued;
+    if (change.state !== 'pending' || blocked.has(change.workOrderId)) {
+      if (change.state === 'conflict') { blocked.add(change.workOrderId); result.conflicts++; }
+      continue;
+    }
+    try {
+      await sendChange(change, false);
+      await removeChange(change.seq!);
+      result.synced++;
+    } catch (err) {
+      if (isNetworkError(err)) { result.offline = true; break; }
+      blocked.add(change.workOrderId);
+      if (axios.isAxiosError(err) && err.response?.status === 409) {
+        const current = (err.response.data as { current?: WorkOrderDto })?.current;
+        await saveChange({ ...change, state: 'conflict', serverStatus: current?.status });
+        if (current) await cacheWorkOrder(current);
+        result.conflicts++;
+      } else {
+        const message = axios.isAxiosError(err) ? (err.response?.data as { message?: string })?.message : undefined;
+        await saveChange({ ...change, state: 'failed', error: message ?? String(err) });
+        result.failed++;
+      }
+      continue;
+    }
+
+    // The change is on the server and out of the queue by now, so a failed rebase must not mark it
+    // as failed; the later changes just stay on the old version and surface as conflicts if they clash
+    if (change.kind === 'status') {
+      try {
+        (await rebaseAfterStatusChange(change)).forEach(next => rebased.set(next.seq!, next));
+      } catch (err) {
+        if (isNetworkError(err)) { result.offline = true; break; }
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * After one of our own status changes lands, the server bumps updatedAtUtc. Later
+ * queued status changes for the same order were based on the version we saw, so move
+ * them onto the new version — otherwise they would conflict with ourselves.
+ * Returns the rebased changes.
+ */
+async function rebaseAfterStatusChange(change: PendingWorkOrderChange): Promise<PendingWorkOrderChange[]> {
+  const { data } = await workOrdersApi.getById(change.workOrderId);
+  await cacheWorkOrder(data);
+  const rebased = (await getQueue())
+    .filter(next => next.workOrderId === change.workOrderId && next.kind === 'status' && next.baseUpdatedAtUtc === change.baseUpdatedAtUtc)
+    .map(next => ({ ...next, baseUpdatedAtUtc: workOrderVersion(data) }));
+  for (const next of rebased) await saveChange(next);
+  return rebased;
+}
+
+/**
+ * Resolves a conflicted (or failed) change: either push the vendor's version over the
+ * manager's change, or drop it and keep the server version.
+ */
+export async function resolveChange(change: PendingWorkOrderChange, resolution: 'keepMine' | 'discard'): Promise<void> {
+  if (resolution === 'keepMine') {
+    await sendChange(change, true);
+  }
+  await removeChange(change.seq!);
+}
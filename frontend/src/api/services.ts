@@ -1,17 +1,35 @@
 import apiClient from './client';
 import type {
-  LoginRequest, LoginResponse, BuildingDto, UnitDto, VendorDto,
+  LoginRequest, LoginResponse, User, TwoFactorStatusDto, TwoFactorSetupDto, TwoFactorEnableResponse,
+  UpdateProfileRequest, UpdateProfileResponse, InvitationDetailsDto, AcceptInvitationRequest,
+  BuildingDto, UnitDto, VendorDto,
   AssetDto, PreventivePlanDto, ServiceRequestDto, WorkOrderDto,
   CleaningPlanDto, GenerateJobResponse, JobRunLogDto, WorkOrderNoteDto,
   AttachmentDto, HOAFeePlanDto, UnitChargeDto, PaymentMethodDto,
-  PaymentDto, CollectionStatusReport, AgingReport,
-  PaymentProviderConfigDto, PaymentSessionResponse, TokenizationResponse,
+  BillingParty, UpdateUnitBillingRequest, UnitPartyBalancesDto, UnitStatementDto,
+  LateFeeRuleDto, SaveLateFeeRuleRequest, LateFeeRunResult,
+  SpecialAssessmentDto, SpecialAssessmentDetailDto, SaveSpecialAssessmentRequest, MyAssessmentScheduleDto, GenerateChargesResult,
+  PaymentDto, CheckoutChargesRequest, PayChargesRequest, PaymentLinkCheckoutDto, UnitManualPaymentRequest, UnitManualPaymentResultDto,
+  CollectionStatusReport, CollectionRowDto, AgingReport, ChargePaymentDto,
+  PaymentRefundDto, PaymentRefundType, ChargebackStatus, RefundPaymentRequest, ResolveChargebackRequest,
+  PaymentProviderConfigDto, PaymentProviderTestResultDto, PaymentSessionResponse, TokenizationResponse,
   TenantProfileDto, CreateTenantRequest, UpdateTenantRequest, EndTenancyRequest,
+  InviteTenantRequest, TenantInvitationDto, TenantRegistrationDto, TenantRegistrationStatus,
   VendorInvoiceDto, VendorPaymentDto,
-  SmsTemplateDto, SmsCampaignDto, CreateCampaignResult, SendCampaignResult, SmsCampaignRecipientDto, ReminderChannel,
-  StandingOrderDto, CreateStandingOrderRequest, CreateStandingOrderResponse,
+  SmsTemplateDto, SaveSmsTemplateRequest, SmsTemplateVersionDto, PreviewSmsTemplateRequest, SmsTemplatePreviewDto,
+  SmsCampaignDto, CreateCampaignResult, SendCampaignResult, SmsCampaignRecipientDto, ReminderChannel, RetryCampaignRequest,
+  NotificationPreferencesDto, NotificationConsentLogDto, SaveNotificationPreferencesRequest, SavePushSubscriptionRequest, StandInOutboxDto, StandInMessageDto,
+  DunningStepDto, DunningStepRequest, DunningDebtorDto, DunningNoticeDto, DunningRunResult,
+  StandingOrderDto, StandingOrderStatus, CreateStandingOrderRequest, CreateStandingOrderResponse,
+  AdjustStandingOrderAmountRequest, AdjustStandingOrderAmountResult,
   TenantPaymentDto, ManagerInvoiceDto, TicketMessageDto,
-  TenantMessageDto, SendTenantMessageRequest, PaymentAnalysisDto
+  TenantMessageDto, SendTenantMessageRequest, PaymentAnalysisDto,
+  BankStatementImportDto, BankStatementLineDto, BankMatchCandidateDto, ConfirmBankMatchesResult,
+  BuildingBudgetDto, SaveBuildingBudgetRequest, BudgetVsActualReport, SuggestedHOAFeeDto,
+  PaymentPlanDto, PaymentPlanStatus, UnitDebtDto, CreatePaymentPlanRequest, RequestPaymentPlanRequest, ApprovePaymentPlanRequest,
+  PaymentPlanCheckResult,
+  GridQuery, PagedResult, SavedGridViewDto, SaveGridViewRequest,
+  UserPermissionsDto, UpdateUserPermissionsRequest
 } from '../types';
 
 // Auth
@@ -27,9 +45,32 @@ export const authApi = {
   }) => apiClient.post<LoginResponse>('/api/auth/register-tenant', data),
   searchBuildings: (q: string) =>
     apiClient.get<{ id: number; name: string; addressLine?: string; city?: string }[]>('/api/auth/buildings/search', { params: { q } }),
-  refresh: (refreshToken: string) => apiClient.post<LoginResponse>('/api/auth/refresh', { refreshToken }),
-  logout: (refreshToken?: string) => apiClient.post('/api/auth/logout', { refreshToken }),
-  me: () => apiClient.get('/api/auth/me'),
+  refresh: () => apiClient.post<LoginResponse>('/api/auth/refresh'),
+  logout: () => apiClient.post('/api/auth/logout'),
+  me: () => apiClient.get<User>('/api/auth/me'),
+  verifyTwoFactor: (data: { challengeToken: string; code: string; rememberDevice: boolean }) =>
+    apiClient.post<LoginResponse>('/api/auth/2fa/verify', data),
+  getTwoFactorStatus: () => apiClient.get<TwoFactorStatusDto>('/api/auth/2fa'),
+  setupTwoFactor: (challengeToken?: string) =>
+    apiClient.post<TwoFactorSetupDto>('/api/auth/2fa/setup', { challengeToken }),
+  enableTwoFactor: (code: string, challengeToken?: string) =>
+    apiClient.post<TwoFactorEnableResponse>('/api/auth/2fa/enable', { code, challengeToken }),
+  regenerateRecoveryCodes: (code: string) => apiClient.post<string[]>('/api/auth/2fa/recovery-codes', { code }),
+  disableTwoFactor: (code: string) => apiClient.post('/api/auth/2fa/disable', { code }),
+  forgetTrustedDevices: () => apiClient.delete('/api/auth/2fa/trusted-devices'),
+  forgotPassword: (email: string) => apiClient.post('/api/auth/forgot-password', { email }),
+  resetPassword: (data: { email: string; token: string; newPassword: string }) =>
+    apiClient.post('/api/auth/reset-password', data),
+  confirmEmail: (data: { userId: string; token: string; newEmail?: string }) =>
+    apiClient.post<{ message: string; email: string }>('/api/auth/confirm-email', data),
+  resendVerification: () => apiClient.post('/api/auth/me/resend-verification'),
+  updateProfile: (data: UpdateProfileRequest) => apiClient.put<UpdateProfileResponse>('/api/auth/me', data),
+  changePassword: (data: { currentPassword: string; newPassword: string }) =>
+    apiClient.post<LoginResponse>('/api/auth/me/password', data),
+  getInvitation: (token: string) => apiClient.get<InvitationDetailsDto>(`/api/auth/invitations/${encodeURIComponent(token)}`),
+  acceptInvitation: (token: string, data: AcceptInvitationRequest) =>
+    apiClient.post<LoginResponse>(`/api/auth/invitations/${encodeURIComponent(token)}/accept`, data),
+  getDevOutbox: (email?: string) => apiClient.get<StandInMessageDto[]>('/api/auth/dev/outbox', { params: { email } }),
 };
 
 // Buildings
@@ -41,6 +82,8 @@ export const buildingsApi = {
   delete: (id: number) => apiClient.delete(`/api/buildings/${id}`),
   getUnits: (id: number) => apiClient.get<UnitDto[]>(`/api/buildings/${id}/units`),
   createUnit: (buildingId: number, data: Partial<UnitDto>) => apiClient.post<UnitDto>(`/api/buildings/${buildingId}/units`, data),
+  updateUnitBilling: (buildingId: number, unitId: number, data: UpdateUnitBillingRequest) =>
+    apiClient.put(`/api/buildings/${buildingId}/units/${unitId}/billing`, data),
 };
 
 // Vendors
@@ -68,6 +111,8 @@ export const preventivePlansApi = {
 export const serviceRequestsApi = {
   getAll: (params?: { buildingId?: number; unitId?: number; status?: string }) =>
     apiClient.get<ServiceRequestDto[]>('/api/servicerequests', { params }),
+  getPaged: (params: GridQuery) =>
+    apiClient.get<PagedResult<ServiceRequestDto>>('/api/servicerequests/paged', { params }),
   getMy: () => apiClient.get<ServiceRequestDto[]>('/api/servicerequests/my'),
   getById: (id: number) => apiClient.get<ServiceRequestDto>(`/api/servicerequests/${id}`),
   create: (data: any) => apiClient.post<ServiceRequestDto>('/api/servicerequests', data),
@@ -86,14 +131,18 @@ export const serviceRequestsApi = {
 
 // Work Orders
 export const workOrdersApi = {
-  getAll: (params?: { buildingId?: number; vendorId?: number; status?: string }) =>
+  getAll: (params?: { buildingId?: number; vendorId?: number; status?: string; from?: string; to?: string; unscheduled?: boolean }) =>
     apiClient.get<WorkOrderDto[]>('/api/workorders', { params }),
+  getPaged: (params: GridQuery) =>
+    apiClient.get<PagedResult<WorkOrderDto>>('/api/workorders/paged', { params }),
   getMy: () => apiClient.get<WorkOrderDto[]>('/api/workorders/my'),
   getById: (id: number) => apiClient.get<WorkOrderDto>(`/api/workorders/${id}`),
   create: (data: any) => apiClient.post<WorkOrderDto>('/api/workorders', data),
   assign: (id: number, data: { vendorId: number; scheduledFor?: string }) =>
     apiClient.put(`/api/workorders/${id}/assign`, data),
-  updateStatus: (id: number, data: { status: string }) =>
+  reschedule: (id: number, data: { vendorId: number; scheduledFor: string }) =>
+    apiClient.put(`/api/workorders/${id}/schedule`, data),
+  updateStatus: (id: number, data: { status: string; expectedUpdatedAtUtc?: string }) =>
     apiClient.put(`/api/workorders/${id}/status`, data),
   addNote: (id: number, data: { noteText: string }) =>
     apiClient.post<WorkOrderNoteDto>(`/api/workorders/${id}/notes`, data),
@@ -128,21 +177,49 @@ export const hoaApi = {
   updatePlan: (id: number, data: Partial<HOAFeePlanDto>) => apiClient.put(`/api/hoa/plans/${id}`, data),
   generateCharges: (planId: number, period: string) =>
     apiClient.post(`/api/hoa/plans/${planId}/generate/${period}`),
-  getCharges: (params?: { buildingId?: number; period?: string }) =>
+  getCharges: (params?: { buildingId?: number; period?: string; party?: BillingParty }) =>
     apiClient.get<UnitChargeDto[]>('/api/hoa/charges', { params }),
   getMyCharges: () => apiClient.get<UnitChargeDto[]>('/api/hoa/charges/my'),
-  getChargesForUnit: (unitId: number) => apiClient.get<UnitChargeDto[]>(`/api/hoa/charges/unit/${unitId}`),
+  getChargesForUnit: (unitId: number, party?: BillingParty) =>
+    apiClient.get<UnitChargeDto[]>(`/api/hoa/charges/unit/${unitId}`, { params: { party } }),
+  getUnitBalances: (unitId: number) => apiClient.get<UnitPartyBalancesDto>(`/api/hoa/units/${unitId}/balances`),
+  getUnitStatement: (unitId: number, params?: { from?: string; to?: string; party?: BillingParty }) =>
+    apiClient.get<UnitStatementDto>(`/api/hoa/units/${unitId}/statement`, { params }),
+  getUnitStatementCsv: (unitId: number, params?: { from?: string; to?: string; party?: BillingParty; lang?: string }) =>
+    apiClient.get(`/api/hoa/units/${unitId}/statement/csv`, { params, responseType: 'blob' }),
   adjustCharge: (id: number, data: { newAmount: number; reason?: string }) =>
     apiClient.put(`/api/hoa/charges/${id}/adjust`, data),
   // Manual payments
   addManualPayment: (unitChargeId: number, data: { paidAmount: number; paidAt?: string; method: string; reference?: string; notes?: string }) =>
     apiClient.post(`/api/hoa/charges/${unitChargeId}/manual-payment`, data),
+  addUnitManualPayment: (unitId: number, data: UnitManualPaymentRequest) =>
+    apiClient.post<UnitManualPaymentResultDto>(`/api/hoa/units/${unitId}/manual-payment`, data),
   editManualPayment: (paymentId: number, data: { paidAmount: number; paidAt?: string; method: string; reference?: string; notes?: string }) =>
     apiClient.put(`/api/hoa/manual-payments/${paymentId}`, data),
   deleteManualPayment: (paymentId: number) =>
     apiClient.delete(`/api/hoa/manual-payments/${paymentId}`),
   getChargePayments: (unitChargeId: number) =>
-    apiClient.get(`/api/hoa/charges/${unitChargeId}/payments`),
+    apiClient.get<ChargePaymentDto[]>(`/api/hoa/charges/${unitChargeId}/payments`),
+  // Late fees
+  getLateFeeRule: (buildingId: number) => apiClient.get<LateFeeRuleDto>(`/api/hoa/late-fee-rule/${buildingId}`),
+  saveLateFeeRule: (buildingId: number, data: SaveLateFeeRuleRequest) =>
+    apiClient.put<LateFeeRuleDto>(`/api/hoa/late-fee-rule/${buildingId}`, data),
+  runLateFees: (buildingId: number) =>
+    apiClient.post<LateFeeRunResult>('/api/hoa/late-fees/run', null, { params: { buildingId } }),
+  waiveCharge: (id: number, reason: string) => apiClient.post(`/api/hoa/charges/${id}/waive`, { reason }),
+};
+
+export const specialAssessmentsApi = {
+  getAll: (buildingId: number) => apiClient.get<SpecialAssessmentDto[]>('/api/special-assessments', { params: { buildingId } }),
+  get: (id: number) => apiClient.get<SpecialAssessmentDetailDto>(`/api/special-assessments/${id}`),
+  create: (data: SaveSpecialAssessmentRequest) => apiClient.post<SpecialAssessmentDto>('/api/special-assessments', data),
+  update: (id: number, data: SaveSpecialAssessmentRequest) => apiClient.put(`/api/special-assessments/${id}`, data),
+  delete: (id: number) => apiClient.delete(`/api/special-assessments/${id}`),
+  activate: (id: number) => apiClient.post(`/api/special-assessments/${id}/activate`),
+  generate: (id: number, period: string) =>
+    apiClient.post<GenerateChargesResult>(`/api/special-assessments/${id}/generate/${period}`),
+  cancel: (id: number) => apiClient.post(`/api/special-assessments/${id}/cancel`),
+  getMy: () => apiClient.get<MyAssessmentScheduleDto[]>('/api/special-assessments/my'),
 };
 
 export const paymentsApi = {
@@ -161,10 +238,33 @@ export const paymentsApi = {
   // Hosted payment session (redirects user to provider)
   createSession: (unitChargeId: number) =>
     apiClient.post<PaymentSessionResponse>(`/api/payments/session/${unitChargeId}`),
+  // Several charges (or the full balance) in one payment, allocated oldest first
+  payCharges: (data: PayChargesRequest) => apiClient.post<PaymentDto>('/api/payments/pay', data),
+  createCheckoutSession: (data: CheckoutChargesRequest) =>
+    apiClient.post<PaymentSessionResponse>('/api/payments/session', data),
+  // Signed payment link from a reminder — works without a login
+  getPaymentLink: (token: string, countClick?: boolean) =>
+    apiClient.get<PaymentLinkCheckoutDto>(`/api/payments/link/${token}`, { params: { countClick } }),
+  createPaymentLinkSession: (token: string) =>
+    apiClient.post<PaymentSessionResponse>(`/api/payments/link/${token}/session`),
   getMyPayments: () => apiClient.get<PaymentDto[]>('/api/payments/my'),
+  getPayment: (paymentId: number) => apiClient.get<PaymentDto>(`/api/payments/${paymentId}`),
+  completeSimulatedChallenge: (data: { providerReference: string; approved: boolean }) =>
+    apiClient.post('/api/payments/simulator/challenge', data),
   getPaymentsForUnit: (unitId: number) => apiClient.get<PaymentDto[]>(`/api/payments/unit/${unitId}`),
+  // Refunds & chargebacks
+  refund: (paymentId: number, data: RefundPaymentRequest) =>
+    apiClient.post<PaymentRefundDto>(`/api/payments/${paymentId}/refund`, data),
+  getPaymentRefunds: (paymentId: number) => apiClient.get<PaymentRefundDto[]>(`/api/payments/${paymentId}/refunds`),
+  getRefunds: (params?: { buildingId?: number; type?: PaymentRefundType; chargebackStatus?: ChargebackStatus }) =>
+    apiClient.get<PaymentRefundDto[]>('/api/payments/refunds', { params }),
+  resolveChargeback: (id: number, data: ResolveChargebackRequest) =>
+    apiClient.post<PaymentRefundDto>(`/api/payments/refunds/${id}/resolve`, data),
   // Standing Orders
-  getStandingOrders: () => apiClient.get<StandingOrderDto[]>('/api/payments/standing-orders'),
+  getStandingOrders: (params?: { buildingId?: number; status?: StandingOrderStatus }) =>
+    apiClient.get<StandingOrderDto[]>('/api/payments/standing-orders', { params }),
+  adjustStandingOrderAmount: (id: number, data: AdjustStandingOrderAmountRequest) =>
+    apiClient.put<AdjustStandingOrderAmountResult>(`/api/payments/standing-orders/${id}/amount`, data),
   createStandingOrder: (data: CreateStandingOrderRequest) =>
     apiClient.post<CreateStandingOrderResponse>('/api/payments/standing-orders', data),
   cancelStandingOrder: (id: number) =>
@@ -175,6 +275,32 @@ export const paymentsApi = {
     apiClient.post(`/api/payments/standing-orders/${id}/resume`),
 };
 
+// ─── Bank Reconciliation ──────────────────────────────
+
+export const bankReconciliationApi = {
+  importStatement: (buildingId: number, file: File, format: string = 'Auto') => {
+    const formData = new FormData();
+    formData.append('buildingId', String(buildingId));
+    formData.append('file', file);
+    formData.append('format', format);
+    return apiClient.post<BankStatementImportDto>('/api/bank-reconciliation/imports', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+  getImports: (buildingId?: number) =>
+    apiClient.get<BankStatementImportDto[]>('/api/bank-reconciliation/imports', { params: { buildingId } }),
+  getLines: (params?: { buildingId?: number; status?: string; importId?: number }) =>
+    apiClient.get<BankStatementLineDto[]>('/api/bank-reconciliation/lines', { params }),
+  getCandidates: (lineId: number) =>
+    apiClient.get<BankMatchCandidateDto[]>(`/api/bank-reconciliation/lines/${lineId}/candidates`),
+  confirm: (matches: { lineId: number; unitChargeId: number }[]) =>
+    apiClient.post<ConfirmBankMatchesResult>('/api/bank-reconciliation/lines/confirm', { matches }),
+  ignore: (lineId: number) => apiClient.post(`/api/bank-reconciliation/lines/${lineId}/ignore`),
+  reopen: (lineId: number) => apiClient.post(`/api/bank-reconciliation/lines/${lineId}/reopen`),
+  rematch: (buildingId: number) =>
+    apiClient.post<{ updated: number; suggested: number }>('/api/bank-reconciliation/lines/rematch', null, { params: { buildingId } }),
+};
+
 // ─── Payment Provider Config ───────────────────────────
 
 export const paymentConfigApi = {
@@ -185,6 +311,7 @@ export const paymentConfigApi = {
   update: (id: number, data: Partial<PaymentProviderConfigDto>) => apiClient.put(`/api/payment-config/${id}`, data),
   delete: (id: number) => apiClient.delete(`/api/payment-config/${id}`),
   getProviders: () => apiClient.get<string[]>('/api/payment-config/providers'),
+  testConnection: (id: number) => apiClient.post<PaymentProviderTestResultDto>(`/api/payment-config/${id}/test`),
 };
 
 // ─── Tenants ──────────────────────────────────────────
@@ -192,6 +319,8 @@ export const paymentConfigApi = {
 export const tenantsApi = {
   getAll: (params?: { buildingId?: number; unitId?: number; activeOnly?: boolean; includeArchived?: boolean }) =>
     apiClient.get<TenantProfileDto[]>('/api/tenants', { params }),
+  getPaged: (params: GridQuery) =>
+    apiClient.get<PagedResult<TenantProfileDto>>('/api/tenants/paged', { params }),
   getById: (id: number) => apiClient.get<TenantProfileDto>(`/api/tenants/${id}`),
   getMyProfile: () => apiClient.get<TenantProfileDto>('/api/tenants/my-profile'),
   create: (data: CreateTenantRequest) => apiClient.post<TenantProfileDto>('/api/tenants', data),
@@ -199,6 +328,12 @@ export const tenantsApi = {
   endTenancy: (id: number, data: EndTenancyRequest) => apiClient.post(`/api/tenants/${id}/end-tenancy`, data),
   delete: (id: number) => apiClient.delete(`/api/tenants/${id}`),
   unitHistory: (unitId: number) => apiClient.get<TenantProfileDto[]>(`/api/tenants/unit/${unitId}/history`),
+  invite: (id: number, data: InviteTenantRequest) => apiClient.post<TenantInvitationDto>(`/api/tenants/${id}/invite`, data),
+  getRegistrations: (params?: { buildingId?: number; status?: TenantRegistrationStatus }) =>
+    apiClient.get<TenantRegistrationDto[]>('/api/tenants/registrations', { params }),
+  approveRegistration: (id: number, unitId?: number) =>
+    apiClient.post<{ message: string; unitId: number; tenantProfileId?: number }>(`/api/tenants/registrations/${id}/approve`, { unitId }),
+  rejectRegistration: (id: number, reason?: string) => apiClient.post(`/api/tenants/registrations/${id}/reject`, { reason }),
 };
 
 // ─── Vendor Invoices ──────────────────────────────────
@@ -206,6 +341,8 @@ export const tenantsApi = {
 export const vendorInvoicesApi = {
   getAll: (params?: { buildingId?: number; vendorId?: number; status?: string; from?: string; to?: string }) =>
     apiClient.get<VendorInvoiceDto[]>('/api/vendor-invoices', { params }),
+  getPaged: (params: GridQuery) =>
+    apiClient.get<PagedResult<VendorInvoiceDto>>('/api/vendor-invoices/paged', { params }),
   getById: (id: number) => apiClient.get<VendorInvoiceDto>(`/api/vendor-invoices/${id}`),
   create: (data: any) => apiClient.post<VendorInvoiceDto>('/api/vendor-invoices', data),
   update: (id: number, data: any) => apiClient.put(`/api/vendor-invoices/${id}`, data),
@@ -219,29 +356,76 @@ export const vendorInvoicesApi = {
 };
 
 export const reportsApi = {
-  collectionStatus: (buildingId: number, period?: string, includeNotGenerated?: boolean) =>
-    apiClient.get<CollectionStatusReport>(`/api/reports/collection-status/${buildingId}`, { params: { period, includeNotGenerated } }),
+  collectionStatus: (buildingId: number, period?: string, includeNotGenerated?: boolean, party?: BillingParty) =>
+    apiClient.get<CollectionStatusReport>(`/api/reports/collection-status/${buildingId}`, { params: { period, includeNotGenerated, party } }),
   collectionUnitDetail: (buildingId: number, unitId: number, period?: string) =>
     apiClient.get(`/api/reports/collection-status/${buildingId}/unit/${unitId}`, { params: { period } }),
-  aging: (buildingId: number) =>
-    apiClient.get<AgingReport>(`/api/reports/aging/${buildingId}`),
-  collectionStatusCsv: (buildingId: number, period?: string, includeNotGenerated?: boolean, lang?: string) =>
-    apiClient.get(`/api/reports/collection-status/${buildingId}/csv`, { params: { period, includeNotGenerated, lang }, responseType: 'blob' }),
-  agingCsv: (buildingId: number, lang?: string) =>
-    apiClient.get(`/api/reports/aging/${buildingId}/csv`, { params: { lang }, responseType: 'blob' }),
+  aging: (buildingId: number, party?: BillingParty) =>
+    apiClient.get<AgingReport>(`/api/reports/aging/${buildingId}`, { params: { party } }),
+  collectionStatusPaged: (buildingId: number, params: GridQuery) =>
+    apiClient.get<PagedResult<CollectionRowDto>>(`/api/reports/collection-status/${buildingId}/paged`, { params }),
+  collectionStatusCsv: (buildingId: number, period?: string, includeNotGenerated?: boolean, lang?: string, party?: BillingParty) =>
+    apiClient.get(`/api/reports/collection-status/${buildingId}/csv`, { params: { period, includeNotGenerated, lang, party }, responseType: 'blob' }),
+  agingCsv: (buildingId: number, lang?: string, party?: BillingParty) =>
+    apiClient.get(`/api/reports/aging/${buildingId}/csv`, { params: { lang, party }, responseType: 'blob' }),
   incomeExpenses: (buildingId: number, from?: string, to?: string) =>
     apiClient.get<import('../types').IncomeExpensesReport>(`/api/reports/income-expenses/${buildingId}`, { params: { from, to } }),
   incomeExpensesCsv: (buildingId: number, from?: string, to?: string, lang?: string) =>
     apiClient.get(`/api/reports/income-expenses/${buildingId}/csv`, { params: { from, to, lang }, responseType: 'blob' }),
   dashboardCollection: (period?: string) =>
     apiClient.get<import('../types').CollectionSummaryDto[]>(`/api/reports/dashboard/collection`, { params: { period } }),
+  budgetVsActual: (buildingId: number, year: number) =>
+    apiClient.get<BudgetVsActualReport>(`/api/reports/budget-vs-actual/${buildingId}`, { params: { year } }),
+};
+
+// ─── Budgets ────────────────────────────────────────────
+
+export const budgetsApi = {
+  getAll: (buildingId: number) => apiClient.get<BuildingBudgetDto[]>('/api/budgets', { params: { buildingId } }),
+  get: (buildingId: number, year: number) => apiClient.get<BuildingBudgetDto>(`/api/budgets/${buildingId}/${year}`),
+  save: (buildingId: number, year: number, data: SaveBuildingBudgetRequest) =>
+    apiClient.put<BuildingBudgetDto>(`/api/budgets/${buildingId}/${year}`, data),
+  approve: (buildingId: number, year: number) => apiClient.post(`/api/budgets/${buildingId}/${year}/approve`),
+  reopen: (buildingId: number, year: number) => apiClient.post(`/api/budgets/${buildingId}/${year}/reopen`),
+  suggestedFee: (buildingId: number, year: number) =>
+    apiClient.get<SuggestedHOAFeeDto>(`/api/budgets/${buildingId}/${year}/suggested-fee`),
+};
+
+export const paymentPlansApi = {
+  getAll: (buildingId: number, status?: PaymentPlanStatus) =>
+    apiClient.get<PaymentPlanDto[]>('/api/payment-plans', { params: { buildingId, status } }),
+  get: (id: number) => apiClient.get<PaymentPlanDto>(`/api/payment-plans/${id}`),
+  getUnitDebt: (unitId: number, party?: BillingParty) =>
+    apiClient.get<UnitDebtDto>(`/api/payment-plans/unit/${unitId}/debt`, { params: { party } }),
+  create: (data: CreatePaymentPlanRequest) => apiClient.post<PaymentPlanDto>('/api/payment-plans', data),
+  approve: (id: number, data: ApprovePaymentPlanRequest) => apiClient.post(`/api/payment-plans/${id}/approve`, data),
+  reject: (id: number, reason?: string) => apiClient.post(`/api/payment-plans/${id}/reject`, { reason }),
+  cancel: (id: number) => apiClient.post(`/api/payment-plans/${id}/cancel`),
+  linkStandingOrder: (id: number, standingOrderId: number | null) =>
+    apiClient.put(`/api/payment-plans/${id}/standing-order`, { standingOrderId }),
+  check: (buildingId: number) =>
+    apiClient.post<PaymentPlanCheckResult>('/api/payment-plans/check', null, { params: { buildingId } }),
+  getMy: () => apiClient.get<PaymentPlanDto[]>('/api/payment-plans/my'),
+  request: (data: RequestPaymentPlanRequest) => apiClient.post<PaymentPlanDto>('/api/payment-plans/request', data),
 };
 
 // ─── Reminder Notifications ─────────────────────────────
 
 export const smsApi = {
-  getTemplates: (lang?: string) =>
-    apiClient.get<SmsTemplateDto[]>('/api/notifications/sms/templates', { params: lang ? { lang } : undefined }),
+  getTemplates: (lang?: string, includeInactive?: boolean) =>
+    apiClient.get<SmsTemplateDto[]>('/api/notifications/sms/templates', { params: { lang: lang || undefined, includeInactive: includeInactive || undefined } }),
+  getTemplate: (id: number) =>
+    apiClient.get<SmsTemplateDto>(`/api/notifications/sms/templates/${id}`),
+  createTemplate: (data: SaveSmsTemplateRequest) =>
+    apiClient.post<SmsTemplateDto>('/api/notifications/sms/templates', data),
+  updateTemplate: (id: number, data: SaveSmsTemplateRequest) =>
+    apiClient.put<SmsTemplateDto>(`/api/notifications/sms/templates/${id}`, data),
+  getTemplateVersions: (id: number) =>
+    apiClient.get<SmsTemplateVersionDto[]>(`/api/notifications/sms/templates/${id}/versions`),
+  restoreTemplateVersion: (id: number, version: number) =>
+    apiClient.post<SmsTemplateDto>(`/api/notifications/sms/templates/${id}/versions/${version}/restore`),
+  previewTemplate: (data: PreviewSmsTemplateRequest) =>
+    apiClient.post<SmsTemplatePreviewDto>('/api/notifications/sms/templates/preview', data),
   getCampaigns: (params?: { buildingId?: number; period?: string }) =>
     apiClient.get<SmsCampaignDto[]>('/api/notifications/sms/campaigns', { params }),
   getCampaign: (id: number) =>
@@ -254,6 +438,43 @@ export const smsApi = {
     apiClient.get<{ message: string; subject?: string }>(`/api/notifications/sms/campaigns/${campaignId}/recipients/${recipientId}/preview`),
   sendCampaign: (campaignId: number) =>
     apiClient.post<SendCampaignResult>(`/api/notifications/sms/campaigns/${campaignId}/send`, { confirm: true }),
+  retryCampaign: (campaignId: number, data: RetryCampaignRequest) =>
+    apiClient.post<SendCampaignResult>(`/api/notifications/sms/campaigns/${campaignId}/retry`, data),
+  getStandInOutbox: (count?: number) =>
+    apiClient.get<StandInOutboxDto>('/api/notifications/sms/outbox', { params: { count } }),
+};
+
+// Notification preferences & web push
+export const notificationsApi = {
+  getPreferences: () => apiClient.get<NotificationPreferencesDto>('/api/notifications/preferences'),
+  savePreferences: (data: SaveNotificationPreferencesRequest) =>
+    apiClient.put<NotificationPreferencesDto>('/api/notifications/preferences', data),
+  getMyConsentLog: () => apiClient.get<NotificationConsentLogDto[]>('/api/notifications/consent-log'),
+  getTenantPreferences: (tenantProfileId: number) =>
+    apiClient.get<NotificationPreferencesDto>(`/api/notifications/tenants/${tenantProfileId}/preferences`),
+  getTenantConsentLog: (tenantProfileId: number) =>
+    apiClient.get<NotificationConsentLogDto[]>(`/api/notifications/tenants/${tenantProfileId}/consent-log`),
+  getPushPublicKey: () => apiClient.get<{ publicKey: string | null }>('/api/notifications/push/public-key'),
+  savePushSubscription: (data: SavePushSubscriptionRequest) =>
+    apiClient.post('/api/notifications/push/subscriptions', data),
+  deletePushSubscription: (endpoint: string) =>
+    apiClient.delete('/api/notifications/push/subscriptions', { params: { endpoint } }),
+  sendTestPush: (data: { title: string; body: string; url?: string }) =>
+    apiClient.post('/api/notifications/push/test', data),
+};
+
+// Dunning
+export const dunningApi = {
+  getSchedule: (buildingId: number) =>
+    apiClient.get<DunningStepDto[]>(`/api/dunning/schedule/${buildingId}`),
+  saveSchedule: (buildingId: number, steps: DunningStepRequest[]) =>
+    apiClient.put<DunningStepDto[]>(`/api/dunning/schedule/${buildingId}`, { steps }),
+  run: (buildingId: number) =>
+    apiClient.post<DunningRunResult>('/api/dunning/run', null, { params: { buildingId } }),
+  getDebtors: (buildingId: number) =>
+    apiClient.get<DunningDebtorDto[]>('/api/dunning/debtors', { params: { buildingId } }),
+  getUnitNotices: (unitId: number) =>
+    apiClient.get<DunningNoticeDto[]>(`/api/dunning/units/${unitId}/notices`),
 };
 
 // Ticket Messages (AI Agent)
@@ -273,6 +494,8 @@ export const accountingApi = {
   getMyPayments: () => apiClient.get<TenantPaymentDto[]>('/api/accounting/my-payments'),
   getReceipt: (paymentId: number) =>
     apiClient.get<{ pdfUrl: string; docNumber: string }>(`/api/accounting/my-payments/${paymentId}/receipt`),
+  issueReceipt: (paymentId: number) =>
+    apiClient.post<{ docId: string; docNumber: string; pdfUrl: string }>(`/api/accounting/payments/${paymentId}/issue-receipt`),
   getInvoices: (period?: string) =>
     apiClient.get<ManagerInvoiceDto[]>('/api/accounting/invoices', { params: period ? { period } : undefined }),
   issueInvoice: (data: { buildingId: number; period: string }) =>
@@ -296,6 +519,8 @@ export const tenantMessagesApi = {
     apiClient.get<PaymentAnalysisDto[]>(`/api/tenant-messages/payment-analysis/${buildingId}`),
   sendPaymentReminders: (buildingId: number) =>
     apiClient.post<{ sent: number; message: string }>('/api/tenant-messages/send-payment-reminders', { buildingId }),
+  sendAnnouncement: (buildingId: number, data: { subject: string; body: string }) =>
+    apiClient.post<{ recipients: number; notified: number; message: string }>(`/api/tenant-messages/building/${buildingId}/announce`, data),
   getMyMessages: () =>
     apiClient.get<TenantMessageDto[]>('/api/tenant-messages/my-messages'),
   getMyUnreadCount: () =>
@@ -311,3 +536,24 @@ export const tenantMessagesApi = {
   reply: (data: SendTenantMessageRequest) =>
     apiClient.post<TenantMessageDto>('/api/tenant-messages/reply', data),
 };
+
+// ─── Saved Grid Views ─────────────────────────────────
+
+export const gridViewsApi = {
+  getViews: (gridKey: string) =>
+    apiClient.get<SavedGridViewDto[]>('/api/grid-views', { params: { gridKey } }),
+  create: (data: SaveGridViewRequest) =>
+    apiClient.post<SavedGridViewDto>('/api/grid-views', data),
+  update: (id: number, data: SaveGridViewRequest) =>
+    apiClient.put<SavedGridViewDto>(`/api/grid-views/${id}`, data),
+  delete: (id: number) =>
+    apiClient.delete(`/api/grid-views/${id}`),
+};
+
+// ─── Permissions ──────────────────────────────────────
+
+export const permissionsApi = {
+  getUsers: () => apiClient.get<UserPermissionsDto[]>('/api/permissions/users'),
+  updateUser: (userId: string, data: UpdateUserPermissionsRequest) =>
+    apiClient.put<UserPermissionsDto>(`/api/permissions/users/${userId}`, data),
+};
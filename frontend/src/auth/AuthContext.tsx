@@ -1,46 +1,124 @@
-import React, { createContext, useContext, useState, useCallback } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
 import { authApi } from '../api/services';
-import { setTokens, clearTokens, getRefreshToken } from '../api/client';
-import type { User, LoginResponse } from '../types';
+import { startSession, endSession, refreshSession, onSessionChange } from '../api/client';
+import type { User, LoginResponse, PermissionResource, PermissionAction } from '../types';
+
+/** The password was right; the sign-in finishes once a code is verified or an authenticator enrolled. */
+export interface TwoFactorChallenge {
+  step: 'Verify' | 'Enroll';
+  challengeToken: string;
+  email: string;
+}
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  /** True until the session of a previous visit has been restored (or found missing). */
+  isRestoring: boolean;
+  twoFactorChallenge: TwoFactorChallenge | null;
+  /** Resolves to false when a two-factor step has to come first. */
+  login: (email: string, password: string) => Promise<boolean>;
+  /** Signs in with a login or registration response; false when it is a two-factor challenge instead. */
+  establishSession: (data: LoginResponse) => boolean;
+  verifyTwoFactor: (code: string, rememberDevice: boolean) => Promise<void>;
+  cancelTwoFactor: () => void;
+  /** Reloads the signed-in user, after a profile change or email confirmation. */
+  refreshUser: () => Promise<void>;
   logout: () => void;
   hasRole: (role: string) => boolean;
   hasAnyRole: (...roles: string[]) => boolean;
+  /** Whether the user may do the action on the resource in the building, or in at least one building when none is given. */
+  can: (resource: PermissionResource, action?: PermissionAction, buildingId?: number) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const userFromSession = (data: LoginResponse): User => ({
+  id: data.userId,
+  email: data.email,
+  fullName: data.fullName,
+  phone: data.phone,
+  emailConfirmed: data.emailConfirmed,
+  registrationStatus: data.registrationStatus,
+  permissions: data.permissions,
+  roles: data.roles,
+});
+
+const sameAccess = (user: User, session: LoginResponse) =>
+  user.roles.join() === session.roles.join() && JSON.stringify(user.permissions) === JSON.stringify(session.permissions);
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
+
+  useEffect(() => {
+    // Sessions started, refreshed or ended in any tab, and sessions lost when the refresh cookie is rejected
+    onSessionChange((session) => {
+      setUser(prev => {
+        if (!session) return null;
+        return prev?.id === session.userId && sameAccess(prev, session) ? prev : userFromSession(session);
+      });
+    });
+
+    // Restore the session of a previous visit from the refresh cookie
+    let cancelled = false;
+    refreshSession()
+      .then(() => authApi.me())
+      .then(res => { if (!cancelled) setUser(res.data); })
+      .catch(() => undefined)
+      .finally(() => { if (!cancelled) setIsRestoring(false); });
+
+    return () => {
+      cancelled = true;
+      onSessionChange(null);
+    };
+  }, []);
+
+  const establishSession = useCallback((data: LoginResponse) => {
+    if (data.twoFactorStep && data.challengeToken) {
+      setTwoFactorChallenge({ step: data.twoFactorStep, challengeToken: data.challengeToken, email: data.email });
+      return false;
+    }
+    setTwoFactorChallenge(null);
+    startSession(data);
+    setUser(userFromSession(data));
+    return true;
+  }, []);
 
   const login = useCallback(async (email: string, password: string) => {
     setIsLoading(true);
     try {
       const response = await authApi.login({ email, password });
-      const data: LoginResponse = response.data;
-      setTokens(data.accessToken, data.refreshToken);
-      setUser({
-        id: data.userId,
-        email: data.email,
-        fullName: data.fullName,
-        phone: data.phone,
-        roles: data.roles,
-      });
+      return establishSession(response.data);
     } finally {
       setIsLoading(false);
     }
+  }, [establishSession]);
+
+  const verifyTwoFactor = useCallback(async (code: string, rememberDevice: boolean) => {
+    if (!twoFactorChallenge) return;
+    setIsLoading(true);
+    try {
+      const response = await authApi.verifyTwoFactor({ challengeToken: twoFactorChallenge.challengeToken, code, rememberDevice });
+      establishSession(response.data);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [twoFactorChallenge, establishSession]);
+
+  const cancelTwoFactor = useCallback(() => setTwoFactorChallenge(null), []);
+
+  const refreshUser = useCallback(async () => {
+    const res = await authApi.me();
+    setUser(res.data);
   }, []);
 
   const logout = useCallback(() => {
-    const rt = getRefreshToken();
-    authApi.logout(rt || undefined).catch(() => {});
-    clearTokens();
+    authApi.logout().catch(() => {});
+    endSession();
     setUser(null);
   }, []);
 
@@ -52,15 +130,29 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return roles.some(r => user?.roles.includes(r));
   }, [user]);
 
+  const can = useCallback((resource: PermissionResource, action: PermissionAction = 'View', buildingId?: number) => {
+    return (user?.permissions ?? []).some(p =>
+      p.resource === resource
+      && (action === 'View' || p.action === 'Manage')
+      && (buildingId === undefined || p.buildingId == null || p.buildingId === buildingId));
+  }, [user]);
+
   return (
     <AuthContext.Provider value={{
       user,
       isAuthenticated: !!user,
       isLoading,
+      isRestoring,
+      twoFactorChallenge,
       login,
+      establishSession,
+      verifyTwoFactor,
+      cancelTwoFactor,
+      refreshUser,
       logout,
       hasRole,
       hasAnyRole,
+      can,
     }}>
       {children}
     </AuthContext.Provider>
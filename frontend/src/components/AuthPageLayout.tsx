@@ -0,0 +1,35 @@
+import React from 'react';
+import { Box, Card, CardContent, Typography } from '@mui/material';
+
+/** The branded card the signed-out pages (password reset, email confirmation) sit in. */
+const AuthPageLayout: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <Box sx={{
+    minHeight: '100vh',
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    background: 'linear-gradient(135deg, #1a56a0 0%, #123d73 50%, #0d2b52 100%)',
+    p: 2,
+  }}>
+    <Card sx={{
+      maxWidth: 440, width: '100%',
+      borderRadius: 3,
+      boxShadow: '0 20px 60px rgba(0,0,0,0.3), 0 1px 3px rgba(0,0,0,0.1)',
+    }}>
+      <CardContent sx={{ p: { xs: 3, sm: 4 } }}>
+        <Box sx={{ display: 'flex', justifyContent: 'center', mb: 1 }}>
+          <Box
+            component="img"
+            src="/logo.png"
+            alt="HomeHero"
+            sx={{ height: { xs: 56, sm: 64 }, width: 'auto', objectFit: 'contain' }}
+          />
+        </Box>
+        <Typography variant="h6" align="center" fontWeight={600} sx={{ mb: 2 }}>{title}</Typography>
+        {children}
+      </CardContent>
+    </Card>
+  </Box>
+);
+
+export default AuthPageLayout;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper, Typography } from '@mui/material';
+import type { UnitChargeDto } from '../types';
+import { formatCurrency, formatDateLocal } from '../utils/dateUtils';
+import { useTranslation } from 'react-i18next';
+
+interface ChargeAllocation {
+  charge: UnitChargeDto;
+  allocated: number;
+}
+
+/** Spreads an amount over the open charges oldest first (due date, then id) — the order the server allocates in. */
+const allocateOldestFirst = (charges: UnitChargeDto[], amount: number): ChargeAllocation[] => {
+  let remaining = amount;
+  return charges
+    .filter(c => c.balance > 0)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.id - b.id)
+    .map(charge => {
+      const allocated = Math.max(0, Math.min(charge.balance, remaining));
+      remaining = Math.round((remaining - allocated) * 100) / 100;
+      return { charge, allocated };
+    });
+};
+
+interface Props {
+  charges: UnitChargeDto[];
+  amount: number;
+}
+
+/** How a payment will be split over the selected charges. */
+const ChargeAllocationPreview: React.FC<Props> = ({ charges, amount }) => {
+  const { t } = useTranslation();
+  const rows = allocateOldestFirst(charges, amount);
+  if (rows.length === 0) return null;
+
+  return (
+    <TableContainer component={Paper} variant="outlined">
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', px: 1.5, pt: 1 }}>{t('allocation.hint')}</Typography>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>{t('allocation.charge')}</TableCell>
+            <TableCell>{t('allocation.dueDate')}</TableCell>
+            <TableCell align="right">{t('allocation.balance')}</TableCell>
+            <TableCell align="right">{t('allocation.applied')}</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map(({ charge, allocated }) => (
+            <TableRow key={charge.id} sx={{ opacity: allocated > 0 ? 1 : 0.5 }}>
+              <TableCell>
+                {charge.period}
+                <Typography variant="caption" display="block" color="text.secondary">{t(`enums.unitChargeType.${charge.chargeType}`, charge.chargeType)}</Typography>
+              </TableCell>
+              <TableCell>{formatDateLocal(charge.dueDate)}</TableCell>
+              <TableCell align="right">{formatCurrency(charge.balance)}</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600, color: allocated >= charge.balance ? 'success.main' : allocated > 0 ? 'warning.main' : undefined }}>
+                {formatCurrency(allocated)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default ChargeAllocationPreview;
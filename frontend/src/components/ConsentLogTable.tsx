@@ -0,0 +1,56 @@
+import React from 'react';
+import { Table, TableHead, TableRow, TableCell, TableBody, Typography } from '@mui/material';
+import { useTranslation } from 'react-i18next';
+import type { NotificationConsentLogDto } from '../types';
+import { formatDateLocal } from '../utils/dateUtils';
+
+/** A tenant's consent changes, newest first: on their notification settings and in the managers' Tenants page. */
+const ConsentLogTable: React.FC<{ entries: NotificationConsentLogDto[] }> = ({ entries }) => {
+  const { t } = useTranslation();
+
+  const formatValue = (entry: NotificationConsentLogDto, value?: string | null) => {
+    if (value == null) return t('notificationSettings.consent.none');
+    if (value === 'True' || value === 'False') return value === 'True' ? t('app.yes') : t('app.no');
+    switch (entry.setting) {
+      case 'PreferredChannel': return t(`reminders.channel.${value}`);
+      case 'Language': return value === 'en' ? t('app.english') : t('app.hebrew');
+      case 'Terms': return t('notificationSettings.consent.accepted');
+      default: return value;
+    }
+  };
+
+  if (entries.length === 0)
+    return <Typography variant="body2" color="text.secondary">{t('notificationSettings.consent.empty')}</Typography>;
+
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>{t('notificationSettings.consent.date')}</TableCell>
+          <TableCell>{t('notificationSettings.consent.setting')}</TableCell>
+          <TableCell>{t('notificationSettings.consent.change')}</TableCell>
+          <TableCell>{t('notificationSettings.consent.source')}</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {entries.map(e => (
+          <TableRow key={e.id}>
+            <TableCell>{formatDateLocal(e.changedAtUtc)}</TableCell>
+            <TableCell>{t(`notificationSettings.setting.${e.setting}`, { defaultValue: e.setting })}</TableCell>
+            <TableCell>
+              {e.oldValue != null && <>{formatValue(e, e.oldValue)} → </>}
+              {formatValue(e, e.newValue)}
+            </TableCell>
+            <TableCell>
+              {t(`notificationSettings.consent.sources.${e.source}`)}
+              {e.changedByName && <Typography variant="caption" color="text.secondary" display="block">{e.changedByName}</Typography>}
+              {e.ipAddress && <Typography variant="caption" color="text.secondary" display="block">{e.ipAddress}</Typography>}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default ConsentLogTable;
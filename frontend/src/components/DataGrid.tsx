@@ -0,0 +1,414 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  Box, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, TableSortLabel, TablePagination,
+  Paper, TextField, MenuItem, InputAdornment, IconButton, Tooltip, Menu, Checkbox, ListItemText,
+  Button, Dialog, DialogTitle, DialogContent, DialogActions, FormControlLabel, Divider, Stack,
+  Typography, LinearProgress, Alert, useMediaQuery, useTheme
+} from '@mui/material';
+import { Search, ViewColumn, BookmarkBorder, Star, StarBorder, Delete, RestartAlt, Save } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { gridViewsApi } from '../api/services';
+import type { GridQuery, PagedResult, SavedGridViewDto, SortDirection } from '../types';
+
+export interface DataGridColumn<T> {
+  /** Column id; also the `sortBy` key sent to the server */
+  field: string;
+  headerName: string;
+  render: (row: T) => React.ReactNode;
+  sortable?: boolean;
+  align?: 'left' | 'right' | 'center';
+  /** Hidden until the user turns it on in the column chooser */
+  defaultHidden?: boolean;
+  /** Set to false for columns that must always show (e.g. actions) */
+  hideable?: boolean;
+}
+
+export interface DataGridFilter {
+  /** Query-string key, passed through to the endpoint as-is */
+  key: string;
+  label: string;
+  options: { value: string; label: string }[];
+  allLabel?: string;
+  minWidth?: number;
+}
+
+interface DataGridProps<T> {
+  /** Identifies the grid for saved views, e.g. "manager.workOrders" */
+  gridKey: string;
+  columns: DataGridColumn<T>[];
+  /** Keep stable with useCallback — a new function triggers a reload */
+  fetchRows: (query: GridQuery) => Promise<PagedResult<T>>;
+  rowKey: (row: T) => string | number;
+  filters?: DataGridFilter[];
+  defaultSort?: { field: string; dir: SortDirection };
+  emptyText: string;
+  /** Card layout used on small screens instead of the table */
+  renderMobileCard?: (row: T) => React.ReactNode;
+  /** Extra controls rendered at the end of the toolbar */
+  toolbar?: React.ReactNode;
+  /** Bump after a mutation to reload the current page */
+  refreshKey?: number;
+}
+
+/** Everything the URL (and a saved view) carries. */
+interface GridState {
+  page: number;
+  pageSize: number;
+  sortBy?: string;
+  sortDir?: SortDirection;
+  search: string;
+  filters: Record<string, string>;
+  hidden: string[];
+}
+
+type SavedState = Omit<GridState, 'page'>;
+
+const PAGE_SIZES = [10, 25, 50, 100];
+const DEFAULT_PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 400;
+
+const splitKeys = (value: string) => value.split(',').filter(Boolean);
+
+function readState(params: URLSearchParams, filterKeys: string[], defaultHidden: string[], sortField?: string, sortDir?: SortDirection): GridState {
+  const pageSize = Number(params.get('pageSize'));
+  const hidden = params.get('hidden');
+  const dir = params.get('sortDir');
+  return {
+    page: Math.max(1, Number(params.get('page')) || 1),
+    pageSize: PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_PAGE_SIZE,
+    sortBy: params.get('sortBy') ?? sortField,
+    sortDir: dir === 'asc' || dir === 'desc' ? dir : sortDir,
+    search: params.get('search') ?? '',
+    filters: Object.fromEntries(filterKeys.map(k => [k, params.get(k) ?? ''])),
+    hidden: hidden !== null ? splitKeys(hidden) : defaultHidden,
+  };
+}
+
+/** Serialises the state, leaving out anything that equals the grid's defaults so URLs stay short. */
+function writeState(state: GridState, defaultHidden: string[], sortField?: string, sortDir?: SortDirection): URLSearchParams {
+  const params = new URLSearchParams();
+  if (state.page > 1) params.set('page', String(state.page));
+  if (state.pageSize !== DEFAULT_PAGE_SIZE) params.set('pageSize', String(state.pageSize));
+  if (state.sortBy && (state.sortBy !== sortField || state.sortDir !== sortDir)) {
+    params.set('sortBy', state.sortBy);
+    params.set('sortDir', state.sortDir ?? 'asc');
+  }
+  if (state.search) params.set('search', state.search);
+  Object.entries(state.filters).forEach(([k, v]) => { if (v) params.set(k, v); });
+  const hidden = [...state.hidden].sort().join(',');
+  if (hidden !== [...defaultHidden].sort().join(',')) params.set('hidden', hidden);
+  return params;
+}
+
+function parseSavedState(view: SavedGridViewDto): SavedState | null {
+  try { return JSON.parse(view.stateJson) as SavedState; } catch { return null; }
+}
+
+function DataGrid<T>({
+  gridKey, columns, fetchRows, rowKey, filters = [], defaultSort, emptyText, renderMobileCard, toolbar, refreshKey = 0,
+}: DataGridProps<T>) {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Primitive keys so the memo/callbacks below survive parents re-creating their column and filter arrays
+  const queryKey = searchParams.toString();
+  const filterKeysKey = filters.map(f => f.key).join(',');
+  const defaultHiddenKey = columns.filter(c => c.defaultHidden).map(c => c.field).join(',');
+  const sortField = defaultSort?.field;
+  const sortDir = defaultSort?.dir;
+
+  const state = useMemo(
+    () => readState(new URLSearchParams(queryKey), splitKeys(filterKeysKey), splitKeys(defaultHiddenKey), sortField, sortDir),
+    [queryKey, filterKeysKey, defaultHiddenKey, sortField, sortDir]);
+
+  const update = useCallback((patch: Partial<GridState>, replace = false) => {
+    setSearchParams(writeState({ ...state, ...patch }, splitKeys(defaultHiddenKey), sortField, sortDir), { replace });
+  }, [state, defaultHiddenKey, sortField, sortDir, setSearchParams]);
+
+  const [result, setResult] = useState<PagedResult<T> | null>(null);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState('');
+
+  // ── Saved views ──
+  const [views, setViews] = useState<SavedGridViewDto[] | null>(null);
+  const [viewsAnchor, setViewsAnchor] = useState<HTMLElement | null>(null);
+  const [columnsAnchor, setColumnsAnchor] = useState<HTMLElement | null>(null);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [viewDefault, setViewDefault] = useState(false);
+  const [viewError, setViewError] = useState('');
+
+  const applyView = useCallback((view: SavedGridViewDto, replace = false) => {
+    const saved = parseSavedState(view);
+    if (!saved) return;
+    setSearchParams(writeState({ ...saved, page: 1 }, splitKeys(defaultHiddenKey), sortField, sortDir), { replace });
+  }, [defaultHiddenKey, sortField, sortDir, setSearchParams]);
+
+  // Load views once; a default view applies only when the page was opened without grid parameters
+  const [initialQuery] = useState(queryKey);
+  const viewsLoaded = views !== null;
+  useEffect(() => {
+    if (viewsLoaded) return;
+    let cancelled = false;
+    gridViewsApi.getViews(gridKey)
+      .then(r => {
+        if (cancelled) return;
+        const preferred = r.data.find(v => v.isDefault);
+        if (preferred && !initialQuery) applyView(preferred, true);
+        setViews(r.data);
+      })
+      .catch(() => { if (!cancelled) setViews([]); });
+    return () => { cancelled = true; };
+  }, [gridKey, initialQuery, applyView, viewsLoaded]);
+
+  const currentViewParams = useMemo(() => {
+    const params = new URLSearchParams(queryKey);
+    params.delete('page');
+    return params.toString();
+  }, [queryKey]);
+
+  const activeView = views?.find(v => {
+    const saved = parseSavedState(v);
+    return saved && writeState({ ...saved, page: 1 }, splitKeys(defaultHiddenKey), sortField, sortDir).toString() === currentViewParams;
+  });
+
+  const saveView = async () => {
+    const name = viewName.trim();
+    if (!name) return;
+    const saved: SavedState = {
+      pageSize: state.pageSize, sortBy: state.sortBy, sortDir: state.sortDir,
+      search: state.search, filters: state.filters, hidden: state.hidden,
+    };
+    const request = { gridKey, name, stateJson: JSON.stringify(saved), isDefault: viewDefault };
+    try {
+      // Saving under an existing name overwrites that view
+      const existing = views?.find(v => v.name === name);
+      const res = existing ? await gridViewsApi.update(existing.id, request) : await gridViewsApi.create(request);
+      setViews(prev => [...(prev ?? []).filter(v => v.id !== res.data.id).map(v => viewDefault ? { ...v, isDefault: false } : v), res.data]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      setSaveOpen(false);
+    } catch (err) {
+      const detail = (err as { response?: { data?: { message?: string } } }).response?.data?.message;
+      setViewError(detail || t('grid.failedSaveView'));
+    }
+  };
+
+  const toggleDefault = async (view: SavedGridViewDto) => {
+    const isDefault = !view.isDefault;
+    try {
+      await gridViewsApi.update(view.id, { gridKey, name: view.name, stateJson: view.stateJson, isDefault });
+      setViews(prev => (prev ?? []).map(v => v.id === view.id ? { ...v, isDefault } : isDefault ? { ...v, isDefault: false } : v));
+    } catch { setLoadError(t('grid.failedSaveView')); }
+  };
+
+  const deleteView = async (view: SavedGridViewDto) => {
+    try {
+      await gridViewsApi.delete(view.id);
+      setViews(prev => (prev ?? []).filter(v => v.id !== view.id));
+    } catch { setLoadError(t('grid.failedSaveView')); }
+  };
+
+  // ── Rows ──
+  const requestKey = `${queryKey}|${refreshKey}`;
+
+  useEffect(() => {
+    // Wait for saved views so a default view doesn't cause a second fetch
+    if (!viewsLoaded) return;
+    let cancelled = false;
+    const query: GridQuery = { page: state.page, pageSize: state.pageSize, sortBy: state.sortBy, sortDir: state.sortDir };
+    if (state.search) query.search = state.search;
+    Object.entries(state.filters).forEach(([k, v]) => { if (v) query[k] = v; });
+
+    fetchRows(query)
+      .then(res => {
+        if (cancelled) return;
+        // Deleting the last row of the last page leaves us past the end — step back
+        const lastPage = Math.max(1, Math.ceil(res.totalCount / state.pageSize));
+        if (res.items.length === 0 && state.page > lastPage) {
+          update({ page: lastPage }, true);
+          return;
+        }
+        setResult(res);
+        setLoadError('');
+        setLoadedKey(`${queryKey}|${refreshKey}`);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setLoadError(t('grid.failedLoad'));
+        setLoadedKey(`${queryKey}|${refreshKey}`);
+      });
+    return () => { cancelled = true; };
+  }, [viewsLoaded, state, queryKey, refreshKey, fetchRows, update, t]);
+
+  const loading = loadedKey !== requestKey;
+
+  // ── Search (debounced into the URL) ──
+  const [searchText, setSearchText] = useState(state.search);
+  const [syncedSearch, setSyncedSearch] = useState(state.search);
+  if (state.search !== syncedSearch) {
+    // URL changed underneath us (saved view, back button) — follow it
+    setSyncedSearch(state.search);
+    setSearchText(state.search);
+  }
+  useEffect(() => {
+    if (searchText === state.search) return;
+    const handle = setTimeout(() => update({ search: searchText, page: 1 }, true), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(handle);
+  }, [searchText, state.search, update]);
+
+  const handleSort = (field: string) => {
+    const dir: SortDirection = state.sortBy === field && state.sortDir === 'asc' ? 'desc' : 'asc';
+    update({ sortBy: field, sortDir: dir, page: 1 });
+  };
+
+  const toggleColumn = (field: string) => {
+    const hidden = state.hidden.includes(field) ? state.hidden.filter(f => f !== field) : [...state.hidden, field];
+    update({ hidden });
+  };
+
+  const visibleColumns = columns.filter(c => c.hideable === false || !state.hidden.includes(c.field));
+  const rows = result?.items ?? [];
+
+  const pagination = (
+    <TablePagination
+      component="div"
+      count={result?.totalCount ?? 0}
+      page={Math.max(0, state.page - 1)}
+      rowsPerPage={state.pageSize}
+      rowsPerPageOptions={PAGE_SIZES}
+      onPageChange={(_, p) => update({ page: p + 1 })}
+      onRowsPerPageChange={e => update({ pageSize: Number(e.target.value), page: 1 })}
+      labelRowsPerPage={t('grid.rowsPerPage')}
+      labelDisplayedRows={({ from, to, count }) => t('grid.displayedRows', { from, to, count })}
+    />
+  );
+
+  return (
+    <Box>
+      {loadError && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setLoadError('')}>{loadError}</Alert>}
+
+      <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+        <TextField
+          size="small" placeholder={t('grid.search')} value={searchText} onChange={e => setSearchText(e.target.value)}
+          sx={{ minWidth: 220, flex: { xs: '1 1 100%', sm: '0 1 auto' } }}
+          slotProps={{ input: { startAdornment: <InputAdornment position="start"><Search fontSize="small" /></InputAdornment> } }}
+        />
+        {filters.map(f => (
+          <TextField key={f.key} select size="small" label={f.label} value={state.filters[f.key] ?? ''}
+            onChange={e => update({ filters: { ...state.filters, [f.key]: e.target.value }, page: 1 })}
+            sx={{ minWidth: f.minWidth ?? 160 }}>
+            <MenuItem value="">{f.allLabel ?? t('app.all')}</MenuItem>
+            {f.options.map(o => <MenuItem key={o.value} value={o.value}>{o.label}</MenuItem>)}
+          </TextField>
+        ))}
+        <Box sx={{ flexGrow: 1 }} />
+        {toolbar}
+        <Button size="small" startIcon={<BookmarkBorder />} onClick={e => setViewsAnchor(e.currentTarget)}>
+          {activeView ? activeView.name : t('grid.views')}
+        </Button>
+        {!isMobile && (
+          <Tooltip title={t('grid.columns')}>
+            <IconButton size="small" onClick={e => setColumnsAnchor(e.currentTarget)}><ViewColumn /></IconButton>
+          </Tooltip>
+        )}
+      </Box>
+
+      <Menu anchorEl={columnsAnchor} open={!!columnsAnchor} onClose={() => setColumnsAnchor(null)}>
+        {columns.filter(c => c.hideable !== false).map(c => (
+          <MenuItem key={c.field} dense onClick={() => toggleColumn(c.field)}>
+            <Checkbox size="small" checked={!state.hidden.includes(c.field)} sx={{ p: 0.5, mr: 1 }} />
+            <ListItemText primary={c.headerName} />
+          </MenuItem>
+        ))}
+      </Menu>
+
+      <Menu anchorEl={viewsAnchor} open={!!viewsAnchor} onClose={() => setViewsAnchor(null)}>
+        {(views ?? []).map(v => (
+          <MenuItem key={v.id} dense selected={v.id === activeView?.id} onClick={() => { applyView(v); setViewsAnchor(null); }}>
+            <ListItemText primary={v.name} sx={{ mr: 2 }} />
+            <Tooltip title={t('grid.defaultView')}>
+              <IconButton size="small" onClick={e => { e.stopPropagation(); toggleDefault(v); }}>
+                {v.isDefault ? <Star fontSize="small" color="warning" /> : <StarBorder fontSize="small" />}
+              </IconButton>
+            </Tooltip>
+            <Tooltip title={t('grid.deleteView')}>
+              <IconButton size="small" onClick={e => { e.stopPropagation(); deleteView(v); }}><Delete fontSize="small" /></IconButton>
+            </Tooltip>
+          </MenuItem>
+        ))}
+        {views?.length === 0 && <MenuItem dense disabled>{t('grid.noViews')}</MenuItem>}
+        <Divider />
+        <MenuItem dense onClick={() => {
+          setViewName(activeView?.name ?? ''); setViewDefault(activeView?.isDefault ?? false); setViewError('');
+          setSaveOpen(true); setViewsAnchor(null);
+        }}>
+          <Save fontSize="small" sx={{ mr: 1 }} />{t('grid.saveView')}
+        </MenuItem>
+        <MenuItem dense onClick={() => { setSearchParams(new URLSearchParams()); setViewsAnchor(null); }}>
+          <RestartAlt fontSize="small" sx={{ mr: 1 }} />{t('grid.reset')}
+        </MenuItem>
+      </Menu>
+
+      {loading && <LinearProgress sx={{ mb: 0.5 }} />}
+
+      {isMobile && renderMobileCard ? (
+        <>
+          <Stack spacing={1.5}>
+            {rows.map(row => <React.Fragment key={rowKey(row)}>{renderMobileCard(row)}</React.Fragment>)}
+            {!loading && rows.length === 0 && <Typography align="center" color="text.secondary" sx={{ py: 4 }}>{emptyText}</Typography>}
+          </Stack>
+          {pagination}
+        </>
+      ) : (
+        <Paper>
+          <TableContainer>
+            <Table size="small">
+              <TableHead><TableRow>
+                {visibleColumns.map(c => (
+                  <TableCell key={c.field} align={c.align} sortDirection={state.sortBy === c.field ? state.sortDir : false}>
+                    {c.sortable ? (
+                      <TableSortLabel active={state.sortBy === c.field} direction={state.sortBy === c.field ? state.sortDir : 'asc'} onClick={() => handleSort(c.field)}>
+                        {c.headerName}
+                      </TableSortLabel>
+                    ) : c.headerName}
+                  </TableCell>
+                ))}
+              </TableRow></TableHead>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={rowKey(row)} hover>
+                    {visibleColumns.map(c => <TableCell key={c.field} align={c.align}>{c.render(row)}</TableCell>)}
+                  </TableRow>
+                ))}
+                {!loading && rows.length === 0 && (
+                  <TableRow><TableCell colSpan={visibleColumns.length} align="center">{emptyText}</TableCell></TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+          {pagination}
+        </Paper>
+      )}
+
+      <Dialog open={saveOpen} onClose={() => setSaveOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('grid.saveView')}</DialogTitle>
+        <DialogContent>
+          {viewError && <Alert severity="error" sx={{ mb: 2 }}>{viewError}</Alert>}
+          <TextField autoFocus fullWidth label={t('grid.viewName')} value={viewName} onChange={e => setViewName(e.target.value)}
+            sx={{ mt: 1 }} slotProps={{ htmlInput: { maxLength: 100 } }}
+            helperText={views?.some(v => v.name === viewName.trim()) ? t('grid.overwriteHint') : ' '} />
+          <FormControlLabel control={<Checkbox checked={viewDefault} onChange={e => setViewDefault(e.target.checked)} />} label={t('grid.setDefault')} />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveOpen(false)}>{t('app.cancel')}</Button>
+          <Button variant="contained" onClick={saveView} disabled={!viewName.trim()}>{t('app.save')}</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
+
+export default DataGrid;
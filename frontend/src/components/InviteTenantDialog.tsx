@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Typography, Alert, TextField, MenuItem,
+  ToggleButtonGroup, ToggleButton, Stack, CircularProgress
+} from '@mui/material';
+import { Sms, Email } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { tenantsApi } from '../api/services';
+import type { TenantProfileDto, TenantInvitationDto } from '../types';
+import { formatDateOnly } from '../utils/dateUtils';
+
+interface Props {
+  tenant: TenantProfileDto | null;
+  onClose: () => void;
+  onSent: (invitation: TenantInvitationDto) => void;
+}
+
+/** Sends a tenant without an account a one-time sign-up link bound to their unit. */
+const InviteTenantDialog: React.FC<Props> = ({ tenant, onClose, onSent }) => {
+  const { t, i18n } = useTranslation();
+  const [channel, setChannel] = useState<'Sms' | 'Email'>(tenant?.email ? 'Email' : 'Sms');
+  const [language, setLanguage] = useState<'he' | 'en'>(i18n.language === 'en' ? 'en' : 'he');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSend = async () => {
+    if (!tenant) return;
+    setSending(true);
+    setError('');
+    try {
+      const res = await tenantsApi.invite(tenant.id, { channel, language });
+      onSent(res.data);
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('app.errorOccurred'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const destination = channel === 'Email' ? tenant?.email : tenant?.phone;
+
+  return (
+    <Dialog open={!!tenant} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{t('tenants.inviteTitle', { name: tenant?.fullName ?? '' })}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {t('tenants.inviteHelp', { unit: tenant?.unitNumber ?? '', building: tenant?.buildingName ?? '' })}
+        </Typography>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {tenant?.invitedAtUtc && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            {t('tenants.inviteReplaces', { date: formatDateOnly(tenant.invitedAtUtc) })}
+          </Alert>
+        )}
+        <Stack spacing={2}>
+          <ToggleButtonGroup exclusive fullWidth size="small" value={channel} onChange={(_, v) => v && setChannel(v)}>
+            <ToggleButton value="Email" disabled={!tenant?.email}><Email fontSize="small" sx={{ mr: 1 }} />{t('tenants.email')}</ToggleButton>
+            <ToggleButton value="Sms" disabled={!tenant?.phone}><Sms fontSize="small" sx={{ mr: 1 }} />SMS</ToggleButton>
+          </ToggleButtonGroup>
+          <TextField label={t('tenants.inviteTo')} value={destination ?? ''} disabled fullWidth size="small"
+            slotProps={{ htmlInput: { dir: 'ltr' } }} />
+          <TextField select label={t('app.language')} value={language} onChange={e => setLanguage(e.target.value as 'he' | 'en')}
+            fullWidth size="small">
+            <MenuItem value="he">{t('app.hebrew')}</MenuItem>
+            <MenuItem value="en">{t('app.english')}</MenuItem>
+          </TextField>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('app.cancel')}</Button>
+        <Button variant="contained" onClick={handleSend} disabled={sending || !destination}>
+          {sending ? <CircularProgress size={20} color="inherit" /> : t('tenants.sendInvite')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default InviteTenantDialog;
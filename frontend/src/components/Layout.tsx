@@ -1,18 +1,21 @@
 import React, { useState } from 'react';
 import {
   AppBar, Toolbar, Typography, Drawer, List, ListItemButton, ListItemIcon,
-  ListItemText, Box, IconButton, Divider, Chip, useMediaQuery, useTheme, Avatar, Badge, Tooltip
+  ListItemText, Box, IconButton, Divider, Chip, useMediaQuery, useTheme, Avatar, Badge, Tooltip, Alert, Button
 } from '@mui/material';
 import {
   Menu as MenuIcon, Dashboard, Business, Engineering, CleaningServices,
   Assignment, Build, Logout, WorkOutline, Schedule,
   AccountBalance, Payment, Settings, BarChart, FactCheck, People, RequestPage, Notifications, Receipt,
-  NotificationsActive, Email
+  NotificationsActive, Email, CalendarMonth, AccountBalanceWallet, Roofing, Savings, Undo, Repeat, Gavel, EditNote,
+  Security, ManageAccounts, AdminPanelSettings
 } from '@mui/icons-material';
 import { useNavigate, useLocation, Outlet } from 'react-router-dom';
 import { useAuth } from '../auth/AuthContext';
+import { authApi } from '../api/services';
 import { useNotifications } from '../contexts/NotificationContext';
 import { useTranslation } from 'react-i18next';
+import type { PermissionResource } from '../types';
 
 const DRAWER_WIDTH = 264;
 
@@ -20,44 +23,63 @@ interface NavItem {
   labelKey: string;
   path: string;
   icon: React.ReactNode;
-  roles: string[];
+  roles?: string[];
+  /** Shown to anyone who may view the resource in at least one building. */
+  permission?: PermissionResource;
 }
 
 const navItems: NavItem[] = [
-  { labelKey: 'nav.dashboard', path: '/dashboard', icon: <Dashboard />, roles: ['Admin', 'Manager'] },
-  { labelKey: 'nav.buildings', path: '/buildings', icon: <Business />, roles: ['Admin', 'Manager'] },
-  { labelKey: 'nav.vendors', path: '/vendors', icon: <Engineering />, roles: ['Admin', 'Manager'] },
-  { labelKey: 'nav.assets', path: '/assets', icon: <Build />, roles: ['Admin', 'Manager'] },
-  { labelKey: 'nav.serviceRequests', path: '/service-requests', icon: <Assignment />, roles: ['Admin', 'Manager'] },
-  { labelKey: 'nav.workOrders', path: '/work-orders', icon: <WorkOutline />, roles: ['Admin', 'Manager'] },
-  { labelKey: 'nav.cleaningPlans', path: '/cleaning-plans', icon: <CleaningServices />, roles: ['Admin', 'Manager'] },
-  { labelKey: 'nav.jobs', path: '/jobs', icon: <Schedule />, roles: ['Admin', 'Manager'] },
-  { labelKey: 'nav.hoaFinance', path: '/hoa', icon: <AccountBalance />, roles: ['Admin', 'Manager'] },
-  { labelKey: 'nav.paymentProviders', path: '/payment-config', icon: <Settings />, roles: ['Admin', 'Manager'] },
-  { labelKey: 'nav.incomeExpenses', path: '/income-expenses', icon: <BarChart />, roles: ['Admin', 'Manager'] },
-  { labelKey: 'nav.collectionStatus', path: '/collection-status', icon: <FactCheck />, roles: ['Admin', 'Manager'] },
-  { labelKey: 'nav.tenants', path: '/tenants', icon: <People />, roles: ['Admin', 'Manager'] },
-  { labelKey: 'nav.vendorInvoices', path: '/vendor-invoices', icon: <RequestPage />, roles: ['Admin', 'Manager'] },
-  { labelKey: 'nav.sendReminders', path: '/send-reminders', icon: <Notifications />, roles: ['Admin', 'Manager'] },
-  { labelKey: 'nav.managerInvoices', path: '/manager-invoices', icon: <Receipt />, roles: ['Admin', 'Manager'] },
+  { labelKey: 'nav.dashboard', path: '/dashboard', icon: <Dashboard />, permission: 'Buildings' },
+  { labelKey: 'nav.buildings', path: '/buildings', icon: <Business />, permission: 'Buildings' },
+  { labelKey: 'nav.vendors', path: '/vendors', icon: <Engineering />, permission: 'Vendors' },
+  { labelKey: 'nav.assets', path: '/assets', icon: <Build />, permission: 'Buildings' },
+  { labelKey: 'nav.serviceRequests', path: '/service-requests', icon: <Assignment />, permission: 'Maintenance' },
+  { labelKey: 'nav.workOrders', path: '/work-orders', icon: <WorkOutline />, permission: 'Maintenance' },
+  { labelKey: 'nav.schedule', path: '/schedule', icon: <CalendarMonth />, permission: 'Maintenance' },
+  { labelKey: 'nav.cleaningPlans', path: '/cleaning-plans', icon: <CleaningServices />, permission: 'Maintenance' },
+  { labelKey: 'nav.jobs', path: '/jobs', icon: <Schedule />, permission: 'Maintenance' },
+  { labelKey: 'nav.hoaFinance', path: '/hoa', icon: <AccountBalance />, permission: 'Finance' },
+  { labelKey: 'nav.specialAssessments', path: '/special-assessments', icon: <Roofing />, permission: 'Finance' },
+  { labelKey: 'nav.bankReconciliation', path: '/bank-reconciliation', icon: <AccountBalanceWallet />, permission: 'Finance' },
+  { labelKey: 'nav.paymentProviders', path: '/payment-config', icon: <Settings />, permission: 'Finance' },
+  { labelKey: 'nav.incomeExpenses', path: '/income-expenses', icon: <BarChart />, permission: 'Reports' },
+  { labelKey: 'nav.budget', path: '/budget', icon: <Savings />, permission: 'Finance' },
+  { labelKey: 'nav.collectionStatus', path: '/collection-status', icon: <FactCheck />, permission: 'Reports' },
+  { labelKey: 'nav.refunds', path: '/refunds', icon: <Undo />, permission: 'Finance' },
+  { labelKey: 'nav.standingOrders', path: '/standing-orders', icon: <Repeat />, permission: 'Finance' },
+  { labelKey: 'nav.tenants', path: '/tenants', icon: <People />, permission: 'Tenants' },
+  { labelKey: 'nav.vendorInvoices', path: '/vendor-invoices', icon: <RequestPage />, permission: 'Finance' },
+  { labelKey: 'nav.sendReminders', path: '/send-reminders', icon: <Notifications />, permission: 'Communications' },
+  { labelKey: 'nav.dunning', path: '/dunning', icon: <Gavel />, permission: 'Finance' },
+  { labelKey: 'nav.reminderTemplates', path: '/reminder-templates', icon: <EditNote />, permission: 'Communications' },
+  { labelKey: 'nav.managerInvoices', path: '/manager-invoices', icon: <Receipt />, permission: 'Finance' },
+  { labelKey: 'nav.permissions', path: '/permissions', icon: <AdminPanelSettings />, permission: 'Users' },
   { labelKey: 'nav.myRequests', path: '/my-requests', icon: <Assignment />, roles: ['Tenant'] },
   { labelKey: 'nav.newRequest', path: '/new-request', icon: <Assignment />, roles: ['Tenant'] },
   { labelKey: 'nav.myCharges', path: '/my-charges', icon: <Payment />, roles: ['Tenant'] },
   { labelKey: 'nav.myMessages', path: '/my-messages', icon: <Email />, roles: ['Tenant'] },
+  { labelKey: 'nav.notificationSettings', path: '/notification-settings', icon: <NotificationsActive />, roles: ['Tenant'] },
   { labelKey: 'nav.myWorkOrders', path: '/my-work-orders', icon: <WorkOutline />, roles: ['Vendor'] },
+  { labelKey: 'nav.myAccount', path: '/account', icon: <ManageAccounts />, roles: ['Admin', 'Manager', 'Bookkeeper', 'Tenant', 'Vendor'] },
+  { labelKey: 'nav.security', path: '/security', icon: <Security />, roles: ['Admin', 'Manager', 'Bookkeeper', 'Tenant', 'Vendor'] },
 ];
 
 const Layout: React.FC = () => {
-  const { user, logout, hasAnyRole } = useAuth();
+  const { user, logout, hasAnyRole, can } = useAuth();
   const { unreadCount } = useNotifications();
   const navigate = useNavigate();
   const location = useLocation();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
   const [mobileOpen, setMobileOpen] = useState(false);
+  const [verificationSent, setVerificationSent] = useState(false);
   const { t } = useTranslation();
 
-  const visibleItems = navItems.filter(item => hasAnyRole(...item.roles));
+  const handleResendVerification = () => {
+    authApi.resendVerification().then(() => setVerificationSent(true)).catch(() => undefined);
+  };
+
+  const visibleItems = navItems.filter(item => item.permission ? can(item.permission) : hasAnyRole(...(item.roles ?? [])));
 
   // Get initials for avatar
   const initials = (user?.fullName || '')
@@ -176,7 +198,7 @@ const Layout: React.FC = () => {
               <IconButton
                 color="inherit"
                 onClick={() => {
-                  const ticketPath = hasAnyRole('Admin', 'Manager') ? '/service-requests' : '/my-requests';
+                  const ticketPath = can('Maintenance') ? '/service-requests' : '/my-requests';
                   navigate(ticketPath);
                 }}
               >
@@ -226,6 +248,19 @@ const Layout: React.FC = () => {
         width: { xs: '100%', md: `calc(100% - ${DRAWER_WIDTH}px)` },
         overflow: 'hidden',
       }}>
+        {user && !user.emailConfirmed && location.pathname !== '/account' && (
+          <Alert severity="warning" sx={{ mb: 2 }} action={
+            !verificationSent && <Button color="inherit" size="small" onClick={handleResendVerification}>{t('account.resend')}</Button>
+          }>
+            {verificationSent ? t('account.verificationSent', { email: user.email }) : t('account.unverifiedBanner', { email: user.email })}
+          </Alert>
+        )}
+        {user?.registrationStatus === 'Pending' && (
+          <Alert severity="info" sx={{ mb: 2 }}>{t('onboarding.pendingBanner')}</Alert>
+        )}
+        {user?.registrationStatus === 'Rejected' && (
+          <Alert severity="error" sx={{ mb: 2 }}>{t('onboarding.rejectedBanner')}</Alert>
+        )}
         <Outlet />
       </Box>
     </Box>
@@ -0,0 +1,102 @@
+import React from 'react';
+import {
+  Box, Typography, Chip, LinearProgress, Table, TableBody, TableCell, TableHead, TableRow
+} from '@mui/material';
+import type { PaymentPlanDto } from '../types';
+import { formatCurrency, formatDateOnly } from '../utils/dateUtils';
+import { useTranslation } from 'react-i18next';
+
+const planStatusColor = (status: string): 'default' | 'primary' | 'success' | 'warning' | 'error' | 'info' => {
+  switch (status) {
+    case 'Requested': return 'info';
+    case 'Active': return 'primary';
+    case 'Defaulted': return 'error';
+    case 'Completed': return 'success';
+    case 'Rejected': return 'warning';
+    default: return 'default';
+  }
+};
+
+export const PaymentPlanStatusChip: React.FC<{ status: string }> = ({ status }) => {
+  const { t } = useTranslation();
+  return <Chip size="small" label={t(`enums.paymentPlanStatus.${status}`, status)} color={planStatusColor(status)} />;
+};
+
+const installmentColor = (status: string): 'default' | 'success' | 'error' =>
+  status === 'Paid' ? 'success' : status === 'Missed' ? 'error' : 'default';
+
+/** Progress bar, installment schedule and consolidated charges of a payment plan. */
+const PaymentPlanDetails: React.FC<{ plan: PaymentPlanDto }> = ({ plan }) => {
+  const { t } = useTranslation();
+  const percent = plan.totalAmount > 0 ? Math.round(plan.amountPaid / plan.totalAmount * 100) : 0;
+
+  return (
+    <Box>
+      {plan.status !== 'Requested' && (
+        <Box sx={{ mb: 2 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+            <Typography variant="body2" color="text.secondary">
+              {t('paymentPlans.paidOfTotal', { paid: formatCurrency(plan.amountPaid), total: formatCurrency(plan.totalAmount) })}
+            </Typography>
+            <Typography variant="body2" fontWeight={600}>{percent}%</Typography>
+          </Box>
+          <LinearProgress variant="determinate" value={Math.min(100, percent)}
+            color={plan.status === 'Defaulted' ? 'error' : 'primary'} sx={{ height: 8, borderRadius: 4 }} />
+        </Box>
+      )}
+
+      {plan.installments.length > 0 && (
+        <Table size="small" sx={{ mb: 2 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell>#</TableCell>
+              <TableCell>{t('paymentPlans.dueDate')}</TableCell>
+              <TableCell align="right">{t('paymentPlans.amount')}</TableCell>
+              <TableCell align="right">{t('paymentPlans.paid')}</TableCell>
+              <TableCell>{t('paymentPlans.status')}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {plan.installments.map(i => (
+              <TableRow key={i.installmentNumber} sx={{ bgcolor: i.status === 'Missed' ? 'rgba(211,47,47,0.06)' : undefined }}>
+                <TableCell>{i.installmentNumber}</TableCell>
+                <TableCell>{formatDateOnly(i.dueDate)}</TableCell>
+                <TableCell align="right">{formatCurrency(i.amount)}</TableCell>
+                <TableCell align="right">{i.amountPaid > 0 ? formatCurrency(i.amountPaid) : '—'}</TableCell>
+                <TableCell>
+                  <Chip size="small" label={t(`enums.planInstallmentStatus.${i.status}`, i.status)} color={installmentColor(i.status)} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Typography variant="subtitle2" sx={{ mb: 0.5 }}>{t('paymentPlans.consolidatedCharges')}</Typography>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>{t('paymentPlans.period')}</TableCell>
+            <TableCell>{t('paymentPlans.chargeType')}</TableCell>
+            <TableCell>{t('paymentPlans.dueDate')}</TableCell>
+            <TableCell align="right">{t('paymentPlans.atStart')}</TableCell>
+            <TableCell align="right">{t('paymentPlans.outstandingNow')}</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {plan.charges.map(c => (
+            <TableRow key={c.unitChargeId}>
+              <TableCell>{c.period}</TableCell>
+              <TableCell>{c.description || t(`enums.unitChargeType.${c.chargeType}`, c.chargeType)}</TableCell>
+              <TableCell>{formatDateOnly(c.dueDate)}</TableCell>
+              <TableCell align="right">{formatCurrency(c.outstandingAtStart)}</TableCell>
+              <TableCell align="right" sx={{ color: c.outstanding > 0 ? 'error.main' : 'success.main' }}>{formatCurrency(c.outstanding)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+};
+
+export default PaymentPlanDetails;
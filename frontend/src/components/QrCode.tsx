@@ -0,0 +1,22 @@
+import React, { useMemo } from 'react';
+import { encodeQrCode } from '../utils/qrCode';
+
+const QUIET_ZONE = 4;
+
+/** Renders `value` as a QR code SVG; dark modules are drawn as one path so the image stays sharp at any size. */
+const QrCode: React.FC<{ value: string; size?: number; title?: string }> = ({ value, size = 200, title }) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    const d = modules.flatMap((row, y) => row.flatMap((dark, x) => (dark ? [`M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`] : []))).join('');
+    return { path: d, dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${dimension} ${dimension}`} shapeRendering="crispEdges" role="img" aria-label={title}>
+      <rect width={dimension} height={dimension} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
+
+export default QrCode;
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { Box, Button, Stack, Typography, Alert } from '@mui/material';
+import { ContentCopy, Download } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+
+/** Freshly generated recovery codes, shown once, with copy and download so the user keeps them somewhere safe. */
+const RecoveryCodes: React.FC<{ codes: string[] }> = ({ codes }) => {
+  const { t } = useTranslation();
+  const [copied, setCopied] = useState(false);
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(text).catch(() => undefined);
+    setCopied(true);
+  };
+
+  const handleDownload = () => {
+    const url = window.URL.createObjectURL(new Blob([text + '\n'], { type: 'text/plain' }));
+    const a = document.createElement('a'); a.href = url;
+    a.download = 'homehero-recovery-codes.txt'; a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Box>
+      <Alert severity="warning" sx={{ mb: 2 }}>{t('twoFactor.recoveryCodesWarning')}</Alert>
+      <Box dir="ltr" sx={{
+        display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 1, p: 2, mb: 2,
+        bgcolor: 'grey.100', borderRadius: 2, fontFamily: 'monospace', fontSize: '1rem', textAlign: 'center',
+      }}>
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </Box>
+      <Stack direction="row" spacing={1}>
+        <Button size="small" variant="outlined" startIcon={<ContentCopy />} onClick={handleCopy}>
+          {copied ? t('twoFactor.copied') : t('twoFactor.copy')}
+        </Button>
+        <Button size="small" variant="outlined" startIcon={<Download />} onClick={handleDownload}>{t('twoFactor.download')}</Button>
+      </Stack>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+        {t('twoFactor.recoveryCodesHelp')}
+      </Typography>
+    </Box>
+  );
+};
+
+export default RecoveryCodes;
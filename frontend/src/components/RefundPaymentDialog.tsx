@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, Box, Typography,
+  Alert, Checkbox, FormControlLabel, Chip, Table, TableBody, TableCell, TableHead, TableRow
+} from '@mui/material';
+import { paymentsApi } from '../api/services';
+import type { PaymentRefundDto } from '../types';
+import { formatCurrency, formatDateOnly } from '../utils/dateUtils';
+import { useTranslation } from 'react-i18next';
+
+/** The payment fields the dialog needs; both PaymentDto and ChargePaymentDto map onto it. */
+export interface RefundablePayment {
+  id: number;
+  /** Full payment amount */
+  amount: number;
+  refundedAmount: number;
+  isManual: boolean;
+  paymentDateUtc: string;
+  providerReference?: string;
+}
+
+interface Props {
+  payment: RefundablePayment | null;
+  onClose: () => void;
+  onRefunded: () => void;
+}
+
+/** Full or partial refund of a payment, with the refunds and chargebacks already recorded on it. */
+const RefundPaymentDialog: React.FC<Props> = ({ payment, onClose, onRefunded }) => {
+  const { t } = useTranslation();
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [recordOnly, setRecordOnly] = useState(false);
+  const [history, setHistory] = useState<PaymentRefundDto[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const refundable = payment ? Math.max(0, payment.amount - payment.refundedAmount) : 0;
+
+  useEffect(() => {
+    if (!payment) return;
+    setAmount(Math.max(0, payment.amount - payment.refundedAmount).toFixed(2));
+    setReason('');
+    setRecordOnly(false);
+    setError('');
+    setHistory([]);
+    paymentsApi.getPaymentRefunds(payment.id).then(r => setHistory(r.data)).catch(() => setHistory([]));
+  }, [payment]);
+
+  const handleRefund = async () => {
+    if (!payment) return;
+    const value = parseFloat(amount);
+    if (!value || value <= 0) { setError(t('refunds.errorAmount')); return; }
+    if (value > refundable) { setError(t('refunds.errorExceeds', { max: formatCurrency(refundable) })); return; }
+    if (!reason.trim()) { setError(t('refunds.errorReason')); return; }
+    setSaving(true); setError('');
+    try {
+      await paymentsApi.refund(payment.id, { amount: value, reason: reason.trim(), recordOnly: payment.isManual || recordOnly });
+      onRefunded();
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('refunds.failedRefund'));
+    } finally { setSaving(false); }
+  };
+
+  return (
+    <Dialog open={!!payment} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{t('refunds.refundTitle', { id: payment?.id })}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          {error && <Alert severity="error">{error}</Alert>}
+          {payment && (
+            <Typography variant="body2" color="text.secondary">
+              {t('refunds.paymentSummary', {
+                amount: formatCurrency(payment.amount),
+                date: formatDateOnly(payment.paymentDateUtc),
+                refunded: formatCurrency(payment.refundedAmount),
+              })}
+              {payment.providerReference && ` · ${t('hoa.reference')}: ${payment.providerReference}`}
+            </Typography>
+          )}
+
+          {refundable <= 0 ? (
+            <Alert severity="info">{t('refunds.nothingRefundable')}</Alert>
+          ) : (
+            <>
+              <TextField label={t('refunds.amount')} type="number" size="small" value={amount}
+                onChange={e => setAmount(e.target.value)} inputProps={{ min: 0.01, max: refundable, step: 0.01 }}
+                helperText={t('refunds.refundableHint', { max: formatCurrency(refundable) })} />
+              <TextField label={t('refunds.reason')} size="small" value={reason} required multiline minRows={2}
+                onChange={e => setReason(e.target.value)} inputProps={{ maxLength: 500 }} />
+              {payment?.isManual ? (
+                <Alert severity="info">{t('refunds.manualPaymentHint')}</Alert>
+              ) : (
+                <>
+                  <Alert severity="info">{t('refunds.providerHint')}</Alert>
+                  <FormControlLabel
+                    control={<Checkbox checked={recordOnly} onChange={e => setRecordOnly(e.target.checked)} />}
+                    label={<Typography variant="body2">{t('refunds.recordOnly')}</Typography>}
+                  />
+                </>
+              )}
+              <Typography variant="caption" color="text.secondary">{t('refunds.reopenHint')}</Typography>
+            </>
+          )}
+
+          {history.length > 0 && (
+            <>
+              <Typography variant="subtitle2">{t('refunds.history')}</Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('refunds.date')}</TableCell>
+                    <TableCell>{t('refunds.type')}</TableCell>
+                    <TableCell align="right">{t('refunds.amount')}</TableCell>
+                    <TableCell>{t('refunds.reason')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {history.map(r => (
+                    <TableRow key={r.id}>
+                      <TableCell>{formatDateOnly(r.createdAtUtc)}</TableCell>
+                      <TableCell>
+                        <Chip size="small" variant="outlined" color={r.type === 'Chargeback' ? 'error' : 'warning'}
+                          label={t(`enums.paymentRefundType.${r.type}`)} />
+                        {r.chargebackStatus && (
+                          <Chip size="small" sx={{ ml: 0.5 }} label={t(`enums.chargebackStatus.${r.chargebackStatus}`)} />
+                        )}
+                      </TableCell>
+                      <TableCell align="right">{formatCurrency(r.amount)}</TableCell>
+                      <TableCell>{r.reason || '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('app.cancel')}</Button>
+        {refundable > 0 && (
+          <Button variant="contained" color="warning" onClick={handleRefund} disabled={saving}>{t('refunds.refund')}</Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RefundPaymentDialog;
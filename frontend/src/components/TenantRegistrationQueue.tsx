@@ -0,0 +1,197 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Card, CardContent, Typography, Stack, Box, Chip, Button, Alert, Dialog, DialogTitle, DialogContent, DialogActions,
+  TextField, MenuItem, CircularProgress, Divider
+} from '@mui/material';
+import { HowToReg, Check, Close } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { tenantsApi, buildingsApi } from '../api/services';
+import type { TenantRegistrationDto, UnitDto } from '../types';
+import { formatDateOnly } from '../utils/dateUtils';
+
+interface Props {
+  buildingId?: number;
+  /** Called after a registration is approved, so the tenant list picks up the new tenant. */
+  onChanged: () => void;
+}
+
+const errorMessage = (err: unknown) => (err as { response?: { data?: { message?: string } } })?.response?.data?.message;
+
+/** Tenants who registered themselves, waiting for a manager to confirm the apartment they named. */
+const TenantRegistrationQueue: React.FC<Props> = ({ buildingId, onChanged }) => {
+  const { t } = useTranslation();
+  const [registrations, setRegistrations] = useState<TenantRegistrationDto[]>([]);
+  const [error, setError] = useState('');
+
+  const [approving, setApproving] = useState<TenantRegistrationDto | null>(null);
+  const [units, setUnits] = useState<UnitDto[]>([]);
+  const [unitId, setUnitId] = useState<number | ''>('');
+  const [rejecting, setRejecting] = useState<TenantRegistrationDto | null>(null);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [dialogError, setDialogError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const res = await tenantsApi.getRegistrations({ buildingId, status: 'Pending' });
+      setRegistrations(res.data);
+    } catch {
+      setError(t('onboarding.failedLoad'));
+    }
+  }, [buildingId, t]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const openApprove = async (r: TenantRegistrationDto) => {
+    setApproving(r);
+    setUnitId(r.matchingUnitId ?? '');
+    setDialogError('');
+    try {
+      const res = await buildingsApi.getUnits(r.buildingId);
+      setUnits(res.data);
+    } catch {
+      setUnits([]);
+    }
+  };
+
+  const openReject = (r: TenantRegistrationDto) => {
+    setRejecting(r);
+    setReason('');
+    setDialogError('');
+  };
+
+  const handleApprove = async () => {
+    if (!approving) return;
+    setSaving(true);
+    setDialogError('');
+    try {
+      await tenantsApi.approveRegistration(approving.id, unitId === '' ? undefined : unitId);
+      setApproving(null);
+      await load();
+      onChanged();
+    } catch (err) {
+      setDialogError(errorMessage(err) || t('app.errorOccurred'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+    setSaving(true);
+    setDialogError('');
+    try {
+      await tenantsApi.rejectRegistration(rejecting.id, reason.trim() || undefined);
+      setRejecting(null);
+      await load();
+    } catch (err) {
+      setDialogError(errorMessage(err) || t('app.errorOccurred'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (registrations.length === 0 && !error) return null;
+
+  const selectedUnit = units.find(u => u.id === unitId);
+  const occupant = selectedUnit
+    ? (approving?.propertyRole === 'Landlord' ? selectedUnit.ownerAccountName : selectedUnit.tenantName)
+    : approving?.currentTenantName;
+
+  return (
+    <>
+      <Card sx={{ mb: 2, borderInlineStart: 4, borderColor: 'warning.main' }}>
+        <CardContent>
+          <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+            <HowToReg color="warning" />
+            <Typography variant="subtitle1" fontWeight={600}>
+              {t('onboarding.queueTitle', { count: registrations.length })}
+            </Typography>
+          </Stack>
+          {error && <Alert severity="error" onClose={() => setError('')}>{error}</Alert>}
+          <Stack divider={<Divider flexItem />} spacing={1}>
+            {registrations.map(r => (
+              <Box key={r.id} sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 }}>
+                <Box sx={{ flex: 1, minWidth: 220 }}>
+                  <Typography variant="body2" fontWeight={600}>{r.fullName}</Typography>
+                  <Typography variant="caption" color="text.secondary" component="div">
+                    {t('onboarding.claims', {
+                      building: r.buildingName ?? '', unit: r.apartmentNumber, role: t(`registerTenant.role${r.propertyRole}`)
+                    })}
+                    {r.floor != null && ` · ${t('onboarding.floor', { floor: r.floor })}`}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" component="div" dir="ltr" sx={{ textAlign: 'start' }}>
+                    {[r.email, r.phone].filter(Boolean).join(' · ')} · {formatDateOnly(r.createdAtUtc)}
+                  </Typography>
+                </Box>
+                {!r.emailConfirmed && <Chip size="small" variant="outlined" color="warning" label={t('onboarding.emailUnverified')} />}
+                {r.matchingUnitId == null && <Chip size="small" variant="outlined" label={t('onboarding.noSuchUnit')} />}
+                {r.currentTenantName && (
+                  <Chip size="small" variant="outlined" color="warning" label={t('onboarding.occupiedBy', { name: r.currentTenantName })} />
+                )}
+                <Button size="small" variant="contained" color="success" startIcon={<Check />} onClick={() => openApprove(r)}>
+                  {t('onboarding.approve')}
+                </Button>
+                <Button size="small" color="error" startIcon={<Close />} onClick={() => openReject(r)}>
+                  {t('onboarding.reject')}
+                </Button>
+              </Box>
+            ))}
+          </Stack>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!approving} onClose={() => setApproving(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('onboarding.approveTitle', { name: approving?.fullName ?? '' })}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {t('onboarding.approveHelp', { unit: approving?.apartmentNumber ?? '' })}
+          </Typography>
+          {dialogError && <Alert severity="error" sx={{ mb: 2 }}>{dialogError}</Alert>}
+          <TextField select fullWidth size="small" label={t('tenants.unitLabel')} value={unitId}
+            onChange={e => setUnitId(e.target.value === '' ? '' : Number(e.target.value))}>
+            {approving?.matchingUnitId == null && (
+              <MenuItem value="">{t('onboarding.createUnit', { unit: approving?.apartmentNumber ?? '' })}</MenuItem>
+            )}
+            {units.map(u => (
+              <MenuItem key={u.id} value={u.id}>
+                {u.unitNumber}{u.floor != null ? ` · ${t('onboarding.floor', { floor: u.floor })}` : ''}
+              </MenuItem>
+            ))}
+          </TextField>
+          {occupant && (
+            <Alert severity="warning" sx={{ mt: 2 }}>
+              {approving?.propertyRole === 'Landlord'
+                ? t('onboarding.replacesOwner', { name: occupant })
+                : t('tenants.existingTenantWarning', { name: occupant })}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setApproving(null)}>{t('app.cancel')}</Button>
+          <Button variant="contained" color="success" onClick={handleApprove} disabled={saving}>
+            {saving ? <CircularProgress size={20} color="inherit" /> : t('onboarding.approve')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!rejecting} onClose={() => setRejecting(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('onboarding.rejectTitle', { name: rejecting?.fullName ?? '' })}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>{t('onboarding.rejectHelp')}</Typography>
+          {dialogError && <Alert severity="error" sx={{ mb: 2 }}>{dialogError}</Alert>}
+          <TextField fullWidth multiline minRows={2} label={t('onboarding.rejectReason')} value={reason}
+            onChange={e => setReason(e.target.value)} slotProps={{ htmlInput: { maxLength: 500 } }} />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRejecting(null)}>{t('app.cancel')}</Button>
+          <Button variant="contained" color="error" onClick={handleReject} disabled={saving}>
+            {saving ? <CircularProgress size={20} color="inherit" /> : t('onboarding.reject')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default TenantRegistrationQueue;
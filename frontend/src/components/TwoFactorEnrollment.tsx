@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Button, CircularProgress, Stack, TextField, Typography, Alert } from '@mui/material';
+import { useTranslation } from 'react-i18next';
+import { authApi } from '../api/services';
+import type { TwoFactorEnableResponse, TwoFactorSetupDto } from '../types';
+import QrCode from './QrCode';
+import RecoveryCodes from './RecoveryCodes';
+
+interface Props {
+  /** Set during enrollment enforced at sign-in; otherwise the signed-in user enrolls. */
+  challengeToken?: string;
+  /** Called once the user has confirmed they saved the recovery codes. */
+  onEnabled: (result: TwoFactorEnableResponse) => void;
+  onCancel?: () => void;
+}
+
+/** Scan the QR code, confirm with the first code, then save the recovery codes. */
+const TwoFactorEnrollment: React.FC<Props> = ({ challengeToken, onEnabled, onCancel }) => {
+  const { t } = useTranslation();
+  const [setup, setSetup] = useState<TwoFactorSetupDto | null>(null);
+  const [code, setCode] = useState('');
+  const [result, setResult] = useState<TwoFactorEnableResponse | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    // Every setup call issues a new key, so only the latest response may be shown
+    let active = true;
+    authApi.setupTwoFactor(challengeToken)
+      .then(r => { if (active) setSetup(r.data); })
+      .catch(err => {
+        if (active) setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('twoFactor.setupFailed'));
+      });
+    return () => { active = false; };
+  }, [challengeToken, t]);
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    try {
+      const r = await authApi.enableTwoFactor(code, challengeToken);
+      setResult(r.data);
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('twoFactor.invalidCode'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <Box>
+        <Typography variant="subtitle1" fontWeight={600} gutterBottom>{t('twoFactor.recoveryCodesTitle')}</Typography>
+        <RecoveryCodes codes={result.recoveryCodes} />
+        <Button fullWidth variant="contained" sx={{ mt: 2 }} onClick={() => onEnabled(result)}>{t('twoFactor.savedCodes')}</Button>
+      </Box>
+    );
+  }
+
+  return (
+    <Box component="form" onSubmit={handleEnable}>
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+      <Typography variant="body2" sx={{ mb: 2 }}>{t('twoFactor.scanHelp')}</Typography>
+      {setup ? (
+        <Stack alignItems="center" spacing={1} sx={{ mb: 2 }}>
+          <QrCode value={setup.authenticatorUri} title={t('twoFactor.qrTitle')} />
+          <Typography variant="caption" color="text.secondary">{t('twoFactor.manualKey')}</Typography>
+          <Typography dir="ltr" sx={{ fontFamily: 'monospace', fontWeight: 600, letterSpacing: 1 }}>{setup.sharedKey}</Typography>
+        </Stack>
+      ) : !error && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}><CircularProgress /></Box>
+      )}
+      <TextField
+        fullWidth label={t('twoFactor.code')} value={code} onChange={e => setCode(e.target.value)} required
+        autoComplete="one-time-code" sx={{ mb: 2 }}
+        slotProps={{ htmlInput: { dir: 'ltr', inputMode: 'numeric', maxLength: 7, style: { textAlign: 'center', letterSpacing: 4 } } }}
+      />
+      <Stack direction="row" spacing={1}>
+        {onCancel && <Button fullWidth onClick={onCancel}>{t('app.cancel')}</Button>}
+        <Button fullWidth variant="contained" type="submit" disabled={!setup || saving || code.trim().length < 6}>
+          {saving ? <CircularProgress size={22} color="inherit" /> : t('twoFactor.enable')}
+        </Button>
+      </Stack>
+    </Box>
+  );
+};
+
+export default TwoFactorEnrollment;
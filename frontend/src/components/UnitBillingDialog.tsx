@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, MenuItem, Box, Typography,
+  Alert, CircularProgress, Checkbox, FormControlLabel, Chip, Table, TableBody, TableCell, TableHead, TableRow
+} from '@mui/material';
+import { buildingsApi, hoaApi } from '../api/services';
+import type { BillingParty, UnitDto, UnitPartyBalancesDto } from '../types';
+import { formatCurrency } from '../utils/dateUtils';
+import { useTranslation } from 'react-i18next';
+
+const BILLING_PARTIES: BillingParty[] = ['Resident', 'Owner'];
+
+interface Props {
+  buildingId: number;
+  unit: UnitDto | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+/** Owner contact details, who pays each charge type, and the unit's balance per party. */
+const UnitBillingDialog: React.FC<Props> = ({ buildingId, unit, onClose, onSaved }) => {
+  const { t } = useTranslation();
+  const [ownerName, setOwnerName] = useState('');
+  const [ownerPhone, setOwnerPhone] = useState('');
+  const [ownerEmail, setOwnerEmail] = useState('');
+  const [hoaFeePayer, setHoaFeePayer] = useState<BillingParty>('Resident');
+  const [specialAssessmentPayer, setSpecialAssessmentPayer] = useState<BillingParty>('Resident');
+  const [applyToOpenCharges, setApplyToOpenCharges] = useState(false);
+  const [balances, setBalances] = useState<UnitPartyBalancesDto | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!unit) return;
+    setOwnerName(unit.ownerName ?? '');
+    setOwnerPhone(unit.ownerPhone ?? '');
+    setOwnerEmail(unit.ownerEmail ?? '');
+    setHoaFeePayer(unit.hoaFeePayer);
+    setSpecialAssessmentPayer(unit.specialAssessmentPayer);
+    setApplyToOpenCharges(false);
+    setError('');
+    setBalances(null);
+    hoaApi.getUnitBalances(unit.id).then(r => setBalances(r.data)).catch(() => setBalances(null));
+  }, [unit]);
+
+  const payersChanged = !!unit && (hoaFeePayer !== unit.hoaFeePayer || specialAssessmentPayer !== unit.specialAssessmentPayer);
+
+  const handleSave = async () => {
+    if (!unit) return;
+    setSaving(true); setError('');
+    try {
+      await buildingsApi.updateUnitBilling(buildingId, unit.id, {
+        ownerName: ownerName.trim() || undefined,
+        ownerPhone: ownerPhone.trim() || undefined,
+        ownerEmail: ownerEmail.trim() || undefined,
+        hoaFeePayer, specialAssessmentPayer,
+        applyToOpenCharges: payersChanged && applyToOpenCharges
+      });
+      onSaved();
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('billing.failedSave'));
+    } finally { setSaving(false); }
+  };
+
+  const partySelect = (label: string, value: BillingParty, onChange: (p: BillingParty) => void) => (
+    <TextField select size="small" fullWidth label={label} value={value} onChange={e => onChange(e.target.value as BillingParty)}>
+      {BILLING_PARTIES.map(p => <MenuItem key={p} value={p}>{t(`enums.billingParty.${p}`)}</MenuItem>)}
+    </TextField>
+  );
+
+  return (
+    <Dialog open={!!unit} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{t('billing.title', { unit: unit?.unitNumber })}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          {error && <Alert severity="error">{error}</Alert>}
+
+          <Typography variant="subtitle2">{t('billing.ownerDetails')}</Typography>
+          {unit?.ownerAccountName && (
+            <Typography variant="body2" color="text.secondary">{t('billing.ownerAccount', { name: unit.ownerAccountName })}</Typography>
+          )}
+          <TextField size="small" label={t('buildings.ownerName')} value={ownerName} onChange={e => setOwnerName(e.target.value)} fullWidth />
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField size="small" label={t('billing.ownerPhone')} value={ownerPhone} onChange={e => setOwnerPhone(e.target.value)} fullWidth />
+            <TextField size="small" label={t('billing.ownerEmail')} type="email" value={ownerEmail} onChange={e => setOwnerEmail(e.target.value)} fullWidth />
+          </Box>
+
+          <Typography variant="subtitle2">{t('billing.whoPays')}</Typography>
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            {partySelect(t('billing.hoaFeePayer'), hoaFeePayer, setHoaFeePayer)}
+            {partySelect(t('billing.specialAssessmentPayer'), specialAssessmentPayer, setSpecialAssessmentPayer)}
+          </Box>
+          <Typography variant="caption" color="text.secondary">{t('billing.lateFeeHint')}</Typography>
+          {payersChanged && (
+            <FormControlLabel
+              control={<Checkbox checked={applyToOpenCharges} onChange={e => setApplyToOpenCharges(e.target.checked)} />}
+              label={<Typography variant="body2">{t('billing.applyToOpenCharges')}</Typography>}
+            />
+          )}
+
+          <Typography variant="subtitle2">{t('billing.balances')}</Typography>
+          {!balances ? <CircularProgress size={20} /> : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('billing.party')}</TableCell>
+                  <TableCell>{t('billing.payer')}</TableCell>
+                  <TableCell align="right">{t('billing.charged')}</TableCell>
+                  <TableCell align="right">{t('billing.paid')}</TableCell>
+                  <TableCell align="right">{t('billing.balance')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {balances.parties.map(p => (
+                  <TableRow key={p.party}>
+                    <TableCell>{t(`enums.billingParty.${p.party}`)}</TableCell>
+                    <TableCell>
+                      {p.payerName || '—'}
+                      {!p.hasPortalAccount && <Chip size="small" variant="outlined" label={t('billing.noAccount')} sx={{ ml: 0.5, height: 20 }} />}
+                      {p.payerPhone && <Typography variant="caption" display="block" color="text.secondary">{p.payerPhone}</Typography>}
+                    </TableCell>
+                    <TableCell align="right">{formatCurrency(p.totalCharged)}</TableCell>
+                    <TableCell align="right">{formatCurrency(p.totalPaid)}</TableCell>
+                    <TableCell align="right" sx={{ color: p.balance > 0 ? 'error.main' : 'success.main', fontWeight: 600 }}>
+                      {formatCurrency(p.balance)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('app.cancel')}</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>{t('app.save')}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default UnitBillingDialog;
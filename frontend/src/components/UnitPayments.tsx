@@ -0,0 +1,111 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box, Typography, Alert, CircularProgress, Chip, IconButton, Tooltip,
+  Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper
+} from '@mui/material';
+import { Undo } from '@mui/icons-material';
+import { paymentsApi } from '../api/services';
+import type { PaymentDto } from '../types';
+import { formatCurrency, formatDateOnly } from '../utils/dateUtils';
+import RefundPaymentDialog, { type RefundablePayment } from './RefundPaymentDialog';
+import { useTranslation } from 'react-i18next';
+
+const STATUS_COLORS: Record<string, 'default' | 'success' | 'error' | 'warning'> = {
+  Succeeded: 'success',
+  Failed: 'error',
+  Cancelled: 'error',
+  Refunded: 'warning',
+};
+
+interface Props {
+  unitId: number;
+  /** Called after a refund so the caller can reload balances */
+  onChanged?: () => void;
+}
+
+/** All payments of a unit, newest first, with refunds and chargebacks and a refund action for managers. */
+const UnitPayments: React.FC<Props> = ({ unitId, onChanged }) => {
+  const { t } = useTranslation();
+  const [payments, setPayments] = useState<PaymentDto[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [msg, setMsg] = useState('');
+  const [refundPayment, setRefundPayment] = useState<RefundablePayment | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true); setError('');
+    try {
+      const r = await paymentsApi.getPaymentsForUnit(unitId);
+      setPayments(r.data);
+    } catch { setError(t('refunds.failedLoadPayments')); }
+    finally { setLoading(false); }
+  }, [unitId, t]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const handleRefunded = () => {
+    setRefundPayment(null);
+    setMsg(t('refunds.refunded'));
+    load();
+    onChanged?.();
+  };
+
+  return (
+    <Box>
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
+      {msg && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMsg('')}>{msg}</Alert>}
+      {loading ? <CircularProgress size={24} /> : payments.length === 0 ? (
+        <Typography color="text.secondary" align="center" sx={{ py: 3 }}>{t('hoa.noPayments')}</Typography>
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('refunds.date')}</TableCell>
+                <TableCell align="right">{t('refunds.paymentAmount')}</TableCell>
+                <TableCell>{t('refunds.paidBy')}</TableCell>
+                <TableCell>{t('hoa.reference')}</TableCell>
+                <TableCell>{t('refunds.status')}</TableCell>
+                <TableCell align="right">{t('refunds.refundedAmount')}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {payments.map(p => (
+                <TableRow key={p.id}>
+                  <TableCell>{formatDateOnly(p.paymentDateUtc)}</TableCell>
+                  <TableCell align="right">{formatCurrency(p.amount)}</TableCell>
+                  <TableCell>
+                    {p.isManual ? t('refunds.manualEntry') : p.last4 ? `${t('hoa.card')} ****${p.last4}` : t('hoa.card')}
+                    {p.userName && <Typography variant="caption" display="block" color="text.secondary">{p.userName}</Typography>}
+                  </TableCell>
+                  <TableCell>{p.providerReference || '—'}</TableCell>
+                  <TableCell>
+                    <Chip size="small" color={STATUS_COLORS[p.status] ?? 'default'} label={t(`enums.paymentStatus.${p.status}`, p.status)} />
+                    {p.hasOpenChargeback && <Chip size="small" color="error" variant="outlined" sx={{ ml: 0.5 }} label={t('refunds.openChargeback')} />}
+                  </TableCell>
+                  <TableCell align="right" sx={{ color: p.refundedAmount > 0 ? 'warning.main' : undefined }}>
+                    {p.refundedAmount > 0 ? formatCurrency(p.refundedAmount) : '—'}
+                  </TableCell>
+                  <TableCell align="right">
+                    {(p.status === 'Succeeded' || p.refundedAmount > 0) && (
+                      <Tooltip title={t('refunds.refund')}>
+                        <IconButton size="small" color="warning" onClick={() => setRefundPayment({
+                          id: p.id, amount: p.amount, refundedAmount: p.refundedAmount, isManual: p.isManual,
+                          paymentDateUtc: p.paymentDateUtc, providerReference: p.providerReference,
+                        })}><Undo fontSize="small" /></IconButton>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+      <RefundPaymentDialog payment={refundPayment} onClose={() => setRefundPayment(null)} onRefunded={handleRefunded} />
+    </Box>
+  );
+};
+
+export default UnitPayments;
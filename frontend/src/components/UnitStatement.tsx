@@ -0,0 +1,202 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box, Button, TextField, MenuItem, Typography, Alert, CircularProgress, Chip,
+  Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper
+} from '@mui/material';
+import { Print, Download } from '@mui/icons-material';
+import type { TFunction } from 'i18next';
+import { hoaApi } from '../api/services';
+import type { BillingParty, UnitStatementDto, UnitStatementLineDto } from '../types';
+import { formatCurrency, formatDateOnly } from '../utils/dateUtils';
+import { useTranslation } from 'react-i18next';
+
+const LINE_COLORS: Record<string, 'default' | 'primary' | 'success' | 'warning' | 'info'> = {
+  Charge: 'primary',
+  Adjustment: 'info',
+  Payment: 'success',
+  Refund: 'warning',
+};
+
+const startOfYear = () => `${new Date().getFullYear()}-01-01`;
+const today = () => new Date().toISOString().slice(0, 10);
+
+const lineDescription = (l: UnitStatementLineDto, t: TFunction) => {
+  const parts: string[] = [];
+  if (l.lineType === 'Payment' || l.lineType === 'Refund') {
+    if (l.refundType === 'Chargeback') parts.push(t('enums.paymentRefundType.Chargeback'));
+    if (l.method) parts.push(t(`enums.paymentMethodType.${l.method}`, l.method));
+  } else if (l.chargeType) {
+    parts.push(`${t(`enums.unitChargeType.${l.chargeType}`, l.chargeType)}${l.period ? ` ${l.period}` : ''}`);
+  }
+  if (l.description) parts.push(l.description);
+  return parts.join(' – ');
+};
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Opens the statement as a plain document in a new window and prints it (the browser can save it as PDF). */
+const printStatement = (s: UnitStatementDto, t: TFunction, dir: 'rtl' | 'ltr') => {
+  const w = window.open('', '_blank');
+  if (!w) return;
+  const rows = s.lines.map(l => `
+    <tr>
+      <td>${formatDateOnly(l.dateUtc)}</td>
+      <td>${escapeHtml(t(`statement.line${l.lineType}`))}</td>
+      <td>${escapeHtml(lineDescription(l, t))}</td>
+      <td>${escapeHtml(l.reference ?? '')}</td>
+      <td class="num">${l.debit ? formatCurrency(l.debit) : ''}</td>
+      <td class="num">${l.credit ? formatCurrency(l.credit) : ''}</td>
+      <td class="num">${formatCurrency(l.balance)}</td>
+    </tr>`).join('');
+  w.document.write(`<!DOCTYPE html>
+<html dir="${dir}"><head><meta charset="utf-8"><title>${escapeHtml(t('statement.title'))} – ${escapeHtml(s.unitNumber ?? '')}</title>
+<style>
+  body { font-family: Arial, sans-serif; font-size: 12px; margin: 24px; color: #222; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  .meta { color: #555; margin-bottom: 12px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #ddd; padding: 4px 6px; text-align: start; }
+  th { background: #f3f3f3; }
+  .num { text-align: end; white-space: nowrap; }
+  .totals td { font-weight: bold; border-top: 2px solid #222; }
+</style></head><body>
+<h1>${escapeHtml(t('statement.title'))}</h1>
+<div class="meta">
+  ${escapeHtml(s.buildingName ?? '')} · ${escapeHtml(t('statement.unit'))} ${escapeHtml(s.unitNumber ?? '')}
+  ${s.payerName ? ` · ${escapeHtml(s.payerName)}` : ''}${s.party ? ` (${escapeHtml(t(`enums.billingParty.${s.party}`))})` : ''}<br/>
+  ${escapeHtml(t('statement.range', { from: s.from ? formatDateOnly(s.from) : '—', to: formatDateOnly(s.to) }))}
+</div>
+<table>
+  <thead><tr>
+    <th>${escapeHtml(t('statement.date'))}</th><th>${escapeHtml(t('statement.type'))}</th>
+    <th>${escapeHtml(t('statement.description'))}</th><th>${escapeHtml(t('statement.reference'))}</th>
+    <th class="num">${escapeHtml(t('statement.debit'))}</th><th class="num">${escapeHtml(t('statement.credit'))}</th>
+    <th class="num">${escapeHtml(t('statement.balance'))}</th>
+  </tr></thead>
+  <tbody>
+    <tr><td colspan="6">${escapeHtml(t('statement.openingBalance'))}</td><td class="num">${formatCurrency(s.openingBalance)}</td></tr>
+    ${rows}
+    <tr class="totals"><td colspan="4">${escapeHtml(t('statement.closingBalance'))}</td>
+      <td class="num">${formatCurrency(s.totalDebits)}</td><td class="num">${formatCurrency(s.totalCredits)}</td>
+      <td class="num">${formatCurrency(s.closingBalance)}</td></tr>
+  </tbody>
+</table>
+<div class="meta" style="margin-top:12px">${escapeHtml(t('statement.generatedAt', { date: formatDateOnly(s.generatedAtUtc) }))}</div>
+</body></html>`);
+  w.document.close();
+  w.focus();
+  w.print();
+};
+
+interface Props {
+  unitId: number;
+  /** Managers can pick the billing party; tenants get the party they pay for. */
+  allowPartySelect?: boolean;
+}
+
+/** Unit ledger: every charge, adjustment, payment and refund with a running balance, for a date range. */
+const UnitStatement: React.FC<Props> = ({ unitId, allowPartySelect }) => {
+  const { t, i18n } = useTranslation();
+  const [from, setFrom] = useState(startOfYear);
+  const [to, setTo] = useState(today);
+  const [party, setParty] = useState<BillingParty | ''>('');
+  const [statement, setStatement] = useState<UnitStatementDto | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true); setError('');
+    try {
+      const r = await hoaApi.getUnitStatement(unitId, { from: from || undefined, to: to || undefined, party: party || undefined });
+      setStatement(r.data);
+    } catch { setError(t('statement.failedLoad')); }
+    finally { setLoading(false); }
+  }, [unitId, from, to, party, t]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const handleCsv = async () => {
+    try {
+      const lang = localStorage.getItem('lang') || 'he';
+      const r = await hoaApi.getUnitStatementCsv(unitId, { from: from || undefined, to: to || undefined, party: party || undefined, lang });
+      const url = window.URL.createObjectURL(new Blob([r.data]));
+      const a = document.createElement('a'); a.href = url;
+      a.download = `statement-unit-${statement?.unitNumber ?? unitId}-${to}.csv`; a.click();
+    } catch { setError(t('statement.failedExport')); }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+        <TextField label={t('statement.from')} type="date" size="small" value={from}
+          onChange={e => setFrom(e.target.value)} InputLabelProps={{ shrink: true }} />
+        <TextField label={t('statement.to')} type="date" size="small" value={to}
+          onChange={e => setTo(e.target.value)} InputLabelProps={{ shrink: true }} />
+        {allowPartySelect && (
+          <TextField select size="small" label={t('billing.payerParty')} value={party} sx={{ minWidth: 150 }}
+            onChange={e => setParty(e.target.value as BillingParty | '')}>
+            <MenuItem value="">{t('billing.allParties')}</MenuItem>
+            <MenuItem value="Resident">{t('enums.billingParty.Resident')}</MenuItem>
+            <MenuItem value="Owner">{t('enums.billingParty.Owner')}</MenuItem>
+          </TextField>
+        )}
+        <Box sx={{ flexGrow: 1 }} />
+        <Button size="small" variant="outlined" startIcon={<Print />} disabled={!statement}
+          onClick={() => statement && printStatement(statement, t, i18n.language === 'he' ? 'rtl' : 'ltr')}>
+          {t('statement.printPdf')}
+        </Button>
+        <Button size="small" variant="outlined" startIcon={<Download />} onClick={handleCsv}>{t('app.exportCsv')}</Button>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
+      {loading && <CircularProgress size={24} sx={{ mb: 2 }} />}
+
+      {statement && !loading && (
+        <>
+          <Box sx={{ display: 'flex', gap: 3, mb: 2, flexWrap: 'wrap' }}>
+            <Typography variant="body2"><strong>{t('statement.openingBalance')}:</strong> {formatCurrency(statement.openingBalance)}</Typography>
+            <Typography variant="body2"><strong>{t('statement.totalDebits')}:</strong> {formatCurrency(statement.totalDebits)}</Typography>
+            <Typography variant="body2"><strong>{t('statement.totalCredits')}:</strong> {formatCurrency(statement.totalCredits)}</Typography>
+            <Typography variant="body2" sx={{ color: statement.closingBalance > 0 ? 'error.main' : 'success.main' }}>
+              <strong>{t('statement.closingBalance')}:</strong> {formatCurrency(statement.closingBalance)}
+            </Typography>
+          </Box>
+          <TableContainer component={Paper} variant="outlined">
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('statement.date')}</TableCell>
+                  <TableCell>{t('statement.type')}</TableCell>
+                  <TableCell>{t('statement.description')}</TableCell>
+                  <TableCell>{t('statement.reference')}</TableCell>
+                  <TableCell align="right">{t('statement.debit')}</TableCell>
+                  <TableCell align="right">{t('statement.credit')}</TableCell>
+                  <TableCell align="right">{t('statement.balance')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {statement.lines.map((l, i) => (
+                  <TableRow key={`${l.lineType}-${l.unitChargeId ?? l.paymentId}-${i}`}>
+                    <TableCell>{formatDateOnly(l.dateUtc)}</TableCell>
+                    <TableCell><Chip size="small" variant="outlined" color={LINE_COLORS[l.lineType]} label={t(`statement.line${l.lineType}`)} /></TableCell>
+                    <TableCell>{lineDescription(l, t) || '—'}</TableCell>
+                    <TableCell>{l.reference || '—'}</TableCell>
+                    <TableCell align="right">{l.debit ? formatCurrency(l.debit) : ''}</TableCell>
+                    <TableCell align="right" sx={{ color: 'success.main' }}>{l.credit ? formatCurrency(l.credit) : ''}</TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 600 }}>{formatCurrency(l.balance)}</TableCell>
+                  </TableRow>
+                ))}
+                {statement.lines.length === 0 && (
+                  <TableRow><TableCell colSpan={7} align="center">{t('statement.empty')}</TableCell></TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default UnitStatement;
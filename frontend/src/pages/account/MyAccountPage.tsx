@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import {
+  Box, Typography, Card, CardContent, Stack, Button, Alert, Chip, TextField, CircularProgress
+} from '@mui/material';
+import { Person, Lock } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { authApi } from '../../api/services';
+import { useAuth } from '../../auth/AuthContext';
+import { validatePassword } from '../../utils/passwordValidation';
+
+const errorMessage = (err: unknown) => (err as { response?: { data?: { message?: string } } })?.response?.data?.message;
+
+const MyAccountPage: React.FC = () => {
+  const { t } = useTranslation();
+  const { user, refreshUser, establishSession } = useAuth();
+
+  const [fullName, setFullName] = useState(user?.fullName ?? '');
+  const [phone, setPhone] = useState(user?.phone ?? '');
+  const [email, setEmail] = useState(user?.email ?? '');
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [profileError, setProfileError] = useState('');
+  const [profileSuccess, setProfileSuccess] = useState('');
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [savingPassword, setSavingPassword] = useState(false);
+  const [passwordError, setPasswordError] = useState('');
+  const [passwordSuccess, setPasswordSuccess] = useState('');
+
+  const [resending, setResending] = useState(false);
+
+  if (!user) return null;
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setProfileError('');
+    setProfileSuccess('');
+    setSavingProfile(true);
+    try {
+      const r = await authApi.updateProfile({ fullName: fullName.trim(), phone: phone.trim() || undefined, email: email.trim() });
+      await refreshUser();
+      setEmail(r.data.email);
+      setProfileSuccess(r.data.pendingEmail
+        ? t('account.confirmNewEmailSent', { email: r.data.pendingEmail })
+        : t('account.profileSaved'));
+    } catch (err) {
+      setProfileError(errorMessage(err) || t('app.errorOccurred'));
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setResending(true);
+    setProfileError('');
+    try {
+      await authApi.resendVerification();
+      setProfileSuccess(t('account.verificationSent', { email: user.email }));
+    } catch (err) {
+      setProfileError(errorMessage(err) || t('app.errorOccurred'));
+    } finally {
+      setResending(false);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordError('');
+    setPasswordSuccess('');
+
+    const pwCheck = validatePassword(newPassword, t);
+    if (pwCheck.hasError) {
+      setPasswordError(pwCheck.message);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setPasswordError(t('register.passwordMismatch'));
+      return;
+    }
+
+    setSavingPassword(true);
+    try {
+      // Other sessions are signed out; this one continues with the session the response carries
+      const r = await authApi.changePassword({ currentPassword, newPassword });
+      establishSession(r.data);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setPasswordSuccess(t('account.passwordChanged'));
+    } catch (err) {
+      setPasswordError(errorMessage(err) || t('app.errorOccurred'));
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  const ltrInput = { htmlInput: { dir: 'ltr', style: { textAlign: 'left' as const } } };
+
+  return (
+    <Box sx={{ maxWidth: 720 }}>
+      <Typography variant="h5" fontWeight={700} gutterBottom>{t('account.pageTitle')}</Typography>
+      <Typography color="text.secondary" sx={{ mb: 2 }}>{t('account.pageSubtitle')}</Typography>
+
+      <Card sx={{ mb: 2 }}>
+        <CardContent component="form" onSubmit={handleSaveProfile}>
+          <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 2 }}>
+            <Person color="primary" />
+            <Typography variant="subtitle1" fontWeight={600}>{t('account.profileTitle')}</Typography>
+            <Chip size="small" color={user.emailConfirmed ? 'success' : 'warning'}
+              label={user.emailConfirmed ? t('account.emailVerified') : t('account.emailNotVerified')} />
+          </Stack>
+
+          {profileError && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setProfileError('')}>{profileError}</Alert>}
+          {profileSuccess && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setProfileSuccess('')}>{profileSuccess}</Alert>}
+          {!user.emailConfirmed && (
+            <Alert severity="warning" sx={{ mb: 2 }} action={
+              <Button color="inherit" size="small" onClick={handleResend} disabled={resending}>{t('account.resend')}</Button>
+            }>
+              {t('account.unverifiedBanner', { email: user.email })}
+            </Alert>
+          )}
+
+          <TextField fullWidth label={t('account.fullName')} value={fullName} onChange={e => setFullName(e.target.value)}
+            required sx={{ mb: 2 }} slotProps={{ htmlInput: { maxLength: 200 } }} />
+          <TextField fullWidth label={t('account.phone')} value={phone} onChange={e => setPhone(e.target.value)}
+            sx={{ mb: 2 }} placeholder="050-1234567" slotProps={{ htmlInput: { dir: 'ltr', maxLength: 20, style: { textAlign: 'left' } } }} />
+          <TextField fullWidth label={t('login.email')} type="email" value={email} onChange={e => setEmail(e.target.value)}
+            required sx={{ mb: 1 }} slotProps={ltrInput} />
+          <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 2 }}>{t('account.emailChangeHelp')}</Typography>
+
+          <Button type="submit" variant="contained" disabled={savingProfile || !fullName.trim() || !email.trim()}>
+            {savingProfile ? <CircularProgress size={20} color="inherit" /> : t('app.save')}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card sx={{ mb: 2 }}>
+        <CardContent component="form" onSubmit={handleChangePassword}>
+          <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+            <Lock color="primary" />
+            <Typography variant="subtitle1" fontWeight={600}>{t('account.passwordTitle')}</Typography>
+          </Stack>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>{t('account.passwordHelp')}</Typography>
+
+          {passwordError && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setPasswordError('')}>{passwordError}</Alert>}
+          {passwordSuccess && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setPasswordSuccess('')}>{passwordSuccess}</Alert>}
+
+          <TextField fullWidth label={t('account.currentPassword')} type="password" value={currentPassword}
+            onChange={e => setCurrentPassword(e.target.value)} required autoComplete="current-password" sx={{ mb: 2 }} slotProps={ltrInput} />
+          <TextField fullWidth label={t('account.newPassword')} type="password" value={newPassword}
+            onChange={e => setNewPassword(e.target.value)} required autoComplete="new-password" sx={{ mb: 2 }} slotProps={ltrInput} />
+          <TextField fullWidth label={t('register.confirmPassword')} type="password" value={confirmPassword}
+            onChange={e => setConfirmPassword(e.target.value)} required autoComplete="new-password" sx={{ mb: 2 }} slotProps={ltrInput} />
+
+          <Button type="submit" variant="contained" disabled={savingPassword || !currentPassword || !newPassword}>
+            {savingPassword ? <CircularProgress size={20} color="inherit" /> : t('account.changePassword')}
+          </Button>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default MyAccountPage;
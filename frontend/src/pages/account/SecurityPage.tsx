@@ -0,0 +1,191 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box, Typography, Card, CardContent, Stack, Button, Alert, Chip, CircularProgress,
+  Dialog, DialogTitle, DialogContent, DialogActions, TextField
+} from '@mui/material';
+import { Security, VpnKey, Devices } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { authApi } from '../../api/services';
+import type { TwoFactorStatusDto } from '../../types';
+import TwoFactorEnrollment from '../../components/TwoFactorEnrollment';
+import RecoveryCodes from '../../components/RecoveryCodes';
+
+type CodeAction = 'regenerate' | 'disable';
+
+const errorMessage = (err: unknown) => (err as { response?: { data?: { message?: string } } })?.response?.data?.message;
+
+const SecurityPage: React.FC = () => {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<TwoFactorStatusDto | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [enrolling, setEnrolling] = useState(false);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState('');
+  const [codeError, setCodeError] = useState('');
+  const [working, setWorking] = useState(false);
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const r = await authApi.getTwoFactorStatus();
+      setStatus(r.data);
+    } catch {
+      setError(t('twoFactor.loadFailed'));
+    }
+  }, [t]);
+
+  useEffect(() => {
+    authApi.getTwoFactorStatus()
+      .then(r => setStatus(r.data))
+      .catch(() => setError(t('twoFactor.loadFailed')));
+  }, [t]);
+
+  const closeCodeDialog = () => {
+    setCodeAction(null);
+    setCode('');
+    setCodeError('');
+  };
+
+  const handleCodeAction = async () => {
+    if (!codeAction) return;
+    setWorking(true);
+    setCodeError('');
+    try {
+      if (codeAction === 'regenerate') {
+        const r = await authApi.regenerateRecoveryCodes(code);
+        setNewCodes(r.data);
+      } else {
+        await authApi.disableTwoFactor(code);
+        setSuccess(t('twoFactor.disabled'));
+      }
+      closeCodeDialog();
+      await loadStatus();
+    } catch (err) {
+      setCodeError(errorMessage(err) || t('twoFactor.invalidCode'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleForgetDevices = async () => {
+    try {
+      await authApi.forgetTrustedDevices();
+      setSuccess(t('twoFactor.devicesForgotten'));
+      await loadStatus();
+    } catch (err) {
+      setError(errorMessage(err) || t('twoFactor.loadFailed'));
+    }
+  };
+
+  return (
+    <Box sx={{ maxWidth: 720 }}>
+      <Typography variant="h5" fontWeight={700} gutterBottom>{t('twoFactor.pageTitle')}</Typography>
+      <Typography color="text.secondary" sx={{ mb: 2 }}>{t('twoFactor.pageSubtitle')}</Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
+      {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess('')}>{success}</Alert>}
+
+      {!status ? (
+        !error && <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}><CircularProgress /></Box>
+      ) : (
+        <>
+          <Card sx={{ mb: 2 }}>
+            <CardContent>
+              <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+                <Security color="primary" />
+                <Typography variant="subtitle1" fontWeight={600}>{t('twoFactor.title')}</Typography>
+                <Chip size="small" color={status.enabled ? 'success' : 'default'}
+                  label={status.enabled ? t('twoFactor.on') : t('twoFactor.off')} />
+              </Stack>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>{t('twoFactor.help')}</Typography>
+              {status.required && <Alert severity="info" sx={{ mb: 2 }}>{t('twoFactor.requiredForRole')}</Alert>}
+              {status.enabled ? (
+                <Button variant="outlined" color="error" disabled={status.required} onClick={() => setCodeAction('disable')}>
+                  {t('twoFactor.disable')}
+                </Button>
+              ) : (
+                <Button variant="contained" onClick={() => setEnrolling(true)}>{t('twoFactor.setUp')}</Button>
+              )}
+            </CardContent>
+          </Card>
+
+          {status.enabled && (
+            <>
+              <Card sx={{ mb: 2 }}>
+                <CardContent>
+                  <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+                    <VpnKey color="primary" />
+                    <Typography variant="subtitle1" fontWeight={600}>{t('twoFactor.recoveryCodesTitle')}</Typography>
+                  </Stack>
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    {t('twoFactor.recoveryCodesLeft', { count: status.recoveryCodesLeft })}
+                  </Typography>
+                  {status.recoveryCodesLeft <= 3 && <Alert severity="warning" sx={{ mb: 2 }}>{t('twoFactor.recoveryCodesLow')}</Alert>}
+                  <Button variant="outlined" onClick={() => setCodeAction('regenerate')}>{t('twoFactor.regenerate')}</Button>
+                </CardContent>
+              </Card>
+
+              <Card sx={{ mb: 2 }}>
+                <CardContent>
+                  <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+                    <Devices color="primary" />
+                    <Typography variant="subtitle1" fontWeight={600}>{t('twoFactor.trustedDevicesTitle')}</Typography>
+                  </Stack>
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    {t('twoFactor.trustedDevicesCount', { count: status.trustedDevices })}
+                  </Typography>
+                  <Button variant="outlined" disabled={status.trustedDevices === 0} onClick={handleForgetDevices}>
+                    {t('twoFactor.forgetDevices')}
+                  </Button>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </>
+      )}
+
+      <Dialog open={enrolling} onClose={() => setEnrolling(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('twoFactor.enrollTitle')}</DialogTitle>
+        <DialogContent>
+          {enrolling && (
+            <TwoFactorEnrollment
+              onEnabled={() => { setEnrolling(false); setSuccess(t('twoFactor.enabled')); loadStatus(); }}
+              onCancel={() => setEnrolling(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!codeAction} onClose={closeCodeDialog} maxWidth="xs" fullWidth>
+        <DialogTitle>{codeAction === 'disable' ? t('twoFactor.disable') : t('twoFactor.regenerate')}</DialogTitle>
+        <DialogContent>
+          {codeError && <Alert severity="error" sx={{ mb: 2 }}>{codeError}</Alert>}
+          <Typography variant="body2" sx={{ mb: 2 }}>{t('twoFactor.confirmWithCode')}</Typography>
+          <TextField
+            fullWidth autoFocus label={t('twoFactor.code')} value={code} onChange={e => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            slotProps={{ htmlInput: { dir: 'ltr', inputMode: 'numeric', maxLength: 7, style: { textAlign: 'center', letterSpacing: 4 } } }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeCodeDialog}>{t('app.cancel')}</Button>
+          <Button variant="contained" color={codeAction === 'disable' ? 'error' : 'primary'}
+            disabled={working || code.trim().length < 6} onClick={handleCodeAction}>
+            {codeAction === 'disable' ? t('twoFactor.disable') : t('twoFactor.regenerate')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!newCodes} onClose={() => setNewCodes(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('twoFactor.recoveryCodesTitle')}</DialogTitle>
+        <DialogContent>{newCodes && <RecoveryCodes codes={newCodes} />}</DialogContent>
+        <DialogActions>
+          <Button variant="contained" onClick={() => setNewCodes(null)}>{t('twoFactor.savedCodes')}</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default SecurityPage;
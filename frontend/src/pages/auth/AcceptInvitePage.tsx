@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box, TextField, Button, Typography, Alert, CircularProgress, FormControlLabel, Checkbox, Link as MuiLink
+} from '@mui/material';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { authApi } from '../../api/services';
+import { useAuth } from '../../auth/AuthContext';
+import { validatePassword } from '../../utils/passwordValidation';
+import { formatDateOnly } from '../../utils/dateUtils';
+import AuthPageLayout from '../../components/AuthPageLayout';
+import TermsOfUseDialog from '../../components/TermsOfUseDialog';
+import type { InvitationDetailsDto } from '../../types';
+
+const errorMessage = (err: unknown) => (err as { response?: { data?: { message?: string } } })?.response?.data?.message;
+
+/**
+ * Opened from the link a manager sent: /invite/:token shows the unit the tenant was invited to and creates their
+ * account already linked to it, without waiting for approval.
+ */
+const AcceptInvitePage: React.FC = () => {
+  const { t } = useTranslation();
+  const { token = '' } = useParams();
+  const navigate = useNavigate();
+  const { establishSession } = useAuth();
+
+  const [invitation, setInvitation] = useState<InvitationDetailsDto | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [fullName, setFullName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [marketingConsent, setMarketingConsent] = useState(false);
+  const [termsAccepted, setTermsAccepted] = useState(false);
+  const [termsDialogOpen, setTermsDialogOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    authApi.getInvitation(token)
+      .then(res => {
+        setInvitation(res.data);
+        setFullName(res.data.fullName);
+        setEmail(res.data.email ?? '');
+        setPhone(res.data.phone ?? '');
+      })
+      .catch(err => setLoadError(errorMessage(err) || t('onboarding.invalidInvitation')));
+  }, [token, t]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const pwCheck = validatePassword(password, t);
+    if (pwCheck.hasError) {
+      setError(pwCheck.message);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError(t('register.passwordMismatch'));
+      return;
+    }
+    if (!termsAccepted) {
+      setError(t('registerTenant.mustAcceptTerms'));
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await authApi.acceptInvitation(token, {
+        fullName: fullName.trim(),
+        email: email.trim(),
+        password,
+        phone: phone.trim() || undefined,
+        marketingConsent,
+        termsAccepted,
+      });
+      establishSession(res.data);
+      navigate('/my-requests');
+    } catch (err) {
+      setError(errorMessage(err) || t('app.errorOccurred'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const ltrInput = { htmlInput: { dir: 'ltr', style: { textAlign: 'left' as const } } };
+
+  if (!invitation) {
+    return (
+      <AuthPageLayout title={t('onboarding.acceptTitle')}>
+        {loadError ? (
+          <>
+            <Alert severity="error" sx={{ mb: 2 }}>{loadError}</Alert>
+            <Box sx={{ textAlign: 'center' }}>
+              <Button component={Link} to="/login" variant="contained">{t('account.backToLogin')}</Button>
+            </Box>
+          </>
+        ) : (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}><CircularProgress /></Box>
+        )}
+      </AuthPageLayout>
+    );
+  }
+
+  return (
+    <AuthPageLayout title={t('onboarding.acceptTitle')}>
+      <Alert severity="info" icon={false} sx={{ mb: 2 }}>
+        <Typography variant="body2" fontWeight={600}>
+          {invitation.buildingName} · {t('tenants.unitLabel')} {invitation.unitNumber}
+        </Typography>
+        {invitation.addressLine && <Typography variant="caption" component="div">{invitation.addressLine}</Typography>}
+        <Typography variant="caption" color="text.secondary" component="div">
+          {t('onboarding.validUntil', { date: formatDateOnly(invitation.expiresAtUtc) })}
+        </Typography>
+      </Alert>
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      <Box component="form" onSubmit={handleSubmit}>
+        <TextField fullWidth label={t('account.fullName')} value={fullName} onChange={e => setFullName(e.target.value)}
+          required sx={{ mb: 2 }} slotProps={{ htmlInput: { maxLength: 200 } }} />
+        <TextField fullWidth label={t('login.email')} type="email" value={email} onChange={e => setEmail(e.target.value)}
+          required autoComplete="email" sx={{ mb: 2 }} slotProps={ltrInput} />
+        <TextField fullWidth label={t('account.phone')} value={phone} onChange={e => setPhone(e.target.value)}
+          sx={{ mb: 2 }} placeholder="050-1234567" slotProps={{ htmlInput: { dir: 'ltr', maxLength: 20, style: { textAlign: 'left' } } }} />
+        <TextField fullWidth label={t('registerTenant.password')} type="password" value={password}
+          onChange={e => setPassword(e.target.value)} required autoComplete="new-password" sx={{ mb: 2 }} slotProps={ltrInput} />
+        <TextField fullWidth label={t('registerTenant.confirmPassword')} type="password" value={confirmPassword}
+          onChange={e => setConfirmPassword(e.target.value)} required autoComplete="new-password" sx={{ mb: 2 }} slotProps={ltrInput} />
+
+        <FormControlLabel
+          control={<Checkbox checked={marketingConsent} onChange={e => setMarketingConsent(e.target.checked)} />}
+          label={<Typography variant="body2">{t('registerTenant.marketingConsent')}</Typography>}
+          sx={{ mb: 1, display: 'flex' }}
+        />
+        <FormControlLabel
+          control={<Checkbox checked={termsAccepted} onChange={e => setTermsAccepted(e.target.checked)} />}
+          label={
+            <Typography variant="body2">
+              {t('registerTenant.iAccept')}{' '}
+              <MuiLink component="button" type="button" variant="body2" sx={{ fontWeight: 600 }}
+                onClick={(e) => { e.preventDefault(); setTermsDialogOpen(true); }}>
+                {t('registerTenant.termsOfUse')}
+              </MuiLink>
+            </Typography>
+          }
+          sx={{ mb: 2, display: 'flex' }}
+        />
+
+        <Button type="submit" fullWidth variant="contained" size="large"
+          disabled={submitting || !fullName.trim() || !email.trim() || !password}>
+          {submitting ? <CircularProgress size={24} color="inherit" /> : t('onboarding.createAccount')}
+        </Button>
+      </Box>
+
+      <TermsOfUseDialog open={termsDialogOpen} onClose={() => setTermsDialogOpen(false)} />
+    </AuthPageLayout>
+  );
+};
+
+export default AcceptInvitePage;
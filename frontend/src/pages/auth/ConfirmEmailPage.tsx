@@ -0,0 +1,58 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Button, Alert, CircularProgress } from '@mui/material';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { authApi } from '../../api/services';
+import { useAuth } from '../../auth/AuthContext';
+import AuthPageLayout from '../../components/AuthPageLayout';
+
+/**
+ * Opened from a confirmation link: /confirm-email?userId=…&token=… confirms the registered address, and with
+ * &email=… switches the account to the new address it was sent to.
+ */
+const ConfirmEmailPage: React.FC = () => {
+  const { t } = useTranslation();
+  const { isAuthenticated, refreshUser } = useAuth();
+  const [params] = useSearchParams();
+  const userId = params.get('userId') ?? '';
+  const token = params.get('token') ?? '';
+  const newEmail = params.get('email') ?? undefined;
+  const [status, setStatus] = useState<'pending' | 'done' | 'failed'>(userId && token ? 'pending' : 'failed');
+  const [message, setMessage] = useState('');
+  // A change-email token works once, so the request must not repeat when effects run twice
+  const sent = useRef(false);
+
+  useEffect(() => {
+    if (!userId || !token || sent.current) return;
+    sent.current = true;
+    authApi.confirmEmail({ userId, token, newEmail })
+      .then(res => {
+        setMessage(newEmail ? t('account.emailChanged', { email: res.data.email }) : t('account.emailConfirmed'));
+        setStatus('done');
+        if (isAuthenticated) refreshUser().catch(() => undefined);
+      })
+      .catch(err => {
+        setMessage((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('account.invalidLink'));
+        setStatus('failed');
+      });
+  }, [userId, token, newEmail, isAuthenticated, refreshUser, t]);
+
+  return (
+    <AuthPageLayout title={newEmail ? t('account.changeEmailTitle') : t('account.confirmTitle')}>
+      {status === 'pending' ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}><CircularProgress /></Box>
+      ) : (
+        <Alert severity={status === 'done' ? 'success' : 'error'} sx={{ mb: 2 }}>
+          {message || t('account.invalidLink')}
+        </Alert>
+      )}
+      <Box sx={{ textAlign: 'center', mt: 2 }}>
+        <Button component={Link} to={isAuthenticated ? '/' : '/login'} variant="contained" disabled={status === 'pending'}>
+          {isAuthenticated ? t('account.continue') : t('account.backToLogin')}
+        </Button>
+      </Box>
+    </AuthPageLayout>
+  );
+};
+
+export default ConfirmEmailPage;
@@ -0,0 +1,82 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box, Card, CardContent, TextField, Button, Typography, Alert, Stack, Link as MuiLink, CircularProgress,
+} from '@mui/material';
+import { Refresh } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { authApi } from '../../api/services';
+import type { StandInMessageDto } from '../../types';
+
+const htmlToText = (html: string) =>
+  new DOMParser().parseFromString(html.replace(/<br\s*\/?>/gi, '\n'), 'text/html').body.textContent ?? '';
+
+const linksIn = (html: string) =>
+  Array.from(new DOMParser().parseFromString(html, 'text/html').querySelectorAll('a[href]'), a => a.getAttribute('href') ?? '');
+
+/**
+ * Development only: account emails (password reset, confirmation links) the stand-in email sender kept instead
+ * of sending, so the flows can be followed without a mail provider.
+ */
+const DevOutboxPage: React.FC = () => {
+  const { t } = useTranslation();
+  const [email, setEmail] = useState('');
+  const [messages, setMessages] = useState<StandInMessageDto[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async (filter: string) => {
+    setLoading(true);
+    setError('');
+    try {
+      const res = await authApi.getDevOutbox(filter.trim() || undefined);
+      setMessages(res.data);
+    } catch {
+      setError(t('account.outboxUnavailable'));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => { load(''); }, [load]);
+
+  return (
+    <Box sx={{ maxWidth: 800, mx: 'auto', p: { xs: 2, sm: 4 } }}>
+      <Typography variant="h5" fontWeight={600} gutterBottom>{t('account.outboxTitle')}</Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>{t('account.outboxHelp')}</Typography>
+
+      <Stack direction="row" spacing={1} sx={{ mb: 2 }} component="form" onSubmit={e => { e.preventDefault(); load(email); }}>
+        <TextField
+          size="small" fullWidth label={t('account.outboxFilter')} value={email} onChange={e => setEmail(e.target.value)}
+          slotProps={{ htmlInput: { dir: 'ltr' } }}
+        />
+        <Button type="submit" variant="outlined" startIcon={loading ? <CircularProgress size={16} /> : <Refresh />} disabled={loading}>
+          {t('app.search')}
+        </Button>
+      </Stack>
+
+      {error && <Alert severity="warning" sx={{ mb: 2 }}>{error}</Alert>}
+      {!error && !loading && messages.length === 0 && <Alert severity="info">{t('account.outboxEmpty')}</Alert>}
+
+      <Stack spacing={2}>
+        {messages.map(m => (
+          <Card key={m.messageId} variant="outlined">
+            <CardContent>
+              <Typography variant="subtitle2">{m.subject}</Typography>
+              <Typography variant="caption" color="text.secondary" component="div" dir="ltr" sx={{ mb: 1 }}>
+                {m.to} · {new Date(m.sentAtUtc).toLocaleString()}
+              </Typography>
+              <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', mb: 1 }}>{htmlToText(m.body)}</Typography>
+              {linksIn(m.body).map(href => (
+                <MuiLink key={href} href={href} variant="body2" sx={{ display: 'block', wordBreak: 'break-all' }} dir="ltr">
+                  {t('account.openLink')}
+                </MuiLink>
+              ))}
+            </CardContent>
+          </Card>
+        ))}
+      </Stack>
+    </Box>
+  );
+};
+
+export default DevOutboxPage;
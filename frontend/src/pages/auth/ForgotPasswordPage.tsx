@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Box, TextField, Button, Typography, Alert, CircularProgress } from '@mui/material';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { authApi } from '../../api/services';
+import AuthPageLayout from '../../components/AuthPageLayout';
+
+const ForgotPasswordPage: React.FC = () => {
+  const { t } = useTranslation();
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+    try {
+      await authApi.forgotPassword(email.trim());
+      setSent(true);
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('app.errorOccurred'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <AuthPageLayout title={t('account.forgotTitle')}>
+      {sent ? (
+        <Alert severity="success" sx={{ mb: 2 }}>{t('account.resetSent', { email: email.trim() })}</Alert>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>{t('account.forgotHelp')}</Typography>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          <TextField
+            fullWidth label={t('login.email')} type="email" value={email}
+            onChange={e => setEmail(e.target.value)} required autoFocus
+            sx={{ mb: 2 }}
+            InputLabelProps={{ shrink: true }}
+            slotProps={{ htmlInput: { dir: 'ltr', style: { textAlign: 'left' } } }}
+          />
+          <Button fullWidth variant="contained" size="large" type="submit" disabled={loading || !email.trim()} sx={{ py: 1.5 }}>
+            {loading ? <CircularProgress size={24} color="inherit" /> : t('account.sendResetLink')}
+          </Button>
+        </form>
+      )}
+      <Box sx={{ textAlign: 'center', mt: 2 }}>
+        <Button component={Link} to="/login" size="small">{t('account.backToLogin')}</Button>
+      </Box>
+    </AuthPageLayout>
+  );
+};
+
+export default ForgotPasswordPage;
@@ -1,12 +1,13 @@
 import React, { useState } from 'react';
 import {
   Box, Card, CardContent, TextField, Button, Typography, Alert, CircularProgress,
-  IconButton, Menu, MenuItem, ListItemIcon, ListItemText, Divider
+  IconButton, Menu, MenuItem, ListItemIcon, ListItemText, Divider, FormControlLabel, Checkbox
 } from '@mui/material';
-import { Language, Check } from '@mui/icons-material';
+import { Language, Check, Security } from '@mui/icons-material';
 import { useAuth } from '../../auth/AuthContext';
 import { useNavigate, Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
+import TwoFactorEnrollment from '../../components/TwoFactorEnrollment';
 
 const LANGUAGES = [
   { code: 'he', label: 'עברית', flag: '🇮🇱' },
@@ -14,11 +15,13 @@ const LANGUAGES = [
 ];
 
 const LoginPage: React.FC = () => {
-  const { login, isLoading } = useAuth();
+  const { login, isLoading, twoFactorChallenge, verifyTwoFactor, cancelTwoFactor, establishSession } = useAuth();
   const navigate = useNavigate();
   const { t, i18n } = useTranslation();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [rememberDevice, setRememberDevice] = useState(false);
   const [error, setError] = useState('');
   const [langAnchor, setLangAnchor] = useState<null | HTMLElement>(null);
 
@@ -26,13 +29,29 @@ const LoginPage: React.FC = () => {
     e.preventDefault();
     setError('');
     try {
-      await login(email, password);
-      navigate('/dashboard');
+      if (await login(email, password)) navigate('/dashboard');
     } catch (err: any) {
       setError(err.response?.data?.message || t('login.failed'));
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      await verifyTwoFactor(code, rememberDevice);
+      navigate('/dashboard');
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('twoFactor.invalidCode'));
+    }
+  };
+
+  const handleBack = () => {
+    cancelTwoFactor();
+    setCode('');
+    setError('');
+  };
+
   const handleLanguageSelect = (code: string) => {
     i18n.changeLanguage(code);
     localStorage.setItem('lang', code);
@@ -107,66 +126,112 @@ const LoginPage: React.FC = () => {
 
           {error && <Alert severity="error" sx={{ mb: 2, borderRadius: 2 }}>{error}</Alert>}
 
-          <form onSubmit={handleSubmit}>
-            <TextField
-              fullWidth label={t('login.email')} type="email" value={email}
-              onChange={e => setEmail(e.target.value)} required
-              sx={{ mb: 2 }}
-              size="medium"
-              InputLabelProps={{ shrink: true }}
-              slotProps={{
-                htmlInput: { dir: 'ltr', style: { textAlign: 'left', paddingInlineEnd: 40 } },
-              }}
-            />
-            <TextField
-              fullWidth label={t('login.password')} type="password" value={password}
-              onChange={e => setPassword(e.target.value)} required
-              sx={{ mb: 3 }}
-              size="medium"
-              InputLabelProps={{ shrink: true }}
-              slotProps={{
-                htmlInput: { dir: 'ltr', style: { textAlign: 'left', paddingInlineEnd: 40 } },
-              }}
-            />
-            <Button
-              fullWidth variant="contained" size="large" type="submit" disabled={isLoading}
-              sx={{
-                py: 1.5, fontSize: '1rem',
-                background: 'linear-gradient(135deg, #1a56a0 0%, #2d6fbe 100%)',
-                '&:hover': { background: 'linear-gradient(135deg, #123d73 0%, #1a56a0 100%)' },
-              }}
-            >
-              {isLoading ? <CircularProgress size={24} color="inherit" /> : t('login.signIn')}
-            </Button>
-          </form>
-
-          <Divider sx={{ my: 2 }} />
-
-          <Typography variant="body2" align="center" color="text.secondary" sx={{ mb: 1 }}>
-            {t('login.noAccount')}
-          </Typography>
-          <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center', mb: 2 }}>
-            <Button component={Link} to="/register-tenant" variant="outlined" size="small" sx={{ textTransform: 'none', fontWeight: 600 }}>
-              {t('login.signUpTenant')}
-            </Button>
-            <Button component={Link} to="/register" variant="outlined" size="small" sx={{ textTransform: 'none', fontWeight: 600 }}>
-              {t('login.signUpManager')}
-            </Button>
-          </Box>
+          {twoFactorChallenge?.step === 'Verify' ? (
+            <form onSubmit={handleVerify}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Security color="primary" />
+                <Typography variant="subtitle1" fontWeight={600}>{t('twoFactor.verifyTitle')}</Typography>
+              </Box>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>{t('twoFactor.verifyHelp')}</Typography>
+              <TextField
+                fullWidth label={t('twoFactor.codeOrRecovery')} value={code} onChange={e => setCode(e.target.value)} required
+                autoFocus autoComplete="one-time-code" sx={{ mb: 1 }}
+                InputLabelProps={{ shrink: true }}
+                slotProps={{ htmlInput: { dir: 'ltr', maxLength: 20, style: { textAlign: 'center', letterSpacing: 4 } } }}
+              />
+              <FormControlLabel
+                control={<Checkbox checked={rememberDevice} onChange={e => setRememberDevice(e.target.checked)} />}
+                label={<Typography variant="body2">{t('twoFactor.rememberDevice')}</Typography>}
+                sx={{ mb: 2 }}
+              />
+              <Button fullWidth variant="contained" size="large" type="submit" disabled={isLoading || !code.trim()} sx={{ py: 1.5, mb: 1 }}>
+                {isLoading ? <CircularProgress size={24} color="inherit" /> : t('twoFactor.verify')}
+              </Button>
+              <Button fullWidth onClick={handleBack}>{t('twoFactor.back')}</Button>
+            </form>
+          ) : twoFactorChallenge?.step === 'Enroll' ? (
+            <Box>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Security color="primary" />
+                <Typography variant="subtitle1" fontWeight={600}>{t('twoFactor.enrollTitle')}</Typography>
+              </Box>
+              <Alert severity="info" sx={{ mb: 2 }}>{t('twoFactor.enrollRequired')}</Alert>
+              <TwoFactorEnrollment
+                challengeToken={twoFactorChallenge.challengeToken}
+                onEnabled={result => { if (result.session && establishSession(result.session)) navigate('/dashboard'); }}
+                onCancel={handleBack}
+              />
+            </Box>
+          ) : (
+            <>
+              <form onSubmit={handleSubmit}>
+                <TextField
+                  fullWidth label={t('login.email')} type="email" value={email}
+                  onChange={e => setEmail(e.target.value)} required
+                  sx={{ mb: 2 }}
+                  size="medium"
+                  InputLabelProps={{ shrink: true }}
+                  slotProps={{
+                    htmlInput: { dir: 'ltr', style: { textAlign: 'left', paddingInlineEnd: 40 } },
+                  }}
+                />
+                <TextField
+                  fullWidth label={t('login.password')} type="password" value={password}
+                  onChange={e => setPassword(e.target.value)} required
+                  sx={{ mb: 1 }}
+                  size="medium"
+                  InputLabelProps={{ shrink: true }}
+                  slotProps={{
+                    htmlInput: { dir: 'ltr', style: { textAlign: 'left', paddingInlineEnd: 40 } },
+                  }}
+                />
+                <Box sx={{ textAlign: 'end', mb: 2 }}>
+                  <Button component={Link} to="/forgot-password" size="small" sx={{ textTransform: 'none' }}>
+                    {t('login.forgotPassword')}
+                  </Button>
+                </Box>
+                <Button
+                  fullWidth variant="contained" size="large" type="submit" disabled={isLoading}
+                  sx={{
+                    py: 1.5, fontSize: '1rem',
+                    background: 'linear-gradient(135deg, #1a56a0 0%, #2d6fbe 100%)',
+                    '&:hover': { background: 'linear-gradient(135deg, #123d73 0%, #1a56a0 100%)' },
+                  }}
+                >
+                  {isLoading ? <CircularProgress size={24} color="inherit" /> : t('login.signIn')}
+                </Button>
+              </form>
+
+              <Divider sx={{ my: 2 }} />
 
-          <Box sx={{ p: 1.5, bgcolor: 'rgba(26,86,160,0.04)', borderRadius: 2, border: '1px solid rgba(26,86,160,0.08)' }}>
-            <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 0.5 }}>
-              <strong>{t('login.demoTitle')}</strong>
-            </Typography>
-            <div dir="ltr" style={{ textAlign: 'left', unicodeBidi: 'embed' }}>
-              <Typography variant="caption" color="text.secondary" component="div">
-                admin@example.com / Demo@123!<br />
-                manager@example.com / Demo@123!<br />
-                tenant@example.com / Demo@123!<br />
-                vendor@example.com / Demo@123!
+              <Typography variant="body2" align="center" color="text.secondary" sx={{ mb: 1 }}>
+                {t('login.noAccount')}
               </Typography>
-            </div>
-          </Box>
+              <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center', mb: 2 }}>
+                <Button component={Link} to="/register-tenant" variant="outlined" size="small" sx={{ textTransform: 'none', fontWeight: 600 }}>
+                  {t('login.signUpTenant')}
+                </Button>
+                <Button component={Link} to="/register" variant="outlined" size="small" sx={{ textTransform: 'none', fontWeight: 600 }}>
+                  {t('login.signUpManager')}
+                </Button>
+              </Box>
+
+              <Box sx={{ p: 1.5, bgcolor: 'rgba(26,86,160,0.04)', borderRadius: 2, border: '1px solid rgba(26,86,160,0.08)' }}>
+                <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 0.5 }}>
+                  <strong>{t('login.demoTitle')}</strong>
+                </Typography>
+                <div dir="ltr" style={{ textAlign: 'left', unicodeBidi: 'embed' }}>
+                  <Typography variant="caption" color="text.secondary" component="div">
+                    admin@example.com / Demo@123!<br />
+                    manager@example.com / Demo@123!<br />
+                    bookkeeper@example.com / Demo@123!<br />
+                    tenant@example.com / Demo@123!<br />
+                    vendor@example.com / Demo@123!
+                  </Typography>
+                </div>
+              </Box>
+            </>
+          )}
         </CardContent>
       </Card>
 
@@ -7,7 +7,6 @@ import { Language, Check } from '@mui/icons-material';
 import { useNavigate, Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { authApi } from '../../api/services';
-import { setTokens } from '../../api/client';
 import { useAuth } from '../../auth/AuthContext';
 import { validatePassword } from '../../utils/passwordValidation';
 
@@ -19,7 +18,7 @@ const LANGUAGES = [
 const RegisterPage: React.FC = () => {
   const navigate = useNavigate();
   const { t, i18n } = useTranslation();
-  const { login } = useAuth();
+  const { establishSession } = useAuth();
   const [fullName, setFullName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -52,11 +51,8 @@ const RegisterPage: React.FC = () => {
         password,
         phone: phone || undefined,
       });
-      // Auto-login with returned tokens
-      setTokens(response.data.accessToken, response.data.refreshToken);
-      // Use login to set user context (re-login with credentials)
-      await login(email, password);
-      navigate('/dashboard');
+      // Registration signs the user in, or leads to two-factor setup on the login page
+      navigate(establishSession(response.data) ? '/dashboard' : '/login');
     } catch (err: any) {
       const msg = err.response?.data?.message || t('register.failed');
       setError(msg);
@@ -3,16 +3,16 @@ import {
   Box, Card, CardContent, TextField, Button, Typography, Alert, CircularProgress,
   IconButton, Menu, MenuItem, ListItemIcon, ListItemText, Divider,
   Stepper, Step, StepLabel, FormControlLabel, Checkbox, Autocomplete,
-  FormControl, InputLabel, Select, Dialog, DialogTitle, DialogContent, DialogActions,
+  FormControl, InputLabel, Select,
   Link as MuiLink
 } from '@mui/material';
 import { Language, Check } from '@mui/icons-material';
 import { useNavigate, Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { authApi } from '../../api/services';
-import { setTokens } from '../../api/client';
 import { useAuth } from '../../auth/AuthContext';
 import { validatePassword } from '../../utils/passwordValidation';
+import TermsOfUseDialog from '../../components/TermsOfUseDialog';
 
 const LANGUAGES = [
   { code: 'he', label: 'עברית', flag: '🇮🇱' },
@@ -35,7 +35,7 @@ const PROPERTY_ROLES = [
 const RegisterTenantPage: React.FC = () => {
   const navigate = useNavigate();
   const { t, i18n } = useTranslation();
-  const { login } = useAuth();
+  const { establishSession } = useAuth();
 
   // Step state
   const [activeStep, setActiveStep] = useState(0);
@@ -154,8 +154,7 @@ const RegisterTenantPage: React.FC = () => {
         propertyRole,
         isCommitteeMember,
       });
-      setTokens(response.data.accessToken, response.data.refreshToken);
-      await login(email, password);
+      establishSession(response.data);
       navigate('/my-requests');
     } catch (err: any) {
       const msg = err.response?.data?.message || t('register.failed');
@@ -453,154 +452,4 @@ const RegisterTenantPage: React.FC = () => {
   );
 };
 
-// ─── Terms of Use Dialog ───
-const TermsOfUseDialog: React.FC<{ open: boolean; onClose: () => void }> = ({ open, onClose }) => {
-  const { t, i18n } = useTranslation();
-  const isHe = i18n.language === 'he';
-
-  return (
-    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth scroll="paper">
-      <DialogTitle sx={{ fontWeight: 700 }}>
-        {t('registerTenant.termsOfUse')}
-      </DialogTitle>
-      <DialogContent dividers sx={{ direction: isHe ? 'rtl' : 'ltr' }}>
-        {isHe ? <TermsContentHebrew /> : <TermsContentEnglish />}
-      </DialogContent>
-      <DialogActions>
-        <Button onClick={onClose} variant="contained">
-          {t('app.close')}
-        </Button>
-      </DialogActions>
-    </Dialog>
-  );
-};
-
-const TermsContentHebrew: React.FC = () => (
-  <Box sx={{ fontSize: '0.9rem', lineHeight: 1.8 }}>
-    <Typography variant="h6" gutterBottom sx={{ fontWeight: 700 }}>תקנון שימוש באפליקציה / אתר HomeHero</Typography>
-
-    <Typography paragraph>
-      אנו מודים לך על שבחרת להיכנס לאפליקציית או אתר HomeHero (להלן - "האפליקציה" או "האתר").
-      השימוש באתר ובאפליקציה מוצע בכפוף לתקנון להלן וכן, השימוש באפליקציה מהווה הסכמתך לתנאים אלו.
-    </Typography>
-
-    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>1. מבוא והגדרות</Typography>
-    <Typography paragraph>
-      "הבניין" – בית משותף או נכס מסוים.{' '}
-      "הועד" – נציגות הדיירים/בעלי הדירות של הבניין.{' '}
-      "חברת הניהול" – חברה ו/או עוסק ו/או כל גוף אחר המשמש כמתחזק של הבניין.{' '}
-      "האפליקציה" – התוכנה המופעלת על טלפון נייד או אתר אינטרנט.{' '}
-      "דייר" – אדם או תאגיד המחזיק בדירה או יחידה בבניין.{' '}
-      "גולש" – כל מי שמשתמש באפליקציה או באתר.
-    </Typography>
-
-    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>2. מהות השימוש באפליקציה</Typography>
-    <Typography paragraph>
-      האפליקציה הינה פלטפורמה לניהול אחזקת מבנים עבור חברות ניהול בניינים וועדי בתים.
-      האפליקציה מאפשרת לועד הבית ו/או לחברת הניהול לנהל בצורה מקצועית וקלה את הבית ובכלל זה תשלומים, ניהול תקלות וביקורת אחזקה.
-      האפליקציה מאפשרת לדייר לדווח על תקלות, לשלם את דמי ועד הבית השוטפים ותשלומים נוספים.
-    </Typography>
-
-    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>3. הרשאה לשימוש</Typography>
-    <Typography paragraph>
-      בכדי להשתמש באפליקציה, יהא על הגולש להזין את פרטיו האישיים: שם פרטי, שם משפחה, כתובת דואר-אלקטרוני, מספר טלפון נייד, כתובת.
-      בהזנת פרטים אלו נותן הגולש אישור לשמור נתונים אלו ולהעבירם לצד שלישי לצורך מתן השירותים.
-      מסירת פרטים אישיים כוזבים עלולה להוות עבירה פלילית.
-    </Typography>
-
-    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>4. תשלומים</Typography>
-    <Typography paragraph>
-      המערכת מאפשרת לשלם תשלומים שונים לוועד הבית ו/או לחברת הניהול באמצעות האפליקציה.
-      שיעור סכומי התשלום נמסרים על ידי הגורם המוסמך ולא תשמע כל טענה ביחס לסכומים הללו.
-    </Typography>
-
-    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>5. אחריות</Typography>
-    <Typography paragraph>
-      השימוש באפליקציה הינו באחריות הגולש בלבד.
-      האפליקציה אינה אחראית לכל נזק ו/או הוצאה ו/או הפסד ו/או פגיעה ישירים ו/או עקיפים שייגרמו לגולשים.
-    </Typography>
-
-    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>6. קניין רוחני</Typography>
-    <Typography paragraph>
-      זכויות היוצרים, סימני המסחר וזכויות הקניין הרוחני באפליקציה ובאתר שייכים בלעדית ל-HomeHero.
-      אין להעתיק, לשנות, לפרסם, או לעשות שימוש מסחרי ללא הסכמה מפורשת מראש ובכתב.
-    </Typography>
-
-    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>7. מדיניות פרטיות</Typography>
-    <Typography paragraph>
-      במסירת המידע הנדרש, הגולש מסכים לאיסוף, שימוש וחשיפת המידע בהתאם לתנאי תקנון זה.
-      המידע שנאסף עשוי להישמר במאגר מידע וישמש לצורך אישור שימוש, יצירת קשר, שיפור השירות והתאמת תוכן.
-    </Typography>
-
-    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>8. דין ומקום שיפוט</Typography>
-    <Typography paragraph>
-      על השימוש באתר ו/או באפליקציה יחולו דיני מדינת ישראל בלבד.
-    </Typography>
-  </Box>
-);
-
-const TermsContentEnglish: React.FC = () => (
-  <Box sx={{ fontSize: '0.9rem', lineHeight: 1.8 }}>
-    <Typography variant="h6" gutterBottom sx={{ fontWeight: 700 }}>HomeHero Application / Website Terms of Use</Typography>
-
-    <Typography paragraph>
-      Thank you for choosing to use the HomeHero application or website (the "Application" or "Website").
-      Use of the website and application is offered subject to the following terms, and use of the application constitutes your agreement to these terms.
-    </Typography>
-
-    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>1. Introduction and Definitions</Typography>
-    <Typography paragraph>
-      "Building" – a condominium or specific property.{' '}
-      "Committee" – the residents' / owners' representative body.{' '}
-      "Management Company" – any entity serving as the building's maintainer.{' '}
-      "Application" – software operated on a mobile phone or website.{' '}
-      "Resident" – a person or entity holding an apartment or unit in a building.{' '}
-      "User" – anyone who uses the application or website.
-    </Typography>
-
-    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>2. Purpose of Use</Typography>
-    <Typography paragraph>
-      The application is a platform for building maintenance management for building management companies and house committees.
-      It enables the committee and/or management company to professionally manage the building including payments, fault management, and maintenance inspections.
-      Residents can report faults, pay monthly HOA fees, and make additional payments.
-    </Typography>
-
-    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>3. Authorization for Use</Typography>
-    <Typography paragraph>
-      To use the application, the user must enter their personal details: first name, last name, email address, mobile phone number, and address.
-      By entering these details, the user authorizes storing this data and transferring it to third parties for the purpose of providing services.
-      Providing false personal information may constitute a criminal offense.
-    </Typography>
-
-    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>4. Payments</Typography>
-    <Typography paragraph>
-      The system allows making various payments to the house committee and/or management company through the application.
-      Payment amounts are provided by the authorized party and no claim shall be made regarding these amounts.
-    </Typography>
-
-    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>5. Liability</Typography>
-    <Typography paragraph>
-      Use of the application is at the user's sole responsibility.
-      The application is not responsible for any direct or indirect damage, expense, loss, or harm caused to users.
-    </Typography>
-
-    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>6. Intellectual Property</Typography>
-    <Typography paragraph>
-      Copyrights, trademarks, and intellectual property rights in the application and website belong exclusively to HomeHero.
-      Copying, modifying, publishing, or making commercial use without prior written consent is prohibited.
-    </Typography>
-
-    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>7. Privacy Policy</Typography>
-    <Typography paragraph>
-      By providing the required information, the user agrees to the collection, use, and disclosure of information in accordance with these terms.
-      Collected information may be stored in a database and used for verification, contact, service improvement, and content personalization.
-    </Typography>
-
-    <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>8. Governing Law</Typography>
-    <Typography paragraph>
-      The use of the website and/or application shall be governed exclusively by the laws of the State of Israel.
-    </Typography>
-  </Box>
-);
-
 export default RegisterTenantPage;
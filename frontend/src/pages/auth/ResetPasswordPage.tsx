@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Box, TextField, Button, Alert, CircularProgress } from '@mui/material';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { authApi } from '../../api/services';
+import { validatePassword } from '../../utils/passwordValidation';
+import AuthPageLayout from '../../components/AuthPageLayout';
+
+/** Opened from the emailed reset link: /reset-password?email=…&token=… */
+const ResetPasswordPage: React.FC = () => {
+  const { t } = useTranslation();
+  const [params] = useSearchParams();
+  const email = params.get('email') ?? '';
+  const token = params.get('token') ?? '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const pwCheck = validatePassword(password, t);
+    if (pwCheck.hasError) {
+      setError(pwCheck.message);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError(t('register.passwordMismatch'));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await authApi.resetPassword({ email, token, newPassword: password });
+      setDone(true);
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('account.invalidLink'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <AuthPageLayout title={t('account.resetTitle')}>
+      {!email || !token ? (
+        <Alert severity="error" sx={{ mb: 2 }}>{t('account.invalidLink')}</Alert>
+      ) : done ? (
+        <Alert severity="success" sx={{ mb: 2 }}>{t('account.resetDone')}</Alert>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          <TextField
+            fullWidth label={t('login.email')} value={email} disabled sx={{ mb: 2 }}
+            InputLabelProps={{ shrink: true }}
+            slotProps={{ htmlInput: { dir: 'ltr', style: { textAlign: 'left' } } }}
+          />
+          <TextField
+            fullWidth label={t('account.newPassword')} type="password" value={password}
+            onChange={e => setPassword(e.target.value)} required autoFocus autoComplete="new-password"
+            sx={{ mb: 2 }}
+            InputLabelProps={{ shrink: true }}
+            slotProps={{ htmlInput: { dir: 'ltr', style: { textAlign: 'left' } } }}
+          />
+          <TextField
+            fullWidth label={t('register.confirmPassword')} type="password" value={confirmPassword}
+            onChange={e => setConfirmPassword(e.target.value)} required autoComplete="new-password"
+            sx={{ mb: 3 }}
+            InputLabelProps={{ shrink: true }}
+            slotProps={{ htmlInput: { dir: 'ltr', style: { textAlign: 'left' } } }}
+          />
+          <Button fullWidth variant="contained" size="large" type="submit" disabled={loading} sx={{ py: 1.5 }}>
+            {loading ? <CircularProgress size={24} color="inherit" /> : t('account.setPassword')}
+          </Button>
+        </form>
+      )}
+      <Box sx={{ textAlign: 'center', mt: 2 }}>
+        <Button component={Link} to="/login" size="small">{t('account.backToLogin')}</Button>
+      </Box>
+    </AuthPageLayout>
+  );
+};
+
+export default ResetPasswordPage;
@@ -0,0 +1,375 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  Box, Typography, Table, TableBody, TableCell, TableContainer, TableHead, TableRow,
+  Paper, Chip, MenuItem, TextField, Button, Dialog, DialogTitle, DialogContent,
+  DialogActions, CircularProgress, Alert, Checkbox, IconButton, Tooltip, Tabs, Tab
+} from '@mui/material';
+import { UploadFile, DoneAll, Block, Link as LinkIcon, Refresh, Undo } from '@mui/icons-material';
+import { bankReconciliationApi, buildingsApi } from '../../api/services';
+import type { BankStatementImportDto, BankStatementLineDto, BankMatchCandidateDto, BuildingDto } from '../../types';
+import { BANK_STATEMENT_FORMATS } from '../../types';
+import { formatDateOnly, formatDateLocal, formatCurrency } from '../../utils/dateUtils';
+import { useTranslation } from 'react-i18next';
+
+type QueueTab = 'queue' | 'Confirmed' | 'Ignored' | 'imports';
+
+const scoreColor = (score: number): 'success' | 'warning' | 'default' => score >= 80 ? 'success' : score >= 50 ? 'warning' : 'default';
+
+const BankReconciliationPage: React.FC = () => {
+  const { t } = useTranslation();
+
+  const [buildings, setBuildings] = useState<BuildingDto[]>([]);
+  const [buildingId, setBuildingId] = useState<number | ''>('');
+  const [tab, setTab] = useState<QueueTab>('queue');
+  const [lines, setLines] = useState<BankStatementLineDto[]>([]);
+  const [imports, setImports] = useState<BankStatementImportDto[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Selected lines → chosen charge (suggestion by default, or picked by hand)
+  const [selected, setSelected] = useState<Record<number, number>>({});
+  const [confirming, setConfirming] = useState(false);
+
+  // Upload dialog
+  const [uploadOpen, setUploadOpen] = useState(false);
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [uploadFormat, setUploadFormat] = useState<string>('Auto');
+  const [uploading, setUploading] = useState(false);
+
+  // Candidate picker
+  const [pickLine, setPickLine] = useState<BankStatementLineDto | null>(null);
+  const [candidates, setCandidates] = useState<BankMatchCandidateDto[]>([]);
+  const [candidatesLoading, setCandidatesLoading] = useState(false);
+
+  useEffect(() => {
+    buildingsApi.getAll().then(r => {
+      setBuildings(r.data);
+      if (r.data.length > 0) setBuildingId(r.data[0].id);
+    }).catch(() => setError(t('bankRecon.failedLoad')));
+  }, [t]);
+
+  const load = useCallback(async () => {
+    if (!buildingId) return;
+    setLoading(true);
+    try {
+      if (tab === 'imports') {
+        const r = await bankReconciliationApi.getImports(buildingId as number);
+        setImports(r.data);
+      } else {
+        const r = await bankReconciliationApi.getLines({ buildingId: buildingId as number, status: tab === 'queue' ? undefined : tab });
+        setLines(r.data);
+      }
+      setSelected({});
+    } catch { setError(t('bankRecon.failedLoad')); }
+    finally { setLoading(false); }
+  }, [buildingId, tab, t]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const errorMessage = (err: unknown) =>
+    (err as { response?: { data?: { message?: string } } })?.response?.data?.message;
+
+  const handleUpload = async () => {
+    if (!uploadFile || !buildingId) return;
+    setUploading(true);
+    try {
+      const r = await bankReconciliationApi.importStatement(buildingId as number, uploadFile, uploadFormat);
+      setSuccess(t('bankRecon.imported', { lines: r.data.lineCount, suggested: r.data.suggestedCount, duplicates: r.data.duplicateCount }));
+      setUploadOpen(false);
+      setUploadFile(null);
+      setTab('queue');
+      load();
+    } catch (err) {
+      const detail = errorMessage(err);
+      setError(t('bankRecon.failedImport') + (detail ? ` – ${detail}` : ''));
+    } finally { setUploading(false); }
+  };
+
+  const openPicker = async (line: BankStatementLineDto) => {
+    setPickLine(line);
+    setCandidates([]);
+    setCandidatesLoading(true);
+    try { const r = await bankReconciliationApi.getCandidates(line.id); setCandidates(r.data); }
+    catch { setError(t('bankRecon.failedLoad')); }
+    finally { setCandidatesLoading(false); }
+  };
+
+  const toggleLine = (line: BankStatementLineDto) => {
+    if (selected[line.id]) {
+      setSelected(prev => { const next = { ...prev }; delete next[line.id]; return next; });
+    } else if (line.suggestedUnitChargeId) {
+      setSelected(prev => ({ ...prev, [line.id]: line.suggestedUnitChargeId! }));
+    } else {
+      openPicker(line);
+    }
+  };
+
+  const suggestedLines = lines.filter(l => l.status === 'Suggested' && l.suggestedUnitChargeId);
+  const allSuggestedSelected = suggestedLines.length > 0 && suggestedLines.every(l => selected[l.id]);
+
+  const toggleAllSuggested = () => {
+    if (allSuggestedSelected) { setSelected({}); return; }
+    const next: Record<number, number> = { ...selected };
+    suggestedLines.forEach(l => { next[l.id] = l.suggestedUnitChargeId!; });
+    setSelected(next);
+  };
+
+  const handleConfirm = async () => {
+    const matches = Object.entries(selected).map(([lineId, unitChargeId]) => ({ lineId: Number(lineId), unitChargeId }));
+    if (matches.length === 0) return;
+    setConfirming(true);
+    try {
+      const r = await bankReconciliationApi.confirm(matches);
+      if (r.data.errors.length > 0) {
+        setError(t('bankRecon.confirmPartial', { confirmed: r.data.confirmed, failed: r.data.errors.length })
+          + ' ' + r.data.errors.map(e => e.message).join(' '));
+      } else {
+        setSuccess(t('bankRecon.confirmed', { count: r.data.confirmed }));
+      }
+      load();
+    } catch { setError(t('bankRecon.failedConfirm')); }
+    finally { setConfirming(false); }
+  };
+
+  const handleIgnore = async (line: BankStatementLineDto) => {
+    try { await bankReconciliationApi.ignore(line.id); load(); }
+    catch { setError(t('bankRecon.failedUpdate')); }
+  };
+
+  const handleReopen = async (line: BankStatementLineDto) => {
+    try { await bankReconciliationApi.reopen(line.id); load(); }
+    catch { setError(t('bankRecon.failedUpdate')); }
+  };
+
+  const handleRematch = async () => {
+    if (!buildingId) return;
+    try {
+      const r = await bankReconciliationApi.rematch(buildingId as number);
+      setSuccess(t('bankRecon.rematched', { suggested: r.data.suggested, count: r.data.updated }));
+      load();
+    } catch { setError(t('bankRecon.failedUpdate')); }
+  };
+
+  const pickCandidate = (c: BankMatchCandidateDto) => {
+    if (!pickLine) return;
+    setSelected(prev => ({ ...prev, [pickLine.id]: c.unitChargeId }));
+    setLines(prev => prev.map(l => l.id === pickLine.id
+      ? { ...l, suggestedUnitChargeId: c.unitChargeId, suggestedUnitNumber: c.unitNumber, suggestedPeriod: c.period, suggestedTenantName: c.tenantName, matchScore: c.score, matchReason: c.reason }
+      : l));
+    setPickLine(null);
+  };
+
+  const selectedCount = Object.keys(selected).length;
+  const isQueue = tab === 'queue';
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 1 }}>
+        <Typography variant="h4" sx={{ fontWeight: 700, fontSize: { xs: '1.3rem', md: '2rem' } }}>
+          {t('bankRecon.title')}
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button variant="outlined" startIcon={<Refresh />} onClick={handleRematch} disabled={!buildingId}>{t('bankRecon.rematch')}</Button>
+          <Button variant="contained" startIcon={<UploadFile />} onClick={() => setUploadOpen(true)} disabled={!buildingId}>{t('bankRecon.upload')}</Button>
+        </Box>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
+      {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess('')}>{success}</Alert>}
+
+      <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+        <TextField select label={t('bankRecon.building')} value={buildingId} onChange={e => setBuildingId(Number(e.target.value))} size="small" sx={{ minWidth: 200 }}>
+          {buildings.map(b => <MenuItem key={b.id} value={b.id}>{b.name}</MenuItem>)}
+        </TextField>
+        {isQueue && (
+          <Button variant="contained" color="success" startIcon={confirming ? <CircularProgress size={18} /> : <DoneAll />}
+            onClick={handleConfirm} disabled={selectedCount === 0 || confirming}>
+            {t('bankRecon.confirmSelected', { count: selectedCount })}
+          </Button>
+        )}
+      </Box>
+
+      <Tabs value={tab} onChange={(_, v) => setTab(v)} sx={{ mb: 2 }} variant="scrollable" scrollButtons="auto">
+        <Tab value="queue" label={t('bankRecon.tabQueue')} />
+        <Tab value="Confirmed" label={t('bankRecon.tabConfirmed')} />
+        <Tab value="Ignored" label={t('bankRecon.tabIgnored')} />
+        <Tab value="imports" label={t('bankRecon.tabImports')} />
+      </Tabs>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}><CircularProgress /></Box>
+      ) : tab === 'imports' ? (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead><TableRow>
+              <TableCell>{t('bankRecon.fileName')}</TableCell>
+              <TableCell>{t('bankRecon.format')}</TableCell>
+              <TableCell>{t('bankRecon.importedAt')}</TableCell>
+              <TableCell>{t('bankRecon.importedBy')}</TableCell>
+              <TableCell align="right">{t('bankRecon.lines')}</TableCell>
+              <TableCell align="right">{t('bankRecon.duplicates')}</TableCell>
+              <TableCell align="right">{t('bankRecon.suggested')}</TableCell>
+              <TableCell align="right">{t('bankRecon.confirmedCount')}</TableCell>
+            </TableRow></TableHead>
+            <TableBody>
+              {imports.map(i => (
+                <TableRow key={i.id} hover>
+                  <TableCell>{i.fileName}</TableCell>
+                  <TableCell>{t(`bankRecon.fmt${i.format}`, i.format)}</TableCell>
+                  <TableCell>{formatDateLocal(i.importedAtUtc)}</TableCell>
+                  <TableCell>{i.importedByName ?? '—'}</TableCell>
+                  <TableCell align="right">{i.lineCount}</TableCell>
+                  <TableCell align="right">{i.duplicateCount}</TableCell>
+                  <TableCell align="right">{i.suggestedCount}</TableCell>
+                  <TableCell align="right">{i.confirmedCount}</TableCell>
+                </TableRow>
+              ))}
+              {imports.length === 0 && <TableRow><TableCell colSpan={8} align="center">{t('bankRecon.noImports')}</TableCell></TableRow>}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead><TableRow>
+              {isQueue && (
+                <TableCell padding="checkbox">
+                  <Tooltip title={t('bankRecon.selectAllSuggested')}>
+                    <Checkbox checked={allSuggestedSelected} onChange={toggleAllSuggested} disabled={suggestedLines.length === 0} />
+                  </Tooltip>
+                </TableCell>
+              )}
+              <TableCell>{t('bankRecon.date')}</TableCell>
+              <TableCell align="right">{t('bankRecon.amount')}</TableCell>
+              <TableCell>{t('bankRecon.payer')}</TableCell>
+              <TableCell>{t('bankRecon.reference')}</TableCell>
+              <TableCell>{t('bankRecon.match')}</TableCell>
+              <TableCell>{t('bankRecon.status')}</TableCell>
+              <TableCell>{t('app.actions')}</TableCell>
+            </TableRow></TableHead>
+            <TableBody>
+              {lines.map(line => (
+                <TableRow key={line.id} hover selected={!!selected[line.id]}>
+                  {isQueue && (
+                    <TableCell padding="checkbox">
+                      <Checkbox checked={!!selected[line.id]} onChange={() => toggleLine(line)} />
+                    </TableCell>
+                  )}
+                  <TableCell>{formatDateOnly(line.transactionDate)}</TableCell>
+                  <TableCell align="right">{formatCurrency(line.amount)}</TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{line.payerName || '—'}</Typography>
+                    {line.description && <Typography variant="caption" color="text.secondary">{line.description}</Typography>}
+                  </TableCell>
+                  <TableCell>{line.reference || '—'}</TableCell>
+                  <TableCell>
+                    {line.suggestedUnitChargeId ? (
+                      <Box>
+                        <Typography variant="body2">
+                          {t('bankRecon.unitPeriod', { unit: line.suggestedUnitNumber, period: line.suggestedPeriod })}
+                          {line.suggestedTenantName ? ` · ${line.suggestedTenantName}` : ''}
+                        </Typography>
+                        {line.matchScore > 0 && (
+                          <Tooltip title={line.matchReason ?? ''}>
+                            <Chip size="small" label={t('bankRecon.score', { score: line.matchScore })} color={scoreColor(line.matchScore)} sx={{ mt: 0.5 }} />
+                          </Tooltip>
+                        )}
+                      </Box>
+                    ) : (
+                      <Typography variant="body2" color="text.secondary">{t('bankRecon.noMatch')}</Typography>
+                    )}
+                  </TableCell>
+                  <TableCell><Chip size="small" label={t(`bankRecon.st${line.status}`, line.status)} /></TableCell>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', gap: 0.5 }}>
+                      {isQueue && <Tooltip title={t('bankRecon.pickCharge')}><IconButton size="small" color="primary" onClick={() => openPicker(line)}><LinkIcon fontSize="small" /></IconButton></Tooltip>}
+                      {isQueue && <Tooltip title={t('bankRecon.ignore')}><IconButton size="small" onClick={() => handleIgnore(line)}><Block fontSize="small" /></IconButton></Tooltip>}
+                      {line.status === 'Ignored' && <Tooltip title={t('bankRecon.reopen')}><IconButton size="small" onClick={() => handleReopen(line)}><Undo fontSize="small" /></IconButton></Tooltip>}
+                    </Box>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {lines.length === 0 && <TableRow><TableCell colSpan={isQueue ? 8 : 7} align="center">{isQueue ? t('bankRecon.queueEmpty') : t('bankRecon.noLines')}</TableCell></TableRow>}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* ─── Upload Dialog ─────────────────────────────── */}
+      <Dialog open={uploadOpen} onClose={() => setUploadOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('bankRecon.uploadTitle')}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>{t('bankRecon.uploadHint')}</Typography>
+          <Button variant="outlined" component="label" startIcon={<UploadFile />} fullWidth sx={{ mb: 2 }}>
+            {uploadFile ? uploadFile.name : t('bankRecon.chooseFile')}
+            <input type="file" hidden accept=".csv,.txt,.sta,.mt940" onChange={e => setUploadFile(e.target.files?.[0] ?? null)} />
+          </Button>
+          <TextField select fullWidth size="small" label={t('bankRecon.format')} value={uploadFormat} onChange={e => setUploadFormat(e.target.value)}>
+            {BANK_STATEMENT_FORMATS.map(f => <MenuItem key={f} value={f}>{t(`bankRecon.fmt${f}`, f)}</MenuItem>)}
+          </TextField>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setUploadOpen(false)}>{t('app.cancel')}</Button>
+          <Button variant="contained" onClick={handleUpload} disabled={!uploadFile || uploading}>
+            {uploading ? <CircularProgress size={20} /> : t('bankRecon.import')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* ─── Candidate Picker ──────────────────────────── */}
+      <Dialog open={!!pickLine} onClose={() => setPickLine(null)} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {t('bankRecon.pickTitle', { amount: pickLine ? formatCurrency(pickLine.amount) : '', date: formatDateOnly(pickLine?.transactionDate) })}
+        </DialogTitle>
+        <DialogContent>
+          {pickLine && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              {[pickLine.payerName, pickLine.description, pickLine.reference].filter(Boolean).join(' · ')}
+            </Typography>
+          )}
+          {candidatesLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}><CircularProgress /></Box>
+          ) : (
+            <Table size="small">
+              <TableHead><TableRow>
+                <TableCell>{t('bankRecon.unit')}</TableCell>
+                <TableCell>{t('bankRecon.tenant')}</TableCell>
+                <TableCell>{t('bankRecon.period')}</TableCell>
+                <TableCell align="right">{t('bankRecon.outstanding')}</TableCell>
+                <TableCell>{t('bankRecon.match')}</TableCell>
+                <TableCell />
+              </TableRow></TableHead>
+              <TableBody>
+                {candidates.map(c => (
+                  <TableRow key={c.unitChargeId} hover>
+                    <TableCell>{c.unitNumber}</TableCell>
+                    <TableCell>{c.tenantName ?? '—'}</TableCell>
+                    <TableCell>{c.period}</TableCell>
+                    <TableCell align="right">{formatCurrency(c.outstanding)}</TableCell>
+                    <TableCell>
+                      {c.score > 0
+                        ? <Tooltip title={c.reason ?? ''}><Chip size="small" label={t('bankRecon.score', { score: c.score })} color={scoreColor(c.score)} /></Tooltip>
+                        : '—'}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Button size="small" onClick={() => pickCandidate(c)} disabled={!!pickLine && pickLine.amount > c.outstanding}>
+                        {t('bankRecon.select')}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {candidates.length === 0 && <TableRow><TableCell colSpan={6} align="center">{t('bankRecon.noCandidates')}</TableCell></TableRow>}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPickLine(null)}>{t('app.cancel')}</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default BankReconciliationPage;
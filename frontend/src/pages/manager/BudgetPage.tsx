@@ -0,0 +1,350 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  Box, Typography, Card, CardContent, Table, TableBody, TableCell, TableContainer, TableHead, TableRow,
+  Paper, Chip, MenuItem, TextField, Button, Dialog, DialogTitle, DialogContent, DialogActions,
+  CircularProgress, Alert, Stack
+} from '@mui/material';
+import { Save, CheckCircle, LockOpen, AddCard } from '@mui/icons-material';
+import { buildingsApi, budgetsApi, hoaApi } from '../../api/services';
+import type { BuildingDto, BuildingBudgetDto, BudgetLineDto, BudgetLineType, SuggestedHOAFeeDto } from '../../types';
+import { EXPENSE_CATEGORIES, INCOME_CATEGORIES } from '../../types';
+import { formatCurrency } from '../../utils/dateUtils';
+import { useTranslation } from 'react-i18next';
+
+const MONTHS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+/** Twelve monthly amounts (as typed) per category */
+type BudgetGrid = Record<string, string[]>;
+
+const lineTypeOf = (category: string): BudgetLineType =>
+  (INCOME_CATEGORIES as readonly string[]).includes(category) ? 'Income' : 'Expense';
+
+const toGrid = (budget: BuildingBudgetDto | null): BudgetGrid => {
+  const grid: BudgetGrid = {};
+  for (const c of [...INCOME_CATEGORIES, ...EXPENSE_CATEGORIES]) grid[c] = MONTHS.map(() => '');
+  for (const l of budget?.lines ?? []) {
+    if (grid[l.category]) grid[l.category][l.month - 1] = l.amount.toString();
+  }
+  return grid;
+};
+
+const rowTotal = (values: string[]) => values.reduce((sum, v) => sum + (parseFloat(v) || 0), 0);
+
+/** Split an annual amount into twelve months; the last month absorbs the rounding. */
+const spreadEvenly = (annual: number): string[] => {
+  const monthly = Math.floor((annual * 100) / 12) / 100;
+  const last = Math.round((annual - monthly * 11) * 100) / 100;
+  return MONTHS.map(m => (annual > 0 ? (m < 12 ? monthly : last).toString() : ''));
+};
+
+const BudgetPage: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const currentYear = new Date().getFullYear();
+
+  const [buildings, setBuildings] = useState<BuildingDto[]>([]);
+  const [buildingId, setBuildingId] = useState<number | ''>('');
+  const [year, setYear] = useState(currentYear);
+  const [budget, setBudget] = useState<BuildingBudgetDto | null>(null);
+  const [grid, setGrid] = useState<BudgetGrid>(() => toGrid(null));
+  const [notes, setNotes] = useState('');
+  const [annualEdit, setAnnualEdit] = useState<{ category: string; value: string } | null>(null);
+  const [suggestion, setSuggestion] = useState<SuggestedHOAFeeDto | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Create fee plan dialog
+  const [planOpen, setPlanOpen] = useState(false);
+  const [planForm, setPlanForm] = useState({ name: '', calculationMethod: 'FixedPerUnit', effectiveFrom: '' });
+
+  useEffect(() => {
+    buildingsApi.getAll().then(r => {
+      setBuildings(r.data);
+      if (r.data.length > 0) setBuildingId(r.data[0].id);
+    }).catch(() => setError(t('budget.failedLoad')));
+  }, [t]);
+
+  const applyBudget = useCallback(async (b: BuildingBudgetDto | null) => {
+    setBudget(b);
+    setGrid(toGrid(b));
+    setNotes(b?.notes || '');
+    setSuggestion(null);
+    if (b?.status === 'Approved') {
+      try {
+        const r = await budgetsApi.suggestedFee(b.buildingId, b.year);
+        setSuggestion(r.data);
+      } catch { setError(t('budget.failedLoad')); }
+    }
+  }, [t]);
+
+  const load = useCallback(async () => {
+    if (!buildingId) return;
+    setLoading(true);
+    try {
+      const r = await budgetsApi.get(buildingId as number, year);
+      await applyBudget(r.data);
+    } catch (err) {
+      // No budget for this year yet: start from an empty draft
+      if ((err as { response?: { status?: number } })?.response?.status === 404) await applyBudget(null);
+      else setError(t('budget.failedLoad'));
+    }
+    finally { setLoading(false); }
+  }, [buildingId, year, applyBudget, t]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const errorMessage = (err: unknown) =>
+    (err as { response?: { data?: { message?: string } } })?.response?.data?.message;
+
+  const isApproved = budget?.status === 'Approved';
+
+  const setCell = (category: string, monthIndex: number, value: string) =>
+    setGrid(g => ({ ...g, [category]: g[category].map((v, i) => (i === monthIndex ? value : v)) }));
+
+  const commitAnnual = () => {
+    if (!annualEdit) return;
+    const annual = parseFloat(annualEdit.value) || 0;
+    setGrid(g => ({ ...g, [annualEdit.category]: spreadEvenly(Math.max(0, annual)) }));
+    setAnnualEdit(null);
+  };
+
+  const toLines = (): BudgetLineDto[] =>
+    Object.entries(grid).flatMap(([category, values]) => values
+      .map((v, i) => ({ lineType: lineTypeOf(category), category, month: i + 1, amount: parseFloat(v) || 0 }))
+      .filter(l => l.amount !== 0));
+
+  const save = async () => {
+    const lines = toLines();
+    if (lines.some(l => l.amount < 0)) { setError(t('budget.validation')); return null; }
+    const r = await budgetsApi.save(buildingId as number, year, { notes: notes || undefined, lines });
+    return r.data;
+  };
+
+  const handleSave = async () => {
+    setError(''); setSaving(true);
+    try {
+      const saved = await save();
+      if (saved) { await applyBudget(saved); setSuccess(t('budget.saved')); }
+    } catch (err) { setError(errorMessage(err) || t('budget.failedSave')); }
+    finally { setSaving(false); }
+  };
+
+  const handleApprove = async () => {
+    if (!window.confirm(t('budget.confirmApprove'))) return;
+    setError(''); setSaving(true);
+    try {
+      const saved = await save();
+      if (!saved) return;
+      await budgetsApi.approve(buildingId as number, year);
+      setSuccess(t('budget.approved'));
+      load();
+    } catch (err) { setError(errorMessage(err) || t('budget.failedSave')); }
+    finally { setSaving(false); }
+  };
+
+  const handleReopen = async () => {
+    if (!window.confirm(t('budget.confirmReopen'))) return;
+    setError('');
+    try {
+      await budgetsApi.reopen(buildingId as number, year);
+      setSuccess(t('budget.reopened'));
+      load();
+    } catch (err) { setError(errorMessage(err) || t('budget.failedSave')); }
+  };
+
+  const openPlanDialog = () => {
+    setPlanForm({
+      name: t('budget.planName', { year }),
+      calculationMethod: suggestion?.amountPerSqm ? 'BySqm' : 'FixedPerUnit',
+      effectiveFrom: `${year}-01-01`,
+    });
+    setPlanOpen(true);
+  };
+
+  const handleCreatePlan = async () => {
+    if (!suggestion || !planForm.name.trim()) return;
+    try {
+      await hoaApi.createPlan({
+        buildingId: buildingId as number,
+        name: planForm.name.trim(),
+        calculationMethod: planForm.calculationMethod,
+        amountPerSqm: planForm.calculationMethod === 'BySqm' ? suggestion.amountPerSqm : undefined,
+        fixedAmountPerUnit: planForm.calculationMethod === 'FixedPerUnit' ? suggestion.fixedAmountPerUnit : undefined,
+        effectiveFrom: planForm.effectiveFrom,
+      });
+      setPlanOpen(false);
+      setSuccess(t('budget.planCreated'));
+    } catch (err) { setError(errorMessage(err) || t('budget.failedSave')); }
+  };
+
+  const monthLabel = (m: number) =>
+    new Date(year, m - 1, 1).toLocaleString(i18n.language === 'he' ? 'he-IL' : 'en-US', { month: 'short' });
+
+  const sectionTotal = (categories: readonly string[]) =>
+    categories.reduce((sum, c) => sum + rowTotal(grid[c]), 0);
+
+  const renderSection = (titleKey: string, categories: readonly string[]) => (
+    <>
+      <TableRow sx={{ bgcolor: 'action.hover' }}>
+        <TableCell colSpan={14}><strong>{t(titleKey)}</strong></TableCell>
+      </TableRow>
+      {categories.map(c => (
+        <TableRow key={c}>
+          <TableCell sx={{ whiteSpace: 'nowrap' }}>{t(`enums.finCategory.${c}`, c)}</TableCell>
+          {MONTHS.map((m, i) => (
+            <TableCell key={m} sx={{ p: 0.5 }}>
+              <TextField size="small" type="number" value={grid[c][i]} disabled={isApproved}
+                onChange={e => setCell(c, i, e.target.value)}
+                slotProps={{ htmlInput: { min: 0, style: { padding: '4px 6px', width: 72 } } }} />
+            </TableCell>
+          ))}
+          <TableCell sx={{ p: 0.5 }}>
+            <TextField size="small" type="number" disabled={isApproved}
+              value={annualEdit?.category === c ? annualEdit.value : (rowTotal(grid[c]) || '')}
+              onFocus={() => setAnnualEdit({ category: c, value: rowTotal(grid[c]) ? rowTotal(grid[c]).toString() : '' })}
+              onChange={e => setAnnualEdit({ category: c, value: e.target.value })}
+              onBlur={commitAnnual}
+              slotProps={{ htmlInput: { min: 0, style: { padding: '4px 6px', width: 90, fontWeight: 600 } } }} />
+          </TableCell>
+        </TableRow>
+      ))}
+      <TableRow>
+        <TableCell><strong>{t('budget.total')}</strong></TableCell>
+        {MONTHS.map((m, i) => (
+          <TableCell key={m} align="right" sx={{ fontSize: '0.75rem' }}>
+            {categories.reduce((sum, c) => sum + (parseFloat(grid[c][i]) || 0), 0).toFixed(0)}
+          </TableCell>
+        ))}
+        <TableCell align="right"><strong>{formatCurrency(sectionTotal(categories))}</strong></TableCell>
+      </TableRow>
+    </>
+  );
+
+  return (
+    <Box>
+      <Typography variant="h4" gutterBottom sx={{ fontSize: { xs: '1.3rem', md: '2rem' }, fontWeight: 700 }}>{t('budget.title')}</Typography>
+
+      {error && <Alert severity="error" onClose={() => setError('')} sx={{ mb: 2 }}>{error}</Alert>}
+      {success && <Alert severity="success" onClose={() => setSuccess('')} sx={{ mb: 2 }}>{success}</Alert>}
+
+      <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+        <TextField select size="small" label={t('budget.building')} value={buildingId}
+          onChange={e => setBuildingId(Number(e.target.value))} sx={{ minWidth: 220 }}>
+          {buildings.map(b => <MenuItem key={b.id} value={b.id}>{b.name}</MenuItem>)}
+        </TextField>
+        <TextField select size="small" label={t('budget.year')} value={year}
+          onChange={e => setYear(Number(e.target.value))} sx={{ minWidth: 120 }}>
+          {[currentYear - 1, currentYear, currentYear + 1].map(y => <MenuItem key={y} value={y}>{y}</MenuItem>)}
+        </TextField>
+        <Chip label={t(`enums.budgetStatus.${budget?.status ?? 'Draft'}`, budget?.status ?? 'Draft')}
+          color={isApproved ? 'success' : 'default'} size="small" />
+        {budget?.approvedAtUtc && (
+          <Typography variant="caption" color="text.secondary">
+            {t('budget.approvedOn', { date: new Date(budget.approvedAtUtc).toLocaleDateString() })}
+          </Typography>
+        )}
+        <Box sx={{ flex: 1 }} />
+        {isApproved ? (
+          <Button variant="outlined" startIcon={<LockOpen />} onClick={handleReopen}>{t('budget.reopen')}</Button>
+        ) : (
+          <>
+            <Button variant="outlined" startIcon={<Save />} onClick={handleSave} disabled={!buildingId || saving}>{t('app.save')}</Button>
+            <Button variant="contained" startIcon={<CheckCircle />} onClick={handleApprove} disabled={!buildingId || saving}>{t('budget.approve')}</Button>
+          </>
+        )}
+      </Box>
+
+      {loading && <CircularProgress sx={{ display: 'block', mb: 2 }} />}
+
+      {!loading && buildingId && (
+        <Stack spacing={2}>
+          {suggestion && (
+            <Card variant="outlined" sx={{ borderColor: 'primary.main' }}>
+              <CardContent>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 1, flexWrap: 'wrap' }}>
+                  <Box>
+                    <Typography variant="h6">{t('budget.suggestedFee')}</Typography>
+                    <Typography variant="body2" color="text.secondary">{t('budget.suggestedFeeHint')}</Typography>
+                  </Box>
+                  <Button variant="contained" startIcon={<AddCard />} onClick={openPlanDialog}
+                    disabled={suggestion.monthlyAmountToCollect <= 0}>{t('budget.createPlan')}</Button>
+                </Box>
+                <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', mt: 1.5 }}>
+                  <Typography variant="body2">{t('budget.budgetedExpenses')}: <b>{formatCurrency(suggestion.budgetedExpenses)}</b></Typography>
+                  <Typography variant="body2">{t('budget.budgetedOtherIncome')}: <b>{formatCurrency(suggestion.budgetedOtherIncome)}</b></Typography>
+                  <Typography variant="body2">{t('budget.annualToCollect')}: <b>{formatCurrency(suggestion.annualAmountToCollect)}</b></Typography>
+                  <Typography variant="body2">{t('budget.monthlyToCollect')}: <b>{formatCurrency(suggestion.monthlyAmountToCollect)}</b></Typography>
+                </Box>
+                <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', mt: 1 }}>
+                  <Typography variant="body2">
+                    {t('budget.perUnit', { count: suggestion.unitCount })}: <b>{formatCurrency(suggestion.fixedAmountPerUnit)}</b>
+                  </Typography>
+                  {suggestion.amountPerSqm != null && (
+                    <Typography variant="body2">
+                      {t('budget.perSqm', { sqm: suggestion.totalSqm })}: <b>{formatCurrency(suggestion.amountPerSqm)}</b>
+                    </Typography>
+                  )}
+                </Box>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardContent>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>{t('budget.gridHint')}</Typography>
+              <TableContainer component={Paper} variant="outlined">
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>{t('budget.category')}</TableCell>
+                      {MONTHS.map(m => <TableCell key={m}>{monthLabel(m)}</TableCell>)}
+                      <TableCell>{t('budget.annual')}</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {renderSection('budget.income', INCOME_CATEGORIES)}
+                    {renderSection('budget.expenses', EXPENSE_CATEGORIES)}
+                    <TableRow sx={{ bgcolor: 'action.hover' }}>
+                      <TableCell colSpan={13}><strong>{t('budget.net')}</strong></TableCell>
+                      <TableCell align="right">
+                        <strong>{formatCurrency(sectionTotal(INCOME_CATEGORIES) - sectionTotal(EXPENSE_CATEGORIES))}</strong>
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <TextField fullWidth multiline minRows={2} label={t('budget.notes')} value={notes} disabled={isApproved}
+                onChange={e => setNotes(e.target.value)} sx={{ mt: 2 }} />
+            </CardContent>
+          </Card>
+        </Stack>
+      )}
+
+      <Dialog open={planOpen} onClose={() => setPlanOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('budget.createPlan')}</DialogTitle>
+        <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: '16px !important' }}>
+          <TextField label={t('hoa.planName')} value={planForm.name}
+            onChange={e => setPlanForm(f => ({ ...f, name: e.target.value }))} />
+          <TextField select label={t('hoa.calcMethod')} value={planForm.calculationMethod}
+            onChange={e => setPlanForm(f => ({ ...f, calculationMethod: e.target.value }))}>
+            <MenuItem value="FixedPerUnit">
+              {t('enums.calcMethod.FixedPerUnit')} – {formatCurrency(suggestion?.fixedAmountPerUnit ?? 0)}
+            </MenuItem>
+            {suggestion?.amountPerSqm != null && (
+              <MenuItem value="BySqm">{t('enums.calcMethod.BySqm')} – {formatCurrency(suggestion.amountPerSqm)}</MenuItem>
+            )}
+          </TextField>
+          <TextField label={t('hoa.effectiveFrom')} type="date" value={planForm.effectiveFrom}
+            onChange={e => setPlanForm(f => ({ ...f, effectiveFrom: e.target.value }))} InputLabelProps={{ shrink: true }} />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPlanOpen(false)}>{t('app.cancel')}</Button>
+          <Button variant="contained" onClick={handleCreatePlan} disabled={!planForm.name.trim()}>{t('app.create')}</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default BudgetPage;
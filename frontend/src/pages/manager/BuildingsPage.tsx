@@ -5,13 +5,18 @@ import {
   TextField, IconButton, Chip, Alert, CircularProgress, Collapse,
   useMediaQuery, useTheme, Stack, Card, CardContent, CardActionArea,
 } from '@mui/material';
-import { Add, Edit, Delete, ExpandMore, ExpandLess } from '@mui/icons-material';
+import { Add, Edit, Delete, ExpandMore, ExpandLess, AccountBalanceWallet, ReceiptLong } from '@mui/icons-material';
 import { buildingsApi } from '../../api/services';
 import type { BuildingDto, UnitDto } from '../../types';
+import UnitBillingDialog from '../../components/UnitBillingDialog';
+import UnitStatement from '../../components/UnitStatement';
 import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../auth/AuthContext';
 
 const BuildingsPage: React.FC = () => {
   const { t } = useTranslation();
+  const { can, hasRole } = useAuth();
+  const canManage = (buildingId?: number) => can('Buildings', 'Manage', buildingId);
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
   const [buildings, setBuildings] = useState<BuildingDto[]>([]);
@@ -25,6 +30,8 @@ const BuildingsPage: React.FC = () => {
   const [selectedBuildingId, setSelectedBuildingId] = useState<number | null>(null);
   const [units, setUnits] = useState<UnitDto[]>([]);
   const [unitsLoading, setUnitsLoading] = useState(false);
+  const [billingUnit, setBillingUnit] = useState<UnitDto | null>(null);
+  const [statementUnit, setStatementUnit] = useState<UnitDto | null>(null);
   const [formData, setFormData] = useState({ name: '', addressLine: '', city: '', postalCode: '', notes: '', issuerProfileId: '', committeeLegalName: '' });
   const [unitFormData, setUnitFormData] = useState({ unitNumber: '', floor: '', sizeSqm: '', ownerName: '' });
 
@@ -85,7 +92,7 @@ const BuildingsPage: React.FC = () => {
     <Box>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 1 }}>
         <Typography variant="h4" sx={{ fontWeight: 700, fontSize: { xs: '1.3rem', md: '2rem' } }}>{t('buildings.title')}</Typography>
-        <Button variant="contained" startIcon={<Add />} onClick={handleOpenCreateBuilding}>{t('buildings.addBuilding')}</Button>
+        <Button variant="contained" startIcon={<Add />} onClick={handleOpenCreateBuilding} disabled={!canManage()}>{t('buildings.addBuilding')}</Button>
       </Box>
       {error && <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>{error}</Alert>}
       {isMobile ? (
@@ -104,18 +111,26 @@ const BuildingsPage: React.FC = () => {
               <Collapse in={selectedBuildingId === building.id} timeout="auto" unmountOnExit>
                 <Box sx={{ px: 2, pb: 2, bgcolor: 'action.hover' }}>
                   <Box sx={{ display: 'flex', gap: 1, mb: 1, flexWrap: 'wrap' }}>
-                    <Button size="small" variant="outlined" onClick={() => handleOpenEditBuilding(building)}>{t('app.edit')}</Button>
-                    <Button size="small" variant="outlined" color="error" onClick={() => handleOpenDeleteBuilding(building)}>{t('app.delete')}</Button>
-                    <Button size="small" variant="outlined" startIcon={<Add />} onClick={() => handleOpenAddUnit(building.id)}>{t('buildings.addUnit')}</Button>
+                    <Button size="small" variant="outlined" onClick={() => handleOpenEditBuilding(building)} disabled={!canManage(building.id)}>{t('app.edit')}</Button>
+                    {hasRole('Admin') && (
+                      <Button size="small" variant="outlined" color="error" onClick={() => handleOpenDeleteBuilding(building)}>{t('app.delete')}</Button>
+                    )}
+                    <Button size="small" variant="outlined" startIcon={<Add />} onClick={() => handleOpenAddUnit(building.id)} disabled={!canManage(building.id)}>{t('buildings.addUnit')}</Button>
                   </Box>
                   {unitsLoading ? <CircularProgress size={24} /> : units.length === 0 ? (
                     <Typography variant="body2" color="text.secondary">{t('buildings.noUnits')}</Typography>
                   ) : (
                     <Stack spacing={0.5}>
                       {units.map(unit => (
-                        <Typography key={unit.id} variant="body2">
-                          {t('buildings.unitNumber')}: {unit.unitNumber} · {t('buildings.floor')}: {unit.floor ?? '—'} · {unit.sizeSqm ?? '—'}m² · {unit.ownerName ?? '—'}
-                        </Typography>
+                        <Box key={unit.id} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                          <Typography variant="body2">
+                            {t('buildings.unitNumber')}: {unit.unitNumber} · {t('buildings.floor')}: {unit.floor ?? '—'} · {unit.sizeSqm ?? '—'}m² · {unit.ownerName ?? '—'}
+                          </Typography>
+                          <Box>
+                            <IconButton size="small" onClick={() => setStatementUnit(unit)} disabled={!can('Finance', 'View', building.id)}><ReceiptLong fontSize="small" /></IconButton>
+                            <IconButton size="small" onClick={() => setBillingUnit(unit)} disabled={!can('Finance', 'Manage', building.id)}><AccountBalanceWallet fontSize="small" /></IconButton>
+                          </Box>
+                        </Box>
                       ))}
                     </Stack>
                   )}
@@ -143,9 +158,11 @@ const BuildingsPage: React.FC = () => {
                       <TableCell>{building.city || '—'}</TableCell>
                       <TableCell align="center"><Chip label={building.unitCount} size="small" color="primary" variant="outlined" /></TableCell>
                       <TableCell align="right" onClick={e => e.stopPropagation()}>
-                        <IconButton size="small" color="primary" onClick={() => handleOpenEditBuilding(building)}><Edit /></IconButton>
-                        <IconButton size="small" color="error" onClick={() => handleOpenDeleteBuilding(building)}><Delete /></IconButton>
-                        <Button size="small" variant="outlined" startIcon={<Add />} onClick={() => handleOpenAddUnit(building.id)}>{t('buildings.addUnit')}</Button>
+                        <IconButton size="small" color="primary" onClick={() => handleOpenEditBuilding(building)} disabled={!canManage(building.id)}><Edit /></IconButton>
+                        {hasRole('Admin') && (
+                          <IconButton size="small" color="error" onClick={() => handleOpenDeleteBuilding(building)}><Delete /></IconButton>
+                        )}
+                        <Button size="small" variant="outlined" startIcon={<Add />} onClick={() => handleOpenAddUnit(building.id)} disabled={!canManage(building.id)}>{t('buildings.addUnit')}</Button>
                       </TableCell>
                     </TableRow>
                     <TableRow>
@@ -160,12 +177,23 @@ const BuildingsPage: React.FC = () => {
                                 <TableHead><TableRow>
                                   <TableCell>{t('buildings.unitNumber')}</TableCell><TableCell>{t('buildings.floor')}</TableCell>
                                   <TableCell>{t('buildings.sizeSqm')}</TableCell><TableCell>{t('buildings.ownerName')}</TableCell>
+                                  <TableCell>{t('billing.whoPays')}</TableCell><TableCell />
                                 </TableRow></TableHead>
                                 <TableBody>
                                   {units.map(unit => (
                                     <TableRow key={unit.id}>
                                       <TableCell>{unit.unitNumber}</TableCell><TableCell>{unit.floor ?? '—'}</TableCell>
                                       <TableCell>{unit.sizeSqm ?? '—'}</TableCell><TableCell>{unit.ownerName ?? '—'}</TableCell>
+                                      <TableCell>
+                                        <Typography variant="caption" display="block">{t('billing.hoaFeePayer')}: {t(`enums.billingParty.${unit.hoaFeePayer}`)}</Typography>
+                                        <Typography variant="caption" display="block">{t('billing.specialAssessmentPayer')}: {t(`enums.billingParty.${unit.specialAssessmentPayer}`)}</Typography>
+                                      </TableCell>
+                                      <TableCell align="right">
+                                        <Button size="small" startIcon={<ReceiptLong />} onClick={() => setStatementUnit(unit)}
+                                          disabled={!can('Finance', 'View', building.id)}>{t('statement.title')}</Button>
+                                        <Button size="small" startIcon={<AccountBalanceWallet />} onClick={() => setBillingUnit(unit)}
+                                          disabled={!can('Finance', 'Manage', building.id)}>{t('billing.manage')}</Button>
+                                      </TableCell>
                                     </TableRow>
                                   ))}
                                 </TableBody>
@@ -220,6 +248,19 @@ const BuildingsPage: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      {selectedBuildingId && (
+        <UnitBillingDialog buildingId={selectedBuildingId} unit={billingUnit} onClose={() => setBillingUnit(null)}
+          onSaved={() => { setBillingUnit(null); loadUnits(selectedBuildingId); }} />
+      )}
+
+      <Dialog open={!!statementUnit} onClose={() => setStatementUnit(null)} maxWidth="lg" fullWidth fullScreen={isMobile}>
+        <DialogTitle>{t('statement.titleUnit', { unit: statementUnit?.unitNumber })}</DialogTitle>
+        <DialogContent>
+          {statementUnit && <Box sx={{ pt: 1 }}><UnitStatement unitId={statementUnit.id} allowPartySelect /></Box>}
+        </DialogContent>
+        <DialogActions><Button onClick={() => setStatementUnit(null)}>{t('app.close')}</Button></DialogActions>
+      </Dialog>
+
       <Dialog open={deleteDialogOpen} onClose={() => setDeleteDialogOpen(false)}>
         <DialogTitle>{t('buildings.deleteBuilding')}</DialogTitle>
         <DialogContent>
@@ -1,17 +1,24 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Typography, Box, Card, CardContent, TextField, MenuItem, Button, Alert,
-  CircularProgress, Table, TableBody, TableCell, TableContainer, TableHead,
-  TableRow, Paper, Stack, useMediaQuery, useTheme, FormControl, InputLabel,
-  Select, Chip, FormControlLabel, Switch, InputAdornment
+  CircularProgress, Stack, useMediaQuery, useTheme, FormControl, InputLabel,
+  Select, Chip, FormControlLabel, Switch, IconButton, Tooltip,
+  Dialog, DialogTitle, DialogContent, DialogActions, Collapse
 } from '@mui/material';
 import {
   Download, CheckCircle, Warning, Error as ErrorIcon,
-  HourglassEmpty, HelpOutline, Search, Phone
+  HourglassEmpty, HelpOutline, Phone, EventRepeat, FactCheck, ExpandMore, ExpandLess, ReceiptLong, Payments
 } from '@mui/icons-material';
-import { buildingsApi, reportsApi } from '../../api/services';
-import type { BuildingDto, CollectionStatusReport } from '../../types';
+import { buildingsApi, reportsApi, paymentPlansApi, paymentsApi } from '../../api/services';
+import type { BuildingDto, CollectionStatusReport, CollectionRowDto, GridQuery, PaymentPlanDto, UnitDebtDto, StandingOrderDto, BillingParty } from '../../types';
+import PaymentPlanDetails, { PaymentPlanStatusChip } from '../../components/PaymentPlanDetails';
+import UnitStatement from '../../components/UnitStatement';
+import UnitPayments from '../../components/UnitPayments';
+import DataGrid from '../../components/DataGrid';
+import type { DataGridColumn, DataGridFilter } from '../../components/DataGrid';
+import { toInputDate } from '../../utils/dateUtils';
 import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../auth/AuthContext';
 
 const STATUS_COLORS: Record<string, string> = {
   Paid: '#2e7d32',
@@ -29,8 +36,30 @@ const STATUS_ICONS: Record<string, React.ReactNode> = {
   NotGenerated: <HelpOutline fontSize="small" />,
 };
 
+const PLAN_FILTERS = ['open', 'Requested', 'Active', 'Defaulted', 'Completed', 'all'] as const;
+const OPEN_PLAN_STATUSES = ['Requested', 'Active', 'Defaulted'];
+const BILLING_PARTIES: BillingParty[] = ['Resident', 'Owner'];
+const COLLECTION_STATUSES = ['Paid', 'Partial', 'Unpaid', 'Overdue', 'NotGenerated'];
+
+const firstOfNextMonth = () => {
+  const d = new Date();
+  return toInputDate(new Date(d.getFullYear(), d.getMonth() + 1, 1).toISOString());
+};
+
+interface PlanForm {
+  unitId: number;
+  unitNumber: string;
+  planId?: number;
+  party: BillingParty | '';
+  installmentCount: number;
+  firstDueDate: string;
+  standingOrderId: number | '';
+  note: string;
+}
+
 const CollectionStatusPage: React.FC = () => {
   const { t, i18n } = useTranslation();
+  const { can } = useAuth();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
 
@@ -41,11 +70,29 @@ const CollectionStatusPage: React.FC = () => {
     return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
   });
   const [includeNotGenerated, setIncludeNotGenerated] = useState(false);
+  const [partyFilter, setPartyFilter] = useState<BillingParty | ''>('');
   const [report, setReport] = useState<CollectionStatusReport | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [searchQuery, setSearchQuery] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [success, setSuccess] = useState('');
+
+  const [plans, setPlans] = useState<PaymentPlanDto[]>([]);
+  const [planFilter, setPlanFilter] = useState<typeof PLAN_FILTERS[number]>('open');
+  const [expandedPlanId, setExpandedPlanId] = useState<number | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [planForm, setPlanForm] = useState<PlanForm | null>(null);
+  const [debt, setDebt] = useState<UnitDebtDto | null>(null);
+  const [unitOrders, setUnitOrders] = useState<StandingOrderDto[]>([]);
+  const [savingPlan, setSavingPlan] = useState(false);
+  const [rejecting, setRejecting] = useState<PaymentPlanDto | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [statementUnit, setStatementUnit] = useState<{ id: number; number: string } | null>(null);
+  const [paymentsUnit, setPaymentsUnit] = useState<{ id: number; number: string } | null>(null);
+
+  // Committee members read the report only; statements, payments and plans are finance pages
+  const canViewFinance = !!selectedBuilding && can('Finance', 'View', selectedBuilding);
+  const canManageFinance = !!selectedBuilding && can('Finance', 'Manage', selectedBuilding);
 
   useEffect(() => { buildingsApi.getAll().then(r => { setBuildings(r.data); if (r.data.length > 0) setSelectedBuilding(r.data[0].id); }); }, []);
 
@@ -53,41 +100,141 @@ const CollectionStatusPage: React.FC = () => {
     if (!selectedBuilding) return;
     setLoading(true); setError('');
     try {
-      const r = await reportsApi.collectionStatus(selectedBuilding as number, period, includeNotGenerated);
+      const r = await reportsApi.collectionStatus(selectedBuilding as number, period, includeNotGenerated, partyFilter || undefined);
       setReport(r.data);
     } catch { setError(t('collection.errorLoading')); }
     finally { setLoading(false); }
-  }, [selectedBuilding, period, includeNotGenerated, t]);
+  }, [selectedBuilding, period, includeNotGenerated, partyFilter, t]);
+
+  useEffect(() => { if (selectedBuilding) loadReport(); }, [selectedBuilding, period, includeNotGenerated, partyFilter, loadReport]);
+
+  const loadPlans = useCallback(async () => {
+    if (!selectedBuilding || !canViewFinance) return;
+    try {
+      const r = await paymentPlansApi.getAll(selectedBuilding as number);
+      setPlans(r.data);
+    } catch { setError(t('paymentPlans.failedLoad')); }
+  }, [selectedBuilding, canViewFinance, t]);
 
-  useEffect(() => { if (selectedBuilding) loadReport(); }, [selectedBuilding, period, includeNotGenerated, loadReport]);
+  useEffect(() => { loadPlans(); }, [loadPlans]);
+
+  const errorMessage = (err: unknown) =>
+    (err as { response?: { data?: { message?: string } } })?.response?.data?.message;
+
+  const visiblePlans = useMemo(() => {
+    if (planFilter === 'all') return plans;
+    if (planFilter === 'open') return plans.filter(p => OPEN_PLAN_STATUSES.includes(p.status));
+    return plans.filter(p => p.status === planFilter);
+  }, [plans, planFilter]);
+
+  const openPlanByUnit = useMemo(() => {
+    const map = new Map<number, PaymentPlanDto>();
+    plans.filter(p => OPEN_PLAN_STATUSES.includes(p.status)).forEach(p => map.set(p.unitId, p));
+    return map;
+  }, [plans]);
+
+  const loadUnitContext = async (unitId: number, party: BillingParty | '') => {
+    setDebt(null); setUnitOrders([]);
+    try {
+      const [d, so] = await Promise.all([paymentPlansApi.getUnitDebt(unitId, party || undefined), paymentsApi.getStandingOrders()]);
+      setDebt(d.data);
+      setUnitOrders(so.data.filter(o => o.unitId === unitId && o.status !== 'Cancelled' && o.status !== 'Expired'));
+    } catch (err) { setError(errorMessage(err) || t('paymentPlans.failedLoad')); setPlanForm(null); }
+  };
+
+  const openOffer = (unitId: number, unitNumber: string) => {
+    setPlanForm({ unitId, unitNumber, party: partyFilter, installmentCount: 6, firstDueDate: firstOfNextMonth(), standingOrderId: '', note: '' });
+    loadUnitContext(unitId, partyFilter);
+  };
+
+  const changePlanParty = (party: BillingParty | '') => {
+    if (!planForm) return;
+    setPlanForm({ ...planForm, party });
+    loadUnitContext(planForm.unitId, party);
+  };
+
+  const openApprove = (p: PaymentPlanDto) => {
+    setPlanForm({
+      unitId: p.unitId, unitNumber: p.unitNumber ?? '', planId: p.id, party: p.party ?? '', installmentCount: p.installmentCount,
+      firstDueDate: firstOfNextMonth(), standingOrderId: '', note: ''
+    });
+    loadUnitContext(p.unitId, p.party ?? '');
+  };
+
+  const submitPlan = async () => {
+    if (!planForm) return;
+    setSavingPlan(true);
+    try {
+      if (planForm.planId) {
+        await paymentPlansApi.approve(planForm.planId, {
+          installmentCount: planForm.installmentCount, firstDueDate: planForm.firstDueDate, note: planForm.note || undefined
+        });
+        if (planForm.standingOrderId) await paymentPlansApi.linkStandingOrder(planForm.planId, planForm.standingOrderId);
+        setSuccess(t('paymentPlans.approved', { unit: planForm.unitNumber }));
+      } else {
+        await paymentPlansApi.create({
+          unitId: planForm.unitId, installmentCount: planForm.installmentCount, firstDueDate: planForm.firstDueDate,
+          party: planForm.party || undefined, standingOrderId: planForm.standingOrderId || undefined, note: planForm.note || undefined
+        });
+        setSuccess(t('paymentPlans.offered', { unit: planForm.unitNumber }));
+      }
+      setPlanForm(null);
+      loadPlans();
+    } catch (err) { setError(errorMessage(err) || t('paymentPlans.failedSave')); }
+    finally { setSavingPlan(false); }
+  };
+
+  const submitReject = async () => {
+    if (!rejecting) return;
+    try {
+      await paymentPlansApi.reject(rejecting.id, rejectReason || undefined);
+      setRejecting(null); setRejectReason('');
+      loadPlans();
+    } catch (err) { setError(errorMessage(err) || t('paymentPlans.failedAction')); }
+  };
+
+  const handleCancelPlan = async (p: PaymentPlanDto) => {
+    if (!window.confirm(t('paymentPlans.confirmCancel', { unit: p.unitNumber }))) return;
+    try { await paymentPlansApi.cancel(p.id); loadPlans(); }
+    catch (err) { setError(errorMessage(err) || t('paymentPlans.failedAction')); }
+  };
+
+  const handleCheck = async () => {
+    if (!selectedBuilding) return;
+    setChecking(true);
+    try {
+      const r = await paymentPlansApi.check(selectedBuilding as number);
+      setSuccess(t('paymentPlans.checkResult', {
+        checked: r.data.plansChecked, defaulted: r.data.plansDefaulted,
+        completed: r.data.plansCompleted, missed: r.data.installmentsMissed
+      }));
+      loadPlans();
+    } catch (err) { setError(errorMessage(err) || t('paymentPlans.failedAction')); }
+    finally { setChecking(false); }
+  };
+
+  const planPreview = planForm && debt && debt.totalOutstanding > 0 && planForm.installmentCount >= 2
+    ? Math.floor(debt.totalOutstanding / planForm.installmentCount * 100) / 100
+    : null;
 
   const handleExportCsv = async () => {
     if (!selectedBuilding) return;
     try {
       const lang = localStorage.getItem('lang') || 'he';
-      const r = await reportsApi.collectionStatusCsv(selectedBuilding as number, period, includeNotGenerated, lang);
+      const r = await reportsApi.collectionStatusCsv(selectedBuilding as number, period, includeNotGenerated, lang, partyFilter || undefined);
       const url = window.URL.createObjectURL(new Blob([r.data]));
       const a = document.createElement('a'); a.href = url;
-      a.download = `collection-status-${selectedBuilding}-${period}.csv`; a.click();
+      a.download = `collection-status-${selectedBuilding}-${period}${partyFilter ? `-${partyFilter.toLowerCase()}` : ''}.csv`; a.click();
     } catch { setError(t('collection.errorExport')); }
   };
 
-  const filteredRows = useMemo(() => {
-    if (!report) return [];
-    let rows = report.rows;
-    if (statusFilter !== 'all') {
-      rows = rows.filter(r => r.status === statusFilter);
-    }
-    if (searchQuery.trim()) {
-      const q = searchQuery.toLowerCase();
-      rows = rows.filter(r =>
-        r.unitNumber.toLowerCase().includes(q) ||
-        (r.payerDisplayName ?? '').toLowerCase().includes(q) ||
-        (r.payerPhone ?? '').includes(q)
-      );
-    }
-    return rows;
-  }, [report, statusFilter, searchQuery]);
+  const fetchRows = useCallback((query: GridQuery) =>
+    reportsApi.collectionStatusPaged(selectedBuilding as number, {
+      ...query, period, includeNotGenerated, party: partyFilter || undefined
+    }).then(r => r.data),
+  [selectedBuilding, period, includeNotGenerated, partyFilter]);
+
+  const onPaymentsChanged = () => { loadReport(); setRefreshKey(k => k + 1); };
 
   const formatCurrency = (v: number) =>
     v.toLocaleString(i18n.language === 'he' ? 'he-IL' : 'en-US', { style: 'currency', currency: 'ILS', maximumFractionDigits: 0 });
@@ -99,12 +246,64 @@ const CollectionStatusPage: React.FC = () => {
 
   const s = report?.summary;
 
+  const columns: DataGridColumn<CollectionRowDto>[] = [
+    {
+      field: 'unitNumber', headerName: t('collection.unit'), sortable: true, hideable: false,
+      render: r => <><strong>{r.unitNumber}</strong>{r.floor != null ? ` (${t('collection.floor')} ${r.floor})` : ''}</>
+    },
+    {
+      field: 'payerDisplayName', headerName: t('collection.payer'), sortable: true,
+      render: r => <>{r.payerDisplayName}{r.party === 'Owner' && !partyFilter && <PartyChip party={r.party} t={t} />}</>
+    },
+    { field: 'payerPhone', headerName: t('collection.phone'), render: r => r.payerPhone || '—' },
+    { field: 'amountDue', headerName: t('collection.due'), sortable: true, align: 'right', render: r => r.amountDue > 0 ? formatCurrency(r.amountDue) : '—' },
+    {
+      field: 'amountPaid', headerName: t('collection.paid'), sortable: true, align: 'right',
+      render: r => <Box component="span" sx={{ color: 'success.main' }}>{r.amountPaid > 0 ? formatCurrency(r.amountPaid) : '—'}</Box>
+    },
+    {
+      field: 'outstanding', headerName: t('collection.outstanding'), sortable: true, align: 'right',
+      render: r => r.outstanding > 0
+        ? <Box component="span" sx={{ color: 'error.main', fontWeight: 600 }}>{formatCurrency(r.outstanding)}</Box>
+        : '—'
+    },
+    { field: 'dueDate', headerName: t('collection.dueDate'), sortable: true, render: r => formatDate(r.dueDate) },
+    { field: 'status', headerName: t('collection.status'), sortable: true, render: r => <StatusChip status={r.status} t={t} /> },
+    { field: 'lastPaymentDateUtc', headerName: t('collection.lastPayment'), sortable: true, render: r => formatDate(r.lastPaymentDateUtc) },
+    ...(canViewFinance ? [{
+      field: 'actions', headerName: t('app.actions'), hideable: false, render: (r: CollectionRowDto) => (
+        <Box sx={{ display: 'flex', alignItems: 'center', whiteSpace: 'nowrap' }}>
+          <Tooltip title={t('statement.title')}>
+            <IconButton size="small" onClick={() => setStatementUnit({ id: r.unitId, number: r.unitNumber })}><ReceiptLong fontSize="small" /></IconButton>
+          </Tooltip>
+          <Tooltip title={t('refunds.payments')}>
+            <IconButton size="small" onClick={() => setPaymentsUnit({ id: r.unitId, number: r.unitNumber })}><Payments fontSize="small" /></IconButton>
+          </Tooltip>
+          {openPlanByUnit.has(r.unitId) ? (
+            <PaymentPlanStatusChip status={openPlanByUnit.get(r.unitId)!.status} />
+          ) : canManageFinance && (
+            <Tooltip title={t('paymentPlans.offer')}>
+              <IconButton size="small" onClick={() => openOffer(r.unitId, r.unitNumber)}><EventRepeat fontSize="small" /></IconButton>
+            </Tooltip>
+          )}
+        </Box>
+      ),
+    }] : []),
+  ];
+
+  const filters: DataGridFilter[] = [{
+    key: 'status', label: t('collection.statusFilter'), allLabel: t('collection.allStatuses'),
+    options: (includeNotGenerated ? COLLECTION_STATUSES : COLLECTION_STATUSES.filter(st => st !== 'NotGenerated'))
+      .map(st => ({ value: st, label: t(`collection.status${st}`) })),
+  }];
+
   return (
     <Box>
       <Typography variant="h4" gutterBottom sx={{ fontWeight: 700, fontSize: { xs: '1.3rem', md: '2rem' } }}>
         {t('collection.title')}
       </Typography>
       {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
+      {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess('')}>{success}</Alert>}
 
       {/* Filters */}
       <Box sx={{ display: 'flex', gap: 2, mb: 3, flexWrap: 'wrap', alignItems: 'center' }}>
@@ -117,6 +316,11 @@ const CollectionStatusPage: React.FC = () => {
         </FormControl>
         <TextField label={t('collection.period')} type="month" value={period}
           onChange={e => setPeriod(e.target.value)} size="small" InputLabelProps={{ shrink: true }} />
+        <TextField select size="small" label={t('billing.payerParty')} value={partyFilter}
+          onChange={e => setPartyFilter(e.target.value as BillingParty | '')} sx={{ minWidth: 150 }}>
+          <MenuItem value="">{t('billing.allParties')}</MenuItem>
+          {BILLING_PARTIES.map(bp => <MenuItem key={bp} value={bp}>{t(`enums.billingParty.${bp}`)}</MenuItem>)}
+        </TextField>
         <FormControlLabel
           control={<Switch checked={includeNotGenerated} onChange={e => setIncludeNotGenerated(e.target.checked)} size="small" />}
           label={<Typography variant="body2">{t('collection.includeNotGenerated')}</Typography>}
@@ -160,107 +364,257 @@ const CollectionStatusPage: React.FC = () => {
             </Typography>
           </Box>
 
-          {/* Search & Status Filter */}
-          <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap', alignItems: 'center' }}>
-            <TextField size="small" placeholder={t('collection.search')} value={searchQuery}
-              onChange={e => setSearchQuery(e.target.value)}
-              InputProps={{ startAdornment: <InputAdornment position="start"><Search /></InputAdornment> }}
-              sx={{ minWidth: 220 }} />
-            <FormControl size="small" sx={{ minWidth: 160 }}>
-              <InputLabel>{t('collection.statusFilter')}</InputLabel>
-              <Select value={statusFilter} label={t('collection.statusFilter')}
-                onChange={e => setStatusFilter(e.target.value)}>
-                <MenuItem value="all">{t('collection.allStatuses')}</MenuItem>
-                <MenuItem value="Paid">{t('collection.statusPaid')}</MenuItem>
-                <MenuItem value="Partial">{t('collection.statusPartial')}</MenuItem>
-                <MenuItem value="Unpaid">{t('collection.statusUnpaid')}</MenuItem>
-                <MenuItem value="Overdue">{t('collection.statusOverdue')}</MenuItem>
-                {includeNotGenerated && <MenuItem value="NotGenerated">{t('collection.statusNotGenerated')}</MenuItem>}
-              </Select>
-            </FormControl>
+        </>
+      )}
+
+      {selectedBuilding && (
+        <DataGrid
+          gridKey="manager.collectionStatus"
+          columns={columns}
+          filters={filters}
+          fetchRows={fetchRows}
+          rowKey={r => r.unitId}
+          emptyText={t('collection.noData')}
+          refreshKey={refreshKey}
+          renderMobileCard={r => (
+            <Card variant="outlined">
+              <CardContent sx={{ py: 1.5, px: 2, '&:last-child': { pb: 1.5 } }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
+                  <Typography variant="subtitle2" fontWeight={700}>{r.unitNumber}</Typography>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                    {openPlanByUnit.has(r.unitId) && <PaymentPlanStatusChip status={openPlanByUnit.get(r.unitId)!.status} />}
+                    <StatusChip status={r.status} t={t} />
+                  </Box>
+                </Box>
+                <Typography variant="body2" color="text.secondary">
+                  {r.payerDisplayName}{r.party === 'Owner' && !partyFilter && <PartyChip party={r.party} t={t} />}
+                </Typography>
+                {r.payerPhone && (
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mt: 0.3 }}>
+                    <Phone sx={{ fontSize: 14, color: 'text.secondary' }} />
+                    <Typography variant="caption" color="text.secondary">{r.payerPhone}</Typography>
+                  </Box>
+                )}
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 1 }}>
+                  <Box>
+                    <Typography variant="caption" color="text.secondary">{t('collection.due')}</Typography>
+                    <Typography variant="body2" fontWeight={600}>{formatCurrency(r.amountDue)}</Typography>
+                  </Box>
+                  <Box>
+                    <Typography variant="caption" color="text.secondary">{t('collection.paid')}</Typography>
+                    <Typography variant="body2" fontWeight={600} color="success.main">{formatCurrency(r.amountPaid)}</Typography>
+                  </Box>
+                  <Box>
+                    <Typography variant="caption" color="text.secondary">{t('collection.outstanding')}</Typography>
+                    <Typography variant="body2" fontWeight={600} color={r.outstanding > 0 ? 'error.main' : 'success.main'}>
+                      {formatCurrency(r.outstanding)}
+                    </Typography>
+                  </Box>
+                </Box>
+                {canViewFinance && (
+                  <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+                    <Button size="small" startIcon={<ReceiptLong />}
+                      onClick={() => setStatementUnit({ id: r.unitId, number: r.unitNumber })}>{t('statement.title')}</Button>
+                    <Button size="small" startIcon={<Payments />}
+                      onClick={() => setPaymentsUnit({ id: r.unitId, number: r.unitNumber })}>{t('refunds.payments')}</Button>
+                    {canManageFinance && !openPlanByUnit.has(r.unitId) && (
+                      <Button size="small" startIcon={<EventRepeat />}
+                        onClick={() => openOffer(r.unitId, r.unitNumber)}>{t('paymentPlans.offer')}</Button>
+                    )}
+                  </Box>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        />
+      )}
+
+      {/* Payment Plans */}
+      {canViewFinance && (
+        <Box sx={{ mt: 4 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 1 }}>
+            <Typography variant="h6">{t('paymentPlans.title')}</Typography>
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              <TextField select size="small" label={t('paymentPlans.filter')} value={planFilter}
+                onChange={e => setPlanFilter(e.target.value as typeof PLAN_FILTERS[number])} sx={{ minWidth: 160 }}>
+                {PLAN_FILTERS.map(f => (
+                  <MenuItem key={f} value={f}>
+                    {f === 'open' ? t('paymentPlans.filterOpen') : f === 'all' ? t('collection.allStatuses') : t(`enums.paymentPlanStatus.${f}`)}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <Button variant="outlined" size="small" startIcon={checking ? <CircularProgress size={16} /> : <FactCheck />}
+                onClick={handleCheck} disabled={checking || !canManageFinance}>{t('paymentPlans.checkAdherence')}</Button>
+            </Box>
           </Box>
 
-          {/* Data */}
-          {isMobile ? (
-            <Stack spacing={1}>
-              {filteredRows.map((r) => (
-                <Card key={r.unitId} variant="outlined">
-                  <CardContent sx={{ py: 1.5, px: 2, '&:last-child': { pb: 1.5 } }}>
-                    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
-                      <Typography variant="subtitle2" fontWeight={700}>{r.unitNumber}</Typography>
-                      <StatusChip status={r.status} t={t} />
+          {visiblePlans.length === 0 && (
+            <Typography color="text.secondary" align="center" sx={{ py: 2 }}>{t('paymentPlans.empty')}</Typography>
+          )}
+
+          <Stack spacing={1.5}>
+            {visiblePlans.map(p => (
+              <Card key={p.id} variant="outlined" sx={{ borderColor: p.status === 'Defaulted' ? 'error.main' : undefined }}>
+                <CardContent sx={{ '&:last-child': { pb: 2 } }}>
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 1, flexWrap: 'wrap' }}>
+                    <Box>
+                      <Typography variant="subtitle1" fontWeight={700}>
+                        {t('collection.unit')} {p.unitNumber}{p.tenantName ? ` · ${p.tenantName}` : ''}
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        {p.status === 'Requested'
+                          ? t('paymentPlans.requestedSummary', { total: formatCurrency(p.totalAmount), count: p.installmentCount })
+                          : t('paymentPlans.planSummary', { total: formatCurrency(p.totalAmount), count: p.installmentCount, remaining: formatCurrency(p.remaining) })}
+                      </Typography>
+                      {p.requestNote && <Typography variant="body2" sx={{ mt: 0.5 }}>“{p.requestNote}”</Typography>}
                     </Box>
-                    <Typography variant="body2" color="text.secondary">{r.payerDisplayName}</Typography>
-                    {r.payerPhone && (
-                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mt: 0.3 }}>
-                        <Phone sx={{ fontSize: 14, color: 'text.secondary' }} />
-                        <Typography variant="caption" color="text.secondary">{r.payerPhone}</Typography>
-                      </Box>
+                    <Box sx={{ display: 'flex', gap: 0.5, alignItems: 'center', flexWrap: 'wrap' }}>
+                      {p.party && <Chip size="small" variant="outlined" label={t(`enums.billingParty.${p.party}`)} />}
+                      {p.requestedByTenant && <Chip size="small" variant="outlined" label={t('paymentPlans.tenantRequest')} />}
+                      {p.missedInstallments > 0 && (
+                        <Chip size="small" color="error" variant="outlined" icon={<Warning />}
+                          label={t('paymentPlans.missedCount', { count: p.missedInstallments })} />
+                      )}
+                      {p.standingOrderId && <Chip size="small" variant="outlined" icon={<EventRepeat />} label={t('paymentPlans.standingOrderLinked')} />}
+                      <PaymentPlanStatusChip status={p.status} />
+                    </Box>
+                  </Box>
+
+                  {p.nextDueDate && OPEN_PLAN_STATUSES.includes(p.status) && p.status !== 'Requested' && (
+                    <Typography variant="caption" color="text.secondary">{t('paymentPlans.nextDue')}: {formatDate(p.nextDueDate)}</Typography>
+                  )}
+
+                  <Box sx={{ display: 'flex', gap: 1, mt: 1, flexWrap: 'wrap' }}>
+                    {canManageFinance && p.status === 'Requested' && (
+                      <>
+                        <Button size="small" variant="contained" onClick={() => openApprove(p)}>{t('paymentPlans.approve')}</Button>
+                        <Button size="small" color="warning" onClick={() => { setRejecting(p); setRejectReason(''); }}>{t('paymentPlans.reject')}</Button>
+                      </>
                     )}
-                    <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 1 }}>
-                      <Box>
-                        <Typography variant="caption" color="text.secondary">{t('collection.due')}</Typography>
-                        <Typography variant="body2" fontWeight={600}>{formatCurrency(r.amountDue)}</Typography>
-                      </Box>
-                      <Box>
-                        <Typography variant="caption" color="text.secondary">{t('collection.paid')}</Typography>
-                        <Typography variant="body2" fontWeight={600} color="success.main">{formatCurrency(r.amountPaid)}</Typography>
-                      </Box>
-                      <Box>
-                        <Typography variant="caption" color="text.secondary">{t('collection.outstanding')}</Typography>
-                        <Typography variant="body2" fontWeight={600} color={r.outstanding > 0 ? 'error.main' : 'success.main'}>
-                          {formatCurrency(r.outstanding)}
-                        </Typography>
-                      </Box>
+                    {canManageFinance && (p.status === 'Active' || p.status === 'Defaulted') && (
+                      <Button size="small" color="error" onClick={() => handleCancelPlan(p)}>{t('paymentPlans.cancelPlan')}</Button>
+                    )}
+                    <Button size="small" endIcon={expandedPlanId === p.id ? <ExpandLess /> : <ExpandMore />}
+                      onClick={() => setExpandedPlanId(expandedPlanId === p.id ? null : p.id)}>
+                      {t('paymentPlans.details')}
+                    </Button>
+                  </Box>
+
+                  <Collapse in={expandedPlanId === p.id} unmountOnExit>
+                    <Box sx={{ mt: 2 }}>
+                      {p.managerNote && <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>{t('paymentPlans.managerNote')}: {p.managerNote}</Typography>}
+                      <PaymentPlanDetails plan={p} />
                     </Box>
-                  </CardContent>
-                </Card>
-              ))}
-            </Stack>
-          ) : (
-            <TableContainer component={Paper} variant="outlined">
-              <Table size="small">
-                <TableHead>
-                  <TableRow>
-                    <TableCell>{t('collection.unit')}</TableCell>
-                    <TableCell>{t('collection.payer')}</TableCell>
-                    <TableCell>{t('collection.phone')}</TableCell>
-                    <TableCell align="right">{t('collection.due')}</TableCell>
-                    <TableCell align="right">{t('collection.paid')}</TableCell>
-                    <TableCell align="right">{t('collection.outstanding')}</TableCell>
-                    <TableCell>{t('collection.dueDate')}</TableCell>
-                    <TableCell>{t('collection.status')}</TableCell>
-                    <TableCell>{t('collection.lastPayment')}</TableCell>
-                  </TableRow>
-                </TableHead>
-                <TableBody>
-                  {filteredRows.map((r) => (
-                    <TableRow key={r.unitId} sx={{
-                      bgcolor: r.status === 'Overdue' ? 'rgba(183,28,28,0.04)' :
-                        r.status === 'Unpaid' ? 'rgba(211,47,47,0.02)' : undefined
-                    }}>
-                      <TableCell><strong>{r.unitNumber}</strong>{r.floor != null ? ` (${t('collection.floor')} ${r.floor})` : ''}</TableCell>
-                      <TableCell>{r.payerDisplayName}</TableCell>
-                      <TableCell>{r.payerPhone || '—'}</TableCell>
-                      <TableCell align="right">{r.amountDue > 0 ? formatCurrency(r.amountDue) : '—'}</TableCell>
-                      <TableCell align="right" sx={{ color: 'success.main' }}>{r.amountPaid > 0 ? formatCurrency(r.amountPaid) : '—'}</TableCell>
-                      <TableCell align="right" sx={{ color: r.outstanding > 0 ? 'error.main' : 'inherit', fontWeight: r.outstanding > 0 ? 600 : 400 }}>
-                        {r.outstanding > 0 ? formatCurrency(r.outstanding) : '—'}
-                      </TableCell>
-                      <TableCell>{formatDate(r.dueDate)}</TableCell>
-                      <TableCell><StatusChip status={r.status} t={t} /></TableCell>
-                      <TableCell>{formatDate(r.lastPaymentDateUtc)}</TableCell>
-                    </TableRow>
+                  </Collapse>
+                </CardContent>
+              </Card>
+            ))}
+          </Stack>
+        </Box>
+      )}
+
+      {/* Unit statement */}
+      <Dialog open={!!statementUnit} onClose={() => setStatementUnit(null)} maxWidth="lg" fullWidth>
+        <DialogTitle>{t('statement.titleUnit', { unit: statementUnit?.number })}</DialogTitle>
+        <DialogContent>
+          {statementUnit && <Box sx={{ pt: 1 }}><UnitStatement unitId={statementUnit.id} allowPartySelect /></Box>}
+        </DialogContent>
+        <DialogActions><Button onClick={() => setStatementUnit(null)}>{t('app.close')}</Button></DialogActions>
+      </Dialog>
+
+      {/* Unit payments and refunds */}
+      <Dialog open={!!paymentsUnit} onClose={() => setPaymentsUnit(null)} maxWidth="md" fullWidth>
+        <DialogTitle>{t('refunds.unitPaymentsTitle', { unit: paymentsUnit?.number })}</DialogTitle>
+        <DialogContent>
+          {paymentsUnit && <Box sx={{ pt: 1 }}><UnitPayments unitId={paymentsUnit.id} onChanged={onPaymentsChanged} /></Box>}
+        </DialogContent>
+        <DialogActions><Button onClick={() => setPaymentsUnit(null)}>{t('app.close')}</Button></DialogActions>
+      </Dialog>
+
+      {/* Offer / approve plan dialog */}
+      <Dialog open={!!planForm} onClose={() => setPlanForm(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {planForm?.planId ? t('paymentPlans.approveTitle', { unit: planForm.unitNumber }) : t('paymentPlans.offerTitle', { unit: planForm?.unitNumber })}
+        </DialogTitle>
+        <DialogContent>
+          {planForm && (
+            <TextField select size="small" fullWidth label={t('billing.planParty')} value={planForm.party} sx={{ mt: 1 }}
+              onChange={e => changePlanParty(e.target.value as BillingParty | '')} disabled={!!planForm.planId}>
+              <MenuItem value="">{t('billing.allParties')}</MenuItem>
+              {BILLING_PARTIES.map(bp => <MenuItem key={bp} value={bp}>{t(`enums.billingParty.${bp}`)}</MenuItem>)}
+            </TextField>
+          )}
+          {!debt && <CircularProgress size={24} sx={{ my: 2 }} />}
+          {debt && (
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              {debt.charges.length === 0 ? (
+                <Alert severity="info">{t('paymentPlans.noDebt')}</Alert>
+              ) : (
+                <Box>
+                  <Typography variant="body2" sx={{ mb: 1 }}>
+                    {t('paymentPlans.debtSummary', { count: debt.charges.length, total: formatCurrency(debt.totalOutstanding) })}
+                  </Typography>
+                  {debt.charges.map(c => (
+                    <Typography key={c.unitChargeId} variant="caption" display="block" color="text.secondary">
+                      {c.period} · {c.description || t(`enums.unitChargeType.${c.chargeType}`, c.chargeType)} · {formatCurrency(c.outstanding)}
+                    </Typography>
                   ))}
-                  {filteredRows.length === 0 && (
-                    <TableRow><TableCell colSpan={9} align="center">{t('collection.noData')}</TableCell></TableRow>
+                </Box>
+              )}
+              {debt.openPlanId && !planForm?.planId && <Alert severity="warning">{t('paymentPlans.alreadyOpen')}</Alert>}
+              {planForm && (
+                <>
+                  <Box sx={{ display: 'flex', gap: 2 }}>
+                    <TextField label={t('paymentPlans.installments')} type="number" size="small" fullWidth
+                      value={planForm.installmentCount} inputProps={{ min: 2, max: 36 }}
+                      onChange={e => setPlanForm({ ...planForm, installmentCount: Number(e.target.value) })} />
+                    <TextField label={t('paymentPlans.firstDueDate')} type="date" size="small" fullWidth
+                      value={planForm.firstDueDate} InputLabelProps={{ shrink: true }}
+                      onChange={e => setPlanForm({ ...planForm, firstDueDate: e.target.value })} />
+                  </Box>
+                  {planPreview != null && (
+                    <Typography variant="body2" color="text.secondary">
+                      {t('paymentPlans.perInstallment', { amount: formatCurrency(planPreview) })}
+                    </Typography>
                   )}
-                </TableBody>
-              </Table>
-            </TableContainer>
+                  <TextField select size="small" label={t('paymentPlans.standingOrder')} value={planForm.standingOrderId}
+                    onChange={e => setPlanForm({ ...planForm, standingOrderId: e.target.value === '' ? '' : Number(e.target.value) })}
+                    helperText={unitOrders.length === 0 ? t('paymentPlans.noStandingOrders') : undefined}>
+                    <MenuItem value="">{t('paymentPlans.noStandingOrder')}</MenuItem>
+                    {unitOrders.map(o => (
+                      <MenuItem key={o.id} value={o.id}>
+                        {formatCurrency(o.amount)} · {t(`myCharges.soStatus${o.status}`, o.status)}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <TextField label={t('paymentPlans.note')} size="small" multiline minRows={2}
+                    value={planForm.note} onChange={e => setPlanForm({ ...planForm, note: e.target.value })} />
+                </>
+              )}
+            </Stack>
           )}
-        </>
-      )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPlanForm(null)}>{t('app.cancel')}</Button>
+          <Button variant="contained" onClick={submitPlan}
+            disabled={savingPlan || !debt || debt.charges.length === 0 || (!!debt.openPlanId && !planForm?.planId)}>
+            {planForm?.planId ? t('paymentPlans.approve') : t('paymentPlans.offer')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Reject request dialog */}
+      <Dialog open={!!rejecting} onClose={() => setRejecting(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('paymentPlans.rejectTitle', { unit: rejecting?.unitNumber })}</DialogTitle>
+        <DialogContent>
+          <TextField label={t('paymentPlans.rejectReason')} fullWidth multiline minRows={2} sx={{ mt: 1 }}
+            value={rejectReason} onChange={e => setRejectReason(e.target.value)} />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRejecting(null)}>{t('app.cancel')}</Button>
+          <Button variant="contained" color="warning" onClick={submitReject}>{t('paymentPlans.reject')}</Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 };
@@ -279,4 +633,8 @@ const StatusChip: React.FC<{ status: string; t: (key: string) => string }> = ({
   />
 );
 
+const PartyChip: React.FC<{ party: BillingParty; t: (key: string) => string }> = ({ party, t }) => (
+  <Chip label={t(`enums.billingParty.${party}`)} size="small" variant="outlined" sx={{ ml: 1, height: 20 }} />
+);
+
 export default CollectionStatusPage;
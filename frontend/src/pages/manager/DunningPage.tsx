@@ -0,0 +1,357 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box, Typography, Card, CardContent, Table, TableBody, TableCell, TableContainer, TableHead, TableRow,
+  Paper, Chip, MenuItem, TextField, Button, IconButton, Switch, Dialog, DialogTitle, DialogContent, DialogActions,
+  CircularProgress, Alert, Stack, Tooltip, useMediaQuery, useTheme
+} from '@mui/material';
+import { Add, Delete, PlayArrow, Save, Timeline, Print, AutoFixHigh, Gavel } from '@mui/icons-material';
+import type { TFunction } from 'i18next';
+import { buildingsApi, dunningApi, smsApi } from '../../api/services';
+import type { BuildingDto, SmsTemplateDto, DunningStepRequest, DunningDebtorDto, DunningNoticeDto, DunningAction } from '../../types';
+import { DUNNING_ACTIONS } from '../../types';
+import { formatCurrency, formatDateOnly, formatDateLocal } from '../../utils/dateUtils';
+import { useTranslation } from 'react-i18next';
+
+/** Suggested schedule: friendly SMS, email, formal letter, committee escalation */
+const SUGGESTED_STEPS: { daysAfterDue: number; action: DunningAction }[] = [
+  { daysAfterDue: 3, action: 'Sms' },
+  { daysAfterDue: 14, action: 'Email' },
+  { daysAfterDue: 45, action: 'FormalLetter' },
+  { daysAfterDue: 90, action: 'CommitteeEscalation' },
+];
+
+const sendStatusColor = (status: string): 'success' | 'error' | 'warning' | 'default' =>
+  status === 'Sent' ? 'success' : status === 'Failed' ? 'error' : status === 'Skipped' ? 'warning' : 'default';
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Opens a formal letter as a plain document in a new window and prints it, for delivery by hand or post. */
+const printLetter = (n: DunningNoticeDto, buildingName: string, dir: 'rtl' | 'ltr') => {
+  const w = window.open('', '_blank');
+  if (!w) return;
+  w.document.write(`<!DOCTYPE html>
+<html dir="${dir}"><head><meta charset="utf-8"><title>${escapeHtml(n.subject ?? '')}</title>
+<style>
+  body { font-family: Arial, sans-serif; font-size: 14px; line-height: 1.6; margin: 48px; color: #222; max-width: 680px; }
+  .date { text-align: end; margin-bottom: 24px; }
+  .from { font-weight: bold; margin-bottom: 24px; }
+  .subject { font-weight: bold; text-decoration: underline; margin: 16px 0; }
+</style></head><body>
+<div class="date">${formatDateOnly(n.createdAtUtc)}</div>
+<div class="from">${escapeHtml(buildingName)}</div>
+<div>${escapeHtml(n.recipientName)}</div>
+${n.subject ? `<div class="subject">${escapeHtml(n.subject)}</div>` : ''}
+<div>${escapeHtml(n.message).replace(/\n/g, '<br/>')}</div>
+</body></html>`);
+  w.document.close();
+  w.focus();
+  w.print();
+};
+
+/** One chip per schedule step: filled once reached (colored by delivery), outlined while still ahead. */
+const StepProgress: React.FC<{ d: DunningDebtorDto; steps: DunningStepRequest[]; t: TFunction }> = ({ d, steps, t }) => (
+  <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+    {steps.filter(s => s.isEnabled).map(s => {
+      const notice = d.notices.find(n => n.daysAfterDue === s.daysAfterDue);
+      const passed = d.reachedDaysAfterDue != null && s.daysAfterDue < d.reachedDaysAfterDue && !notice;
+      return (
+        <Tooltip key={s.daysAfterDue} title={notice
+          ? `${formatDateLocal(notice.createdAtUtc)} · ${t(`dunning.sendStatus.${notice.sendStatus}`)}${notice.errorMessage ? ` – ${notice.errorMessage}` : ''}`
+          : passed ? t('dunning.stepPassed') : ''}>
+          <Chip size="small"
+            variant={notice ? 'filled' : 'outlined'}
+            color={notice ? sendStatusColor(notice.sendStatus) : 'default'}
+            sx={{ opacity: passed ? 0.5 : 1 }}
+            label={`${s.daysAfterDue}${t('dunning.daysShort')} · ${t(`dunning.action.${s.action}`)}`} />
+        </Tooltip>
+      );
+    })}
+  </Box>
+);
+
+/** Automatic dunning: a per-building schedule of reminders by days overdue, and where each debtor stands. */
+const DunningPage: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+
+  const [buildings, setBuildings] = useState<BuildingDto[]>([]);
+  const [templates, setTemplates] = useState<SmsTemplateDto[]>([]);
+  const [buildingId, setBuildingId] = useState<number | ''>('');
+  const [steps, setSteps] = useState<DunningStepRequest[]>([]);
+  const [debtors, setDebtors] = useState<DunningDebtorDto[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Unit timeline dialog
+  const [timelineDebtor, setTimelineDebtor] = useState<DunningDebtorDto | null>(null);
+  const [timeline, setTimeline] = useState<DunningNoticeDto[]>([]);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  useEffect(() => {
+    buildingsApi.getAll().then(r => { setBuildings(r.data); if (r.data.length > 0) setBuildingId(r.data[0].id); })
+      .catch(() => setError(t('dunning.failedLoad')));
+    smsApi.getTemplates().then(r => setTemplates(r.data)).catch(() => setError(t('dunning.failedLoad')));
+  }, [t]);
+
+  const load = useCallback(async () => {
+    if (!buildingId) return;
+    setLoading(true);
+    try {
+      const [s, d] = await Promise.all([dunningApi.getSchedule(buildingId), dunningApi.getDebtors(buildingId)]);
+      setSteps(s.data.map(x => ({ daysAfterDue: x.daysAfterDue, action: x.action, templateId: x.templateId, isEnabled: x.isEnabled })));
+      setDebtors(d.data);
+    } catch { setError(t('dunning.failedLoad')); }
+    finally { setLoading(false); }
+  }, [buildingId, t]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const updateStep = (index: number, patch: Partial<DunningStepRequest>) =>
+    setSteps(prev => prev.map((s, i) => i === index ? { ...s, ...patch } : s));
+
+  const defaultTemplateId = templates.find(x => x.language === i18n.language)?.id ?? templates[0]?.id;
+
+  const addStep = () => setSteps(prev => [...prev, {
+    daysAfterDue: Math.max(0, ...prev.map(s => s.daysAfterDue)) + 7,
+    action: 'Sms',
+    templateId: defaultTemplateId,
+    isEnabled: true,
+  }]);
+
+  const applySuggested = () => setSteps(SUGGESTED_STEPS.map(s => ({
+    ...s,
+    templateId: s.action === 'CommitteeEscalation' ? undefined : defaultTemplateId,
+    isEnabled: true,
+  })));
+
+  const handleSave = async () => {
+    if (!buildingId) return;
+    setBusy(true); setError('');
+    try {
+      const sorted = [...steps].sort((a, b) => a.daysAfterDue - b.daysAfterDue);
+      const r = await dunningApi.saveSchedule(buildingId, sorted);
+      setSteps(r.data.map(x => ({ daysAfterDue: x.daysAfterDue, action: x.action, templateId: x.templateId, isEnabled: x.isEnabled })));
+      setSuccess(t('dunning.saved'));
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('dunning.failedSave'));
+    } finally { setBusy(false); }
+  };
+
+  const handleRun = async () => {
+    if (!buildingId) return;
+    setBusy(true); setError('');
+    try {
+      const r = await dunningApi.run(buildingId);
+      setSuccess(t('dunning.runResult', { sent: r.data.noticesSent, failed: r.data.noticesFailed, skipped: r.data.noticesSkipped }));
+      load();
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('dunning.failedRun'));
+    } finally { setBusy(false); }
+  };
+
+  const openTimeline = async (d: DunningDebtorDto) => {
+    setTimelineDebtor(d); setTimeline([]); setExpanded(null);
+    try {
+      const r = await dunningApi.getUnitNotices(d.unitId);
+      setTimeline(r.data);
+    } catch { setError(t('dunning.failedLoad')); }
+  };
+
+  const buildingName = buildings.find(b => b.id === buildingId)?.name ?? '';
+  const dir = i18n.dir() === 'rtl' ? 'rtl' : 'ltr';
+  const enabledSteps = steps.filter(s => s.isEnabled).sort((a, b) => a.daysAfterDue - b.daysAfterDue);
+
+  const debtorName = (d: DunningDebtorDto) => (
+    <>
+      {d.payerName ?? '—'}
+      {d.party === 'Owner' && <Chip size="small" variant="outlined" label={t('enums.billingParty.Owner')} sx={{ ml: 0.5 }} />}
+      {d.inPaymentPlan && <Chip size="small" color="info" label={t('dunning.inPaymentPlan')} sx={{ ml: 0.5 }} />}
+    </>
+  );
+
+  return (
+    <Box>
+      <Typography variant="h4" sx={{ fontSize: { xs: '1.3rem', md: '2rem' }, fontWeight: 700, mb: 2 }}>
+        <Gavel sx={{ mr: 1, verticalAlign: 'middle' }} />
+        {t('dunning.title')}
+      </Typography>
+
+      {error && <Alert severity="error" onClose={() => setError('')} sx={{ mb: 2 }}>{error}</Alert>}
+      {success && <Alert severity="success" onClose={() => setSuccess('')} sx={{ mb: 2 }}>{success}</Alert>}
+
+      <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+        <TextField select size="small" label={t('dunning.building')} value={buildingId}
+          onChange={e => setBuildingId(Number(e.target.value))} sx={{ minWidth: 200 }}>
+          {buildings.map(b => <MenuItem key={b.id} value={b.id}>{b.name}</MenuItem>)}
+        </TextField>
+        <Button variant="contained" startIcon={<PlayArrow />} disabled={busy || !buildingId || enabledSteps.length === 0} onClick={handleRun}>
+          {t('dunning.runNow')}
+        </Button>
+      </Box>
+
+      {/* Schedule */}
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+            <Typography variant="h6">{t('dunning.schedule')}</Typography>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button size="small" startIcon={<AutoFixHigh />} onClick={applySuggested}>{t('dunning.useSuggested')}</Button>
+              <Button size="small" startIcon={<Add />} onClick={addStep}>{t('dunning.addStep')}</Button>
+            </Box>
+          </Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>{t('dunning.scheduleHint')}</Typography>
+
+          {steps.length === 0 && (
+            <Typography color="text.secondary" sx={{ py: 2 }}>{t('dunning.noSchedule')}</Typography>
+          )}
+          <Stack spacing={1.5}>
+            {steps.map((s, i) => (
+              <Box key={i} sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap', alignItems: 'center' }}>
+                <TextField size="small" type="number" label={t('dunning.daysAfterDue')} value={s.daysAfterDue}
+                  onChange={e => updateStep(i, { daysAfterDue: Number(e.target.value) })}
+                  inputProps={{ min: 1, max: 365 }} sx={{ width: 140 }} />
+                <TextField select size="small" label={t('dunning.actionLabel')} value={s.action}
+                  onChange={e => updateStep(i, { action: e.target.value as DunningAction })} sx={{ minWidth: 190 }}>
+                  {DUNNING_ACTIONS.map(a => <MenuItem key={a} value={a}>{t(`dunning.action.${a}`)}</MenuItem>)}
+                </TextField>
+                <TextField select size="small" label={t('dunning.template')} value={s.templateId ?? ''}
+                  onChange={e => updateStep(i, { templateId: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  sx={{ minWidth: 240 }}>
+                  {s.action === 'CommitteeEscalation' && <MenuItem value="">{t('dunning.defaultSummary')}</MenuItem>}
+                  {templates.map(tp => <MenuItem key={tp.id} value={tp.id}>{tp.name} ({tp.language})</MenuItem>)}
+                </TextField>
+                <Tooltip title={t('dunning.enabled')}>
+                  <Switch checked={s.isEnabled} onChange={e => updateStep(i, { isEnabled: e.target.checked })} />
+                </Tooltip>
+                <IconButton size="small" color="error" onClick={() => setSteps(prev => prev.filter((_, j) => j !== i))}><Delete fontSize="small" /></IconButton>
+              </Box>
+            ))}
+          </Stack>
+          <Box sx={{ mt: 2 }}>
+            <Button variant="outlined" startIcon={<Save />} disabled={busy || !buildingId} onClick={handleSave}>{t('app.save')}</Button>
+          </Box>
+        </CardContent>
+      </Card>
+
+      {/* Debtors */}
+      <Typography variant="h6" sx={{ mb: 1 }}>{t('dunning.debtors')}</Typography>
+
+      {loading && <CircularProgress sx={{ display: 'block', mb: 2 }} />}
+
+      {!loading && debtors.length === 0 && (
+        <Typography color="text.secondary" align="center" sx={{ py: 4 }}>{t('dunning.noDebtors')}</Typography>
+      )}
+
+      {!loading && debtors.length > 0 && (isMobile ? (
+        <Stack spacing={1.5}>
+          {debtors.map(d => (
+            <Card key={`${d.unitId}-${d.party}`} variant="outlined">
+              <CardContent>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1, mb: 1 }}>
+                  <Typography variant="subtitle2">{t('statement.unit')} {d.unitNumber}</Typography>
+                  <Typography variant="subtitle2" color="error.main">{formatCurrency(d.outstanding)}</Typography>
+                </Box>
+                <Typography variant="body2" sx={{ mb: 1 }}>{debtorName(d)}</Typography>
+                <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>
+                  {t('dunning.oldestCharge', { period: d.oldestPeriod, days: d.daysOverdue })}
+                </Typography>
+                <StepProgress d={d} steps={enabledSteps} t={t} />
+                <Button size="small" startIcon={<Timeline />} sx={{ mt: 1 }} onClick={() => openTimeline(d)}>{t('dunning.timeline')}</Button>
+              </CardContent>
+            </Card>
+          ))}
+        </Stack>
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('statement.unit')}</TableCell>
+                <TableCell>{t('dunning.debtor')}</TableCell>
+                <TableCell align="right">{t('dunning.outstanding')}</TableCell>
+                <TableCell>{t('dunning.oldestDue')}</TableCell>
+                <TableCell align="right">{t('dunning.daysOverdue')}</TableCell>
+                <TableCell>{t('dunning.progress')}</TableCell>
+                <TableCell>{t('dunning.nextStep')}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {debtors.map(d => (
+                <TableRow key={`${d.unitId}-${d.party}`}>
+                  <TableCell>{d.unitNumber}</TableCell>
+                  <TableCell>{debtorName(d)}</TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 600 }}>
+                    {formatCurrency(d.outstanding)}
+                    <Typography variant="caption" display="block" color="text.secondary">{t('dunning.chargeCount', { count: d.overdueCharges })}</Typography>
+                  </TableCell>
+                  <TableCell>
+                    {d.oldestPeriod}
+                    <Typography variant="caption" display="block" color="text.secondary">{formatDateOnly(d.oldestDueDate)}</Typography>
+                  </TableCell>
+                  <TableCell align="right">{d.daysOverdue}</TableCell>
+                  <TableCell><StepProgress d={d} steps={enabledSteps} t={t} /></TableCell>
+                  <TableCell>
+                    {d.inPaymentPlan ? '—' : d.nextStepDate ? formatDateOnly(d.nextStepDate) : t('dunning.scheduleDone')}
+                  </TableCell>
+                  <TableCell align="right">
+                    <Button size="small" startIcon={<Timeline />} onClick={() => openTimeline(d)}>{t('dunning.timeline')}</Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      ))}
+
+      {/* Unit timeline */}
+      <Dialog open={!!timelineDebtor} onClose={() => setTimelineDebtor(null)} maxWidth="md" fullWidth>
+        <DialogTitle>{t('dunning.timelineTitle', { unit: timelineDebtor?.unitNumber ?? '' })}</DialogTitle>
+        <DialogContent>
+          {timeline.length === 0 && <Typography color="text.secondary" sx={{ py: 2 }}>{t('dunning.noNotices')}</Typography>}
+          <Stack spacing={1.5} sx={{ mt: 1 }}>
+            {timeline.map(n => (
+              <Paper key={n.id} variant="outlined" sx={{ p: 1.5 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1, flexWrap: 'wrap', alignItems: 'center' }}>
+                  <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+                    <Typography variant="subtitle2">{formatDateLocal(n.createdAtUtc)}</Typography>
+                    <Chip size="small" label={`${n.daysAfterDue}${t('dunning.daysShort')} · ${t(`dunning.action.${n.action}`)}`} />
+                    <Chip size="small" color={sendStatusColor(n.sendStatus)} label={t(`dunning.sendStatus.${n.sendStatus}`)} />
+                  </Box>
+                  <Box>
+                    <Button size="small" onClick={() => setExpanded(expanded === n.id ? null : n.id)}>
+                      {expanded === n.id ? t('dunning.hideMessage') : t('dunning.showMessage')}
+                    </Button>
+                    {n.action === 'FormalLetter' && (
+                      <Button size="small" startIcon={<Print />} onClick={() => printLetter(n, buildingName, dir)}>{t('dunning.printLetter')}</Button>
+                    )}
+                  </Box>
+                </Box>
+                <Typography variant="caption" color="text.secondary" display="block">
+                  {t('dunning.noticeFor', { period: n.chargePeriod ?? '', amount: formatCurrency(n.outstandingSnapshot) })}
+                  {' · '}{n.recipientName}{n.recipientAddress ? ` (${n.recipientAddress})` : ''}
+                </Typography>
+                {n.errorMessage && <Typography variant="caption" color="error.main" display="block">{n.errorMessage}</Typography>}
+                {expanded === n.id && (
+                  <Box sx={{ mt: 1, p: 1.5, bgcolor: 'grey.50', borderRadius: 1 }}>
+                    {n.subject && <Typography variant="subtitle2" gutterBottom>{n.subject}</Typography>}
+                    <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>{n.message}</Typography>
+                  </Box>
+                )}
+              </Paper>
+            ))}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setTimelineDebtor(null)}>{t('app.close')}</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default DunningPage;
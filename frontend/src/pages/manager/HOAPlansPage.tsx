@@ -4,15 +4,27 @@ import {
   TableContainer, TableHead, TableRow, Paper, Dialog, DialogTitle, DialogContent,
   DialogActions, TextField, MenuItem, Chip, Alert, CircularProgress,
   FormControl, InputLabel, Select, IconButton, Tooltip, Stack,
-  useMediaQuery, useTheme, List, ListItem, ListItemText, Divider
+  useMediaQuery, useTheme, List, ListItem, ListItemText, Divider, Switch, FormControlLabel, Checkbox
 } from '@mui/material';
-import { Add, PlayArrow, Edit, Download, Payment, Visibility, Delete } from '@mui/icons-material';
-import { buildingsApi, hoaApi, reportsApi } from '../../api/services';
-import type { BuildingDto, HOAFeePlanDto, UnitChargeDto, CollectionStatusReport, AgingReport, ChargePaymentDto } from '../../types';
-import { HOA_CALC_METHODS, MANUAL_PAYMENT_METHODS } from '../../types';
-import { formatDateOnly } from '../../utils/dateUtils';
+import { Add, PlayArrow, Edit, Download, Payment, Visibility, Delete, MoneyOff, Save, Undo } from '@mui/icons-material';
+import { buildingsApi, hoaApi, reportsApi, accountingApi } from '../../api/services';
+import type { BuildingDto, HOAFeePlanDto, UnitChargeDto, CollectionStatusReport, AgingReport, ChargePaymentDto, LateFeeRuleDto, BillingParty } from '../../types';
+import { HOA_CALC_METHODS, MANUAL_PAYMENT_METHODS, LATE_FEE_TYPES } from '../../types';
+import { formatDateOnly, formatCurrency } from '../../utils/dateUtils';
+import RefundPaymentDialog, { type RefundablePayment } from '../../components/RefundPaymentDialog';
+import ChargeAllocationPreview from '../../components/ChargeAllocationPreview';
 import { useTranslation } from 'react-i18next';
 
+interface LateFeeForm { isEnabled: boolean; feeType: string; amount: string; graceDays: string; maxFeePerCharge: string }
+
+const toLateFeeForm = (r: LateFeeRuleDto): LateFeeForm => ({
+  isEnabled: r.isEnabled,
+  feeType: r.feeType,
+  amount: r.amount ? r.amount.toString() : '',
+  graceDays: r.graceDays.toString(),
+  maxFeePerCharge: r.maxFeePerCharge != null ? r.maxFeePerCharge.toString() : '',
+});
+
 const HOAPlansPage: React.FC = () => {
   const { t } = useTranslation();
   const theme = useTheme();
@@ -22,6 +34,7 @@ const HOAPlansPage: React.FC = () => {
   const [plans, setPlans] = useState<HOAFeePlanDto[]>([]);
   const [charges, setCharges] = useState<UnitChargeDto[]>([]);
   const [period, setPeriod] = useState(new Date().toISOString().slice(0, 7));
+  const [party, setParty] = useState<BillingParty | ''>('');
   const [collectionReport, setCollectionReport] = useState<CollectionStatusReport | null>(null);
   const [agingReport, setAgingReport] = useState<AgingReport | null>(null);
   const [loading, setLoading] = useState(false);
@@ -36,8 +49,11 @@ const HOAPlansPage: React.FC = () => {
 
   // Manual payment state
   const [manualPayDialog, setManualPayDialog] = useState(false);
-  const [manualPayChargeId, setManualPayChargeId] = useState(0);
   const [manualPayCharge, setManualPayCharge] = useState<UnitChargeDto | null>(null);
+  // Open charges of the unit; one payment can settle several, oldest first
+  const [manualPayUnitCharges, setManualPayUnitCharges] = useState<UnitChargeDto[]>([]);
+  const [manualPayChargeIds, setManualPayChargeIds] = useState<number[]>([]);
+  const [manualPayReceipt, setManualPayReceipt] = useState(true);
   const [manualPayForm, setManualPayForm] = useState({ paidAmount: '', paidAt: '', method: 'BankTransfer' as string, reference: '', notes: '' });
 
   // Payments list state
@@ -45,18 +61,32 @@ const HOAPlansPage: React.FC = () => {
   const [paymentsChargeId, setPaymentsChargeId] = useState(0);
   const [chargePayments, setChargePayments] = useState<ChargePaymentDto[]>([]);
   const [paymentsLoading, setPaymentsLoading] = useState(false);
+  const [refundPayment, setRefundPayment] = useState<RefundablePayment | null>(null);
 
   // Edit manual payment state
   const [editPayDialog, setEditPayDialog] = useState(false);
   const [editPayId, setEditPayId] = useState(0);
   const [editPayForm, setEditPayForm] = useState({ paidAmount: '', paidAt: '', method: 'BankTransfer' as string, reference: '', notes: '' });
 
+  // Late fee rule + waiver state
+  const [lateFeeForm, setLateFeeForm] = useState<LateFeeForm>({ isEnabled: false, feeType: 'FixedAmount', amount: '', graceDays: '0', maxFeePerCharge: '' });
+  const [waiveCharge, setWaiveCharge] = useState<UnitChargeDto | null>(null);
+  const [waiveReason, setWaiveReason] = useState('');
+
   useEffect(() => { buildingsApi.getAll().then(r => { setBuildings(r.data); if (r.data.length > 0) setSelectedBuilding(r.data[0].id); }); }, []);
 
-  const loadPlans = useCallback(async () => { if (!selectedBuilding) return; setLoading(true); try { const r = await hoaApi.getPlans(selectedBuilding as number); setPlans(r.data); } finally { setLoading(false); } }, [selectedBuilding]);
-  const loadCharges = useCallback(async () => { if (!selectedBuilding) return; setLoading(true); try { const r = await hoaApi.getCharges({ buildingId: selectedBuilding as number, period }); setCharges(r.data); } finally { setLoading(false); } }, [selectedBuilding, period]);
-  const loadCollectionReport = useCallback(async () => { if (!selectedBuilding) return; setLoading(true); try { const r = await reportsApi.collectionStatus(selectedBuilding as number, period); setCollectionReport(r.data); } finally { setLoading(false); } }, [selectedBuilding, period]);
-  const loadAgingReport = useCallback(async () => { if (!selectedBuilding) return; setLoading(true); try { const r = await reportsApi.aging(selectedBuilding as number); setAgingReport(r.data); } finally { setLoading(false); } }, [selectedBuilding]);
+  const loadPlans = useCallback(async () => {
+    if (!selectedBuilding) return;
+    setLoading(true);
+    try {
+      const [r, rule] = await Promise.all([hoaApi.getPlans(selectedBuilding as number), hoaApi.getLateFeeRule(selectedBuilding as number)]);
+      setPlans(r.data);
+      setLateFeeForm(toLateFeeForm(rule.data));
+    } finally { setLoading(false); }
+  }, [selectedBuilding]);
+  const loadCharges = useCallback(async () => { if (!selectedBuilding) return; setLoading(true); try { const r = await hoaApi.getCharges({ buildingId: selectedBuilding as number, period, party: party || undefined }); setCharges(r.data); } finally { setLoading(false); } }, [selectedBuilding, period, party]);
+  const loadCollectionReport = useCallback(async () => { if (!selectedBuilding) return; setLoading(true); try { const r = await reportsApi.collectionStatus(selectedBuilding as number, period, false, party || undefined); setCollectionReport(r.data); } finally { setLoading(false); } }, [selectedBuilding, period, party]);
+  const loadAgingReport = useCallback(async () => { if (!selectedBuilding) return; setLoading(true); try { const r = await reportsApi.aging(selectedBuilding as number, party || undefined); setAgingReport(r.data); } finally { setLoading(false); } }, [selectedBuilding, party]);
 
   useEffect(() => {
     if (tab === 'plans') loadPlans();
@@ -92,18 +122,99 @@ const HOAPlansPage: React.FC = () => {
     try { await hoaApi.adjustCharge(adjustChargeId, { newAmount: parseFloat(adjustAmount), reason: adjustReason }); setAdjustDialog(false); setMsg(t('hoa.chargeAdjusted')); loadCharges(); } catch { setMsg(t('hoa.errorAdjusting')); }
   };
 
-  const openManualPayment = (charge: UnitChargeDto) => {
-    setManualPayChargeId(charge.id);
+  const saveLateFeeRule = async () => {
+    const amount = parseFloat(lateFeeForm.amount);
+    if (!amount || amount <= 0) { setMsg(t('hoa.errorAmountRequired')); return; }
+    try {
+      const r = await hoaApi.saveLateFeeRule(selectedBuilding as number, {
+        isEnabled: lateFeeForm.isEnabled,
+        feeType: lateFeeForm.feeType,
+        amount,
+        graceDays: parseInt(lateFeeForm.graceDays) || 0,
+        maxFeePerCharge: lateFeeForm.maxFeePerCharge ? parseFloat(lateFeeForm.maxFeePerCharge) : undefined,
+      });
+      setLateFeeForm(toLateFeeForm(r.data));
+      setMsg(t('hoa.lateFeeRuleSaved'));
+    } catch (err: unknown) {
+      let detail = '';
+      if (err && typeof err === 'object' && 'response' in err) {
+        const resp = (err as { response?: { data?: { message?: string; errors?: Record<string, string[]> } } }).response;
+        if (resp?.data?.message) detail = resp.data.message;
+        else if (resp?.data?.errors) detail = Object.values(resp.data.errors).flat().join('; ');
+      }
+      setMsg(t('hoa.errorSaving') + (detail ? ` – ${detail}` : ''));
+    }
+  };
+
+  const runLateFees = async () => {
+    try {
+      const r = await hoaApi.runLateFees(selectedBuilding as number);
+      setMsg(t('hoa.lateFeesApplied', { overdue: r.data.chargesMarkedOverdue, count: r.data.feesCreated, total: r.data.totalFees.toFixed(2) }));
+    } catch { setMsg(t('hoa.errorLateFees')); }
+  };
+
+  const handleWaive = async () => {
+    if (!waiveCharge || !waiveReason.trim()) return;
+    try {
+      await hoaApi.waiveCharge(waiveCharge.id, waiveReason.trim());
+      setWaiveCharge(null);
+      setMsg(t('hoa.lateFeeWaived'));
+      loadCharges();
+    } catch (err: unknown) {
+      let detail = '';
+      if (err && typeof err === 'object' && 'response' in err) {
+        const resp = (err as { response?: { data?: { message?: string } } }).response;
+        if (resp?.data?.message) detail = resp.data.message;
+      }
+      setMsg(t('hoa.errorWaiving') + (detail ? ` – ${detail}` : ''));
+    }
+  };
+
+  const canWaive = (c: UnitChargeDto) => c.chargeType === 'LateFee' && !c.waivedAtUtc && c.balance > 0;
+  const openWaive = (c: UnitChargeDto) => { setWaiveCharge(c); setWaiveReason(''); };
+
+  const chargeTypeChips = (c: UnitChargeDto) => (
+    <>
+      {c.chargeType === 'SpecialAssessment' && <Chip label={t('hoa.specialAssessment')} size="small" color="info" variant="outlined" sx={{ ml: 0.5 }} />}
+      {c.chargeType === 'LateFee' && <Chip label={t('hoa.lateFee')} size="small" color="warning" variant="outlined" sx={{ ml: 0.5 }} />}
+      {c.waivedAtUtc && (
+        <Tooltip title={c.waiverReason || ''}><Chip label={t('hoa.waived')} size="small" sx={{ ml: 0.5 }} /></Tooltip>
+      )}
+      {c.party === 'Owner' && <Chip label={t('enums.billingParty.Owner')} size="small" variant="outlined" sx={{ ml: 0.5 }} />}
+    </>
+  );
+
+  const manualPaySelected = manualPayUnitCharges.filter(c => manualPayChargeIds.includes(c.id));
+  const manualPaySelectedBalance = manualPaySelected.reduce((sum, c) => sum + c.balance, 0);
+
+  const openManualPayment = async (charge: UnitChargeDto) => {
     setManualPayCharge(charge);
+    setManualPayUnitCharges([charge]);
+    setManualPayChargeIds([charge.id]);
+    setManualPayReceipt(true);
     setManualPayForm({ paidAmount: charge.balance > 0 ? charge.balance.toFixed(2) : '', paidAt: new Date().toISOString().slice(0, 16), method: 'BankTransfer', reference: '', notes: '' });
     setManualPayDialog(true);
+    try {
+      const r = await hoaApi.getChargesForUnit(charge.unitId, charge.party);
+      setManualPayUnitCharges(r.data.filter(c => c.balance > 0 && c.status !== 'Cancelled')
+        .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.id - b.id));
+    } catch { /* the clicked charge alone can still be paid */ }
+  };
+
+  const toggleManualPayCharge = (id: number) => {
+    const ids = manualPayChargeIds.includes(id) ? manualPayChargeIds.filter(x => x !== id) : [...manualPayChargeIds, id];
+    setManualPayChargeIds(ids);
+    const balance = manualPayUnitCharges.filter(c => ids.includes(c.id)).reduce((sum, c) => sum + c.balance, 0);
+    setManualPayForm(f => ({ ...f, paidAmount: balance > 0 ? balance.toFixed(2) : '' }));
   };
 
   const handleManualPayment = async () => {
     const amount = parseFloat(manualPayForm.paidAmount);
     if (!amount || amount <= 0) { setMsg(t('hoa.errorAmountRequired')); return; }
+    if (!manualPayCharge || manualPayChargeIds.length === 0) { setMsg(t('hoa.errorNoChargesSelected')); return; }
     try {
-      await hoaApi.addManualPayment(manualPayChargeId, {
+      const r = await hoaApi.addUnitManualPayment(manualPayCharge.unitId, {
+        unitChargeIds: manualPayChargeIds,
         paidAmount: amount,
         paidAt: manualPayForm.paidAt || undefined,
         method: manualPayForm.method,
@@ -111,7 +222,17 @@ const HOAPlansPage: React.FC = () => {
         notes: manualPayForm.notes || undefined,
       });
       setManualPayDialog(false);
-      setMsg(t('hoa.manualPaymentSaved'));
+      let receiptNote = '';
+      if (manualPayReceipt) {
+        try {
+          const receipt = await accountingApi.issueReceipt(r.data.paymentId);
+          receiptNote = ` ${t('hoa.receiptIssued', { number: receipt.data.docNumber })}`;
+        } catch (err) {
+          const detail = (err as { response?: { data?: { message?: string } } })?.response?.data?.message;
+          receiptNote = ` ${t('hoa.receiptFailed')}${detail ? ` – ${detail}` : ''}`;
+        }
+      }
+      setMsg(t('hoa.manualPaymentSavedFor', { periods: r.data.allocations.map(a => a.period).join(', ') }) + receiptNote);
       loadCharges();
     } catch (err: unknown) {
       let detail = '';
@@ -185,8 +306,8 @@ const HOAPlansPage: React.FC = () => {
     try {
       const lang = localStorage.getItem('lang') || 'he';
       const r = type === 'collection'
-        ? await reportsApi.collectionStatusCsv(selectedBuilding as number, period, false, lang)
-        : await reportsApi.agingCsv(selectedBuilding as number, lang);
+        ? await reportsApi.collectionStatusCsv(selectedBuilding as number, period, false, lang, party || undefined)
+        : await reportsApi.agingCsv(selectedBuilding as number, lang, party || undefined);
       const url = window.URL.createObjectURL(new Blob([r.data]));
       const a = document.createElement('a'); a.href = url; a.download = `${type}-report-${selectedBuilding}.csv`; a.click();
     } catch { setMsg(t('hoa.errorCsv')); }
@@ -212,6 +333,13 @@ const HOAPlansPage: React.FC = () => {
           </Select>
         </FormControl>
         <TextField label={t('hoa.period')} type="month" value={period} onChange={e => setPeriod(e.target.value)} InputLabelProps={{ shrink: true }} size="small" />
+        {tab !== 'plans' && (
+          <TextField select label={t('billing.payerParty')} value={party} onChange={e => setParty(e.target.value as BillingParty | '')} size="small" sx={{ minWidth: 140 }}>
+            <MenuItem value="">{t('billing.allParties')}</MenuItem>
+            <MenuItem value="Resident">{t('enums.billingParty.Resident')}</MenuItem>
+            <MenuItem value="Owner">{t('enums.billingParty.Owner')}</MenuItem>
+          </TextField>
+        )}
         <Box sx={{ display: 'flex', gap: 1 }}>
           {(['plans', 'charges', 'collection', 'aging'] as const).map(t2 => (
             <Button key={t2} variant={tab === t2 ? 'contained' : 'outlined'} size="small" onClick={() => setTab(t2)}>{tabLabels[t2]}</Button>
@@ -285,6 +413,38 @@ const HOAPlansPage: React.FC = () => {
         </CardContent></Card>
       )}
 
+      {tab === 'plans' && selectedBuilding && (
+        <Card sx={{ mt: 2 }}><CardContent>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1, flexWrap: 'wrap', gap: 1 }}>
+            <Typography variant="h6">{t('hoa.lateFees')}</Typography>
+            <FormControlLabel label={t('hoa.lateFeesEnabled')}
+              control={<Switch checked={lateFeeForm.isEnabled} onChange={e => setLateFeeForm(f => ({ ...f, isEnabled: e.target.checked }))} />} />
+          </Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>{t('hoa.lateFeesHint')}</Typography>
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'flex-start' }}>
+            <FormControl size="small" sx={{ minWidth: 200 }}>
+              <InputLabel>{t('hoa.lateFeeType')}</InputLabel>
+              <Select value={lateFeeForm.feeType} label={t('hoa.lateFeeType')} onChange={e => setLateFeeForm(f => ({ ...f, feeType: e.target.value }))}>
+                {LATE_FEE_TYPES.map(ft => <MenuItem key={ft} value={ft}>{t(`enums.lateFeeType.${ft}`, ft)}</MenuItem>)}
+              </Select>
+            </FormControl>
+            <TextField size="small" type="number" label={lateFeeForm.feeType === 'MonthlyPercentage' ? t('hoa.lateFeePercent') : t('hoa.lateFeeAmount')}
+              value={lateFeeForm.amount} onChange={e => setLateFeeForm(f => ({ ...f, amount: e.target.value }))}
+              inputProps={{ min: 0.01, step: 0.01 }} sx={{ width: 160 }} />
+            <TextField size="small" type="number" label={t('hoa.graceDays')}
+              value={lateFeeForm.graceDays} onChange={e => setLateFeeForm(f => ({ ...f, graceDays: e.target.value }))}
+              inputProps={{ min: 0, max: 365 }} sx={{ width: 140 }} />
+            <TextField size="small" type="number" label={t('hoa.lateFeeCap')} helperText={t('hoa.lateFeeCapHint')}
+              value={lateFeeForm.maxFeePerCharge} onChange={e => setLateFeeForm(f => ({ ...f, maxFeePerCharge: e.target.value }))}
+              inputProps={{ min: 0.01, step: 0.01 }} sx={{ width: 180 }} />
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+            <Button variant="contained" size="small" startIcon={<Save />} onClick={saveLateFeeRule}>{t('app.save')}</Button>
+            <Button variant="outlined" size="small" startIcon={<PlayArrow />} onClick={runLateFees} disabled={!lateFeeForm.isEnabled}>{t('hoa.runLateFees')}</Button>
+          </Box>
+        </CardContent></Card>
+      )}
+
       {tab === 'charges' && selectedBuilding && (
         <Card><CardContent>
           <Typography variant="h6" gutterBottom>{t('hoa.charges', { period })}</Typography>
@@ -294,9 +454,10 @@ const HOAPlansPage: React.FC = () => {
                 <Card key={c.id} variant="outlined">
                   <CardContent sx={{ py: 1.5, px: 2, '&:last-child': { pb: 1.5 } }}>
                     <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
-                      <Typography variant="subtitle2">{c.unitNumber} · {c.tenantName || '—'}</Typography>
+                      <Typography variant="subtitle2">{c.unitNumber} · {c.tenantName || '—'}{chargeTypeChips(c)}</Typography>
                       <Chip label={t(`enums.chargeStatus.${c.status}`, c.status)} size="small" color={c.status === 'Paid' ? 'success' : c.status === 'Overdue' ? 'error' : c.status === 'PartiallyPaid' ? 'warning' : 'default'} />
                     </Box>
+                    {c.description && <Typography variant="caption" color="text.secondary" component="div">{c.description}</Typography>}
                     <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                       <Typography variant="body2">{t('hoa.due')}: {c.amountDue.toFixed(2)}</Typography>
                       <Typography variant="body2">{t('hoa.paid')}: {c.amountPaid.toFixed(2)}</Typography>
@@ -306,6 +467,7 @@ const HOAPlansPage: React.FC = () => {
                       <Button size="small" variant="outlined" startIcon={<Edit />} onClick={() => { setAdjustChargeId(c.id); setAdjustAmount(c.amountDue.toString()); setAdjustReason(''); setAdjustDialog(true); }}>{t('hoa.adjustAmount')}</Button>
                       {c.balance > 0 && <Button size="small" variant="contained" color="primary" startIcon={<Payment />} onClick={() => openManualPayment(c)}>{t('hoa.manualPayment')}</Button>}
                       <Button size="small" variant="outlined" color="info" startIcon={<Visibility />} onClick={() => openChargePayments(c.id)}>{t('hoa.viewPayments')}</Button>
+                      {canWaive(c) && <Button size="small" variant="outlined" color="warning" startIcon={<MoneyOff />} onClick={() => openWaive(c)}>{t('hoa.waive')}</Button>}
                     </Box>
                   </CardContent>
                 </Card>
@@ -323,7 +485,11 @@ const HOAPlansPage: React.FC = () => {
                 <TableBody>
                   {charges.map(c => (
                     <TableRow key={c.id}>
-                      <TableCell>{c.unitNumber}</TableCell><TableCell>{c.floor}</TableCell><TableCell>{c.tenantName || '—'}</TableCell>
+                      <TableCell>
+                        {c.unitNumber}{chargeTypeChips(c)}
+                        {c.description && <Typography variant="caption" color="text.secondary" component="div">{c.description}</Typography>}
+                      </TableCell>
+                      <TableCell>{c.floor}</TableCell><TableCell>{c.tenantName || '—'}</TableCell>
                       <TableCell align="right">{c.amountDue.toFixed(2)}</TableCell><TableCell align="right">{c.amountPaid.toFixed(2)}</TableCell>
                       <TableCell align="right" sx={{ fontWeight: 'bold', color: c.balance > 0 ? 'error.main' : 'success.main' }}>{c.balance.toFixed(2)}</TableCell>
                       <TableCell><Chip label={t(`enums.chargeStatus.${c.status}`, c.status)} size="small" color={c.status === 'Paid' ? 'success' : c.status === 'Overdue' ? 'error' : c.status === 'PartiallyPaid' ? 'warning' : 'default'} /></TableCell>
@@ -331,6 +497,7 @@ const HOAPlansPage: React.FC = () => {
                         <Tooltip title={t('hoa.adjustAmount')}><IconButton size="small" onClick={() => { setAdjustChargeId(c.id); setAdjustAmount(c.amountDue.toString()); setAdjustReason(''); setAdjustDialog(true); }}><Edit /></IconButton></Tooltip>
                         {c.balance > 0 && <Tooltip title={t('hoa.manualPayment')}><IconButton size="small" color="primary" onClick={() => openManualPayment(c)}><Payment /></IconButton></Tooltip>}
                         <Tooltip title={t('hoa.viewPayments')}><IconButton size="small" color="info" onClick={() => openChargePayments(c.id)}><Visibility /></IconButton></Tooltip>
+                        {canWaive(c) && <Tooltip title={t('hoa.waive')}><IconButton size="small" color="warning" onClick={() => openWaive(c)}><MoneyOff /></IconButton></Tooltip>}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -484,18 +651,49 @@ const HOAPlansPage: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      {/* Waive Late Fee Dialog */}
+      <Dialog open={!!waiveCharge} onClose={() => setWaiveCharge(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('hoa.waiveLateFee')}</DialogTitle>
+        <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          {waiveCharge && (
+            <Alert severity="info">
+              {t('hoa.unitCol')}: {waiveCharge.unitNumber} — {waiveCharge.description} — {t('hoa.balance')}: <b>{waiveCharge.balance.toFixed(2)}</b>
+            </Alert>
+          )}
+          <TextField label={t('hoa.reason')} value={waiveReason} onChange={e => setWaiveReason(e.target.value)} multiline rows={2} required
+            inputProps={{ maxLength: 500 }} />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setWaiveCharge(null)}>{t('app.cancel')}</Button>
+          <Button variant="contained" color="warning" onClick={handleWaive} disabled={!waiveReason.trim()}>{t('hoa.waive')}</Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Manual Payment Dialog */}
       <Dialog open={manualPayDialog} onClose={() => setManualPayDialog(false)} maxWidth="sm" fullWidth fullScreen={isMobile}>
         <DialogTitle>{t('hoa.manualPayment')}</DialogTitle>
         <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
           {manualPayCharge && (
             <Alert severity="info" sx={{ mb: 1 }}>
-              {t('hoa.unitCol')}: {manualPayCharge.unitNumber} · {manualPayCharge.tenantName || '—'} — {t('hoa.balance')}: <b>{manualPayCharge.balance.toFixed(2)}</b>
+              {t('hoa.unitCol')}: {manualPayCharge.unitNumber} · {manualPayCharge.tenantName || '—'} — {t('hoa.balance')}: <b>{manualPaySelectedBalance.toFixed(2)}</b>
             </Alert>
           )}
+          {manualPayUnitCharges.length > 1 && (
+            <Box>
+              <Typography variant="subtitle2">{t('hoa.chargesToPay')}</Typography>
+              {manualPayUnitCharges.map(c => (
+                <FormControlLabel key={c.id} sx={{ display: 'flex' }}
+                  control={<Checkbox size="small" checked={manualPayChargeIds.includes(c.id)} onChange={() => toggleManualPayCharge(c.id)} />}
+                  label={`${c.period} · ${t(`enums.unitChargeType.${c.chargeType}`, c.chargeType)} · ${formatCurrency(c.balance)}`} />
+              ))}
+            </Box>
+          )}
           <TextField label={t('hoa.paidAmount')} type="number" value={manualPayForm.paidAmount}
             onChange={e => setManualPayForm(f => ({ ...f, paidAmount: e.target.value }))} required
-            inputProps={{ min: 0.01, step: 0.01 }} />
+            inputProps={{ min: 0.01, step: 0.01 }}
+            error={parseFloat(manualPayForm.paidAmount) > manualPaySelectedBalance + 0.001}
+            helperText={parseFloat(manualPayForm.paidAmount) > manualPaySelectedBalance + 0.001 ? t('hoa.amountAboveSelected') : undefined} />
+          <ChargeAllocationPreview charges={manualPaySelected} amount={parseFloat(manualPayForm.paidAmount) || 0} />
           <TextField label={t('hoa.paymentDate')} type="datetime-local" value={manualPayForm.paidAt}
             onChange={e => setManualPayForm(f => ({ ...f, paidAt: e.target.value }))}
             InputLabelProps={{ shrink: true }} />
@@ -512,10 +710,11 @@ const HOAPlansPage: React.FC = () => {
           <TextField label={t('hoa.notes')} value={manualPayForm.notes}
             onChange={e => setManualPayForm(f => ({ ...f, notes: e.target.value }))}
             multiline rows={2} />
+          <FormControlLabel control={<Checkbox checked={manualPayReceipt} onChange={e => setManualPayReceipt(e.target.checked)} />} label={t('hoa.issueReceipt')} />
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setManualPayDialog(false)}>{t('app.cancel')}</Button>
-          <Button variant="contained" onClick={handleManualPayment}>{t('app.save')}</Button>
+          <Button variant="contained" onClick={handleManualPayment} disabled={manualPayChargeIds.length === 0}>{t('app.save')}</Button>
         </DialogActions>
       </Dialog>
 
@@ -531,12 +730,24 @@ const HOAPlansPage: React.FC = () => {
                 <React.Fragment key={p.id}>
                   {idx > 0 && <Divider />}
                   <ListItem
-                    secondaryAction={p.isManual && p.status !== 'Cancelled' ? (
+                    secondaryAction={
                       <Box>
-                        <Tooltip title={t('app.edit')}><IconButton size="small" onClick={() => openEditPayment(p)}><Edit /></IconButton></Tooltip>
-                        <Tooltip title={t('app.delete')}><IconButton size="small" color="error" onClick={() => handleDeletePayment(p.id)}><Delete /></IconButton></Tooltip>
+                        {p.status === 'Succeeded' && p.paymentAmount > p.refundedAmount && (
+                          <Tooltip title={t('refunds.refund')}>
+                            <IconButton size="small" color="warning" onClick={() => setRefundPayment({
+                              id: p.id, amount: p.paymentAmount, refundedAmount: p.refundedAmount, isManual: p.isManual,
+                              paymentDateUtc: p.paymentDateUtc, providerReference: p.providerReference,
+                            })}><Undo /></IconButton>
+                          </Tooltip>
+                        )}
+                        {p.isManual && p.status !== 'Cancelled' && p.refundedAmount === 0 && (
+                          <>
+                            <Tooltip title={t('app.edit')}><IconButton size="small" onClick={() => openEditPayment(p)}><Edit /></IconButton></Tooltip>
+                            <Tooltip title={t('app.delete')}><IconButton size="small" color="error" onClick={() => handleDeletePayment(p.id)}><Delete /></IconButton></Tooltip>
+                          </>
+                        )}
                       </Box>
-                    ) : undefined}
+                    }
                   >
                     <ListItemText
                       primary={
@@ -545,6 +756,10 @@ const HOAPlansPage: React.FC = () => {
                           <Chip label={p.isManual ? t(`enums.manualPayMethod.${p.manualMethodType}`, p.manualMethodType || 'Manual') : t('hoa.card')} size="small" variant="outlined" />
                           <Chip label={t(`enums.paymentStatus.${p.status}`, p.status)} size="small"
                             color={p.status === 'Succeeded' ? 'success' : p.status === 'Cancelled' ? 'error' : 'default'} />
+                          {p.refundedAmount > 0 && (
+                            <Chip size="small" color="warning" variant="outlined" label={t('refunds.refundedChip', { amount: formatCurrency(p.refundedAmount) })} />
+                          )}
+                          {p.hasOpenChargeback && <Chip size="small" color="error" label={t('refunds.openChargeback')} />}
                         </Box>
                       }
                       secondary={
@@ -567,6 +782,9 @@ const HOAPlansPage: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      <RefundPaymentDialog payment={refundPayment} onClose={() => setRefundPayment(null)}
+        onRefunded={() => { setRefundPayment(null); setMsg(t('refunds.refunded')); openChargePayments(paymentsChargeId); loadCharges(); }} />
+
       {/* Edit Manual Payment Dialog */}
       <Dialog open={editPayDialog} onClose={() => setEditPayDialog(false)} maxWidth="sm" fullWidth>
         <DialogTitle>{t('hoa.editManualPayment')}</DialogTitle>
@@ -2,15 +2,17 @@ import React, { useState, useEffect, useCallback } from 'react';
 import {
   Typography, Box, Card, CardContent, TextField, MenuItem, Button, Alert,
   CircularProgress, Table, TableBody, TableCell, TableContainer, TableHead,
-  TableRow, Paper, Stack, useMediaQuery, useTheme, FormControl, InputLabel, Select
+  TableRow, Paper, Stack, useMediaQuery, useTheme, FormControl, InputLabel, Select, Tabs, Tab
 } from '@mui/material';
 import { Download, TrendingUp, TrendingDown, AccountBalance } from '@mui/icons-material';
 import {
   PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis,
   CartesianGrid, Tooltip, Legend
 } from 'recharts';
+import { useNavigate } from 'react-router-dom';
 import { buildingsApi, reportsApi } from '../../api/services';
-import type { BuildingDto, IncomeExpensesReport } from '../../types';
+import type { BuildingDto, IncomeExpensesReport, BudgetVsActualReport, BudgetVarianceLine } from '../../types';
+import { formatCurrency } from '../../utils/dateUtils';
 import { useTranslation } from 'react-i18next';
 
 const INCOME_COLORS = ['#1a56a0', '#2d6fbe', '#4a8fd4', '#7bb3e8'];
@@ -20,6 +22,10 @@ const IncomeExpensesPage: React.FC = () => {
   const { t, i18n } = useTranslation();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const navigate = useNavigate();
+  const currentYear = new Date().getFullYear();
+
+  const [tab, setTab] = useState(0);
 
   const [buildings, setBuildings] = useState<BuildingDto[]>([]);
   const [selectedBuilding, setSelectedBuilding] = useState<number | ''>('');
@@ -31,6 +37,8 @@ const IncomeExpensesPage: React.FC = () => {
   const [report, setReport] = useState<IncomeExpensesReport | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [budgetYear, setBudgetYear] = useState(currentYear);
+  const [variance, setVariance] = useState<BudgetVsActualReport | null>(null);
 
   useEffect(() => { buildingsApi.getAll().then(r => { setBuildings(r.data); if (r.data.length > 0) setSelectedBuilding(r.data[0].id); }); }, []);
 
@@ -44,7 +52,19 @@ const IncomeExpensesPage: React.FC = () => {
     finally { setLoading(false); }
   }, [selectedBuilding, fromDate, toDate, t]);
 
-  useEffect(() => { if (selectedBuilding) loadReport(); }, [selectedBuilding, loadReport]);
+  useEffect(() => { if (selectedBuilding && tab === 0) loadReport(); }, [selectedBuilding, tab, loadReport]);
+
+  const loadVariance = useCallback(async () => {
+    if (!selectedBuilding) return;
+    setLoading(true); setError('');
+    try {
+      const r = await reportsApi.budgetVsActual(selectedBuilding as number, budgetYear);
+      setVariance(r.data);
+    } catch { setError(t('incomeExpenses.errorLoading')); }
+    finally { setLoading(false); }
+  }, [selectedBuilding, budgetYear, t]);
+
+  useEffect(() => { if (selectedBuilding && tab === 1) loadVariance(); }, [selectedBuilding, tab, loadVariance]);
 
   const handleExportCsv = async () => {
     if (!selectedBuilding) return;
@@ -59,6 +79,19 @@ const IncomeExpensesPage: React.FC = () => {
 
   const translateCategory = (cat: string) => t(`enums.finCategory.${cat}`, cat);
 
+  const varianceRows = (label: string, lines: BudgetVarianceLine[]) => lines.map(l => (
+    <TableRow key={`${label}-${l.category}`}>
+      <TableCell>{label}</TableCell>
+      <TableCell>{translateCategory(l.category)}</TableCell>
+      <TableCell align="right">{formatCurrency(l.budget)}</TableCell>
+      <TableCell align="right">{formatCurrency(l.actual)}</TableCell>
+      <TableCell align="right" sx={{ fontWeight: 600, color: l.variance >= 0 ? 'success.main' : 'error.main' }}>
+        {l.variance > 0 ? '+' : ''}{formatCurrency(l.variance)}
+      </TableCell>
+      <TableCell align="right">{l.budget > 0 ? `${Math.round((l.actual / l.budget) * 100)}%` : '—'}</TableCell>
+    </TableRow>
+  ));
+
   // Combine income + expense by category for table
   const allCategories = [
     ...(report?.incomeByCategory || []).map(c => ({ ...c, type: 'income' as const })),
@@ -72,6 +105,11 @@ const IncomeExpensesPage: React.FC = () => {
       </Typography>
       {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
 
+      <Tabs value={tab} onChange={(_, v) => setTab(v)} sx={{ mb: 2 }} variant="scrollable" scrollButtons="auto">
+        <Tab label={t('incomeExpenses.actualTab')} />
+        <Tab label={t('incomeExpenses.budgetTab')} />
+      </Tabs>
+
       {/* Filters */}
       <Box sx={{ display: 'flex', gap: 2, mb: 3, flexWrap: 'wrap', alignItems: 'center' }}>
         <FormControl sx={{ minWidth: 200 }} size="small">
@@ -81,18 +119,101 @@ const IncomeExpensesPage: React.FC = () => {
             {buildings.map(b => <MenuItem key={b.id} value={b.id}>{b.name}</MenuItem>)}
           </Select>
         </FormControl>
-        <TextField label={t('incomeExpenses.from')} type="date" value={fromDate}
-          onChange={e => setFromDate(e.target.value)} size="small" InputLabelProps={{ shrink: true }} />
-        <TextField label={t('incomeExpenses.to')} type="date" value={toDate}
-          onChange={e => setToDate(e.target.value)} size="small" InputLabelProps={{ shrink: true }} />
-        <Button variant="outlined" startIcon={<Download />} onClick={handleExportCsv}
-          disabled={!selectedBuilding} size="small">{t('app.exportCsv')}</Button>
+        {tab === 0 ? (
+          <>
+            <TextField label={t('incomeExpenses.from')} type="date" value={fromDate}
+              onChange={e => setFromDate(e.target.value)} size="small" InputLabelProps={{ shrink: true }} />
+            <TextField label={t('incomeExpenses.to')} type="date" value={toDate}
+              onChange={e => setToDate(e.target.value)} size="small" InputLabelProps={{ shrink: true }} />
+            <Button variant="outlined" startIcon={<Download />} onClick={handleExportCsv}
+              disabled={!selectedBuilding} size="small">{t('app.exportCsv')}</Button>
+          </>
+        ) : (
+          <>
+            <TextField select label={t('budget.year')} value={budgetYear} size="small" sx={{ minWidth: 120 }}
+              onChange={e => setBudgetYear(Number(e.target.value))}>
+              {[currentYear - 1, currentYear, currentYear + 1].map(y => <MenuItem key={y} value={y}>{y}</MenuItem>)}
+            </TextField>
+            <Button variant="outlined" size="small" onClick={() => navigate('/budget')}>{t('incomeExpenses.editBudget')}</Button>
+          </>
+        )}
       </Box>
 
       {!selectedBuilding && <Typography color="text.secondary">{t('incomeExpenses.selectBuilding')}</Typography>}
       {loading && <CircularProgress sx={{ mb: 2 }} />}
 
-      {report && !loading && (
+      {tab === 1 && variance && !loading && (
+        <>
+          {!variance.budgetStatus && <Alert severity="info" sx={{ mb: 2 }}>{t('incomeExpenses.noBudget', { year: variance.year })}</Alert>}
+          {variance.budgetStatus === 'Draft' && <Alert severity="warning" sx={{ mb: 2 }}>{t('incomeExpenses.draftBudget')}</Alert>}
+
+          <Box sx={{ display: 'flex', gap: isMobile ? 1 : 2, mb: 3, flexWrap: 'wrap' }}>
+            {[
+              // Variance is signed so that positive is favourable, as in the category table
+              { label: t('incomeExpenses.income'), budget: variance.budgetIncome, actual: variance.actualIncome, variance: variance.actualIncome - variance.budgetIncome },
+              { label: t('incomeExpenses.expenses'), budget: variance.budgetExpenses, actual: variance.actualExpenses, variance: variance.budgetExpenses - variance.actualExpenses },
+            ].map(card => (
+              <Card key={card.label} variant="outlined" sx={{ flex: isMobile ? '1 1 100%' : '1 1 0' }}>
+                <CardContent sx={{ p: isMobile ? 2 : 2.5 }}>
+                  <Typography variant="subtitle1" fontWeight={600}>{card.label}</Typography>
+                  <Box sx={{ display: 'flex', gap: 3, mt: 1, flexWrap: 'wrap' }}>
+                    <Typography variant="body2">{t('incomeExpenses.budget')}: <b>{formatCurrency(card.budget)}</b></Typography>
+                    <Typography variant="body2">{t('incomeExpenses.actual')}: <b>{formatCurrency(card.actual)}</b></Typography>
+                    <Typography variant="body2" color={card.variance >= 0 ? 'success.main' : 'error.main'}>
+                      {t('incomeExpenses.variance')}: <b>{card.variance > 0 ? '+' : ''}{formatCurrency(card.variance)}</b>
+                    </Typography>
+                  </Box>
+                </CardContent>
+              </Card>
+            ))}
+          </Box>
+
+          <Card sx={{ mb: 3 }}>
+            <CardContent>
+              <Typography variant="subtitle1" fontWeight={600} gutterBottom>{t('incomeExpenses.monthlyBudgetVsActual')}</Typography>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={variance.months}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" fontSize={12} />
+                  <YAxis fontSize={12} />
+                  <Tooltip formatter={(v: number | undefined) => (v ?? 0).toFixed(2)} />
+                  <Legend />
+                  <Bar dataKey="budgetExpenses" name={t('incomeExpenses.budgetExpenses')} fill="#f7c58a" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="actualExpenses" name={t('incomeExpenses.actualExpenses')} fill="#f5911e" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="budgetIncome" name={t('incomeExpenses.budgetIncome')} fill="#9bbfe6" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="actualIncome" name={t('incomeExpenses.actualIncome')} fill="#1a56a0" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent>
+              <Typography variant="subtitle1" fontWeight={600} gutterBottom>{t('incomeExpenses.varianceByCategory')}</Typography>
+              <TableContainer component={Paper} variant="outlined">
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>{t('incomeExpenses.type')}</TableCell>
+                      <TableCell>{t('incomeExpenses.category')}</TableCell>
+                      <TableCell align="right">{t('incomeExpenses.budget')}</TableCell>
+                      <TableCell align="right">{t('incomeExpenses.actual')}</TableCell>
+                      <TableCell align="right">{t('incomeExpenses.variance')}</TableCell>
+                      <TableCell align="right">{t('incomeExpenses.usedPercent')}</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {varianceRows(t('incomeExpenses.income'), variance.incomeByCategory)}
+                    {varianceRows(t('incomeExpenses.expenses'), variance.expensesByCategory)}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {tab === 0 && report && !loading && (
         <>
           {/* Summary Cards */}
           <Box sx={{ display: 'flex', gap: isMobile ? 1 : 2, mb: 3, flexWrap: 'wrap' }}>
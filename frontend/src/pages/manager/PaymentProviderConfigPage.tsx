@@ -3,12 +3,13 @@ import {
   Box, Typography, Paper, Table, TableHead, TableRow, TableCell, TableBody,
   Button, Dialog, DialogTitle, DialogContent, DialogActions, TextField,
   MenuItem, Select, FormControl, InputLabel, Chip, IconButton, Alert,
-  FormGroup, FormControlLabel, Checkbox, Tooltip
+  FormGroup, FormControlLabel, Checkbox, Tooltip, CircularProgress, List, ListItem, ListItemIcon, ListItemText
 } from '@mui/material';
-import { Add, Edit, Delete, Security, Lock } from '@mui/icons-material';
+import { Add, Edit, Delete, Security, Lock, NetworkCheck, CheckCircle, Cancel } from '@mui/icons-material';
 import { paymentConfigApi, buildingsApi } from '../../api/services';
-import type { PaymentProviderConfigDto, BuildingDto } from '../../types';
-import { PAYMENT_PROVIDERS, PROVIDER_FEATURES } from '../../types';
+import type { PaymentProviderConfigDto, BuildingDto, PaymentProviderTestResultDto, PaymentSimulatorScenario } from '../../types';
+import { PAYMENT_PROVIDERS, PROVIDER_FEATURES, PAYMENT_SIMULATOR_SCENARIOS } from '../../types';
+import { formatDateLocal } from '../../utils/dateUtils';
 import { useTranslation } from 'react-i18next';
 
 const FEATURE_LIST = Object.entries(PROVIDER_FEATURES) as [string, number][];
@@ -20,20 +21,22 @@ const PaymentProviderConfigPage: React.FC = () => {
   const [buildings, setBuildings] = useState<BuildingDto[]>([]);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editId, setEditId] = useState<number | null>(null);
-  const [form, setForm] = useState({ buildingId: '' as string, providerType: 'Fake', merchantIdRef: '', terminalIdRef: '', apiUserRef: '', apiPasswordRef: '', webhookSecretRef: '', supportedFeatures: ALL_FEATURES, currency: 'ILS', baseUrl: '' });
+  const [form, setForm] = useState({ buildingId: '' as string, providerType: 'Fake', merchantIdRef: '', terminalIdRef: '', apiUserRef: '', apiPasswordRef: '', webhookSecretRef: '', supportedFeatures: ALL_FEATURES, currency: 'ILS', baseUrl: '', simulatorScenario: 'Approve' as PaymentSimulatorScenario, simulatorDelaySeconds: 10 });
   const [error, setError] = useState('');
+  const [testingId, setTestingId] = useState<number | null>(null);
+  const [testResult, setTestResult] = useState<PaymentProviderTestResultDto | null>(null);
 
   const load = async () => { const [c, b] = await Promise.all([paymentConfigApi.getAll(), buildingsApi.getAll()]); setConfigs(c.data); setBuildings(b.data); };
   useEffect(() => { load(); }, []);
 
-  const resetForm = () => { setForm({ buildingId: '', providerType: 'Fake', merchantIdRef: '', terminalIdRef: '', apiUserRef: '', apiPasswordRef: '', webhookSecretRef: '', supportedFeatures: ALL_FEATURES, currency: 'ILS', baseUrl: '' }); setEditId(null); setError(''); };
+  const resetForm = () => { setForm({ buildingId: '', providerType: 'Fake', merchantIdRef: '', terminalIdRef: '', apiUserRef: '', apiPasswordRef: '', webhookSecretRef: '', supportedFeatures: ALL_FEATURES, currency: 'ILS', baseUrl: '', simulatorScenario: 'Approve', simulatorDelaySeconds: 10 }); setEditId(null); setError(''); };
   const openCreate = () => { resetForm(); setDialogOpen(true); };
-  const openEdit = (c: PaymentProviderConfigDto) => { setForm({ buildingId: c.buildingId?.toString() ?? '', providerType: c.providerType, merchantIdRef: c.merchantIdRef ?? '', terminalIdRef: c.terminalIdRef ?? '', apiUserRef: c.apiUserRef ?? '', apiPasswordRef: c.apiPasswordRef ?? '', webhookSecretRef: c.webhookSecretRef ?? '', supportedFeatures: c.supportedFeatures, currency: c.currency, baseUrl: c.baseUrl ?? '' }); setEditId(c.id); setDialogOpen(true); };
+  const openEdit = (c: PaymentProviderConfigDto) => { setForm({ buildingId: c.buildingId?.toString() ?? '', providerType: c.providerType, merchantIdRef: c.merchantIdRef ?? '', terminalIdRef: c.terminalIdRef ?? '', apiUserRef: c.apiUserRef ?? '', apiPasswordRef: c.apiPasswordRef ?? '', webhookSecretRef: c.webhookSecretRef ?? '', supportedFeatures: c.supportedFeatures, currency: c.currency, baseUrl: c.baseUrl ?? '', simulatorScenario: c.simulatorScenario, simulatorDelaySeconds: c.simulatorDelaySeconds }); setEditId(c.id); setDialogOpen(true); };
 
   const handleSave = async () => {
     try {
       const features = form.supportedFeatures | getMandatoryFeatures(form.providerType);
-      const data = { buildingId: form.buildingId ? parseInt(form.buildingId) : undefined, providerType: form.providerType, merchantIdRef: form.merchantIdRef || undefined, terminalIdRef: form.terminalIdRef || undefined, apiUserRef: form.apiUserRef || undefined, apiPasswordRef: form.apiPasswordRef || undefined, webhookSecretRef: form.webhookSecretRef || undefined, supportedFeatures: features, currency: form.currency, baseUrl: form.baseUrl || undefined };
+      const data = { buildingId: form.buildingId ? parseInt(form.buildingId) : undefined, providerType: form.providerType, merchantIdRef: form.merchantIdRef || undefined, terminalIdRef: form.terminalIdRef || undefined, apiUserRef: form.apiUserRef || undefined, apiPasswordRef: form.apiPasswordRef || undefined, webhookSecretRef: form.webhookSecretRef || undefined, supportedFeatures: features, currency: form.currency, baseUrl: form.baseUrl || undefined, simulatorScenario: form.simulatorScenario, simulatorDelaySeconds: form.simulatorDelaySeconds };
       if (editId) await paymentConfigApi.update(editId, data); else await paymentConfigApi.create(data);
       setDialogOpen(false); resetForm(); load();
     } catch (e: any) { setError(e?.response?.data?.message || t('paymentConfig.failedSave')); }
@@ -41,6 +44,17 @@ const PaymentProviderConfigPage: React.FC = () => {
 
   const handleDelete = async (id: number) => { if (!confirm(t('paymentConfig.deleteConfirm'))) return; await paymentConfigApi.delete(id); load(); };
 
+  const handleTest = async (id: number) => {
+    setTestingId(id); setError('');
+    try {
+      const r = await paymentConfigApi.testConnection(id);
+      setTestResult(r.data);
+      load();
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('paymentConfig.testFailedToRun'));
+    } finally { setTestingId(null); }
+  };
+
   // Mandatory features per provider — always on and locked
   const getMandatoryFeatures = (provider: string): number => {
     if (provider === 'Fake') return 0;
@@ -72,6 +86,8 @@ const PaymentProviderConfigPage: React.FC = () => {
         <Button variant="contained" startIcon={<Add />} onClick={openCreate}>{t('paymentConfig.addProvider')}</Button>
       </Box>
 
+      {error && !dialogOpen && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
+
       <Alert severity="info" sx={{ mb: 2 }} icon={<Security />}>
         <span dangerouslySetInnerHTML={{ __html: t('paymentConfig.securityNote') }} />
       </Alert>
@@ -81,23 +97,43 @@ const PaymentProviderConfigPage: React.FC = () => {
           <TableHead><TableRow>
             <TableCell>{t('paymentConfig.building')}</TableCell><TableCell>{t('paymentConfig.provider')}</TableCell>
             <TableCell>{t('paymentConfig.features')}</TableCell><TableCell>{t('paymentConfig.currency')}</TableCell>
-            <TableCell>{t('paymentConfig.merchantRef')}</TableCell><TableCell>{t('app.actions')}</TableCell>
+            <TableCell>{t('paymentConfig.merchantRef')}</TableCell><TableCell>{t('paymentConfig.lastTest')}</TableCell><TableCell>{t('app.actions')}</TableCell>
           </TableRow></TableHead>
           <TableBody>
             {configs.map(c => (
               <TableRow key={c.id}>
                 <TableCell>{c.buildingName || t('paymentConfig.globalDefault')}</TableCell>
-                <TableCell><Chip label={c.providerType} color={providerColor(c.providerType) as any} size="small" /></TableCell>
+                <TableCell>
+                  <Chip label={c.providerType} color={providerColor(c.providerType) as any} size="small" />
+                  {c.providerType === 'Fake' && c.simulatorScenario !== 'Approve' && (
+                    <Chip label={t(`enums.simulatorScenario.${c.simulatorScenario}`)} size="small" variant="outlined" color="warning" sx={{ ml: 0.5 }} />
+                  )}
+                </TableCell>
                 <TableCell>{FEATURE_LIST.filter(([, v]) => (c.supportedFeatures & v) !== 0).map(([k]) => (<Chip key={k} label={t(`enums.providerFeature.${k}`, k)} size="small" variant="outlined" sx={{ mr: 0.5, mb: 0.5 }} />))}</TableCell>
                 <TableCell>{c.currency}</TableCell>
                 <TableCell>{c.merchantIdRef || '—'}</TableCell>
                 <TableCell>
+                  {c.lastTestedAtUtc ? (
+                    <Tooltip title={c.lastTestMessage ?? ''}>
+                      <Chip size="small" color={c.lastTestSucceeded ? 'success' : 'error'}
+                        label={`${c.lastTestSucceeded ? t('paymentConfig.testPassed') : t('paymentConfig.testFailed')} · ${formatDateLocal(c.lastTestedAtUtc)}`} />
+                    </Tooltip>
+                  ) : <Typography variant="caption" color="text.secondary">{t('paymentConfig.neverTested')}</Typography>}
+                </TableCell>
+                <TableCell>
+                  <Tooltip title={t('paymentConfig.testConnection')}>
+                    <span>
+                      <IconButton size="small" color="primary" disabled={testingId !== null} onClick={() => handleTest(c.id)}>
+                        {testingId === c.id ? <CircularProgress size={18} /> : <NetworkCheck fontSize="small" />}
+                      </IconButton>
+                    </span>
+                  </Tooltip>
                   <IconButton size="small" onClick={() => openEdit(c)}><Edit fontSize="small" /></IconButton>
                   <IconButton size="small" onClick={() => handleDelete(c.id)}><Delete fontSize="small" /></IconButton>
                 </TableCell>
               </TableRow>
             ))}
-            {configs.length === 0 && <TableRow><TableCell colSpan={6} align="center">{t('paymentConfig.noConfigs')}</TableCell></TableRow>}
+            {configs.length === 0 && <TableRow><TableCell colSpan={7} align="center">{t('paymentConfig.noConfigs')}</TableCell></TableRow>}
           </TableBody>
         </Table>
       </Paper>
@@ -130,6 +166,20 @@ const PaymentProviderConfigPage: React.FC = () => {
             <TextField fullWidth label={t('paymentConfig.baseUrl')} value={form.baseUrl} onChange={e => setForm(f => ({ ...f, baseUrl: e.target.value }))} sx={{ mt: 1 }} helperText={t('paymentConfig.baseUrlHelp')} />
           </>)}
 
+          {!isRealProvider && (<>
+            <Typography variant="subtitle2" sx={{ mt: 2, mb: 1, color: 'text.secondary' }}>{t('paymentConfig.simulator')}</Typography>
+            <TextField select fullWidth label={t('paymentConfig.simulatorScenario')} value={form.simulatorScenario}
+              onChange={e => setForm(f => ({ ...f, simulatorScenario: e.target.value as PaymentSimulatorScenario }))}
+              helperText={t(`paymentConfig.simulatorScenarioHelp.${form.simulatorScenario}`, { seconds: form.simulatorDelaySeconds })} sx={{ mt: 1 }}>
+              {PAYMENT_SIMULATOR_SCENARIOS.map(s => <MenuItem key={s} value={s}>{t(`enums.simulatorScenario.${s}`)}</MenuItem>)}
+            </TextField>
+            {(form.simulatorScenario === 'Timeout' || form.simulatorScenario === 'WebhookDelay') && (
+              <TextField fullWidth type="number" label={t('paymentConfig.simulatorDelaySeconds')} value={form.simulatorDelaySeconds}
+                onChange={e => setForm(f => ({ ...f, simulatorDelaySeconds: Math.min(120, Math.max(0, parseInt(e.target.value) || 0)) }))}
+                inputProps={{ min: 0, max: 120 }} sx={{ mt: 2 }} />
+            )}
+          </>)}
+
           <TextField fullWidth label={t('paymentConfig.currency')} value={form.currency} onChange={e => setForm(f => ({ ...f, currency: e.target.value }))} sx={{ mt: 2 }} />
           <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>{t('paymentConfig.supportedFeatures')}</Typography>
           <Alert severity="success" sx={{ mb: 1 }}>{t('paymentConfig.featuresSavingsNote')}</Alert>
@@ -164,6 +214,30 @@ const PaymentProviderConfigPage: React.FC = () => {
           <Button variant="contained" onClick={handleSave}>{editId ? t('app.update') : t('app.create')}</Button>
         </DialogActions>
       </Dialog>
+
+      <Dialog open={!!testResult} onClose={() => setTestResult(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{t('paymentConfig.testResultTitle', { provider: testResult?.providerType })}</DialogTitle>
+        <DialogContent>
+          {testResult && (<>
+            <Alert severity={testResult.success ? 'success' : 'error'} sx={{ mb: 1 }}>
+              {testResult.success ? t('paymentConfig.testSuccess') : t('paymentConfig.testFailure')}
+            </Alert>
+            <List dense>
+              {testResult.steps.map(step => (
+                <ListItem key={step.step}>
+                  <ListItemIcon>{step.success ? <CheckCircle color="success" /> : <Cancel color="error" />}</ListItemIcon>
+                  <ListItemText
+                    primary={`${t(`paymentConfig.testStep.${step.step}`)}${step.step === 'Configuration' ? '' : ` · ${step.durationMs} ms`}`}
+                    secondary={step.message} />
+                </ListItem>
+              ))}
+            </List>
+          </>)}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setTestResult(null)}>{t('app.close')}</Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 };
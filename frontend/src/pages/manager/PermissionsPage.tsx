@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box, Typography, Button, Table, TableBody, TableCell, TableContainer,
+  TableHead, TableRow, Paper, Dialog, DialogTitle, DialogContent, DialogActions,
+  TextField, MenuItem, Alert, CircularProgress, Card, CardContent, CardActionArea,
+  Stack, Chip, IconButton, useMediaQuery, useTheme
+} from '@mui/material';
+import { Add, Delete, Edit } from '@mui/icons-material';
+import { buildingsApi, permissionsApi } from '../../api/services';
+import type { BuildingDto, PermissionGrant, PermissionAction, PermissionResource, UserPermissionsDto } from '../../types';
+import { PERMISSION_RESOURCES } from '../../types';
+import { useAuth } from '../../auth/AuthContext';
+import { useTranslation } from 'react-i18next';
+
+const STAFF_ROLES = ['Admin', 'Manager', 'Bookkeeper'];
+
+const PermissionsPage: React.FC = () => {
+  const { t } = useTranslation();
+  const { user, hasRole } = useAuth();
+  const isAdmin = hasRole('Admin');
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const [users, setUsers] = useState<UserPermissionsDto[]>([]);
+  const [buildings, setBuildings] = useState<BuildingDto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [editing, setEditing] = useState<UserPermissionsDto | null>(null);
+  const [role, setRole] = useState('');
+  const [managedBuildingIds, setManagedBuildingIds] = useState<number[]>([]);
+  const [grants, setGrants] = useState<PermissionGrant[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const errorMessage = (err: unknown) =>
+    (err as { response?: { data?: { message?: string } } })?.response?.data?.message;
+
+  useEffect(() => {
+    Promise.all([permissionsApi.getUsers(), buildingsApi.getAll()])
+      .then(([u, b]) => { setUsers(u.data); setBuildings(b.data); })
+      .catch(() => setError(t('permissions.failedLoad')))
+      .finally(() => setLoading(false));
+  }, [t]);
+
+  const buildingName = (id?: number | null) =>
+    id == null ? t('permissions.allBuildings') : buildings.find(b => b.id === id)?.name ?? `#${id}`;
+
+  const staffRole = (u: UserPermissionsDto) => u.roles.find(r => STAFF_ROLES.includes(r));
+
+  // Nobody edits their own permissions, and only admins edit admins
+  const canEdit = (u: UserPermissionsDto) => u.userId !== user?.id && (isAdmin || staffRole(u) !== 'Admin');
+
+  const grantLabel = (g: PermissionGrant) =>
+    `${t(`permissions.resources.${g.resource}`)} · ${t(`permissions.actions.${g.action}`)} · ${g.buildingName ?? buildingName(g.buildingId)}`;
+
+  const openEdit = (u: UserPermissionsDto) => {
+    setEditing(u);
+    setRole(staffRole(u) ?? '');
+    setManagedBuildingIds(u.managedBuildingIds);
+    setGrants(u.grants);
+  };
+
+  const updateGrant = (index: number, change: Partial<PermissionGrant>) =>
+    setGrants(grants.map((g, i) => i === index ? { ...g, ...change } : g));
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setSaving(true);
+    try {
+      const r = await permissionsApi.updateUser(editing.userId, {
+        role: role || undefined,
+        managedBuildingIds: role === 'Manager' ? managedBuildingIds : [],
+        grants: grants.map(g => ({ resource: g.resource, action: g.action, buildingId: g.buildingId ?? null })),
+      });
+      setUsers(users.map(u => u.userId === r.data.userId ? r.data : u));
+      setSuccess(t('permissions.saved', { name: r.data.fullName }));
+      setEditing(null);
+    } catch (err) { setError(errorMessage(err) || t('permissions.failedSave')); }
+    finally { setSaving(false); }
+  };
+
+  const buildingsCell = (u: UserPermissionsDto) => (
+    <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+      {staffRole(u) === 'Admin' && <Chip size="small" label={t('permissions.allBuildings')} />}
+      {u.managedBuildingIds.map(id => <Chip key={`m${id}`} size="small" color="primary" variant="outlined" label={buildingName(id)} />)}
+      {u.committeeBuildingIds.map(id => (
+        <Chip key={`c${id}`} size="small" color="secondary" variant="outlined" label={t('permissions.committeeOf', { building: buildingName(id) })} />
+      ))}
+    </Box>
+  );
+
+  const grantsCell = (u: UserPermissionsDto) => u.grants.length === 0
+    ? <Typography variant="body2" color="text.secondary">—</Typography>
+    : (
+      <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+        {u.grants.map((g, i) => <Chip key={i} size="small" variant="outlined" label={grantLabel(g)} />)}
+      </Box>
+    );
+
+  if (loading) return <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}><CircularProgress /></Box>;
+
+  return (
+    <Box>
+      <Typography variant="h4" sx={{ fontWeight: 700, fontSize: { xs: '1.3rem', md: '2rem' }, mb: 1 }}>{t('permissions.title')}</Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>{t('permissions.subtitle')}</Typography>
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
+      {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess('')}>{success}</Alert>}
+
+      {isMobile ? (
+        <Stack spacing={1.5}>
+          {users.map(u => (
+            <Card key={u.userId} variant="outlined">
+              <CardActionArea onClick={() => openEdit(u)} disabled={!canEdit(u)}>
+                <CardContent sx={{ py: 1.5, px: 2, '&:last-child': { pb: 1.5 } }}>
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
+                    <Typography variant="subtitle1" fontWeight={600}>{u.fullName}</Typography>
+                    <Chip size="small" label={t(`permissions.roles.${staffRole(u) ?? 'Committee'}`)} />
+                  </Box>
+                  <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>{u.email}</Typography>
+                  {buildingsCell(u)}
+                  <Box sx={{ mt: 1 }}>{grantsCell(u)}</Box>
+                </CardContent>
+              </CardActionArea>
+            </Card>
+          ))}
+          {users.length === 0 && <Typography align="center" color="text.secondary" sx={{ py: 4 }}>{t('permissions.noUsers')}</Typography>}
+        </Stack>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead><TableRow>
+              <TableCell>{t('permissions.user')}</TableCell><TableCell>{t('permissions.role')}</TableCell>
+              <TableCell>{t('permissions.buildings')}</TableCell><TableCell>{t('permissions.extraPermissions')}</TableCell>
+              <TableCell>{t('app.actions')}</TableCell>
+            </TableRow></TableHead>
+            <TableBody>
+              {users.map(u => (
+                <TableRow key={u.userId}>
+                  <TableCell>
+                    <Typography fontWeight={600}>{u.fullName}</Typography>
+                    <Typography variant="caption" color="text.secondary">{u.email}</Typography>
+                  </TableCell>
+                  <TableCell><Chip size="small" label={t(`permissions.roles.${staffRole(u) ?? 'Committee'}`)} /></TableCell>
+                  <TableCell>{buildingsCell(u)}</TableCell>
+                  <TableCell>{grantsCell(u)}</TableCell>
+                  <TableCell><Button size="small" startIcon={<Edit />} onClick={() => openEdit(u)} disabled={!canEdit(u)}>{t('app.edit')}</Button></TableCell>
+                </TableRow>
+              ))}
+              {users.length === 0 && <TableRow><TableCell colSpan={5} align="center">{t('permissions.noUsers')}</TableCell></TableRow>}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={!!editing} onClose={() => setEditing(null)} maxWidth="md" fullWidth fullScreen={isMobile}>
+        <DialogTitle>{t('permissions.editTitle', { name: editing?.fullName })}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            {editing && staffRole(editing) ? (
+              <TextField select label={t('permissions.role')} value={role} onChange={e => setRole(e.target.value)}
+                disabled={!isAdmin} helperText={t(`permissions.roleHelp.${role}`)}>
+                {STAFF_ROLES.map(r => <MenuItem key={r} value={r}>{t(`permissions.roles.${r}`)}</MenuItem>)}
+              </TextField>
+            ) : (
+              <Alert severity="info">{t('permissions.committeeInfo')}</Alert>
+            )}
+
+            {role === 'Manager' && (
+              <TextField select label={t('permissions.managedBuildings')} value={managedBuildingIds}
+                slotProps={{ select: { multiple: true, renderValue: v => (v as number[]).map(id => buildingName(id)).join(', ') } }}
+                onChange={e => setManagedBuildingIds(e.target.value as unknown as number[])}>
+                {buildings.map(b => <MenuItem key={b.id} value={b.id}>{b.name}</MenuItem>)}
+              </TextField>
+            )}
+
+            {role !== 'Admin' && (
+              <Box>
+                <Typography variant="subtitle2" gutterBottom>{t('permissions.extraPermissions')}</Typography>
+                <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>{t('permissions.extraHelp')}</Typography>
+                <Stack spacing={1}>
+                  {grants.map((g, i) => (
+                    <Box key={i} sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: isMobile ? 'wrap' : 'nowrap' }}>
+                      <TextField select size="small" label={t('permissions.resource')} value={g.resource} sx={{ minWidth: 160, flex: 1 }}
+                        onChange={e => updateGrant(i, { resource: e.target.value as PermissionResource })}>
+                        {PERMISSION_RESOURCES.map(r => <MenuItem key={r} value={r}>{t(`permissions.resources.${r}`)}</MenuItem>)}
+                      </TextField>
+                      <TextField select size="small" label={t('permissions.action')} value={g.action} sx={{ minWidth: 120 }}
+                        onChange={e => updateGrant(i, { action: e.target.value as PermissionAction })}>
+                        <MenuItem value="View">{t('permissions.actions.View')}</MenuItem>
+                        <MenuItem value="Manage">{t('permissions.actions.Manage')}</MenuItem>
+                      </TextField>
+                      <TextField select size="small" label={t('permissions.building')} value={g.buildingId ?? ''} sx={{ minWidth: 180, flex: 1 }}
+                        onChange={e => updateGrant(i, { buildingId: e.target.value === '' ? null : Number(e.target.value), buildingName: null })}>
+                        <MenuItem value="" disabled={!isAdmin}>{t('permissions.allBuildings')}</MenuItem>
+                        {buildings.map(b => <MenuItem key={b.id} value={b.id}>{b.name}</MenuItem>)}
+                      </TextField>
+                      <IconButton size="small" color="error" onClick={() => setGrants(grants.filter((_, j) => j !== i))}><Delete fontSize="small" /></IconButton>
+                    </Box>
+                  ))}
+                </Stack>
+                <Button size="small" startIcon={<Add />} sx={{ mt: 1 }}
+                  onClick={() => setGrants([...grants, { resource: 'Finance', action: 'View', buildingId: buildings[0]?.id ?? null }])}>
+                  {t('permissions.addPermission')}
+                </Button>
+              </Box>
+            )}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditing(null)}>{t('app.cancel')}</Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>{t('app.save')}</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default PermissionsPage;
@@ -0,0 +1,222 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  Box, Typography, Card, CardContent, Table, TableBody, TableCell, TableContainer, TableHead, TableRow,
+  Paper, Chip, MenuItem, TextField, Button, Dialog, DialogTitle, DialogContent, DialogActions,
+  CircularProgress, Alert, Stack, useMediaQuery, useTheme
+} from '@mui/material';
+import { Gavel } from '@mui/icons-material';
+import { buildingsApi, paymentsApi } from '../../api/services';
+import type { BuildingDto, PaymentRefundDto, PaymentRefundType, ChargebackStatus } from '../../types';
+import { formatCurrency, formatDateOnly } from '../../utils/dateUtils';
+import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
+
+const chargebackColor = (status?: ChargebackStatus): 'error' | 'success' | 'default' =>
+  status === 'Open' ? 'error' : status === 'Won' ? 'success' : 'default';
+
+const RefundTypeChips: React.FC<{ r: PaymentRefundDto; t: TFunction }> = ({ r, t }) => (
+  <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+    <Chip size="small" variant="outlined" color={r.type === 'Chargeback' ? 'error' : 'warning'} label={t(`enums.paymentRefundType.${r.type}`)} />
+    {r.chargebackStatus && <Chip size="small" color={chargebackColor(r.chargebackStatus)} label={t(`enums.chargebackStatus.${r.chargebackStatus}`)} />}
+  </Box>
+);
+
+const chargesText = (r: PaymentRefundDto, t: TFunction) =>
+  r.charges.length === 0
+    ? t('refunds.unallocated')
+    : r.charges.map(c => `${t(`enums.unitChargeType.${c.chargeType}`, c.chargeType)} ${c.period ?? ''} (${formatCurrency(c.amount)})`).join(', ');
+
+/** Refunds issued by managers and chargebacks reported by payment providers, with chargeback outcomes. */
+const RefundsPage: React.FC = () => {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+
+  const [buildings, setBuildings] = useState<BuildingDto[]>([]);
+  const [buildingId, setBuildingId] = useState<number | ''>('');
+  const [type, setType] = useState<PaymentRefundType | ''>('');
+  const [chargebackStatus, setChargebackStatus] = useState<ChargebackStatus | ''>('');
+  const [items, setItems] = useState<PaymentRefundDto[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Resolve chargeback dialog
+  const [resolving, setResolving] = useState<PaymentRefundDto | null>(null);
+  const [resolveWon, setResolveWon] = useState(true);
+  const [resolveNote, setResolveNote] = useState('');
+
+  useEffect(() => {
+    buildingsApi.getAll().then(r => setBuildings(r.data)).catch(() => setError(t('refunds.failedLoad')));
+  }, [t]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const r = await paymentsApi.getRefunds({
+        buildingId: buildingId || undefined,
+        type: type || undefined,
+        chargebackStatus: chargebackStatus || undefined,
+      });
+      setItems(r.data);
+    } catch { setError(t('refunds.failedLoad')); }
+    finally { setLoading(false); }
+  }, [buildingId, type, chargebackStatus, t]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const openResolve = (r: PaymentRefundDto) => { setResolving(r); setResolveWon(true); setResolveNote(''); };
+
+  const handleResolve = async () => {
+    if (!resolving) return;
+    setError('');
+    try {
+      await paymentsApi.resolveChargeback(resolving.id, { won: resolveWon, note: resolveNote.trim() || undefined });
+      setResolving(null);
+      setSuccess(t(resolveWon ? 'refunds.chargebackWon' : 'refunds.chargebackLost'));
+      load();
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('refunds.failedResolve'));
+    }
+  };
+
+  const openChargebacks = items.filter(r => r.chargebackStatus === 'Open');
+
+  return (
+    <Box>
+      <Typography variant="h4" sx={{ fontSize: { xs: '1.3rem', md: '2rem' }, fontWeight: 700, mb: 2 }}>{t('refunds.title')}</Typography>
+
+      {error && <Alert severity="error" onClose={() => setError('')} sx={{ mb: 2 }}>{error}</Alert>}
+      {success && <Alert severity="success" onClose={() => setSuccess('')} sx={{ mb: 2 }}>{success}</Alert>}
+      {openChargebacks.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {t('refunds.openChargebacksAlert', { count: openChargebacks.length, amount: formatCurrency(openChargebacks.reduce((sum, r) => sum + r.amount, 0)) })}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+        <TextField select size="small" label={t('refunds.building')} value={buildingId}
+          onChange={e => setBuildingId(e.target.value === '' ? '' : Number(e.target.value))} sx={{ minWidth: 200 }}>
+          <MenuItem value="">{t('refunds.allBuildings')}</MenuItem>
+          {buildings.map(b => <MenuItem key={b.id} value={b.id}>{b.name}</MenuItem>)}
+        </TextField>
+        <TextField select size="small" label={t('refunds.type')} value={type}
+          onChange={e => setType(e.target.value as PaymentRefundType | '')} sx={{ minWidth: 150 }}>
+          <MenuItem value="">{t('refunds.allTypes')}</MenuItem>
+          <MenuItem value="Refund">{t('enums.paymentRefundType.Refund')}</MenuItem>
+          <MenuItem value="Chargeback">{t('enums.paymentRefundType.Chargeback')}</MenuItem>
+        </TextField>
+        <TextField select size="small" label={t('refunds.chargebackStatus')} value={chargebackStatus}
+          onChange={e => setChargebackStatus(e.target.value as ChargebackStatus | '')} sx={{ minWidth: 170 }}>
+          <MenuItem value="">{t('refunds.allStatuses')}</MenuItem>
+          {(['Open', 'Won', 'Lost'] as ChargebackStatus[]).map(s => <MenuItem key={s} value={s}>{t(`enums.chargebackStatus.${s}`)}</MenuItem>)}
+        </TextField>
+      </Box>
+
+      {loading && <CircularProgress sx={{ display: 'block', mb: 2 }} />}
+
+      {!loading && items.length === 0 && (
+        <Typography color="text.secondary" align="center" sx={{ py: 4 }}>{t('refunds.empty')}</Typography>
+      )}
+
+      {!loading && items.length > 0 && (isMobile ? (
+        <Stack spacing={1.5}>
+          {items.map(r => (
+            <Card key={r.id} variant="outlined">
+              <CardContent>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1, mb: 1 }}>
+                  <Typography variant="subtitle2">{r.buildingName} · {t('statement.unit')} {r.unitNumber}</Typography>
+                  <Typography variant="subtitle2" color="warning.main">{formatCurrency(r.amount)}</Typography>
+                </Box>
+                <RefundTypeChips r={r} t={t} />
+                <Typography variant="body2" sx={{ mt: 1 }}>{r.reason || '—'}</Typography>
+                <Typography variant="caption" color="text.secondary" display="block">
+                  {formatDateOnly(r.createdAtUtc)} · {t('refunds.ofPayment', { id: r.paymentId, amount: formatCurrency(r.paymentAmount) })}
+                </Typography>
+                <Typography variant="caption" color="text.secondary" display="block">{chargesText(r, t)}</Typography>
+                {r.chargebackStatus === 'Open' && (
+                  <Button size="small" startIcon={<Gavel />} sx={{ mt: 1 }} onClick={() => openResolve(r)}>{t('refunds.resolve')}</Button>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </Stack>
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('refunds.date')}</TableCell>
+                <TableCell>{t('refunds.building')}</TableCell>
+                <TableCell>{t('statement.unit')}</TableCell>
+                <TableCell>{t('refunds.type')}</TableCell>
+                <TableCell align="right">{t('refunds.amount')}</TableCell>
+                <TableCell>{t('refunds.payment')}</TableCell>
+                <TableCell>{t('refunds.reopenedCharges')}</TableCell>
+                <TableCell>{t('refunds.reason')}</TableCell>
+                <TableCell>{t('refunds.processed')}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {items.map(r => (
+                <TableRow key={r.id}>
+                  <TableCell>{formatDateOnly(r.createdAtUtc)}</TableCell>
+                  <TableCell>{r.buildingName}</TableCell>
+                  <TableCell>
+                    {r.unitNumber}
+                    {r.payerName && <Typography variant="caption" display="block" color="text.secondary">{r.payerName}</Typography>}
+                  </TableCell>
+                  <TableCell><RefundTypeChips r={r} t={t} /></TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 600 }}>{formatCurrency(r.amount)}</TableCell>
+                  <TableCell>
+                    #{r.paymentId} · {formatCurrency(r.paymentAmount)}
+                    <Typography variant="caption" display="block" color="text.secondary">
+                      {formatDateOnly(r.paymentDateUtc)}{r.paymentReference ? ` · ${r.paymentReference}` : ''}
+                    </Typography>
+                  </TableCell>
+                  <TableCell><Typography variant="caption">{chargesText(r, t)}</Typography></TableCell>
+                  <TableCell>
+                    {r.reason || '—'}
+                    {r.resolutionNote && <Typography variant="caption" display="block" color="text.secondary">{r.resolutionNote}</Typography>}
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="caption" display="block">{r.viaProvider ? t('refunds.viaProvider') : t('refunds.recordedManually')}</Typography>
+                    {r.providerReference && <Typography variant="caption" display="block" color="text.secondary">{r.providerReference}</Typography>}
+                    {r.createdByName && <Typography variant="caption" display="block" color="text.secondary">{r.createdByName}</Typography>}
+                  </TableCell>
+                  <TableCell align="right">
+                    {r.chargebackStatus === 'Open' && (
+                      <Button size="small" startIcon={<Gavel />} onClick={() => openResolve(r)}>{t('refunds.resolve')}</Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      ))}
+
+      {/* Resolve chargeback */}
+      <Dialog open={!!resolving} onClose={() => setResolving(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{t('refunds.resolveTitle', { amount: resolving ? formatCurrency(resolving.amount) : '' })}</DialogTitle>
+        <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          <TextField select label={t('refunds.outcome')} value={resolveWon ? 'won' : 'lost'}
+            onChange={e => setResolveWon(e.target.value === 'won')}
+            helperText={resolveWon ? t('refunds.wonHint') : t('refunds.lostHint')}>
+            <MenuItem value="won">{t('enums.chargebackStatus.Won')}</MenuItem>
+            <MenuItem value="lost">{t('enums.chargebackStatus.Lost')}</MenuItem>
+          </TextField>
+          <TextField label={t('refunds.note')} value={resolveNote} onChange={e => setResolveNote(e.target.value)}
+            multiline rows={2} inputProps={{ maxLength: 1000 }} />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setResolving(null)}>{t('app.cancel')}</Button>
+          <Button variant="contained" onClick={handleResolve}>{t('app.save')}</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default RefundsPage;
@@ -0,0 +1,377 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Box, Typography, Card, CardContent, List, ListItemButton, ListItemText, Chip, MenuItem, TextField, Button,
+  Switch, FormControlLabel, Dialog, DialogTitle, DialogContent, DialogActions, CircularProgress, Alert, Stack,
+  Tooltip, ToggleButtonGroup, ToggleButton, Paper, Divider
+} from '@mui/material';
+import { Add, Save, History, Restore, Sms, Email } from '@mui/icons-material';
+import type { TFunction } from 'i18next';
+import { buildingsApi, smsApi } from '../../api/services';
+import type {
+  BuildingDto, UnitDto, SmsTemplateDto, SmsTemplateVersionDto, SaveSmsTemplateRequest, SmsTemplatePreviewDto
+} from '../../types';
+import { TEMPLATE_PLACEHOLDERS } from '../../types';
+import { countSmsSegments } from '../../utils/smsSegments';
+import { formatDateLocal } from '../../utils/dateUtils';
+import { useTranslation } from 'react-i18next';
+
+const LANGUAGES = ['he', 'en'];
+
+const EMPTY_FORM: SaveSmsTemplateRequest = { name: '', language: 'he', body: '', emailSubject: '', isActive: true };
+
+const errorMessage = (err: unknown) => (err as { response?: { data?: { message?: string } } })?.response?.data?.message;
+
+/** Encoding, length and segment count of an SMS text, warning once it runs past three parts. */
+const SmsCounter: React.FC<{ text: string; t: TFunction }> = ({ text, t }) => {
+  const info = countSmsSegments(text);
+  return (
+    <Typography variant="caption" color={info.segments > 3 ? 'warning.main' : 'text.secondary'}>
+      {t(`templates.encoding.${info.encoding}`)} · {t('templates.counter', { units: info.units, segments: info.segments, remaining: info.remaining })}
+    </Typography>
+  );
+};
+
+/** Create, edit and version reminder templates per language, with a placeholder catalogue and live SMS/email preview. */
+const ReminderTemplatesPage: React.FC = () => {
+  const { t } = useTranslation();
+
+  const [templates, setTemplates] = useState<SmsTemplateDto[]>([]);
+  const [langFilter, setLangFilter] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Editor — editingId null with editorOpen means a new template
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<SaveSmsTemplateRequest>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const bodyRef = useRef<HTMLTextAreaElement | null>(null);
+  const subjectRef = useRef<HTMLInputElement | null>(null);
+  const [lastField, setLastField] = useState<'body' | 'emailSubject'>('body');
+
+  // Preview
+  const [buildings, setBuildings] = useState<BuildingDto[]>([]);
+  const [previewBuildingId, setPreviewBuildingId] = useState<number | ''>('');
+  const [units, setUnits] = useState<UnitDto[]>([]);
+  const [previewUnitId, setPreviewUnitId] = useState<number | ''>('');
+  const [previewChannel, setPreviewChannel] = useState<'sms' | 'email'>('sms');
+  const [preview, setPreview] = useState<SmsTemplatePreviewDto | null>(null);
+  const [previewError, setPreviewError] = useState('');
+
+  // Versions
+  const [versions, setVersions] = useState<SmsTemplateVersionDto[] | null>(null);
+
+  const editing = templates.find(tp => tp.id === editingId);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const r = await smsApi.getTemplates(langFilter || undefined, showInactive);
+      setTemplates(r.data);
+    } catch { setError(t('templates.failedLoad')); }
+    finally { setLoading(false); }
+  }, [langFilter, showInactive, t]);
+
+  useEffect(() => { load(); }, [load]);
+
+  useEffect(() => {
+    buildingsApi.getAll().then(r => setBuildings(r.data)).catch(() => setError(t('templates.failedLoad')));
+  }, [t]);
+
+  useEffect(() => {
+    setPreviewUnitId('');
+    if (!previewBuildingId) { setUnits([]); return; }
+    buildingsApi.getUnits(previewBuildingId).then(r => setUnits(r.data)).catch(() => setUnits([]));
+  }, [previewBuildingId]);
+
+  // Live preview, debounced while typing
+  useEffect(() => {
+    if (!editorOpen || !form.body.trim()) { setPreview(null); return; }
+    const timer = setTimeout(() => {
+      smsApi.previewTemplate({
+        body: form.body,
+        emailSubject: form.emailSubject || undefined,
+        language: form.language,
+        unitId: previewUnitId || undefined,
+      }).then(r => { setPreview(r.data); setPreviewError(''); })
+        .catch(err => setPreviewError(errorMessage(err) || t('templates.failedPreview')));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [editorOpen, form.body, form.emailSubject, form.language, previewUnitId, t]);
+
+  const openTemplate = (tp: SmsTemplateDto) => {
+    setEditingId(tp.id);
+    setForm({ name: tp.name, language: tp.language, body: tp.body, emailSubject: tp.emailSubject ?? '', isActive: tp.isActive });
+    setEditorOpen(true);
+  };
+
+  const openNew = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM, language: langFilter || 'he' });
+    setEditorOpen(true);
+  };
+
+  /** Inserts a placeholder at the cursor of the body or subject field, whichever was focused last. */
+  const insertPlaceholder = (name: string) => {
+    const token = `{{${name}}}`;
+    const el = lastField === 'body' ? bodyRef.current : subjectRef.current;
+    const value = form[lastField] ?? '';
+    const start = el?.selectionStart ?? value.length;
+    const end = el?.selectionEnd ?? value.length;
+    setForm(f => ({ ...f, [lastField]: value.slice(0, start) + token + value.slice(end) }));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const isDirty = editing
+    ? form.name !== editing.name || form.language !== editing.language || form.body !== editing.body
+      || (form.emailSubject ?? '') !== (editing.emailSubject ?? '') || form.isActive !== editing.isActive
+    : !!(form.name || form.body);
+
+  const handleSave = async () => {
+    setSaving(true); setError('');
+    const data = { ...form, name: form.name.trim(), emailSubject: form.emailSubject?.trim() || undefined };
+    try {
+      const r = editingId ? await smsApi.updateTemplate(editingId, data) : await smsApi.createTemplate(data);
+      setEditingId(r.data.id);
+      setSuccess(t('templates.saved', { version: r.data.version }));
+      load();
+    } catch (err) {
+      setError(errorMessage(err) || t('templates.failedSave'));
+    } finally { setSaving(false); }
+  };
+
+  const openVersions = async () => {
+    if (!editingId) return;
+    try {
+      const r = await smsApi.getTemplateVersions(editingId);
+      setVersions(r.data);
+    } catch { setError(t('templates.failedLoad')); }
+  };
+
+  const handleRestore = async (version: number) => {
+    if (!editingId) return;
+    try {
+      const r = await smsApi.restoreTemplateVersion(editingId, version);
+      const tp = r.data;
+      setForm({ name: tp.name, language: tp.language, body: tp.body, emailSubject: tp.emailSubject ?? '', isActive: tp.isActive });
+      setVersions(null);
+      setSuccess(t('templates.restored', { version, current: tp.version }));
+      load();
+    } catch (err) {
+      setError(errorMessage(err) || t('templates.failedSave'));
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="h4" sx={{ fontSize: { xs: '1.3rem', md: '2rem' }, fontWeight: 700, mb: 2 }}>{t('templates.title')}</Typography>
+
+      {error && <Alert severity="error" onClose={() => setError('')} sx={{ mb: 2 }}>{error}</Alert>}
+      {success && <Alert severity="success" onClose={() => setSuccess('')} sx={{ mb: 2 }}>{success}</Alert>}
+
+      <Box sx={{ display: 'flex', gap: 2, flexDirection: { xs: 'column', md: 'row' }, alignItems: 'flex-start' }}>
+        {/* Template list */}
+        <Card sx={{ width: { xs: '100%', md: 300 }, flexShrink: 0 }}>
+          <CardContent>
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 1, flexWrap: 'wrap' }}>
+              <ToggleButtonGroup size="small" exclusive value={langFilter} onChange={(_, v) => v !== null && setLangFilter(v)}>
+                <ToggleButton value="">{t('templates.allLanguages')}</ToggleButton>
+                {LANGUAGES.map(l => <ToggleButton key={l} value={l}>{t(`templates.language.${l}`)}</ToggleButton>)}
+              </ToggleButtonGroup>
+              <FormControlLabel control={<Switch size="small" checked={showInactive} onChange={e => setShowInactive(e.target.checked)} />}
+                label={<Typography variant="caption">{t('templates.showInactive')}</Typography>} />
+            </Box>
+            <Button fullWidth variant="outlined" startIcon={<Add />} onClick={openNew} sx={{ mb: 1 }}>{t('templates.new')}</Button>
+            {loading && <CircularProgress size={24} sx={{ display: 'block', mx: 'auto', my: 2 }} />}
+            {!loading && templates.length === 0 && (
+              <Typography variant="body2" color="text.secondary" align="center" sx={{ py: 2 }}>{t('templates.empty')}</Typography>
+            )}
+            <List dense disablePadding>
+              {templates.map(tp => (
+                <ListItemButton key={tp.id} selected={tp.id === editingId} onClick={() => openTemplate(tp)}>
+                  <ListItemText
+                    primary={tp.name}
+                    secondary={`${t(`templates.language.${tp.language}`, tp.language)} · v${tp.version}`}
+                    sx={{ opacity: tp.isActive ? 1 : 0.5 }} />
+                  {!tp.isActive && <Chip size="small" label={t('templates.inactive')} />}
+                </ListItemButton>
+              ))}
+            </List>
+          </CardContent>
+        </Card>
+
+        {!editorOpen && (
+          <Typography color="text.secondary" sx={{ py: 4, flex: 1 }} align="center">{t('templates.pickHint')}</Typography>
+        )}
+
+        {editorOpen && (
+          <Box sx={{ flex: 1, display: 'flex', gap: 2, flexDirection: { xs: 'column', lg: 'row' }, width: '100%', minWidth: 0 }}>
+            {/* Editor */}
+            <Card sx={{ flex: 1, minWidth: 0 }}>
+              <CardContent sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 1 }}>
+                  <Typography variant="h6">{editing ? editing.name : t('templates.new')}</Typography>
+                  {editing && (
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <Chip size="small" label={`v${editing.version}`} />
+                      <Button size="small" startIcon={<History />} onClick={openVersions}>{t('templates.versions')}</Button>
+                    </Stack>
+                  )}
+                </Box>
+
+                <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+                  <TextField size="small" label={t('templates.name')} value={form.name} sx={{ flex: 1, minWidth: 200 }}
+                    onChange={e => setForm(f => ({ ...f, name: e.target.value }))} inputProps={{ maxLength: 200 }} />
+                  <TextField select size="small" label={t('templates.languageLabel')} value={form.language} sx={{ minWidth: 120 }}
+                    onChange={e => setForm(f => ({ ...f, language: e.target.value }))}>
+                    {LANGUAGES.map(l => <MenuItem key={l} value={l}>{t(`templates.language.${l}`)}</MenuItem>)}
+                  </TextField>
+                  <FormControlLabel label={t('templates.active')}
+                    control={<Switch checked={form.isActive} onChange={e => setForm(f => ({ ...f, isActive: e.target.checked }))} />} />
+                </Box>
+
+                <Box>
+                  <Typography variant="caption" color="text.secondary">{t('templates.placeholdersHint')}</Typography>
+                  <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 0.5 }}>
+                    {TEMPLATE_PLACEHOLDERS.map(p => (
+                      <Tooltip key={p} title={`{{${p}}}`}>
+                        <Chip size="small" variant="outlined" color="primary" icon={<Add />}
+                          label={t(`templates.placeholder.${p}`)} onClick={() => insertPlaceholder(p)} />
+                      </Tooltip>
+                    ))}
+                  </Box>
+                </Box>
+
+                <TextField size="small" label={t('templates.emailSubject')} value={form.emailSubject ?? ''}
+                  inputRef={subjectRef} onFocus={() => setLastField('emailSubject')}
+                  onChange={e => setForm(f => ({ ...f, emailSubject: e.target.value }))} inputProps={{ maxLength: 300 }}
+                  helperText={t('templates.emailSubjectHint')} />
+
+                <Box>
+                  <TextField fullWidth multiline minRows={6} label={t('templates.body')} value={form.body}
+                    inputRef={bodyRef} onFocus={() => setLastField('body')}
+                    onChange={e => setForm(f => ({ ...f, body: e.target.value }))} inputProps={{ maxLength: 1000, dir: 'auto' }} />
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1, mt: 0.5, flexWrap: 'wrap' }}>
+                    <SmsCounter text={form.body} t={t} />
+                    <Typography variant="caption" color="text.secondary">{form.body.length}/1000</Typography>
+                  </Box>
+                </Box>
+
+                {preview && preview.unknownPlaceholders.length > 0 && (
+                  <Alert severity="warning">{t('templates.unknownPlaceholders', { list: preview.unknownPlaceholders.join(', ') })}</Alert>
+                )}
+
+                <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+                  <Button onClick={() => { setEditorOpen(false); setEditingId(null); }}>{t('app.cancel')}</Button>
+                  <Button variant="contained" startIcon={<Save />} onClick={handleSave}
+                    disabled={saving || !isDirty || !form.name.trim() || !form.body.trim()}>
+                    {t('app.save')}
+                  </Button>
+                </Box>
+              </CardContent>
+            </Card>
+
+            {/* Live preview */}
+            <Card sx={{ flex: 1, minWidth: 0 }}>
+              <CardContent sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 1 }}>
+                  <Typography variant="h6">{t('templates.preview')}</Typography>
+                  <ToggleButtonGroup size="small" exclusive value={previewChannel} onChange={(_, v) => v && setPreviewChannel(v)}>
+                    <ToggleButton value="sms"><Sms fontSize="small" sx={{ mr: 0.5 }} />{t('templates.sms')}</ToggleButton>
+                    <ToggleButton value="email"><Email fontSize="small" sx={{ mr: 0.5 }} />{t('templates.email')}</ToggleButton>
+                  </ToggleButtonGroup>
+                </Box>
+
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  <TextField select size="small" label={t('templates.previewBuilding')} value={previewBuildingId} sx={{ flex: 1, minWidth: 150 }}
+                    onChange={e => setPreviewBuildingId(e.target.value === '' ? '' : Number(e.target.value))}>
+                    <MenuItem value="">{t('templates.sampleData')}</MenuItem>
+                    {buildings.map(b => <MenuItem key={b.id} value={b.id}>{b.name}</MenuItem>)}
+                  </TextField>
+                  <TextField select size="small" label={t('templates.previewUnit')} value={previewUnitId} sx={{ minWidth: 120 }}
+                    disabled={!previewBuildingId} onChange={e => setPreviewUnitId(e.target.value === '' ? '' : Number(e.target.value))}>
+                    <MenuItem value="">{t('templates.sampleData')}</MenuItem>
+                    {units.map(u => <MenuItem key={u.id} value={u.id}>{u.unitNumber}</MenuItem>)}
+                  </TextField>
+                </Box>
+
+                {previewError && <Alert severity="error">{previewError}</Alert>}
+                {!preview && !previewError && (
+                  <Typography variant="body2" color="text.secondary">{t('templates.previewEmpty')}</Typography>
+                )}
+
+                {preview && (
+                  <>
+                    <Typography variant="caption" color="text.secondary">
+                      {preview.isSample
+                        ? t('templates.previewSample')
+                        : t('templates.previewFor', { name: preview.recipientName, unit: preview.unitNumber })}
+                    </Typography>
+                    {previewChannel === 'sms' ? (
+                      <Box>
+                        <Paper variant="outlined" sx={{ p: 1.5, borderRadius: 3, bgcolor: 'grey.100', maxWidth: 360, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}
+                          dir={form.language === 'en' ? 'ltr' : 'rtl'}>
+                          <Typography variant="body2">{preview.message}</Typography>
+                        </Paper>
+                        <Box sx={{ mt: 0.5 }}><SmsCounter text={preview.message} t={t} /></Box>
+                      </Box>
+                    ) : (
+                      <Paper variant="outlined">
+                        <Box sx={{ px: 1.5, py: 1 }}>
+                          <Typography variant="caption" color="text.secondary">{t('templates.emailSubject')}</Typography>
+                          <Typography variant="body2" fontWeight={600}>{preview.subject || t('templates.noSubject')}</Typography>
+                        </Box>
+                        <Divider />
+                        <Box component="iframe" title={t('templates.preview')} sandbox="" srcDoc={preview.emailHtml}
+                          sx={{ border: 0, width: '100%', minHeight: 240, display: 'block' }} />
+                      </Paper>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </Box>
+        )}
+      </Box>
+
+      {/* Version history */}
+      <Dialog open={!!versions} onClose={() => setVersions(null)} maxWidth="md" fullWidth>
+        <DialogTitle>{t('templates.versionsTitle', { name: editing?.name ?? '' })}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={1.5} sx={{ mt: 1 }}>
+            {versions?.map(v => (
+              <Paper key={v.version} variant="outlined" sx={{ p: 1.5 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 1, mb: 1 }}>
+                  <Box>
+                    <Typography variant="subtitle2">
+                      v{v.version} · {v.name}
+                      {v.isCurrent && <Chip size="small" color="primary" label={t('templates.current')} sx={{ ml: 1 }} />}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {formatDateLocal(v.createdAtUtc)}{v.createdByName ? ` · ${v.createdByName}` : ''}
+                    </Typography>
+                  </Box>
+                  {!v.isCurrent && (
+                    <Button size="small" startIcon={<Restore />} onClick={() => handleRestore(v.version)}>{t('templates.restore')}</Button>
+                  )}
+                </Box>
+                {v.emailSubject && <Typography variant="body2" fontWeight={600}>{v.emailSubject}</Typography>}
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }} dir="auto">{v.body}</Typography>
+              </Paper>
+            ))}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setVersions(null)}>{t('app.close')}</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default ReminderTemplatesPage;
@@ -0,0 +1,403 @@
+import React, { useEffect, useMemo, useState, useCallback } from 'react';
+import {
+  Box, Typography, Button, TextField, MenuItem, Alert, CircularProgress, Paper, Chip,
+  ToggleButton, ToggleButtonGroup, IconButton, Tooltip, Dialog, DialogTitle, DialogContent,
+  DialogActions, useMediaQuery, useTheme
+} from '@mui/material';
+import { ChevronLeft, ChevronRight, Today, CleaningServices, Build, Warning } from '@mui/icons-material';
+import {
+  addDays, addMonths, addWeeks, endOfMonth, endOfWeek, isSameDay, isSameMonth,
+  startOfDay, startOfMonth, startOfWeek
+} from 'date-fns';
+import { workOrdersApi, vendorsApi, buildingsApi, cleaningPlansApi, jobsApi, preventivePlansApi } from '../../api/services';
+import type { WorkOrderDto, VendorDto, BuildingDto } from '../../types';
+import { formatDateLocal, toInputDate } from '../../utils/dateUtils';
+import { getIntlLocale } from '../../i18n';
+import { useTranslation } from 'react-i18next';
+
+type CalendarView = 'week' | 'month';
+type ColorBy = 'vendor' | 'building';
+
+/** Work orders carry no duration, so a vendor is double-booked when two jobs start closer than this. */
+const DEFAULT_JOB_HOURS = 2;
+const INACTIVE_STATUSES = ['Completed', 'Cancelled'];
+const PALETTE = ['#1a56a0', '#f5911e', '#2e7d32', '#8e24aa', '#c62828', '#00838f', '#6d4c41', '#ad1457', '#455a64', '#9e9d24'];
+
+const colorFor = (id?: number) => (id == null ? '#9e9e9e' : PALETTE[id % PALETTE.length]);
+const isActive = (wo: WorkOrderDto) => !INACTIVE_STATUSES.includes(wo.status);
+
+/** Keeps the time of day of the original slot (08:00 when the order was never scheduled). */
+const moveToDay = (wo: WorkOrderDto, day: Date) => {
+  const target = startOfDay(day);
+  if (wo.scheduledFor) {
+    const original = new Date(wo.scheduledFor);
+    target.setHours(original.getHours(), original.getMinutes());
+  } else {
+    target.setHours(8, 0);
+  }
+  return target;
+};
+
+const findDoubleBookings = (workOrders: WorkOrderDto[]) => {
+  const conflicting = new Set<number>();
+  const byVendor = new Map<number, WorkOrderDto[]>();
+  workOrders.filter(wo => wo.vendorId && wo.scheduledFor && isActive(wo)).forEach(wo => {
+    byVendor.set(wo.vendorId!, [...(byVendor.get(wo.vendorId!) ?? []), wo]);
+  });
+  byVendor.forEach(list => {
+    const sorted = [...list].sort((a, b) => new Date(a.scheduledFor!).getTime() - new Date(b.scheduledFor!).getTime());
+    for (let i = 1; i < sorted.length; i++) {
+      const gapHours = (new Date(sorted[i].scheduledFor!).getTime() - new Date(sorted[i - 1].scheduledFor!).getTime()) / 3_600_000;
+      if (gapHours < DEFAULT_JOB_HOURS) { conflicting.add(sorted[i].id); conflicting.add(sorted[i - 1].id); }
+    }
+  });
+  return conflicting;
+};
+
+interface PendingMove {
+  workOrder: WorkOrderDto;
+  vendorId: number;
+  scheduledFor: Date;
+  clashesWith: WorkOrderDto[];
+}
+
+const SchedulePage: React.FC = () => {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(new Date());
+  const [colorBy, setColorBy] = useState<ColorBy>('vendor');
+  const [filterBuilding, setFilterBuilding] = useState<number | ''>('');
+  // Every building's jobs in the period: a vendor busy elsewhere is still double-booked
+  const [allWorkOrders, setAllWorkOrders] = useState<WorkOrderDto[]>([]);
+  const [allUnscheduled, setAllUnscheduled] = useState<WorkOrderDto[]>([]);
+  const [vendors, setVendors] = useState<VendorDto[]>([]);
+  const [buildings, setBuildings] = useState<BuildingDto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [selected, setSelected] = useState<WorkOrderDto | null>(null);
+  const [editForm, setEditForm] = useState({ vendorId: '', date: '' });
+
+  const range = useMemo(() => {
+    if (view === 'week') {
+      const start = startOfWeek(anchor);
+      return { start, end: addDays(start, 7) };
+    }
+    return { start: startOfWeek(startOfMonth(anchor)), end: addDays(endOfWeek(endOfMonth(anchor)), 1) };
+  }, [view, anchor]);
+
+  const days = useMemo(() => {
+    const list: Date[] = [];
+    for (let d = range.start; d < range.end; d = addDays(d, 1)) list.push(d);
+    return list;
+  }, [range]);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [w, u, v, b] = await Promise.all([
+        workOrdersApi.getAll({
+          from: range.start.toISOString(),
+          to: range.end.toISOString(),
+        }),
+        workOrdersApi.getAll({ unscheduled: true }),
+        vendorsApi.getAll(),
+        buildingsApi.getAll(),
+      ]);
+      setAllWorkOrders(w.data); setAllUnscheduled(u.data.filter(isActive)); setVendors(v.data); setBuildings(b.data);
+    } catch { setError(t('schedule.failedLoad')); } finally { setLoading(false); }
+  }, [range, t]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const workOrders = useMemo(
+    () => (filterBuilding ? allWorkOrders.filter(wo => wo.buildingId === filterBuilding) : allWorkOrders),
+    [allWorkOrders, filterBuilding]);
+  const unscheduled = useMemo(
+    () => (filterBuilding ? allUnscheduled.filter(wo => wo.buildingId === filterBuilding) : allUnscheduled),
+    [allUnscheduled, filterBuilding]);
+  const doubleBooked = useMemo(() => findDoubleBookings(allWorkOrders), [allWorkOrders]);
+  const visibleClashes = workOrders.filter(wo => doubleBooked.has(wo.id)).length;
+
+  const itemColor = (wo: WorkOrderDto) => colorFor(colorBy === 'vendor' ? wo.vendorId : wo.buildingId);
+
+  const itemsOn = (day: Date, vendorId?: number | null) =>
+    workOrders
+      .filter(wo => wo.scheduledFor && isSameDay(new Date(wo.scheduledFor), day))
+      .filter(wo => vendorId === undefined || (wo.vendorId ?? null) === vendorId)
+      .sort((a, b) => new Date(a.scheduledFor!).getTime() - new Date(b.scheduledFor!).getTime());
+
+  const executeMove = async (wo: WorkOrderDto, vendorId: number, scheduledFor: Date) => {
+    try {
+      await workOrdersApi.reschedule(wo.id, { vendorId, scheduledFor: scheduledFor.toISOString() });
+      setSuccess(t('schedule.moved', { id: wo.id }));
+      load();
+    } catch { setError(t('schedule.failedMove')); }
+  };
+
+  const requestMove = async (wo: WorkOrderDto, vendorId: number | null | undefined, scheduledFor: Date) => {
+    if (!vendorId) { setError(t('schedule.needsVendor')); return; }
+    if (!isActive(wo)) { setError(t('schedule.closedOrder')); return; }
+    // The target slot may lie outside the loaded period, so ask for the vendor's jobs around it in every building
+    const windowMs = DEFAULT_JOB_HOURS * 3_600_000;
+    let vendorJobs: WorkOrderDto[];
+    try {
+      const r = await workOrdersApi.getAll({
+        vendorId,
+        from: new Date(scheduledFor.getTime() - windowMs).toISOString(),
+        to: new Date(scheduledFor.getTime() + windowMs).toISOString(),
+      });
+      vendorJobs = r.data;
+    } catch { setError(t('schedule.failedMove')); return; }
+    const clashesWith = vendorJobs.filter(other =>
+      other.id !== wo.id && other.vendorId === vendorId && other.scheduledFor && isActive(other) &&
+      Math.abs(new Date(other.scheduledFor).getTime() - scheduledFor.getTime()) < windowMs);
+    if (clashesWith.length > 0) { setPendingMove({ workOrder: wo, vendorId, scheduledFor, clashesWith }); return; }
+    executeMove(wo, vendorId, scheduledFor);
+  };
+
+  const handleDrop = (e: React.DragEvent, day: Date, vendorId?: number | null) => {
+    e.preventDefault();
+    const wo = [...workOrders, ...unscheduled].find(w => w.id === Number(e.dataTransfer.getData('text/plain')));
+    if (!wo) return;
+    const targetVendor = vendorId === undefined ? wo.vendorId : vendorId;
+    const target = moveToDay(wo, day);
+    if (targetVendor === wo.vendorId && wo.scheduledFor && isSameDay(new Date(wo.scheduledFor), target)) return;
+    requestMove(wo, targetVendor, target);
+  };
+
+  const handleGenerateCleaning = async () => {
+    try {
+      const r = filterBuilding ? await cleaningPlansApi.generateWeekly(filterBuilding) : await jobsApi.generateCleaningWeek();
+      setSuccess(r.data.message); load();
+    } catch { setError(t('schedule.failedGenerate')); }
+  };
+
+  const handleGeneratePreventive = async () => {
+    try { const r = await preventivePlansApi.generateNow(); setSuccess(r.data.message); load(); }
+    catch { setError(t('schedule.failedGenerate')); }
+  };
+
+  const openItem = (wo: WorkOrderDto) => {
+    setSelected(wo);
+    setEditForm({ vendorId: wo.vendorId ? String(wo.vendorId) : '', date: toInputDate(wo.scheduledFor) });
+  };
+
+  const handleSaveItem = () => {
+    if (!selected || !editForm.date) return;
+    const [y, m, d] = editForm.date.split('-').map(Number);
+    setSelected(null);
+    requestMove(selected, editForm.vendorId ? Number(editForm.vendorId) : null, moveToDay(selected, new Date(y, m - 1, d)));
+  };
+
+  const shift = (dir: 1 | -1) => setAnchor(a => (view === 'week' ? addWeeks(a, dir) : addMonths(a, dir)));
+
+  const dayHeader = (day: Date) => day.toLocaleDateString(getIntlLocale(), { weekday: 'short', day: 'numeric', month: view === 'week' ? 'short' : undefined });
+  const periodLabel = view === 'week'
+    ? `${range.start.toLocaleDateString(getIntlLocale(), { day: 'numeric', month: 'short' })} – ${addDays(range.end, -1).toLocaleDateString(getIntlLocale(), { day: 'numeric', month: 'short', year: 'numeric' })}`
+    : anchor.toLocaleDateString(getIntlLocale(), { month: 'long', year: 'numeric' });
+
+  const renderItem = (wo: WorkOrderDto, compact = false) => {
+    const clash = doubleBooked.has(wo.id);
+    return (
+      <Tooltip key={wo.id} title={`#${wo.id} ${wo.title} · ${wo.buildingName ?? ''} · ${wo.vendorName ?? t('workOrders.unassigned')} · ${formatDateLocal(wo.scheduledFor)}`}>
+        <Box
+          draggable={isActive(wo)}
+          onDragStart={e => e.dataTransfer.setData('text/plain', String(wo.id))}
+          onClick={() => openItem(wo)}
+          sx={{
+            px: 0.75, py: 0.25, mb: 0.5, borderRadius: 1, cursor: isActive(wo) ? 'grab' : 'pointer',
+            fontSize: '0.72rem', color: '#fff', bgcolor: itemColor(wo),
+            opacity: isActive(wo) ? 1 : 0.5,
+            outline: clash ? '2px solid' : 'none', outlineColor: 'error.main',
+            whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis',
+          }}
+        >
+          {clash && <Warning sx={{ fontSize: 12, verticalAlign: 'middle', mr: 0.25 }} />}
+          {new Date(wo.scheduledFor!).toLocaleTimeString(getIntlLocale(), { hour: '2-digit', minute: '2-digit' })}{' '}
+          {compact ? wo.title : `${wo.title} · ${colorBy === 'vendor' ? wo.buildingName ?? '' : wo.vendorName ?? t('workOrders.unassigned')}`}
+        </Box>
+      </Tooltip>
+    );
+  };
+
+  const dropTarget = (day: Date, vendorId?: number | null) => ({
+    onDragOver: (e: React.DragEvent) => e.preventDefault(),
+    onDrop: (e: React.DragEvent) => handleDrop(e, day, vendorId),
+  });
+
+  const legend = colorBy === 'vendor'
+    ? vendors.filter(v => workOrders.some(wo => wo.vendorId === v.id)).map(v => ({ id: v.id, name: v.name }))
+    : buildings.filter(b => workOrders.some(wo => wo.buildingId === b.id)).map(b => ({ id: b.id, name: b.name }));
+
+  // Timeline rows: unassigned first, then every vendor (so jobs can be dropped on an idle vendor)
+  const rows: { id: number | null; name: string }[] = [
+    { id: null, name: t('workOrders.unassigned') },
+    ...vendors.map(v => ({ id: v.id, name: v.name })),
+  ];
+
+  return (
+    <Box>
+      <Typography variant="h4" sx={{ fontWeight: 700, mb: 2, fontSize: { xs: '1.3rem', md: '2rem' } }}>{t('schedule.title')}</Typography>
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
+      {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess('')}>{success}</Alert>}
+      {visibleClashes > 0 && (
+        <Alert severity="warning" icon={<Warning />} sx={{ mb: 2 }}>{t('schedule.doubleBookedWarning', { count: visibleClashes, hours: DEFAULT_JOB_HOURS })}</Alert>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+        <ToggleButtonGroup size="small" exclusive value={view} onChange={(_, v) => v && setView(v)}>
+          <ToggleButton value="week">{t('schedule.week')}</ToggleButton>
+          <ToggleButton value="month">{t('schedule.month')}</ToggleButton>
+        </ToggleButtonGroup>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <IconButton size="small" onClick={() => shift(-1)}><ChevronLeft sx={{ transform: theme.direction === 'rtl' ? 'scaleX(-1)' : undefined }} /></IconButton>
+          <Button size="small" startIcon={<Today />} onClick={() => setAnchor(new Date())}>{t('schedule.today')}</Button>
+          <IconButton size="small" onClick={() => shift(1)}><ChevronRight sx={{ transform: theme.direction === 'rtl' ? 'scaleX(-1)' : undefined }} /></IconButton>
+          <Typography variant="subtitle1" sx={{ mx: 1 }}>{periodLabel}</Typography>
+        </Box>
+        <TextField select label={t('schedule.building')} value={filterBuilding} onChange={e => setFilterBuilding(e.target.value ? Number(e.target.value) : '')} size="small" sx={{ minWidth: 180 }}>
+          <MenuItem value="">{t('app.all')}</MenuItem>
+          {buildings.map(b => <MenuItem key={b.id} value={b.id}>{b.name}</MenuItem>)}
+        </TextField>
+        <TextField select label={t('schedule.colorBy')} value={colorBy} onChange={e => setColorBy(e.target.value as ColorBy)} size="small" sx={{ minWidth: 140 }}>
+          <MenuItem value="vendor">{t('schedule.vendor')}</MenuItem>
+          <MenuItem value="building">{t('schedule.building')}</MenuItem>
+        </TextField>
+        <Box sx={{ flexGrow: 1 }} />
+        <Button variant="outlined" size="small" startIcon={<CleaningServices />} onClick={handleGenerateCleaning}>{t('schedule.generateCleaning')}</Button>
+        <Button variant="outlined" size="small" startIcon={<Build />} onClick={handleGeneratePreventive}>{t('schedule.generatePreventive')}</Button>
+      </Box>
+
+      {legend.length > 0 && (
+        <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+          {legend.map(l => <Chip key={l.id} label={l.name} size="small" sx={{ bgcolor: colorFor(l.id), color: '#fff' }} />)}
+        </Box>
+      )}
+
+      {!loading && unscheduled.length > 0 && (
+        <Paper variant="outlined" sx={{ p: 1, mb: 2 }}>
+          <Typography variant="subtitle2" sx={{ mb: 0.5 }}>{t('schedule.unscheduled', { count: unscheduled.length })}</Typography>
+          <Box sx={{ display: 'flex', gap: 0.75, flexWrap: 'wrap' }}>
+            {unscheduled.map(wo => (
+              <Tooltip key={wo.id} title={`#${wo.id} ${wo.title} · ${wo.buildingName ?? ''} · ${wo.vendorName ?? t('workOrders.unassigned')}`}>
+                <Chip size="small" label={`#${wo.id} ${wo.title}`} draggable
+                  onDragStart={e => e.dataTransfer.setData('text/plain', String(wo.id))}
+                  onClick={() => openItem(wo)}
+                  sx={{ maxWidth: 260, cursor: 'grab', color: '#fff', bgcolor: itemColor(wo) }} />
+              </Tooltip>
+            ))}
+          </Box>
+        </Paper>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}><CircularProgress /></Box>
+      ) : view === 'week' && !isMobile ? (
+        <Paper sx={{ overflowX: 'auto' }}>
+          <Box sx={{ display: 'grid', gridTemplateColumns: '160px repeat(7, minmax(120px, 1fr))', minWidth: 1000 }}>
+            <Box sx={{ p: 1, borderBottom: 1, borderColor: 'divider' }} />
+            {days.map(day => (
+              <Box key={day.toISOString()} sx={{ p: 1, borderBottom: 1, borderColor: 'divider', fontWeight: 600, fontSize: '0.8rem', bgcolor: isSameDay(day, new Date()) ? 'rgba(26,86,160,0.08)' : undefined }}>
+                {dayHeader(day)}
+              </Box>
+            ))}
+            {rows.map(row => (
+              <React.Fragment key={row.id ?? 'unassigned'}>
+                <Box sx={{ p: 1, borderBottom: 1, borderColor: 'divider', fontSize: '0.8rem', fontWeight: 500, display: 'flex', alignItems: 'center', gap: 0.75 }}>
+                  {row.id != null && <Box sx={{ width: 10, height: 10, borderRadius: '50%', bgcolor: colorFor(row.id), flexShrink: 0 }} />}
+                  {row.name}
+                </Box>
+                {days.map(day => (
+                  <Box key={day.toISOString()} {...dropTarget(day, row.id)}
+                    sx={{ p: 0.5, minHeight: 44, borderBottom: 1, borderInlineStart: 1, borderColor: 'divider' }}>
+                    {itemsOn(day, row.id).map(wo => renderItem(wo, true))}
+                  </Box>
+                ))}
+              </React.Fragment>
+            ))}
+          </Box>
+        </Paper>
+      ) : (
+        <Paper sx={{ overflowX: 'auto' }}>
+          <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, minmax(110px, 1fr))', minWidth: isMobile ? 770 : undefined }}>
+            {days.slice(0, 7).map(day => (
+              <Box key={day.toISOString()} sx={{ p: 1, fontWeight: 600, fontSize: '0.8rem', borderBottom: 1, borderColor: 'divider' }}>
+                {day.toLocaleDateString(getIntlLocale(), { weekday: 'short' })}
+              </Box>
+            ))}
+            {days.map(day => {
+              const items = itemsOn(day);
+              return (
+                <Box key={day.toISOString()} {...dropTarget(day)}
+                  sx={{
+                    p: 0.5, minHeight: view === 'week' ? 200 : 110, borderBottom: 1, borderInlineStart: 1, borderColor: 'divider',
+                    bgcolor: isSameDay(day, new Date()) ? 'rgba(26,86,160,0.06)' : undefined,
+                    opacity: view === 'month' && !isSameMonth(day, anchor) ? 0.5 : 1,
+                  }}>
+                  <Typography variant="caption" color="text.secondary">{day.getDate()}</Typography>
+                  {items.slice(0, view === 'month' ? 4 : items.length).map(wo => renderItem(wo))}
+                  {view === 'month' && items.length > 4 && (
+                    <Typography variant="caption" color="primary" sx={{ cursor: 'pointer' }} onClick={() => { setAnchor(day); setView('week'); }}>
+                      {t('schedule.more', { count: items.length - 4 })}
+                    </Typography>
+                  )}
+                </Box>
+              );
+            })}
+          </Box>
+        </Paper>
+      )}
+
+      {/* Reschedule / reassign without drag and drop (mobile, keyboard) */}
+      <Dialog open={!!selected} onClose={() => setSelected(null)} maxWidth="xs" fullWidth>
+        {selected && (<>
+          <DialogTitle>{t('vendorWo.detailTitle', { id: selected.id })}</DialogTitle>
+          <DialogContent>
+            <Typography variant="body2" sx={{ mb: 0.5 }}><strong>{t('workOrders.woTitle')}:</strong> {selected.title}</Typography>
+            <Typography variant="body2" sx={{ mb: 0.5 }}><strong>{t('workOrders.building')}:</strong> {selected.buildingName}</Typography>
+            <Typography variant="body2" sx={{ mb: 2 }}><strong>{t('workOrders.status')}:</strong> {t(`enums.woStatus.${selected.status}`, selected.status)}</Typography>
+            <TextField fullWidth select label={t('workOrders.vendor')} value={editForm.vendorId} onChange={e => setEditForm({ ...editForm, vendorId: e.target.value })} sx={{ mb: 2 }} disabled={!isActive(selected)}>
+              {vendors.map(v => <MenuItem key={v.id} value={v.id}>{v.name}</MenuItem>)}
+            </TextField>
+            <TextField fullWidth type="date" label={t('workOrders.scheduled')} value={editForm.date} onChange={e => setEditForm({ ...editForm, date: e.target.value })} InputLabelProps={{ shrink: true }} disabled={!isActive(selected)} />
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setSelected(null)}>{t('app.cancel')}</Button>
+            <Button variant="contained" onClick={handleSaveItem} disabled={!isActive(selected) || !editForm.vendorId || !editForm.date}>{t('app.save')}</Button>
+          </DialogActions>
+        </>)}
+      </Dialog>
+
+      {/* Double-booking confirmation */}
+      <Dialog open={!!pendingMove} onClose={() => setPendingMove(null)} maxWidth="sm" fullWidth>
+        {pendingMove && (<>
+          <DialogTitle>{t('schedule.doubleBookTitle')}</DialogTitle>
+          <DialogContent>
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {t('schedule.doubleBookMessage', {
+                vendor: vendors.find(v => v.id === pendingMove.vendorId)?.name ?? '',
+                time: formatDateLocal(pendingMove.scheduledFor.toISOString()),
+              })}
+            </Alert>
+            {pendingMove.clashesWith.map(wo => (
+              <Typography key={wo.id} variant="body2">#{wo.id} {wo.title} · {wo.buildingName} · {formatDateLocal(wo.scheduledFor)}</Typography>
+            ))}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setPendingMove(null)}>{t('app.cancel')}</Button>
+            <Button variant="contained" color="warning" onClick={() => {
+              const move = pendingMove; setPendingMove(null);
+              executeMove(move.workOrder, move.vendorId, move.scheduledFor);
+            }}>{t('schedule.scheduleAnyway')}</Button>
+          </DialogActions>
+        </>)}
+      </Dialog>
+    </Box>
+  );
+};
+
+export default SchedulePage;
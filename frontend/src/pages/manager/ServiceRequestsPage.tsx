@@ -1,19 +1,21 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useState, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import {
-  Box, Typography, Table, TableBody, TableCell, TableContainer, TableHead, TableRow,
-  Paper, Chip, MenuItem, TextField, Button, Dialog, DialogTitle, DialogContent,
-  DialogActions, CircularProgress, Alert, useMediaQuery, useTheme, Card, CardContent,
-  Stack, CardActionArea, FormControlLabel, Switch, ImageList, ImageListItem, IconButton
+  Box, Typography, Chip, MenuItem, TextField, Button, Dialog, DialogTitle, DialogContent,
+  DialogActions, Alert, useMediaQuery, useTheme, Card, CardContent,
+  Stack, CardActionArea, FormControlLabel, Switch, ImageList, ImageListItem, IconButton, CircularProgress
 } from '@mui/material';
 import { Visibility, Add, Delete, CloudUpload, NoteAdd, Edit, BugReport, Chat, FiberNew } from '@mui/icons-material';
 import { serviceRequestsApi, buildingsApi, workOrdersApi, vendorsApi } from '../../api/services';
-import type { ServiceRequestDto, BuildingDto, VendorDto, UnitDto } from '../../types';
+import type { ServiceRequestDto, BuildingDto, VendorDto, UnitDto, GridQuery } from '../../types';
 import { SR_STATUSES, AREAS, CATEGORIES, PRIORITIES } from '../../types';
 import { formatDateLocal } from '../../utils/dateUtils';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../../auth/AuthContext';
 import { useNotifications } from '../../contexts/NotificationContext';
 import TicketChat from '../../components/TicketChat';
+import DataGrid from '../../components/DataGrid';
+import type { DataGridColumn, DataGridFilter } from '../../components/DataGrid';
 
 const priorityColor = (p: string) => p === 'Critical' ? 'error' : p === 'High' ? 'warning' : p === 'Medium' ? 'info' : 'default';
 const statusColor = (s: string) => s === 'New' ? 'info' : s === 'Resolved' ? 'success' : s === 'Rejected' ? 'error' : 'default';
@@ -34,14 +36,12 @@ const ServiceRequestsPage: React.FC = () => {
   const { notificationTick } = useNotifications();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
-  const [requests, setRequests] = useState<ServiceRequestDto[]>([]);
+  const [searchParams] = useSearchParams();
   const [buildings, setBuildings] = useState<BuildingDto[]>([]);
   const [vendors, setVendors] = useState<VendorDto[]>([]);
-  const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
-  const [filterStatus, setFilterStatus] = useState('');
-  const [filterBuilding, setFilterBuilding] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
   const [detailOpen, setDetailOpen] = useState(false);
   const [selected, setSelected] = useState<ServiceRequestDto | null>(null);
   const [woDialogOpen, setWoDialogOpen] = useState(false);
@@ -60,22 +60,17 @@ const ServiceRequestsPage: React.FC = () => {
     area: 'Other', category: 'General', priority: 'Medium', isEmergency: false, description: ''
   });
 
-  const load = async () => {
-    try {
-      setLoading(true);
-      const params: any = {};
-      if (filterStatus && filterStatus !== '__unassigned') params.status = filterStatus;
-      if (filterBuilding) params.buildingId = Number(filterBuilding);
-      const [r, b, v] = await Promise.all([serviceRequestsApi.getAll(params), buildingsApi.getAll(), vendorsApi.getAll()]);
-      let data = r.data;
-      if (filterStatus === '__unassigned') {
-        data = data.filter(sr => !sr.assignedVendorId);
-      }
-      setRequests(data); setBuildings(b.data); setVendors(v.data);
-    } catch { setError(t('serviceRequests.failedLoad')); } finally { setLoading(false); }
-  };
+  // The grid owns the building filter; the create dialog preselects it
+  const filterBuilding = searchParams.get('buildingId') ?? '';
 
-  useEffect(() => { load(); }, [filterStatus, filterBuilding, notificationTick]);
+  useEffect(() => {
+    Promise.all([buildingsApi.getAll(), vendorsApi.getAll()])
+      .then(([b, v]) => { setBuildings(b.data); setVendors(v.data); })
+      .catch(() => setError(t('serviceRequests.failedLoad')));
+  }, [t]);
+
+  const fetchRows = useCallback((query: GridQuery) => serviceRequestsApi.getPaged(query).then(r => r.data), []);
+  const load = () => setRefreshKey(k => k + 1);
 
   const handleTicketUpdated = (update: { ticketId: number; area?: string; category?: string; priority?: string; isEmergency?: boolean; description?: string; status?: string }) => {
     const patch = (sr: ServiceRequestDto) => ({
@@ -88,7 +83,6 @@ const ServiceRequestsPage: React.FC = () => {
       status: update.status ?? sr.status,
     });
     setSelected(prev => prev ? patch(prev) : prev);
-    setRequests(prev => prev.map(sr => sr.id === update.ticketId ? patch(sr) : sr));
   };
 
   const loadCreateUnits = async (buildingId: number) => {
@@ -200,7 +194,37 @@ const ServiceRequestsPage: React.FC = () => {
     return `${sr.buildingName || ''} – ${t(`enums.area.${sr.area}`, sr.area)} – ${t(`enums.category.${sr.category}`, sr.category)}`;
   };
 
-  if (loading) return <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}><CircularProgress /></Box>;
+  const openDetail = (sr: ServiceRequestDto) => { setSelected(sr); setStatusForm(sr.status); setDetailOpen(true); };
+
+  const badges = (sr: ServiceRequestDto) => (<>
+    {sr.hasUnreadMessages && <Chip icon={<FiberNew sx={{ fontSize: 14 }} />} label={t('ticketChat.unread')} size="small" color="error" sx={{ height: 20, '& .MuiChip-label': { px: 0.5, fontSize: '0.65rem' } }} />}
+    {sr.incidentGroupId && <Chip icon={<BugReport sx={{ fontSize: 14 }} />} label={`#${sr.incidentGroupId}`} size="small" color="warning" variant="outlined" sx={{ height: 20, '& .MuiChip-label': { px: 0.5, fontSize: '0.65rem' } }} />}
+    {(sr.messageCount ?? 0) > 0 && <Chip icon={<Chat sx={{ fontSize: 14 }} />} label={sr.messageCount} size="small" variant="outlined" sx={{ height: 20, '& .MuiChip-label': { px: 0.5, fontSize: '0.65rem' } }} />}
+  </>);
+
+  const columns: DataGridColumn<ServiceRequestDto>[] = [
+    { field: 'id', headerName: t('serviceRequests.id'), sortable: true, render: sr => sr.id },
+    {
+      field: 'buildingName', headerName: t('serviceRequests.ticketTitle'), sortable: true, hideable: false,
+      render: sr => <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>{srTitle(sr)}{badges(sr)}</Box>,
+    },
+    { field: 'area', headerName: t('serviceRequests.area'), sortable: true, defaultHidden: true, render: sr => t(`enums.area.${sr.area}`, sr.area) },
+    { field: 'category', headerName: t('serviceRequests.category'), sortable: true, defaultHidden: true, render: sr => t(`enums.category.${sr.category}`, sr.category) },
+    { field: 'priority', headerName: t('serviceRequests.priority'), sortable: true, render: sr => <Chip label={t(`enums.priority.${sr.priority}`, sr.priority)} size="small" color={priorityColor(sr.priority) as any} /> },
+    { field: 'status', headerName: t('serviceRequests.status'), sortable: true, render: sr => <Chip label={t(`enums.srStatus.${sr.status}`, sr.status)} size="small" color={statusColor(sr.status) as any} /> },
+    { field: 'vendor', headerName: t('serviceRequests.assignedVendor'), defaultHidden: true, render: sr => sr.assignedVendorName || '—' },
+    { field: 'submittedByName', headerName: t('serviceRequests.submittedBy'), sortable: true, render: sr => sr.submittedByName },
+    { field: 'createdAtUtc', headerName: t('serviceRequests.date'), sortable: true, render: sr => formatDateLocal(sr.createdAtUtc) },
+    { field: 'actions', headerName: t('app.actions'), hideable: false, render: sr => <Button size="small" startIcon={<Visibility />} onClick={() => openDetail(sr)}>{t('app.view')}</Button> },
+  ];
+
+  const filters: DataGridFilter[] = [
+    { key: 'status', label: t('serviceRequests.filterStatus'), options: SR_STATUSES.map(s => ({ value: s, label: t(`enums.srStatus.${s}`, s) })) },
+    { key: 'unassignedOnly', label: t('serviceRequests.assignment'), options: [{ value: 'true', label: t('serviceRequests.unassignedOnly') }] },
+    { key: 'buildingId', label: t('serviceRequests.filterBuilding'), allLabel: t('serviceRequests.allBuildings'), minWidth: 200, options: buildings.map(b => ({ value: String(b.id), label: b.name })) },
+    { key: 'priority', label: t('serviceRequests.priority'), options: PRIORITIES.map(p => ({ value: p, label: t(`enums.priority.${p}`, p) })) },
+    { key: 'category', label: t('serviceRequests.category'), options: CATEGORIES.map(c => ({ value: c, label: t(`enums.category.${c}`, c) })) },
+  ];
 
   return (
     <Box>
@@ -213,78 +237,36 @@ const ServiceRequestsPage: React.FC = () => {
       {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
       {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess('')}>{success}</Alert>}
 
-      <Box sx={{ display: 'flex', gap: 2, mb: 3, flexWrap: 'wrap' }}>
-        <TextField select label={t('serviceRequests.filterStatus')} value={filterStatus} onChange={e => setFilterStatus(e.target.value)} size="small" sx={{ minWidth: 160 }}>
-          <MenuItem value="">{t('app.all')}</MenuItem>
-          <MenuItem value="__unassigned">{t('serviceRequests.unassignedOnly')}</MenuItem>
-          {SR_STATUSES.map(s => <MenuItem key={s} value={s}>{t(`enums.srStatus.${s}`, s)}</MenuItem>)}
-        </TextField>
-        <TextField select label={t('serviceRequests.filterBuilding')} value={filterBuilding} onChange={e => setFilterBuilding(e.target.value)} size="small" sx={{ minWidth: 200 }}>
-          <MenuItem value="">{t('serviceRequests.allBuildings')}</MenuItem>
-          {buildings.map(b => <MenuItem key={b.id} value={b.id}>{b.name}</MenuItem>)}
-        </TextField>
-      </Box>
-
-      {isMobile ? (
-        <Stack spacing={1.5}>
-          {requests.map(sr => (
-            <Card key={sr.id} variant="outlined">
-              <CardActionArea onClick={() => { setSelected(sr); setStatusForm(sr.status); setDetailOpen(true); }}>
-                <CardContent sx={{ py: 1.5, px: 2, '&:last-child': { pb: 1.5 } }}>
-                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
-                    <Typography variant="subtitle2">#{sr.id}</Typography>
-                    <Box sx={{ display: 'flex', gap: 0.5 }}>
-                      <Chip label={t(`enums.priority.${sr.priority}`, sr.priority)} size="small" color={priorityColor(sr.priority) as any} />
-                      <Chip label={t(`enums.srStatus.${sr.status}`, sr.status)} size="small" color={statusColor(sr.status) as any} />
-                    </Box>
-                  </Box>
-                  <Typography variant="body2" fontWeight={600} noWrap>{srTitle(sr)}</Typography>
-                  <Box sx={{ display: 'flex', gap: 0.5, alignItems: 'center' }}>
-                    <Typography variant="caption" color="text.secondary">{sr.submittedByName} · {formatDateLocal(sr.createdAtUtc)}</Typography>
-                    {sr.hasUnreadMessages && <Chip icon={<FiberNew sx={{ fontSize: 14 }} />} label={t('ticketChat.unread')} size="small" color="error" sx={{ height: 20, '& .MuiChip-label': { px: 0.5, fontSize: '0.65rem' } }} />}
-                    {sr.incidentGroupId && <Chip icon={<BugReport sx={{ fontSize: 14 }} />} label={`#${sr.incidentGroupId}`} size="small" color="warning" variant="outlined" sx={{ height: 20, '& .MuiChip-label': { px: 0.5, fontSize: '0.65rem' } }} />}
-                    {(sr.messageCount ?? 0) > 0 && <Chip icon={<Chat sx={{ fontSize: 14 }} />} label={sr.messageCount} size="small" variant="outlined" sx={{ height: 20, '& .MuiChip-label': { px: 0.5, fontSize: '0.65rem' } }} />}
+      <DataGrid
+        gridKey="manager.serviceRequests"
+        columns={columns}
+        filters={filters}
+        fetchRows={fetchRows}
+        rowKey={sr => sr.id}
+        defaultSort={{ field: 'createdAtUtc', dir: 'desc' }}
+        emptyText={t('serviceRequests.noRequests')}
+        refreshKey={refreshKey + notificationTick}
+        renderMobileCard={sr => (
+          <Card variant="outlined">
+            <CardActionArea onClick={() => openDetail(sr)}>
+              <CardContent sx={{ py: 1.5, px: 2, '&:last-child': { pb: 1.5 } }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
+                  <Typography variant="subtitle2">#{sr.id}</Typography>
+                  <Box sx={{ display: 'flex', gap: 0.5 }}>
+                    <Chip label={t(`enums.priority.${sr.priority}`, sr.priority)} size="small" color={priorityColor(sr.priority) as any} />
+                    <Chip label={t(`enums.srStatus.${sr.status}`, sr.status)} size="small" color={statusColor(sr.status) as any} />
                   </Box>
-                </CardContent>
-              </CardActionArea>
-            </Card>
-          ))}
-          {requests.length === 0 && <Typography align="center" color="text.secondary" sx={{ py: 4 }}>{t('serviceRequests.noRequests')}</Typography>}
-        </Stack>
-      ) : (
-        <TableContainer component={Paper}>
-          <Table size="small">
-            <TableHead><TableRow>
-              <TableCell>{t('serviceRequests.id')}</TableCell><TableCell>{t('serviceRequests.ticketTitle')}</TableCell>
-              <TableCell>{t('serviceRequests.priority')}</TableCell><TableCell>{t('serviceRequests.status')}</TableCell>
-              <TableCell>{t('serviceRequests.submittedBy')}</TableCell><TableCell>{t('serviceRequests.date')}</TableCell><TableCell>{t('app.actions')}</TableCell>
-            </TableRow></TableHead>
-            <TableBody>
-              {requests.map(sr => (
-                <TableRow key={sr.id} hover>
-                  <TableCell>{sr.id}</TableCell>
-                  <TableCell>
-                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
-                      {srTitle(sr)}
-                      {sr.hasUnreadMessages && <Chip icon={<FiberNew sx={{ fontSize: 14 }} />} label={t('ticketChat.unread')} size="small" color="error" sx={{ height: 20, '& .MuiChip-label': { px: 0.5, fontSize: '0.65rem' } }} />}
-                      {sr.incidentGroupId && <Chip icon={<BugReport sx={{ fontSize: 14 }} />} label={`#${sr.incidentGroupId}`} size="small" color="warning" variant="outlined" sx={{ height: 20, '& .MuiChip-label': { px: 0.5, fontSize: '0.65rem' } }} />}
-                      {(sr.messageCount ?? 0) > 0 && <Chip icon={<Chat sx={{ fontSize: 14 }} />} label={sr.messageCount} size="small" variant="outlined" sx={{ height: 20, '& .MuiChip-label': { px: 0.5, fontSize: '0.65rem' } }} />}
-                    </Box>
-                  </TableCell>
-                  <TableCell><Chip label={t(`enums.priority.${sr.priority}`, sr.priority)} size="small" color={priorityColor(sr.priority) as any} /></TableCell>
-                  <TableCell><Chip label={t(`enums.srStatus.${sr.status}`, sr.status)} size="small" color={statusColor(sr.status) as any} /></TableCell>
-                  <TableCell>{sr.submittedByName}</TableCell>
-                  <TableCell>{formatDateLocal(sr.createdAtUtc)}</TableCell>
-                  <TableCell>
-                    <Button size="small" startIcon={<Visibility />} onClick={() => { setSelected(sr); setStatusForm(sr.status); setDetailOpen(true); }}>{t('app.view')}</Button>
-                  </TableCell>
-                </TableRow>
-              ))}
-              {requests.length === 0 && <TableRow><TableCell colSpan={7} align="center">{t('serviceRequests.noRequests')}</TableCell></TableRow>}
-            </TableBody>
-          </Table>
-        </TableContainer>
-      )}
+                </Box>
+                <Typography variant="body2" fontWeight={600} noWrap>{srTitle(sr)}</Typography>
+                <Box sx={{ display: 'flex', gap: 0.5, alignItems: 'center' }}>
+                  <Typography variant="caption" color="text.secondary">{sr.submittedByName} · {formatDateLocal(sr.createdAtUtc)}</Typography>
+                  {badges(sr)}
+                </Box>
+              </CardContent>
+            </CardActionArea>
+          </Card>
+        )}
+      />
 
       {/* Detail Dialog */}
       <Dialog open={detailOpen} onClose={() => { setDetailOpen(false); load(); }} maxWidth="md" fullWidth fullScreen={isMobile}>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   Typography, Box, Button, Card, CardContent, Table, TableBody, TableCell,
   TableContainer, TableHead, TableRow, Paper, Dialog, DialogTitle, DialogContent,
@@ -6,16 +6,47 @@ import {
   FormControl, InputLabel, Select, IconButton, Tooltip, Stack,
   Checkbox, FormControlLabel, useMediaQuery, useTheme, ToggleButtonGroup, ToggleButton
 } from '@mui/material';
-import { Send, Preview, Delete, Notifications, Sms, Email } from '@mui/icons-material';
+import {
+  Send, Preview, Delete, Notifications, Sms, Email, Gavel, EditNote, Link as LinkIcon, Replay, Refresh, WhatsApp,
+  NotificationsActive, Outbox
+} from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
 import { buildingsApi, smsApi } from '../../api/services';
 import type {
-  BuildingDto, SmsTemplateDto, SmsCampaignRecipientDto, SmsCampaignDto, SendCampaignResult, ReminderChannel
+  BuildingDto, SmsTemplateDto, SmsCampaignRecipientDto, SmsCampaignDto, SendCampaignResult, ReminderChannel,
+  MessageDeliveryStatus, StandInOutboxDto
 } from '../../types';
 import { REMINDER_CHANNELS } from '../../types';
+import { formatCurrency, formatDateLocal } from '../../utils/dateUtils';
 import { useTranslation } from 'react-i18next';
 
+/** Mirrors the server: a selected recipient the reminder did not reach. */
+const isRetryable = (r: SmsCampaignRecipientDto) =>
+  r.isSelected && (r.sendStatus === 'Failed' || r.sendStatus === 'Skipped'
+    || r.deliveryStatus === 'Undelivered' || r.deliveryStatus === 'Bounced');
+
+const deliveryColor = (status: MessageDeliveryStatus): 'success' | 'error' | 'default' => {
+  switch (status) {
+    case 'Delivered': return 'success';
+    case 'Undelivered': return 'error';
+    case 'Bounced': return 'error';
+    default: return 'default';
+  }
+};
+
+const channelIcon = (ch: ReminderChannel) => {
+  switch (ch) {
+    case 'Sms': return <Sms sx={{ mr: 0.5, fontSize: 18 }} />;
+    case 'Email': return <Email sx={{ mr: 0.5, fontSize: 18 }} />;
+    case 'WhatsApp': return <WhatsApp sx={{ mr: 0.5, fontSize: 18, color: '#25d366' }} />;
+    case 'Push': return <NotificationsActive sx={{ mr: 0.5, fontSize: 18 }} />;
+    default: return <><Sms sx={{ mr: 0.3, fontSize: 16 }} /><Email sx={{ mr: 0.5, fontSize: 16 }} /></>;
+  }
+};
+
 const SendRemindersPage: React.FC = () => {
   const { t } = useTranslation();
+  const navigate = useNavigate();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
 
@@ -44,6 +75,24 @@ const SendRemindersPage: React.FC = () => {
   const [sendResult, setSendResult] = useState<SendCampaignResult | null>(null);
   const [sendResultOpen, setSendResultOpen] = useState(false);
 
+  // Retry of recipients not reached: all of them, or the one row it was opened from
+  const [retryOpen, setRetryOpen] = useState(false);
+  const [retryIds, setRetryIds] = useState<number[] | null>(null);
+  const [retryChannel, setRetryChannel] = useState<ReminderChannel>('Sms');
+
+  // Sent campaigns of the building, with payment link conversions
+  const [history, setHistory] = useState<SmsCampaignDto[]>([]);
+
+  // Messages the local stand-in providers accepted instead of sending
+  const [outbox, setOutbox] = useState<StandInOutboxDto | null>(null);
+  const [outboxOpen, setOutboxOpen] = useState(false);
+
+  const loadOutbox = useCallback(() => {
+    smsApi.getStandInOutbox().then(r => setOutbox(r.data)).catch(() => { /* outbox is a testing aid */ });
+  }, []);
+
+  useEffect(() => { loadOutbox(); }, [loadOutbox]);
+
   useEffect(() => {
     buildingsApi.getAll().then(r => { setBuildings(r.data); if (r.data.length > 0) setSelectedBuilding(r.data[0].id); });
     smsApi.getTemplates().then(r => {
@@ -54,6 +103,24 @@ const SendRemindersPage: React.FC = () => {
     });
   }, []);
 
+  const loadHistory = useCallback(async () => {
+    if (!selectedBuilding) return;
+    try {
+      const r = await smsApi.getCampaigns({ buildingId: selectedBuilding as number });
+      setHistory(r.data.filter(c => c.status === 'Sent'));
+    } catch { /* history is secondary to the page */ }
+  }, [selectedBuilding]);
+
+  useEffect(() => { loadHistory(); }, [loadHistory]);
+
+  const openCampaign = async (id: number) => {
+    try {
+      const r = await smsApi.getCampaign(id);
+      setCampaign(r.data.campaign);
+      setRecipients(r.data.recipients);
+    } catch { showMsg(t('reminders.errorLoadingCampaign'), 'error'); }
+  };
+
   const showMsg = (text: string, severity: 'info' | 'success' | 'error' = 'info') => {
     setMsg(text);
     setMsgSeverity(severity);
@@ -129,6 +196,7 @@ const SendRemindersPage: React.FC = () => {
       const updated = await smsApi.getCampaign(campaign.id);
       setCampaign(updated.data.campaign);
       setRecipients(updated.data.recipients);
+      loadHistory();
       showMsg(t('reminders.sendSuccess'), 'success');
     } catch (err: unknown) {
       let detail = '';
@@ -140,9 +208,38 @@ const SendRemindersPage: React.FC = () => {
     } finally { setLoading(false); }
   };
 
+  const openRetry = (ids: number[] | null, recipientChannel?: ReminderChannel) => {
+    if (!campaign) return;
+    setRetryIds(ids);
+    setRetryChannel(recipientChannel ?? campaign.channel);
+    setRetryOpen(true);
+  };
+
+  const handleRetry = async () => {
+    if (!campaign) return;
+    setRetryOpen(false);
+    setLoading(true);
+    try {
+      const r = await smsApi.retryCampaign(campaign.id, { confirm: true, channel: retryChannel, recipientIds: retryIds ?? undefined });
+      setSendResult(r.data);
+      setSendResultOpen(true);
+      await openCampaign(campaign.id);
+      loadHistory();
+      showMsg(t('reminders.retrySuccess'), 'success');
+    } catch (err: unknown) {
+      let detail = '';
+      if (err && typeof err === 'object' && 'response' in err) {
+        const resp = (err as { response?: { data?: { message?: string } } }).response;
+        if (resp?.data?.message) detail = resp.data.message;
+      }
+      showMsg(t('reminders.errorRetrying') + (detail ? ` – ${detail}` : ''), 'error');
+    } finally { setLoading(false); }
+  };
+
   const selectedCount = recipients.filter(r => r.isSelected).length;
-  const showPhone = !campaign || campaign.channel !== 'Email';
-  const showEmail = !campaign || campaign.channel !== 'Sms';
+  const retryCount = retryIds ? retryIds.length : recipients.filter(isRetryable).length;
+  const showPhone = !campaign || ['Sms', 'Both', 'WhatsApp'].includes(campaign.channel);
+  const showEmail = !campaign || ['Email', 'Both'].includes(campaign.channel);
 
   const statusColor = (status: string) => {
     switch (status) {
@@ -163,6 +260,20 @@ const SendRemindersPage: React.FC = () => {
     }
   };
 
+  const deliveryTooltip = (r: SmsCampaignRecipientDto) => r.deliveries.map(d =>
+    `${t('reminders.attempt', { n: d.attempt })} · ${t(`reminders.channel.${d.channel}`)} · ${d.destination}: ${t(`reminders.delivery.${d.status}`)}`
+    + (d.statusAtUtc ? ` (${formatDateLocal(d.statusAtUtc)})` : '')
+    + (d.error ? ` – ${d.error}` : '')).join('\n');
+
+  const deliveryChip = (r: SmsCampaignRecipientDto) => r.sendStatus === 'Sent' && r.deliveryStatus && (
+    <Tooltip title={<span style={{ whiteSpace: 'pre-line' }}>{deliveryTooltip(r)}</span>}>
+      <Chip label={t(`reminders.delivery.${r.deliveryStatus}`)} size="small" variant="outlined"
+        color={deliveryColor(r.deliveryStatus)} sx={{ ml: 0.5 }} />
+    </Tooltip>
+  );
+
+  const deliveryRate = (c: SmsCampaignDto) => c.sentCount > 0 ? Math.round((c.deliveredCount / c.sentCount) * 100) : 0;
+
   const channelLabel = campaign
     ? t(`reminders.channel.${campaign.channel}`)
     : t(`reminders.channel.${channel}`);
@@ -176,6 +287,18 @@ const SendRemindersPage: React.FC = () => {
 
       {msg && <Alert severity={msgSeverity} onClose={() => setMsg('')} sx={{ mb: 2 }}>{msg}</Alert>}
 
+      <Alert severity="info" sx={{ mb: 2 }}
+        action={<Button size="small" color="inherit" startIcon={<Gavel />} onClick={() => navigate('/dunning')}>{t('reminders.openDunning')}</Button>}>
+        {t('reminders.dunningHint')}
+      </Alert>
+
+      {outbox && outbox.standInChannels.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}
+          action={<Button size="small" color="inherit" startIcon={<Outbox />} onClick={() => { loadOutbox(); setOutboxOpen(true); }}>{t('reminders.outbox.open')}</Button>}>
+          {t('reminders.outbox.hint', { channels: outbox.standInChannels.map(ch => t(`reminders.channel.${ch}`)).join(', ') })}
+        </Alert>
+      )}
+
       {/* Setup Section */}
       <Card sx={{ mb: 3 }}>
         <CardContent>
@@ -197,6 +320,7 @@ const SendRemindersPage: React.FC = () => {
                 {templates.map(t2 => <MenuItem key={t2.id} value={t2.id}>{t2.name} ({t2.language})</MenuItem>)}
               </Select>
             </FormControl>
+            <Button size="small" startIcon={<EditNote />} onClick={() => navigate('/reminder-templates')}>{t('reminders.manageTemplates')}</Button>
 
             <FormControlLabel
               control={<Checkbox checked={includePartial} onChange={e => setIncludePartial(e.target.checked)} />}
@@ -215,13 +339,17 @@ const SendRemindersPage: React.FC = () => {
             >
               {REMINDER_CHANNELS.map(ch => (
                 <ToggleButton key={ch} value={ch} sx={{ px: 2 }}>
-                  {ch === 'Sms' && <Sms sx={{ mr: 0.5, fontSize: 18 }} />}
-                  {ch === 'Email' && <Email sx={{ mr: 0.5, fontSize: 18 }} />}
-                  {ch === 'Both' && <><Sms sx={{ mr: 0.3, fontSize: 16 }} /><Email sx={{ mr: 0.5, fontSize: 16 }} /></>}
+                  {channelIcon(ch)}
                   {t(`reminders.channel.${ch}`)}
                 </ToggleButton>
               ))}
             </ToggleButtonGroup>
+            {(channel === 'WhatsApp' || channel === 'Push') && (
+              <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+                {t(`reminders.channelHint.${channel}`)}
+              </Typography>
+            )}
+            <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 0.5 }}>{t('reminders.optOutHint')}</Typography>
           </Box>
 
           <TextField label={t('reminders.campaignNotes')} value={notes} onChange={e => setNotes(e.target.value)}
@@ -268,6 +396,29 @@ const SendRemindersPage: React.FC = () => {
                 </Box>
               </Card>
             )}
+            {campaign.status === 'Sent' && (
+              <Card variant="outlined" sx={{ p: 1.5, minWidth: isMobile ? '100%' : 260 }}>
+                <Typography variant="body2" color="text.secondary">{t('reminders.conversions')}</Typography>
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  <Chip size="small" icon={<LinkIcon />} label={t('reminders.linksClicked', { count: campaign.linksClicked, total: campaign.sentCount })} />
+                  <Chip size="small" color="success" label={t('reminders.paidAfterSend', { count: campaign.paidRecipients, amount: formatCurrency(campaign.paidAfterSendAmount) })} />
+                  <Chip size="small" color="success" variant="outlined" label={t('reminders.paidViaLink', { amount: formatCurrency(campaign.paidViaLinkAmount) })} />
+                </Box>
+              </Card>
+            )}
+            {campaign.status === 'Sent' && (
+              <Card variant="outlined" sx={{ p: 1.5, minWidth: isMobile ? '100%' : 260 }}>
+                <Typography variant="body2" color="text.secondary">
+                  {t('reminders.deliveryRate', { rate: deliveryRate(campaign) })}
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  <Chip size="small" color="success" label={`${t('reminders.delivery.Delivered')}: ${campaign.deliveredCount}`} />
+                  <Chip size="small" color="error" label={`${t('reminders.delivery.Undelivered')}: ${campaign.undeliveredCount}`} />
+                  <Chip size="small" color="error" variant="outlined" label={`${t('reminders.delivery.Bounced')}: ${campaign.bouncedCount}`} />
+                  <Chip size="small" label={`${t('reminders.delivery.Pending')}: ${campaign.awaitingReceiptCount}`} />
+                </Box>
+              </Card>
+            )}
           </Box>
 
           {/* Recipients Table */}
@@ -281,6 +432,17 @@ const SendRemindersPage: React.FC = () => {
                     {t('reminders.sendReminders')} ({selectedCount})
                   </Button>
                 )}
+                {campaign.status === 'Sent' && (
+                  <Box sx={{ display: 'flex', gap: 1 }}>
+                    <Button startIcon={<Refresh />} onClick={() => openCampaign(campaign.id)} disabled={loading}>
+                      {t('reminders.refreshReceipts')}
+                    </Button>
+                    <Button variant="contained" color="warning" startIcon={<Replay />}
+                      onClick={() => openRetry(null)} disabled={loading || campaign.retryableCount === 0}>
+                      {t('reminders.retryFailed')} ({campaign.retryableCount})
+                    </Button>
+                  </Box>
+                )}
               </Box>
 
               {isMobile ? (
@@ -304,8 +466,17 @@ const SendRemindersPage: React.FC = () => {
                           {' · '}{t('hoa.balance')}: {r.outstandingSnapshot.toFixed(2)}
                         </Typography>
                         {r.sendStatus !== 'Pending' && (
-                          <Chip label={t(`reminders.sendStatus.${r.sendStatus}`, r.sendStatus)} size="small"
-                            color={sendStatusColor(r.sendStatus) as any} sx={{ mt: 0.5 }} />
+                          <Box sx={{ mt: 0.5 }}>
+                            <Chip label={t(`reminders.sendStatus.${r.sendStatus}`, r.sendStatus)} size="small"
+                              color={sendStatusColor(r.sendStatus) as any} />
+                            {deliveryChip(r)}
+                          </Box>
+                        )}
+                        {r.paymentLinkUrl && (
+                          <Typography variant="caption" display="block" color="text.secondary" sx={{ mt: 0.5 }}>
+                            {t('reminders.clicks', { count: r.linkClickCount })}
+                            {r.paidAfterSendAmount > 0 && ` · ${t('reminders.paidAmount', { amount: formatCurrency(r.paidAfterSendAmount) })}`}
+                          </Typography>
                         )}
                         <Box sx={{ display: 'flex', gap: 0.5, mt: 0.5 }}>
                           <Button size="small" variant="outlined" startIcon={<Preview />}
@@ -315,6 +486,10 @@ const SendRemindersPage: React.FC = () => {
                               <Delete />
                             </IconButton>
                           )}
+                          {campaign.status === 'Sent' && isRetryable(r) && (
+                            <Button size="small" color="warning" startIcon={<Replay />}
+                              onClick={() => openRetry([r.id], r.lastChannel)}>{t('reminders.retry')}</Button>
+                          )}
                         </Box>
                       </CardContent>
                     </Card>
@@ -336,6 +511,7 @@ const SendRemindersPage: React.FC = () => {
                         <TableCell>{t('reminders.chargeStatus')}</TableCell>
                         <TableCell align="right">{t('reminders.outstanding')}</TableCell>
                         {campaign.status === 'Sent' && <TableCell>{t('reminders.sendStatusCol')}</TableCell>}
+                        {campaign.status === 'Sent' && <TableCell>{t('reminders.paymentLinkCol')}</TableCell>}
                         <TableCell>{t('app.actions')}</TableCell>
                       </TableRow>
                     </TableHead>
@@ -361,11 +537,28 @@ const SendRemindersPage: React.FC = () => {
                             <TableCell>
                               <Chip label={t(`reminders.sendStatus.${r.sendStatus}`, r.sendStatus)} size="small"
                                 color={sendStatusColor(r.sendStatus) as any} />
+                              {deliveryChip(r)}
                               {r.errorMessage && (
                                 <Tooltip title={r.errorMessage}><Typography variant="caption" color="error"> ⚠</Typography></Tooltip>
                               )}
                             </TableCell>
                           )}
+                          {campaign.status === 'Sent' && (
+                            <TableCell>
+                              {r.paymentLinkUrl ? (
+                                <Tooltip title={r.linkFirstClickedAtUtc
+                                  ? t('reminders.firstClicked', { date: formatDateLocal(r.linkFirstClickedAtUtc) })
+                                  : t('reminders.linkExpires', { date: formatDateLocal(r.paymentLinkExpiresAtUtc) })}>
+                                  <Typography variant="body2">{t('reminders.clicks', { count: r.linkClickCount })}</Typography>
+                                </Tooltip>
+                              ) : '—'}
+                              {r.paidAfterSendAmount > 0 && (
+                                <Typography variant="caption" display="block" color="success.main">
+                                  {t('reminders.paidAmount', { amount: formatCurrency(r.paidAfterSendAmount) })}
+                                </Typography>
+                              )}
+                            </TableCell>
+                          )}
                           <TableCell>
                             <Tooltip title={t('reminders.preview')}>
                               <IconButton size="small" onClick={() => handlePreview(r.id, r.fullNameSnapshot)}>
@@ -379,6 +572,13 @@ const SendRemindersPage: React.FC = () => {
                                 </IconButton>
                               </Tooltip>
                             )}
+                            {campaign.status === 'Sent' && isRetryable(r) && (
+                              <Tooltip title={t('reminders.retry')}>
+                                <IconButton size="small" color="warning" onClick={() => openRetry([r.id], r.lastChannel)}>
+                                  <Replay />
+                                </IconButton>
+                              </Tooltip>
+                            )}
                           </TableCell>
                         </TableRow>
                       ))}
@@ -394,6 +594,59 @@ const SendRemindersPage: React.FC = () => {
         </>
       )}
 
+      {/* Sent campaigns */}
+      {history.length > 0 && (
+        <Card sx={{ mt: 3 }}>
+          <CardContent>
+            <Typography variant="h6" gutterBottom>{t('reminders.history')}</Typography>
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('reminders.sentAt')}</TableCell>
+                    <TableCell>{t('reminders.period')}</TableCell>
+                    <TableCell>{t('reminders.channelLabel')}</TableCell>
+                    <TableCell align="right">{t('reminders.sent')}</TableCell>
+                    <TableCell align="right">{t('reminders.deliveredCol')}</TableCell>
+                    <TableCell align="right">{t('reminders.clicked')}</TableCell>
+                    <TableCell align="right">{t('reminders.paidRecipients')}</TableCell>
+                    <TableCell align="right">{t('reminders.paidTotal')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {history.map(c => (
+                    <TableRow key={c.id} hover selected={c.id === campaign?.id} sx={{ cursor: 'pointer' }} onClick={() => openCampaign(c.id)}>
+                      <TableCell>{formatDateLocal(c.sentAtUtc)}</TableCell>
+                      <TableCell>{c.period}</TableCell>
+                      <TableCell>{t(`reminders.channel.${c.channel}`)}</TableCell>
+                      <TableCell align="right">{c.sentCount}</TableCell>
+                      <TableCell align="right">
+                        {c.sentCount > 0 ? `${deliveryRate(c)}%` : '—'}
+                        {(c.undeliveredCount + c.bouncedCount > 0 || c.failedCount + c.skippedCount > 0) && (
+                          <Typography variant="caption" display="block" color="error">
+                            {t('reminders.notReached', { count: c.retryableCount })}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="right">{c.linksClicked}</TableCell>
+                      <TableCell align="right">{c.paidRecipients}</TableCell>
+                      <TableCell align="right">
+                        {formatCurrency(c.paidAfterSendAmount)}
+                        {c.paidViaLinkAmount > 0 && (
+                          <Typography variant="caption" display="block" color="text.secondary">
+                            {t('reminders.paidViaLink', { amount: formatCurrency(c.paidViaLinkAmount) })}
+                          </Typography>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Preview Dialog */}
       <Dialog open={previewOpen} onClose={() => setPreviewOpen(false)} maxWidth="sm" fullWidth>
         <DialogTitle>{t('reminders.previewTitle', { name: previewName })}</DialogTitle>
@@ -406,6 +659,9 @@ const SendRemindersPage: React.FC = () => {
           <Paper variant="outlined" sx={{ p: 2, mt: 1, bgcolor: 'grey.50', direction: 'rtl' }}>
             <Typography variant="body1" sx={{ whiteSpace: 'pre-wrap' }}>{previewText}</Typography>
           </Paper>
+          {campaign?.status === 'Draft' && (
+            <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>{t('reminders.linkIssuedOnSend')}</Typography>
+          )}
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setPreviewOpen(false)}>{t('app.close')}</Button>
@@ -426,6 +682,73 @@ const SendRemindersPage: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      {/* Retry Dialog */}
+      <Dialog open={retryOpen} onClose={() => setRetryOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('reminders.retryTitle')}</DialogTitle>
+        <DialogContent>
+          <Typography sx={{ mb: 2 }}>{t('reminders.retryBody', { count: retryCount })}</Typography>
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>{t('reminders.channelLabel')}</Typography>
+          <ToggleButtonGroup value={retryChannel} exclusive size="small" sx={{ flexWrap: 'wrap' }}
+            onChange={(_, v) => { if (v) setRetryChannel(v); }}>
+            {REMINDER_CHANNELS.map(ch => (
+              <ToggleButton key={ch} value={ch} sx={{ px: 1.5 }}>{channelIcon(ch)}{t(`reminders.channel.${ch}`)}</ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          {campaign && retryChannel !== campaign.channel && (
+            <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>{t('reminders.retryOtherChannel')}</Typography>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRetryOpen(false)}>{t('app.cancel')}</Button>
+          <Button variant="contained" color="warning" onClick={handleRetry} startIcon={<Replay />} disabled={retryCount === 0}>
+            {t('reminders.confirmRetry')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Stand-in Outbox Dialog */}
+      <Dialog open={outboxOpen} onClose={() => setOutboxOpen(false)} maxWidth="md" fullWidth fullScreen={isMobile}>
+        <DialogTitle>{t('reminders.outbox.title')}</DialogTitle>
+        <DialogContent>
+          {!outbox || outbox.messages.length === 0 ? (
+            <Typography color="text.secondary">{t('reminders.outbox.empty')}</Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('reminders.outbox.sentAt')}</TableCell>
+                    <TableCell>{t('reminders.channelLabel')}</TableCell>
+                    <TableCell>{t('reminders.outbox.to')}</TableCell>
+                    <TableCell>{t('reminders.outbox.message')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {outbox.messages.map(m => (
+                    <TableRow key={m.messageId}>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatDateLocal(m.sentAtUtc)}</TableCell>
+                      <TableCell>{t(`reminders.channel.${m.channel}`)}</TableCell>
+                      <TableCell dir="ltr" sx={{ maxWidth: 180, overflow: 'hidden', textOverflow: 'ellipsis' }}>{m.to}</TableCell>
+                      <TableCell>
+                        {m.subject && <Typography variant="body2" fontWeight={600}>{m.subject}</Typography>}
+                        <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                          {m.channel === 'Email' ? m.body.replace(/<br\s*\/?>/g, '\n').replace(/<[^>]+>/g, '') : m.body}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary" dir="ltr">{m.messageId}</Typography>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button startIcon={<Refresh />} onClick={loadOutbox}>{t('reminders.outbox.refresh')}</Button>
+          <Button onClick={() => setOutboxOpen(false)}>{t('app.close')}</Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Send Result Dialog */}
       <Dialog open={sendResultOpen} onClose={() => setSendResultOpen(false)} maxWidth="xs" fullWidth>
         <DialogTitle>{t('reminders.sendResultTitle')}</DialogTitle>
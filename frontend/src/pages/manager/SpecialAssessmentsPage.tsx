@@ -0,0 +1,303 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  Box, Typography, Card, CardContent, Table, TableBody, TableCell, TableContainer, TableHead, TableRow,
+  Paper, Chip, MenuItem, TextField, Button, Dialog, DialogTitle, DialogContent, DialogActions,
+  CircularProgress, Alert, LinearProgress, Stack, useMediaQuery, useTheme
+} from '@mui/material';
+import { Add, Edit, Delete, PlayArrow, Receipt, Visibility, Block } from '@mui/icons-material';
+import { buildingsApi, specialAssessmentsApi } from '../../api/services';
+import type { BuildingDto, SpecialAssessmentDto, SpecialAssessmentDetailDto, SaveSpecialAssessmentRequest } from '../../types';
+import { ASSESSMENT_ALLOCATION_METHODS } from '../../types';
+import { formatCurrency } from '../../utils/dateUtils';
+import { useTranslation } from 'react-i18next';
+
+const statusColor = (status: string): 'success' | 'default' | 'error' =>
+  status === 'Active' ? 'success' : status === 'Cancelled' ? 'error' : 'default';
+
+interface AssessmentForm { name: string; description: string; totalBudget: string; allocationMethod: string; installmentCount: string; startPeriod: string }
+
+const emptyForm = (): AssessmentForm => {
+  const next = new Date();
+  next.setMonth(next.getMonth() + 1);
+  return { name: '', description: '', totalBudget: '', allocationMethod: 'BySqm', installmentCount: '12', startPeriod: next.toISOString().slice(0, 7) };
+};
+
+const SpecialAssessmentsPage: React.FC = () => {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+
+  const [buildings, setBuildings] = useState<BuildingDto[]>([]);
+  const [buildingId, setBuildingId] = useState<number | ''>('');
+  const [items, setItems] = useState<SpecialAssessmentDto[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Create / edit dialog
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<AssessmentForm>(emptyForm);
+
+  // Unit shares dialog
+  const [detail, setDetail] = useState<SpecialAssessmentDetailDto | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+
+  useEffect(() => {
+    buildingsApi.getAll().then(r => {
+      setBuildings(r.data);
+      if (r.data.length > 0) setBuildingId(r.data[0].id);
+    }).catch(() => setError(t('specialAssessments.failedLoad')));
+  }, [t]);
+
+  const load = useCallback(async () => {
+    if (!buildingId) return;
+    setLoading(true);
+    try {
+      const r = await specialAssessmentsApi.getAll(buildingId as number);
+      setItems(r.data);
+    } catch { setError(t('specialAssessments.failedLoad')); }
+    finally { setLoading(false); }
+  }, [buildingId, t]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const errorMessage = (err: unknown) =>
+    (err as { response?: { data?: { message?: string } } })?.response?.data?.message;
+
+  const openCreate = () => { setEditingId(null); setForm(emptyForm()); setFormOpen(true); };
+
+  const openEdit = (a: SpecialAssessmentDto) => {
+    setEditingId(a.id);
+    setForm({
+      name: a.name, description: a.description || '', totalBudget: a.totalBudget.toString(),
+      allocationMethod: a.allocationMethod, installmentCount: a.installmentCount.toString(), startPeriod: a.startPeriod,
+    });
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    const totalBudget = parseFloat(form.totalBudget);
+    const installmentCount = parseInt(form.installmentCount);
+    if (!form.name.trim() || !totalBudget || totalBudget <= 0 || !installmentCount || installmentCount < 1) {
+      setError(t('specialAssessments.validation'));
+      return;
+    }
+    const data: SaveSpecialAssessmentRequest = {
+      buildingId: buildingId as number,
+      name: form.name.trim(),
+      description: form.description || undefined,
+      totalBudget,
+      allocationMethod: form.allocationMethod,
+      installmentCount,
+      startPeriod: form.startPeriod,
+    };
+    try {
+      if (editingId) await specialAssessmentsApi.update(editingId, data);
+      else await specialAssessmentsApi.create(data);
+      setFormOpen(false);
+      setSuccess(t('specialAssessments.saved'));
+      load();
+    } catch (err) { setError(errorMessage(err) || t('specialAssessments.failedSave')); }
+  };
+
+  const runAction = async (action: () => Promise<unknown>, successKey: string) => {
+    setError('');
+    try {
+      await action();
+      setSuccess(t(successKey));
+      load();
+    } catch (err) { setError(errorMessage(err) || t('specialAssessments.failedAction')); }
+  };
+
+  const handleActivate = (a: SpecialAssessmentDto) => {
+    if (!window.confirm(t('specialAssessments.confirmActivate'))) return;
+    runAction(() => specialAssessmentsApi.activate(a.id), 'specialAssessments.activated');
+  };
+
+  const handleCancel = (a: SpecialAssessmentDto) => {
+    if (!window.confirm(t('specialAssessments.confirmCancel'))) return;
+    runAction(() => specialAssessmentsApi.cancel(a.id), 'specialAssessments.cancelled');
+  };
+
+  const handleDelete = (a: SpecialAssessmentDto) => {
+    if (!window.confirm(t('specialAssessments.confirmDelete'))) return;
+    runAction(() => specialAssessmentsApi.delete(a.id), 'specialAssessments.deleted');
+  };
+
+  const handleGenerate = async (a: SpecialAssessmentDto) => {
+    if (!a.nextPeriod) return;
+    setError('');
+    try {
+      const r = await specialAssessmentsApi.generate(a.id, a.nextPeriod);
+      setSuccess(r.data.message);
+      load();
+    } catch (err) { setError(errorMessage(err) || t('specialAssessments.failedAction')); }
+  };
+
+  const openDetail = async (a: SpecialAssessmentDto) => {
+    setDetailLoading(true);
+    setDetail({ assessment: a, shares: [] });
+    try {
+      const r = await specialAssessmentsApi.get(a.id);
+      setDetail(r.data);
+    } catch { setError(t('specialAssessments.failedLoad')); setDetail(null); }
+    finally { setDetailLoading(false); }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 1 }}>
+        <Typography variant="h4" sx={{ fontSize: { xs: '1.3rem', md: '2rem' }, fontWeight: 700 }}>{t('specialAssessments.title')}</Typography>
+        <Button variant="contained" startIcon={<Add />} onClick={openCreate} disabled={!buildingId}>{t('specialAssessments.new')}</Button>
+      </Box>
+
+      {error && <Alert severity="error" onClose={() => setError('')} sx={{ mb: 2 }}>{error}</Alert>}
+      {success && <Alert severity="success" onClose={() => setSuccess('')} sx={{ mb: 2 }}>{success}</Alert>}
+
+      <TextField select size="small" label={t('specialAssessments.building')} value={buildingId}
+        onChange={e => setBuildingId(Number(e.target.value))} sx={{ minWidth: 220, mb: 2 }}>
+        {buildings.map(b => <MenuItem key={b.id} value={b.id}>{b.name}</MenuItem>)}
+      </TextField>
+
+      {loading && <CircularProgress sx={{ display: 'block', mb: 2 }} />}
+
+      {!loading && items.length === 0 && (
+        <Typography color="text.secondary" align="center" sx={{ py: 4 }}>{t('specialAssessments.empty')}</Typography>
+      )}
+
+      <Stack spacing={2}>
+        {items.map(a => (
+          <Card key={a.id} variant="outlined">
+            <CardContent>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 1, flexWrap: 'wrap' }}>
+                <Box>
+                  <Typography variant="h6">{a.name}</Typography>
+                  {a.description && <Typography variant="body2" color="text.secondary">{a.description}</Typography>}
+                </Box>
+                <Chip label={t(`enums.assessmentStatus.${a.status}`, a.status)} color={statusColor(a.status)} size="small" />
+              </Box>
+
+              <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', mt: 1.5 }}>
+                <Typography variant="body2">{t('specialAssessments.budget')}: <b>{formatCurrency(a.totalBudget)}</b></Typography>
+                <Typography variant="body2">{t('specialAssessments.allocation')}: {t(`enums.assessmentAllocation.${a.allocationMethod}`, a.allocationMethod)}</Typography>
+                <Typography variant="body2">{t('specialAssessments.schedule')}: {a.startPeriod} – {a.endPeriod}</Typography>
+                <Typography variant="body2">{t('specialAssessments.installmentsBilled', { billed: a.installmentsGenerated, count: a.installmentCount })}</Typography>
+              </Box>
+
+              {a.status !== 'Draft' && (
+                <Box sx={{ mt: 2 }}>
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+                    <Typography variant="body2" color="text.secondary">
+                      {t('specialAssessments.collectedOfBudget', { collected: formatCurrency(a.amountCollected), budget: formatCurrency(a.totalBudget) })}
+                    </Typography>
+                    <Typography variant="body2" fontWeight={600}>{a.collectedPercent}%</Typography>
+                  </Box>
+                  <LinearProgress variant="determinate" value={Math.min(100, a.collectedPercent)} sx={{ height: 8, borderRadius: 4 }} />
+                  <Box sx={{ display: 'flex', gap: 3, mt: 1, flexWrap: 'wrap' }}>
+                    <Typography variant="caption">{t('specialAssessments.billed')}: {formatCurrency(a.amountBilled)}</Typography>
+                    <Typography variant="caption" color={a.outstanding > 0 ? 'error.main' : 'text.secondary'}>{t('specialAssessments.outstanding')}: {formatCurrency(a.outstanding)}</Typography>
+                  </Box>
+                </Box>
+              )}
+
+              <Box sx={{ display: 'flex', gap: 1, mt: 2, flexWrap: 'wrap' }}>
+                {a.status === 'Draft' && (
+                  <>
+                    <Button size="small" variant="contained" startIcon={<PlayArrow />} onClick={() => handleActivate(a)}>{t('specialAssessments.activate')}</Button>
+                    <Button size="small" variant="outlined" startIcon={<Edit />} onClick={() => openEdit(a)}>{t('app.edit')}</Button>
+                    <Button size="small" variant="outlined" color="error" startIcon={<Delete />} onClick={() => handleDelete(a)}>{t('app.delete')}</Button>
+                  </>
+                )}
+                {a.status === 'Active' && a.nextPeriod && (
+                  <Button size="small" variant="contained" startIcon={<Receipt />} onClick={() => handleGenerate(a)}>
+                    {t('specialAssessments.billInstallment', { number: a.installmentsGenerated + 1, period: a.nextPeriod })}
+                  </Button>
+                )}
+                {a.status !== 'Draft' && (
+                  <Button size="small" variant="outlined" startIcon={<Visibility />} onClick={() => openDetail(a)}>{t('specialAssessments.unitShares')}</Button>
+                )}
+                {a.status === 'Active' && (
+                  <Button size="small" variant="outlined" color="error" startIcon={<Block />} onClick={() => handleCancel(a)}>{t('specialAssessments.cancel')}</Button>
+                )}
+              </Box>
+            </CardContent>
+          </Card>
+        ))}
+      </Stack>
+
+      {/* Create / edit */}
+      <Dialog open={formOpen} onClose={() => setFormOpen(false)} maxWidth="sm" fullWidth fullScreen={isMobile}>
+        <DialogTitle>{editingId ? t('specialAssessments.edit') : t('specialAssessments.new')}</DialogTitle>
+        <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          <TextField label={t('specialAssessments.name')} value={form.name} onChange={e => setForm(f => ({ ...f, name: e.target.value }))}
+            placeholder={t('specialAssessments.namePlaceholder')} required fullWidth />
+          <TextField label={t('specialAssessments.description')} value={form.description} onChange={e => setForm(f => ({ ...f, description: e.target.value }))}
+            multiline rows={2} fullWidth />
+          <TextField label={t('specialAssessments.budget')} type="number" value={form.totalBudget}
+            onChange={e => setForm(f => ({ ...f, totalBudget: e.target.value }))} inputProps={{ min: 0.01, step: 0.01 }} required />
+          <TextField select label={t('specialAssessments.allocation')} value={form.allocationMethod}
+            onChange={e => setForm(f => ({ ...f, allocationMethod: e.target.value }))}
+            helperText={t(`specialAssessments.allocationHint.${form.allocationMethod}`)}>
+            {ASSESSMENT_ALLOCATION_METHODS.map(m => <MenuItem key={m} value={m}>{t(`enums.assessmentAllocation.${m}`, m)}</MenuItem>)}
+          </TextField>
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField label={t('specialAssessments.installments')} type="number" value={form.installmentCount}
+              onChange={e => setForm(f => ({ ...f, installmentCount: e.target.value }))} inputProps={{ min: 1, max: 120 }} sx={{ flex: 1 }} />
+            <TextField label={t('specialAssessments.startPeriod')} type="month" value={form.startPeriod}
+              onChange={e => setForm(f => ({ ...f, startPeriod: e.target.value }))} InputLabelProps={{ shrink: true }} sx={{ flex: 1 }} />
+          </Box>
+          {parseFloat(form.totalBudget) > 0 && parseInt(form.installmentCount) > 0 && (
+            <Alert severity="info">
+              {t('specialAssessments.perInstallmentHint', { amount: formatCurrency(parseFloat(form.totalBudget) / parseInt(form.installmentCount)) })}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setFormOpen(false)}>{t('app.cancel')}</Button>
+          <Button variant="contained" onClick={handleSave}>{t('app.save')}</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Unit shares */}
+      <Dialog open={!!detail} onClose={() => setDetail(null)} maxWidth="md" fullWidth fullScreen={isMobile}>
+        <DialogTitle>{detail?.assessment.name} – {t('specialAssessments.unitShares')}</DialogTitle>
+        <DialogContent>
+          {detailLoading ? <CircularProgress /> : (
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead><TableRow>
+                  <TableCell>{t('hoa.unitCol')}</TableCell>
+                  <TableCell>{t('hoa.resident')}</TableCell>
+                  <TableCell align="right">{t('specialAssessments.sizeSqm')}</TableCell>
+                  <TableCell align="right">{t('specialAssessments.share')}</TableCell>
+                  <TableCell align="right">{t('specialAssessments.perInstallment')}</TableCell>
+                  <TableCell align="right">{t('specialAssessments.billed')}</TableCell>
+                  <TableCell align="right">{t('hoa.paid')}</TableCell>
+                </TableRow></TableHead>
+                <TableBody>
+                  {detail?.shares.map(s => (
+                    <TableRow key={s.unitId}>
+                      <TableCell>{s.unitNumber}</TableCell>
+                      <TableCell>{s.payerDisplayName || '—'}</TableCell>
+                      <TableCell align="right">{s.sizeSqm ?? '—'}</TableCell>
+                      <TableCell align="right">{formatCurrency(s.shareAmount)}</TableCell>
+                      <TableCell align="right">{formatCurrency(s.installmentAmount)}</TableCell>
+                      <TableCell align="right">{formatCurrency(s.amountBilled)}</TableCell>
+                      <TableCell align="right" sx={{ color: s.amountPaid >= s.amountBilled ? 'success.main' : 'error.main' }}>{formatCurrency(s.amountPaid)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDetail(null)}>{t('app.close')}</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default SpecialAssessmentsPage;
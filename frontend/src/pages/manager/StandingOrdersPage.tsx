@@ -0,0 +1,230 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  Box, Typography, Card, CardContent, Table, TableBody, TableCell, TableContainer, TableHead, TableRow,
+  Paper, Chip, MenuItem, TextField, Button, Dialog, DialogTitle, DialogContent, DialogActions,
+  CircularProgress, Alert, Stack, Tooltip, useMediaQuery, useTheme
+} from '@mui/material';
+import { Edit } from '@mui/icons-material';
+import { buildingsApi, paymentsApi } from '../../api/services';
+import type { BuildingDto, StandingOrderDto, StandingOrderStatus } from '../../types';
+import { formatCurrency, formatDateLocal } from '../../utils/dateUtils';
+import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
+
+const STATUSES: StandingOrderStatus[] = ['Active', 'Paused', 'PaymentFailed', 'Expired', 'Cancelled'];
+
+const statusColor = (status: string): 'success' | 'warning' | 'error' | 'default' =>
+  status === 'Active' ? 'success' : status === 'Paused' ? 'warning' : status === 'PaymentFailed' || status === 'Expired' ? 'error' : 'default';
+
+const canAdjust = (so: StandingOrderDto) => so.status !== 'Cancelled' && so.status !== 'Expired';
+
+/** The order's amount, with the pending change and a hint when it no longer matches the HOA fee plan. */
+const AmountCell: React.FC<{ so: StandingOrderDto; t: TFunction }> = ({ so, t }) => (
+  <Box>
+    <Typography variant="body2" fontWeight={600}>{formatCurrency(so.amount)}</Typography>
+    {so.pendingAmount != null && (
+      <Tooltip title={so.amountChangeReason ?? ''}>
+        <Chip size="small" color="info" variant="outlined" sx={{ mt: 0.5 }}
+          label={t('standingOrders.pendingApproval', { amount: formatCurrency(so.pendingAmount) })} />
+      </Tooltip>
+    )}
+    {so.pendingAmount == null && so.currentHoaFee != null && so.currentHoaFee !== so.amount && canAdjust(so) && (
+      <Typography variant="caption" display="block" color="warning.main">
+        {t('standingOrders.feeMismatch', { fee: formatCurrency(so.currentHoaFee) })}
+      </Typography>
+    )}
+  </Box>
+);
+
+/** All standing orders of the manager's buildings, with failure alerts and amount changes after fee plan updates. */
+const StandingOrdersPage: React.FC = () => {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+
+  const [buildings, setBuildings] = useState<BuildingDto[]>([]);
+  const [buildingId, setBuildingId] = useState<number | ''>('');
+  const [status, setStatus] = useState<StandingOrderStatus | ''>('');
+  const [items, setItems] = useState<StandingOrderDto[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Adjust amount dialog
+  const [adjusting, setAdjusting] = useState<StandingOrderDto | null>(null);
+  const [newAmount, setNewAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    buildingsApi.getAll().then(r => setBuildings(r.data)).catch(() => setError(t('standingOrders.failedLoad')));
+  }, [t]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const r = await paymentsApi.getStandingOrders({
+        buildingId: buildingId || undefined,
+        status: status || undefined,
+      });
+      setItems(r.data);
+    } catch { setError(t('standingOrders.failedLoad')); }
+    finally { setLoading(false); }
+  }, [buildingId, status, t]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const openAdjust = (so: StandingOrderDto) => {
+    setAdjusting(so);
+    setNewAmount(String(so.pendingAmount ?? so.currentHoaFee ?? so.amount));
+    setReason('');
+  };
+
+  const handleAdjust = async () => {
+    if (!adjusting) return;
+    setSaving(true); setError('');
+    try {
+      const r = await paymentsApi.adjustStandingOrderAmount(adjusting.id, { amount: Number(newAmount), reason: reason.trim() || undefined });
+      setAdjusting(null);
+      setSuccess(t(r.data.requiresApproval ? 'standingOrders.awaitingApproval' : 'standingOrders.amountChanged'));
+      load();
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('standingOrders.failedAdjust'));
+    } finally { setSaving(false); }
+  };
+
+  const failed = items.filter(so => so.status === 'PaymentFailed');
+  const expired = items.filter(so => so.status === 'Expired');
+
+  return (
+    <Box>
+      <Typography variant="h4" sx={{ fontSize: { xs: '1.3rem', md: '2rem' }, fontWeight: 700, mb: 2 }}>{t('standingOrders.title')}</Typography>
+
+      {error && <Alert severity="error" onClose={() => setError('')} sx={{ mb: 2 }}>{error}</Alert>}
+      {success && <Alert severity="success" onClose={() => setSuccess('')} sx={{ mb: 2 }}>{success}</Alert>}
+      {failed.length > 0 && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {t('standingOrders.failedAlert', { count: failed.length, units: failed.map(so => `${so.buildingName} ${so.unitNumber}`).join(', ') })}
+        </Alert>
+      )}
+      {expired.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {t('standingOrders.expiredAlert', { count: expired.length, units: expired.map(so => `${so.buildingName} ${so.unitNumber}`).join(', ') })}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+        <TextField select size="small" label={t('standingOrders.building')} value={buildingId}
+          onChange={e => setBuildingId(e.target.value === '' ? '' : Number(e.target.value))} sx={{ minWidth: 200 }}>
+          <MenuItem value="">{t('standingOrders.allBuildings')}</MenuItem>
+          {buildings.map(b => <MenuItem key={b.id} value={b.id}>{b.name}</MenuItem>)}
+        </TextField>
+        <TextField select size="small" label={t('standingOrders.status')} value={status}
+          onChange={e => setStatus(e.target.value as StandingOrderStatus | '')} sx={{ minWidth: 170 }}>
+          <MenuItem value="">{t('standingOrders.allStatuses')}</MenuItem>
+          {STATUSES.map(s => <MenuItem key={s} value={s}>{t(`myCharges.soStatus${s}`)}</MenuItem>)}
+        </TextField>
+      </Box>
+
+      {loading && <CircularProgress sx={{ display: 'block', mb: 2 }} />}
+
+      {!loading && items.length === 0 && (
+        <Typography color="text.secondary" align="center" sx={{ py: 4 }}>{t('standingOrders.empty')}</Typography>
+      )}
+
+      {!loading && items.length > 0 && (isMobile ? (
+        <Stack spacing={1.5}>
+          {items.map(so => (
+            <Card key={so.id} variant="outlined">
+              <CardContent>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1, mb: 1 }}>
+                  <Typography variant="subtitle2">{so.buildingName} · {t('statement.unit')} {so.unitNumber}</Typography>
+                  <Chip size="small" color={statusColor(so.status)} label={t(`myCharges.soStatus${so.status}`, so.status)} />
+                </Box>
+                <AmountCell so={so} t={t} />
+                <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+                  {so.tenantName} · {so.providerType}
+                  {so.nextChargeDate ? ` · ${t('standingOrders.nextCharge')}: ${formatDateLocal(so.nextChargeDate)}` : ''}
+                </Typography>
+                <Typography variant="caption" color={so.failedCharges > 0 ? 'error.main' : 'text.secondary'} display="block">
+                  {t('myCharges.soChargeCount', { success: so.successfulCharges, failed: so.failedCharges })}
+                </Typography>
+                {canAdjust(so) && (
+                  <Button size="small" startIcon={<Edit />} sx={{ mt: 1 }} onClick={() => openAdjust(so)}>{t('standingOrders.adjust')}</Button>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </Stack>
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('standingOrders.building')}</TableCell>
+                <TableCell>{t('statement.unit')}</TableCell>
+                <TableCell>{t('standingOrders.provider')}</TableCell>
+                <TableCell>{t('standingOrders.amount')}</TableCell>
+                <TableCell>{t('standingOrders.status')}</TableCell>
+                <TableCell>{t('standingOrders.nextCharge')}</TableCell>
+                <TableCell>{t('standingOrders.lastCharged')}</TableCell>
+                <TableCell align="right">{t('standingOrders.successful')}</TableCell>
+                <TableCell align="right">{t('standingOrders.failed')}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {items.map(so => (
+                <TableRow key={so.id}>
+                  <TableCell>{so.buildingName}</TableCell>
+                  <TableCell>
+                    {so.unitNumber}
+                    {so.tenantName && <Typography variant="caption" display="block" color="text.secondary">{so.tenantName}</Typography>}
+                  </TableCell>
+                  <TableCell>{so.providerType}</TableCell>
+                  <TableCell><AmountCell so={so} t={t} /></TableCell>
+                  <TableCell><Chip size="small" color={statusColor(so.status)} label={t(`myCharges.soStatus${so.status}`, so.status)} /></TableCell>
+                  <TableCell>{so.nextChargeDate ? formatDateLocal(so.nextChargeDate) : '—'}</TableCell>
+                  <TableCell>{so.lastChargedAtUtc ? formatDateLocal(so.lastChargedAtUtc) : '—'}</TableCell>
+                  <TableCell align="right">{so.successfulCharges}</TableCell>
+                  <TableCell align="right" sx={{ color: so.failedCharges > 0 ? 'error.main' : undefined, fontWeight: so.failedCharges > 0 ? 600 : undefined }}>
+                    {so.failedCharges}
+                  </TableCell>
+                  <TableCell align="right">
+                    {canAdjust(so) && (
+                      <Button size="small" startIcon={<Edit />} onClick={() => openAdjust(so)}>{t('standingOrders.adjust')}</Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      ))}
+
+      {/* Adjust amount */}
+      <Dialog open={!!adjusting} onClose={() => setAdjusting(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{t('standingOrders.adjustTitle', { unit: adjusting?.unitNumber ?? '' })}</DialogTitle>
+        <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          {adjusting && (
+            <Typography variant="body2" color="text.secondary">
+              {t('standingOrders.currentAmount', { amount: formatCurrency(adjusting.amount) })}
+              {adjusting.currentHoaFee != null && ` · ${t('standingOrders.currentFee', { fee: formatCurrency(adjusting.currentHoaFee) })}`}
+            </Typography>
+          )}
+          <TextField type="number" label={t('standingOrders.newAmount')} value={newAmount}
+            onChange={e => setNewAmount(e.target.value)} inputProps={{ min: 0.01, step: 0.01 }}
+            helperText={adjusting?.providerType === 'PayPal' ? t('standingOrders.approvalHint') : t('standingOrders.immediateHint')} />
+          <TextField label={t('standingOrders.reason')} value={reason} onChange={e => setReason(e.target.value)}
+            placeholder={t('standingOrders.reasonPlaceholder')} multiline rows={2} inputProps={{ maxLength: 500 }} />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAdjusting(null)}>{t('app.cancel')}</Button>
+          <Button variant="contained" disabled={saving || !(Number(newAmount) > 0)} onClick={handleAdjust}>{t('app.save')}</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default StandingOrdersPage;
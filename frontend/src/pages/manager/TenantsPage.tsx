@@ -1,20 +1,28 @@
 import React, { useEffect, useState, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import {
   Box, Typography, Table, TableBody, TableCell, TableContainer, TableHead, TableRow,
-  Paper, Chip, MenuItem, TextField, Button, Dialog, DialogTitle, DialogContent,
+  Chip, MenuItem, TextField, Button, Dialog, DialogTitle, DialogContent,
   DialogActions, CircularProgress, Alert, useMediaQuery, useTheme, Card, CardContent,
   Stack, CardActionArea, IconButton, Tooltip, Switch, FormControlLabel
 } from '@mui/material';
 import {
   Edit, EventBusy, Archive, Delete, History, PersonAdd, Send, Chat,
-  NotificationsActive
+  NotificationsActive, Campaign, Tune, ForwardToInbox
 } from '@mui/icons-material';
-import { buildingsApi, tenantsApi, tenantMessagesApi } from '../../api/services';
-import type { TenantProfileDto, BuildingDto, UnitDto, CreateTenantRequest, UpdateTenantRequest, TenantMessageDto, SendTenantMessageRequest } from '../../types';
+import { buildingsApi, tenantsApi, tenantMessagesApi, notificationsApi } from '../../api/services';
+import type {
+  TenantProfileDto, BuildingDto, UnitDto, CreateTenantRequest, UpdateTenantRequest, TenantMessageDto, SendTenantMessageRequest, GridQuery,
+  NotificationPreferencesDto, NotificationConsentLogDto, ReminderChannel, TenantInvitationDto
+} from '../../types';
 import { formatDateOnly, toInputDate } from '../../utils/dateUtils';
 import { useTranslation } from 'react-i18next';
-
-type StatusFilter = '' | 'Active' | 'Inactive' | 'Archived';
+import { useAuth } from '../../auth/AuthContext';
+import DataGrid from '../../components/DataGrid';
+import type { DataGridColumn, DataGridFilter } from '../../components/DataGrid';
+import ConsentLogTable from '../../components/ConsentLogTable';
+import InviteTenantDialog from '../../components/InviteTenantDialog';
+import TenantRegistrationQueue from '../../components/TenantRegistrationQueue';
 
 const statusColor = (tp: TenantProfileDto): 'success' | 'error' | 'default' | 'warning' =>
   tp.isArchived ? 'default' : tp.isActive ? 'success' : 'warning';
@@ -22,23 +30,27 @@ const statusColor = (tp: TenantProfileDto): 'success' | 'error' | 'default' | 'w
 const statusLabel = (tp: TenantProfileDto): string =>
   tp.isArchived ? 'Archived' : tp.isActive ? 'Active' : 'Inactive';
 
+const OPT_OUTS: [ReminderChannel, 'smsOptOut' | 'emailOptOut' | 'whatsAppOptOut' | 'pushOptOut'][] = [
+  ['Sms', 'smsOptOut'], ['Email', 'emailOptOut'], ['WhatsApp', 'whatsAppOptOut'], ['Push', 'pushOptOut'],
+];
+
 const TenantsPage: React.FC = () => {
   const { t } = useTranslation();
+  const { can } = useAuth();
+  const canManage = (buildingId?: number) => can('Tenants', 'Manage', buildingId);
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
 
   // Data
-  const [tenants, setTenants] = useState<TenantProfileDto[]>([]);
   const [buildings, setBuildings] = useState<BuildingDto[]>([]);
   const [units, setUnits] = useState<UnitDto[]>([]);
-  const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
 
-  // Filters
-  const [filterBuilding, setFilterBuilding] = useState('');
-  const [filterStatus, setFilterStatus] = useState<StatusFilter>('');
-  const [searchText, setSearchText] = useState('');
+  // Filters live in the grid's URL parameters; reminders and the create form follow the building filter
+  const [searchParams] = useSearchParams();
+  const filterBuilding = searchParams.get('buildingId') ?? '';
 
   // Dialogs
   const [formOpen, setFormOpen] = useState(false);
@@ -47,6 +59,8 @@ const TenantsPage: React.FC = () => {
     unitId: 0, fullName: '', phone: '', email: '', moveInDate: '', isActive: true, notes: ''
   });
   const [formBuildingId, setFormBuildingId] = useState<number | 0>(0);
+  const [isCommitteeMember, setIsCommitteeMember] = useState(false);
+  const [unitActiveTenant, setUnitActiveTenant] = useState<TenantProfileDto | null>(null);
 
   const [endTenancyOpen, setEndTenancyOpen] = useState(false);
   const [endTenancyId, setEndTenancyId] = useState<number | null>(null);
@@ -73,37 +87,32 @@ const TenantsPage: React.FC = () => {
   const [msgHistoryLoading, setMsgHistoryLoading] = useState(false);
   const [reminderSending, setReminderSending] = useState(false);
   const [threadOpen, setThreadOpen] = useState<number | null>(null);
+  const [announceOpen, setAnnounceOpen] = useState(false);
+  const [announceForm, setAnnounceForm] = useState({ subject: '', body: '' });
+  const [announceSending, setAnnounceSending] = useState(false);
+
+  // Invitation link for a tenant without an account
+  const [inviteTenant, setInviteTenant] = useState<TenantProfileDto | null>(null);
+
+  // Notification preferences and consent record
+  const [prefsTenant, setPrefsTenant] = useState<TenantProfileDto | null>(null);
+  const [tenantPrefs, setTenantPrefs] = useState<NotificationPreferencesDto | null>(null);
+  const [consentLog, setConsentLog] = useState<NotificationConsentLogDto[]>([]);
+  const [prefsLoading, setPrefsLoading] = useState(false);
   const [threadMessages, setThreadMessages] = useState<TenantMessageDto[]>([]);
   const [threadLoading, setThreadLoading] = useState(false);
   const [threadReply, setThreadReply] = useState('');
   const [threadReplySending, setThreadReplySending] = useState(false);
 
   // Load data
-  const load = useCallback(async () => {
-    try {
-      setLoading(true);
-      const params: Record<string, unknown> = {};
-      if (filterBuilding) params.buildingId = Number(filterBuilding);
-      if (filterStatus === 'Active') params.activeOnly = true;
-      if (filterStatus === 'Archived') params.includeArchived = true;
-
-      const [tRes, bRes] = await Promise.all([
-        tenantsApi.getAll(params as any),
-        buildingsApi.getAll()
-      ]);
-      let data = tRes.data;
-      if (filterStatus === 'Inactive') data = data.filter(tp => !tp.isActive && !tp.isArchived);
-      if (filterStatus === 'Archived') data = data.filter(tp => tp.isArchived);
-      setTenants(data);
-      setBuildings(bRes.data);
-    } catch {
-      setError(t('tenants.failedLoad'));
-    } finally {
-      setLoading(false);
-    }
-  }, [filterBuilding, filterStatus, t]);
+  useEffect(() => {
+    buildingsApi.getAll()
+      .then(res => setBuildings(res.data))
+      .catch(() => setError(t('tenants.failedLoad')));
+  }, [t]);
 
-  useEffect(() => { load(); }, [load]);
+  const fetchRows = useCallback((query: GridQuery) => tenantsApi.getPaged(query).then(r => r.data), []);
+  const load = () => setRefreshKey(k => k + 1);
 
   // Load units for a building (for the form)
   const loadUnits = async (buildingId: number) => {
@@ -114,15 +123,16 @@ const TenantsPage: React.FC = () => {
     } catch { /* ignore */ }
   };
 
-  // Filter locally by search text
-  const filtered = tenants.filter(tp => {
-    if (!searchText) return true;
-    const s = searchText.toLowerCase();
-    return tp.fullName.toLowerCase().includes(s)
-      || (tp.phone || '').toLowerCase().includes(s)
-      || (tp.email || '').toLowerCase().includes(s)
-      || (tp.unitNumber || '').toLowerCase().includes(s);
-  });
+  // Warn before replacing the unit's current tenant
+  const selectUnit = async (unitId: number) => {
+    setFormData(f => ({ ...f, unitId }));
+    setUnitActiveTenant(null);
+    if (!unitId) return;
+    try {
+      const res = await tenantsApi.getAll({ unitId, activeOnly: true });
+      setUnitActiveTenant(res.data[0] ?? null);
+    } catch { /* ignore */ }
+  };
 
   // ─── Create / Edit ────────────────────────────────────
 
@@ -130,6 +140,7 @@ const TenantsPage: React.FC = () => {
     setEditingId(null);
     setFormData({ unitId: 0, fullName: '', phone: '', email: '', moveInDate: new Date().toISOString().split('T')[0], isActive: true, notes: '' });
     setFormBuildingId(filterBuilding ? Number(filterBuilding) : 0);
+    setUnitActiveTenant(null);
     if (filterBuilding) loadUnits(Number(filterBuilding));
     else setUnits([]);
     setFormOpen(true);
@@ -146,6 +157,7 @@ const TenantsPage: React.FC = () => {
       isActive: tp.isActive,
       notes: tp.notes || ''
     });
+    setIsCommitteeMember(tp.isCommitteeMember);
     setFormBuildingId(tp.buildingId);
     loadUnits(tp.buildingId);
     setFormOpen(true);
@@ -163,15 +175,12 @@ const TenantsPage: React.FC = () => {
           email: formData.email || undefined,
           moveInDate: formData.moveInDate || undefined,
           isActive: formData.isActive,
+          isCommitteeMember,
           notes: formData.notes || undefined
         };
         await tenantsApi.update(editingId, updateReq);
       } else {
-        // Check if there's an active tenant for the selected unit
-        const existingActive = tenants.find(tp => tp.unitId === formData.unitId && tp.isActive);
-        if (existingActive && formData.isActive) {
-          // The backend handles ending the previous tenant, but let's warn via the success message
-        }
+        // The backend ends the unit's previous active tenancy
         await tenantsApi.create(formData);
       }
       setFormOpen(false);
@@ -238,6 +247,14 @@ const TenantsPage: React.FC = () => {
     finally { setHistoryLoading(false); }
   };
 
+  // ─── Invitations ──────────────────────────────────────
+
+  const handleInviteSent = (invitation: TenantInvitationDto) => {
+    setInviteTenant(null);
+    setSuccess(t('tenants.inviteSent', { to: invitation.sentTo }));
+    setRefreshKey(k => k + 1);
+  };
+
   // ─── Messaging ──────────────────────────────────────
 
   const openSendMessage = (tp: TenantProfileDto) => {
@@ -304,9 +321,128 @@ const TenantsPage: React.FC = () => {
     finally { setReminderSending(false); }
   };
 
+  const handleSendAnnouncement = async () => {
+    if (!filterBuilding || !announceForm.subject.trim() || !announceForm.body.trim()) return;
+    setAnnounceSending(true);
+    try {
+      const res = await tenantMessagesApi.sendAnnouncement(Number(filterBuilding), announceForm);
+      setAnnounceOpen(false);
+      setSuccess(t('tenants.announcementSent', { recipients: res.data.recipients, notified: res.data.notified }));
+    } catch { setError(t('tenants.failedSendAnnouncement')); }
+    finally { setAnnounceSending(false); }
+  };
+
+  const openPreferences = async (tp: TenantProfileDto) => {
+    setPrefsTenant(tp);
+    setTenantPrefs(null);
+    setConsentLog([]);
+    setPrefsLoading(true);
+    try {
+      const [prefsRes, logRes] = await Promise.all([
+        notificationsApi.getTenantPreferences(tp.id),
+        notificationsApi.getTenantConsentLog(tp.id),
+      ]);
+      setTenantPrefs(prefsRes.data);
+      setConsentLog(logRes.data);
+    } catch { setError(t('tenants.failedLoadPreferences')); }
+    finally { setPrefsLoading(false); }
+  };
+
   // ─── Render ───────────────────────────────────────────
 
-  if (loading) return <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}><CircularProgress /></Box>;
+  const statusChip = (tp: TenantProfileDto) =>
+    <Chip label={t(`tenants.${statusLabel(tp).toLowerCase()}`, statusLabel(tp))} size="small" color={statusColor(tp)} />;
+
+  // Whether the tenant has signed up, or when their open invitation was sent
+  const accountChip = (tp: TenantProfileDto) => {
+    if (tp.userId) return <Chip label={t('tenants.hasAccount')} size="small" color="success" variant="outlined" />;
+    if (!tp.invitedAtUtc) return null;
+    return (
+      <Tooltip title={t('tenants.invitationExpires', { date: formatDateOnly(tp.invitationExpiresAtUtc) })}>
+        <Chip label={t('tenants.invitedOn', { date: formatDateOnly(tp.invitedAtUtc) })} size="small" color="info" variant="outlined" />
+      </Tooltip>
+    );
+  };
+
+  const canInvite = (tp: TenantProfileDto) => tp.isActive && !tp.userId;
+
+  const columns: DataGridColumn<TenantProfileDto>[] = [
+    { field: 'buildingName', headerName: t('tenants.building'), sortable: true, render: tp => tp.buildingName },
+    { field: 'unitNumber', headerName: t('tenants.unitLabel'), sortable: true, render: tp => tp.unitNumber },
+    { field: 'fullName', headerName: t('tenants.fullName'), sortable: true, hideable: false, render: tp => tp.fullName },
+    { field: 'phone', headerName: t('tenants.phone'), sortable: true, render: tp => tp.phone },
+    { field: 'email', headerName: t('tenants.email'), sortable: true, render: tp => tp.email },
+    { field: 'moveInDate', headerName: t('tenants.moveIn'), sortable: true, render: tp => formatDateOnly(tp.moveInDate) },
+    { field: 'moveOutDate', headerName: t('tenants.moveOut'), sortable: true, render: tp => formatDateOnly(tp.moveOutDate) },
+    { field: 'status', headerName: t('tenants.status'), render: statusChip },
+    { field: 'account', headerName: t('tenants.account'), render: accountChip },
+    { field: 'notes', headerName: t('tenants.notes'), defaultHidden: true, render: tp => tp.notes },
+    {
+      field: 'actions', headerName: t('app.actions'), hideable: false, render: tp => (
+        <Box sx={{ display: 'flex', gap: 0.5 }}>
+          {canManage(tp.buildingId) && (
+            <Tooltip title={t('tenants.editTenant')}>
+              <IconButton size="small" onClick={() => openEdit(tp)}><Edit fontSize="small" /></IconButton>
+            </Tooltip>
+          )}
+          {tp.isActive && canManage(tp.buildingId) && (
+            <Tooltip title={t('tenants.endTenancy')}>
+              <IconButton size="small" color="warning" onClick={() => openEndTenancy(tp)}>
+                <EventBusy fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+          {canInvite(tp) && canManage(tp.buildingId) && (
+            <Tooltip title={tp.invitedAtUtc ? t('tenants.resendInvite') : t('tenants.invite')}>
+              <IconButton size="small" color="info" onClick={() => setInviteTenant(tp)}>
+                <ForwardToInbox fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+          {canManage(tp.buildingId) && (
+            <Tooltip title={t('tenants.sendMessage')}>
+              <IconButton size="small" color="primary" onClick={() => openSendMessage(tp)}>
+                <Send fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+          <Tooltip title={t('tenants.messageHistory')}>
+            <IconButton size="small" onClick={() => openMessageHistory(tp)}>
+              <Chat fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title={t('tenants.notificationPreferences')}>
+            <IconButton size="small" onClick={() => openPreferences(tp)}>
+              <Tune fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title={t('tenants.history')}>
+            <IconButton size="small" onClick={() => openHistory(tp.unitId, tp.unitNumber || '')}>
+              <History fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          {canManage(tp.buildingId) && (
+            <Tooltip title={t('tenants.removeTenant')}>
+              <IconButton size="small" color="error" onClick={() => openDelete(tp)}>
+                {tp.isArchived ? <Delete fontSize="small" /> : <Archive fontSize="small" />}
+              </IconButton>
+            </Tooltip>
+          )}
+        </Box>
+      ),
+    },
+  ];
+
+  const filters: DataGridFilter[] = [
+    { key: 'buildingId', label: t('tenants.filterBuilding'), minWidth: 200, options: buildings.map(b => ({ value: String(b.id), label: b.name })) },
+    {
+      key: 'status', label: t('tenants.filterStatus'), options: [
+        { value: 'Active', label: t('tenants.active') },
+        { value: 'Inactive', label: t('tenants.inactive') },
+        { value: 'Archived', label: t('tenants.archivedStatus') },
+      ],
+    },
+  ];
 
   return (
     <Box>
@@ -314,151 +450,84 @@ const TenantsPage: React.FC = () => {
         <Typography variant="h4" sx={{ fontWeight: 700, fontSize: { xs: '1.3rem', md: '2rem' } }}>
           {t('tenants.title')}
         </Typography>
-        <Box sx={{ display: 'flex', gap: 1 }}>
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+          <Button variant="outlined" startIcon={<Campaign />} disabled={!filterBuilding || !canManage(Number(filterBuilding))}
+            onClick={() => { setAnnounceForm({ subject: '', body: '' }); setAnnounceOpen(true); }}>
+            {t('tenants.announce')}
+          </Button>
           <Button variant="outlined" color="warning" startIcon={<NotificationsActive />}
-            onClick={handleSendReminders} disabled={!filterBuilding || reminderSending}>
+            onClick={handleSendReminders} disabled={!filterBuilding || !canManage(Number(filterBuilding)) || reminderSending}>
             {reminderSending ? <CircularProgress size={20} /> : t('tenants.sendPaymentReminders')}
           </Button>
-          <Button variant="contained" startIcon={<PersonAdd />} onClick={openCreate}>
-            {t('tenants.addTenant')}
-          </Button>
+          {canManage() && (
+            <Button variant="contained" startIcon={<PersonAdd />} onClick={openCreate}>
+              {t('tenants.addTenant')}
+            </Button>
+          )}
         </Box>
       </Box>
 
       {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
       {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess('')}>{success}</Alert>}
 
-      {/* Filters */}
-      <Box sx={{ display: 'flex', gap: 2, mb: 3, flexWrap: 'wrap' }}>
-        <TextField select label={t('tenants.filterBuilding')} value={filterBuilding}
-          onChange={e => setFilterBuilding(e.target.value)} size="small" sx={{ minWidth: 200 }}>
-          <MenuItem value="">{t('app.all')}</MenuItem>
-          {buildings.map(b => <MenuItem key={b.id} value={b.id}>{b.name}</MenuItem>)}
-        </TextField>
-        <TextField select label={t('tenants.filterStatus')} value={filterStatus}
-          onChange={e => setFilterStatus(e.target.value as StatusFilter)} size="small" sx={{ minWidth: 160 }}>
-          <MenuItem value="">{t('app.all')}</MenuItem>
-          <MenuItem value="Active">{t('tenants.active')}</MenuItem>
-          <MenuItem value="Inactive">{t('tenants.inactive')}</MenuItem>
-          <MenuItem value="Archived">{t('tenants.archivedStatus')}</MenuItem>
-        </TextField>
-        <TextField label={t('tenants.search')} value={searchText}
-          onChange={e => setSearchText(e.target.value)} size="small" sx={{ minWidth: 200 }} />
-      </Box>
+      {canManage() && (
+        <TenantRegistrationQueue buildingId={filterBuilding ? Number(filterBuilding) : undefined}
+          onChanged={() => setRefreshKey(k => k + 1)} />
+      )}
 
-      {/* Table / Cards */}
-      {isMobile ? (
-        <Stack spacing={1.5}>
-          {filtered.map(tp => (
-            <Card key={tp.id} variant="outlined">
-              <CardActionArea onClick={() => openEdit(tp)}>
-                <CardContent sx={{ py: 1.5, px: 2, '&:last-child': { pb: 1.5 } }}>
-                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
-                    <Typography variant="subtitle2" fontWeight={600}>{tp.fullName}</Typography>
-                    <Chip label={t(`tenants.${statusLabel(tp).toLowerCase()}`, statusLabel(tp))} size="small" color={statusColor(tp)} />
-                  </Box>
-                  <Typography variant="body2" color="text.secondary">
-                    {tp.buildingName} · {t('tenants.unitLabel')} {tp.unitNumber}
-                  </Typography>
-                  <Typography variant="caption" color="text.secondary">
-                    {tp.phone} · {tp.email}
-                  </Typography>
-                  <Box sx={{ display: 'flex', gap: 0.5, mt: 1, flexWrap: 'wrap' }}>
-                    {tp.isActive && (
-                      <Chip label={t('tenants.endTenancy')} size="small" color="warning" variant="outlined"
-                        onClick={(e) => { e.stopPropagation(); openEndTenancy(tp); }} />
-                    )}
+      <DataGrid
+        gridKey="manager.tenants"
+        columns={columns}
+        filters={filters}
+        fetchRows={fetchRows}
+        rowKey={tp => tp.id}
+        emptyText={t('tenants.noTenants')}
+        refreshKey={refreshKey}
+        renderMobileCard={tp => (
+          <Card variant="outlined">
+            <CardActionArea onClick={() => { if (canManage(tp.buildingId)) openEdit(tp); }}>
+              <CardContent sx={{ py: 1.5, px: 2, '&:last-child': { pb: 1.5 } }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
+                  <Typography variant="subtitle2" fontWeight={600}>{tp.fullName}</Typography>
+                  {statusChip(tp)}
+                </Box>
+                <Typography variant="body2" color="text.secondary">
+                  {tp.buildingName} · {t('tenants.unitLabel')} {tp.unitNumber}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {tp.phone} · {tp.email}
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 0.5, mt: 1, flexWrap: 'wrap' }}>
+                  {accountChip(tp)}
+                  {canInvite(tp) && canManage(tp.buildingId) && (
+                    <Chip icon={<ForwardToInbox sx={{ fontSize: 14 }} />} label={tp.invitedAtUtc ? t('tenants.resendInvite') : t('tenants.invite')}
+                      size="small" color="info" variant="outlined" onClick={(e) => { e.stopPropagation(); setInviteTenant(tp); }} />
+                  )}
+                  {tp.isActive && canManage(tp.buildingId) && (
+                    <Chip label={t('tenants.endTenancy')} size="small" color="warning" variant="outlined"
+                      onClick={(e) => { e.stopPropagation(); openEndTenancy(tp); }} />
+                  )}
+                  {canManage(tp.buildingId) && (
                     <Chip icon={<Send sx={{ fontSize: 14 }} />} label={t('tenants.sendMessage')} size="small" color="primary" variant="outlined"
                       onClick={(e) => { e.stopPropagation(); openSendMessage(tp); }} />
-                    <Chip icon={<Chat sx={{ fontSize: 14 }} />} label={t('tenants.messageHistory')} size="small" variant="outlined"
-                      onClick={(e) => { e.stopPropagation(); openMessageHistory(tp); }} />
-                    <Chip label={t('tenants.history')} size="small" variant="outlined"
-                      onClick={(e) => { e.stopPropagation(); openHistory(tp.unitId, tp.unitNumber || ''); }} />
+                  )}
+                  <Chip icon={<Chat sx={{ fontSize: 14 }} />} label={t('tenants.messageHistory')} size="small" variant="outlined"
+                    onClick={(e) => { e.stopPropagation(); openMessageHistory(tp); }} />
+                  <Chip icon={<Tune sx={{ fontSize: 14 }} />} label={t('tenants.notificationPreferences')} size="small" variant="outlined"
+                    onClick={(e) => { e.stopPropagation(); openPreferences(tp); }} />
+                  <Chip label={t('tenants.history')} size="small" variant="outlined"
+                    onClick={(e) => { e.stopPropagation(); openHistory(tp.unitId, tp.unitNumber || ''); }} />
+                  {canManage(tp.buildingId) && (
                     <Chip label={tp.isArchived ? t('app.delete') : t('tenants.archive')} size="small" color="error" variant="outlined"
                       onClick={(e) => { e.stopPropagation(); openDelete(tp); }} />
-                  </Box>
-                </CardContent>
-              </CardActionArea>
-            </Card>
-          ))}
-          {filtered.length === 0 && (
-            <Typography align="center" color="text.secondary" sx={{ py: 4 }}>{t('tenants.noTenants')}</Typography>
-          )}
-        </Stack>
-      ) : (
-        <TableContainer component={Paper}>
-          <Table size="small">
-            <TableHead>
-              <TableRow>
-                <TableCell>{t('tenants.building')}</TableCell>
-                <TableCell>{t('tenants.unitLabel')}</TableCell>
-                <TableCell>{t('tenants.fullName')}</TableCell>
-                <TableCell>{t('tenants.phone')}</TableCell>
-                <TableCell>{t('tenants.email')}</TableCell>
-                <TableCell>{t('tenants.moveIn')}</TableCell>
-                <TableCell>{t('tenants.moveOut')}</TableCell>
-                <TableCell>{t('tenants.status')}</TableCell>
-                <TableCell>{t('app.actions')}</TableCell>
-              </TableRow>
-            </TableHead>
-            <TableBody>
-              {filtered.map(tp => (
-                <TableRow key={tp.id} hover>
-                  <TableCell>{tp.buildingName}</TableCell>
-                  <TableCell>{tp.unitNumber}</TableCell>
-                  <TableCell>{tp.fullName}</TableCell>
-                  <TableCell>{tp.phone}</TableCell>
-                  <TableCell>{tp.email}</TableCell>
-                  <TableCell>{formatDateOnly(tp.moveInDate)}</TableCell>
-                  <TableCell>{formatDateOnly(tp.moveOutDate)}</TableCell>
-                  <TableCell>
-                    <Chip label={t(`tenants.${statusLabel(tp).toLowerCase()}`, statusLabel(tp))} size="small" color={statusColor(tp)} />
-                  </TableCell>
-                  <TableCell>
-                    <Box sx={{ display: 'flex', gap: 0.5 }}>
-                      <Tooltip title={t('tenants.editTenant')}>
-                        <IconButton size="small" onClick={() => openEdit(tp)}><Edit fontSize="small" /></IconButton>
-                      </Tooltip>
-                      {tp.isActive && (
-                        <Tooltip title={t('tenants.endTenancy')}>
-                          <IconButton size="small" color="warning" onClick={() => openEndTenancy(tp)}>
-                            <EventBusy fontSize="small" />
-                          </IconButton>
-                        </Tooltip>
-                      )}
-                      <Tooltip title={t('tenants.sendMessage')}>
-                        <IconButton size="small" color="primary" onClick={() => openSendMessage(tp)}>
-                          <Send fontSize="small" />
-                        </IconButton>
-                      </Tooltip>
-                      <Tooltip title={t('tenants.messageHistory')}>
-                        <IconButton size="small" onClick={() => openMessageHistory(tp)}>
-                          <Chat fontSize="small" />
-                        </IconButton>
-                      </Tooltip>
-                      <Tooltip title={t('tenants.history')}>
-                        <IconButton size="small" onClick={() => openHistory(tp.unitId, tp.unitNumber || '')}>
-                          <History fontSize="small" />
-                        </IconButton>
-                      </Tooltip>
-                      <Tooltip title={t('tenants.removeTenant')}>
-                        <IconButton size="small" color="error" onClick={() => openDelete(tp)}>
-                          {tp.isArchived ? <Delete fontSize="small" /> : <Archive fontSize="small" />}
-                        </IconButton>
-                      </Tooltip>
-                    </Box>
-                  </TableCell>
-                </TableRow>
-              ))}
-              {filtered.length === 0 && (
-                <TableRow><TableCell colSpan={9} align="center">{t('tenants.noTenants')}</TableCell></TableRow>
-              )}
-            </TableBody>
-          </Table>
-        </TableContainer>
-      )}
+                  )}
+                </Box>
+              </CardContent>
+            </CardActionArea>
+          </Card>
+        )}
+      />
 
-      {/* ─── Add / Edit Dialog ─────────────────────────── */}
       <Dialog open={formOpen} onClose={() => setFormOpen(false)} maxWidth="sm" fullWidth fullScreen={isMobile}>
         <DialogTitle>{editingId ? t('tenants.editTenant') : t('tenants.addTenant')}</DialogTitle>
         <DialogContent>
@@ -466,13 +535,13 @@ const TenantsPage: React.FC = () => {
             {!editingId && (
               <>
                 <TextField select label={t('tenants.building')} value={formBuildingId}
-                  onChange={e => { const bid = Number(e.target.value); setFormBuildingId(bid); loadUnits(bid); setFormData({ ...formData, unitId: 0 }); }}
+                  onChange={e => { const bid = Number(e.target.value); setFormBuildingId(bid); loadUnits(bid); selectUnit(0); }}
                   fullWidth required>
                   <MenuItem value={0}>{t('tenants.selectBuilding')}</MenuItem>
                   {buildings.map(b => <MenuItem key={b.id} value={b.id}>{b.name}</MenuItem>)}
                 </TextField>
                 <TextField select label={t('tenants.unitLabel')} value={formData.unitId}
-                  onChange={e => setFormData({ ...formData, unitId: Number(e.target.value) })}
+                  onChange={e => selectUnit(Number(e.target.value))}
                   fullWidth required>
                   <MenuItem value={0}>{t('tenants.selectUnit')}</MenuItem>
                   {units.map(u => <MenuItem key={u.id} value={u.id}>{u.unitNumber} {u.ownerName ? `(${u.ownerName})` : ''}</MenuItem>)}
@@ -495,14 +564,17 @@ const TenantsPage: React.FC = () => {
               control={<Switch checked={formData.isActive} onChange={e => setFormData({ ...formData, isActive: e.target.checked })} />}
               label={t('tenants.activeTenant')}
             />
-            {formData.isActive && !editingId && (() => {
-              const existingActive = tenants.find(tp => tp.unitId === formData.unitId && tp.isActive);
-              return existingActive ? (
-                <Alert severity="warning">
-                  {t('tenants.existingTenantWarning', { name: existingActive.fullName })}
-                </Alert>
-              ) : null;
-            })()}
+            {editingId && (
+              <FormControlLabel
+                control={<Switch checked={isCommitteeMember} onChange={e => setIsCommitteeMember(e.target.checked)} />}
+                label={t('tenants.committeeMember')}
+              />
+            )}
+            {formData.isActive && !editingId && unitActiveTenant && (
+              <Alert severity="warning">
+                {t('tenants.existingTenantWarning', { name: unitActiveTenant.fullName })}
+              </Alert>
+            )}
             <TextField label={t('tenants.notes')} value={formData.notes}
               onChange={e => setFormData({ ...formData, notes: e.target.value })}
               fullWidth multiline rows={2} />
@@ -610,6 +682,63 @@ const TenantsPage: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      {/* ─── Building Announcement Dialog ──────────────── */}
+      <Dialog open={announceOpen} onClose={() => setAnnounceOpen(false)} maxWidth="sm" fullWidth fullScreen={isMobile}>
+        <DialogTitle>
+          {t('tenants.announceTo', { building: buildings.find(b => String(b.id) === filterBuilding)?.name ?? '' })}
+        </DialogTitle>
+        <DialogContent>
+          <Alert severity="info" sx={{ mt: 1 }}>{t('tenants.announceHint')}</Alert>
+          <Stack spacing={2} sx={{ mt: 2 }}>
+            <TextField label={t('tenants.msgSubject')} value={announceForm.subject}
+              onChange={e => setAnnounceForm({ ...announceForm, subject: e.target.value })}
+              fullWidth required slotProps={{ htmlInput: { maxLength: 100 } }} />
+            <TextField label={t('tenants.msgBody')} value={announceForm.body}
+              onChange={e => setAnnounceForm({ ...announceForm, body: e.target.value })}
+              fullWidth required multiline rows={6} />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAnnounceOpen(false)}>{t('app.cancel')}</Button>
+          <Button variant="contained" onClick={handleSendAnnouncement}
+            disabled={announceSending || !announceForm.subject.trim() || !announceForm.body.trim()}>
+            {announceSending ? <CircularProgress size={20} /> : t('tenants.send')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* ─── Notification Preferences Dialog ───────────── */}
+      <Dialog open={!!prefsTenant} onClose={() => setPrefsTenant(null)} maxWidth="md" fullWidth fullScreen={isMobile}>
+        <DialogTitle>{t('tenants.preferencesFor', { name: prefsTenant?.fullName })}</DialogTitle>
+        <DialogContent>
+          {prefsLoading ? <CircularProgress /> : tenantPrefs && (
+            <>
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 1, mb: 2 }}>
+                <Chip size="small" color="primary"
+                  label={t('tenants.prefChannel', { channel: t(`reminders.channel.${tenantPrefs.preferredChannel}`) })} />
+                {OPT_OUTS.filter(([, key]) => tenantPrefs[key]).map(([ch]) => (
+                  <Chip key={ch} size="small" variant="outlined" label={t('tenants.prefOptedOut', { channel: t(`reminders.channel.${ch}`) })} />
+                ))}
+                {(['paymentReminders', 'ticketUpdates', 'buildingAnnouncements'] as const).map(key => (
+                  <Chip key={key} size="small" variant="outlined" color={tenantPrefs[key] ? 'success' : 'default'}
+                    label={`${t(`notificationSettings.type.${key}`)}: ${tenantPrefs[key] ? t('app.yes') : t('app.no')}`} />
+                ))}
+                {tenantPrefs.quietHoursStart && (
+                  <Chip size="small" variant="outlined"
+                    label={t('tenants.prefQuietHours', { from: tenantPrefs.quietHoursStart, to: tenantPrefs.quietHoursEnd })} />
+                )}
+                <Chip size="small" variant="outlined" label={tenantPrefs.language === 'en' ? t('app.english') : t('app.hebrew')} />
+              </Box>
+              <Typography variant="subtitle2" sx={{ mb: 1 }}>{t('notificationSettings.consent.title')}</Typography>
+              <ConsentLogTable entries={consentLog} />
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPrefsTenant(null)}>{t('app.close')}</Button>
+        </DialogActions>
+      </Dialog>
+
       {/* ─── Message History Dialog ────────────────────── */}
       <Dialog open={msgHistoryOpen} onClose={() => setMsgHistoryOpen(false)} maxWidth="md" fullWidth fullScreen={isMobile}>
         <DialogTitle>{t('tenants.messagesFor', { name: msgHistoryTenant?.fullName })}</DialogTitle>
@@ -698,6 +827,8 @@ const TenantsPage: React.FC = () => {
           <Button onClick={() => setMsgHistoryOpen(false)}>{t('app.close')}</Button>
         </DialogActions>
       </Dialog>
+
+      <InviteTenantDialog key={inviteTenant?.id ?? 0} tenant={inviteTenant} onClose={() => setInviteTenant(null)} onSent={handleInviteSent} />
     </Box>
   );
 };
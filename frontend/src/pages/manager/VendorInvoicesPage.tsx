@@ -1,7 +1,8 @@
 import React, { useEffect, useState, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import {
   Box, Typography, Table, TableBody, TableCell, TableContainer, TableHead, TableRow,
-  Paper, Chip, MenuItem, TextField, Button, Dialog, DialogTitle, DialogContent,
+  Chip, MenuItem, TextField, Button, Dialog, DialogTitle, DialogContent,
   DialogActions, CircularProgress, Alert, useMediaQuery, useTheme, Card, CardContent,
   Stack, CardActionArea, IconButton, Tooltip
 } from '@mui/material';
@@ -9,10 +10,12 @@ import {
   Add, Edit, CheckCircle, Cancel, Delete, Payment, Receipt
 } from '@mui/icons-material';
 import { vendorInvoicesApi, buildingsApi, vendorsApi, workOrdersApi } from '../../api/services';
-import type { VendorInvoiceDto, VendorPaymentDto, BuildingDto, VendorDto, WorkOrderDto } from '../../types';
+import type { VendorInvoiceDto, VendorPaymentDto, BuildingDto, VendorDto, WorkOrderDto, GridQuery } from '../../types';
 import { VENDOR_INVOICE_STATUSES, VENDOR_INVOICE_CATEGORIES, VENDOR_PAYMENT_METHODS } from '../../types';
 import { formatDateOnly, formatCurrency } from '../../utils/dateUtils';
 import { useTranslation } from 'react-i18next';
+import DataGrid from '../../components/DataGrid';
+import type { DataGridColumn, DataGridFilter } from '../../components/DataGrid';
 
 const statusColor = (s: string) => s === 'Paid' ? 'success' : s === 'Approved' ? 'info' : s === 'Cancelled' ? 'error' : 'default';
 
@@ -21,18 +24,17 @@ const VendorInvoicesPage: React.FC = () => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
 
-  const [invoices, setInvoices] = useState<VendorInvoiceDto[]>([]);
   const [buildings, setBuildings] = useState<BuildingDto[]>([]);
   const [vendors, setVendors] = useState<VendorDto[]>([]);
   const [workOrders, setWorkOrders] = useState<WorkOrderDto[]>([]);
-  const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
 
-  // Filters
-  const [filterBuilding, setFilterBuilding] = useState('');
-  const [filterVendor, setFilterVendor] = useState('');
-  const [filterStatus, setFilterStatus] = useState('');
+  // Filters live in the grid's URL parameters; the create form preselects them
+  const [searchParams] = useSearchParams();
+  const filterBuilding = searchParams.get('buildingId') ?? '';
+  const filterVendor = searchParams.get('vendorId') ?? '';
 
   // Invoice dialog
   const [formOpen, setFormOpen] = useState(false);
@@ -55,22 +57,14 @@ const VendorInvoicesPage: React.FC = () => {
   const [payments, setPayments] = useState<VendorPaymentDto[]>([]);
   const [paymentsLoading, setPaymentsLoading] = useState(false);
 
-  const load = useCallback(async () => {
-    try {
-      setLoading(true);
-      const params: any = {};
-      if (filterBuilding) params.buildingId = Number(filterBuilding);
-      if (filterVendor) params.vendorId = Number(filterVendor);
-      if (filterStatus) params.status = filterStatus;
-      const [i, b, v, wo] = await Promise.all([
-        vendorInvoicesApi.getAll(params), buildingsApi.getAll(), vendorsApi.getAll(), workOrdersApi.getAll()
-      ]);
-      setInvoices(i.data); setBuildings(b.data); setVendors(v.data); setWorkOrders(wo.data);
-    } catch { setError(t('vendorInvoices.failedLoad')); }
-    finally { setLoading(false); }
-  }, [filterBuilding, filterVendor, filterStatus, t]);
+  useEffect(() => {
+    Promise.all([buildingsApi.getAll(), vendorsApi.getAll(), workOrdersApi.getAll()])
+      .then(([b, v, wo]) => { setBuildings(b.data); setVendors(v.data); setWorkOrders(wo.data); })
+      .catch(() => setError(t('vendorInvoices.failedLoad')));
+  }, [t]);
 
-  useEffect(() => { load(); }, [load]);
+  const fetchRows = useCallback((query: GridQuery) => vendorInvoicesApi.getPaged(query).then(r => r.data), []);
+  const load = () => setRefreshKey(k => k + 1);
 
   // ─── Invoice CRUD ─────────────────────────────────────
 
@@ -163,7 +157,39 @@ const VendorInvoicesPage: React.FC = () => {
     } catch { setError(t('vendorInvoices.failedDeletePayment')); }
   };
 
-  if (loading) return <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}><CircularProgress /></Box>;
+  const statusChip = (inv: VendorInvoiceDto) =>
+    <Chip label={t(`vendorInvoices.st${inv.status}`, inv.status)} size="small" color={statusColor(inv.status) as any} />;
+
+  const columns: DataGridColumn<VendorInvoiceDto>[] = [
+    { field: 'vendorName', headerName: t('vendorInvoices.vendor'), sortable: true, hideable: false, render: inv => inv.vendorName },
+    { field: 'buildingName', headerName: t('vendorInvoices.building'), sortable: true, render: inv => inv.buildingName },
+    { field: 'invoiceNumber', headerName: t('vendorInvoices.invoiceNumber'), defaultHidden: true, render: inv => inv.invoiceNumber },
+    { field: 'category', headerName: t('vendorInvoices.category'), sortable: true, render: inv => t(`enums.finCategory.${inv.category}`, inv.category ?? '') },
+    { field: 'invoiceDate', headerName: t('vendorInvoices.invoiceDate'), sortable: true, render: inv => formatDateOnly(inv.invoiceDate) },
+    { field: 'dueDate', headerName: t('vendorInvoices.dueDate'), sortable: true, render: inv => formatDateOnly(inv.dueDate) },
+    { field: 'amount', headerName: t('vendorInvoices.amount'), sortable: true, align: 'right', render: inv => formatCurrency(inv.amount) },
+    { field: 'paidAmount', headerName: t('vendorInvoices.paidAmount'), align: 'right', render: inv => formatCurrency(inv.paidAmount) },
+    { field: 'balance', headerName: t('vendorInvoices.balance'), align: 'right', render: inv => formatCurrency(inv.balance) },
+    { field: 'status', headerName: t('vendorInvoices.status'), sortable: true, render: statusChip },
+    {
+      field: 'actions', headerName: t('app.actions'), hideable: false, render: inv => (
+        <Box sx={{ display: 'flex', gap: 0.5 }}>
+          <Tooltip title={t('app.edit')}><IconButton size="small" onClick={() => openEdit(inv)}><Edit fontSize="small" /></IconButton></Tooltip>
+          {inv.status === 'Draft' && <Tooltip title={t('vendorInvoices.approve')}><IconButton size="small" color="success" onClick={() => handleApprove(inv.id)}><CheckCircle fontSize="small" /></IconButton></Tooltip>}
+          {inv.status !== 'Cancelled' && inv.status !== 'Paid' && <Tooltip title={t('vendorInvoices.addPayment')}><IconButton size="small" color="primary" onClick={() => openAddPayment(inv)}><Payment fontSize="small" /></IconButton></Tooltip>}
+          <Tooltip title={t('vendorInvoices.viewPayments')}><IconButton size="small" onClick={() => openPaymentsList(inv)}><Receipt fontSize="small" /></IconButton></Tooltip>
+          {inv.status === 'Draft' && <Tooltip title={t('vendorInvoices.cancelInvoice')}><IconButton size="small" color="warning" onClick={() => handleCancel(inv.id)}><Cancel fontSize="small" /></IconButton></Tooltip>}
+          <Tooltip title={t('app.delete')}><IconButton size="small" color="error" onClick={() => handleDelete(inv.id)}><Delete fontSize="small" /></IconButton></Tooltip>
+        </Box>
+      ),
+    },
+  ];
+
+  const filters: DataGridFilter[] = [
+    { key: 'buildingId', label: t('vendorInvoices.building'), minWidth: 200, options: buildings.map(b => ({ value: String(b.id), label: b.name })) },
+    { key: 'vendorId', label: t('vendorInvoices.vendor'), minWidth: 200, options: vendors.map(v => ({ value: String(v.id), label: v.name })) },
+    { key: 'status', label: t('vendorInvoices.status'), options: VENDOR_INVOICE_STATUSES.map(s => ({ value: s, label: t(`vendorInvoices.st${s}`, s) })) },
+  ];
 
   return (
     <Box>
@@ -177,84 +203,30 @@ const VendorInvoicesPage: React.FC = () => {
       {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
       {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess('')}>{success}</Alert>}
 
-      <Box sx={{ display: 'flex', gap: 2, mb: 3, flexWrap: 'wrap' }}>
-        <TextField select label={t('vendorInvoices.building')} value={filterBuilding} onChange={e => setFilterBuilding(e.target.value)} size="small" sx={{ minWidth: 200 }}>
-          <MenuItem value="">{t('app.all')}</MenuItem>
-          {buildings.map(b => <MenuItem key={b.id} value={b.id}>{b.name}</MenuItem>)}
-        </TextField>
-        <TextField select label={t('vendorInvoices.vendor')} value={filterVendor} onChange={e => setFilterVendor(e.target.value)} size="small" sx={{ minWidth: 200 }}>
-          <MenuItem value="">{t('app.all')}</MenuItem>
-          {vendors.map(v => <MenuItem key={v.id} value={v.id}>{v.name}</MenuItem>)}
-        </TextField>
-        <TextField select label={t('vendorInvoices.status')} value={filterStatus} onChange={e => setFilterStatus(e.target.value)} size="small" sx={{ minWidth: 160 }}>
-          <MenuItem value="">{t('app.all')}</MenuItem>
-          {VENDOR_INVOICE_STATUSES.map(s => <MenuItem key={s} value={s}>{t(`vendorInvoices.st${s}`, s)}</MenuItem>)}
-        </TextField>
-      </Box>
-
-      {isMobile ? (
-        <Stack spacing={1.5}>
-          {invoices.map(inv => (
-            <Card key={inv.id} variant="outlined">
-              <CardActionArea onClick={() => openPaymentsList(inv)}>
-                <CardContent sx={{ py: 1.5, px: 2, '&:last-child': { pb: 1.5 } }}>
-                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
-                    <Typography variant="subtitle2" fontWeight={600}>{inv.vendorName}</Typography>
-                    <Chip label={t(`vendorInvoices.st${inv.status}`, inv.status)} size="small" color={statusColor(inv.status) as any} />
-                  </Box>
-                  <Typography variant="body2" color="text.secondary">{inv.buildingName} · {inv.category}</Typography>
-                  <Typography variant="body2">{formatCurrency(inv.amount)} · {t('vendorInvoices.paid')}: {formatCurrency(inv.paidAmount)}</Typography>
-                  <Typography variant="caption" color="text.secondary">{formatDateOnly(inv.invoiceDate)}</Typography>
-                </CardContent>
-              </CardActionArea>
-            </Card>
-          ))}
-          {invoices.length === 0 && <Typography align="center" color="text.secondary" sx={{ py: 4 }}>{t('vendorInvoices.noInvoices')}</Typography>}
-        </Stack>
-      ) : (
-        <TableContainer component={Paper}>
-          <Table size="small">
-            <TableHead><TableRow>
-              <TableCell>{t('vendorInvoices.vendor')}</TableCell>
-              <TableCell>{t('vendorInvoices.building')}</TableCell>
-              <TableCell>{t('vendorInvoices.category')}</TableCell>
-              <TableCell>{t('vendorInvoices.invoiceDate')}</TableCell>
-              <TableCell>{t('vendorInvoices.dueDate')}</TableCell>
-              <TableCell align="right">{t('vendorInvoices.amount')}</TableCell>
-              <TableCell align="right">{t('vendorInvoices.paidAmount')}</TableCell>
-              <TableCell align="right">{t('vendorInvoices.balance')}</TableCell>
-              <TableCell>{t('vendorInvoices.status')}</TableCell>
-              <TableCell>{t('app.actions')}</TableCell>
-            </TableRow></TableHead>
-            <TableBody>
-              {invoices.map(inv => (
-                <TableRow key={inv.id} hover>
-                  <TableCell>{inv.vendorName}</TableCell>
-                  <TableCell>{inv.buildingName}</TableCell>
-                  <TableCell>{t(`enums.finCategory.${inv.category}`, inv.category ?? '')}</TableCell>
-                  <TableCell>{formatDateOnly(inv.invoiceDate)}</TableCell>
-                  <TableCell>{formatDateOnly(inv.dueDate)}</TableCell>
-                  <TableCell align="right">{formatCurrency(inv.amount)}</TableCell>
-                  <TableCell align="right">{formatCurrency(inv.paidAmount)}</TableCell>
-                  <TableCell align="right">{formatCurrency(inv.balance)}</TableCell>
-                  <TableCell><Chip label={t(`vendorInvoices.st${inv.status}`, inv.status)} size="small" color={statusColor(inv.status) as any} /></TableCell>
-                  <TableCell>
-                    <Box sx={{ display: 'flex', gap: 0.5 }}>
-                      <Tooltip title={t('app.edit')}><IconButton size="small" onClick={() => openEdit(inv)}><Edit fontSize="small" /></IconButton></Tooltip>
-                      {inv.status === 'Draft' && <Tooltip title={t('vendorInvoices.approve')}><IconButton size="small" color="success" onClick={() => handleApprove(inv.id)}><CheckCircle fontSize="small" /></IconButton></Tooltip>}
-                      {inv.status !== 'Cancelled' && inv.status !== 'Paid' && <Tooltip title={t('vendorInvoices.addPayment')}><IconButton size="small" color="primary" onClick={() => openAddPayment(inv)}><Payment fontSize="small" /></IconButton></Tooltip>}
-                      <Tooltip title={t('vendorInvoices.viewPayments')}><IconButton size="small" onClick={() => openPaymentsList(inv)}><Receipt fontSize="small" /></IconButton></Tooltip>
-                      {inv.status === 'Draft' && <Tooltip title={t('vendorInvoices.cancelInvoice')}><IconButton size="small" color="warning" onClick={() => handleCancel(inv.id)}><Cancel fontSize="small" /></IconButton></Tooltip>}
-                      <Tooltip title={t('app.delete')}><IconButton size="small" color="error" onClick={() => handleDelete(inv.id)}><Delete fontSize="small" /></IconButton></Tooltip>
-                    </Box>
-                  </TableCell>
-                </TableRow>
-              ))}
-              {invoices.length === 0 && <TableRow><TableCell colSpan={10} align="center">{t('vendorInvoices.noInvoices')}</TableCell></TableRow>}
-            </TableBody>
-          </Table>
-        </TableContainer>
-      )}
+      <DataGrid
+        gridKey="manager.vendorInvoices"
+        columns={columns}
+        filters={filters}
+        fetchRows={fetchRows}
+        rowKey={inv => inv.id}
+        emptyText={t('vendorInvoices.noInvoices')}
+        refreshKey={refreshKey}
+        renderMobileCard={inv => (
+          <Card variant="outlined">
+            <CardActionArea onClick={() => openPaymentsList(inv)}>
+              <CardContent sx={{ py: 1.5, px: 2, '&:last-child': { pb: 1.5 } }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
+                  <Typography variant="subtitle2" fontWeight={600}>{inv.vendorName}</Typography>
+                  {statusChip(inv)}
+                </Box>
+                <Typography variant="body2" color="text.secondary">{inv.buildingName} · {inv.category}</Typography>
+                <Typography variant="body2">{formatCurrency(inv.amount)} · {t('vendorInvoices.paid')}: {formatCurrency(inv.paidAmount)}</Typography>
+                <Typography variant="caption" color="text.secondary">{formatDateOnly(inv.invoiceDate)}</Typography>
+              </CardContent>
+            </CardActionArea>
+          </Card>
+        )}
+      />
 
       {/* ─── Invoice Create/Edit Dialog ────────────────── */}
       <Dialog open={formOpen} onClose={() => setFormOpen(false)} maxWidth="sm" fullWidth fullScreen={isMobile}>
@@ -10,9 +10,12 @@ import { vendorsApi } from '../../api/services';
 import type { VendorDto } from '../../types';
 import { VENDOR_SERVICE_TYPES } from '../../types';
 import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../auth/AuthContext';
 
 const VendorsPage: React.FC = () => {
   const { t } = useTranslation();
+  const { can } = useAuth();
+  const canManage = can('Vendors', 'Manage');
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
   const [vendors, setVendors] = useState<VendorDto[]>([]);
@@ -47,7 +50,9 @@ const VendorsPage: React.FC = () => {
     <Box>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 1 }}>
         <Typography variant="h4" sx={{ fontWeight: 700, fontSize: { xs: '1.3rem', md: '2rem' } }}>{t('vendors.title')}</Typography>
-        <Button variant="contained" startIcon={<Add />} onClick={openCreate} size={isMobile ? 'small' : 'medium'}>{t('vendors.addVendor')}</Button>
+        {canManage && (
+          <Button variant="contained" startIcon={<Add />} onClick={openCreate} size={isMobile ? 'small' : 'medium'}>{t('vendors.addVendor')}</Button>
+        )}
       </Box>
       {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
 
@@ -55,7 +60,7 @@ const VendorsPage: React.FC = () => {
         <Stack spacing={1.5}>
           {vendors.map(v => (
             <Card key={v.id} variant="outlined">
-              <CardActionArea onClick={() => openEdit(v)}>
+              <CardActionArea onClick={() => openEdit(v)} disabled={!canManage}>
                 <CardContent sx={{ py: 1.5, px: 2, '&:last-child': { pb: 1.5 } }}>
                   <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
                     <Typography variant="subtitle1" fontWeight={600}>{v.name}</Typography>
@@ -84,7 +89,7 @@ const VendorsPage: React.FC = () => {
                   <TableCell>{v.name}</TableCell><TableCell>{t(`enums.vendorServiceType.${v.serviceType}`, v.serviceType)}</TableCell>
                   <TableCell>{v.phone}</TableCell><TableCell>{v.email}</TableCell>
                   <TableCell>{v.contactName}</TableCell>
-                  <TableCell><Button size="small" startIcon={<Edit />} onClick={() => openEdit(v)}>{t('app.edit')}</Button></TableCell>
+                  <TableCell><Button size="small" startIcon={<Edit />} onClick={() => openEdit(v)} disabled={!canManage}>{t('app.edit')}</Button></TableCell>
                 </TableRow>
               ))}
               {vendors.length === 0 && <TableRow><TableCell colSpan={6} align="center">{t('vendors.noVendors')}</TableCell></TableRow>}
@@ -1,16 +1,17 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
-  Box, Typography, Table, TableBody, TableCell, TableContainer, TableHead, TableRow,
-  Paper, Chip, MenuItem, TextField, Button, Dialog, DialogTitle, DialogContent,
-  DialogActions, CircularProgress, Alert, Divider, List, ListItem, ListItemText,
-  useMediaQuery, useTheme, Card, CardContent, Stack, CardActionArea
+  Box, Typography, Chip, MenuItem, TextField, Button, Dialog, DialogTitle, DialogContent,
+  DialogActions, Alert, Divider, List, ListItem, ListItemText,
+  useMediaQuery, useTheme, Card, CardContent, CardActionArea
 } from '@mui/material';
 import { Visibility } from '@mui/icons-material';
 import { workOrdersApi, vendorsApi, buildingsApi } from '../../api/services';
-import type { WorkOrderDto, VendorDto, BuildingDto } from '../../types';
+import type { WorkOrderDto, VendorDto, BuildingDto, GridQuery } from '../../types';
 import { WO_STATUSES } from '../../types';
 import { formatDateLocal } from '../../utils/dateUtils';
 import { useTranslation } from 'react-i18next';
+import DataGrid from '../../components/DataGrid';
+import type { DataGridColumn, DataGridFilter } from '../../components/DataGrid';
 
 const statusColor = (s: string) => s === 'Completed' ? 'success' : s === 'Cancelled' ? 'error' : s === 'InProgress' ? 'warning' : 'default';
 
@@ -18,37 +19,46 @@ const WorkOrdersPage: React.FC = () => {
   const { t } = useTranslation();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
-  const [workOrders, setWorkOrders] = useState<WorkOrderDto[]>([]);
   const [vendors, setVendors] = useState<VendorDto[]>([]);
-  const [_buildings, setBuildings] = useState<BuildingDto[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [buildings, setBuildings] = useState<BuildingDto[]>([]);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
-  const [filterStatus, setFilterStatus] = useState('');
-  const [filterVendor, setFilterVendor] = useState('');
+  const [refreshKey, setRefreshKey] = useState(0);
   const [detailOpen, setDetailOpen] = useState(false);
   const [selected, setSelected] = useState<WorkOrderDto | null>(null);
   const [statusForm, setStatusForm] = useState('');
 
-  const load = async () => {
-    try {
-      setLoading(true);
-      const params: any = {};
-      if (filterStatus) params.status = filterStatus;
-      if (filterVendor) params.vendorId = Number(filterVendor);
-      const [w, v, b] = await Promise.all([workOrdersApi.getAll(params), vendorsApi.getAll(), buildingsApi.getAll()]);
-      setWorkOrders(w.data); setVendors(v.data); setBuildings(b.data);
-    } catch { setError(t('workOrders.failedLoad')); } finally { setLoading(false); }
-  };
+  useEffect(() => {
+    Promise.all([vendorsApi.getAll(), buildingsApi.getAll()])
+      .then(([v, b]) => { setVendors(v.data); setBuildings(b.data); })
+      .catch(() => setError(t('workOrders.failedLoad')));
+  }, [t]);
+
+  const fetchRows = useCallback((query: GridQuery) => workOrdersApi.getPaged(query).then(r => r.data), []);
 
-  useEffect(() => { load(); }, [filterStatus, filterVendor]);
+  const openDetail = (wo: WorkOrderDto) => { setSelected(wo); setStatusForm(wo.status); setDetailOpen(true); };
 
   const handleStatusUpdate = async () => {
     if (!selected || !statusForm) return;
-    try { await workOrdersApi.updateStatus(selected.id, { status: statusForm }); setSuccess(t('workOrders.statusUpdated')); setDetailOpen(false); load(); } catch { setError(t('workOrders.failedUpdate')); }
+    try { await workOrdersApi.updateStatus(selected.id, { status: statusForm }); setSuccess(t('workOrders.statusUpdated')); setDetailOpen(false); setRefreshKey(k => k + 1); } catch { setError(t('workOrders.failedUpdate')); }
   };
 
-  if (loading) return <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}><CircularProgress /></Box>;
+  const columns: DataGridColumn<WorkOrderDto>[] = [
+    { field: 'id', headerName: t('workOrders.id'), sortable: true, render: wo => wo.id },
+    { field: 'title', headerName: t('workOrders.woTitle'), sortable: true, hideable: false, render: wo => wo.title },
+    { field: 'buildingName', headerName: t('workOrders.building'), sortable: true, render: wo => wo.buildingName },
+    { field: 'vendorName', headerName: t('workOrders.vendor'), sortable: true, render: wo => wo.vendorName || '—' },
+    { field: 'status', headerName: t('workOrders.status'), sortable: true, render: wo => <Chip label={t(`enums.woStatus.${wo.status}`, wo.status)} size="small" color={statusColor(wo.status) as any} /> },
+    { field: 'scheduledFor', headerName: t('workOrders.scheduled'), sortable: true, render: wo => formatDateLocal(wo.scheduledFor) },
+    { field: 'createdAtUtc', headerName: t('workOrders.created'), sortable: true, render: wo => formatDateLocal(wo.createdAtUtc) },
+    { field: 'actions', headerName: t('app.actions'), hideable: false, render: wo => <Button size="small" startIcon={<Visibility />} onClick={() => openDetail(wo)}>{t('app.view')}</Button> },
+  ];
+
+  const filters: DataGridFilter[] = [
+    { key: 'status', label: t('workOrders.status'), options: WO_STATUSES.map(s => ({ value: s, label: t(`enums.woStatus.${s}`, s) })) },
+    { key: 'vendorId', label: t('workOrders.vendor'), allLabel: t('workOrders.allVendors'), minWidth: 200, options: vendors.map(v => ({ value: String(v.id), label: v.name })) },
+    { key: 'buildingId', label: t('workOrders.building'), minWidth: 200, options: buildings.map(b => ({ value: String(b.id), label: b.name })) },
+  ];
 
   return (
     <Box>
@@ -56,63 +66,30 @@ const WorkOrdersPage: React.FC = () => {
       {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
       {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess('')}>{success}</Alert>}
 
-      <Box sx={{ display: 'flex', gap: 2, mb: 3, flexWrap: 'wrap' }}>
-        <TextField select label={t('workOrders.status')} value={filterStatus} onChange={e => setFilterStatus(e.target.value)} size="small" sx={{ minWidth: 160 }}>
-          <MenuItem value="">{t('app.all')}</MenuItem>
-          {WO_STATUSES.map(s => <MenuItem key={s} value={s}>{t(`enums.woStatus.${s}`, s)}</MenuItem>)}
-        </TextField>
-        <TextField select label={t('workOrders.vendor')} value={filterVendor} onChange={e => setFilterVendor(e.target.value)} size="small" sx={{ minWidth: 200 }}>
-          <MenuItem value="">{t('workOrders.allVendors')}</MenuItem>
-          {vendors.map(v => <MenuItem key={v.id} value={v.id}>{v.name}</MenuItem>)}
-        </TextField>
-      </Box>
-
-      {isMobile ? (
-        <Stack spacing={1.5}>
-          {workOrders.map(wo => (
-            <Card key={wo.id} variant="outlined">
-              <CardActionArea onClick={() => { setSelected(wo); setStatusForm(wo.status); setDetailOpen(true); }}>
-                <CardContent sx={{ py: 1.5, px: 2, '&:last-child': { pb: 1.5 } }}>
-                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
-                    <Typography variant="subtitle2">#{wo.id}</Typography>
-                    <Chip label={t(`enums.woStatus.${wo.status}`, wo.status)} size="small" color={statusColor(wo.status) as any} />
-                  </Box>
-                  <Typography variant="body2" fontWeight={600} noWrap>{wo.title}</Typography>
-                  <Typography variant="caption" color="text.secondary">{wo.buildingName} · {wo.vendorName || t('workOrders.unassigned')} · {formatDateLocal(wo.createdAtUtc)}</Typography>
-                </CardContent>
-              </CardActionArea>
-            </Card>
-          ))}
-          {workOrders.length === 0 && <Typography align="center" color="text.secondary" sx={{ py: 4 }}>{t('workOrders.noWorkOrders')}</Typography>}
-        </Stack>
-      ) : (
-        <TableContainer component={Paper}>
-          <Table size="small">
-            <TableHead><TableRow>
-              <TableCell>{t('workOrders.id')}</TableCell><TableCell>{t('workOrders.woTitle')}</TableCell><TableCell>{t('workOrders.building')}</TableCell>
-              <TableCell>{t('workOrders.vendor')}</TableCell><TableCell>{t('workOrders.status')}</TableCell><TableCell>{t('workOrders.scheduled')}</TableCell>
-              <TableCell>{t('workOrders.created')}</TableCell><TableCell>{t('app.actions')}</TableCell>
-            </TableRow></TableHead>
-            <TableBody>
-              {workOrders.map(wo => (
-                <TableRow key={wo.id} hover>
-                  <TableCell>{wo.id}</TableCell>
-                  <TableCell>{wo.title}</TableCell>
-                  <TableCell>{wo.buildingName}</TableCell>
-                  <TableCell>{wo.vendorName || '—'}</TableCell>
-                  <TableCell><Chip label={t(`enums.woStatus.${wo.status}`, wo.status)} size="small" color={statusColor(wo.status) as any} /></TableCell>
-                  <TableCell>{formatDateLocal(wo.scheduledFor)}</TableCell>
-                  <TableCell>{formatDateLocal(wo.createdAtUtc)}</TableCell>
-                  <TableCell>
-                    <Button size="small" startIcon={<Visibility />} onClick={() => { setSelected(wo); setStatusForm(wo.status); setDetailOpen(true); }}>{t('app.view')}</Button>
-                  </TableCell>
-                </TableRow>
-              ))}
-              {workOrders.length === 0 && <TableRow><TableCell colSpan={8} align="center">{t('workOrders.noWorkOrders')}</TableCell></TableRow>}
-            </TableBody>
-          </Table>
-        </TableContainer>
-      )}
+      <DataGrid
+        gridKey="manager.workOrders"
+        columns={columns}
+        filters={filters}
+        fetchRows={fetchRows}
+        rowKey={wo => wo.id}
+        defaultSort={{ field: 'createdAtUtc', dir: 'desc' }}
+        emptyText={t('workOrders.noWorkOrders')}
+        refreshKey={refreshKey}
+        renderMobileCard={wo => (
+          <Card variant="outlined">
+            <CardActionArea onClick={() => openDetail(wo)}>
+              <CardContent sx={{ py: 1.5, px: 2, '&:last-child': { pb: 1.5 } }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
+                  <Typography variant="subtitle2">#{wo.id}</Typography>
+                  <Chip label={t(`enums.woStatus.${wo.status}`, wo.status)} size="small" color={statusColor(wo.status) as any} />
+                </Box>
+                <Typography variant="body2" fontWeight={600} noWrap>{wo.title}</Typography>
+                <Typography variant="caption" color="text.secondary">{wo.buildingName} · {wo.vendorName || t('workOrders.unassigned')} · {formatDateLocal(wo.createdAtUtc)}</Typography>
+              </CardContent>
+            </CardActionArea>
+          </Card>
+        )}
+      />
 
       <Dialog open={detailOpen} onClose={() => setDetailOpen(false)} maxWidth="md" fullWidth fullScreen={isMobile}>
         {selected && (<>
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import {
+  Box, Paper, Typography, Button, Alert, CircularProgress, Table, TableBody, TableCell, TableHead, TableRow, Divider
+} from '@mui/material';
+import { CheckCircle, ErrorOutline, Payment } from '@mui/icons-material';
+import { paymentsApi } from '../../api/services';
+import type { PaymentLinkCheckoutDto } from '../../types';
+import { formatCurrency, formatDateOnly } from '../../utils/dateUtils';
+import { useTranslation } from 'react-i18next';
+
+/**
+ * Checkout opened from the payment link of a reminder — no login. Shows the unit's open charges and hands
+ * off to the provider's hosted page; the provider returns here with ?status=success or ?status=cancel.
+ */
+const PayLinkPage: React.FC = () => {
+  const { t } = useTranslation();
+  const { token = '' } = useParams();
+  const [params] = useSearchParams();
+  const status = params.get('status');
+  const paid = status === 'success';
+
+  const [checkout, setCheckout] = useState<PaymentLinkCheckoutDto | null>(null);
+  const [loading, setLoading] = useState(!paid);
+  const [error, setError] = useState('');
+  const [paying, setPaying] = useState(false);
+
+  useEffect(() => {
+    if (paid) return;
+    // One click per browser session: reloads and returns from a cancelled checkout don't count again
+    const clickKey = `payLinkClicked:${token}`;
+    const countClick = !sessionStorage.getItem(clickKey);
+    if (countClick) sessionStorage.setItem(clickKey, '1');
+    paymentsApi.getPaymentLink(token, countClick)
+      .then(r => setCheckout(r.data))
+      .catch(err => setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('payLink.invalid')))
+      .finally(() => setLoading(false));
+  }, [token, paid, t]);
+
+  const handlePay = async () => {
+    setPaying(true); setError('');
+    try {
+      const r = await paymentsApi.createPaymentLinkSession(token);
+      if (r.data.paymentUrl) { window.location.href = r.data.paymentUrl; return; }
+      setError(r.data.error || t('payLink.failedSession'));
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('payLink.failedSession'));
+    }
+    setPaying(false);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '100vh', p: 2, bgcolor: 'grey.100' }}>
+      <Paper sx={{ p: { xs: 2.5, sm: 4 }, maxWidth: 520, width: '100%' }}>
+        {paid ? (
+          <Box sx={{ textAlign: 'center' }}>
+            <CheckCircle sx={{ fontSize: 64, color: 'success.main', mb: 2 }} />
+            <Typography variant="h5" gutterBottom>{t('payment.successTitle')}</Typography>
+            <Typography color="text.secondary">{t('payLink.paidMsg')}</Typography>
+          </Box>
+        ) : loading ? (
+          <CircularProgress sx={{ display: 'block', mx: 'auto' }} />
+        ) : !checkout ? (
+          <Box sx={{ textAlign: 'center' }}>
+            <ErrorOutline sx={{ fontSize: 64, color: 'error.main', mb: 2 }} />
+            <Typography variant="h6" gutterBottom>{t('payLink.unavailableTitle')}</Typography>
+            <Typography color="text.secondary">{error}</Typography>
+          </Box>
+        ) : (
+          <>
+            <Typography variant="h5" fontWeight={700} gutterBottom>{t('payLink.title')}</Typography>
+            <Typography color="text.secondary">
+              {checkout.buildingName} · {t('statement.unit')} {checkout.unitNumber}
+            </Typography>
+            <Typography color="text.secondary" sx={{ mb: 2 }}>{checkout.payerName}</Typography>
+
+            {status === 'cancel' && <Alert severity="warning" sx={{ mb: 2 }}>{t('payLink.cancelledMsg')}</Alert>}
+            {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+            {checkout.charges.length === 0 ? (
+              <Alert severity="success">{t('payLink.nothingToPay')}</Alert>
+            ) : (
+              <>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>{t('allocation.charge')}</TableCell>
+                      <TableCell>{t('allocation.dueDate')}</TableCell>
+                      <TableCell align="right">{t('allocation.balance')}</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {checkout.charges.map(c => (
+                      <TableRow key={c.id}>
+                        <TableCell>
+                          {c.period}
+                          <Typography variant="caption" display="block" color="text.secondary">{t(`enums.unitChargeType.${c.chargeType}`, c.chargeType)}</Typography>
+                        </TableCell>
+                        <TableCell>{formatDateOnly(c.dueDate)}</TableCell>
+                        <TableCell align="right">{formatCurrency(c.balance)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <Divider sx={{ my: 1.5 }} />
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 2 }}>
+                  <Typography fontWeight={600}>{t('payLink.total')}</Typography>
+                  <Typography fontWeight={700}>{formatCurrency(checkout.total)}</Typography>
+                </Box>
+                <Button fullWidth variant="contained" size="large" startIcon={<Payment />} disabled={paying} onClick={handlePay}>
+                  {t('payLink.pay', { amount: formatCurrency(checkout.total) })}
+                </Button>
+              </>
+            )}
+            <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 2 }}>
+              {t('payLink.expires', { date: formatDateOnly(checkout.expiresAtUtc) })}
+            </Typography>
+          </>
+        )}
+      </Paper>
+    </Box>
+  );
+};
+
+export default PayLinkPage;
@@ -9,16 +9,18 @@ const PaymentCancelPage: React.FC = () => {
   const [params] = useSearchParams();
   const navigate = useNavigate();
   const isTokenize = params.get('type') === 'tokenize';
+  // Set by the provider when the payment did not go through (declined card, failed 3-D Secure)
+  const reason = params.get('reason');
 
   return (
     <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '80vh' }}>
       <Paper sx={{ p: 4, maxWidth: 500, textAlign: 'center' }}>
         <Cancel sx={{ fontSize: 64, color: 'error.main', mb: 2 }} />
         <Typography variant="h5" gutterBottom>
-          {isTokenize ? t('payment.cardCancelTitle') : t('payment.cancelTitle')}
+          {isTokenize ? t('payment.cardCancelTitle') : reason ? t('payment.failedTitle') : t('payment.cancelTitle')}
         </Typography>
         <Typography color="text.secondary" sx={{ mb: 2 }}>
-          {isTokenize ? t('payment.cancelCardMsg') : t('payment.cancelPayMsg')}
+          {isTokenize ? t('payment.cancelCardMsg') : reason ? t(`payment.failedReason.${reason}`, t('payment.failedMsg')) : t('payment.cancelPayMsg')}
         </Typography>
         <Box sx={{ mt: 3, display: 'flex', gap: 2, justifyContent: 'center' }}>
           <Button variant="contained" onClick={() => navigate('/my-charges')}>{t('app.tryAgain')}</Button>
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Box, Paper, Typography, Button, TextField, Alert, Chip } from '@mui/material';
+import { VerifiedUser } from '@mui/icons-material';
+import { paymentsApi } from '../../api/services';
+import { formatCurrency } from '../../utils/dateUtils';
+import { useTranslation } from 'react-i18next';
+
+const withQuery = (url: string, query: string) => `${url}${url.includes('?') ? '&' : '?'}${query}`;
+
+/** Simulated bank 3-D Secure challenge of the Fake provider (simulator scenario "3-D Secure"). */
+const PaymentSimulatorPage: React.FC = () => {
+  const { t } = useTranslation();
+  const [params] = useSearchParams();
+  const providerRef = params.get('provider_ref') ?? '';
+  const amount = Number(params.get('amount')) || 0;
+  const successUrl = params.get('success_url') ?? '/payment/success';
+  const cancelUrl = params.get('cancel_url') ?? '/payment/cancel';
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const complete = async (approved: boolean) => {
+    setBusy(true); setError('');
+    try {
+      await paymentsApi.completeSimulatedChallenge({ providerReference: providerRef, approved });
+      // Like a real provider: the result arrives by webhook, the browser returns to the shop
+      window.location.href = approved
+        ? withQuery(successUrl, `provider_ref=${encodeURIComponent(providerRef)}&status=pending`)
+        : withQuery(cancelUrl, `provider_ref=${encodeURIComponent(providerRef)}&reason=3ds_failed`);
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || t('paymentSimulator.failed'));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '80vh' }}>
+      <Paper sx={{ p: 4, maxWidth: 420, textAlign: 'center' }}>
+        <Chip label={t('paymentSimulator.badge')} color="warning" size="small" sx={{ mb: 2 }} />
+        <VerifiedUser sx={{ fontSize: 56, color: 'primary.main', mb: 1, display: 'block', mx: 'auto' }} />
+        <Typography variant="h5" gutterBottom>{t('paymentSimulator.title')}</Typography>
+        <Typography color="text.secondary" sx={{ mb: 2 }}>
+          {t('paymentSimulator.message', { amount: formatCurrency(amount) })}
+        </Typography>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <TextField fullWidth size="small" label={t('paymentSimulator.code')} value={code}
+          onChange={e => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+          helperText={t('paymentSimulator.codeHint')} sx={{ mb: 2 }} />
+        <Box sx={{ display: 'flex', gap: 2, justifyContent: 'center' }}>
+          <Button variant="contained" disabled={busy || code.length !== 6} onClick={() => complete(true)}>{t('paymentSimulator.approve')}</Button>
+          <Button variant="outlined" color="error" disabled={busy} onClick={() => complete(false)}>{t('paymentSimulator.fail')}</Button>
+        </Box>
+      </Paper>
+    </Box>
+  );
+};
+
+export default PaymentSimulatorPage;
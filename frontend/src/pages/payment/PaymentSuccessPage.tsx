@@ -1,9 +1,14 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { Box, Paper, Typography, Button, Chip, CircularProgress } from '@mui/material';
-import { CheckCircle, HourglassEmpty } from '@mui/icons-material';
+import { CheckCircle, HourglassEmpty, Cancel } from '@mui/icons-material';
+import { paymentsApi } from '../../api/services';
 import { useTranslation } from 'react-i18next';
 
+/** How often and how long a pending payment is polled while waiting for the provider's webhook */
+const POLL_INTERVAL_MS = 3000;
+const POLL_MAX_ATTEMPTS = 40;
+
 const PaymentSuccessPage: React.FC = () => {
   const { t } = useTranslation();
   const [params] = useSearchParams();
@@ -11,8 +16,33 @@ const PaymentSuccessPage: React.FC = () => {
   const type = params.get('type');
   const status = params.get('status');
   const providerRef = params.get('provider_ref');
+  const paymentId = Number(params.get('payment_id')) || null;
   const isTokenize = type === 'tokenize';
-  const isPending = !status || status === 'pending';
+
+  // Pending checkouts settle when the webhook arrives; poll the payment until then
+  const [paymentStatus, setPaymentStatus] = useState<string | null>(null);
+  const [gaveUp, setGaveUp] = useState(false);
+  const waiting = !isTokenize && !!paymentId && (!status || status === 'pending');
+
+  useEffect(() => {
+    if (!waiting) return;
+    let attempts = 0;
+    let timer: ReturnType<typeof setTimeout>;
+    const poll = async () => {
+      attempts++;
+      try {
+        const r = await paymentsApi.getPayment(paymentId!);
+        if (r.data.status !== 'Pending') { setPaymentStatus(r.data.status); return; }
+      } catch { /* keep polling */ }
+      if (attempts >= POLL_MAX_ATTEMPTS) { setGaveUp(true); return; }
+      timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+    poll();
+    return () => clearTimeout(timer);
+  }, [waiting, paymentId]);
+
+  const isFailed = paymentStatus === 'Failed' || paymentStatus === 'Cancelled';
+  const isPending = waiting ? !paymentStatus : (!status || status === 'pending');
 
   return (
     <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '80vh' }}>
@@ -24,9 +54,15 @@ const PaymentSuccessPage: React.FC = () => {
               {isTokenize ? t('payment.cardPendingTitle') : t('payment.pendingTitle')}
             </Typography>
             <Typography color="text.secondary" sx={{ mb: 2 }}>
-              {t('payment.pendingMsg')}
+              {gaveUp ? t('payment.stillPendingMsg') : t('payment.pendingMsg')}
             </Typography>
-            <CircularProgress size={24} sx={{ mb: 2 }} />
+            {!gaveUp && <CircularProgress size={24} sx={{ mb: 2 }} />}
+          </>
+        ) : isFailed ? (
+          <>
+            <Cancel sx={{ fontSize: 64, color: 'error.main', mb: 2 }} />
+            <Typography variant="h5" gutterBottom>{t('payment.failedTitle')}</Typography>
+            <Typography color="text.secondary" sx={{ mb: 2 }}>{t('payment.failedMsg')}</Typography>
           </>
         ) : (
           <>
@@ -41,7 +77,7 @@ const PaymentSuccessPage: React.FC = () => {
           </>
         )}
         <Box sx={{ mt: 3, display: 'flex', gap: 2, justifyContent: 'center' }}>
-          <Button variant="contained" onClick={() => navigate('/my-charges')}>{t('payment.myCharges')}</Button>
+          <Button variant="contained" onClick={() => navigate('/my-charges')}>{isFailed ? t('app.tryAgain') : t('payment.myCharges')}</Button>
           <Button variant="outlined" onClick={() => navigate('/dashboard')}>{t('payment.dashboard')}</Button>
         </Box>
       </Paper>
@@ -4,12 +4,15 @@ import {
   TableContainer, TableHead, TableRow, Paper, Button, Chip, Alert,
   CircularProgress, Dialog, DialogTitle, DialogContent, DialogActions,
   TextField, MenuItem, FormControl, InputLabel, Select, IconButton, Tooltip,
-  Stack, useMediaQuery, useTheme
+  Stack, useMediaQuery, useTheme, LinearProgress, Checkbox
 } from '@mui/material';
-import { Payment, CreditCard, Add, Delete, Star, StarBorder, OpenInNew, Repeat, Pause, PlayArrow, Cancel, Receipt, Download } from '@mui/icons-material';
-import { hoaApi, paymentsApi, accountingApi } from '../../api/services';
-import type { UnitChargeDto, PaymentMethodDto, PaymentDto, StandingOrderDto, TenantPaymentDto } from '../../types';
-import { formatDateLocal } from '../../utils/dateUtils';
+import { Payment, CreditCard, Add, Delete, Star, StarBorder, OpenInNew, Repeat, Pause, PlayArrow, Cancel, Receipt, Download, EventRepeat } from '@mui/icons-material';
+import { hoaApi, paymentsApi, accountingApi, specialAssessmentsApi, paymentPlansApi } from '../../api/services';
+import type { UnitChargeDto, PaymentMethodDto, PaymentDto, StandingOrderDto, TenantPaymentDto, MyAssessmentScheduleDto, PaymentPlanDto, UnitDebtDto } from '../../types';
+import PaymentPlanDetails, { PaymentPlanStatusChip } from '../../components/PaymentPlanDetails';
+import UnitStatement from '../../components/UnitStatement';
+import ChargeAllocationPreview from '../../components/ChargeAllocationPreview';
+import { formatDateLocal, formatDateOnly, formatCurrency } from '../../utils/dateUtils';
 import { useTranslation } from 'react-i18next';
 
 const MyChargesPage: React.FC = () => {
@@ -21,43 +24,134 @@ const MyChargesPage: React.FC = () => {
   const [payments, setPayments] = useState<PaymentDto[]>([]);
   const [standingOrders, setStandingOrders] = useState<StandingOrderDto[]>([]);
   const [receipts, setReceipts] = useState<TenantPaymentDto[]>([]);
+  const [assessments, setAssessments] = useState<MyAssessmentScheduleDto[]>([]);
+  const [plans, setPlans] = useState<PaymentPlanDto[]>([]);
   const [loading, setLoading] = useState(true);
   const [msg, setMsg] = useState('');
   const [msgSeverity, setMsgSeverity] = useState<'success' | 'error' | 'info'>('info');
-  const [tab, setTab] = useState<'charges' | 'payments' | 'receipts' | 'methods' | 'standingOrders'>('charges');
+  const [tab, setTab] = useState<'charges' | 'assessments' | 'payments' | 'receipts' | 'methods' | 'standingOrders' | 'paymentPlans' | 'statement'>('charges');
+  const [statementUnitId, setStatementUnitId] = useState<number | ''>('');
   const [soDialog, setSoDialog] = useState(false);
   const [soAmount, setSoAmount] = useState('');
   const [payDialog, setPayDialog] = useState(false);
-  const [payChargeId, setPayChargeId] = useState(0);
+  // Charges paid together in one checkout; payUnitId set means the unit's full balance
+  const [payChargeIds, setPayChargeIds] = useState<number[]>([]);
+  const [payUnitId, setPayUnitId] = useState<number | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [lastPaymentId, setLastPaymentId] = useState<number | null>(null);
   const [payMethodId, setPayMethodId] = useState<number | ''>('');
   const [payAmount, setPayAmount] = useState('');
   const [payMode, setPayMode] = useState<'token' | 'hosted'>('token');
   const [methodDialog, setMethodDialog] = useState(false);
+  const [planDialog, setPlanDialog] = useState(false);
+  const [planDebt, setPlanDebt] = useState<UnitDebtDto | null>(null);
+  const [planInstallments, setPlanInstallments] = useState('6');
+  const [planNote, setPlanNote] = useState('');
   const [newMethod, setNewMethod] = useState({ methodType: 'CreditCard', cardNumber: '', expiry: '', cvv: '', bankName: '', branchNumber: '', accountNumber: '', accountHolder: '', isDefault: true });
 
   const loadAll = async () => {
     setLoading(true);
     try {
-      const [c, m, p, so, rp] = await Promise.all([hoaApi.getMyCharges(), paymentsApi.getMethods(), paymentsApi.getMyPayments(), paymentsApi.getStandingOrders(), accountingApi.getMyPayments()]);
-      setCharges(c.data); setMethods(m.data); setPayments(p.data); setStandingOrders(so.data); setReceipts(rp.data);
+      const [c, m, p, so, rp, sa, pp] = await Promise.all([hoaApi.getMyCharges(), paymentsApi.getMethods(), paymentsApi.getMyPayments(), paymentsApi.getStandingOrders(), accountingApi.getMyPayments(), specialAssessmentsApi.getMy(), paymentPlansApi.getMy()]);
+      setCharges(c.data); setMethods(m.data); setPayments(p.data); setStandingOrders(so.data); setReceipts(rp.data); setAssessments(sa.data); setPlans(pp.data);
     } catch { setMsg(t('myCharges.errorLoading')); setMsgSeverity('error'); } finally { setLoading(false); }
   };
 
   useEffect(() => { loadAll(); }, []);
 
-  const totalBalance = charges.filter(c => c.status !== 'Paid' && c.status !== 'Cancelled').reduce((sum, c) => sum + c.balance, 0);
+  const openCharges = charges.filter(c => c.status !== 'Paid' && c.status !== 'Cancelled');
+  const totalBalance = openCharges.reduce((sum, c) => sum + c.balance, 0);
+  // Split only for users billed both as resident and as owner (an owner living in their own unit, or owning another unit)
+  const paysBothParties = charges.some(c => c.party === 'Owner') && charges.some(c => c.party === 'Resident');
+  const partyBalance = (party: string) => openCharges.filter(c => c.party === party).reduce((sum, c) => sum + c.balance, 0);
+  const payable = openCharges.filter(c => c.balance > 0);
+  const payableUnits = [...new Map(payable.map(c => [c.unitId, c.unitNumber])).entries()];
+  const selectedCharges = payable.filter(c => selectedIds.includes(c.id));
+  const selectedTotal = selectedCharges.reduce((sum, c) => sum + c.balance, 0);
+  const payCharges = payUnitId !== null ? payable.filter(c => c.unitId === payUnitId) : payable.filter(c => payChargeIds.includes(c.id));
+  const payTotal = payCharges.reduce((sum, c) => sum + c.balance, 0);
+
+  // One checkout pays charges of a single unit
+  const toggleSelected = (c: UnitChargeDto) => setSelectedIds(ids =>
+    ids.includes(c.id) ? ids.filter(id => id !== c.id) : [...ids.filter(id => payable.find(p => p.id === id)?.unitId === c.unitId), c.id]);
+
+  const openPay = (ids: number[], unitId: number | null, mode: 'token' | 'hosted') => {
+    const total = (unitId !== null ? payable.filter(c => c.unitId === unitId) : payable.filter(c => ids.includes(c.id))).reduce((sum, c) => sum + c.balance, 0);
+    setPayChargeIds(ids); setPayUnitId(unitId); setPayMode(mode);
+    setPayAmount(total.toFixed(2)); setPayMethodId(methods.find(m => m.isDefault)?.id || '');
+    setPayDialog(true);
+  };
+
+  const errorMessage = (err: unknown) =>
+    (err as { response?: { data?: { message?: string } } })?.response?.data?.message;
+
+  // A plan can be requested for a unit with overdue debt that is not already under an open plan
+  const openPlanUnitIds = new Set(plans.filter(p => ['Requested', 'Active', 'Defaulted'].includes(p.status)).map(p => p.unitId));
+  const planEligibleCharge = charges.find(c =>
+    c.balance > 0 && c.status !== 'Paid' && c.status !== 'Cancelled' &&
+    new Date(c.dueDate) < new Date(new Date().toDateString()) && !openPlanUnitIds.has(c.unitId));
+
+  const openPlanRequest = async () => {
+    if (!planEligibleCharge) return;
+    setPlanDebt(null); setPlanInstallments('6'); setPlanNote(''); setPlanDialog(true);
+    try { const r = await paymentPlansApi.getUnitDebt(planEligibleCharge.unitId); setPlanDebt(r.data); }
+    catch { setMsg(t('paymentPlans.failedLoad')); setMsgSeverity('error'); setPlanDialog(false); }
+  };
+
+  const handleRequestPlan = async () => {
+    if (!planDebt) return;
+    try {
+      await paymentPlansApi.request({ unitId: planDebt.unitId, installmentCount: parseInt(planInstallments) || 0, note: planNote || undefined });
+      setMsg(t('paymentPlans.requestSent')); setMsgSeverity('success');
+      setPlanDialog(false); setTab('paymentPlans'); loadAll();
+    } catch (err) {
+      setMsg(errorMessage(err) || t('paymentPlans.failedSave')); setMsgSeverity('error');
+    }
+  };
+
+  const handleWithdrawPlan = async (id: number) => {
+    if (!window.confirm(t('paymentPlans.confirmWithdraw'))) return;
+    try { await paymentPlansApi.cancel(id); setMsg(t('paymentPlans.withdrawn')); setMsgSeverity('success'); loadAll(); }
+    catch (err) { setMsg(errorMessage(err) || t('paymentPlans.failedAction')); setMsgSeverity('error'); }
+  };
+
+  const handleLinkStandingOrder = async (planId: number, standingOrderId: number | null) => {
+    try { await paymentPlansApi.linkStandingOrder(planId, standingOrderId); setMsg(t('paymentPlans.standingOrderUpdated')); setMsgSeverity('success'); loadAll(); }
+    catch (err) { setMsg(errorMessage(err) || t('paymentPlans.failedAction')); setMsgSeverity('error'); }
+  };
+
+  const openStandingOrderForPlan = (plan: PaymentPlanDto) => {
+    const next = plan.installments.find(i => i.status !== 'Paid');
+    setSoAmount((next?.amount ?? plan.remaining).toFixed(2));
+    setSoDialog(true);
+  };
+
+  const checkoutRequest = () => ({ unitChargeIds: payUnitId !== null ? [] : payChargeIds, unitId: payUnitId ?? undefined });
 
   const handlePayWithToken = async () => {
     try {
-      const r = await paymentsApi.payCharge(payChargeId, { paymentMethodId: payMethodId || undefined, amount: payAmount ? parseFloat(payAmount) : undefined });
-      if (r.data.status === 'Succeeded') { setMsg(t('myCharges.paymentSuccess')); setMsgSeverity('success'); } else { setMsg(t('myCharges.paymentFailed')); setMsgSeverity('error'); }
-      setPayDialog(false); loadAll();
-    } catch { setMsg(t('myCharges.errorProcessing')); setMsgSeverity('error'); }
+      const r = await paymentsApi.payCharges({ ...checkoutRequest(), paymentMethodId: payMethodId || undefined, amount: payAmount ? parseFloat(payAmount) : undefined });
+      if (r.data.status === 'Succeeded') {
+        const periods = (r.data.allocations ?? []).map(a => a.period).join(', ');
+        setMsg(t('myCharges.paymentSuccessFor', { amount: formatCurrency(r.data.amount), periods })); setMsgSeverity('success');
+        setLastPaymentId(r.data.id);
+      } else { setMsg(t('myCharges.paymentFailed')); setMsgSeverity('error'); setLastPaymentId(null); }
+      setPayDialog(false); setSelectedIds([]); loadAll();
+    } catch (err) { setMsg(errorMessage(err) || t('myCharges.errorProcessing')); setMsgSeverity('error'); }
+  };
+
+  // The receipt is issued in the background right after the payment; it may take a moment
+  const handleOpenReceipt = async () => {
+    if (!lastPaymentId) return;
+    try {
+      const r = await accountingApi.getReceipt(lastPaymentId);
+      window.open(r.data.pdfUrl, '_blank');
+    } catch { setMsg(t('myCharges.receiptNotReady')); setMsgSeverity('info'); setLastPaymentId(null); }
   };
 
   const handlePayHosted = async () => {
     try {
-      const r = await paymentsApi.createSession(payChargeId);
+      const r = await paymentsApi.createCheckoutSession(checkoutRequest());
       if (r.data.paymentUrl) { window.location.href = r.data.paymentUrl; } else { setMsg(r.data.error || t('myCharges.errorSession')); setMsgSeverity('error'); }
       setPayDialog(false);
     } catch { setMsg(t('myCharges.errorSession')); setMsgSeverity('error'); }
@@ -85,7 +179,9 @@ const MyChargesPage: React.FC = () => {
 
   if (loading) return <CircularProgress />;
 
-  const tabLabels: Record<string, string> = { charges: t('myCharges.tabCharges'), payments: t('myCharges.tabPayments'), receipts: t('myCharges.tabReceipts'), methods: t('myCharges.tabMethods'), standingOrders: t('myCharges.tabStandingOrders') };
+  const tabLabels: Record<string, string> = { charges: t('myCharges.tabCharges'), assessments: t('myCharges.tabAssessments'), payments: t('myCharges.tabPayments'), receipts: t('myCharges.tabReceipts'), methods: t('myCharges.tabMethods'), standingOrders: t('myCharges.tabStandingOrders'), paymentPlans: t('myCharges.tabPaymentPlans'), statement: t('myCharges.tabStatement') };
+  // Units the tenant is billed for (as resident or owner), for the statement
+  const myUnits = [...new Map(charges.map(c => [c.unitId, c.unitNumber])).entries()];
 
   const handleCreateStandingOrder = async () => {
     if (!charges.length) return;
@@ -139,36 +235,70 @@ const MyChargesPage: React.FC = () => {
   return (
     <Box>
       <Typography variant="h4" gutterBottom sx={{ fontSize: { xs: '1.3rem', md: '2rem' }, fontWeight: 700 }}>{t('myCharges.title')}</Typography>
-      {msg && <Alert severity={msgSeverity} onClose={() => setMsg('')} sx={{ mb: 2 }}>{msg}</Alert>}
+      {msg && (
+        <Alert severity={msgSeverity} onClose={() => { setMsg(''); setLastPaymentId(null); }} sx={{ mb: 2 }}
+          action={lastPaymentId && msgSeverity === 'success' ? <Button color="inherit" size="small" startIcon={<Receipt />} onClick={handleOpenReceipt}>{t('myCharges.viewReceipt')}</Button> : undefined}>
+          {msg}
+        </Alert>
+      )}
 
       <Card sx={{ mb: 3, bgcolor: totalBalance > 0 ? 'error.50' : 'success.50' }}>
         <CardContent sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1 }}>
           <Box>
             <Typography variant="body2" color="text.secondary">{t('myCharges.outstandingBalance')}</Typography>
             <Typography variant={isMobile ? 'h5' : 'h4'} color={totalBalance > 0 ? 'error.main' : 'success.main'}>{totalBalance.toFixed(2)} ₪</Typography>
+            {paysBothParties && (
+              <Typography variant="caption" color="text.secondary">
+                {t('billing.myBalanceSplit', { resident: partyBalance('Resident').toFixed(2), owner: partyBalance('Owner').toFixed(2) })}
+              </Typography>
+            )}
           </Box>
           <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+            {payableUnits.map(([unitId, unitNumber]) => (
+              <Button key={unitId} variant="contained" color="secondary" startIcon={<Payment />} onClick={() => openPay([], unitId, methods.length > 0 ? 'token' : 'hosted')} size={isMobile ? 'small' : 'medium'}>
+                {payableUnits.length > 1 ? t('myCharges.payFullBalanceUnit', { unit: unitNumber }) : t('myCharges.payFullBalance')}
+              </Button>
+            ))}
             <Button variant="contained" startIcon={<CreditCard />} onClick={() => setMethodDialog(true)} size={isMobile ? 'small' : 'medium'}>{t('myCharges.addPaymentMethod')}</Button>
             <Button variant="outlined" startIcon={<Repeat />} onClick={() => setSoDialog(true)} size={isMobile ? 'small' : 'medium'}>{t('myCharges.setupStandingOrder')}</Button>
+            {planEligibleCharge && (
+              <Button variant="outlined" color="warning" startIcon={<EventRepeat />} onClick={openPlanRequest} size={isMobile ? 'small' : 'medium'}>{t('paymentPlans.requestPlan')}</Button>
+            )}
           </Box>
         </CardContent>
       </Card>
 
       <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
-        {(['charges', 'payments', 'methods', 'standingOrders'] as const).map(t2 => (
+        {(['charges', ...(assessments.length > 0 ? ['assessments' as const] : []), 'payments', 'methods', 'standingOrders', ...(plans.length > 0 ? ['paymentPlans' as const] : []), ...(myUnits.length > 0 ? ['statement' as const] : [])] as const).map(t2 => (
           <Button key={t2} variant={tab === t2 ? 'contained' : 'outlined'} size="small" onClick={() => setTab(t2)}>{tabLabels[t2]}</Button>
         ))}
       </Box>
 
+      {tab === 'charges' && selectedCharges.length > 0 && (
+        <Paper variant="outlined" sx={{ p: 1.5, mb: 2, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+          <Typography variant="body2" sx={{ flexGrow: 1 }}>{t('myCharges.selectedSummary', { count: selectedCharges.length, amount: formatCurrency(selectedTotal) })}</Typography>
+          {methods.length > 0 && <Button size="small" startIcon={<Payment />} variant="outlined" onClick={() => openPay(selectedIds, null, 'token')}>{t('myCharges.paySelected')}</Button>}
+          <Button size="small" startIcon={<OpenInNew />} variant="contained" color="secondary" onClick={() => openPay(selectedIds, null, 'hosted')}>{t('myCharges.paySelectedOnline')}</Button>
+          <Button size="small" onClick={() => setSelectedIds([])}>{t('myCharges.clearSelection')}</Button>
+        </Paper>
+      )}
+
       {tab === 'charges' && (isMobile ? (
         <Stack spacing={1.5}>
           {charges.map(c => (
             <Card key={c.id} variant="outlined">
               <CardContent sx={{ py: 1.5, px: 2, '&:last-child': { pb: 1.5 } }}>
                 <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
-                  <Typography variant="subtitle2">{c.period} · {c.unitNumber}</Typography>
-                  <Chip label={t(`enums.chargeStatus.${c.status}`, c.status)} size="small" color={c.status === 'Paid' ? 'success' : c.status === 'Overdue' ? 'error' : c.status === 'PartiallyPaid' ? 'warning' : 'default'} />
+                  <Typography variant="subtitle2">
+                    {c.balance > 0 && c.status !== 'Cancelled' && <Checkbox size="small" sx={{ p: 0, mr: 0.5 }} checked={selectedIds.includes(c.id)} onChange={() => toggleSelected(c)} />}
+                    {c.period} · {c.unitNumber}
+                    {c.chargeType === 'LateFee' && <Chip label={t('myCharges.lateFee')} size="small" color="warning" variant="outlined" sx={{ ml: 0.5 }} />}
+                    {c.chargeType === 'SpecialAssessment' && <Chip label={t('myCharges.specialAssessment')} size="small" color="info" variant="outlined" sx={{ ml: 0.5 }} />}
+                    {c.party === 'Owner' && <Chip label={t('billing.asOwner')} size="small" variant="outlined" sx={{ ml: 0.5 }} />}
+                  </Typography>
+                  <Chip label={c.waivedAtUtc ? t('myCharges.waived') : t(`enums.chargeStatus.${c.status}`, c.status)} size="small" color={c.status === 'Paid' ? 'success' : c.status === 'Overdue' ? 'error' : c.status === 'PartiallyPaid' ? 'warning' : 'default'} />
                 </Box>
+                {c.description && <Typography variant="caption" color="text.secondary" component="div">{c.description}</Typography>}
                 <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                   <Typography variant="body2">{t('myCharges.due')}: {c.amountDue.toFixed(2)}</Typography>
                   <Typography variant="body2">{t('myCharges.paid')}: {c.amountPaid.toFixed(2)}</Typography>
@@ -177,8 +307,8 @@ const MyChargesPage: React.FC = () => {
                 <Typography variant="caption" color="text.secondary">{t('myCharges.dueDate')}: {formatDateLocal(c.dueDate)}</Typography>
                 {c.balance > 0 && (
                   <Box sx={{ display: 'flex', gap: 0.5, mt: 1 }}>
-                    {methods.length > 0 && <Button size="small" startIcon={<Payment />} variant="outlined" onClick={() => { setPayChargeId(c.id); setPayAmount(c.balance.toString()); setPayMethodId(methods.find(m => m.isDefault)?.id || ''); setPayMode('token'); setPayDialog(true); }}>{t('myCharges.pay')}</Button>}
-                    <Button size="small" startIcon={<OpenInNew />} variant="contained" color="secondary" onClick={() => { setPayChargeId(c.id); setPayMode('hosted'); setPayDialog(true); }}>{t('myCharges.payOnline')}</Button>
+                    {methods.length > 0 && <Button size="small" startIcon={<Payment />} variant="outlined" onClick={() => openPay([c.id], null, 'token')}>{t('myCharges.pay')}</Button>}
+                    <Button size="small" startIcon={<OpenInNew />} variant="contained" color="secondary" onClick={() => openPay([c.id], null, 'hosted')}>{t('myCharges.payOnline')}</Button>
                   </Box>
                 )}
               </CardContent>
@@ -190,34 +320,96 @@ const MyChargesPage: React.FC = () => {
         <TableContainer component={Paper} variant="outlined">
           <Table size="small">
             <TableHead><TableRow>
+              <TableCell padding="checkbox" />
               <TableCell>{t('myCharges.period')}</TableCell><TableCell>{t('myCharges.unit')}</TableCell><TableCell align="right">{t('myCharges.due')}</TableCell>
               <TableCell align="right">{t('myCharges.paid')}</TableCell><TableCell align="right">{t('myCharges.balance')}</TableCell>
               <TableCell>{t('myCharges.status')}</TableCell><TableCell>{t('myCharges.dueDate')}</TableCell><TableCell>{t('myCharges.action')}</TableCell>
             </TableRow></TableHead>
             <TableBody>
               {charges.map(c => (
-                <TableRow key={c.id}>
-                  <TableCell>{c.period}</TableCell><TableCell>{c.unitNumber}</TableCell>
+                <TableRow key={c.id} selected={selectedIds.includes(c.id)}>
+                  <TableCell padding="checkbox">
+                    {c.balance > 0 && c.status !== 'Cancelled' && <Checkbox size="small" checked={selectedIds.includes(c.id)} onChange={() => toggleSelected(c)} />}
+                  </TableCell>
+                  <TableCell>
+                    {c.period}
+                    {c.chargeType === 'LateFee' && <Chip label={t('myCharges.lateFee')} size="small" color="warning" variant="outlined" sx={{ ml: 0.5 }} />}
+                    {c.chargeType === 'SpecialAssessment' && <Chip label={t('myCharges.specialAssessment')} size="small" color="info" variant="outlined" sx={{ ml: 0.5 }} />}
+                    {c.party === 'Owner' && <Chip label={t('billing.asOwner')} size="small" variant="outlined" sx={{ ml: 0.5 }} />}
+                    {c.description && <Typography variant="caption" color="text.secondary" component="div">{c.description}</Typography>}
+                  </TableCell>
+                  <TableCell>{c.unitNumber}</TableCell>
                   <TableCell align="right">{c.amountDue.toFixed(2)}</TableCell><TableCell align="right">{c.amountPaid.toFixed(2)}</TableCell>
                   <TableCell align="right" sx={{ fontWeight: 'bold', color: c.balance > 0 ? 'error.main' : 'success.main' }}>{c.balance.toFixed(2)}</TableCell>
-                  <TableCell><Chip label={t(`enums.chargeStatus.${c.status}`, c.status)} size="small" color={c.status === 'Paid' ? 'success' : c.status === 'Overdue' ? 'error' : c.status === 'PartiallyPaid' ? 'warning' : 'default'} /></TableCell>
+                  <TableCell><Chip label={c.waivedAtUtc ? t('myCharges.waived') : t(`enums.chargeStatus.${c.status}`, c.status)} size="small" color={c.status === 'Paid' ? 'success' : c.status === 'Overdue' ? 'error' : c.status === 'PartiallyPaid' ? 'warning' : 'default'} /></TableCell>
                   <TableCell>{formatDateLocal(c.dueDate)}</TableCell>
                   <TableCell>
                     {c.balance > 0 && (
                       <Box sx={{ display: 'flex', gap: 0.5 }}>
-                        {methods.length > 0 && <Button size="small" startIcon={<Payment />} variant="outlined" onClick={() => { setPayChargeId(c.id); setPayAmount(c.balance.toString()); setPayMethodId(methods.find(m => m.isDefault)?.id || ''); setPayMode('token'); setPayDialog(true); }}>{t('myCharges.pay')}</Button>}
-                        <Button size="small" startIcon={<OpenInNew />} variant="contained" color="secondary" onClick={() => { setPayChargeId(c.id); setPayMode('hosted'); setPayDialog(true); }}>{t('myCharges.payOnline')}</Button>
+                        {methods.length > 0 && <Button size="small" startIcon={<Payment />} variant="outlined" onClick={() => openPay([c.id], null, 'token')}>{t('myCharges.pay')}</Button>}
+                        <Button size="small" startIcon={<OpenInNew />} variant="contained" color="secondary" onClick={() => openPay([c.id], null, 'hosted')}>{t('myCharges.payOnline')}</Button>
                       </Box>
                     )}
                   </TableCell>
                 </TableRow>
               ))}
-              {charges.length === 0 && <TableRow><TableCell colSpan={8} align="center">{t('myCharges.noCharges')}</TableCell></TableRow>}
+              {charges.length === 0 && <TableRow><TableCell colSpan={9} align="center">{t('myCharges.noCharges')}</TableCell></TableRow>}
             </TableBody>
           </Table>
         </TableContainer>
       ))}
 
+      {tab === 'assessments' && (
+        <Stack spacing={2}>
+          {assessments.map(a => (
+            <Card key={`${a.assessmentId}-${a.unitId}`} variant="outlined">
+              <CardContent>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', flexWrap: 'wrap', gap: 1 }}>
+                  <Box>
+                    <Typography variant="h6">{a.name}</Typography>
+                    <Typography variant="body2" color="text.secondary">{a.buildingName} · {t('myCharges.unit')} {a.unitNumber}</Typography>
+                    {a.description && <Typography variant="body2" sx={{ mt: 0.5 }}>{a.description}</Typography>}
+                  </Box>
+                  <Box sx={{ textAlign: 'end' }}>
+                    <Typography variant="body2" color="text.secondary">{t('myCharges.yourShare')}</Typography>
+                    <Typography variant="h6">{formatCurrency(a.shareAmount)}</Typography>
+                  </Box>
+                </Box>
+                <LinearProgress variant="determinate" value={a.shareAmount > 0 ? Math.min(100, a.amountPaid / a.shareAmount * 100) : 0} sx={{ my: 1.5, height: 8, borderRadius: 4 }} />
+                <Box sx={{ display: 'flex', gap: 3, mb: 1.5, flexWrap: 'wrap' }}>
+                  <Typography variant="body2">{t('myCharges.paid')}: <b>{formatCurrency(a.amountPaid)}</b></Typography>
+                  <Typography variant="body2" color={a.remaining > 0 ? 'error.main' : 'success.main'}>{t('myCharges.remaining')}: <b>{formatCurrency(a.remaining)}</b></Typography>
+                </Box>
+                <TableContainer component={Paper} variant="outlined">
+                  <Table size="small">
+                    <TableHead><TableRow>
+                      <TableCell>#</TableCell><TableCell>{t('myCharges.period')}</TableCell><TableCell>{t('myCharges.dueDate')}</TableCell>
+                      <TableCell align="right">{t('myCharges.amount')}</TableCell><TableCell align="right">{t('myCharges.paid')}</TableCell><TableCell>{t('myCharges.status')}</TableCell>
+                    </TableRow></TableHead>
+                    <TableBody>
+                      {a.installments.map(i => (
+                        <TableRow key={i.installmentNumber}>
+                          <TableCell>{i.installmentNumber}</TableCell>
+                          <TableCell>{i.period}</TableCell>
+                          <TableCell>{formatDateOnly(i.dueDate)}</TableCell>
+                          <TableCell align="right">{i.amount.toFixed(2)}</TableCell>
+                          <TableCell align="right">{i.amountPaid.toFixed(2)}</TableCell>
+                          <TableCell>
+                            {i.status
+                              ? <Chip label={t(`enums.chargeStatus.${i.status}`, i.status)} size="small" color={i.status === 'Paid' ? 'success' : i.status === 'Overdue' ? 'error' : i.status === 'PartiallyPaid' ? 'warning' : 'default'} />
+                              : <Chip label={t('myCharges.scheduled')} size="small" variant="outlined" />}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </CardContent>
+            </Card>
+          ))}
+        </Stack>
+      )}
+
       {tab === 'payments' && (isMobile ? (
         <Stack spacing={1.5}>
           {payments.map(p => (
@@ -372,6 +564,12 @@ const MyChargesPage: React.FC = () => {
                         {t('myCharges.soChargeCount', { success: so.successfulCharges, failed: so.failedCharges })}
                       </Typography>
                     </Box>
+                    {so.pendingAmount != null && (
+                      <Alert severity="info" sx={{ mt: 1 }}>
+                        {t('myCharges.soPendingAmount', { amount: `${so.pendingAmount.toFixed(2)} ${so.currency}` })}
+                        {so.amountChangeReason && <Typography variant="caption" display="block">{so.amountChangeReason}</Typography>}
+                      </Alert>
+                    )}
                     {so.approvalUrl && so.status !== 'Cancelled' && (
                       <Button size="small" variant="outlined" color="primary" startIcon={<OpenInNew />} href={so.approvalUrl} target="_blank" sx={{ mt: 1 }}>
                         {t('myCharges.soApprove')}
@@ -396,6 +594,94 @@ const MyChargesPage: React.FC = () => {
         </Box>
       )}
 
+      {tab === 'statement' && myUnits.length > 0 && (
+        <Card><CardContent>
+          {myUnits.length > 1 && (
+            <TextField select size="small" label={t('statement.unit')} sx={{ mb: 2, minWidth: 160 }}
+              value={statementUnitId || myUnits[0][0]} onChange={e => setStatementUnitId(Number(e.target.value))}>
+              {myUnits.map(([id, number]) => <MenuItem key={id} value={id}>{number}</MenuItem>)}
+            </TextField>
+          )}
+          <UnitStatement unitId={(statementUnitId || myUnits[0][0]) as number} />
+        </CardContent></Card>
+      )}
+
+      {tab === 'paymentPlans' && (
+        <Stack spacing={2}>
+          {plans.map(p => {
+            const linkable = standingOrders.filter(so => so.unitId === p.unitId && so.status !== 'Cancelled' && so.status !== 'Expired');
+            const isOpen = p.status === 'Active' || p.status === 'Defaulted';
+            return (
+              <Card key={p.id} variant="outlined" sx={{ borderColor: p.status === 'Defaulted' ? 'error.main' : undefined }}>
+                <CardContent>
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+                    <Box>
+                      <Typography variant="h6">{t('paymentPlans.planFor', { total: formatCurrency(p.totalAmount), count: p.installmentCount })}</Typography>
+                      <Typography variant="body2" color="text.secondary">{p.buildingName} · {t('myCharges.unit')} {p.unitNumber}</Typography>
+                    </Box>
+                    <PaymentPlanStatusChip status={p.status} />
+                  </Box>
+                  {p.status === 'Requested' && <Alert severity="info" sx={{ mb: 2 }}>{t('paymentPlans.awaitingApproval')}</Alert>}
+                  {p.status === 'Rejected' && <Alert severity="warning" sx={{ mb: 2 }}>{t('paymentPlans.rejectedNote')}{p.managerNote ? `: ${p.managerNote}` : ''}</Alert>}
+                  {p.missedInstallments > 0 && isOpen && (
+                    <Alert severity="error" sx={{ mb: 2 }}>{t('paymentPlans.missedAlert', { count: p.missedInstallments })}</Alert>
+                  )}
+                  {p.nextDueDate && isOpen && (
+                    <Typography variant="body2" sx={{ mb: 1 }}>{t('paymentPlans.nextDue')}: <b>{formatDateOnly(p.nextDueDate)}</b></Typography>
+                  )}
+                  {p.managerNote && p.status !== 'Rejected' && (
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>{t('paymentPlans.managerNote')}: {p.managerNote}</Typography>
+                  )}
+                  <PaymentPlanDetails plan={p} />
+                  {isOpen && (
+                    <Box sx={{ display: 'flex', gap: 1, mt: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+                      <TextField select size="small" label={t('paymentPlans.standingOrder')} value={p.standingOrderId ?? ''} sx={{ minWidth: 220 }}
+                        onChange={e => handleLinkStandingOrder(p.id, e.target.value === '' ? null : Number(e.target.value))}>
+                        <MenuItem value="">{t('paymentPlans.noStandingOrder')}</MenuItem>
+                        {linkable.map(so => (
+                          <MenuItem key={so.id} value={so.id}>{so.amount.toFixed(2)} {so.currency} · {t(`myCharges.soStatus${so.status}`, so.status)}</MenuItem>
+                        ))}
+                      </TextField>
+                      {!p.standingOrderId && (
+                        <Button size="small" startIcon={<Repeat />} onClick={() => openStandingOrderForPlan(p)}>{t('paymentPlans.setupForInstallments')}</Button>
+                      )}
+                    </Box>
+                  )}
+                  {p.status === 'Requested' && (
+                    <Button size="small" color="error" startIcon={<Cancel />} sx={{ mt: 2 }} onClick={() => handleWithdrawPlan(p.id)}>{t('paymentPlans.withdraw')}</Button>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </Stack>
+      )}
+
+      {/* Payment Plan Request Dialog */}
+      <Dialog open={planDialog} onClose={() => setPlanDialog(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('paymentPlans.requestTitle')}</DialogTitle>
+        <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          {!planDebt ? <CircularProgress size={24} /> : (
+            <>
+              <Alert severity="info">
+                {t('paymentPlans.debtSummary', { count: planDebt.charges.length, total: formatCurrency(planDebt.totalOutstanding) })}
+              </Alert>
+              <TextField label={t('paymentPlans.installments')} type="number" value={planInstallments}
+                inputProps={{ min: 2, max: 36 }} onChange={e => setPlanInstallments(e.target.value)}
+                helperText={parseInt(planInstallments) >= 2
+                  ? t('paymentPlans.perInstallment', { amount: formatCurrency(Math.floor(planDebt.totalOutstanding / parseInt(planInstallments) * 100) / 100) })
+                  : undefined} />
+              <TextField label={t('paymentPlans.requestNote')} multiline minRows={2} value={planNote} onChange={e => setPlanNote(e.target.value)} />
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPlanDialog(false)}>{t('app.cancel')}</Button>
+          <Button variant="contained" startIcon={<EventRepeat />} onClick={handleRequestPlan}
+            disabled={!planDebt || planDebt.charges.length === 0}>{t('paymentPlans.sendRequest')}</Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Standing Order Setup Dialog */}
       <Dialog open={soDialog} onClose={() => setSoDialog(false)} maxWidth="xs" fullWidth>
         <DialogTitle>{t('myCharges.soSetupTitle')}</DialogTitle>
@@ -409,13 +695,18 @@ const MyChargesPage: React.FC = () => {
         </DialogActions>
       </Dialog>
 
-      <Dialog open={payDialog} onClose={() => setPayDialog(false)} maxWidth="xs" fullWidth fullScreen={isMobile}>
+      <Dialog open={payDialog} onClose={() => setPayDialog(false)} maxWidth="sm" fullWidth fullScreen={isMobile}>
         <DialogTitle>{payMode === 'hosted' ? t('myCharges.payOnlineTitle') : t('myCharges.payWithCard')}</DialogTitle>
         <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          <Typography variant="body2">
+            {t('myCharges.payChargesSummary', { count: payCharges.length, amount: formatCurrency(payTotal) })}
+          </Typography>
+          <ChargeAllocationPreview charges={payCharges} amount={payMode === 'hosted' ? payTotal : parseFloat(payAmount) || 0} />
           {payMode === 'hosted' ? (
             <Alert severity="info">{t('myCharges.redirectNote')}</Alert>
           ) : (<>
-            <TextField label={t('myCharges.amountIls')} type="number" value={payAmount} onChange={e => setPayAmount(e.target.value)} />
+            <TextField label={t('myCharges.amountIls')} type="number" value={payAmount} onChange={e => setPayAmount(e.target.value)}
+              error={parseFloat(payAmount) > payTotal} helperText={parseFloat(payAmount) > payTotal ? t('myCharges.amountAboveBalance') : t('myCharges.partialAmountHint')} />
             <FormControl fullWidth>
               <InputLabel>{t('myCharges.paymentMethod')}</InputLabel>
               <Select value={payMethodId} label={t('myCharges.paymentMethod')} onChange={e => setPayMethodId(e.target.value as number)}>
@@ -5,7 +5,7 @@ import {
   TextField, IconButton, Avatar
 } from '@mui/material';
 import {
-  MarkEmailRead, Circle, Warning, Payment, Email, Send, Reply, Chat, Close
+  MarkEmailRead, Circle, Warning, Payment, Email, Send, Reply, Chat, Close, Campaign
 } from '@mui/icons-material';
 import { tenantMessagesApi } from '../../api/services';
 import type { TenantMessageDto } from '../../types';
@@ -19,6 +19,7 @@ const typeIcon = (type: string) => {
     case 'PaymentReminder': return <Payment sx={{ fontSize: 18, color: '#ed6c02' }} />;
     case 'TenantReply': return <Reply sx={{ fontSize: 18, color: '#2e7d32' }} />;
     case 'ManagerReply': return <Email sx={{ fontSize: 18, color: '#1565c0' }} />;
+    case 'Announcement': return <Campaign sx={{ fontSize: 18, color: '#6a1b9a' }} />;
     default: return <Email sx={{ fontSize: 18, color: '#1976d2' }} />;
   }
 };
@@ -29,6 +30,7 @@ const typeBorderColor = (type: string) => {
     case 'PaymentReminder': return '#ed6c02';
     case 'TenantReply': return '#2e7d32';
     case 'ManagerReply': return '#1565c0';
+    case 'Announcement': return '#6a1b9a';
     default: return '#1976d2';
   }
 };
@@ -0,0 +1,333 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box, Typography, Card, CardContent, Stack, Radio, RadioGroup, FormControlLabel, Switch, Button, Alert,
+  CircularProgress, Chip, Divider, TextField
+} from '@mui/material';
+import { Email, Sms, WhatsApp, NotificationsActive, Save, Send, History } from '@mui/icons-material';
+import { notificationsApi } from '../../api/services';
+import { TENANT_CHANNELS } from '../../types';
+import type {
+  NotificationConsentLogDto, NotificationPreferencesDto, ReminderChannel, SaveNotificationPreferencesRequest
+} from '../../types';
+import { getCurrentSubscription, getPushSupport, subscribeToPush, unsubscribeFromPush } from '../../utils/pushNotifications';
+import { formatDateLocal } from '../../utils/dateUtils';
+import ConsentLogTable from '../../components/ConsentLogTable';
+import { useTranslation } from 'react-i18next';
+
+type OptOutKey = 'smsOptOut' | 'emailOptOut' | 'whatsAppOptOut' | 'pushOptOut';
+
+const optOutKey = (ch: ReminderChannel): OptOutKey => {
+  switch (ch) {
+    case 'Sms': return 'smsOptOut';
+    case 'WhatsApp': return 'whatsAppOptOut';
+    case 'Push': return 'pushOptOut';
+    default: return 'emailOptOut';
+  }
+};
+
+const channelIcon = (ch: ReminderChannel) => {
+  switch (ch) {
+    case 'Sms': return <Sms fontSize="small" />;
+    case 'WhatsApp': return <WhatsApp fontSize="small" sx={{ color: '#25d366' }} />;
+    case 'Push': return <NotificationsActive fontSize="small" />;
+    default: return <Email fontSize="small" />;
+  }
+};
+
+type TypeKey = 'paymentReminders' | 'ticketUpdates' | 'buildingAnnouncements';
+
+const NOTIFICATION_TYPES: TypeKey[] = ['paymentReminders', 'ticketUpdates', 'buildingAnnouncements'];
+
+const DEFAULT_QUIET_START = '22:00';
+const DEFAULT_QUIET_END = '07:00';
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (err as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback;
+
+/**
+ * The tenant's notification settings: preferred channel, the notification types they want, quiet hours, channel
+ * opt-outs, language, web push on this browser, and the history of their consent changes.
+ */
+const NotificationSettingsPage: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const [prefs, setPrefs] = useState<NotificationPreferencesDto | null>(null);
+  const [form, setForm] = useState<SaveNotificationPreferencesRequest | null>(null);
+  const [consentLog, setConsentLog] = useState<NotificationConsentLogDto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const pushSupport = getPushSupport();
+  const [subscribed, setSubscribed] = useState(false);
+  const [pushBusy, setPushBusy] = useState(false);
+
+  const apply = (p: NotificationPreferencesDto) => {
+    setPrefs(p);
+    setForm({
+      preferredChannel: p.preferredChannel,
+      smsOptOut: p.smsOptOut,
+      emailOptOut: p.emailOptOut,
+      whatsAppOptOut: p.whatsAppOptOut,
+      pushOptOut: p.pushOptOut,
+      paymentReminders: p.paymentReminders,
+      ticketUpdates: p.ticketUpdates,
+      buildingAnnouncements: p.buildingAnnouncements,
+      quietHoursStart: p.quietHoursStart ?? null,
+      quietHoursEnd: p.quietHoursEnd ?? null,
+      language: p.language,
+    });
+  };
+
+  const loadConsentLog = () => notificationsApi.getMyConsentLog().then(r => setConsentLog(r.data)).catch(() => {});
+
+  useEffect(() => {
+    notificationsApi.getPreferences()
+      .then(r => apply(r.data))
+      .catch(err => setError(errorMessage(err, t('notificationSettings.failedLoad'))))
+      .finally(() => setLoading(false));
+    notificationsApi.getMyConsentLog().then(r => setConsentLog(r.data)).catch(() => {});
+    getCurrentSubscription().then(s => setSubscribed(!!s)).catch(() => setSubscribed(false));
+  }, [t]);
+
+  const contactFor = (ch: ReminderChannel): string | null => {
+    if (!prefs) return null;
+    switch (ch) {
+      case 'Sms':
+      case 'WhatsApp': return prefs.phone || null;
+      case 'Email': return prefs.email || null;
+      default: return prefs.pushDevices > 0 ? t('notificationSettings.devices', { count: prefs.pushDevices }) : null;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true); setError(''); setSuccess('');
+    try {
+      const r = await notificationsApi.savePreferences(form);
+      apply(r.data);
+      if (r.data.language !== i18n.language) {
+        i18n.changeLanguage(r.data.language);
+        localStorage.setItem('lang', r.data.language);
+      }
+      setSuccess(t('notificationSettings.saved'));
+      loadConsentLog();
+    } catch (err) {
+      setError(errorMessage(err, t('notificationSettings.failedSave')));
+    }
+    setSaving(false);
+  };
+
+  const refreshDevices = () => notificationsApi.getPreferences().then(r => setPrefs(r.data)).catch(() => {});
+
+  const handleEnablePush = async () => {
+    if (!prefs?.pushPublicKey) return;
+    setPushBusy(true); setError(''); setSuccess('');
+    try {
+      const granted = await subscribeToPush(prefs.pushPublicKey);
+      if (granted) {
+        setSubscribed(true);
+        await refreshDevices();
+      } else {
+        setError(t('notificationSettings.pushDeclined'));
+      }
+    } catch (err) {
+      setError(errorMessage(err, t('notificationSettings.pushFailed')));
+    }
+    setPushBusy(false);
+  };
+
+  const handleDisablePush = async () => {
+    setPushBusy(true); setError(''); setSuccess('');
+    try {
+      await unsubscribeFromPush();
+      setSubscribed(false);
+      await refreshDevices();
+    } catch (err) {
+      setError(errorMessage(err, t('notificationSettings.pushFailed')));
+    }
+    setPushBusy(false);
+  };
+
+  const handleTestPush = async () => {
+    setPushBusy(true); setError(''); setSuccess('');
+    try {
+      await notificationsApi.sendTestPush({
+        title: t('notificationSettings.testTitle'),
+        body: t('notificationSettings.testBody'),
+        url: `${window.location.origin}/notification-settings`,
+      });
+      setSuccess(t('notificationSettings.testSent'));
+    } catch (err) {
+      setError(errorMessage(err, t('notificationSettings.pushFailed')));
+    }
+    setPushBusy(false);
+  };
+
+  const quietHoursOn = !!form?.quietHoursStart;
+
+  if (loading) return <CircularProgress sx={{ display: 'block', mx: 'auto', mt: 6 }} />;
+
+  return (
+    <Box sx={{ maxWidth: 720 }}>
+      <Typography variant="h5" fontWeight={700} gutterBottom>{t('notificationSettings.title')}</Typography>
+      <Typography color="text.secondary" sx={{ mb: 2 }}>{t('notificationSettings.subtitle')}</Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>{error}</Alert>}
+      {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess('')}>{success}</Alert>}
+
+      {form && (
+        <>
+          <Card sx={{ mb: 2 }}>
+            <CardContent>
+              <Typography variant="subtitle1" fontWeight={600}>{t('notificationSettings.preferredTitle')}</Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>{t('notificationSettings.preferredHelp')}</Typography>
+              <RadioGroup value={form.preferredChannel}
+                onChange={e => setForm({ ...form, preferredChannel: e.target.value as ReminderChannel })}>
+                {TENANT_CHANNELS.map(ch => (
+                  <FormControlLabel key={ch} value={ch} disabled={form[optOutKey(ch)]} control={<Radio />}
+                    label={
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        {channelIcon(ch)}
+                        <span>{t(`reminders.channel.${ch}`)}</span>
+                        <Typography variant="caption" color="text.secondary">
+                          {contactFor(ch) ?? t('notificationSettings.notAvailable')}
+                        </Typography>
+                      </Stack>
+                    } />
+                ))}
+              </RadioGroup>
+            </CardContent>
+          </Card>
+
+          <Card sx={{ mb: 2 }}>
+            <CardContent>
+              <Typography variant="subtitle1" fontWeight={600}>{t('notificationSettings.typesTitle')}</Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>{t('notificationSettings.typesHelp')}</Typography>
+              <Stack>
+                {NOTIFICATION_TYPES.map(key => (
+                  <FormControlLabel key={key}
+                    control={<Switch checked={form[key]} onChange={e => setForm({ ...form, [key]: e.target.checked })} />}
+                    label={
+                      <Box>
+                        <Typography variant="body2">{t(`notificationSettings.type.${key}`)}</Typography>
+                        <Typography variant="caption" color="text.secondary">{t(`notificationSettings.typeHelp.${key}`)}</Typography>
+                      </Box>
+                    } sx={{ mb: 1 }} />
+                ))}
+              </Stack>
+            </CardContent>
+          </Card>
+
+          <Card sx={{ mb: 2 }}>
+            <CardContent>
+              <Typography variant="subtitle1" fontWeight={600}>{t('notificationSettings.quietTitle')}</Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>{t('notificationSettings.quietHelp')}</Typography>
+              <FormControlLabel
+                control={
+                  <Switch checked={quietHoursOn} onChange={e => setForm({
+                    ...form,
+                    quietHoursStart: e.target.checked ? DEFAULT_QUIET_START : null,
+                    quietHoursEnd: e.target.checked ? DEFAULT_QUIET_END : null,
+                  })} />
+                }
+                label={t('notificationSettings.quietEnable')} />
+              {quietHoursOn && (
+                <Stack direction="row" spacing={2} sx={{ mt: 1 }}>
+                  <TextField type="time" size="small" label={t('notificationSettings.quietFrom')}
+                    value={form.quietHoursStart ?? ''} slotProps={{ inputLabel: { shrink: true } }}
+                    onChange={e => setForm({ ...form, quietHoursStart: e.target.value || DEFAULT_QUIET_START })} />
+                  <TextField type="time" size="small" label={t('notificationSettings.quietTo')}
+                    value={form.quietHoursEnd ?? ''} slotProps={{ inputLabel: { shrink: true } }}
+                    onChange={e => setForm({ ...form, quietHoursEnd: e.target.value || DEFAULT_QUIET_END })} />
+                </Stack>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card sx={{ mb: 2 }}>
+            <CardContent>
+              <Typography variant="subtitle1" fontWeight={600}>{t('notificationSettings.optOutTitle')}</Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>{t('notificationSettings.optOutHelp')}</Typography>
+              <Stack>
+                {TENANT_CHANNELS.map(ch => (
+                  <FormControlLabel key={ch}
+                    control={
+                      <Switch checked={!form[optOutKey(ch)]} disabled={form.preferredChannel === ch}
+                        onChange={e => setForm({ ...form, [optOutKey(ch)]: !e.target.checked })} />
+                    }
+                    label={t('notificationSettings.receiveBy', { channel: t(`reminders.channel.${ch}`) })} />
+                ))}
+              </Stack>
+              <Typography variant="caption" color="text.secondary">{t('notificationSettings.preferredLocked')}</Typography>
+            </CardContent>
+          </Card>
+
+          <Card sx={{ mb: 2 }}>
+            <CardContent>
+              <Typography variant="subtitle1" fontWeight={600}>{t('app.language')}</Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>{t('notificationSettings.languageHelp')}</Typography>
+              <RadioGroup row value={form.language}
+                onChange={e => setForm({ ...form, language: e.target.value as 'he' | 'en' })}>
+                <FormControlLabel value="he" control={<Radio />} label={t('app.hebrew')} />
+                <FormControlLabel value="en" control={<Radio />} label={t('app.english')} />
+              </RadioGroup>
+            </CardContent>
+          </Card>
+
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
+            <Button variant="contained" startIcon={<Save />} disabled={saving} onClick={handleSave}>{t('app.save')}</Button>
+            {prefs?.updatedAtUtc && (
+              <Typography variant="caption" color="text.secondary">
+                {t('notificationSettings.lastUpdated', { date: formatDateLocal(prefs.updatedAtUtc) })}
+              </Typography>
+            )}
+          </Box>
+        </>
+      )}
+
+      <Card>
+        <CardContent>
+          <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+            <NotificationsActive />
+            <Typography variant="subtitle1" fontWeight={600}>{t('notificationSettings.pushTitle')}</Typography>
+            {subscribed && <Chip size="small" color="success" label={t('notificationSettings.pushOn')} />}
+          </Stack>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>{t('notificationSettings.pushHelp')}</Typography>
+          <Divider sx={{ mb: 2 }} />
+          {pushSupport === 'unsupported' ? (
+            <Alert severity="info">{t('notificationSettings.pushUnsupported')}</Alert>
+          ) : pushSupport === 'denied' ? (
+            <Alert severity="warning">{t('notificationSettings.pushBlocked')}</Alert>
+          ) : !prefs?.pushPublicKey ? (
+            <Alert severity="info">{t('notificationSettings.pushNotConfigured')}</Alert>
+          ) : (
+            <Stack direction="row" spacing={1}>
+              {subscribed ? (
+                <>
+                  <Button variant="outlined" disabled={pushBusy} onClick={handleDisablePush}>{t('notificationSettings.pushDisable')}</Button>
+                  <Button startIcon={<Send />} disabled={pushBusy} onClick={handleTestPush}>{t('notificationSettings.pushTest')}</Button>
+                </>
+              ) : (
+                <Button variant="contained" disabled={pushBusy} onClick={handleEnablePush}>{t('notificationSettings.pushEnable')}</Button>
+              )}
+            </Stack>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card sx={{ mt: 2 }}>
+        <CardContent>
+          <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+            <History />
+            <Typography variant="subtitle1" fontWeight={600}>{t('notificationSettings.consent.title')}</Typography>
+          </Stack>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>{t('notificationSettings.consent.help')}</Typography>
+          <ConsentLogTable entries={consentLog} />
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default NotificationSettingsPage;
@@ -5,13 +5,41 @@ export interface LoginRequest {
 
 export interface LoginResponse {
   accessToken: string;
-  refreshToken: string;
+  /** Access token lifetime in seconds. The refresh token is an httpOnly cookie. */
   expiresIn: number;
   roles: string[];
   fullName: string;
   email: string;
   userId: string;
   phone?: string;
+  /** False until a tenant opens the verification link emailed at registration. */
+  emailConfirmed: boolean;
+  /** A self-registered tenant's latest registration; null for everyone else. */
+  registrationStatus?: TenantRegistrationStatus | null;
+  /** What the user may do, from their role and any extra grants. */
+  permissions: PermissionGrant[];
+  /** Set when the password was right but a code is still needed ('Verify') or must be set up first ('Enroll'). */
+  twoFactorStep?: 'Verify' | 'Enroll';
+  challengeToken?: string;
+}
+
+export interface TwoFactorStatusDto {
+  enabled: boolean;
+  /** The role requires two-factor, so it can't be turned off. */
+  required: boolean;
+  recoveryCodesLeft: number;
+  trustedDevices: number;
+}
+
+export interface TwoFactorSetupDto {
+  sharedKey: string;
+  authenticatorUri: string;
+}
+
+export interface TwoFactorEnableResponse {
+  recoveryCodes: string[];
+  /** Present when enrollment completed a sign-in. */
+  session?: LoginResponse;
 }
 
 export interface User {
@@ -20,7 +48,80 @@ export interface User {
   fullName: string;
   phone?: string;
   vendorId?: number;
+  emailConfirmed: boolean;
+  /** Self-registered tenants until a manager approves them; absent for everyone else. */
+  registrationStatus?: TenantRegistrationStatus | null;
+  permissions: PermissionGrant[];
+  roles: string[];
+}
+
+export type PermissionResource =
+  | 'Buildings' | 'Maintenance' | 'Vendors' | 'Tenants' | 'Finance' | 'Reports' | 'Communications' | 'Users';
+export const PERMISSION_RESOURCES = ['Buildings', 'Maintenance', 'Vendors', 'Tenants', 'Finance', 'Reports', 'Communications', 'Users'] as const;
+
+/** Manage includes View. */
+export type PermissionAction = 'View' | 'Manage';
+
+/** An action on a resource, in one building or (no buildingId) in every building. */
+export interface PermissionGrant {
+  resource: PermissionResource;
+  action: PermissionAction;
+  buildingId?: number | null;
+  buildingName?: string | null;
+}
+
+/** A staff member or house committee member, as shown on the permissions page. */
+export interface UserPermissionsDto {
+  userId: string;
+  fullName: string;
+  email: string;
   roles: string[];
+  managedBuildingIds: number[];
+  committeeBuildingIds: number[];
+  /** Granted on top of the role. */
+  grants: PermissionGrant[];
+}
+
+export interface UpdateUserPermissionsRequest {
+  role?: string;
+  managedBuildingIds: number[];
+  grants: PermissionGrant[];
+}
+
+/** What an invitation link shows before the tenant creates the account. */
+export interface InvitationDetailsDto {
+  fullName: string;
+  email?: string;
+  phone?: string;
+  buildingName: string;
+  addressLine?: string;
+  unitNumber: string;
+  floor?: number;
+  language: 'he' | 'en';
+  expiresAtUtc: string;
+}
+
+export interface AcceptInvitationRequest {
+  fullName: string;
+  email: string;
+  password: string;
+  phone?: string;
+  marketingConsent: boolean;
+  termsAccepted: boolean;
+}
+
+export interface UpdateProfileRequest {
+  fullName: string;
+  phone?: string;
+  email: string;
+}
+
+export interface UpdateProfileResponse {
+  fullName: string;
+  phone?: string;
+  email: string;
+  /** Set when a confirmation link was sent to a new address; the account keeps the old one until then. */
+  pendingEmail?: string;
 }
 
 export interface BuildingDto {
@@ -42,8 +143,26 @@ export interface UnitDto {
   floor?: number;
   sizeSqm?: number;
   ownerName?: string;
+  ownerPhone?: string;
+  ownerEmail?: string;
+  ownerUserId?: string;
+  ownerAccountName?: string;
   tenantUserId?: string;
   tenantName?: string;
+  hoaFeePayer: BillingParty;
+  specialAssessmentPayer: BillingParty;
+}
+
+/** Who a unit charge is billed to: whoever lives in the unit, or its owner. */
+export type BillingParty = 'Resident' | 'Owner';
+
+export interface UpdateUnitBillingRequest {
+  ownerName?: string;
+  ownerPhone?: string;
+  ownerEmail?: string;
+  hoaFeePayer: BillingParty;
+  specialAssessmentPayer: BillingParty;
+  applyToOpenCharges: boolean;
 }
 
 export interface VendorDto {
@@ -151,6 +270,27 @@ export interface WorkOrderDto {
   srAttachments?: AttachmentDto[];
 }
 
+// ─── Vendor Offline Queue ───────────────────────────────
+
+export type PendingChangeKind = 'status' | 'note' | 'photos';
+export type PendingChangeState = 'pending' | 'conflict' | 'failed';
+
+export interface PendingWorkOrderChange {
+  seq?: number;
+  workOrderId: number;
+  kind: PendingChangeKind;
+  status?: string;
+  noteText?: string;
+  files?: File[];
+  /** updatedAtUtc of the work order when the change was made (status changes only) */
+  baseUpdatedAtUtc?: string;
+  queuedAtUtc: string;
+  state: PendingChangeState;
+  error?: string;
+  /** Server copy of the work order when a conflict was detected */
+  serverStatus?: string;
+}
+
 export interface WorkOrderNoteDto {
   id: number;
   noteText: string;
@@ -214,16 +354,135 @@ export interface UnitChargeDto {
   unitNumber?: string;
   floor?: number;
   tenantName?: string;
-  hoaFeePlanId: number;
+  hoaFeePlanId?: number;
+  specialAssessmentId?: number;
+  installmentNumber?: number;
   period: string;
   amountDue: number;
   amountPaid: number;
   balance: number;
   dueDate: string;
   status: string;
+  chargeType: string;
+  party: BillingParty;
+  sourceChargeId?: number;
+  description?: string;
+  waivedAtUtc?: string;
+  waiverReason?: string;
   createdAtUtc: string;
 }
 
+export const LATE_FEE_TYPES = ['FixedAmount', 'MonthlyPercentage'] as const;
+
+export interface LateFeeRuleDto {
+  id?: number;
+  buildingId: number;
+  isEnabled: boolean;
+  feeType: string;
+  amount: number;
+  graceDays: number;
+  maxFeePerCharge?: number;
+  updatedAtUtc?: string;
+}
+
+export interface SaveLateFeeRuleRequest {
+  isEnabled: boolean;
+  feeType: string;
+  amount: number;
+  graceDays: number;
+  maxFeePerCharge?: number;
+}
+
+export interface LateFeeRunResult {
+  buildingsProcessed: number;
+  chargesMarkedOverdue: number;
+  feesCreated: number;
+  totalFees: number;
+  message: string;
+}
+
+export interface GenerateChargesResult {
+  alreadyRan: boolean;
+  period: string;
+  chargesCreated: number;
+  message: string;
+}
+
+export const ASSESSMENT_ALLOCATION_METHODS = ['BySqm', 'EqualPerUnit'] as const;
+export const SPECIAL_ASSESSMENT_STATUSES = ['Draft', 'Active', 'Cancelled'] as const;
+
+export interface SpecialAssessmentDto {
+  id: number;
+  buildingId: number;
+  buildingName?: string;
+  name: string;
+  description?: string;
+  totalBudget: number;
+  allocationMethod: string;
+  installmentCount: number;
+  startPeriod: string;
+  endPeriod: string;
+  status: string;
+  activatedAtUtc?: string;
+  installmentsGenerated: number;
+  nextPeriod?: string;
+  amountBilled: number;
+  amountCollected: number;
+  outstanding: number;
+  collectedPercent: number;
+  createdAtUtc: string;
+}
+
+export interface SpecialAssessmentShareDto {
+  unitId: number;
+  unitNumber: string;
+  floor?: number;
+  sizeSqm?: number;
+  payerDisplayName?: string;
+  shareAmount: number;
+  installmentAmount: number;
+  amountBilled: number;
+  amountPaid: number;
+}
+
+export interface SpecialAssessmentDetailDto {
+  assessment: SpecialAssessmentDto;
+  shares: SpecialAssessmentShareDto[];
+}
+
+export interface SaveSpecialAssessmentRequest {
+  buildingId: number;
+  name: string;
+  description?: string;
+  totalBudget: number;
+  allocationMethod: string;
+  installmentCount: number;
+  startPeriod: string;
+}
+
+export interface AssessmentInstallmentDto {
+  installmentNumber: number;
+  period: string;
+  dueDate: string;
+  amount: number;
+  unitChargeId?: number;
+  amountPaid: number;
+  status?: string;
+}
+
+export interface MyAssessmentScheduleDto {
+  assessmentId: number;
+  name: string;
+  description?: string;
+  buildingName?: string;
+  unitId: number;
+  unitNumber: string;
+  shareAmount: number;
+  amountPaid: number;
+  remaining: number;
+  installments: AssessmentInstallmentDto[];
+}
+
 export interface ChargePaymentDto {
   id: number;
   amount: number;
@@ -235,6 +494,60 @@ export interface ChargePaymentDto {
   enteredByName?: string;
   status: string;
   createdAtUtc: string;
+  /** Full payment amount; `amount` is only the part allocated to this charge */
+  paymentAmount: number;
+  refundedAmount: number;
+  hasOpenChargeback: boolean;
+}
+
+// ─── Refunds & Chargebacks ──────────────────────────────
+
+export type PaymentRefundType = 'Refund' | 'Chargeback';
+export type ChargebackStatus = 'Open' | 'Won' | 'Lost';
+
+export interface PaymentRefundChargeDto {
+  unitChargeId: number;
+  period?: string;
+  chargeType: string;
+  amount: number;
+  restoredAmount: number;
+}
+
+export interface PaymentRefundDto {
+  id: number;
+  paymentId: number;
+  buildingId: number;
+  buildingName?: string;
+  unitId: number;
+  unitNumber?: string;
+  payerName?: string;
+  type: PaymentRefundType;
+  amount: number;
+  paymentAmount: number;
+  paymentDateUtc: string;
+  paymentReference?: string;
+  reason?: string;
+  viaProvider: boolean;
+  providerReference?: string;
+  chargebackStatus?: ChargebackStatus;
+  resolvedAtUtc?: string;
+  resolutionNote?: string;
+  createdByName?: string;
+  createdAtUtc: string;
+  charges: PaymentRefundChargeDto[];
+}
+
+export interface RefundPaymentRequest {
+  /** Omit to refund everything still refundable */
+  amount?: number;
+  reason: string;
+  /** Money was already returned outside the system; record it without calling the provider */
+  recordOnly?: boolean;
+}
+
+export interface ResolveChargebackRequest {
+  won: boolean;
+  note?: string;
 }
 
 export const MANUAL_PAYMENT_METHODS = ['Manual', 'BankTransfer', 'Cash', 'Check'] as const;
@@ -264,6 +577,27 @@ export interface PaymentProviderConfigDto {
   supportedFeatures: number;
   currency: string;
   baseUrl?: string;
+  simulatorScenario: PaymentSimulatorScenario;
+  simulatorDelaySeconds: number;
+  lastTestedAtUtc?: string;
+  lastTestSucceeded?: boolean;
+  lastTestMessage?: string;
+}
+
+export type PaymentSimulatorScenario = 'Approve' | 'Decline' | 'ThreeDSecure' | 'Timeout' | 'WebhookDelay' | 'DuplicateWebhook';
+
+export interface PaymentProviderTestStepDto {
+  step: 'Configuration' | 'PaymentSession' | 'Tokenization';
+  success: boolean;
+  message?: string;
+  durationMs: number;
+}
+
+export interface PaymentProviderTestResultDto {
+  success: boolean;
+  providerType: string;
+  testedAtUtc: string;
+  steps: PaymentProviderTestStepDto[];
 }
 
 export interface PaymentSessionResponse {
@@ -291,6 +625,64 @@ export interface PaymentDto {
   providerReference?: string;
   status: string;
   createdAtUtc: string;
+  isManual: boolean;
+  refundedAmount: number;
+  hasOpenChargeback: boolean;
+  /** Charges the payment settled, oldest first (single payment and checkout responses) */
+  allocations?: PaymentAllocationDto[];
+}
+
+export interface PaymentAllocationDto {
+  unitChargeId: number;
+  period: string;
+  chargeType: string;
+  allocated: number;
+  outstanding: number;
+  status: string;
+}
+
+/** Charges to pay in one checkout; no ids with a unitId pays the unit's full open balance */
+export interface CheckoutChargesRequest {
+  unitChargeIds: number[];
+  unitId?: number;
+}
+
+/** What a reminder's payment link opens without a login */
+export interface PaymentLinkCheckoutDto {
+  buildingName: string;
+  unitNumber: string;
+  payerName: string;
+  charges: PaymentLinkChargeDto[];
+  total: number;
+  expiresAtUtc: string;
+}
+
+export interface PaymentLinkChargeDto {
+  id: number;
+  period: string;
+  chargeType: string;
+  dueDate: string;
+  balance: number;
+}
+
+export interface PayChargesRequest extends CheckoutChargesRequest {
+  paymentMethodId?: number;
+  amount?: number;
+}
+
+export interface UnitManualPaymentRequest {
+  unitChargeIds: number[];
+  paidAmount: number;
+  paidAt?: string;
+  method: string;
+  reference?: string;
+  notes?: string;
+}
+
+export interface UnitManualPaymentResultDto {
+  paymentId: number;
+  amount: number;
+  allocations: PaymentAllocationDto[];
 }
 
 export interface CollectionRowDto {
@@ -300,6 +692,7 @@ export interface CollectionRowDto {
   sizeSqm?: number;
   payerDisplayName?: string;
   payerPhone?: string;
+  party?: BillingParty;
   amountDue: number;
   amountPaid: number;
   outstanding: number;
@@ -396,6 +789,225 @@ export const INCOME_CATEGORIES = [
   'HOAMonthlyFees', 'SpecialAssessment', 'LateFees', 'OtherIncome'
 ] as const;
 
+// ─── Budgets ────────────────────────────────────────────
+
+export type BudgetLineType = 'Income' | 'Expense';
+
+export interface BudgetLineDto {
+  lineType: BudgetLineType;
+  category: string;
+  month: number;
+  amount: number;
+}
+
+export interface BuildingBudgetDto {
+  id: number;
+  buildingId: number;
+  buildingName?: string;
+  year: number;
+  status: string;
+  approvedAtUtc?: string;
+  approvedBy?: string;
+  notes?: string;
+  totalIncome: number;
+  totalExpenses: number;
+  lines: BudgetLineDto[];
+}
+
+export interface SaveBuildingBudgetRequest {
+  notes?: string;
+  lines: BudgetLineDto[];
+}
+
+export interface BudgetVarianceLine {
+  category: string;
+  budget: number;
+  actual: number;
+  variance: number;
+}
+
+export interface BudgetVarianceMonth {
+  month: string;
+  budgetIncome: number;
+  actualIncome: number;
+  budgetExpenses: number;
+  actualExpenses: number;
+}
+
+export interface BudgetVsActualReport {
+  buildingId: number;
+  buildingName?: string;
+  year: number;
+  budgetStatus?: string;
+  budgetIncome: number;
+  actualIncome: number;
+  budgetExpenses: number;
+  actualExpenses: number;
+  incomeByCategory: BudgetVarianceLine[];
+  expensesByCategory: BudgetVarianceLine[];
+  months: BudgetVarianceMonth[];
+}
+
+export interface SuggestedHOAFeeDto {
+  buildingId: number;
+  year: number;
+  budgetedExpenses: number;
+  budgetedOtherIncome: number;
+  annualAmountToCollect: number;
+  monthlyAmountToCollect: number;
+  unitCount: number;
+  totalSqm: number;
+  fixedAmountPerUnit: number;
+  amountPerSqm?: number;
+}
+
+// ─── Billing Parties ────────────────────────────────────
+
+export interface PartyBalanceDto {
+  party: BillingParty;
+  payerName?: string;
+  payerPhone?: string;
+  payerEmail?: string;
+  hasPortalAccount: boolean;
+  totalCharged: number;
+  totalPaid: number;
+  balance: number;
+  openCharges: number;
+}
+
+export interface UnitPartyBalancesDto {
+  unitId: number;
+  unitNumber?: string;
+  hoaFeePayer: BillingParty;
+  specialAssessmentPayer: BillingParty;
+  parties: PartyBalanceDto[];
+}
+
+// ─── Unit Statement ─────────────────────────────────────
+
+export type StatementLineType = 'Charge' | 'Adjustment' | 'Payment' | 'Refund';
+
+export interface UnitStatementLineDto {
+  dateUtc: string;
+  lineType: StatementLineType;
+  unitChargeId?: number;
+  paymentId?: number;
+  chargeType?: string;
+  period?: string;
+  description?: string;
+  method?: string;
+  refundType?: PaymentRefundType;
+  reference?: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface UnitStatementDto {
+  unitId: number;
+  unitNumber?: string;
+  buildingId: number;
+  buildingName?: string;
+  party?: BillingParty;
+  payerName?: string;
+  from?: string;
+  to: string;
+  openingBalance: number;
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  generatedAtUtc: string;
+  lines: UnitStatementLineDto[];
+}
+
+// ─── Payment Plans ──────────────────────────────────────
+
+export type PaymentPlanStatus = 'Requested' | 'Active' | 'Defaulted' | 'Completed' | 'Rejected' | 'Cancelled';
+
+export interface PaymentPlanInstallmentDto {
+  installmentNumber: number;
+  dueDate: string;
+  amount: number;
+  amountPaid: number;
+  status: string;
+  paidAtUtc?: string;
+}
+
+export interface PaymentPlanChargeDto {
+  unitChargeId: number;
+  period: string;
+  chargeType: string;
+  description?: string;
+  dueDate: string;
+  outstandingAtStart: number;
+  outstanding: number;
+}
+
+export interface PaymentPlanDto {
+  id: number;
+  buildingId: number;
+  buildingName?: string;
+  unitId: number;
+  unitNumber?: string;
+  tenantName?: string;
+  status: PaymentPlanStatus;
+  party?: BillingParty;
+  requestedByTenant: boolean;
+  requestNote?: string;
+  managerNote?: string;
+  totalAmount: number;
+  amountPaid: number;
+  remaining: number;
+  installmentCount: number;
+  firstDueDate: string;
+  missedInstallments: number;
+  nextDueDate?: string;
+  standingOrderId?: number;
+  standingOrderStatus?: string;
+  createdAtUtc: string;
+  approvedAtUtc?: string;
+  installments: PaymentPlanInstallmentDto[];
+  charges: PaymentPlanChargeDto[];
+}
+
+export interface UnitDebtDto {
+  unitId: number;
+  unitNumber?: string;
+  party?: BillingParty;
+  totalOutstanding: number;
+  openPlanId?: number;
+  charges: PaymentPlanChargeDto[];
+}
+
+export interface CreatePaymentPlanRequest {
+  unitId: number;
+  installmentCount: number;
+  firstDueDate: string;
+  party?: BillingParty;
+  standingOrderId?: number;
+  note?: string;
+}
+
+export interface RequestPaymentPlanRequest {
+  unitId: number;
+  installmentCount: number;
+  note?: string;
+}
+
+export interface ApprovePaymentPlanRequest {
+  installmentCount: number;
+  firstDueDate: string;
+  note?: string;
+}
+
+export interface PaymentPlanCheckResult {
+  plansChecked: number;
+  plansDefaulted: number;
+  plansCompleted: number;
+  installmentsMissed: number;
+  message: string;
+}
+
 // ─── Tenant Management ─────────────────────────────────
 
 export interface TenantProfileDto {
@@ -413,8 +1025,57 @@ export interface TenantProfileDto {
   moveOutDate?: string;
   isActive: boolean;
   isArchived: boolean;
+  /** House committee members see their building's reports. */
+  isCommitteeMember: boolean;
   notes?: string;
   createdAtUtc: string;
+  /** The open sign-up invitation, while the tenant has no account yet. */
+  invitationChannel?: ReminderChannel;
+  invitedAtUtc?: string;
+  invitationExpiresAtUtc?: string;
+}
+
+export interface InviteTenantRequest {
+  /** 'Sms' or 'Email' */
+  channel: ReminderChannel;
+  language: 'he' | 'en';
+}
+
+export interface TenantInvitationDto {
+  id: number;
+  tenantProfileId: number;
+  channel: ReminderChannel;
+  sentTo: string;
+  createdAtUtc: string;
+  expiresAtUtc: string;
+}
+
+export type TenantRegistrationStatus = 'Pending' | 'Approved' | 'Rejected';
+
+/** A self-registration waiting for a manager to link the tenant to a unit. */
+export interface TenantRegistrationDto {
+  id: number;
+  userId: string;
+  fullName: string;
+  email?: string;
+  emailConfirmed: boolean;
+  phone?: string;
+  buildingId: number;
+  buildingName?: string;
+  apartmentNumber: string;
+  floor?: number;
+  propertyRole: 'Owner' | 'Landlord' | 'Renter';
+  isCommitteeMember: boolean;
+  status: TenantRegistrationStatus;
+  /** The building's unit with the typed number and floor, suggested for approval. */
+  matchingUnitId?: number;
+  /** Someone else already has an account for the matching unit. */
+  currentTenantName?: string;
+  unitId?: number;
+  unitNumber?: string;
+  rejectionReason?: string;
+  createdAtUtc: string;
+  reviewedAtUtc?: string;
 }
 
 export interface CreateTenantRequest {
@@ -435,6 +1096,7 @@ export interface UpdateTenantRequest {
   moveInDate?: string;
   moveOutDate?: string;
   isActive: boolean;
+  isCommitteeMember: boolean;
   notes?: string;
 }
 
@@ -446,7 +1108,7 @@ export const TENANT_STATUSES = ['Active', 'Inactive', 'Archived'] as const;
 
 export const HOA_CALC_METHODS = ['BySqm', 'FixedPerUnit', 'ManualPerUnit'] as const;
 export const CHARGE_STATUSES = ['Pending', 'Paid', 'PartiallyPaid', 'Overdue', 'Cancelled'] as const;
-export const PAYMENT_STATUSES = ['Pending', 'Succeeded', 'Failed', 'Refunded'] as const;
+export const PAYMENT_STATUSES = ['Pending', 'Succeeded', 'Failed', 'Refunded', 'Cancelled'] as const;
 export const PAYMENT_PROVIDERS = ['Fake', 'Meshulam', 'Pelecard', 'Tranzila', 'PayPal'] as const;
 export const PROVIDER_FEATURES = {
   HostedPaymentPage: 1,
@@ -456,6 +1118,7 @@ export const PROVIDER_FEATURES = {
   Webhooks: 16,
   StandingOrders: 32,
 } as const;
+export const PAYMENT_SIMULATOR_SCENARIOS: PaymentSimulatorScenario[] = ['Approve', 'Decline', 'ThreeDSecure', 'Timeout', 'WebhookDelay', 'DuplicateWebhook'];
 
 // ─── Vendor Invoices & Payments ─────────────────────────
 
@@ -497,11 +1160,74 @@ export const VENDOR_INVOICE_CATEGORIES = [
   'Cleaning', 'Gardening', 'PestControl', 'Repairs', 'Elevator', 'Electricity', 'Other'
 ] as const;
 
+// ─── Bank Reconciliation ────────────────────────────────
+
+export const BANK_STATEMENT_FORMATS = ['Auto', 'Csv', 'Mt940'] as const;
+export const BANK_LINE_STATUSES = ['Unmatched', 'Suggested', 'Confirmed', 'Ignored'] as const;
+
+export interface BankStatementImportDto {
+  id: number;
+  buildingId: number;
+  buildingName?: string;
+  fileName: string;
+  format: string;
+  importedByName?: string;
+  importedAtUtc: string;
+  lineCount: number;
+  duplicateCount: number;
+  suggestedCount: number;
+  confirmedCount: number;
+}
+
+export interface BankStatementLineDto {
+  id: number;
+  importId: number;
+  buildingId: number;
+  transactionDate: string;
+  amount: number;
+  reference?: string;
+  payerName?: string;
+  description?: string;
+  status: string;
+  suggestedUnitChargeId?: number;
+  suggestedUnitNumber?: string;
+  suggestedPeriod?: string;
+  suggestedTenantName?: string;
+  matchScore: number;
+  matchReason?: string;
+  paymentId?: number;
+  resolvedAtUtc?: string;
+}
+
+export interface BankMatchCandidateDto {
+  unitChargeId: number;
+  unitId: number;
+  unitNumber?: string;
+  tenantName?: string;
+  period: string;
+  outstanding: number;
+  dueDate: string;
+  score: number;
+  reason?: string;
+}
+
+export interface ConfirmBankMatchesResult {
+  confirmed: number;
+  errors: { lineId: number; message: string }[];
+}
+
 // ─── Reminder Notifications ─────────────────────────────
 
-export type ReminderChannel = 'Sms' | 'Email' | 'Both';
+/** Both = SMS and email; WhatsApp goes out as the approved Business template, Push to the tenant's subscribed browsers. */
+export type ReminderChannel = 'Sms' | 'Email' | 'Both' | 'WhatsApp' | 'Push';
 
-export const REMINDER_CHANNELS: ReminderChannel[] = ['Sms', 'Email', 'Both'];
+export const REMINDER_CHANNELS: ReminderChannel[] = ['Sms', 'Email', 'Both', 'WhatsApp', 'Push'];
+
+/** Channels a tenant can prefer or opt out of. */
+export const TENANT_CHANNELS: ReminderChannel[] = ['Email', 'Sms', 'WhatsApp', 'Push'];
+
+/** What the SMS or email provider reported back about a message it accepted. */
+export type MessageDeliveryStatus = 'Pending' | 'Delivered' | 'Undelivered' | 'Bounced';
 
 export interface SmsTemplateDto {
   id: number;
@@ -510,6 +1236,46 @@ export interface SmsTemplateDto {
   body: string;
   emailSubject?: string;
   isActive: boolean;
+  version: number;
+  updatedAtUtc?: string;
+}
+
+/** Placeholders the server fills in a reminder template, in the order the template editor offers them. */
+export const TEMPLATE_PLACEHOLDERS = ['FullName', 'BuildingName', 'UnitNumber', 'Period', 'AmountDue', 'Outstanding', 'PayLink'] as const;
+
+export interface SaveSmsTemplateRequest {
+  name: string;
+  language: string;
+  body: string;
+  emailSubject?: string;
+  isActive: boolean;
+}
+
+export interface SmsTemplateVersionDto {
+  version: number;
+  name: string;
+  body: string;
+  emailSubject?: string;
+  createdByName?: string;
+  createdAtUtc: string;
+  isCurrent: boolean;
+}
+
+export interface PreviewSmsTemplateRequest {
+  body: string;
+  emailSubject?: string;
+  language: string;
+  unitId?: number;
+}
+
+export interface SmsTemplatePreviewDto {
+  message: string;
+  subject?: string;
+  emailHtml: string;
+  recipientName: string;
+  unitNumber?: string;
+  isSample: boolean;
+  unknownPlaceholders: string[];
 }
 
 export interface SmsCampaignDto {
@@ -529,6 +1295,17 @@ export interface SmsCampaignDto {
   failedCount: number;
   skippedCount: number;
   sentAtUtc?: string;
+  linksClicked: number;
+  paidRecipients: number;
+  paidAfterSendAmount: number;
+  paidViaLinkAmount: number;
+  lastRetryAtUtc?: string;
+  deliveredCount: number;
+  undeliveredCount: number;
+  bouncedCount: number;
+  awaitingReceiptCount: number;
+  /** Selected recipients not reached: failed or skipped at send, undelivered or bounced since */
+  retryableCount: number;
 }
 
 export interface SmsCampaignRecipientDto {
@@ -547,6 +1324,37 @@ export interface SmsCampaignRecipientDto {
   providerMessageId?: string;
   errorMessage?: string;
   sentAtUtc?: string;
+  paymentLinkUrl?: string;
+  paymentLinkExpiresAtUtc?: string;
+  linkClickCount: number;
+  linkFirstClickedAtUtc?: string;
+  paidAfterSendAmount: number;
+  deliveryStatus?: MessageDeliveryStatus;
+  deliveryStatusAtUtc?: string;
+  attemptCount: number;
+  lastChannel?: ReminderChannel;
+  deliveries: SmsCampaignDeliveryDto[];
+}
+
+/** One message of a reminder the provider accepted, from the first send or a retry. */
+export interface SmsCampaignDeliveryDto {
+  id: number;
+  attempt: number;
+  channel: ReminderChannel;
+  provider: string;
+  providerMessageId: string;
+  destination: string;
+  sentAtUtc: string;
+  status: MessageDeliveryStatus;
+  statusAtUtc?: string;
+  error?: string;
+}
+
+export interface RetryCampaignRequest {
+  confirm: boolean;
+  channel: ReminderChannel;
+  /** Every retryable recipient when omitted */
+  recipientIds?: number[];
 }
 
 export interface CreateCampaignResult {
@@ -561,11 +1369,140 @@ export interface SendCampaignResult {
   skippedCount: number;
 }
 
+// ─── Notification Preferences ───────────────────────────
+
+export interface NotificationPreferencesDto {
+  preferredChannel: ReminderChannel;
+  smsOptOut: boolean;
+  emailOptOut: boolean;
+  whatsAppOptOut: boolean;
+  pushOptOut: boolean;
+  paymentReminders: boolean;
+  ticketUpdates: boolean;
+  /** Building announcements; the marketing consent given at registration */
+  buildingAnnouncements: boolean;
+  /** "HH:mm", Israel time; both set or both null */
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  language: 'he' | 'en';
+  updatedAtUtc?: string;
+  phone?: string;
+  email?: string;
+  /** Browsers of the user subscribed to push */
+  pushDevices: number;
+  /** VAPID key to subscribe with; null when push is not configured */
+  pushPublicKey?: string | null;
+}
+
+export type SaveNotificationPreferencesRequest = Pick<NotificationPreferencesDto,
+  'preferredChannel' | 'smsOptOut' | 'emailOptOut' | 'whatsAppOptOut' | 'pushOptOut' | 'paymentReminders'
+  | 'ticketUpdates' | 'buildingAnnouncements' | 'quietHoursStart' | 'quietHoursEnd' | 'language'>;
+
+/** One change to what a tenant agreed to receive. */
+export interface NotificationConsentLogDto {
+  id: number;
+  setting: string;
+  oldValue?: string | null;
+  newValue?: string | null;
+  source: 'Registration' | 'Invitation' | 'Tenant';
+  changedByName?: string | null;
+  ipAddress?: string | null;
+  changedAtUtc: string;
+}
+
+export interface SavePushSubscriptionRequest {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+/** A message the local stand-in providers accepted instead of sending. */
+export interface StandInMessageDto {
+  channel: ReminderChannel;
+  to: string;
+  subject?: string;
+  body: string;
+  messageId: string;
+  sentAtUtc: string;
+}
+
+export interface StandInOutboxDto {
+  standInChannels: ReminderChannel[];
+  messages: StandInMessageDto[];
+}
+
+// ─── Dunning ────────────────────────────────────────────
+
+export type DunningAction = 'Sms' | 'Email' | 'FormalLetter' | 'CommitteeEscalation';
+export const DUNNING_ACTIONS: DunningAction[] = ['Sms', 'Email', 'FormalLetter', 'CommitteeEscalation'];
+
+export interface DunningStepDto {
+  id: number;
+  daysAfterDue: number;
+  action: DunningAction;
+  templateId?: number;
+  templateName?: string;
+  isEnabled: boolean;
+}
+
+export interface DunningStepRequest {
+  daysAfterDue: number;
+  action: DunningAction;
+  templateId?: number;
+  isEnabled: boolean;
+}
+
+export interface DunningNoticeDto {
+  id: number;
+  unitChargeId: number;
+  chargePeriod?: string;
+  party: BillingParty;
+  action: DunningAction;
+  daysAfterDue: number;
+  recipientName: string;
+  recipientAddress?: string;
+  outstandingSnapshot: number;
+  subject?: string;
+  message: string;
+  sendStatus: 'Pending' | 'Sent' | 'Failed' | 'Skipped';
+  errorMessage?: string;
+  createdAtUtc: string;
+}
+
+export interface DunningDebtorDto {
+  unitId: number;
+  unitNumber: string;
+  party: BillingParty;
+  payerName?: string;
+  outstanding: number;
+  overdueCharges: number;
+  oldestChargeId: number;
+  oldestPeriod: string;
+  oldestDueDate: string;
+  daysOverdue: number;
+  reachedDaysAfterDue?: number;
+  nextDaysAfterDue?: number;
+  nextStepDate?: string;
+  inPaymentPlan: boolean;
+  notices: DunningNoticeDto[];
+}
+
+export interface DunningRunResult {
+  buildingsProcessed: number;
+  noticesSent: number;
+  noticesFailed: number;
+  noticesSkipped: number;
+  message: string;
+}
+
 // ─── Standing Orders ────────────────────────────────────
 
+export type StandingOrderStatus = 'Active' | 'Paused' | 'Cancelled' | 'Expired' | 'PaymentFailed';
+
 export interface StandingOrderDto {
   id: number;
   userId: string;
+  tenantName?: string;
   unitId: number;
   unitNumber?: string;
   buildingId: number;
@@ -584,6 +1521,23 @@ export interface StandingOrderDto {
   successfulCharges: number;
   failedCharges: number;
   createdAtUtc: string;
+  /** New amount a manager set, awaiting the tenant's approval at the provider */
+  pendingAmount?: number;
+  amountChangeRequestedAtUtc?: string;
+  amountChangeReason?: string;
+  /** The unit's fee under the building's active HOA fee plan (manager view only) */
+  currentHoaFee?: number;
+}
+
+export interface AdjustStandingOrderAmountRequest {
+  amount: number;
+  reason?: string;
+}
+
+export interface AdjustStandingOrderAmountResult {
+  requiresApproval: boolean;
+  approvalUrl?: string;
+  order: StandingOrderDto;
 }
 
 export interface CreateStandingOrderRequest {
@@ -684,3 +1638,40 @@ export interface PaymentAnalysisDto {
   onTimeRate: number;
   hasStandingOrder: boolean;
 }
+
+// ─── Data Grid ──────────────────────────────────────────
+
+export type SortDirection = 'asc' | 'desc';
+
+/** Query string understood by every `/paged` list endpoint, plus endpoint-specific filters. */
+export interface GridQuery {
+  page: number;
+  pageSize: number;
+  sortBy?: string;
+  sortDir?: SortDirection;
+  search?: string;
+  [filter: string]: string | number | boolean | undefined;
+}
+
+export interface PagedResult<T> {
+  items: T[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface SavedGridViewDto {
+  id: number;
+  gridKey: string;
+  name: string;
+  stateJson: string;
+  isDefault: boolean;
+  updatedAtUtc: string;
+}
+
+export interface SaveGridViewRequest {
+  gridKey: string;
+  name: string;
+  stateJson: string;
+  isDefault: boolean;
+}
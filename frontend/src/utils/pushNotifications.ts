@@ -0,0 +1,61 @@
+import { notificationsApi } from '../api/services';
+
+const SERVICE_WORKER_URL = '/push-sw.js';
+
+export type PushSupport = 'supported' | 'unsupported' | 'denied';
+
+export function getPushSupport(): PushSupport {
+  if (!('serviceWorker' in navigator) || !('PushManager' in window) || !('Notification' in window)) return 'unsupported';
+  return Notification.permission === 'denied' ? 'denied' : 'supported';
+}
+
+/** VAPID keys are URL-safe base64; PushManager wants the raw bytes. */
+function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+async function getRegistration(): Promise<ServiceWorkerRegistration> {
+  return (await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL))
+    ?? navigator.serviceWorker.register(SERVICE_WORKER_URL);
+}
+
+/** This browser's current push subscription, if it has one. */
+export async function getCurrentSubscription(): Promise<PushSubscription | null> {
+  if (getPushSupport() === 'unsupported') return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/**
+ * Asks for notification permission, subscribes this browser with the server's VAPID key and registers the
+ * subscription for the logged-in user. Returns false when the user declined.
+ */
+export async function subscribeToPush(publicKey: string): Promise<boolean> {
+  if (getPushSupport() !== 'supported') return false;
+  if (await Notification.requestPermission() !== 'granted') return false;
+
+  const registration = await getRegistration();
+  await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: urlBase64ToUint8Array(publicKey) });
+
+  const json = subscription.toJSON();
+  await notificationsApi.savePushSubscription({
+    endpoint: subscription.endpoint,
+    p256dh: json.keys?.p256dh ?? '',
+    auth: json.keys?.auth ?? '',
+  });
+  return true;
+}
+
+/** Removes this browser's subscription, on the server and in the browser. */
+export async function unsubscribeFromPush(): Promise<void> {
+  const subscription = await getCurrentSubscription();
+  if (!subscription) return;
+  await notificationsApi.deletePushSubscription(subscription.endpoint).catch(() => undefined);
+  await subscription.unsubscribe();
+}
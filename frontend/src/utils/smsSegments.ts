@@ -0,0 +1,38 @@
+export type SmsEncoding = 'GSM' | 'UCS2';
+
+export interface SmsSegmentInfo {
+  encoding: SmsEncoding;
+  /** Characters as the carrier counts them: GSM extension characters take two, UCS-2 counts UTF-16 units. */
+  units: number;
+  segments: number;
+  perSegment: number;
+  /** Characters left in the last segment before another one is needed. */
+  remaining: number;
+}
+
+const GSM_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+/**
+ * Segment count for an SMS body. Plain Latin text fits the GSM 7-bit alphabet (160 characters, 153 per part
+ * once split); any other character — Hebrew included — switches the whole message to UCS-2 (70, or 67 per part).
+ */
+export function countSmsSegments(text: string): SmsSegmentInfo {
+  let units = 0;
+  let gsm = true;
+  for (const ch of text) {
+    if (GSM_BASIC.includes(ch)) units += 1;
+    else if (GSM_EXTENDED.includes(ch)) units += 2;
+    else { gsm = false; break; }
+  }
+
+  const encoding: SmsEncoding = gsm ? 'GSM' : 'UCS2';
+  if (!gsm) units = text.length;
+  const single = gsm ? 160 : 70;
+  const multi = gsm ? 153 : 67;
+  const perSegment = units <= single ? single : multi;
+  const segments = units === 0 ? 0 : Math.ceil(units / perSegment);
+  return { encoding, units, segments, perSegment, remaining: segments === 0 ? single : segments * perSegment - units };
+}
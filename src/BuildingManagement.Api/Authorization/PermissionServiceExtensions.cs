@@ -0,0 +1,32 @@
+using System.Security.Claims;
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Infrastructure.Services;
+using Microsoft.AspNetCore.Mvc;
+
+namespace BuildingManagement.Api.Authorization;
+
+/// <summary>Permission checks for the signed-in user of a controller, for buildings the endpoint finds itself.</summary>
+public static class PermissionServiceExtensions
+{
+    /// <summary>Reads need View, everything else Manage.</summary>
+    public static PermissionAction ActionFor(HttpRequest request)
+        => HttpMethods.IsGet(request.Method) || HttpMethods.IsHead(request.Method) ? PermissionAction.View : PermissionAction.Manage;
+
+    /// <summary>The <see cref="RequirePermissionAttribute"/> check for a building taken from an entity rather than the URL.</summary>
+    public static Task<bool> CanAccessBuildingAsync(this PermissionService permissions, ControllerBase controller,
+        PermissionResource resource, int buildingId)
+    {
+        var userId = controller.User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (userId == null) return Task.FromResult(false);
+        return permissions.CanAsync(userId, resource, ActionFor(controller.Request), buildingId);
+    }
+
+    /// <summary>The buildings whose <paramref name="resource"/> the user may see; null when every building.</summary>
+    public static Task<List<int>?> VisibleBuildingIdsAsync(this PermissionService permissions, ControllerBase controller,
+        PermissionResource resource)
+    {
+        var userId = controller.User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (userId == null) return Task.FromResult<List<int>?>([]);
+        return permissions.BuildingIdsAsync(userId, resource);
+    }
+}
@@ -0,0 +1,55 @@
+using System.Security.Claims;
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Infrastructure.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Mvc.Filters;
+
+namespace BuildingManagement.Api.Authorization;
+
+/// <summary>
+/// Lets a request through only when the user has the permission: in the building named by a <c>buildingId</c> route
+/// or query value, otherwise in at least one building. Reads need View and everything else Manage, unless an action
+/// is given. Endpoints that list several buildings narrow the list with <see cref="PermissionService"/> themselves.
+/// </summary>
+[AttributeUsage(AttributeTargets.Class | AttributeTargets.Method, AllowMultiple = true)]
+public class RequirePermissionAttribute : Attribute, IAsyncAuthorizationFilter
+{
+    private readonly PermissionAction? _action;
+
+    public RequirePermissionAttribute(PermissionResource resource) => Resource = resource;
+
+    public RequirePermissionAttribute(PermissionResource resource, PermissionAction action)
+    {
+        Resource = resource;
+        _action = action;
+    }
+
+    public PermissionResource Resource { get; }
+
+    public async Task OnAuthorizationAsync(AuthorizationFilterContext context)
+    {
+        if (context.ActionDescriptor.EndpointMetadata.OfType<IAllowAnonymous>().Any()) return;
+
+        var httpContext = context.HttpContext;
+        var userId = httpContext.User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (httpContext.User.Identity?.IsAuthenticated != true || userId == null)
+        {
+            context.Result = new ChallengeResult();
+            return;
+        }
+
+        var action = _action ?? PermissionServiceExtensions.ActionFor(httpContext.Request);
+        var permissions = httpContext.RequestServices.GetRequiredService<PermissionService>();
+        if (!await permissions.CanAsync(userId, Resource, action, BuildingIdOf(context), httpContext.RequestAborted))
+            context.Result = new ForbidResult();
+    }
+
+    private static int? BuildingIdOf(AuthorizationFilterContext context)
+    {
+        var value = context.RouteData.Values.TryGetValue("buildingId", out var routeValue)
+            ? routeValue?.ToString()
+            : context.HttpContext.Request.Query["buildingId"].FirstOrDefault();
+        return int.TryParse(value, out var buildingId) ? buildingId : null;
+    }
+}
@@ -0,0 +1,20 @@
+using Microsoft.AspNetCore.WebUtilities;
+
+namespace BuildingManagement.Api.Configuration;
+
+/// <summary>
+/// Links into the web app that leave the API (emails, SMS, checkout return pages). The host comes from
+/// App:FrontendBaseUrl and never from request headers, so a forged Origin can't redirect a reset or payment link.
+/// </summary>
+public static class FrontendLinks
+{
+    public static string FrontendBaseUrl(this IConfiguration configuration)
+    {
+        var url = configuration["App:FrontendBaseUrl"];
+        return (string.IsNullOrWhiteSpace(url) ? "http://localhost:5173" : url).TrimEnd('/');
+    }
+
+    public static string FrontendUrl(this IConfiguration configuration, string path, params (string Key, string Value)[] query) =>
+        QueryHelpers.AddQueryString($"{configuration.FrontendBaseUrl()}/{path.TrimStart('/')}",
+            query.Select(q => new KeyValuePair<string, string?>(q.Key, q.Value)));
+}
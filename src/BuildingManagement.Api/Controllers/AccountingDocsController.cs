@@ -1,9 +1,11 @@
+using BuildingManagement.Api.Authorization;
 using BuildingManagement.Core.DTOs;
 using BuildingManagement.Core.Entities;
 using BuildingManagement.Core.Entities.Finance;
 using BuildingManagement.Core.Enums;
 using BuildingManagement.Core.Interfaces;
 using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
@@ -19,12 +21,14 @@ public class AccountingDocsController : ControllerBase
     private readonly AppDbContext _db;
     private readonly IAccountingDocProvider _docProvider;
     private readonly ILogger<AccountingDocsController> _logger;
+    private readonly PermissionService _permissions;
 
-    public AccountingDocsController(AppDbContext db, IAccountingDocProvider docProvider, ILogger<AccountingDocsController> logger)
+    public AccountingDocsController(AppDbContext db, IAccountingDocProvider docProvider, ILogger<AccountingDocsController> logger, PermissionService permissions)
     {
         _db = db;
         _docProvider = docProvider;
         _logger = logger;
+        _permissions = permissions;
     }
 
     // ═══════════════════════════════════════════════════════
@@ -53,7 +57,7 @@ public class AccountingDocsController : ControllerBase
             Status = p.Status.ToString(),
             BuildingName = p.Unit?.Building?.Name,
             UnitNumber = p.Unit?.UnitNumber,
-            Period = p.Allocations.FirstOrDefault()?.UnitCharge?.Period,
+            Period = PaymentAllocator.Periods(p.Allocations),
             ReceiptDocNumber = p.ReceiptDocNumber,
             ReceiptPdfUrl = p.ReceiptPdfUrl,
             ReceiptIssuedAtUtc = p.ReceiptIssuedAtUtc,
@@ -79,7 +83,7 @@ public class AccountingDocsController : ControllerBase
     /// Called automatically from payment webhook or can be retried manually.
     /// </summary>
     [HttpPost("payments/{paymentId}/issue-receipt")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Finance)]
     public async Task<IActionResult> IssueReceipt(int paymentId)
     {
         return await IssueReceiptForPayment(paymentId);
@@ -91,7 +95,7 @@ public class AccountingDocsController : ControllerBase
 
     /// <summary>Get the manager's issuer profile ID.</summary>
     [HttpGet("my-issuer-profile")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Finance)]
     public async Task<IActionResult> GetMyIssuerProfile()
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
@@ -102,7 +106,7 @@ public class AccountingDocsController : ControllerBase
 
     /// <summary>Set the manager's issuer profile ID (from external invoicing provider).</summary>
     [HttpPut("my-issuer-profile")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Finance)]
     public async Task<IActionResult> SetMyIssuerProfile([FromBody] SetIssuerProfileRequest request)
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
@@ -122,7 +126,7 @@ public class AccountingDocsController : ControllerBase
 
     /// <summary>List manager's invoices, optionally filtered by period.</summary>
     [HttpGet("invoices")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Finance)]
     public async Task<ActionResult<List<ManagerInvoiceDto>>> GetInvoices([FromQuery] string? period)
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
@@ -143,7 +147,7 @@ public class AccountingDocsController : ControllerBase
     /// Issue an invoice for manager services to building committee. Idempotent by (manager, building, period).
     /// </summary>
     [HttpPost("invoices")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Finance)]
     public async Task<ActionResult<ManagerInvoiceDto>> IssueInvoice([FromBody] IssueManagerInvoiceRequest request)
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
@@ -155,12 +159,7 @@ public class AccountingDocsController : ControllerBase
             return BadRequest(new { message = "Manager issuer profile is not configured. Set your IssuerProfileId first." });
 
         // Check building access
-        var isAdmin = User.IsInRole(AppRoles.Admin);
-        if (!isAdmin)
-        {
-            var hasAccess = await _db.BuildingManagers.AnyAsync(bm => bm.UserId == userId && bm.BuildingId == request.BuildingId);
-            if (!hasAccess) return Forbid();
-        }
+        if (!await _permissions.CanAccessBuildingAsync(this, PermissionResource.Finance, request.BuildingId)) return Forbid();
 
         var building = await _db.Buildings.FindAsync(request.BuildingId);
         if (building == null) return BadRequest(new { message = "Building not found." });
@@ -219,7 +218,7 @@ public class AccountingDocsController : ControllerBase
 
     /// <summary>Get invoice PDF URL.</summary>
     [HttpGet("invoices/{id}/pdf")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Finance)]
     public async Task<IActionResult> GetInvoicePdf(int id)
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
@@ -266,7 +265,7 @@ public class AccountingDocsController : ControllerBase
         if (string.IsNullOrEmpty(building.IssuerProfileId))
             return BadRequest(new { message = "Building issuer profile is not configured." });
 
-        var period = payment.Allocations.FirstOrDefault()?.UnitCharge?.Period ?? "N/A";
+        var period = PaymentAllocator.Periods(payment.Allocations) ?? "N/A";
         var tenantName = payment.User?.FullName ?? "Tenant";
         var tenantEmail = payment.User?.Email;
 
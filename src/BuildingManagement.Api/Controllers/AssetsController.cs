@@ -1,3 +1,4 @@
+using BuildingManagement.Api.Authorization;
 using BuildingManagement.Core.DTOs;
 using BuildingManagement.Core.Entities;
 using BuildingManagement.Core.Enums;
@@ -12,7 +13,8 @@ namespace BuildingManagement.Api.Controllers;
 
 [ApiController]
 [Route("api")]
-[Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+[Authorize]
+[RequirePermission(PermissionResource.Buildings)]
 public class AssetsController : ControllerBase
 {
     private readonly AppDbContext _db;
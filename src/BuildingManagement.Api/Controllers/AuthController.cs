@@ -1,12 +1,17 @@
+using BuildingManagement.Api.Configuration;
 using BuildingManagement.Core.DTOs;
 using BuildingManagement.Core.Entities;
 using BuildingManagement.Core.Enums;
+using BuildingManagement.Core.Interfaces;
 using BuildingManagement.Infrastructure.Data;
 using BuildingManagement.Infrastructure.Services;
+using BuildingManagement.Infrastructure.Services.Email;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Identity;
 using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.WebUtilities;
 using Microsoft.EntityFrameworkCore;
+using System.Text;
 
 namespace BuildingManagement.Api.Controllers;
 
@@ -17,22 +22,46 @@ public class AuthController : ControllerBase
     private readonly UserManager<ApplicationUser> _userManager;
     private readonly SignInManager<ApplicationUser> _signInManager;
     private readonly JwtTokenService _jwtTokenService;
+    private readonly RefreshTokenService _refreshTokenService;
+    private readonly TrustedDeviceService _trustedDeviceService;
+    private readonly TenantOnboardingService _onboardingService;
+    private readonly PermissionService _permissions;
+    private readonly IEmailSender _emailSender;
+    private readonly IConfiguration _configuration;
+    private readonly IWebHostEnvironment _environment;
     private readonly ILogger<AuthController> _logger;
     private readonly AppDbContext _db;
 
-    // Simple in-memory refresh token store (for production, use DB)
-    private static readonly Dictionary<string, string> _refreshTokens = new();
+    /// <summary>The refresh token never reaches JavaScript; only requests to /api/auth carry it.</summary>
+    private const string RefreshCookieName = "bm_refresh";
+    private const string RefreshCookiePath = "/api/auth";
+    private const string TrustedDeviceCookieName = "bm_device";
+    private const int RecoveryCodeCount = 10;
 
     public AuthController(
         UserManager<ApplicationUser> userManager,
         SignInManager<ApplicationUser> signInManager,
         JwtTokenService jwtTokenService,
+        RefreshTokenService refreshTokenService,
+        TrustedDeviceService trustedDeviceService,
+        TenantOnboardingService onboardingService,
+        PermissionService permissions,
+        IEmailSender emailSender,
+        IConfiguration configuration,
+        IWebHostEnvironment environment,
         ILogger<AuthController> logger,
         AppDbContext db)
     {
         _userManager = userManager;
         _signInManager = signInManager;
         _jwtTokenService = jwtTokenService;
+        _refreshTokenService = refreshTokenService;
+        _trustedDeviceService = trustedDeviceService;
+        _onboardingService = onboardingService;
+        _permissions = permissions;
+        _emailSender = emailSender;
+        _configuration = configuration;
+        _environment = environment;
         _logger = logger;
         _db = db;
     }
@@ -48,24 +77,21 @@ public class AuthController : ControllerBase
         if (!result.Succeeded)
             return Unauthorized(new { message = "Invalid email or password." });
 
-        var (accessToken, refreshToken, expiresIn) = await _jwtTokenService.GenerateTokensAsync(user);
-        var roles = await _userManager.GetRolesAsync(user);
-
-        _refreshTokens[refreshToken] = user.Id;
+        if (await _userManager.GetTwoFactorEnabledAsync(user))
+        {
+            var trusted = Request.Cookies[TrustedDeviceCookieName] is { Length: > 0 } device
+                && await _trustedDeviceService.IsTrustedAsync(user.Id, device);
+            if (!trusted)
+                return Ok(TwoFactorChallenge(user, "Verify"));
+        }
+        else if (await IsTwoFactorRequiredAsync(user))
+        {
+            return Ok(TwoFactorChallenge(user, "Enroll"));
+        }
 
         _logger.LogInformation("User {Email} logged in successfully", request.Email);
 
-        return Ok(new LoginResponse
-        {
-            AccessToken = accessToken,
-            RefreshToken = refreshToken,
-            ExpiresIn = expiresIn,
-            Roles = roles.ToList(),
-            FullName = user.FullName,
-            Email = user.Email ?? "",
-            UserId = user.Id,
-            Phone = user.Phone
-        });
+        return Ok(await StartSessionAsync(user));
     }
 
     [HttpPost("register")]
@@ -95,24 +121,14 @@ public class AuthController : ControllerBase
         // Assign Manager role
         await _userManager.AddToRoleAsync(user, AppRoles.Manager);
 
-        // Auto-login after registration
-        var (accessToken, refreshToken, expiresIn) = await _jwtTokenService.GenerateTokensAsync(user);
-        var roles = await _userManager.GetRolesAsync(user);
-        _refreshTokens[refreshToken] = user.Id;
-
         _logger.LogInformation("New manager registered: {Email}", request.Email);
 
-        return Ok(new LoginResponse
-        {
-            AccessToken = accessToken,
-            RefreshToken = refreshToken,
-            ExpiresIn = expiresIn,
-            Roles = roles.ToList(),
-            FullName = user.FullName,
-            Email = user.Email ?? "",
-            UserId = user.Id,
-            Phone = user.Phone
-        });
+        // Managers set up two-factor before their first session
+        if (await IsTwoFactorRequiredAsync(user))
+            return Ok(TwoFactorChallenge(user, "Enroll"));
+
+        // Auto-login after registration
+        return Ok(await StartSessionAsync(user));
     }
 
     [HttpPost("register-tenant")]
@@ -122,7 +138,7 @@ public class AuthController : ControllerBase
             return BadRequest(new { message = "You must accept the terms of use." });
 
         // Validate building exists
-        var building = await _db.Buildings.Include(b => b.Units).FirstOrDefaultAsync(b => b.Id == request.BuildingId && !b.IsDeleted);
+        var building = await _db.Buildings.FirstOrDefaultAsync(b => b.Id == request.BuildingId && !b.IsDeleted);
         if (building == null)
             return BadRequest(new { message = "Building not found." });
 
@@ -137,7 +153,8 @@ public class AuthController : ControllerBase
         {
             UserName = request.Email,
             Email = request.Email,
-            EmailConfirmed = true,
+            // Confirmed from the link in the welcome email; the app reminds the tenant until then
+            EmailConfirmed = false,
             FullName = fullName,
             Phone = request.Phone
         };
@@ -152,83 +169,33 @@ public class AuthController : ControllerBase
         // Assign Tenant role
         await _userManager.AddToRoleAsync(user, AppRoles.Tenant);
 
-        // Find or create the unit in the building
-        var unit = building.Units.FirstOrDefault(u =>
-            !u.IsDeleted &&
-            u.UnitNumber == request.ApartmentNumber &&
-            u.Floor == request.Floor);
-
-        if (unit == null)
-        {
-            unit = new Unit
-            {
-                BuildingId = building.Id,
-                UnitNumber = request.ApartmentNumber,
-                Floor = request.Floor,
-                TenantUserId = user.Id,
-                CreatedBy = user.Id
-            };
-            _db.Units.Add(unit);
-            await _db.SaveChangesAsync();
-        }
-        else
-        {
-            // Link user to existing unit
-            unit.TenantUserId = user.Id;
-            await _db.SaveChangesAsync();
-        }
-
-        // End any existing active tenant for this unit
-        var existingTenants = await _db.Set<TenantProfile>()
-            .Where(tp => tp.UnitId == unit.Id && tp.IsActive)
-            .ToListAsync();
-        foreach (var et in existingTenants)
-        {
-            et.IsActive = false;
-            et.MoveOutDate = DateTime.UtcNow;
-        }
-
-        // Create TenantProfile
         var propertyRole = Enum.IsDefined(typeof(PropertyRole), request.PropertyRole)
             ? (PropertyRole)request.PropertyRole
             : PropertyRole.Renter;
 
-        var tenantProfile = new TenantProfile
+        // Anyone can type any apartment, so the tenant is linked to a unit only once a manager approves
+        _db.TenantRegistrations.Add(new TenantRegistration
         {
-            UnitId = unit.Id,
             UserId = user.Id,
-            FullName = fullName,
-            Phone = request.Phone,
-            Email = request.Email,
-            MoveInDate = DateTime.UtcNow,
-            IsActive = true,
+            BuildingId = building.Id,
+            ApartmentNumber = request.ApartmentNumber.Trim(),
+            Floor = request.Floor,
             PropertyRole = propertyRole,
             IsCommitteeMember = request.IsCommitteeMember,
             MarketingConsent = request.MarketingConsent,
             TermsAcceptedAtUtc = DateTime.UtcNow,
+            IpAddress = ClientIp(),
+            UserAgent = ClientUserAgent(),
             CreatedBy = user.Id
-        };
-        _db.Set<TenantProfile>().Add(tenantProfile);
+        });
         await _db.SaveChangesAsync();
 
-        // Auto-login
-        var (accessToken, refreshToken, expiresIn) = await _jwtTokenService.GenerateTokensAsync(user);
-        var roles = await _userManager.GetRolesAsync(user);
-        _refreshTokens[refreshToken] = user.Id;
+        _logger.LogInformation("New tenant registered: {Email} at building {BuildingId}, awaiting approval", request.Email, request.BuildingId);
 
-        _logger.LogInformation("New tenant registered: {Email} at building {BuildingId}", request.Email, request.BuildingId);
+        await SendVerificationEmailAsync(user);
 
-        return Ok(new LoginResponse
-        {
-            AccessToken = accessToken,
-            RefreshToken = refreshToken,
-            ExpiresIn = expiresIn,
-            Roles = roles.ToList(),
-            FullName = user.FullName,
-            Email = user.Email ?? "",
-            UserId = user.Id,
-            Phone = user.Phone
-        });
+        // Auto-login
+        return Ok(await StartSessionAsync(user));
     }
 
     /// <summary>Search buildings by address for tenant registration autocomplete (public, no auth).</summary>
@@ -258,44 +225,279 @@ public class AuthController : ControllerBase
         return Ok(results);
     }
 
+    // ─── Invitations ─────────────────────────────────────
+
+    /// <summary>The tenant and unit behind an invitation link, for the sign-up page it opens.</summary>
+    [HttpGet("invitations/{token}")]
+    public async Task<ActionResult<InvitationDetailsResponse>> GetInvitation(string token)
+    {
+        var invitation = await _onboardingService.FindInvitationAsync(token);
+        if (invitation == null)
+            return NotFound(new { message = "This invitation is invalid, already used or expired. Ask the building management for a new one." });
+
+        var tenant = invitation.TenantProfile;
+        return Ok(new InvitationDetailsResponse
+        {
+            FullName = tenant.FullName,
+            Email = tenant.Email,
+            Phone = tenant.Phone,
+            BuildingName = tenant.Unit.Building.Name,
+            AddressLine = tenant.Unit.Building.AddressLine,
+            UnitNumber = tenant.Unit.UnitNumber,
+            Floor = tenant.Unit.Floor,
+            Language = invitation.Language,
+            ExpiresAtUtc = invitation.ExpiresAtUtc
+        });
+    }
+
+    /// <summary>
+    /// Creates the tenant's account and links it to the invited tenant profile and its unit; no approval is needed
+    /// because the manager chose the unit. An address the invitation was emailed to counts as confirmed.
+    /// </summary>
+    [HttpPost("invitations/{token}/accept")]
+    public async Task<ActionResult<LoginResponse>> AcceptInvitation(string token, [FromBody] AcceptInvitationRequest request)
+    {
+        if (!request.TermsAccepted)
+            return BadRequest(new { message = "You must accept the terms of use." });
+
+        var invitation = await _onboardingService.FindInvitationAsync(token);
+        if (invitation == null)
+            return BadRequest(new { message = "This invitation is invalid, already used or expired. Ask the building management for a new one." });
+
+        var email = request.Email.Trim();
+        if (await _userManager.FindByEmailAsync(email) != null)
+            return BadRequest(new { message = "Email is already registered." });
+
+        var user = new ApplicationUser
+        {
+            UserName = email,
+            Email = email,
+            EmailConfirmed = invitation.Channel == ReminderChannel.Email
+                && string.Equals(invitation.SentTo, email, StringComparison.OrdinalIgnoreCase),
+            FullName = request.FullName.Trim(),
+            Phone = string.IsNullOrWhiteSpace(request.Phone) ? invitation.TenantProfile.Phone : request.Phone.Trim(),
+            PreferredLanguage = invitation.Language
+        };
+
+        var createResult = await _userManager.CreateAsync(user, request.Password);
+        if (!createResult.Succeeded)
+            return BadRequest(new { message = IdentityErrorMessage(createResult, "Could not create the account.") });
+
+        await _userManager.AddToRoleAsync(user, AppRoles.Tenant);
+        await _onboardingService.AcceptInvitationAsync(invitation, user, request.MarketingConsent, ClientIp(), ClientUserAgent());
+        await SyncContactDetailsAsync(user);
+
+        _logger.LogInformation("Tenant {Email} joined by invitation for tenant profile {TenantProfileId}", email, invitation.TenantProfileId);
+
+        if (!user.EmailConfirmed)
+            await SendVerificationEmailAsync(user);
+
+        return Ok(await StartSessionAsync(user));
+    }
+
+    /// <summary>
+    /// Exchanges the refresh cookie for a new access token and rotates the cookie. The SPA calls this on startup
+    /// to restore the session after a reload, and shortly before the access token expires.
+    /// </summary>
     [HttpPost("refresh")]
-    public async Task<ActionResult<LoginResponse>> Refresh([FromBody] RefreshTokenRequest request)
+    public async Task<ActionResult<LoginResponse>> Refresh()
     {
-        if (!_refreshTokens.TryGetValue(request.RefreshToken, out var userId))
-            return Unauthorized(new { message = "Invalid refresh token." });
+        if (Request.Cookies[RefreshCookieName] is not { Length: > 0 } token)
+            return Unauthorized(new { message = "No active session." });
 
-        _refreshTokens.Remove(request.RefreshToken);
+        var rotated = await _refreshTokenService.RotateAsync(token, ClientIp(), ClientUserAgent());
+        if (rotated == null)
+        {
+            DeleteRefreshCookie();
+            return Unauthorized(new { message = "Invalid refresh token." });
+        }
 
-        var user = await _userManager.FindByIdAsync(userId);
+        var user = await _userManager.FindByIdAsync(rotated.Value.UserId);
         if (user == null)
+        {
+            DeleteRefreshCookie();
             return Unauthorized(new { message = "User not found." });
+        }
 
-        var (accessToken, refreshToken, expiresIn) = await _jwtTokenService.GenerateTokensAsync(user);
-        var roles = await _userManager.GetRolesAsync(user);
+        // Sessions from before two-factor became required for the role end here
+        if (!user.TwoFactorEnabled && await IsTwoFactorRequiredAsync(user))
+        {
+            await _refreshTokenService.RevokeAllAsync(user.Id);
+            DeleteRefreshCookie();
+            return Unauthorized(new { message = "Two-factor authentication must be set up. Please sign in again." });
+        }
 
-        _refreshTokens[refreshToken] = user.Id;
+        SetRefreshCookie(rotated.Value.Token, rotated.Value.ExpiresAtUtc);
+        return Ok(await BuildLoginResponseAsync(user));
+    }
 
-        return Ok(new LoginResponse
+    /// <summary>Anonymous so that a session whose access token already expired can still be ended.</summary>
+    [HttpPost("logout")]
+    [AllowAnonymous]
+    public async Task<IActionResult> Logout()
+    {
+        if (Request.Cookies[RefreshCookieName] is { Length: > 0 } token)
+            await _refreshTokenService.RevokeAsync(token);
+        DeleteRefreshCookie();
+
+        return Ok(new { message = "Logged out." });
+    }
+
+    // ─── Two-factor authentication ───────────────────────
+
+    /// <summary>Second sign-in step: an authenticator or recovery code for the challenge returned by login.</summary>
+    [HttpPost("2fa/verify")]
+    public async Task<ActionResult<LoginResponse>> VerifyTwoFactor([FromBody] TwoFactorVerifyRequest request)
+    {
+        var userId = _jwtTokenService.ValidateTwoFactorChallenge(request.ChallengeToken);
+        var user = userId == null ? null : await _userManager.FindByIdAsync(userId);
+        if (user == null || !user.TwoFactorEnabled)
+            return Unauthorized(new { message = "The sign-in has expired. Please sign in again." });
+
+        if (await _userManager.IsLockedOutAsync(user))
+            return Unauthorized(new { message = "Too many failed attempts. Try again in a few minutes." });
+
+        var code = request.Code.Replace(" ", string.Empty);
+        var valid = IsAuthenticatorCode(code)
+            ? await _userManager.VerifyTwoFactorTokenAsync(user, _userManager.Options.Tokens.AuthenticatorTokenProvider, code)
+            : (await _userManager.RedeemTwoFactorRecoveryCodeAsync(user, code)).Succeeded;
+        if (!valid)
         {
-            AccessToken = accessToken,
-            RefreshToken = refreshToken,
-            ExpiresIn = expiresIn,
-            Roles = roles.ToList(),
-            FullName = user.FullName,
-            Email = user.Email ?? "",
-            UserId = user.Id,
-            Phone = user.Phone
+            await _userManager.AccessFailedAsync(user);
+            return Unauthorized(new { message = "Invalid verification code." });
+        }
+        await _userManager.ResetAccessFailedCountAsync(user);
+
+        if (request.RememberDevice)
+        {
+            var (deviceToken, expiresAtUtc) = await _trustedDeviceService.TrustAsync(user.Id, ClientIp(), ClientUserAgent());
+            Response.Cookies.Append(TrustedDeviceCookieName, deviceToken, SessionCookieOptions(expiresAtUtc));
+        }
+
+        _logger.LogInformation("User {Email} logged in with two-factor", user.Email);
+
+        return Ok(await StartSessionAsync(user));
+    }
+
+    [HttpGet("2fa")]
+    [Authorize]
+    public async Task<ActionResult<TwoFactorStatusResponse>> GetTwoFactorStatus()
+    {
+        var user = await _userManager.GetUserAsync(User);
+        if (user == null) return Unauthorized();
+
+        return Ok(new TwoFactorStatusResponse
+        {
+            Enabled = user.TwoFactorEnabled,
+            Required = await IsTwoFactorRequiredAsync(user),
+            RecoveryCodesLeft = user.TwoFactorEnabled ? await _userManager.CountRecoveryCodesAsync(user) : 0,
+            TrustedDevices = await _trustedDeviceService.CountAsync(user.Id)
         });
     }
 
-    [HttpPost("logout")]
+    /// <summary>A new authenticator key for the QR code. Anonymous for enrollment enforced at sign-in.</summary>
+    [HttpPost("2fa/setup")]
+    public async Task<ActionResult<TwoFactorSetupResponse>> SetupTwoFactor([FromBody] TwoFactorSetupRequest request)
+    {
+        var user = await TwoFactorUserAsync(request.ChallengeToken);
+        if (user == null)
+            return Unauthorized(new { message = "The sign-in has expired. Please sign in again." });
+        if (user.TwoFactorEnabled)
+            return BadRequest(new { message = "Two-factor authentication is already enabled." });
+
+        // A fresh key every time, so an abandoned enrollment leaves nothing usable behind
+        await _userManager.ResetAuthenticatorKeyAsync(user);
+        var key = await _userManager.GetAuthenticatorKeyAsync(user) ?? string.Empty;
+
+        var issuer = _configuration["TwoFactor:Issuer"] ?? "HomeHero";
+        return Ok(new TwoFactorSetupResponse
+        {
+            SharedKey = string.Join(' ', key.ToLowerInvariant().Chunk(4).Select(c => new string(c))),
+            AuthenticatorUri = $"otpauth://totp/{Uri.EscapeDataString(issuer)}:{Uri.EscapeDataString(user.Email ?? user.Id)}" +
+                $"?secret={key}&issuer={Uri.EscapeDataString(issuer)}&digits=6"
+        });
+    }
+
+    /// <summary>
+    /// Turns two-factor on once the first code from the authenticator app checks out, and returns the recovery
+    /// codes. When enrollment was enforced at sign-in, the sign-in completes here.
+    /// </summary>
+    [HttpPost("2fa/enable")]
+    public async Task<ActionResult<TwoFactorEnableResponse>> EnableTwoFactor([FromBody] TwoFactorEnableRequest request)
+    {
+        var user = await TwoFactorUserAsync(request.ChallengeToken);
+        if (user == null)
+            return Unauthorized(new { message = "The sign-in has expired. Please sign in again." });
+        if (user.TwoFactorEnabled)
+            return BadRequest(new { message = "Two-factor authentication is already enabled." });
+
+        var code = request.Code.Replace(" ", string.Empty);
+        if (!await _userManager.VerifyTwoFactorTokenAsync(user, _userManager.Options.Tokens.AuthenticatorTokenProvider, code))
+            return BadRequest(new { message = "Invalid verification code." });
+
+        await _userManager.SetTwoFactorEnabledAsync(user, true);
+        var recoveryCodes = await _userManager.GenerateNewTwoFactorRecoveryCodesAsync(user, RecoveryCodeCount);
+        await AuditAccountAsync(user, "EnableTwoFactor", "Authenticator app enrolled");
+
+        return Ok(new TwoFactorEnableResponse
+        {
+            RecoveryCodes = recoveryCodes?.ToList() ?? [],
+            Session = string.IsNullOrEmpty(request.ChallengeToken) ? null : await StartSessionAsync(user)
+        });
+    }
+
+    /// <summary>Replaces the recovery codes; the old ones stop working.</summary>
+    [HttpPost("2fa/recovery-codes")]
     [Authorize]
-    public IActionResult Logout([FromBody] LogoutRequest? request)
+    public async Task<ActionResult<List<string>>> RegenerateRecoveryCodes([FromBody] TwoFactorCodeRequest request)
     {
-        if (request?.RefreshToken != null)
-            _refreshTokens.Remove(request.RefreshToken);
+        var user = await _userManager.GetUserAsync(User);
+        if (user == null) return Unauthorized();
+        if (!user.TwoFactorEnabled)
+            return BadRequest(new { message = "Two-factor authentication is not enabled." });
+        if (!await _userManager.VerifyTwoFactorTokenAsync(user, _userManager.Options.Tokens.AuthenticatorTokenProvider, request.Code.Replace(" ", string.Empty)))
+            return BadRequest(new { message = "Invalid verification code." });
 
-        return Ok(new { message = "Logged out." });
+        var recoveryCodes = await _userManager.GenerateNewTwoFactorRecoveryCodesAsync(user, RecoveryCodeCount);
+        await AuditAccountAsync(user, "RegenerateRecoveryCodes", $"{RecoveryCodeCount} new recovery codes");
+
+        return Ok(recoveryCodes?.ToList() ?? new List<string>());
+    }
+
+    [HttpPost("2fa/disable")]
+    [Authorize]
+    public async Task<IActionResult> DisableTwoFactor([FromBody] TwoFactorCodeRequest request)
+    {
+        var user = await _userManager.GetUserAsync(User);
+        if (user == null) return Unauthorized();
+        if (await IsTwoFactorRequiredAsync(user))
+            return BadRequest(new { message = "Two-factor authentication is required for your role." });
+        if (!user.TwoFactorEnabled)
+            return BadRequest(new { message = "Two-factor authentication is not enabled." });
+        if (!await _userManager.VerifyTwoFactorTokenAsync(user, _userManager.Options.Tokens.AuthenticatorTokenProvider, request.Code.Replace(" ", string.Empty)))
+            return BadRequest(new { message = "Invalid verification code." });
+
+        await _userManager.SetTwoFactorEnabledAsync(user, false);
+        await _userManager.ResetAuthenticatorKeyAsync(user);
+        await _trustedDeviceService.ForgetAllAsync(user.Id);
+        Response.Cookies.Delete(TrustedDeviceCookieName, new CookieOptions { Path = RefreshCookiePath });
+        await AuditAccountAsync(user, "DisableTwoFactor", "Authenticator app removed");
+
+        return Ok(new { message = "Two-factor authentication disabled." });
+    }
+
+    /// <summary>Every remembered browser, this one included, asks for a code at the next sign-in.</summary>
+    [HttpDelete("2fa/trusted-devices")]
+    [Authorize]
+    public async Task<IActionResult> ForgetTrustedDevices()
+    {
+        var user = await _userManager.GetUserAsync(User);
+        if (user == null) return Unauthorized();
+
+        await _trustedDeviceService.ForgetAllAsync(user.Id);
+        Response.Cookies.Delete(TrustedDeviceCookieName, new CookieOptions { Path = RefreshCookiePath });
+
+        return Ok(new { message = "Trusted devices forgotten." });
     }
 
     [HttpGet("me")]
@@ -309,6 +511,7 @@ public class AuthController : ControllerBase
         if (user == null) return NotFound();
 
         var roles = await _userManager.GetRolesAsync(user);
+        var registrationStatus = await RegistrationStatusAsync(user, roles);
 
         return Ok(new
         {
@@ -318,6 +521,9 @@ public class AuthController : ControllerBase
             user.Phone,
             user.VendorId,
             user.PreferredLanguage,
+            user.EmailConfirmed,
+            RegistrationStatus = registrationStatus,
+            Permissions = await PermissionsAsync(user.Id),
             Roles = roles.ToList()
         });
     }
@@ -340,6 +546,375 @@ public class AuthController : ControllerBase
 
         return Ok(new { language = user.PreferredLanguage });
     }
+
+    // ─── Account self-service ────────────────────────────
+
+    /// <summary>
+    /// Emails a password reset link. Answers the same whether or not the address has an account, so it can't be
+    /// used to find out who is registered.
+    /// </summary>
+    [HttpPost("forgot-password")]
+    public async Task<IActionResult> ForgotPassword([FromBody] ForgotPasswordRequest request)
+    {
+        var user = await _userManager.FindByEmailAsync(request.Email);
+        if (user?.Email != null)
+        {
+            var token = await _userManager.GeneratePasswordResetTokenAsync(user);
+            var url = _configuration.FrontendUrl("reset-password", ("email", user.Email), ("token", EncodeToken(token)));
+            var email = AccountEmailTexts.PasswordReset(user.PreferredLanguage, user.FullName, url);
+            await SendAccountEmailAsync(user.Email, email);
+            _logger.LogInformation("Password reset requested for {Email}", user.Email);
+        }
+
+        return Ok(new { message = "If the address has an account, a reset link is on its way." });
+    }
+
+    /// <summary>Sets a new password from the emailed link and signs out every existing session.</summary>
+    [HttpPost("reset-password")]
+    public async Task<IActionResult> ResetPassword([FromBody] ResetPasswordRequest request)
+    {
+        var user = await _userManager.FindByEmailAsync(request.Email);
+        var token = DecodeToken(request.Token);
+        if (user == null || token == null)
+            return BadRequest(new { message = "The reset link is invalid or has expired." });
+
+        var result = await _userManager.ResetPasswordAsync(user, token, request.NewPassword);
+        if (!result.Succeeded)
+            return BadRequest(new { message = IdentityErrorMessage(result, "The reset link is invalid or has expired.") });
+
+        // The link reached the inbox, which proves the address as well
+        if (!user.EmailConfirmed)
+        {
+            user.EmailConfirmed = true;
+            await _userManager.UpdateAsync(user);
+        }
+        await _userManager.ResetAccessFailedCountAsync(user);
+        await _userManager.SetLockoutEndDateAsync(user, null);
+        await _refreshTokenService.RevokeAllAsync(user.Id);
+        await AuditAccountAsync(user, "ResetPassword", "Password reset from emailed link");
+
+        return Ok(new { message = "Password reset. You can sign in with the new password." });
+    }
+
+    /// <summary>Confirms the account's address, or with NewEmail, moves the account to the address the link was sent to.</summary>
+    [HttpPost("confirm-email")]
+    public async Task<IActionResult> ConfirmEmail([FromBody] ConfirmEmailRequest request)
+    {
+        var user = await _userManager.FindByIdAsync(request.UserId);
+        var token = DecodeToken(request.Token);
+        if (user == null || token == null)
+            return BadRequest(new { message = "The confirmation link is invalid or has expired." });
+
+        if (string.IsNullOrEmpty(request.NewEmail))
+        {
+            if (user.EmailConfirmed)
+                return Ok(new { message = "Email address confirmed.", email = user.Email });
+
+            var confirmed = await _userManager.ConfirmEmailAsync(user, token);
+            if (!confirmed.Succeeded)
+                return BadRequest(new { message = "The confirmation link is invalid or has expired." });
+
+            return Ok(new { message = "Email address confirmed.", email = user.Email });
+        }
+
+        var taken = await _userManager.FindByEmailAsync(request.NewEmail);
+        if (taken != null && taken.Id != user.Id)
+            return BadRequest(new { message = "Email is already registered." });
+
+        var previousEmail = user.Email;
+        var changed = await _userManager.ChangeEmailAsync(user, request.NewEmail, token);
+        if (!changed.Succeeded)
+            return BadRequest(new { message = "The confirmation link is invalid or has expired." });
+
+        // Accounts sign in with their address, so the user name follows it
+        await _userManager.SetUserNameAsync(user, request.NewEmail);
+        await SyncContactDetailsAsync(user);
+        await AuditAccountAsync(user, "ChangeEmail", $"{previousEmail} → {request.NewEmail}");
+
+        return Ok(new { message = "Email address changed.", email = user.Email });
+    }
+
+    [HttpPost("me/resend-verification")]
+    [Authorize]
+    public async Task<IActionResult> ResendVerification()
+    {
+        var user = await _userManager.GetUserAsync(User);
+        if (user == null) return Unauthorized();
+        if (user.EmailConfirmed)
+            return BadRequest(new { message = "Email address is already confirmed." });
+
+        await SendVerificationEmailAsync(user);
+        return Ok(new { message = "Verification email sent." });
+    }
+
+    /// <summary>
+    /// Name and phone change right away, on the account and on the tenant and owner records that copy them. A new
+    /// email address only gets a confirmation link; the account keeps the old address until it is opened.
+    /// </summary>
+    [HttpPut("me")]
+    [Authorize]
+    public async Task<ActionResult<UpdateProfileResponse>> UpdateProfile([FromBody] UpdateProfileRequest request)
+    {
+        var user = await _userManager.GetUserAsync(User);
+        if (user == null) return Unauthorized();
+
+        var newEmail = request.Email.Trim();
+        var emailChanged = !string.Equals(newEmail, user.Email, StringComparison.OrdinalIgnoreCase);
+        if (emailChanged)
+        {
+            var taken = await _userManager.FindByEmailAsync(newEmail);
+            if (taken != null && taken.Id != user.Id)
+                return BadRequest(new { message = "Email is already registered." });
+        }
+
+        user.FullName = request.FullName.Trim();
+        user.Phone = string.IsNullOrWhiteSpace(request.Phone) ? null : request.Phone.Trim();
+        var updated = await _userManager.UpdateAsync(user);
+        if (!updated.Succeeded)
+            return BadRequest(new { message = IdentityErrorMessage(updated, "Could not update the profile.") });
+        await SyncContactDetailsAsync(user);
+
+        if (emailChanged)
+        {
+            var token = await _userManager.GenerateChangeEmailTokenAsync(user, newEmail);
+            var url = _configuration.FrontendUrl("confirm-email", ("userId", user.Id), ("token", EncodeToken(token)), ("email", newEmail));
+            await SendAccountEmailAsync(newEmail, AccountEmailTexts.ChangeEmail(user.PreferredLanguage, user.FullName, url));
+        }
+
+        return Ok(new UpdateProfileResponse
+        {
+            FullName = user.FullName,
+            Phone = user.Phone,
+            Email = user.Email ?? "",
+            PendingEmail = emailChanged ? newEmail : null
+        });
+    }
+
+    /// <summary>Changes the password and signs out every other session; this browser gets a new one.</summary>
+    [HttpPost("me/password")]
+    [Authorize]
+    public async Task<ActionResult<LoginResponse>> ChangePassword([FromBody] ChangePasswordRequest request)
+    {
+        var user = await _userManager.GetUserAsync(User);
+        if (user == null) return Unauthorized();
+
+        var result = await _userManager.ChangePasswordAsync(user, request.CurrentPassword, request.NewPassword);
+        if (!result.Succeeded)
+        {
+            var message = result.Errors.Any(e => e.Code == nameof(IdentityErrorDescriber.PasswordMismatch))
+                ? "The current password is incorrect."
+                : IdentityErrorMessage(result, "Could not change the password.");
+            return BadRequest(new { message });
+        }
+
+        await _refreshTokenService.RevokeAllAsync(user.Id);
+        await AuditAccountAsync(user, "ChangePassword", "Password changed");
+
+        return Ok(await StartSessionAsync(user));
+    }
+
+    /// <summary>
+    /// Account emails the local stand-in sender accepted, newest first, so reset and confirmation links can be
+    /// followed without a mail provider. Development only.
+    /// </summary>
+    [HttpGet("dev/outbox")]
+    [AllowAnonymous]
+    public ActionResult<List<StandInMessageDto>> GetDevOutbox([FromQuery] string? email, [FromQuery] int count = 20)
+    {
+        if (!_environment.IsDevelopment() || _emailSender is not FakeEmailSender)
+            return NotFound();
+
+        count = Math.Clamp(count, 1, 200);
+        var messages = FakeEmailSender.GetRecentMessages(200)
+            .Where(m => string.IsNullOrWhiteSpace(email) || string.Equals(m.To, email.Trim(), StringComparison.OrdinalIgnoreCase))
+            .Take(count)
+            .Select(m => new StandInMessageDto
+            {
+                Channel = ReminderChannel.Email, To = m.To, Subject = m.Subject, Body = m.Body, MessageId = m.MessageId, SentAtUtc = m.SentAt
+            })
+            .ToList();
+
+        return Ok(messages);
+    }
+
+    // ─── Session cookie ──────────────────────────────────
+
+    private async Task<LoginResponse> StartSessionAsync(ApplicationUser user)
+    {
+        var (token, expiresAtUtc) = await _refreshTokenService.IssueAsync(user.Id, ClientIp(), ClientUserAgent());
+        SetRefreshCookie(token, expiresAtUtc);
+        return await BuildLoginResponseAsync(user);
+    }
+
+    private async Task<LoginResponse> BuildLoginResponseAsync(ApplicationUser user)
+    {
+        var (accessToken, expiresIn) = await _jwtTokenService.GenerateAccessTokenAsync(user);
+        var roles = await _userManager.GetRolesAsync(user);
+
+        return new LoginResponse
+        {
+            AccessToken = accessToken,
+            ExpiresIn = expiresIn,
+            Roles = roles.ToList(),
+            FullName = user.FullName,
+            Email = user.Email ?? "",
+            UserId = user.Id,
+            Phone = user.Phone,
+            EmailConfirmed = user.EmailConfirmed,
+            RegistrationStatus = await RegistrationStatusAsync(user, roles),
+            Permissions = await PermissionsAsync(user.Id)
+        };
+    }
+
+    private async Task<List<PermissionGrantDto>> PermissionsAsync(string userId)
+    {
+        var grants = await _permissions.GetEffectiveAsync(userId);
+        var buildingIds = grants.Where(g => g.BuildingId != null).Select(g => g.BuildingId!.Value).Distinct().ToList();
+        var names = await _db.Buildings.Where(b => buildingIds.Contains(b.Id)).ToDictionaryAsync(b => b.Id, b => b.Name);
+        return grants.Select(g => new PermissionGrantDto
+        {
+            Resource = g.Resource,
+            Action = g.Action,
+            BuildingId = g.BuildingId,
+            BuildingName = g.BuildingId is int id ? names.GetValueOrDefault(id) : null
+        }).ToList();
+    }
+
+    /// <summary>Self-registered tenants wait for a manager to link them to their unit.</summary>
+    private async Task<TenantRegistrationStatus?> RegistrationStatusAsync(ApplicationUser user, IList<string> roles)
+    {
+        if (!roles.Contains(AppRoles.Tenant)) return null;
+        return await _db.TenantRegistrations
+            .Where(r => r.UserId == user.Id)
+            .OrderByDescending(r => r.CreatedAtUtc)
+            .Select(r => (TenantRegistrationStatus?)r.Status)
+            .FirstOrDefaultAsync();
+    }
+
+    private void SetRefreshCookie(string token, DateTime expiresAtUtc)
+        => Response.Cookies.Append(RefreshCookieName, token, SessionCookieOptions(expiresAtUtc));
+
+    /// <summary>
+    /// Secure everywhere but in development: behind a TLS-terminating proxy the request itself looks like plain
+    /// HTTP, so it can't decide.
+    /// </summary>
+    private CookieOptions SessionCookieOptions(DateTime expiresAtUtc) => new()
+    {
+        HttpOnly = true,
+        Secure = !_environment.IsDevelopment(),
+        SameSite = SameSiteMode.Strict,
+        Path = RefreshCookiePath,
+        Expires = expiresAtUtc
+    };
+
+    private void DeleteRefreshCookie()
+        => Response.Cookies.Delete(RefreshCookieName, new CookieOptions { Path = RefreshCookiePath });
+
+    // ─── Two-factor helpers ──────────────────────────────
+
+    /// <summary>Admins, managers and bookkeepers can move money, so they can't sign in without a second factor.</summary>
+    private async Task<bool> IsTwoFactorRequiredAsync(ApplicationUser user)
+    {
+        if (!_configuration.GetValue("TwoFactor:RequiredForStaff", true)) return false;
+        var roles = await _userManager.GetRolesAsync(user);
+        return roles.Any(r => AppRoles.Staff.Contains(r));
+    }
+
+    private LoginResponse TwoFactorChallenge(ApplicationUser user, string step) => new()
+    {
+        TwoFactorStep = step,
+        ChallengeToken = _jwtTokenService.GenerateTwoFactorChallenge(user),
+        FullName = user.FullName,
+        Email = user.Email ?? "",
+        UserId = user.Id
+    };
+
+    /// <summary>The user behind a sign-in challenge, or the signed-in user when there is none.</summary>
+    private async Task<ApplicationUser?> TwoFactorUserAsync(string? challengeToken)
+    {
+        if (string.IsNullOrEmpty(challengeToken))
+            return User.Identity?.IsAuthenticated == true ? await _userManager.GetUserAsync(User) : null;
+
+        var userId = _jwtTokenService.ValidateTwoFactorChallenge(challengeToken);
+        return userId == null ? null : await _userManager.FindByIdAsync(userId);
+    }
+
+    private static bool IsAuthenticatorCode(string code) => code.Length == 6 && code.All(char.IsAsciiDigit);
+
+    private async Task AuditAccountAsync(ApplicationUser user, string action, string details)
+    {
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = action,
+            EntityName = "ApplicationUser",
+            EntityId = user.Id,
+            PerformedBy = user.Id,
+            Details = details
+        });
+        await _db.SaveChangesAsync();
+    }
+
+    // ─── Account email helpers ───────────────────────────
+
+    private async Task SendVerificationEmailAsync(ApplicationUser user)
+    {
+        if (user.Email == null) return;
+        var token = await _userManager.GenerateEmailConfirmationTokenAsync(user);
+        var url = _configuration.FrontendUrl("confirm-email", ("userId", user.Id), ("token", EncodeToken(token)));
+        await SendAccountEmailAsync(user.Email, AccountEmailTexts.VerifyEmail(user.PreferredLanguage, user.FullName, url));
+    }
+
+    private async Task SendAccountEmailAsync(string toEmail, AccountEmail email)
+    {
+        var result = await _emailSender.SendAsync(toEmail, email.Subject, email.HtmlBody, HttpContext.RequestAborted);
+        if (!result.Success)
+            _logger.LogWarning("Account email \"{Subject}\" to {Email} failed: {Error}", email.Subject, toEmail, result.Error);
+    }
+
+    /// <summary>Identity tokens contain '+' and '/', which don't survive a link intact.</summary>
+    private static string EncodeToken(string token) => WebEncoders.Base64UrlEncode(Encoding.UTF8.GetBytes(token));
+
+    private static string? DecodeToken(string token)
+    {
+        try
+        {
+            return Encoding.UTF8.GetString(WebEncoders.Base64UrlDecode(token));
+        }
+        catch (FormatException)
+        {
+            return null;
+        }
+    }
+
+    private static string IdentityErrorMessage(IdentityResult result, string fallback)
+        => result.Errors.Any() ? string.Join("; ", result.Errors.Select(e => e.Description)) : fallback;
+
+    /// <summary>Tenant and owner records keep their own copy of the contact details shown to managers.</summary>
+    private async Task SyncContactDetailsAsync(ApplicationUser user)
+    {
+        var profiles = await _db.TenantProfiles.Where(tp => tp.UserId == user.Id && tp.IsActive).ToListAsync();
+        foreach (var profile in profiles)
+        {
+            profile.FullName = user.FullName;
+            profile.Phone = user.Phone;
+            profile.Email = user.Email;
+        }
+
+        var ownedUnits = await _db.Units.Where(u => u.OwnerUserId == user.Id && !u.IsDeleted).ToListAsync();
+        foreach (var unit in ownedUnits)
+        {
+            unit.OwnerName = user.FullName;
+            unit.OwnerPhone = user.Phone;
+            unit.OwnerEmail = user.Email;
+        }
+
+        await _db.SaveChangesAsync();
+    }
+
+    private string? ClientIp() => HttpContext.Connection.RemoteIpAddress?.ToString();
+
+    private string? ClientUserAgent()
+        => Request.Headers.UserAgent.FirstOrDefault() is { } ua ? ua[..Math.Min(ua.Length, 300)] : null;
 }
 
 public record SetLanguageRequest(string Language);
@@ -0,0 +1,488 @@
+using BuildingManagement.Api.Authorization;
+using BuildingManagement.Core.DTOs;
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Core.Entities.Finance;
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
+using BuildingManagement.Infrastructure.Services.Banking;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using System.Security.Claims;
+
+namespace BuildingManagement.Api.Controllers;
+
+/// <summary>
+/// Bank statement import and reconciliation: incoming transfers are matched against open
+/// unit charges, confirmed matches become BankTransfer manual payments, and everything else
+/// stays in the reconciliation queue.
+/// </summary>
+[ApiController]
+[Route("api/bank-reconciliation")]
+[Authorize]
+[RequirePermission(PermissionResource.Finance)]
+public class BankReconciliationController : ControllerBase
+{
+    private static readonly UnitChargeStatus[] OpenStatuses =
+        [UnitChargeStatus.Pending, UnitChargeStatus.PartiallyPaid, UnitChargeStatus.Overdue];
+
+    private readonly AppDbContext _db;
+    private readonly ILogger<BankReconciliationController> _logger;
+    private readonly PermissionService _permissions;
+
+    public BankReconciliationController(AppDbContext db, ILogger<BankReconciliationController> logger, PermissionService permissions)
+    {
+        _db = db;
+        _logger = logger;
+        _permissions = permissions;
+    }
+
+    // ─── Imports ────────────────────────────────────────
+
+    [HttpPost("imports")]
+    [RequestSizeLimit(10_485_760)] // 10MB
+    public async Task<ActionResult<BankStatementImportDto>> Import(
+        [FromForm] int buildingId,
+        [FromForm] IFormFile file,
+        [FromForm] BankStatementFormat format = BankStatementFormat.Auto)
+    {
+        if (file == null || file.Length == 0)
+            return BadRequest(new { message = "Please select a statement file." });
+        if (!await CanAccessBuilding(buildingId)) return Forbid();
+
+        string content;
+        using (var ms = new MemoryStream())
+        {
+            await file.CopyToAsync(ms);
+            content = BankStatementParser.Decode(ms.ToArray());
+        }
+
+        if (format == BankStatementFormat.Auto)
+            format = BankStatementParser.DetectFormat(content);
+
+        List<ParsedBankLine> parsed;
+        try
+        {
+            parsed = BankStatementParser.Parse(content, format);
+        }
+        catch (FormatException ex)
+        {
+            return BadRequest(new { message = $"Could not read {file.FileName}: {ex.Message}" });
+        }
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var import = new BankStatementImport
+        {
+            BuildingId = buildingId,
+            FileName = Path.GetFileName(file.FileName),
+            Format = format,
+            ImportedByUserId = userId
+        };
+
+        var existing = (await _db.BankStatementLines
+            .Where(l => l.BuildingId == buildingId)
+            .Select(l => l.Fingerprint)
+            .ToListAsync()).ToHashSet();
+        var occurrences = new Dictionary<string, int>();
+        var candidates = await LoadCandidates(buildingId);
+
+        foreach (var p in parsed)
+        {
+            var baseKey = p.Fingerprint();
+            occurrences[baseKey] = occurrences.GetValueOrDefault(baseKey) + 1;
+            var fingerprint = p.Fingerprint(occurrences[baseKey]);
+            if (!existing.Add(fingerprint))
+            {
+                import.DuplicateCount++;
+                continue;
+            }
+
+            var line = new BankStatementLine
+            {
+                BuildingId = buildingId,
+                TransactionDate = p.Date,
+                Amount = p.Amount,
+                Reference = Truncate(p.Reference, 200),
+                PayerName = Truncate(p.PayerName, 200),
+                Description = Truncate(p.Description, 500),
+                Fingerprint = fingerprint
+            };
+            ApplySuggestion(line, candidates);
+            import.Lines.Add(line);
+            import.LineCount++;
+        }
+
+        _db.BankStatementImports.Add(import);
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = "BankStatementImport",
+            EntityName = "BankStatementImport",
+            PerformedBy = userId,
+            Details = $"Imported {file.FileName} ({format}) for building {buildingId}: {import.LineCount} lines, {import.DuplicateCount} duplicates skipped."
+        });
+        await _db.SaveChangesAsync();
+
+        _logger.LogInformation("Bank statement {File} imported for building {BuildingId}: {Lines} lines", file.FileName, buildingId, import.LineCount);
+
+        return Ok(await GetImportDto(import.Id));
+    }
+
+    [HttpGet("imports")]
+    public async Task<ActionResult<List<BankStatementImportDto>>> GetImports([FromQuery] int? buildingId)
+    {
+        var buildingIds = await AccessibleBuildingIds();
+        var query = _db.BankStatementImports.AsQueryable();
+        if (buildingIds != null) query = query.Where(i => buildingIds.Contains(i.BuildingId));
+        if (buildingId.HasValue) query = query.Where(i => i.BuildingId == buildingId);
+
+        var ids = await query.OrderByDescending(i => i.ImportedAtUtc).Select(i => i.Id).Take(100).ToListAsync();
+        var result = new List<BankStatementImportDto>();
+        foreach (var id in ids)
+            result.Add((await GetImportDto(id))!);
+        return Ok(result);
+    }
+
+    // ─── Reconciliation Queue ───────────────────────────
+
+    [HttpGet("lines")]
+    public async Task<ActionResult<List<BankStatementLineDto>>> GetLines(
+        [FromQuery] int? buildingId,
+        [FromQuery] BankStatementLineStatus? status,
+        [FromQuery] int? importId)
+    {
+        var buildingIds = await AccessibleBuildingIds();
+        IQueryable<BankStatementLine> query = _db.BankStatementLines
+            .Include(l => l.SuggestedUnitCharge).ThenInclude(uc => uc!.Unit).ThenInclude(u => u.TenantUser);
+
+        if (buildingIds != null) query = query.Where(l => buildingIds.Contains(l.BuildingId));
+        if (buildingId.HasValue) query = query.Where(l => l.BuildingId == buildingId);
+        if (importId.HasValue) query = query.Where(l => l.ImportId == importId);
+        if (status.HasValue) query = query.Where(l => l.Status == status);
+        else query = query.Where(l => l.Status == BankStatementLineStatus.Unmatched || l.Status == BankStatementLineStatus.Suggested);
+
+        var items = await query
+            .OrderByDescending(l => l.MatchScore)
+            .ThenBy(l => l.TransactionDate)
+            .ToListAsync();
+        return Ok(items.Select(MapLineDto).ToList());
+    }
+
+    [HttpGet("lines/{id}/candidates")]
+    public async Task<ActionResult<List<BankMatchCandidateDto>>> GetCandidates(int id)
+    {
+        var line = await _db.BankStatementLines.FindAsync(id);
+        if (line == null) return NotFound();
+        if (!await CanAccessBuilding(line.BuildingId)) return Forbid();
+
+        var charges = await LoadOpenCharges(line.BuildingId);
+        var candidates = await ToCandidates(charges);
+        var ranked = BankReconciliationMatcher.Rank(line.Amount, line.Reference, line.PayerName, line.Description, candidates)
+            .ToDictionary(m => m.UnitChargeId);
+
+        // Every open charge is listed so staff can match lines the matcher could not place
+        var result = charges
+            .Select(uc =>
+            {
+                ranked.TryGetValue(uc.Id, out var match);
+                return new BankMatchCandidateDto
+                {
+                    UnitChargeId = uc.Id,
+                    UnitId = uc.UnitId,
+                    UnitNumber = uc.Unit.UnitNumber,
+                    TenantName = uc.Unit.TenantUser?.FullName ?? uc.Unit.OwnerName,
+                    Period = uc.Period,
+                    Outstanding = uc.AmountDue - uc.Allocations.Sum(a => a.AllocatedAmount),
+                    DueDate = uc.DueDate,
+                    Score = match?.Score ?? 0,
+                    Reason = match?.Reason
+                };
+            })
+            .Where(c => c.Outstanding > 0)
+            .OrderByDescending(c => c.Score)
+            .ThenBy(c => c.DueDate)
+            .ToList();
+
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Confirm matches in bulk. Each confirmed line becomes a BankTransfer manual payment on the
+    /// chosen charge. Lines that fail (already resolved, amount over the balance) are reported
+    /// back and stay in the queue; the rest are still confirmed.
+    /// </summary>
+    [HttpPost("lines/confirm")]
+    public async Task<ActionResult<ConfirmBankMatchesResultDto>> ConfirmMatches([FromBody] ConfirmBankMatchesRequest request)
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var buildingIds = await AccessibleBuildingIds();
+        var errors = new List<BankMatchErrorDto>();
+        var confirmed = 0;
+
+        foreach (var match in request.Matches)
+        {
+            var line = await _db.BankStatementLines.FindAsync(match.LineId);
+            if (line == null || (buildingIds != null && !buildingIds.Contains(line.BuildingId)))
+            {
+                errors.Add(new BankMatchErrorDto { LineId = match.LineId, Message = "Line not found." });
+                continue;
+            }
+            if (line.Status is BankStatementLineStatus.Confirmed or BankStatementLineStatus.Ignored)
+            {
+                errors.Add(new BankMatchErrorDto { LineId = line.Id, Message = "Line was already resolved." });
+                continue;
+            }
+
+            var charge = await _db.UnitCharges
+                .Include(uc => uc.Unit)
+                .Include(uc => uc.Allocations)
+                .FirstOrDefaultAsync(uc => uc.Id == match.UnitChargeId);
+            if (charge == null || charge.Unit.BuildingId != line.BuildingId)
+            {
+                errors.Add(new BankMatchErrorDto { LineId = line.Id, Message = "Charge not found in this building." });
+                continue;
+            }
+
+            var currentPaid = charge.Allocations.Sum(a => a.AllocatedAmount);
+            var outstanding = charge.AmountDue - currentPaid;
+            if (line.Amount > outstanding)
+            {
+                errors.Add(new BankMatchErrorDto
+                {
+                    LineId = line.Id,
+                    Message = $"Amount ({line.Amount:F2}) exceeds outstanding balance ({outstanding:F2})."
+                });
+                continue;
+            }
+
+            // The payment needs its id for the ledger entry, so it is saved first; the transaction keeps it from
+            // standing without its allocation when the second save fails
+            await using var transaction = await _db.Database.BeginTransactionAsync();
+            var payment = new Payment
+            {
+                UnitId = charge.UnitId,
+                UserId = userId,
+                Amount = line.Amount,
+                PaymentDateUtc = line.TransactionDate,
+                Status = PaymentStatus.Succeeded,
+                IsManual = true,
+                ManualMethodType = PaymentMethodType.BankTransfer,
+                ProviderReference = line.Reference,
+                Notes = Truncate($"Bank statement: {line.PayerName} {line.Description}".Trim(), 1000),
+                EnteredByUserId = userId
+            };
+            _db.Payments.Add(payment);
+            await _db.SaveChangesAsync();
+
+            _db.PaymentAllocations.Add(new PaymentAllocation
+            {
+                PaymentId = payment.Id,
+                UnitChargeId = charge.Id,
+                AllocatedAmount = line.Amount
+            });
+
+            var newTotalPaid = currentPaid + line.Amount;
+            charge.Status = newTotalPaid >= charge.AmountDue
+                ? UnitChargeStatus.Paid
+                : UnitChargeStatus.PartiallyPaid;
+
+            _db.LedgerEntries.Add(new LedgerEntry
+            {
+                BuildingId = charge.Unit.BuildingId,
+                UnitId = charge.UnitId,
+                EntryType = LedgerEntryType.Payment,
+                Category = charge.LedgerCategory,
+                Description = $"Bank transfer: {line.Reference ?? ""}",
+                ReferenceId = payment.Id,
+                Debit = 0,
+                Credit = line.Amount,
+                BalanceAfter = 0,
+                CreatedAtUtc = DateTime.UtcNow
+            });
+
+            line.Status = BankStatementLineStatus.Confirmed;
+            line.SuggestedUnitChargeId = charge.Id;
+            line.PaymentId = payment.Id;
+            line.ResolvedByUserId = userId;
+            line.ResolvedAtUtc = DateTime.UtcNow;
+
+            _db.AuditLogs.Add(new AuditLog
+            {
+                Action = "BankReconciliationConfirm",
+                EntityName = "UnitCharge",
+                EntityId = charge.Id.ToString(),
+                PerformedBy = userId,
+                Details = $"Bank line {line.Id} ({line.TransactionDate:yyyy-MM-dd}, {line.Amount:F2}, ref {line.Reference}) matched. Old paid: {currentPaid:F2}, New paid: {newTotalPaid:F2}, Status: {charge.Status}"
+            });
+
+            await _db.SaveChangesAsync();
+            await transaction.CommitAsync();
+            confirmed++;
+        }
+
+        return Ok(new ConfirmBankMatchesResultDto { Confirmed = confirmed, Errors = errors });
+    }
+
+    [HttpPost("lines/{id}/ignore")]
+    public async Task<IActionResult> IgnoreLine(int id)
+    {
+        var line = await _db.BankStatementLines.FindAsync(id);
+        if (line == null) return NotFound();
+        if (!await CanAccessBuilding(line.BuildingId)) return Forbid();
+        if (line.Status == BankStatementLineStatus.Confirmed)
+            return BadRequest(new { message = "Confirmed lines cannot be ignored." });
+
+        line.Status = BankStatementLineStatus.Ignored;
+        line.ResolvedByUserId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        line.ResolvedAtUtc = DateTime.UtcNow;
+        await _db.SaveChangesAsync();
+        return NoContent();
+    }
+
+    /// <summary>Put an ignored line back into the queue.</summary>
+    [HttpPost("lines/{id}/reopen")]
+    public async Task<IActionResult> ReopenLine(int id)
+    {
+        var line = await _db.BankStatementLines.FindAsync(id);
+        if (line == null) return NotFound();
+        if (!await CanAccessBuilding(line.BuildingId)) return Forbid();
+        if (line.Status != BankStatementLineStatus.Ignored)
+            return BadRequest(new { message = "Only ignored lines can be reopened." });
+
+        line.ResolvedByUserId = null;
+        line.ResolvedAtUtc = null;
+        ApplySuggestion(line, await LoadCandidates(line.BuildingId));
+        await _db.SaveChangesAsync();
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Re-run matching for the queue of a building — e.g. after this month's charges were
+    /// generated, or a tenant's phone was added.
+    /// </summary>
+    [HttpPost("lines/rematch")]
+    public async Task<IActionResult> Rematch([FromQuery] int buildingId)
+    {
+        if (!await CanAccessBuilding(buildingId)) return Forbid();
+
+        var lines = await _db.BankStatementLines
+            .Where(l => l.BuildingId == buildingId &&
+                (l.Status == BankStatementLineStatus.Unmatched || l.Status == BankStatementLineStatus.Suggested))
+            .ToListAsync();
+        var candidates = await LoadCandidates(buildingId);
+        foreach (var line in lines)
+            ApplySuggestion(line, candidates);
+
+        await _db.SaveChangesAsync();
+        return Ok(new { updated = lines.Count, suggested = lines.Count(l => l.Status == BankStatementLineStatus.Suggested) });
+    }
+
+    // ─── Helpers ────────────────────────────────────────
+
+    private async Task<List<ChargeCandidate>> LoadCandidates(int buildingId) =>
+        await ToCandidates(await LoadOpenCharges(buildingId));
+
+    private Task<List<UnitCharge>> LoadOpenCharges(int buildingId) =>
+        _db.UnitCharges
+            .Include(uc => uc.Unit).ThenInclude(u => u.TenantUser)
+            .Include(uc => uc.Allocations)
+            .Where(uc => uc.Unit.BuildingId == buildingId && OpenStatuses.Contains(uc.Status))
+            .ToListAsync();
+
+    /// <summary>Pairs open charges with the names and phones of everyone who may pay them.</summary>
+    private async Task<List<ChargeCandidate>> ToCandidates(List<UnitCharge> charges)
+    {
+        var unitIds = charges.Select(uc => uc.UnitId).Distinct().ToList();
+        var profiles = await _db.TenantProfiles
+            .Where(tp => unitIds.Contains(tp.UnitId) && tp.IsActive)
+            .Select(tp => new { tp.UnitId, tp.FullName, tp.Phone })
+            .ToListAsync();
+
+        return charges.Select(uc =>
+        {
+            var unitProfiles = profiles.Where(p => p.UnitId == uc.UnitId).ToList();
+            var names = unitProfiles.Select(p => p.FullName)
+                .Append(uc.Unit.TenantUser?.FullName ?? "")
+                .Append(uc.Unit.OwnerName ?? "")
+                .ToList();
+            var phones = unitProfiles.Select(p => p.Phone ?? "")
+                .Append(uc.Unit.TenantUser?.Phone ?? "")
+                .ToList();
+            return new ChargeCandidate(
+                uc.Id, uc.Unit.UnitNumber, uc.Period,
+                uc.AmountDue - uc.Allocations.Sum(a => a.AllocatedAmount),
+                uc.DueDate, names, phones);
+        }).ToList();
+    }
+
+    private static void ApplySuggestion(BankStatementLine line, List<ChargeCandidate> candidates)
+    {
+        var ranked = BankReconciliationMatcher.Rank(line.Amount, line.Reference, line.PayerName, line.Description, candidates);
+        var suggestion = BankReconciliationMatcher.PickSuggestion(ranked);
+
+        line.Status = suggestion != null ? BankStatementLineStatus.Suggested : BankStatementLineStatus.Unmatched;
+        line.SuggestedUnitChargeId = suggestion?.UnitChargeId;
+        line.MatchScore = suggestion?.Score ?? 0;
+        line.MatchReason = suggestion?.Reason;
+    }
+
+    private Task<bool> CanAccessBuilding(int buildingId)
+        => _permissions.CanAccessBuildingAsync(this, PermissionResource.Finance, buildingId);
+
+    /// <summary>Buildings whose finances the current user may see; null when every building.</summary>
+    private Task<List<int>?> AccessibleBuildingIds()
+        => _permissions.VisibleBuildingIdsAsync(this, PermissionResource.Finance);
+
+    private async Task<BankStatementImportDto?> GetImportDto(int id)
+    {
+        var import = await _db.BankStatementImports
+            .Include(i => i.Building)
+            .Include(i => i.Lines)
+            .FirstOrDefaultAsync(i => i.Id == id);
+        if (import == null) return null;
+
+        var importedByName = import.ImportedByUserId == null ? null : await _db.Users
+            .Where(u => u.Id == import.ImportedByUserId)
+            .Select(u => u.FullName)
+            .FirstOrDefaultAsync();
+
+        return new BankStatementImportDto
+        {
+            Id = import.Id,
+            BuildingId = import.BuildingId,
+            BuildingName = import.Building?.Name,
+            FileName = import.FileName,
+            Format = import.Format,
+            ImportedByName = importedByName,
+            ImportedAtUtc = import.ImportedAtUtc,
+            LineCount = import.LineCount,
+            DuplicateCount = import.DuplicateCount,
+            SuggestedCount = import.Lines.Count(l => l.Status == BankStatementLineStatus.Suggested),
+            ConfirmedCount = import.Lines.Count(l => l.Status == BankStatementLineStatus.Confirmed)
+        };
+    }
+
+    private static BankStatementLineDto MapLineDto(BankStatementLine l) => new()
+    {
+        Id = l.Id,
+        ImportId = l.ImportId,
+        BuildingId = l.BuildingId,
+        TransactionDate = l.TransactionDate,
+        Amount = l.Amount,
+        Reference = l.Reference,
+        PayerName = l.PayerName,
+        Description = l.Description,
+        Status = l.Status,
+        SuggestedUnitChargeId = l.SuggestedUnitChargeId,
+        SuggestedUnitNumber = l.SuggestedUnitCharge?.Unit?.UnitNumber,
+        SuggestedPeriod = l.SuggestedUnitCharge?.Period,
+        SuggestedTenantName = l.SuggestedUnitCharge?.Unit?.TenantUser?.FullName ?? l.SuggestedUnitCharge?.Unit?.OwnerName,
+        MatchScore = l.MatchScore,
+        MatchReason = l.MatchReason,
+        PaymentId = l.PaymentId,
+        ResolvedAtUtc = l.ResolvedAtUtc
+    };
+
+    private static string? Truncate(string? value, int max) =>
+        value == null || value.Length <= max ? value : value[..max];
+}
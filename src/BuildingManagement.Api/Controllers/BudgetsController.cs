@@ -0,0 +1,239 @@
+using BuildingManagement.Api.Authorization;
+using BuildingManagement.Core.DTOs;
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Core.Entities.Finance;
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using System.Security.Claims;
+
+namespace BuildingManagement.Api.Controllers;
+
+/// <summary>
+/// Yearly building budgets, entered per category and month and approved by the committee.
+/// Budget-vs-actual lives in the reports controller; this one also suggests the HOA fee an approved budget implies.
+/// </summary>
+[ApiController]
+[Route("api/budgets")]
+[Authorize]
+[RequirePermission(PermissionResource.Finance)]
+public class BudgetsController : ControllerBase
+{
+    private readonly AppDbContext _db;
+    private readonly PermissionService _permissions;
+
+    public BudgetsController(AppDbContext db, PermissionService permissions)
+    {
+        _db = db;
+        _permissions = permissions;
+    }
+
+    [HttpGet]
+    public async Task<ActionResult<List<BuildingBudgetDto>>> GetAll([FromQuery] int buildingId)
+    {
+        if (!await CanAccessBuilding(buildingId)) return Forbid();
+
+        var budgets = await _db.BuildingBudgets
+            .Include(b => b.Building)
+            .Include(b => b.Lines)
+            .Where(b => b.BuildingId == buildingId)
+            .OrderByDescending(b => b.Year)
+            .ToListAsync();
+
+        return Ok(budgets.Select(MapDto).ToList());
+    }
+
+    [HttpGet("{buildingId}/{year}")]
+    public async Task<ActionResult<BuildingBudgetDto>> Get(int buildingId, int year)
+    {
+        if (!await CanAccessBuilding(buildingId)) return Forbid();
+
+        var budget = await LoadBudget(buildingId, year);
+        if (budget == null) return NotFound();
+        return Ok(MapDto(budget));
+    }
+
+    /// <summary>Create or replace the lines of a draft budget. Approved budgets must be reopened first.</summary>
+    [HttpPut("{buildingId}/{year}")]
+    public async Task<ActionResult<BuildingBudgetDto>> Save(int buildingId, int year, [FromBody] SaveBuildingBudgetRequest request)
+    {
+        if (!await CanAccessBuilding(buildingId)) return Forbid();
+        if (year < 2000 || year > 2100)
+            return BadRequest(new { message = "Invalid budget year." });
+        if (!await _db.Buildings.AnyAsync(b => b.Id == buildingId)) return NotFound();
+
+        foreach (var line in request.Lines)
+        {
+            if (line.Month < 1 || line.Month > 12)
+                return BadRequest(new { message = "Budget months must be between 1 and 12." });
+            if (line.Amount < 0)
+                return BadRequest(new { message = "Budget amounts cannot be negative." });
+            if (!BudgetCalculator.IsKnownCategory(line.LineType, line.Category))
+                return BadRequest(new { message = $"Unknown {line.LineType.ToString().ToLowerInvariant()} category '{line.Category}'." });
+        }
+        if (request.Lines.GroupBy(l => new { l.Category, l.Month }).Any(g => g.Count() > 1))
+            return BadRequest(new { message = "Each category can appear only once per month." });
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        var budget = await LoadBudget(buildingId, year);
+        if (budget == null)
+        {
+            budget = new BuildingBudget { BuildingId = buildingId, Year = year, CreatedBy = userId };
+            _db.BuildingBudgets.Add(budget);
+        }
+        else if (budget.Status == BudgetStatus.Approved)
+        {
+            return BadRequest(new { message = "This budget is approved. Reopen it before making changes." });
+        }
+        else
+        {
+            _db.BudgetLines.RemoveRange(budget.Lines);
+            budget.UpdatedBy = userId;
+        }
+
+        budget.Notes = request.Notes;
+        budget.Lines = request.Lines
+            .Where(l => l.Amount > 0)
+            .Select(l => new BudgetLine { LineType = l.LineType, Category = l.Category, Month = l.Month, Amount = l.Amount })
+            .ToList();
+
+        await _db.SaveChangesAsync();
+
+        budget = await LoadBudget(buildingId, year);
+        return Ok(MapDto(budget!));
+    }
+
+    [HttpPost("{buildingId}/{year}/approve")]
+    public async Task<IActionResult> Approve(int buildingId, int year)
+    {
+        if (!await CanAccessBuilding(buildingId)) return Forbid();
+
+        var budget = await LoadBudget(buildingId, year);
+        if (budget == null) return NotFound();
+        if (budget.Status == BudgetStatus.Approved)
+            return BadRequest(new { message = "This budget is already approved." });
+        if (!budget.Lines.Any(l => l.LineType == BudgetLineType.Expense))
+            return BadRequest(new { message = "Enter at least one expense line before approving." });
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        budget.Status = BudgetStatus.Approved;
+        budget.ApprovedAtUtc = DateTime.UtcNow;
+        budget.ApprovedBy = userId;
+        budget.UpdatedBy = userId;
+
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = "ApproveBudget",
+            EntityName = "BuildingBudget",
+            EntityId = budget.Id.ToString(),
+            PerformedBy = userId,
+            Details = $"Approved {year} budget for building {buildingId}: income {budget.Lines.Where(l => l.LineType == BudgetLineType.Income).Sum(l => l.Amount):F2}, expenses {budget.Lines.Where(l => l.LineType == BudgetLineType.Expense).Sum(l => l.Amount):F2}"
+        });
+
+        await _db.SaveChangesAsync();
+        return NoContent();
+    }
+
+    /// <summary>Return an approved budget to draft so it can be amended and approved again.</summary>
+    [HttpPost("{buildingId}/{year}/reopen")]
+    public async Task<IActionResult> Reopen(int buildingId, int year)
+    {
+        if (!await CanAccessBuilding(buildingId)) return Forbid();
+
+        var budget = await LoadBudget(buildingId, year);
+        if (budget == null) return NotFound();
+        if (budget.Status != BudgetStatus.Approved)
+            return BadRequest(new { message = "Only approved budgets can be reopened." });
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        budget.Status = BudgetStatus.Draft;
+        budget.ApprovedAtUtc = null;
+        budget.ApprovedBy = null;
+        budget.UpdatedBy = userId;
+
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = "ReopenBudget",
+            EntityName = "BuildingBudget",
+            EntityId = budget.Id.ToString(),
+            PerformedBy = userId,
+            Details = $"Reopened {year} budget for building {buildingId}"
+        });
+
+        await _db.SaveChangesAsync();
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Monthly HOA fee implied by the approved budget, per unit and per sqm,
+    /// in a shape that can be sent straight to a new HOA fee plan.
+    /// </summary>
+    [HttpGet("{buildingId}/{year}/suggested-fee")]
+    public async Task<ActionResult<SuggestedHOAFeeDto>> SuggestedFee(int buildingId, int year)
+    {
+        if (!await CanAccessBuilding(buildingId)) return Forbid();
+
+        var budget = await LoadBudget(buildingId, year);
+        if (budget == null) return NotFound();
+        if (budget.Status != BudgetStatus.Approved)
+            return BadRequest(new { message = "A fee can only be suggested from an approved budget." });
+
+        var units = await _db.Units
+            .Where(u => u.BuildingId == buildingId)
+            .Select(u => new { u.SizeSqm })
+            .ToListAsync();
+        var totalSqm = units.Sum(u => u.SizeSqm ?? 0);
+
+        var expenses = budget.Lines.Where(l => l.LineType == BudgetLineType.Expense).Sum(l => l.Amount);
+        var otherIncome = budget.Lines
+            .Where(l => l.LineType == BudgetLineType.Income && l.Category != nameof(IncomeCategory.HOAMonthlyFees))
+            .Sum(l => l.Amount);
+        var (annual, monthly, perUnit, perSqm) = BudgetCalculator.SuggestFee(expenses, otherIncome, units.Count, totalSqm);
+
+        return Ok(new SuggestedHOAFeeDto
+        {
+            BuildingId = buildingId,
+            Year = year,
+            BudgetedExpenses = expenses,
+            BudgetedOtherIncome = otherIncome,
+            AnnualAmountToCollect = annual,
+            MonthlyAmountToCollect = monthly,
+            UnitCount = units.Count,
+            TotalSqm = totalSqm,
+            FixedAmountPerUnit = perUnit,
+            AmountPerSqm = perSqm
+        });
+    }
+
+    // ─── Helpers ────────────────────────────────────────
+
+    private Task<BuildingBudget?> LoadBudget(int buildingId, int year)
+        => _db.BuildingBudgets
+            .Include(b => b.Building)
+            .Include(b => b.Lines)
+            .FirstOrDefaultAsync(b => b.BuildingId == buildingId && b.Year == year);
+
+    private static BuildingBudgetDto MapDto(BuildingBudget b) => new()
+    {
+        Id = b.Id,
+        BuildingId = b.BuildingId,
+        BuildingName = b.Building?.Name,
+        Year = b.Year,
+        Status = b.Status,
+        ApprovedAtUtc = b.ApprovedAtUtc,
+        ApprovedBy = b.ApprovedBy,
+        Notes = b.Notes,
+        TotalIncome = b.Lines.Where(l => l.LineType == BudgetLineType.Income).Sum(l => l.Amount),
+        TotalExpenses = b.Lines.Where(l => l.LineType == BudgetLineType.Expense).Sum(l => l.Amount),
+        Lines = b.Lines
+            .OrderBy(l => l.LineType).ThenBy(l => l.Category).ThenBy(l => l.Month)
+            .Select(l => new BudgetLineDto { LineType = l.LineType, Category = l.Category, Month = l.Month, Amount = l.Amount })
+            .ToList()
+    };
+
+    private Task<bool> CanAccessBuilding(int buildingId)
+        => _permissions.CanAccessBuildingAsync(this, PermissionResource.Finance, buildingId);
+}
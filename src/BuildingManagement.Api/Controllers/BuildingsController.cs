@@ -1,7 +1,10 @@
+using BuildingManagement.Api.Authorization;
 using BuildingManagement.Core.DTOs;
 using BuildingManagement.Core.Entities;
+using BuildingManagement.Core.Entities.Finance;
 using BuildingManagement.Core.Enums;
 using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
@@ -15,33 +18,32 @@ namespace BuildingManagement.Api.Controllers;
 public class BuildingsController : ControllerBase
 {
     private readonly AppDbContext _db;
+    private readonly PermissionService _permissions;
 
-    public BuildingsController(AppDbContext db)
+    public BuildingsController(AppDbContext db, PermissionService permissions)
     {
         _db = db;
+        _permissions = permissions;
     }
 
     [HttpGet]
     public async Task<ActionResult<List<BuildingDto>>> GetAll()
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
-        var isAdmin = User.IsInRole(AppRoles.Admin);
-        var isManager = User.IsInRole(AppRoles.Manager);
+        var isStaff = AppRoles.Staff.Any(User.IsInRole);
 
         IQueryable<Building> query = _db.Buildings.Include(b => b.Units);
 
-        // Manager can only see buildings they manage
-        if (isManager && !isAdmin)
+        // Staff see the buildings they have any permission in
+        if (isStaff)
         {
-            var buildingIds = await _db.BuildingManagers
-                .Where(bm => bm.UserId == userId)
-                .Select(bm => bm.BuildingId)
-                .ToListAsync();
-            query = query.Where(b => buildingIds.Contains(b.Id));
+            var buildingIds = await _permissions.AnyBuildingIdsAsync(userId!);
+            if (buildingIds != null)
+                query = query.Where(b => buildingIds.Contains(b.Id));
         }
 
         // Tenant can only see buildings they belong to
-        if (User.IsInRole(AppRoles.Tenant) && !isAdmin && !isManager)
+        if (User.IsInRole(AppRoles.Tenant) && !isStaff)
         {
             var tenantBuildingIds = await _db.TenantProfiles
                 .Where(tp => tp.UserId == userId && tp.IsActive && !tp.IsDeleted)
@@ -71,6 +73,8 @@ public class BuildingsController : ControllerBase
     [HttpGet("{id}")]
     public async Task<ActionResult<BuildingDto>> GetById(int id)
     {
+        if (!await CanSeeBuilding(id)) return Forbid();
+
         var building = await _db.Buildings.Include(b => b.Units)
             .FirstOrDefaultAsync(b => b.Id == id);
         if (building == null) return NotFound();
@@ -90,7 +94,7 @@ public class BuildingsController : ControllerBase
     }
 
     [HttpPost]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Buildings)]
     public async Task<ActionResult<BuildingDto>> Create([FromBody] CreateBuildingRequest request)
     {
         var building = new Building
@@ -106,6 +110,11 @@ public class BuildingsController : ControllerBase
         };
 
         _db.Buildings.Add(building);
+
+        // A manager keeps access to the building they add
+        if (User.IsInRole(AppRoles.Manager) && !User.IsInRole(AppRoles.Admin))
+            _db.BuildingManagers.Add(new BuildingManager { UserId = building.CreatedBy!, Building = building });
+
         await _db.SaveChangesAsync();
 
         return CreatedAtAction(nameof(GetById), new { id = building.Id }, new BuildingDto
@@ -122,9 +131,11 @@ public class BuildingsController : ControllerBase
     }
 
     [HttpPut("{id}")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Buildings)]
     public async Task<IActionResult> Update(int id, [FromBody] UpdateBuildingRequest request)
     {
+        if (!await CanAccessBuilding(id)) return Forbid();
+
         var building = await _db.Buildings.FindAsync(id);
         if (building == null) return NotFound();
 
@@ -158,9 +169,12 @@ public class BuildingsController : ControllerBase
     [HttpGet("{id}/units")]
     public async Task<ActionResult<List<UnitDto>>> GetUnits(int id)
     {
+        if (!await CanSeeBuilding(id)) return Forbid();
+
         var units = await _db.Units
             .Where(u => u.BuildingId == id)
             .Include(u => u.TenantUser)
+            .Include(u => u.OwnerUser)
             .Select(u => new UnitDto
             {
                 Id = u.Id,
@@ -169,17 +183,25 @@ public class BuildingsController : ControllerBase
                 Floor = u.Floor,
                 SizeSqm = u.SizeSqm,
                 OwnerName = u.OwnerName,
+                OwnerPhone = u.OwnerPhone,
+                OwnerEmail = u.OwnerEmail,
+                OwnerUserId = u.OwnerUserId,
+                OwnerAccountName = u.OwnerUser != null ? u.OwnerUser.FullName : null,
                 TenantUserId = u.TenantUserId,
-                TenantName = u.TenantUser != null ? u.TenantUser.FullName : null
+                TenantName = u.TenantUser != null ? u.TenantUser.FullName : null,
+                HOAFeePayer = u.HOAFeePayer,
+                SpecialAssessmentPayer = u.SpecialAssessmentPayer
             }).ToListAsync();
 
         return Ok(units);
     }
 
     [HttpPost("{id}/units")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Buildings)]
     public async Task<ActionResult<UnitDto>> CreateUnit(int id, [FromBody] CreateUnitRequest request)
     {
+        if (!await CanAccessBuilding(id)) return Forbid();
+
         var building = await _db.Buildings.FindAsync(id);
         if (building == null) return NotFound();
 
@@ -208,4 +230,81 @@ public class BuildingsController : ControllerBase
             TenantUserId = unit.TenantUserId
         });
     }
+
+    /// <summary>Owner contact details and which party pays each charge type.</summary>
+    [HttpPut("{id}/units/{unitId}/billing")]
+    [RequirePermission(PermissionResource.Buildings)]
+    public async Task<IActionResult> UpdateUnitBilling(int id, int unitId, [FromBody] UpdateUnitBillingRequest request)
+    {
+        var unit = await _db.Units.FirstOrDefaultAsync(u => u.Id == unitId && u.BuildingId == id);
+        if (unit == null) return NotFound();
+        if (!await CanAccessBuilding(id)) return Forbid();
+
+        var changes = new List<string>();
+        if (unit.HOAFeePayer != request.HOAFeePayer)
+            changes.Add($"HOA fee: {unit.HOAFeePayer} → {request.HOAFeePayer}");
+        if (unit.SpecialAssessmentPayer != request.SpecialAssessmentPayer)
+            changes.Add($"Special assessments: {unit.SpecialAssessmentPayer} → {request.SpecialAssessmentPayer}");
+
+        unit.OwnerName = request.OwnerName;
+        unit.OwnerPhone = request.OwnerPhone;
+        unit.OwnerEmail = request.OwnerEmail;
+        unit.HOAFeePayer = request.HOAFeePayer;
+        unit.SpecialAssessmentPayer = request.SpecialAssessmentPayer;
+        unit.UpdatedBy = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+
+        var rerouted = 0;
+        if (request.ApplyToOpenCharges && changes.Count > 0)
+        {
+            var openCharges = await _db.UnitCharges
+                .Where(uc => uc.UnitId == unit.Id
+                    && uc.Status != UnitChargeStatus.Paid
+                    && uc.Status != UnitChargeStatus.Cancelled)
+                .ToListAsync();
+
+            // Fees first take the party of their source charge, so route the source charges before the fees
+            var partyById = new Dictionary<int, BillingParty>();
+            foreach (var charge in openCharges.OrderBy(c => c.ChargeType == UnitChargeType.LateFee))
+            {
+                BillingParty? sourceParty = null;
+                if (charge.SourceChargeId.HasValue)
+                {
+                    sourceParty = partyById.TryGetValue(charge.SourceChargeId.Value, out var p)
+                        ? p
+                        : await _db.UnitCharges.Where(uc => uc.Id == charge.SourceChargeId).Select(uc => (BillingParty?)uc.Party).FirstOrDefaultAsync();
+                }
+                var party = BillingPartyResolver.PartyFor(unit, charge.ChargeType, sourceParty);
+                partyById[charge.Id] = party;
+                if (charge.Party == party) continue;
+                charge.Party = party;
+                rerouted++;
+            }
+        }
+
+        if (changes.Count > 0)
+        {
+            _db.AuditLogs.Add(new AuditLog
+            {
+                Action = "UpdateUnitBilling",
+                EntityName = "Unit",
+                EntityId = unit.Id.ToString(),
+                PerformedBy = User.FindFirst(ClaimTypes.NameIdentifier)?.Value,
+                Details = $"{string.Join("; ", changes)}. Open charges re-routed: {rerouted}"
+            });
+        }
+
+        await _db.SaveChangesAsync();
+        return NoContent();
+    }
+
+    private Task<bool> CanAccessBuilding(int buildingId)
+        => _permissions.CanAccessBuildingAsync(this, PermissionResource.Buildings, buildingId);
+
+    /// <summary>Staff pick from the buildings they have any permission in; tenants and vendors are not limited here.</summary>
+    private async Task<bool> CanSeeBuilding(int buildingId)
+    {
+        if (!AppRoles.Staff.Any(User.IsInRole)) return true;
+        var buildingIds = await _permissions.AnyBuildingIdsAsync(User.FindFirst(ClaimTypes.NameIdentifier)!.Value);
+        return buildingIds == null || buildingIds.Contains(buildingId);
+    }
 }
@@ -0,0 +1,152 @@
+using BuildingManagement.Api.Authorization;
+using BuildingManagement.Core.DTOs;
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Core.Entities.Notifications;
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Core.Interfaces;
+using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using System.Security.Claims;
+
+namespace BuildingManagement.Api.Controllers;
+
+/// <summary>
+/// Per-building dunning schedule (reminder, email, formal letter, committee escalation by days overdue)
+/// and the debtors' progress through it.
+/// </summary>
+[ApiController]
+[Route("api/dunning")]
+[Authorize]
+[RequirePermission(PermissionResource.Finance)]
+public class DunningController : ControllerBase
+{
+    private readonly AppDbContext _db;
+    private readonly IDunningService _dunningService;
+    private readonly PermissionService _permissions;
+
+    public DunningController(AppDbContext db, IDunningService dunningService, PermissionService permissions)
+    {
+        _db = db;
+        _dunningService = dunningService;
+        _permissions = permissions;
+    }
+
+    // ─── Schedule ───────────────────────────────────────
+
+    [HttpGet("schedule/{buildingId}")]
+    public async Task<ActionResult<List<DunningStepDto>>> GetSchedule(int buildingId)
+    {
+        if (!await HasBuildingAccessAsync(buildingId)) return Forbid();
+
+        var steps = await _db.DunningSteps.Include(s => s.Template)
+            .Where(s => s.BuildingId == buildingId)
+            .OrderBy(s => s.DaysAfterDue)
+            .ToListAsync();
+        return Ok(steps.Select(MapStepDto).ToList());
+    }
+
+    [HttpPut("schedule/{buildingId}")]
+    public async Task<ActionResult<List<DunningStepDto>>> SaveSchedule(int buildingId, [FromBody] SaveDunningScheduleRequest request)
+    {
+        if (!await HasBuildingAccessAsync(buildingId)) return Forbid();
+
+        if (request.Steps.GroupBy(s => s.DaysAfterDue).Any(g => g.Count() > 1))
+            return BadRequest(new { message = "Two steps cannot fall on the same day." });
+        if (request.Steps.Any(s => s.TemplateId == null && s.Action != DunningAction.CommitteeEscalation))
+            return BadRequest(new { message = "Choose a template for each reminder, email and letter step." });
+
+        var templateIds = request.Steps.Where(s => s.TemplateId.HasValue).Select(s => s.TemplateId!.Value).Distinct().ToList();
+        var activeTemplates = await _db.SmsTemplates.CountAsync(t => templateIds.Contains(t.Id) && t.IsActive);
+        if (activeTemplates != templateIds.Count)
+            return BadRequest(new { message = "One of the templates does not exist or is inactive." });
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        var existing = await _db.DunningSteps.Where(s => s.BuildingId == buildingId).ToListAsync();
+
+        // Steps are matched by day so that notices already sent keep pointing at them
+        foreach (var step in existing.Where(s => request.Steps.All(r => r.DaysAfterDue != s.DaysAfterDue)))
+            _db.DunningSteps.Remove(step);
+        foreach (var r in request.Steps)
+        {
+            var step = existing.FirstOrDefault(s => s.DaysAfterDue == r.DaysAfterDue);
+            if (step == null)
+            {
+                step = new DunningStep { BuildingId = buildingId, DaysAfterDue = r.DaysAfterDue };
+                _db.DunningSteps.Add(step);
+            }
+            else
+            {
+                step.UpdatedAtUtc = DateTime.UtcNow;
+            }
+            step.Action = r.Action;
+            step.TemplateId = r.TemplateId;
+            step.IsEnabled = r.IsEnabled;
+        }
+
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = "SaveDunningSchedule",
+            EntityName = "DunningStep",
+            EntityId = buildingId.ToString(),
+            PerformedBy = userId,
+            Details = string.Join(", ", request.Steps.OrderBy(s => s.DaysAfterDue)
+                .Select(s => $"{s.DaysAfterDue}d {s.Action}{(s.IsEnabled ? "" : " (off)")}"))
+        });
+
+        await _db.SaveChangesAsync();
+        return await GetSchedule(buildingId);
+    }
+
+    [HttpPost("run")]
+    public async Task<ActionResult<DunningRunResult>> Run([FromQuery] int buildingId)
+    {
+        if (!await HasBuildingAccessAsync(buildingId)) return Forbid();
+
+        var result = await _dunningService.RunAsync(buildingId);
+        return Ok(result);
+    }
+
+    // ─── Debtors & timeline ─────────────────────────────
+
+    [HttpGet("debtors")]
+    public async Task<ActionResult<List<DunningDebtorDto>>> GetDebtors([FromQuery] int buildingId)
+    {
+        if (!await HasBuildingAccessAsync(buildingId)) return Forbid();
+
+        return Ok(await _dunningService.GetDebtorsAsync(buildingId));
+    }
+
+    /// <summary>Every dunning notice of a unit, newest first, including those for charges since paid.</summary>
+    [HttpGet("units/{unitId}/notices")]
+    public async Task<ActionResult<List<DunningNoticeDto>>> GetUnitNotices(int unitId)
+    {
+        var unit = await _db.Units.FirstOrDefaultAsync(u => u.Id == unitId);
+        if (unit == null) return NotFound();
+        if (!await HasBuildingAccessAsync(unit.BuildingId)) return Forbid();
+
+        var notices = await _db.DunningNotices
+            .Include(n => n.UnitCharge)
+            .Where(n => n.UnitId == unitId)
+            .OrderByDescending(n => n.CreatedAtUtc)
+            .ToListAsync();
+        return Ok(notices.Select(DunningService.MapNoticeDto).ToList());
+    }
+
+    // ─── Helpers ─────────────────────────────────────────
+
+    private static DunningStepDto MapStepDto(DunningStep s) => new()
+    {
+        Id = s.Id,
+        DaysAfterDue = s.DaysAfterDue,
+        Action = s.Action,
+        TemplateId = s.TemplateId,
+        TemplateName = s.Template?.Name,
+        IsEnabled = s.IsEnabled
+    };
+
+    private Task<bool> HasBuildingAccessAsync(int buildingId)
+        => _permissions.CanAccessBuildingAsync(this, PermissionResource.Finance, buildingId);
+}
@@ -1,3 +1,5 @@
+using BuildingManagement.Api.Authorization;
+using BuildingManagement.Core.Enums;
 using BuildingManagement.Core.Interfaces;
 using BuildingManagement.Infrastructure.Data;
 using Microsoft.AspNetCore.Authorization;
@@ -44,7 +46,7 @@ public class FilesController : ControllerBase
     }
 
     [HttpDelete("sr-{id}")]
-    [Authorize(Roles = "Admin,Manager")]
+    [RequirePermission(PermissionResource.Maintenance)]
     public async Task<IActionResult> DeleteServiceRequestAttachment(int id)
     {
         var attachment = await _db.ServiceRequestAttachments.FindAsync(id);
@@ -58,7 +60,7 @@ public class FilesController : ControllerBase
     }
 
     [HttpDelete("wo-{id}")]
-    [Authorize(Roles = "Admin,Manager")]
+    [RequirePermission(PermissionResource.Maintenance)]
     public async Task<IActionResult> DeleteWorkOrderAttachment(int id)
     {
         var attachment = await _db.WorkOrderAttachments.FindAsync(id);
@@ -0,0 +1,112 @@
+using BuildingManagement.Core.DTOs;
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using System.Security.Claims;
+
+namespace BuildingManagement.Api.Controllers;
+
+/// <summary>Per-user saved views for the list grids (filters, sort, visible columns).</summary>
+[ApiController]
+[Route("api/grid-views")]
+[Authorize]
+public class GridViewsController : ControllerBase
+{
+    private const int MaxViewsPerGrid = 20;
+
+    private readonly AppDbContext _db;
+
+    public GridViewsController(AppDbContext db) => _db = db;
+
+    [HttpGet]
+    public async Task<ActionResult<List<SavedGridViewDto>>> GetViews([FromQuery] string gridKey)
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var views = await _db.SavedGridViews
+            .Where(v => v.UserId == userId && v.GridKey == gridKey)
+            .OrderBy(v => v.Name)
+            .ToListAsync();
+        return Ok(views.Select(MapDto).ToList());
+    }
+
+    [HttpPost]
+    public async Task<ActionResult<SavedGridViewDto>> Create([FromBody] SaveGridViewRequest request)
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var name = request.Name.Trim();
+
+        var existing = await _db.SavedGridViews
+            .Where(v => v.UserId == userId && v.GridKey == request.GridKey)
+            .ToListAsync();
+        if (existing.Any(v => v.Name == name))
+            return BadRequest(new { message = $"A view named \"{name}\" already exists." });
+        if (existing.Count >= MaxViewsPerGrid)
+            return BadRequest(new { message = $"You can save up to {MaxViewsPerGrid} views per list." });
+
+        if (request.IsDefault)
+            existing.ForEach(v => v.IsDefault = false);
+
+        var view = new SavedGridView
+        {
+            UserId = userId,
+            GridKey = request.GridKey,
+            Name = name,
+            StateJson = request.StateJson,
+            IsDefault = request.IsDefault
+        };
+        _db.SavedGridViews.Add(view);
+        await _db.SaveChangesAsync();
+        return Ok(MapDto(view));
+    }
+
+    [HttpPut("{id}")]
+    public async Task<ActionResult<SavedGridViewDto>> Update(int id, [FromBody] SaveGridViewRequest request)
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var view = await _db.SavedGridViews.FirstOrDefaultAsync(v => v.Id == id && v.UserId == userId);
+        if (view == null) return NotFound();
+
+        var name = request.Name.Trim();
+        if (await _db.SavedGridViews.AnyAsync(v => v.UserId == userId && v.GridKey == view.GridKey && v.Name == name && v.Id != id))
+            return BadRequest(new { message = $"A view named \"{name}\" already exists." });
+
+        if (request.IsDefault && !view.IsDefault)
+        {
+            var others = await _db.SavedGridViews
+                .Where(v => v.UserId == userId && v.GridKey == view.GridKey && v.IsDefault)
+                .ToListAsync();
+            others.ForEach(v => v.IsDefault = false);
+        }
+
+        view.Name = name;
+        view.StateJson = request.StateJson;
+        view.IsDefault = request.IsDefault;
+        view.UpdatedAtUtc = DateTime.UtcNow;
+        await _db.SaveChangesAsync();
+        return Ok(MapDto(view));
+    }
+
+    [HttpDelete("{id}")]
+    public async Task<IActionResult> Delete(int id)
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var view = await _db.SavedGridViews.FirstOrDefaultAsync(v => v.Id == id && v.UserId == userId);
+        if (view == null) return NotFound();
+
+        _db.SavedGridViews.Remove(view);
+        await _db.SaveChangesAsync();
+        return NoContent();
+    }
+
+    private static SavedGridViewDto MapDto(SavedGridView v) => new()
+    {
+        Id = v.Id,
+        GridKey = v.GridKey,
+        Name = v.Name,
+        StateJson = v.StateJson,
+        IsDefault = v.IsDefault,
+        UpdatedAtUtc = v.UpdatedAtUtc
+    };
+}
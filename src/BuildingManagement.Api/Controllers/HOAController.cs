@@ -1,13 +1,16 @@
+using BuildingManagement.Api.Authorization;
 using BuildingManagement.Core.DTOs;
 using BuildingManagement.Core.Entities;
 using BuildingManagement.Core.Entities.Finance;
 using BuildingManagement.Core.Enums;
 using BuildingManagement.Core.Interfaces;
 using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 using System.Security.Claims;
+using System.Text;
 
 namespace BuildingManagement.Api.Controllers;
 
@@ -18,17 +21,21 @@ public class HOAController : ControllerBase
 {
     private readonly AppDbContext _db;
     private readonly IHOAFeeService _hoaFeeService;
+    private readonly ILateFeeService _lateFeeService;
+    private readonly PermissionService _permissions;
 
-    public HOAController(AppDbContext db, IHOAFeeService hoaFeeService)
+    public HOAController(AppDbContext db, IHOAFeeService hoaFeeService, ILateFeeService lateFeeService, PermissionService permissions)
     {
         _db = db;
         _hoaFeeService = hoaFeeService;
+        _lateFeeService = lateFeeService;
+        _permissions = permissions;
     }
 
     // ─── Plans ──────────────────────────────────────────
 
     [HttpGet("plans/{buildingId}")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Finance)]
     public async Task<ActionResult<List<HOAFeePlanDto>>> GetPlans(int buildingId)
     {
         var plans = await _db.HOAFeePlans
@@ -51,9 +58,11 @@ public class HOAController : ControllerBase
     }
 
     [HttpPost("plans")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Finance)]
     public async Task<ActionResult<HOAFeePlanDto>> CreatePlan([FromBody] CreateHOAFeePlanRequest request)
     {
+        if (!await HasBuildingAccessAsync(request.BuildingId)) return Forbid();
+
         var plan = new HOAFeePlan
         {
             BuildingId = request.BuildingId,
@@ -85,11 +94,12 @@ public class HOAController : ControllerBase
     }
 
     [HttpPut("plans/{id}")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Finance)]
     public async Task<IActionResult> UpdatePlan(int id, [FromBody] UpdateHOAFeePlanRequest request)
     {
         var plan = await _db.HOAFeePlans.FindAsync(id);
         if (plan == null) return NotFound();
+        if (!await HasBuildingAccessAsync(plan.BuildingId)) return Forbid();
 
         plan.Name = request.Name;
         plan.CalculationMethod = request.CalculationMethod;
@@ -103,11 +113,12 @@ public class HOAController : ControllerBase
     }
 
     [HttpPost("plans/{id}/generate/{period}")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Finance)]
     public async Task<ActionResult<GenerateChargesResult>> GenerateCharges(int id, string period)
     {
         var plan = await _db.HOAFeePlans.FindAsync(id);
         if (plan == null) return NotFound();
+        if (!await HasBuildingAccessAsync(plan.BuildingId)) return Forbid();
 
         var result = await _hoaFeeService.GenerateMonthlyChargesAsync(plan.BuildingId, period);
         return Ok(result);
@@ -116,59 +127,108 @@ public class HOAController : ControllerBase
     // ─── Charges ────────────────────────────────────────
 
     [HttpGet("charges")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Finance)]
     public async Task<ActionResult<List<UnitChargeDto>>> GetCharges(
         [FromQuery] int? buildingId,
-        [FromQuery] string? period)
+        [FromQuery] string? period,
+        [FromQuery] BillingParty? party)
     {
         IQueryable<UnitCharge> query = _db.UnitCharges
             .Include(uc => uc.Unit).ThenInclude(u => u.TenantUser)
+            .Include(uc => uc.Unit).ThenInclude(u => u.OwnerUser)
             .Include(uc => uc.Allocations);
 
+        if (await _permissions.VisibleBuildingIdsAsync(this, PermissionResource.Finance) is { } visible)
+            query = query.Where(uc => visible.Contains(uc.Unit.BuildingId));
         if (buildingId.HasValue)
             query = query.Where(uc => uc.Unit.BuildingId == buildingId);
         if (!string.IsNullOrEmpty(period))
             query = query.Where(uc => uc.Period == period);
+        if (party.HasValue)
+            query = query.Where(uc => uc.Party == party);
 
         var items = await query.OrderBy(uc => uc.Unit.UnitNumber).ToListAsync();
         return Ok(items.Select(MapChargeDto).ToList());
     }
 
+    /// <summary>A unit's charges, optionally only one party's. Tenants read theirs from charges/my.</summary>
     [HttpGet("charges/unit/{unitId}")]
-    public async Task<ActionResult<List<UnitChargeDto>>> GetChargesForUnit(int unitId)
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<List<UnitChargeDto>>> GetChargesForUnit(int unitId, [FromQuery] BillingParty? party)
     {
-        // Tenant can only see own unit charges
-        if (User.IsInRole(AppRoles.Tenant))
-        {
-            var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
-            var unit = await _db.Units.FindAsync(unitId);
-            if (unit?.TenantUserId != userId) return Forbid();
-        }
+        var unit = await _db.Units.FindAsync(unitId);
+        if (unit == null) return NotFound();
+        if (!await HasBuildingAccessAsync(unit.BuildingId)) return Forbid();
 
         var items = await _db.UnitCharges
             .Include(uc => uc.Unit).ThenInclude(u => u.TenantUser)
+            .Include(uc => uc.Unit).ThenInclude(u => u.OwnerUser)
             .Include(uc => uc.Allocations)
-            .Where(uc => uc.UnitId == unitId)
+            .Where(uc => uc.UnitId == unitId && (party == null || uc.Party == party))
             .OrderByDescending(uc => uc.Period)
             .ToListAsync();
 
         return Ok(items.Select(MapChargeDto).ToList());
     }
 
+    /// <summary>Balance per billing party: what the resident owes and what the owner owes.</summary>
+    [HttpGet("units/{unitId}/balances")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<UnitPartyBalancesDto>> GetUnitBalances(int unitId)
+    {
+        var unit = await _db.Units
+            .Include(u => u.TenantUser)
+            .Include(u => u.OwnerUser)
+            .FirstOrDefaultAsync(u => u.Id == unitId);
+        if (unit == null) return NotFound();
+        if (!await HasBuildingAccessAsync(unit.BuildingId)) return Forbid();
+
+        var charges = await _db.UnitCharges
+            .Include(uc => uc.Allocations)
+            .Where(uc => uc.UnitId == unitId && uc.Status != UnitChargeStatus.Cancelled)
+            .ToListAsync();
+
+        var parties = new[] { BillingParty.Resident, BillingParty.Owner }.Select(party =>
+        {
+            var own = charges.Where(c => c.Party == party).ToList();
+            var charged = own.Sum(c => c.AmountDue);
+            var paid = own.Sum(c => c.Allocations.Sum(a => a.AllocatedAmount));
+            return new PartyBalanceDto
+            {
+                Party = party,
+                PayerName = BillingPartyResolver.PayerName(unit, party),
+                PayerPhone = BillingPartyResolver.PayerPhone(unit, party),
+                PayerEmail = party == BillingParty.Owner ? unit.OwnerUser?.Email ?? unit.OwnerEmail : unit.TenantUser?.Email,
+                HasPortalAccount = BillingPartyResolver.PayerUserId(unit, party) != null,
+                TotalCharged = charged,
+                TotalPaid = paid,
+                Balance = charged - paid,
+                OpenCharges = own.Count(c => c.Status != UnitChargeStatus.Paid && c.AmountDue > c.Allocations.Sum(a => a.AllocatedAmount))
+            };
+        }).ToList();
+
+        return Ok(new UnitPartyBalancesDto
+        {
+            UnitId = unit.Id,
+            UnitNumber = unit.UnitNumber,
+            HOAFeePayer = unit.HOAFeePayer,
+            SpecialAssessmentPayer = unit.SpecialAssessmentPayer,
+            Parties = parties
+        });
+    }
+
     [HttpGet("charges/my")]
     [Authorize(Roles = AppRoles.Tenant)]
     public async Task<ActionResult<List<UnitChargeDto>>> GetMyCharges()
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
-        var unitIds = await _db.Units
-            .Where(u => u.TenantUserId == userId)
-            .Select(u => u.Id)
-            .ToListAsync();
-
+        // Resident charges of the units the user lives in, owner charges of the units they own
         var items = await _db.UnitCharges
             .Include(uc => uc.Unit).ThenInclude(u => u.TenantUser)
+            .Include(uc => uc.Unit).ThenInclude(u => u.OwnerUser)
             .Include(uc => uc.Allocations)
-            .Where(uc => unitIds.Contains(uc.UnitId))
+            .Where(uc => (uc.Party == BillingParty.Resident && uc.Unit.TenantUserId == userId)
+                || (uc.Party == BillingParty.Owner && uc.Unit.OwnerUserId == userId))
             .OrderByDescending(uc => uc.Period)
             .ToListAsync();
 
@@ -176,11 +236,12 @@ public class HOAController : ControllerBase
     }
 
     [HttpPut("charges/{id}/adjust")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Finance)]
     public async Task<IActionResult> AdjustCharge(int id, [FromBody] AdjustChargeRequest request)
     {
         var charge = await _db.UnitCharges.Include(uc => uc.Unit).FirstOrDefaultAsync(uc => uc.Id == id);
         if (charge == null) return NotFound();
+        if (!await HasBuildingAccessAsync(charge.Unit.BuildingId)) return Forbid();
 
         var oldAmount = charge.AmountDue;
         charge.AmountDue = request.NewAmount;
@@ -222,98 +283,276 @@ public class HOAController : ControllerBase
         return NoContent();
     }
 
-    // ─── Manual Payment CRUD ──────────────────────────────
+    // ─── Unit Statement ─────────────────────────────────
 
-    [HttpPost("charges/{unitChargeId}/manual-payment")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
-    public async Task<ActionResult<ManualPaymentResultDto>> AddManualPayment(int unitChargeId, [FromBody] ManualPaymentRequest request)
+    /// <summary>
+    /// Every charge, adjustment, payment and refund of a unit in date order with a running balance.
+    /// Tenants get the statement of what they are billed for.
+    /// </summary>
+    [HttpGet("units/{unitId}/statement")]
+    public async Task<ActionResult<UnitStatementDto>> GetUnitStatement(
+        int unitId, [FromQuery] DateTime? from, [FromQuery] DateTime? to, [FromQuery] BillingParty? party)
     {
-        if (request.PaidAmount <= 0)
-            return BadRequest(new { message = "Amount must be greater than zero." });
-
-        var charge = await _db.UnitCharges
-            .Include(uc => uc.Unit)
-            .Include(uc => uc.Allocations)
-            .FirstOrDefaultAsync(uc => uc.Id == unitChargeId);
-        if (charge == null) return NotFound();
+        var unit = await LoadStatementUnitAsync(unitId);
+        if (unit == null) return NotFound();
+        if (!await CanViewStatementAsync(unit)) return Forbid();
 
-        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        return Ok(await BuildStatementAsync(unit, from, to, StatementParty(unit, party)));
+    }
 
-        // Check building access for managers
-        if (!User.IsInRole(AppRoles.Admin))
+    [HttpGet("units/{unitId}/statement/csv")]
+    public async Task<IActionResult> GetUnitStatementCsv(
+        int unitId, [FromQuery] DateTime? from, [FromQuery] DateTime? to, [FromQuery] BillingParty? party, [FromQuery] string? lang)
+    {
+        var unit = await LoadStatementUnitAsync(unitId);
+        if (unit == null) return NotFound();
+        if (!await CanViewStatementAsync(unit)) return Forbid();
+
+        var statement = await BuildStatementAsync(unit, from, to, StatementParty(unit, party));
+        var h = GetStatementHeaders(lang);
+
+        var sb = new StringBuilder();
+        sb.Append('\uFEFF'); // UTF-8 BOM for Excel
+        sb.AppendLine($"\"{h["Statement"]}\",\"{statement.BuildingName} / {statement.UnitNumber}\",\"{statement.PayerName}\"");
+        sb.AppendLine($"{h["Date"]},{h["Type"]},{h["Period"]},{h["Description"]},{h["Reference"]},{h["Debit"]},{h["Credit"]},{h["Balance"]}");
+        sb.AppendLine($"{statement.From:yyyy-MM-dd},\"{h["OpeningBalance"]}\",,,,,,{statement.OpeningBalance:F2}");
+        foreach (var l in statement.Lines)
         {
-            var hasAccess = await _db.BuildingManagers
-                .AnyAsync(bm => bm.UserId == userId && bm.BuildingId == charge.Unit.BuildingId);
-            if (!hasAccess) return Forbid();
+            var label = l.LineType is StatementLineType.Payment or StatementLineType.Refund
+                ? l.Method?.ToString()
+                : l.ChargeType?.ToString();
+            var description = label != null ? h.GetValueOrDefault(label, label) : "";
+            if (l.RefundType == PaymentRefundType.Chargeback)
+                description = description.Length > 0 ? $"{h["Chargeback"]} – {description}" : h["Chargeback"];
+            if (!string.IsNullOrEmpty(l.Description))
+                description = description.Length > 0 ? $"{description} – {l.Description}" : l.Description;
+            description = description.Replace("\"", "'");
+            sb.AppendLine($"{l.DateUtc:yyyy-MM-dd},\"{h[l.LineType.ToString()]}\",{l.Period},\"{description}\",\"{l.Reference}\",{l.Debit:F2},{l.Credit:F2},{l.Balance:F2}");
         }
+        sb.AppendLine($"{statement.To:yyyy-MM-dd},\"{h["ClosingBalance"]}\",,,,{statement.TotalDebits:F2},{statement.TotalCredits:F2},{statement.ClosingBalance:F2}");
 
-        // Check for overpayment
-        var currentPaid = charge.Allocations?.Sum(a => a.AllocatedAmount) ?? 0;
-        var outstanding = charge.AmountDue - currentPaid;
-        if (request.PaidAmount > outstanding)
-            return BadRequest(new { message = $"Amount ({request.PaidAmount:F2}) exceeds outstanding balance ({outstanding:F2})." });
+        return File(Encoding.UTF8.GetBytes(sb.ToString()), "text/csv",
+            $"statement-unit-{statement.UnitNumber}-{statement.To:yyyyMMdd}.csv");
+    }
 
-        // Create Payment record
-        var payment = new Payment
+    private Task<Unit?> LoadStatementUnitAsync(int unitId)
+        => _db.Units
+            .Include(u => u.Building)
+            .Include(u => u.TenantUser)
+            .Include(u => u.OwnerUser)
+            .FirstOrDefaultAsync(u => u.Id == unitId);
+
+    private async Task<bool> CanViewStatementAsync(Unit unit)
+    {
+        if (User.IsInRole(AppRoles.Tenant))
+            return BillingPartyResolver.IsPayerOfUnit(unit, User.FindFirst(ClaimTypes.NameIdentifier)!.Value);
+        return await HasBuildingAccessAsync(unit.BuildingId);
+    }
+
+    /// <summary>Tenants only ever see the party they pay for (both, when they are resident and owner).</summary>
+    private BillingParty? StatementParty(Unit unit, BillingParty? requested)
+        => User.IsInRole(AppRoles.Tenant)
+            ? BillingPartyResolver.PartyOfUser(unit, User.FindFirst(ClaimTypes.NameIdentifier)!.Value)
+            : requested;
+
+    private async Task<UnitStatementDto> BuildStatementAsync(Unit unit, DateTime? from, DateTime? to, BillingParty? party)
+    {
+        var now = DateTime.UtcNow;
+        // Dates are whole days: "to" includes the whole day
+        var toInclusive = to.HasValue ? to.Value.Date.AddDays(1).AddTicks(-1) : now;
+
+        var charges = await _db.UnitCharges
+            .Where(uc => uc.UnitId == unit.Id && (party == null || uc.Party == party))
+            .ToListAsync();
+        var ledgerEntries = await _db.LedgerEntries
+            .Where(le => le.UnitId == unit.Id && le.EntryType == LedgerEntryType.Adjustment)
+            .ToListAsync();
+        var payments = await _db.Payments
+            .Include(p => p.Allocations)
+            .Include(p => p.PaymentMethod)
+            .Where(p => p.UnitId == unit.Id)
+            .ToListAsync();
+        var refunds = await _db.PaymentRefunds
+            .Include(r => r.Allocations)
+            .Where(r => r.UnitId == unit.Id && !r.IsDeleted)
+            .ToListAsync();
+
+        return UnitStatementBuilder.Build(unit, party, charges, ledgerEntries, payments, refunds, from?.Date, toInclusive, now);
+    }
+
+    private static Dictionary<string, string> GetStatementHeaders(string? lang)
+    {
+        lang = (lang ?? "he").ToLowerInvariant();
+        return lang == "en"
+            ? new()
+            {
+                ["Statement"] = "Account statement", ["Date"] = "Date", ["Type"] = "Type", ["Period"] = "Period",
+                ["Description"] = "Description", ["Reference"] = "Reference", ["Debit"] = "Debit", ["Credit"] = "Credit",
+                ["Balance"] = "Balance", ["OpeningBalance"] = "Opening balance", ["ClosingBalance"] = "Closing balance",
+                ["Charge"] = "Charge", ["Adjustment"] = "Adjustment", ["Payment"] = "Payment", ["Refund"] = "Refund", ["Chargeback"] = "Chargeback",
+                ["HOAMonthlyFee"] = "HOA fee", ["LateFee"] = "Late fee", ["SpecialAssessment"] = "Special assessment",
+                ["CreditCard"] = "Credit card", ["BankAccount"] = "Direct debit", ["Manual"] = "Manual",
+                ["BankTransfer"] = "Bank transfer", ["Cash"] = "Cash", ["Check"] = "Check"
+            }
+            : new()
+            {
+                ["Statement"] = "דף חשבון", ["Date"] = "תאריך", ["Type"] = "סוג", ["Period"] = "תקופה",
+                ["Description"] = "תיאור", ["Reference"] = "אסמכתא", ["Debit"] = "חובה", ["Credit"] = "זכות",
+                ["Balance"] = "יתרה", ["OpeningBalance"] = "יתרת פתיחה", ["ClosingBalance"] = "יתרת סגירה",
+                ["Charge"] = "חיוב", ["Adjustment"] = "התאמה", ["Payment"] = "תשלום", ["Refund"] = "החזר", ["Chargeback"] = "הכחשת עסקה",
+                ["HOAMonthlyFee"] = "דמי ועד", ["LateFee"] = "דמי פיגור", ["SpecialAssessment"] = "היטל מיוחד",
+                ["CreditCard"] = "כרטיס אשראי", ["BankAccount"] = "הוראת קבע", ["Manual"] = "ידני",
+                ["BankTransfer"] = "העברה בנקאית", ["Cash"] = "מזומן", ["Check"] = "צ'ק"
+            };
+    }
+
+    // ─── Late Fees ──────────────────────────────────────
+
+    [HttpGet("late-fee-rule/{buildingId}")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<LateFeeRuleDto>> GetLateFeeRule(int buildingId)
+    {
+        if (!await HasBuildingAccessAsync(buildingId)) return Forbid();
+
+        var rule = await _db.LateFeeRules.FirstOrDefaultAsync(r => r.BuildingId == buildingId);
+        if (rule == null)
+            return Ok(new LateFeeRuleDto { BuildingId = buildingId, IsEnabled = false, FeeType = LateFeeType.FixedAmount });
+
+        return Ok(MapLateFeeRuleDto(rule));
+    }
+
+    [HttpPut("late-fee-rule/{buildingId}")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<LateFeeRuleDto>> SaveLateFeeRule(int buildingId, [FromBody] SaveLateFeeRuleRequest request)
+    {
+        if (!await HasBuildingAccessAsync(buildingId)) return Forbid();
+        if (request.FeeType == LateFeeType.MonthlyPercentage && request.Amount > 100)
+            return BadRequest(new { message = "Monthly percentage cannot exceed 100%." });
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        var rule = await _db.LateFeeRules.FirstOrDefaultAsync(r => r.BuildingId == buildingId);
+        if (rule == null)
         {
-            UnitId = charge.UnitId,
-            UserId = userId,
-            Amount = request.PaidAmount,
-            PaymentDateUtc = request.PaidAt ?? DateTime.UtcNow,
-            Status = PaymentStatus.Succeeded,
-            IsManual = true,
-            ManualMethodType = request.Method,
-            ProviderReference = request.Reference,
-            Notes = request.Notes,
-            EnteredByUserId = userId
-        };
-        _db.Payments.Add(payment);
-        await _db.SaveChangesAsync();
+            rule = new LateFeeRule { BuildingId = buildingId, CreatedBy = userId };
+            _db.LateFeeRules.Add(rule);
+        }
+        else
+        {
+            rule.UpdatedBy = userId;
+        }
+
+        rule.IsEnabled = request.IsEnabled;
+        rule.FeeType = request.FeeType;
+        rule.Amount = request.Amount;
+        rule.GraceDays = request.GraceDays;
+        rule.MaxFeePerCharge = request.MaxFeePerCharge;
 
-        // Create allocation
-        _db.PaymentAllocations.Add(new PaymentAllocation
+        _db.AuditLogs.Add(new AuditLog
         {
-            PaymentId = payment.Id,
-            UnitChargeId = unitChargeId,
-            AllocatedAmount = request.PaidAmount
+            Action = "SaveLateFeeRule",
+            EntityName = "LateFeeRule",
+            EntityId = buildingId.ToString(),
+            PerformedBy = userId,
+            Details = $"Enabled: {rule.IsEnabled}, Type: {rule.FeeType}, Amount: {rule.Amount:F2}, Grace: {rule.GraceDays} days, Cap: {rule.MaxFeePerCharge?.ToString("F2") ?? "none"}"
         });
 
-        // Update charge status
-        var newTotalPaid = currentPaid + request.PaidAmount;
-        charge.Status = newTotalPaid >= charge.AmountDue
-            ? UnitChargeStatus.Paid
-            : UnitChargeStatus.PartiallyPaid;
+        await _db.SaveChangesAsync();
+        return Ok(MapLateFeeRuleDto(rule));
+    }
+
+    [HttpPost("late-fees/run")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<LateFeeRunResult>> RunLateFees([FromQuery] int buildingId)
+    {
+        if (!await HasBuildingAccessAsync(buildingId)) return Forbid();
+
+        var result = await _lateFeeService.ApplyLateFeesAsync(buildingId);
+        return Ok(result);
+    }
+
+    [HttpPost("charges/{id}/waive")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<IActionResult> WaiveLateFee(int id, [FromBody] WaiveLateFeeRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Reason))
+            return BadRequest(new { message = "A reason is required to waive a late fee." });
+
+        var charge = await _db.UnitCharges
+            .Include(uc => uc.Unit)
+            .Include(uc => uc.Allocations)
+            .FirstOrDefaultAsync(uc => uc.Id == id);
+        if (charge == null) return NotFound();
+        if (!await HasBuildingAccessAsync(charge.Unit.BuildingId)) return Forbid();
+
+        if (charge.ChargeType != UnitChargeType.LateFee)
+            return BadRequest(new { message = "Only late fees can be waived." });
+        if (charge.WaivedAtUtc != null)
+            return BadRequest(new { message = "This late fee has already been waived." });
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var paid = charge.Allocations.Sum(a => a.AllocatedAmount);
+        var waived = charge.AmountDue - paid;
+        if (waived <= 0)
+            return BadRequest(new { message = "This late fee is already paid in full." });
+
+        // Whatever was already paid stays; only the unpaid remainder is written off
+        charge.AmountDue = paid;
+        charge.Status = paid > 0 ? UnitChargeStatus.Paid : UnitChargeStatus.Cancelled;
+        charge.WaivedAtUtc = DateTime.UtcNow;
+        charge.WaivedByUserId = userId;
+        charge.WaiverReason = request.Reason.Trim();
+
+        var lastBalance = await _db.LedgerEntries
+            .Where(le => le.UnitId == charge.UnitId)
+            .OrderByDescending(le => le.Id)
+            .Select(le => (decimal?)le.BalanceAfter)
+            .FirstOrDefaultAsync() ?? 0m;
 
-        // Ledger entry
         _db.LedgerEntries.Add(new LedgerEntry
         {
             BuildingId = charge.Unit.BuildingId,
             UnitId = charge.UnitId,
-            EntryType = LedgerEntryType.Payment,
-            Category = "HOAMonthlyFees",
-            Description = $"Manual payment ({request.Method}): {request.Reference ?? ""}",
-            ReferenceId = payment.Id,
+            EntryType = LedgerEntryType.Adjustment,
+            Category = nameof(IncomeCategory.LateFees),
+            Description = $"Late fee waived: {charge.WaiverReason}",
+            ReferenceId = charge.Id,
             Debit = 0,
-            Credit = request.PaidAmount,
-            BalanceAfter = 0,
-            CreatedAtUtc = DateTime.UtcNow
+            Credit = waived,
+            BalanceAfter = lastBalance - waived
         });
 
-        // Audit log
         _db.AuditLogs.Add(new AuditLog
         {
-            Action = "ManualPayment",
+            Action = "WaiveLateFee",
             EntityName = "UnitCharge",
-            EntityId = unitChargeId.ToString(),
+            EntityId = id.ToString(),
             PerformedBy = userId,
-            Details = $"Added manual payment of {request.PaidAmount:F2} via {request.Method}. Ref: {request.Reference}. Notes: {request.Notes}. Old paid: {currentPaid:F2}, New paid: {newTotalPaid:F2}, Status: {charge.Status}"
+            Details = $"Waived {waived:F2} of late fee ({charge.Description}). Reason: {charge.WaiverReason}"
         });
 
         await _db.SaveChangesAsync();
+        return NoContent();
+    }
+
+    // ─── Manual Payment CRUD ──────────────────────────────
+
+    [HttpPost("charges/{unitChargeId}/manual-payment")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<ManualPaymentResultDto>> AddManualPayment(int unitChargeId, [FromBody] ManualPaymentRequest request)
+    {
+        var charge = await _db.UnitCharges
+            .Include(uc => uc.Unit)
+            .Include(uc => uc.Allocations)
+            .FirstOrDefaultAsync(uc => uc.Id == unitChargeId);
+        if (charge == null) return NotFound();
+
+        var (payment, _, error) = await RecordManualPaymentAsync(new List<UnitCharge> { charge }, request);
+        if (error != null) return error;
 
+        var newTotalPaid = charge.Allocations.Sum(a => a.AllocatedAmount);
         return Ok(new ManualPaymentResultDto
         {
-            PaymentId = payment.Id,
+            PaymentId = payment!.Id,
             UnitChargeId = unitChargeId,
             AmountDue = charge.AmountDue,
             AmountPaid = newTotalPaid,
@@ -323,32 +562,69 @@ public class HOAController : ControllerBase
         });
     }
 
+    /// <summary>One manual payment for several charges of a unit, allocated oldest charge first.</summary>
+    [HttpPost("units/{unitId}/manual-payment")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<UnitManualPaymentResultDto>> AddUnitManualPayment(int unitId, [FromBody] UnitManualPaymentRequest request)
+    {
+        var ids = request.UnitChargeIds.Distinct().ToList();
+        var charges = await _db.UnitCharges
+            .Include(uc => uc.Unit)
+            .Include(uc => uc.Allocations)
+            .Where(uc => ids.Contains(uc.Id) && uc.UnitId == unitId)
+            .ToListAsync();
+        if (charges.Count == 0 || charges.Count != ids.Count) return NotFound();
+
+        var (payment, allocations, error) = await RecordManualPaymentAsync(charges, request);
+        if (error != null) return error;
+
+        return Ok(new UnitManualPaymentResultDto
+        {
+            PaymentId = payment!.Id,
+            Amount = payment.Amount,
+            Allocations = allocations.Select(a => new PaymentAllocationDto
+            {
+                UnitChargeId = a.UnitChargeId,
+                Period = a.UnitCharge.Period,
+                ChargeType = a.UnitCharge.ChargeType,
+                Allocated = a.AllocatedAmount,
+                Outstanding = PaymentPlanCalculator.Outstanding(a.UnitCharge),
+                Status = a.UnitCharge.Status
+            }).ToList()
+        });
+    }
+
     [HttpPut("manual-payments/{paymentId}")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Finance)]
     public async Task<IActionResult> EditManualPayment(int paymentId, [FromBody] ManualPaymentRequest request)
     {
         var payment = await _db.Payments
             .Include(p => p.Allocations)
             .FirstOrDefaultAsync(p => p.Id == paymentId);
         if (payment == null) return NotFound();
+        if (!await HasUnitAccessAsync(payment.UnitId)) return Forbid();
         if (!payment.IsManual)
             return BadRequest(new { message = "Only manual payments can be edited." });
+        if (await _db.PaymentRefunds.AnyAsync(r => r.PaymentId == paymentId && !r.IsDeleted))
+            return BadRequest(new { message = "Payments with refunds cannot be edited." });
 
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
         var oldAmount = payment.Amount;
 
-        // Get linked charge via allocation
-        var allocation = payment.Allocations.FirstOrDefault();
-        if (allocation == null) return BadRequest(new { message = "No allocation found for this payment." });
-
-        var charge = await _db.UnitCharges
+        // Get linked charges via allocations
+        if (payment.Allocations.Count == 0) return BadRequest(new { message = "No allocation found for this payment." });
+        var chargeIds = payment.Allocations.Select(a => a.UnitChargeId).ToList();
+        var charges = await _db.UnitCharges
             .Include(uc => uc.Allocations)
-            .FirstOrDefaultAsync(uc => uc.Id == allocation.UnitChargeId);
-        if (charge == null) return NotFound();
+            .Where(uc => chargeIds.Contains(uc.Id))
+            .ToListAsync();
+
+        // Take this payment off its charges, then spread the new amount over them again
+        foreach (var allocation in payment.Allocations)
+            allocation.AllocatedAmount = 0;
 
         // Check new amount won't cause overpayment
-        var otherPaid = (charge.Allocations?.Sum(a => a.AllocatedAmount) ?? 0) - allocation.AllocatedAmount;
-        var maxAllowed = charge.AmountDue - otherPaid;
+        var maxAllowed = PaymentAllocator.Outstanding(charges);
         if (request.PaidAmount > maxAllowed)
             return BadRequest(new { message = $"Amount ({request.PaidAmount:F2}) exceeds outstanding balance ({maxAllowed:F2})." });
 
@@ -359,16 +635,16 @@ public class HOAController : ControllerBase
         payment.ProviderReference = request.Reference;
         payment.Notes = request.Notes;
 
-        // Update allocation
-        allocation.AllocatedAmount = request.PaidAmount;
-
-        // Update charge status
-        var newTotalPaid = otherPaid + request.PaidAmount;
-        charge.Status = newTotalPaid >= charge.AmountDue
-            ? UnitChargeStatus.Paid
-            : newTotalPaid > 0
-                ? UnitChargeStatus.PartiallyPaid
-                : UnitChargeStatus.Pending;
+        // Update allocations, oldest charge first
+        var remaining = request.PaidAmount;
+        foreach (var charge in PaymentAllocator.OldestFirst(charges))
+        {
+            var allocation = payment.Allocations.First(a => a.UnitChargeId == charge.Id);
+            allocation.AllocatedAmount = Math.Min(PaymentPlanCalculator.Outstanding(charge), remaining);
+            remaining -= allocation.AllocatedAmount;
+        }
+        foreach (var charge in charges)
+            charge.Status = PaymentAllocator.ChargeStatus(charge, DateTime.UtcNow);
 
         // Audit log
         _db.AuditLogs.Add(new AuditLog
@@ -385,57 +661,56 @@ public class HOAController : ControllerBase
     }
 
     [HttpDelete("manual-payments/{paymentId}")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Finance)]
     public async Task<IActionResult> DeleteManualPayment(int paymentId)
     {
         var payment = await _db.Payments
             .Include(p => p.Allocations)
             .FirstOrDefaultAsync(p => p.Id == paymentId);
         if (payment == null) return NotFound();
+        if (!await HasUnitAccessAsync(payment.UnitId)) return Forbid();
         if (!payment.IsManual)
             return BadRequest(new { message = "Only manual payments can be removed." });
+        if (await _db.PaymentRefunds.AnyAsync(r => r.PaymentId == paymentId && !r.IsDeleted))
+            return BadRequest(new { message = "Payments with refunds cannot be removed." });
 
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
-        var allocation = payment.Allocations.FirstOrDefault();
 
         // Mark payment as cancelled (no hard delete)
         payment.Status = PaymentStatus.Cancelled;
         payment.Notes = (payment.Notes ?? "") + $" [Cancelled by {userId} at {DateTime.UtcNow:u}]";
 
-        // Zero out the allocation
-        if (allocation != null)
-        {
-            var charge = await _db.UnitCharges
-                .Include(uc => uc.Allocations)
-                .FirstOrDefaultAsync(uc => uc.Id == allocation.UnitChargeId);
+        // Zero out the allocations and reopen their charges
+        var chargeIds = payment.Allocations.Select(a => a.UnitChargeId).ToList();
+        var charges = await _db.UnitCharges
+            .Include(uc => uc.Unit)
+            .Include(uc => uc.Allocations)
+            .Where(uc => chargeIds.Contains(uc.Id))
+            .ToListAsync();
 
+        foreach (var allocation in payment.Allocations)
+        {
+            var charge = charges.FirstOrDefault(c => c.Id == allocation.UnitChargeId);
+            var reversed = allocation.AllocatedAmount;
             allocation.AllocatedAmount = 0;
+            if (charge == null) continue;
+
+            charge.Status = PaymentAllocator.ChargeStatus(charge, DateTime.UtcNow);
 
-            if (charge != null)
+            // Reversal ledger entry
+            _db.LedgerEntries.Add(new LedgerEntry
             {
-                var newTotalPaid = (charge.Allocations?.Sum(a => a.AllocatedAmount) ?? 0) - payment.Amount;
-                if (newTotalPaid < 0) newTotalPaid = 0;
-                charge.Status = newTotalPaid >= charge.AmountDue
-                    ? UnitChargeStatus.Paid
-                    : newTotalPaid > 0
-                        ? UnitChargeStatus.PartiallyPaid
-                        : (charge.DueDate < DateTime.UtcNow ? UnitChargeStatus.Overdue : UnitChargeStatus.Pending);
-
-                // Reversal ledger entry
-                _db.LedgerEntries.Add(new LedgerEntry
-                {
-                    BuildingId = charge.Unit?.BuildingId ?? 0,
-                    UnitId = charge.UnitId,
-                    EntryType = LedgerEntryType.Adjustment,
-                    Category = "PaymentReversal",
-                    Description = $"Cancelled manual payment #{paymentId}",
-                    ReferenceId = paymentId,
-                    Debit = payment.Amount,
-                    Credit = 0,
-                    BalanceAfter = 0,
-                    CreatedAtUtc = DateTime.UtcNow
-                });
-            }
+                BuildingId = charge.Unit?.BuildingId ?? 0,
+                UnitId = charge.UnitId,
+                EntryType = LedgerEntryType.Adjustment,
+                Category = "PaymentReversal",
+                Description = $"Cancelled manual payment #{paymentId}",
+                ReferenceId = paymentId,
+                Debit = reversed,
+                Credit = 0,
+                BalanceAfter = 0,
+                CreatedAtUtc = DateTime.UtcNow
+            });
         }
 
         // Audit log
@@ -454,15 +729,40 @@ public class HOAController : ControllerBase
 
     /// <summary>Get all payments for a specific charge.</summary>
     [HttpGet("charges/{unitChargeId}/payments")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Finance)]
     public async Task<ActionResult<List<ChargePaymentDto>>> GetChargePayments(int unitChargeId)
     {
+        var charge = await _db.UnitCharges.FindAsync(unitChargeId);
+        if (charge == null) return NotFound();
+        if (!await HasUnitAccessAsync(charge.UnitId)) return Forbid();
+
         var allocations = await _db.PaymentAllocations
             .Include(pa => pa.Payment)
             .Where(pa => pa.UnitChargeId == unitChargeId && pa.AllocatedAmount > 0)
             .OrderByDescending(pa => pa.Payment.PaymentDateUtc)
             .ToListAsync();
 
+        // A fully refunded payment has no allocation left but still belongs in the list
+        var refundedPaymentIds = await _db.PaymentRefundAllocations
+            .Where(ra => ra.UnitChargeId == unitChargeId)
+            .Select(ra => ra.PaymentRefund.PaymentId)
+            .Distinct()
+            .ToListAsync();
+        var missing = refundedPaymentIds.Except(allocations.Select(a => a.PaymentId)).ToList();
+        if (missing.Count > 0)
+        {
+            allocations.AddRange(await _db.PaymentAllocations
+                .Include(pa => pa.Payment)
+                .Where(pa => pa.UnitChargeId == unitChargeId && missing.Contains(pa.PaymentId))
+                .ToListAsync());
+            allocations = allocations.OrderByDescending(pa => pa.Payment.PaymentDateUtc).ToList();
+        }
+
+        var paymentIds = allocations.Select(a => a.PaymentId).ToList();
+        var refunds = await _db.PaymentRefunds
+            .Where(r => paymentIds.Contains(r.PaymentId) && !r.IsDeleted)
+            .ToListAsync();
+
         var result = new List<ChargePaymentDto>();
         foreach (var a in allocations)
         {
@@ -483,7 +783,11 @@ public class HOAController : ControllerBase
                 Notes = a.Payment.Notes,
                 EnteredByName = enteredByName,
                 Status = a.Payment.Status,
-                CreatedAtUtc = a.Payment.CreatedAtUtc
+                CreatedAtUtc = a.Payment.CreatedAtUtc,
+                PaymentAmount = a.Payment.Amount,
+                RefundedAmount = refunds.Where(r => r.PaymentId == a.PaymentId && PaymentRefundCalculator.Counts(r)).Sum(r => r.Amount),
+                HasOpenChargeback = refunds.Any(r => r.PaymentId == a.PaymentId
+                    && r.Type == PaymentRefundType.Chargeback && r.ChargebackStatus == ChargebackStatus.Open)
             });
         }
         return Ok(result);
@@ -498,15 +802,120 @@ public class HOAController : ControllerBase
             UnitId = uc.UnitId,
             UnitNumber = uc.Unit?.UnitNumber,
             Floor = uc.Unit?.Floor,
-            TenantName = uc.Unit?.TenantUser?.FullName ?? uc.Unit?.OwnerName,
+            TenantName = uc.Unit != null ? BillingPartyResolver.PayerName(uc.Unit, uc.Party) : null,
             HOAFeePlanId = uc.HOAFeePlanId,
+            SpecialAssessmentId = uc.SpecialAssessmentId,
+            InstallmentNumber = uc.InstallmentNumber,
             Period = uc.Period,
             AmountDue = uc.AmountDue,
             AmountPaid = paid,
             Balance = uc.AmountDue - paid,
             DueDate = uc.DueDate,
             Status = uc.Status,
+            ChargeType = uc.ChargeType,
+            Party = uc.Party,
+            SourceChargeId = uc.SourceChargeId,
+            Description = uc.Description,
+            WaivedAtUtc = uc.WaivedAtUtc,
+            WaiverReason = uc.WaiverReason,
             CreatedAtUtc = uc.CreatedAtUtc
         };
     }
+
+    private static LateFeeRuleDto MapLateFeeRuleDto(LateFeeRule r) => new()
+    {
+        Id = r.Id,
+        BuildingId = r.BuildingId,
+        IsEnabled = r.IsEnabled,
+        FeeType = r.FeeType,
+        Amount = r.Amount,
+        GraceDays = r.GraceDays,
+        MaxFeePerCharge = r.MaxFeePerCharge,
+        UpdatedAtUtc = r.UpdatedAtUtc ?? r.CreatedAtUtc
+    };
+
+    private Task<bool> HasBuildingAccessAsync(int buildingId)
+        => _permissions.CanAccessBuildingAsync(this, PermissionResource.Finance, buildingId);
+
+    private async Task<bool> HasUnitAccessAsync(int unitId)
+    {
+        var buildingId = await _db.Units.Where(u => u.Id == unitId).Select(u => (int?)u.BuildingId).FirstOrDefaultAsync();
+        return buildingId.HasValue && await HasBuildingAccessAsync(buildingId.Value);
+    }
+
+    /// <summary>
+    /// Records a manual payment and allocates it to the charges oldest first, with a ledger entry and
+    /// audit entry per charge. The charges must belong to one unit, with Unit and Allocations loaded.
+    /// </summary>
+    private async Task<(Payment? Payment, List<PaymentAllocation> Allocations, ActionResult? Error)> RecordManualPaymentAsync(
+        List<UnitCharge> charges, ManualPaymentRequest request)
+    {
+        var none = new List<PaymentAllocation>();
+        if (request.PaidAmount <= 0)
+            return (null, none, BadRequest(new { message = "Amount must be greater than zero." }));
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var unit = charges[0].Unit;
+
+        if (!await HasBuildingAccessAsync(unit.BuildingId)) return (null, none, Forbid());
+
+        // Check for overpayment
+        var outstanding = PaymentAllocator.Outstanding(charges);
+        if (request.PaidAmount > outstanding)
+            return (null, none, BadRequest(new { message = $"Amount ({request.PaidAmount:F2}) exceeds outstanding balance ({outstanding:F2})." }));
+
+        var paidBefore = charges.ToDictionary(c => c.Id, c => c.Allocations.Sum(a => a.AllocatedAmount));
+
+        // Create Payment record
+        var payment = new Payment
+        {
+            UnitId = unit.Id,
+            UserId = userId,
+            Amount = request.PaidAmount,
+            PaymentDateUtc = request.PaidAt ?? DateTime.UtcNow,
+            Status = PaymentStatus.Succeeded,
+            IsManual = true,
+            ManualMethodType = request.Method,
+            ProviderReference = request.Reference,
+            Notes = request.Notes,
+            EnteredByUserId = userId
+        };
+        _db.Payments.Add(payment);
+        await _db.SaveChangesAsync();
+
+        // Allocate oldest first (updates charge statuses)
+        var allocations = PaymentAllocator.Allocate(payment, charges, request.PaidAmount, DateTime.UtcNow);
+        foreach (var a in allocations)
+        {
+            var charge = a.UnitCharge;
+
+            // Ledger entry
+            _db.LedgerEntries.Add(new LedgerEntry
+            {
+                BuildingId = unit.BuildingId,
+                UnitId = unit.Id,
+                EntryType = LedgerEntryType.Payment,
+                Category = charge.LedgerCategory,
+                Description = $"Manual payment ({request.Method}): {request.Reference ?? ""}",
+                ReferenceId = payment.Id,
+                Debit = 0,
+                Credit = a.AllocatedAmount,
+                BalanceAfter = 0,
+                CreatedAtUtc = DateTime.UtcNow
+            });
+
+            // Audit log
+            _db.AuditLogs.Add(new AuditLog
+            {
+                Action = "ManualPayment",
+                EntityName = "UnitCharge",
+                EntityId = charge.Id.ToString(),
+                PerformedBy = userId,
+                Details = $"Added manual payment #{payment.Id} of {request.PaidAmount:F2} via {request.Method}, {a.AllocatedAmount:F2} to this charge. Ref: {request.Reference}. Notes: {request.Notes}. Old paid: {paidBefore[charge.Id]:F2}, New paid: {paidBefore[charge.Id] + a.AllocatedAmount:F2}, Status: {charge.Status}"
+            });
+        }
+
+        await _db.SaveChangesAsync();
+        return (payment, allocations, null);
+    }
 }
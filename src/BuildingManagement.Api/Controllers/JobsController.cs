@@ -1,3 +1,4 @@
+using BuildingManagement.Api.Authorization;
 using BuildingManagement.Core.DTOs;
 using BuildingManagement.Core.Enums;
 using BuildingManagement.Infrastructure.Data;
@@ -10,7 +11,8 @@ namespace BuildingManagement.Api.Controllers;
 
 [ApiController]
 [Route("api/jobs")]
-[Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+[Authorize]
+[RequirePermission(PermissionResource.Maintenance)]
 public class JobsController : ControllerBase
 {
     private readonly MaintenanceJobService _jobService;
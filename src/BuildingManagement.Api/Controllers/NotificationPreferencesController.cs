@@ -0,0 +1,322 @@
+using BuildingManagement.Api.Authorization;
+using BuildingManagement.Core.DTOs;
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Core.Entities.Notifications;
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Core.Interfaces;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using System.Globalization;
+using System.Security.Claims;
+
+namespace BuildingManagement.Api.Controllers;
+
+/// <summary>
+/// A tenant's channel preferences, opt-outs, notification types, quiet hours and language, the record of their
+/// consent changes, and the browsers they subscribed to web push.
+/// </summary>
+[ApiController]
+[Route("api/notifications")]
+[Authorize]
+public class NotificationPreferencesController : ControllerBase
+{
+    private readonly AppDbContext _db;
+    private readonly IPushSender _pushSender;
+    private readonly ITenantNotifier _notifier;
+
+    public NotificationPreferencesController(AppDbContext db, IPushSender pushSender, ITenantNotifier notifier)
+    {
+        _db = db;
+        _pushSender = pushSender;
+        _notifier = notifier;
+    }
+
+    // ─── Preferences ────────────────────────────────────
+
+    private static readonly ReminderChannel[] SingleChannels =
+        [ReminderChannel.Sms, ReminderChannel.Email, ReminderChannel.WhatsApp, ReminderChannel.Push];
+
+    [HttpGet("preferences")]
+    [Authorize(Roles = AppRoles.Tenant)]
+    public async Task<ActionResult<NotificationPreferencesDto>> GetPreferences()
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var tenants = await GetActiveTenantProfilesAsync(userId);
+        if (tenants.Count == 0) return NotFound(new { message = "No active tenancy." });
+
+        return Ok(await MapPreferencesAsync(userId, tenants[0]));
+    }
+
+    /// <summary>
+    /// Saves the preferences for every active tenancy of the user; each is kept the same. The language is the
+    /// user's, and announcement consent is the tenant profile's marketing consent. Every changed setting is added to
+    /// the tenancy's consent log.
+    /// </summary>
+    [HttpPut("preferences")]
+    [Authorize(Roles = AppRoles.Tenant)]
+    public async Task<ActionResult<NotificationPreferencesDto>> SavePreferences([FromBody] SaveNotificationPreferencesRequest request)
+    {
+        if (request.PreferredChannel == ReminderChannel.Both || !Enum.IsDefined(request.PreferredChannel))
+            return BadRequest(new { message = "Choose one preferred channel." });
+        if ((request.QuietHoursStart == null) != (request.QuietHoursEnd == null))
+            return BadRequest(new { message = "Set both the start and the end of quiet hours, or neither." });
+        if (request.QuietHoursStart != null && request.QuietHoursStart == request.QuietHoursEnd)
+            return BadRequest(new { message = "Quiet hours must start and end at different times." });
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var tenants = await GetActiveTenantProfilesAsync(userId);
+        if (tenants.Count == 0) return NotFound(new { message = "No active tenancy." });
+
+        var saved = new TenantNotificationPreferences
+        {
+            PreferredChannel = request.PreferredChannel,
+            SmsOptOut = request.SmsOptOut,
+            EmailOptOut = request.EmailOptOut,
+            WhatsAppOptOut = request.WhatsAppOptOut,
+            PushOptOut = request.PushOptOut,
+            PaymentReminders = request.PaymentReminders,
+            TicketUpdates = request.TicketUpdates,
+            QuietHoursStart = ParseTime(request.QuietHoursStart),
+            QuietHoursEnd = ParseTime(request.QuietHoursEnd)
+        };
+        if (saved.IsOptedOut(saved.PreferredChannel))
+            return BadRequest(new { message = "You cannot opt out of your preferred channel." });
+
+        var user = await _db.Users.FindAsync(userId);
+        var previousLanguage = user?.PreferredLanguage;
+        if (user != null) user.PreferredLanguage = request.Language;
+
+        var ip = HttpContext.Connection.RemoteIpAddress?.ToString();
+        var userAgent = Request.Headers.UserAgent.FirstOrDefault() is { } ua ? ua[..Math.Min(ua.Length, 300)] : null;
+        var tenantIds = tenants.Select(t => t.Id).ToList();
+        var existing = await _db.TenantNotificationPreferences.Where(p => tenantIds.Contains(p.TenantProfileId)).ToListAsync();
+        var changedSettings = new HashSet<string>();
+        foreach (var tenant in tenants)
+        {
+            var prefs = existing.FirstOrDefault(p => p.TenantProfileId == tenant.Id);
+            var changes = Changes(prefs ?? new TenantNotificationPreferences(), tenant.MarketingConsent, saved, request.BuildingAnnouncements);
+            if (previousLanguage != request.Language)
+                changes.Add(("Language", previousLanguage, request.Language));
+
+            foreach (var (setting, oldValue, newValue) in changes)
+            {
+                changedSettings.Add(setting);
+                _db.NotificationConsentLogs.Add(new NotificationConsentLog
+                {
+                    TenantProfileId = tenant.Id,
+                    Setting = setting,
+                    OldValue = oldValue,
+                    NewValue = newValue,
+                    Source = "Tenant",
+                    ChangedByUserId = userId,
+                    IpAddress = ip,
+                    UserAgent = userAgent
+                });
+            }
+
+            if (prefs == null)
+            {
+                prefs = new TenantNotificationPreferences { TenantProfileId = tenant.Id };
+                _db.TenantNotificationPreferences.Add(prefs);
+            }
+
+            prefs.PreferredChannel = saved.PreferredChannel;
+            prefs.SmsOptOut = saved.SmsOptOut;
+            prefs.EmailOptOut = saved.EmailOptOut;
+            prefs.WhatsAppOptOut = saved.WhatsAppOptOut;
+            prefs.PushOptOut = saved.PushOptOut;
+            prefs.PaymentReminders = saved.PaymentReminders;
+            prefs.TicketUpdates = saved.TicketUpdates;
+            prefs.QuietHoursStart = saved.QuietHoursStart;
+            prefs.QuietHoursEnd = saved.QuietHoursEnd;
+            prefs.UpdatedAtUtc = DateTime.UtcNow;
+            prefs.UpdatedByUserId = userId;
+            tenant.MarketingConsent = request.BuildingAnnouncements;
+        }
+
+        var optedOut = SingleChannels.Where(saved.IsOptedOut).ToList();
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = "UpdateNotificationPreferences",
+            EntityName = "TenantNotificationPreferences",
+            EntityId = string.Join(",", tenantIds),
+            PerformedBy = userId,
+            Details = $"Preferred: {saved.PreferredChannel}. Opted out: {(optedOut.Count > 0 ? string.Join(", ", optedOut) : "none")}. " +
+                      $"Changed: {(changedSettings.Count > 0 ? string.Join(", ", changedSettings) : "nothing")}"
+        });
+
+        await _db.SaveChangesAsync();
+        return Ok(await MapPreferencesAsync(userId, tenants[0]));
+    }
+
+    // ─── Consent log ────────────────────────────────────
+
+    [HttpGet("consent-log")]
+    [Authorize(Roles = AppRoles.Tenant)]
+    public async Task<ActionResult<List<NotificationConsentLogDto>>> GetMyConsentLog()
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var tenants = await GetActiveTenantProfilesAsync(userId);
+        if (tenants.Count == 0) return NotFound(new { message = "No active tenancy." });
+
+        return Ok(await LoadConsentLogAsync(tenants[0].Id));
+    }
+
+    [HttpGet("tenants/{tenantProfileId}/preferences")]
+    [RequirePermission(PermissionResource.Tenants)]
+    public async Task<ActionResult<NotificationPreferencesDto>> GetTenantPreferences(int tenantProfileId)
+    {
+        var tenant = await _db.TenantProfiles.FirstOrDefaultAsync(t => t.Id == tenantProfileId);
+        if (tenant == null) return NotFound();
+
+        return Ok(await MapPreferencesAsync(tenant.UserId, tenant));
+    }
+
+    /// <summary>Every change to what the tenant agreed to receive, newest first, for answering a complaint or an audit.</summary>
+    [HttpGet("tenants/{tenantProfileId}/consent-log")]
+    [RequirePermission(PermissionResource.Tenants)]
+    public async Task<ActionResult<List<NotificationConsentLogDto>>> GetTenantConsentLog(int tenantProfileId)
+    {
+        if (!await _db.TenantProfiles.AnyAsync(t => t.Id == tenantProfileId)) return NotFound();
+        return Ok(await LoadConsentLogAsync(tenantProfileId));
+    }
+
+    // ─── Web Push ───────────────────────────────────────
+
+    [HttpGet("push/public-key")]
+    public ActionResult<object> GetPushPublicKey() => Ok(new { publicKey = _pushSender.PublicKey });
+
+    /// <summary>Registers the browser's push subscription for the user; re-subscribing the same browser updates it.</summary>
+    [HttpPost("push/subscriptions")]
+    public async Task<IActionResult> SavePushSubscription([FromBody] SavePushSubscriptionRequest request)
+    {
+        if (_pushSender.PublicKey == null)
+            return BadRequest(new { message = "Push notifications are not configured." });
+        if (!Uri.TryCreate(request.Endpoint, UriKind.Absolute, out var endpoint) || endpoint.Scheme != Uri.UriSchemeHttps)
+            return BadRequest(new { message = "Invalid push endpoint." });
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var subscription = await _db.PushSubscriptions.FirstOrDefaultAsync(s => s.Endpoint == request.Endpoint);
+        if (subscription == null)
+        {
+            subscription = new PushSubscription { Endpoint = request.Endpoint };
+            _db.PushSubscriptions.Add(subscription);
+        }
+
+        subscription.UserId = userId;
+        subscription.P256dh = request.P256dh;
+        subscription.Auth = request.Auth;
+        subscription.UserAgent = Request.Headers.UserAgent.FirstOrDefault() is { } ua ? ua[..Math.Min(ua.Length, 300)] : null;
+        await _db.SaveChangesAsync();
+
+        return NoContent();
+    }
+
+    [HttpDelete("push/subscriptions")]
+    public async Task<IActionResult> DeletePushSubscription([FromQuery] string endpoint)
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var subscription = await _db.PushSubscriptions.FirstOrDefaultAsync(s => s.Endpoint == endpoint && s.UserId == userId);
+        if (subscription == null) return NotFound();
+
+        _db.PushSubscriptions.Remove(subscription);
+        await _db.SaveChangesAsync();
+        return NoContent();
+    }
+
+    /// <summary>Pushes a test notification to every browser of the user.</summary>
+    [HttpPost("push/test")]
+    public async Task<ActionResult<PushSendResult>> SendTestPush([FromBody] TestPushRequest request)
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var result = await _notifier.PushToUserAsync(userId, request.Title, request.Body, request.Url);
+        return result.Success ? Ok(result) : BadRequest(new { message = result.Error });
+    }
+
+    // ─── Helpers ─────────────────────────────────────────
+
+    private Task<List<TenantProfile>> GetActiveTenantProfilesAsync(string userId)
+        => _db.TenantProfiles
+            .Where(t => t.UserId == userId && t.IsActive && !t.IsDeleted)
+            .OrderByDescending(t => t.CreatedAtUtc)
+            .ToListAsync();
+
+    private async Task<NotificationPreferencesDto> MapPreferencesAsync(string? userId, TenantProfile tenant)
+    {
+        var prefs = await _db.TenantNotificationPreferences.FirstOrDefaultAsync(p => p.TenantProfileId == tenant.Id);
+        var user = userId != null ? await _db.Users.FindAsync(userId) : null;
+        return new NotificationPreferencesDto
+        {
+            PreferredChannel = prefs?.PreferredChannel ?? ReminderChannel.Email,
+            SmsOptOut = prefs?.SmsOptOut ?? false,
+            EmailOptOut = prefs?.EmailOptOut ?? false,
+            WhatsAppOptOut = prefs?.WhatsAppOptOut ?? false,
+            PushOptOut = prefs?.PushOptOut ?? false,
+            PaymentReminders = prefs?.PaymentReminders ?? true,
+            TicketUpdates = prefs?.TicketUpdates ?? true,
+            BuildingAnnouncements = tenant.MarketingConsent,
+            QuietHoursStart = FormatTime(prefs?.QuietHoursStart),
+            QuietHoursEnd = FormatTime(prefs?.QuietHoursEnd),
+            Language = user?.PreferredLanguage ?? "he",
+            UpdatedAtUtc = prefs?.UpdatedAtUtc,
+            Phone = tenant.Phone,
+            Email = tenant.Email ?? user?.Email,
+            PushDevices = userId != null ? await _db.PushSubscriptions.CountAsync(s => s.UserId == userId) : 0,
+            PushPublicKey = _pushSender.PublicKey
+        };
+    }
+
+    private async Task<List<NotificationConsentLogDto>> LoadConsentLogAsync(int tenantProfileId)
+    {
+        var logs = await _db.NotificationConsentLogs
+            .Where(l => l.TenantProfileId == tenantProfileId)
+            .OrderByDescending(l => l.ChangedAtUtc).ThenByDescending(l => l.Id)
+            .ToListAsync();
+        var userIds = logs.Where(l => l.ChangedByUserId != null).Select(l => l.ChangedByUserId!).Distinct().ToList();
+        var names = await _db.Users.Where(u => userIds.Contains(u.Id)).ToDictionaryAsync(u => u.Id, u => u.FullName);
+
+        return logs.Select(l => new NotificationConsentLogDto
+        {
+            Id = l.Id,
+            Setting = l.Setting,
+            OldValue = l.OldValue,
+            NewValue = l.NewValue,
+            Source = l.Source,
+            ChangedByName = l.ChangedByUserId != null ? names.GetValueOrDefault(l.ChangedByUserId) : null,
+            IpAddress = l.IpAddress,
+            ChangedAtUtc = l.ChangedAtUtc
+        }).ToList();
+    }
+
+    /// <summary>The consent-relevant settings that differ, as (setting, old value, new value).</summary>
+    private static List<(string Setting, string? OldValue, string? NewValue)> Changes(
+        TenantNotificationPreferences before, bool consentBefore, TenantNotificationPreferences after, bool consentAfter)
+    {
+        var changes = new List<(string, string?, string?)>();
+        void Compare(string setting, object? oldValue, object? newValue)
+        {
+            if (!Equals(oldValue, newValue)) changes.Add((setting, oldValue?.ToString(), newValue?.ToString()));
+        }
+
+        Compare("PreferredChannel", before.PreferredChannel, after.PreferredChannel);
+        Compare("SmsOptOut", before.SmsOptOut, after.SmsOptOut);
+        Compare("EmailOptOut", before.EmailOptOut, after.EmailOptOut);
+        Compare("WhatsAppOptOut", before.WhatsAppOptOut, after.WhatsAppOptOut);
+        Compare("PushOptOut", before.PushOptOut, after.PushOptOut);
+        Compare("PaymentReminders", before.PaymentReminders, after.PaymentReminders);
+        Compare("TicketUpdates", before.TicketUpdates, after.TicketUpdates);
+        Compare("MarketingConsent", consentBefore, consentAfter);
+        Compare("QuietHours", QuietHoursText(before), QuietHoursText(after));
+        return changes;
+    }
+
+    private static string? QuietHoursText(TenantNotificationPreferences prefs)
+        => prefs.QuietHoursStart != null ? $"{FormatTime(prefs.QuietHoursStart)}-{FormatTime(prefs.QuietHoursEnd)}" : null;
+
+    private static TimeOnly? ParseTime(string? hhmm)
+        => hhmm != null ? TimeOnly.ParseExact(hhmm, "HH:mm", CultureInfo.InvariantCulture) : null;
+
+    private static string? FormatTime(TimeOnly? time) => time?.ToString("HH:mm", CultureInfo.InvariantCulture);
+}
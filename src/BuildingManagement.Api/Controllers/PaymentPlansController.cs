@@ -0,0 +1,445 @@
+using BuildingManagement.Api.Authorization;
+using BuildingManagement.Core.DTOs;
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Core.Entities.Finance;
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Core.Interfaces;
+using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using System.Security.Claims;
+
+namespace BuildingManagement.Api.Controllers;
+
+/// <summary>
+/// Debt arrangements: a unit's overdue charges consolidated into monthly installments.
+/// Managers offer plans directly; tenants request them and a manager approves.
+/// </summary>
+[ApiController]
+[Route("api/payment-plans")]
+[Authorize]
+public class PaymentPlansController : ControllerBase
+{
+    private readonly AppDbContext _db;
+    private readonly IPaymentPlanService _paymentPlanService;
+    private readonly PermissionService _permissions;
+
+    public PaymentPlansController(AppDbContext db, IPaymentPlanService paymentPlanService, PermissionService permissions)
+    {
+        _db = db;
+        _paymentPlanService = paymentPlanService;
+        _permissions = permissions;
+    }
+
+    // ─── Manager ────────────────────────────────────────
+
+    [HttpGet]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<List<PaymentPlanDto>>> GetAll([FromQuery] int buildingId, [FromQuery] PaymentPlanStatus? status)
+    {
+        if (!await CanAccessBuilding(buildingId)) return Forbid();
+
+        var query = PlansQuery().Where(p => p.BuildingId == buildingId);
+        if (status.HasValue)
+            query = query.Where(p => p.Status == status);
+        var plans = await query.OrderByDescending(p => p.CreatedAtUtc).ToListAsync();
+
+        return Ok(plans.Select(p => MapDto(Refresh(p))).ToList());
+    }
+
+    /// <summary>Offer a plan for a unit's overdue charges. Starts immediately.</summary>
+    [HttpPost]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<PaymentPlanDto>> Create([FromBody] CreatePaymentPlanRequest request)
+    {
+        var unit = await _db.Units.FindAsync(request.UnitId);
+        if (unit == null) return NotFound();
+        if (!await CanAccessBuilding(unit.BuildingId)) return Forbid();
+        if (await HasOpenPlan(unit.Id, request.Party))
+            return BadRequest(new { message = "This unit already has an open payment plan." });
+
+        var plan = new PaymentPlan
+        {
+            BuildingId = unit.BuildingId,
+            UnitId = unit.Id,
+            Party = request.Party,
+            ManagerNote = request.Note,
+            CreatedBy = User.FindFirst(ClaimTypes.NameIdentifier)?.Value
+        };
+
+        if (request.StandingOrderId.HasValue)
+        {
+            var error = await ValidateStandingOrder(request.StandingOrderId.Value, unit.Id);
+            if (error != null) return BadRequest(new { message = error });
+            plan.StandingOrderId = request.StandingOrderId;
+        }
+
+        var startError = await StartPlan(plan, request.InstallmentCount, request.FirstDueDate);
+        if (startError != null) return BadRequest(new { message = startError });
+
+        _db.PaymentPlans.Add(plan);
+        await _db.SaveChangesAsync();
+        AddAudit("CreatePaymentPlan", plan, $"Offered plan for unit {unit.UnitNumber}: {plan.TotalAmount:F2} in {plan.InstallmentCount} installments from {plan.FirstDueDate:yyyy-MM-dd}");
+        await _db.SaveChangesAsync();
+
+        return Ok(MapDto(await PlansQuery().FirstAsync(p => p.Id == plan.Id)));
+    }
+
+    /// <summary>Approve a tenant's request. The debt is re-read, so charges paid meanwhile drop out.</summary>
+    [HttpPost("{id}/approve")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<IActionResult> Approve(int id, [FromBody] ApprovePaymentPlanRequest request)
+    {
+        var plan = await _db.PaymentPlans.FirstOrDefaultAsync(p => p.Id == id && !p.IsDeleted);
+        if (plan == null) return NotFound();
+        if (!await CanAccessBuilding(plan.BuildingId)) return Forbid();
+        if (plan.Status != PaymentPlanStatus.Requested)
+            return BadRequest(new { message = "Only requested plans can be approved." });
+
+        var error = await StartPlan(plan, request.InstallmentCount, request.FirstDueDate);
+        if (error != null) return BadRequest(new { message = error });
+
+        plan.ManagerNote = request.Note;
+        AddAudit("ApprovePaymentPlan", plan, $"Approved: {plan.TotalAmount:F2} in {plan.InstallmentCount} installments from {plan.FirstDueDate:yyyy-MM-dd}");
+        await _db.SaveChangesAsync();
+        return NoContent();
+    }
+
+    [HttpPost("{id}/reject")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<IActionResult> Reject(int id, [FromBody] RejectPaymentPlanRequest request)
+    {
+        var plan = await _db.PaymentPlans.FirstOrDefaultAsync(p => p.Id == id && !p.IsDeleted);
+        if (plan == null) return NotFound();
+        if (!await CanAccessBuilding(plan.BuildingId)) return Forbid();
+        if (plan.Status != PaymentPlanStatus.Requested)
+            return BadRequest(new { message = "Only requested plans can be rejected." });
+
+        plan.Status = PaymentPlanStatus.Rejected;
+        plan.ManagerNote = request.Reason;
+        plan.UpdatedBy = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        AddAudit("RejectPaymentPlan", plan, request.Reason ?? "Rejected");
+        await _db.SaveChangesAsync();
+        return NoContent();
+    }
+
+    /// <summary>Run the adherence check now instead of waiting for the daily job.</summary>
+    [HttpPost("check")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<PaymentPlanCheckResult>> CheckAdherence([FromQuery] int buildingId)
+    {
+        if (!await CanAccessBuilding(buildingId)) return Forbid();
+        return Ok(await _paymentPlanService.CheckAdherenceAsync(buildingId));
+    }
+
+    // ─── Manager & Tenant ───────────────────────────────
+
+    [HttpGet("{id}")]
+    public async Task<ActionResult<PaymentPlanDto>> Get(int id)
+    {
+        var plan = await PlansQuery().FirstOrDefaultAsync(p => p.Id == id);
+        if (plan == null) return NotFound();
+        if (!await CanAccessPlan(plan)) return Forbid();
+        return Ok(MapDto(Refresh(plan)));
+    }
+
+    /// <summary>Overdue charges a new plan for the unit would consolidate.</summary>
+    [HttpGet("unit/{unitId}/debt")]
+    public async Task<ActionResult<UnitDebtDto>> GetUnitDebt(int unitId, [FromQuery] BillingParty? party)
+    {
+        var unit = await _db.Units.FindAsync(unitId);
+        if (unit == null) return NotFound();
+        if (!await CanAccessUnit(unit)) return Forbid();
+
+        // Tenants only ever arrange the debt they are billed for
+        if (User.IsInRole(AppRoles.Tenant))
+            party = BillingPartyResolver.PartyOfUser(unit, User.FindFirst(ClaimTypes.NameIdentifier)!.Value);
+
+        var charges = await LoadOverdueCharges(unitId, party);
+        var openPlanId = await OpenPlans(unitId, party)
+            .Select(p => (int?)p.Id)
+            .FirstOrDefaultAsync();
+
+        return Ok(new UnitDebtDto
+        {
+            UnitId = unit.Id,
+            UnitNumber = unit.UnitNumber,
+            Party = party,
+            TotalOutstanding = charges.Sum(PaymentPlanCalculator.Outstanding),
+            OpenPlanId = openPlanId,
+            Charges = charges.Select(c => MapCharge(c, PaymentPlanCalculator.Outstanding(c))).ToList()
+        });
+    }
+
+    /// <summary>Withdraw a request (tenant or manager), or end an active plan (manager).</summary>
+    [HttpPost("{id}/cancel")]
+    public async Task<IActionResult> Cancel(int id)
+    {
+        var plan = await _db.PaymentPlans.Include(p => p.Unit).FirstOrDefaultAsync(p => p.Id == id && !p.IsDeleted);
+        if (plan == null) return NotFound();
+        if (!await CanAccessPlan(plan)) return Forbid();
+
+        var isManager = AppRoles.Staff.Any(User.IsInRole);
+        if (plan.Status != PaymentPlanStatus.Requested
+            && !(isManager && (plan.Status == PaymentPlanStatus.Active || plan.Status == PaymentPlanStatus.Defaulted)))
+            return BadRequest(new { message = "This plan cannot be cancelled." });
+
+        plan.Status = PaymentPlanStatus.Cancelled;
+        plan.UpdatedBy = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        AddAudit("CancelPaymentPlan", plan, "Cancelled");
+        await _db.SaveChangesAsync();
+        return NoContent();
+    }
+
+    /// <summary>Link the standing order that pays the installments, or unlink it.</summary>
+    [HttpPut("{id}/standing-order")]
+    public async Task<IActionResult> LinkStandingOrder(int id, [FromBody] LinkStandingOrderRequest request)
+    {
+        var plan = await _db.PaymentPlans.Include(p => p.Unit).FirstOrDefaultAsync(p => p.Id == id && !p.IsDeleted);
+        if (plan == null) return NotFound();
+        if (!await CanAccessPlan(plan)) return Forbid();
+        if (!OpenStatuses.Contains(plan.Status))
+            return BadRequest(new { message = "This plan is closed." });
+
+        if (request.StandingOrderId.HasValue)
+        {
+            var error = await ValidateStandingOrder(request.StandingOrderId.Value, plan.UnitId);
+            if (error != null) return BadRequest(new { message = error });
+        }
+
+        plan.StandingOrderId = request.StandingOrderId;
+        plan.UpdatedBy = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        await _db.SaveChangesAsync();
+        return NoContent();
+    }
+
+    // ─── Tenant ─────────────────────────────────────────
+
+    [HttpGet("my")]
+    [Authorize(Roles = AppRoles.Tenant)]
+    public async Task<ActionResult<List<PaymentPlanDto>>> GetMy()
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var plans = await PlansQuery()
+            .Where(p => (p.Party != BillingParty.Owner && p.Unit.TenantUserId == userId)
+                || (p.Party != BillingParty.Resident && p.Unit.OwnerUserId == userId))
+            .OrderByDescending(p => p.CreatedAtUtc)
+            .ToListAsync();
+
+        return Ok(plans.Select(p => MapDto(Refresh(p))).ToList());
+    }
+
+    [HttpPost("request")]
+    [Authorize(Roles = AppRoles.Tenant)]
+    public async Task<ActionResult<PaymentPlanDto>> RequestPlan([FromBody] RequestPaymentPlanRequest request)
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var unit = await _db.Units.FindAsync(request.UnitId);
+        if (unit == null) return NotFound();
+        if (!BillingPartyResolver.IsPayerOfUnit(unit, userId)) return Forbid();
+
+        var party = BillingPartyResolver.PartyOfUser(unit, userId);
+        if (await HasOpenPlan(unit.Id, party))
+            return BadRequest(new { message = "You already have an open payment plan for this unit." });
+
+        var charges = await LoadOverdueCharges(unit.Id, party);
+        if (charges.Count == 0)
+            return BadRequest(new { message = "There is no overdue balance to arrange." });
+
+        // Snapshot the debt so the manager sees what was asked for; approval re-reads it
+        var plan = new PaymentPlan
+        {
+            BuildingId = unit.BuildingId,
+            UnitId = unit.Id,
+            Status = PaymentPlanStatus.Requested,
+            Party = party,
+            RequestedByTenant = true,
+            RequestNote = request.Note,
+            InstallmentCount = request.InstallmentCount,
+            TotalAmount = charges.Sum(PaymentPlanCalculator.Outstanding),
+            FirstDueDate = DateTime.UtcNow.Date,
+            CreatedBy = userId,
+            Charges = charges.Select(c => new PaymentPlanCharge { UnitChargeId = c.Id, OutstandingAtStart = PaymentPlanCalculator.Outstanding(c) }).ToList()
+        };
+        _db.PaymentPlans.Add(plan);
+        await _db.SaveChangesAsync();
+
+        return Ok(MapDto(await PlansQuery().FirstAsync(p => p.Id == plan.Id)));
+    }
+
+    // ─── Helpers ────────────────────────────────────────
+
+    private static readonly PaymentPlanStatus[] OpenStatuses =
+        [PaymentPlanStatus.Requested, PaymentPlanStatus.Active, PaymentPlanStatus.Defaulted];
+
+    private IQueryable<PaymentPlan> PlansQuery()
+        => _db.PaymentPlans
+            .Include(p => p.Building)
+            .Include(p => p.Unit).ThenInclude(u => u.TenantUser)
+            .Include(p => p.Unit).ThenInclude(u => u.OwnerUser)
+            .Include(p => p.StandingOrder)
+            .Include(p => p.Installments)
+            .Include(p => p.Charges).ThenInclude(pc => pc.UnitCharge).ThenInclude(uc => uc.Allocations)
+            .Where(p => !p.IsDeleted);
+
+    /// <summary>Open plans that would overlap a plan for the party: same party, or either covers all parties.</summary>
+    private IQueryable<PaymentPlan> OpenPlans(int unitId, BillingParty? party)
+        => _db.PaymentPlans.Where(p => p.UnitId == unitId && !p.IsDeleted && OpenStatuses.Contains(p.Status)
+            && (party == null || p.Party == null || p.Party == party));
+
+    private Task<bool> HasOpenPlan(int unitId, BillingParty? party) => OpenPlans(unitId, party).AnyAsync();
+
+    private async Task<List<UnitCharge>> LoadOverdueCharges(int unitId, BillingParty? party)
+    {
+        var today = DateTime.UtcNow.Date;
+        var charges = await _db.UnitCharges
+            .Include(uc => uc.Allocations)
+            .Where(uc => uc.UnitId == unitId
+                && (party == null || uc.Party == party)
+                && uc.DueDate < today
+                && (uc.Status == UnitChargeStatus.Pending
+                    || uc.Status == UnitChargeStatus.PartiallyPaid
+                    || uc.Status == UnitChargeStatus.Overdue))
+            .OrderBy(uc => uc.DueDate)
+            .ToListAsync();
+        return charges.Where(c => PaymentPlanCalculator.Outstanding(c) > 0).ToList();
+    }
+
+    /// <summary>Consolidate the unit's current overdue charges and lay out the installments.</summary>
+    private async Task<string?> StartPlan(PaymentPlan plan, int installmentCount, DateTime firstDueDate)
+    {
+        if (installmentCount < 2 || installmentCount > 36)
+            return "Installments must be between 2 and 36.";
+        var firstDue = DateTime.SpecifyKind(firstDueDate.Date, DateTimeKind.Utc);
+        if (firstDue < DateTime.UtcNow.Date)
+            return "The first installment cannot be due in the past.";
+
+        var charges = await LoadOverdueCharges(plan.UnitId, plan.Party);
+        if (charges.Count == 0)
+            return "This unit has no overdue balance to arrange.";
+
+        // An approved request replaces the snapshot taken when the tenant asked
+        if (plan.Id != 0)
+            _db.PaymentPlanCharges.RemoveRange(await _db.PaymentPlanCharges.Where(pc => pc.PaymentPlanId == plan.Id).ToListAsync());
+        plan.Charges = charges
+            .Select(c => new PaymentPlanCharge { UnitChargeId = c.Id, OutstandingAtStart = PaymentPlanCalculator.Outstanding(c) })
+            .ToList();
+        plan.TotalAmount = plan.Charges.Sum(c => c.OutstandingAtStart);
+        plan.InstallmentCount = installmentCount;
+        plan.FirstDueDate = firstDue;
+        plan.Installments = PaymentPlanCalculator.BuildSchedule(plan.TotalAmount, installmentCount, firstDue);
+        plan.Status = PaymentPlanStatus.Active;
+        plan.ApprovedAtUtc = DateTime.UtcNow;
+        plan.ApprovedBy = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        return null;
+    }
+
+    /// <summary>Apply payments made so far to the installments, in memory, so reads show live adherence.</summary>
+    private static PaymentPlan Refresh(PaymentPlan plan)
+    {
+        if (plan.Status == PaymentPlanStatus.Active || plan.Status == PaymentPlanStatus.Defaulted)
+            plan.Status = PaymentPlanCalculator.Apply(plan.Installments.ToList(),
+                PaymentPlanCalculator.PaidTowardPlan(plan.Charges), DateTime.UtcNow.Date, DateTime.UtcNow);
+        return plan;
+    }
+
+    private async Task<string?> ValidateStandingOrder(int standingOrderId, int unitId)
+    {
+        var order = await _db.StandingOrders.FindAsync(standingOrderId);
+        if (order == null || order.UnitId != unitId)
+            return "Standing order not found for this unit.";
+        if (order.Status == StandingOrderStatus.Cancelled)
+            return "This standing order is cancelled.";
+        return null;
+    }
+
+    private void AddAudit(string action, PaymentPlan plan, string details)
+    {
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = action,
+            EntityName = "PaymentPlan",
+            EntityId = plan.Id.ToString(),
+            PerformedBy = User.FindFirst(ClaimTypes.NameIdentifier)?.Value,
+            Details = details
+        });
+    }
+
+    private static PaymentPlanChargeDto MapCharge(UnitCharge c, decimal outstandingAtStart) => new()
+    {
+        UnitChargeId = c.Id,
+        Period = c.Period,
+        ChargeType = c.ChargeType,
+        Description = c.Description,
+        DueDate = c.DueDate,
+        OutstandingAtStart = outstandingAtStart,
+        Outstanding = PaymentPlanCalculator.Outstanding(c)
+    };
+
+    private static PaymentPlanDto MapDto(PaymentPlan p)
+    {
+        var paid = p.Installments.Sum(i => i.AmountPaid);
+        return new PaymentPlanDto
+        {
+            Id = p.Id,
+            BuildingId = p.BuildingId,
+            BuildingName = p.Building?.Name,
+            UnitId = p.UnitId,
+            UnitNumber = p.Unit?.UnitNumber,
+            TenantName = p.Unit != null ? BillingPartyResolver.PayerName(p.Unit, p.Party ?? BillingParty.Resident) : null,
+            Status = p.Status,
+            Party = p.Party,
+            RequestedByTenant = p.RequestedByTenant,
+            RequestNote = p.RequestNote,
+            ManagerNote = p.ManagerNote,
+            TotalAmount = p.TotalAmount,
+            AmountPaid = paid,
+            Remaining = p.Installments.Count > 0 ? p.TotalAmount - paid : p.TotalAmount,
+            InstallmentCount = p.InstallmentCount,
+            FirstDueDate = p.FirstDueDate,
+            MissedInstallments = p.Installments.Count(i => i.Status == PaymentPlanInstallmentStatus.Missed),
+            NextDueDate = p.Installments
+                .Where(i => i.Status != PaymentPlanInstallmentStatus.Paid)
+                .OrderBy(i => i.InstallmentNumber)
+                .Select(i => (DateTime?)i.DueDate)
+                .FirstOrDefault(),
+            StandingOrderId = p.StandingOrderId,
+            StandingOrderStatus = p.StandingOrder?.Status,
+            CreatedAtUtc = p.CreatedAtUtc,
+            ApprovedAtUtc = p.ApprovedAtUtc,
+            Installments = p.Installments.OrderBy(i => i.InstallmentNumber).Select(i => new PaymentPlanInstallmentDto
+            {
+                InstallmentNumber = i.InstallmentNumber,
+                DueDate = i.DueDate,
+                Amount = i.Amount,
+                AmountPaid = i.AmountPaid,
+                Status = i.Status,
+                PaidAtUtc = i.PaidAtUtc
+            }).ToList(),
+            Charges = p.Charges.OrderBy(c => c.UnitCharge.DueDate).Select(c => MapCharge(c.UnitCharge, c.OutstandingAtStart)).ToList()
+        };
+    }
+
+    private async Task<bool> CanAccessPlan(PaymentPlan plan)
+    {
+        if (User.IsInRole(AppRoles.Tenant))
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+            return (plan.Party != BillingParty.Owner && plan.Unit.TenantUserId == userId)
+                || (plan.Party != BillingParty.Resident && plan.Unit.OwnerUserId == userId);
+        }
+        return await CanAccessBuilding(plan.BuildingId);
+    }
+
+    private async Task<bool> CanAccessUnit(Unit unit)
+    {
+        if (User.IsInRole(AppRoles.Tenant))
+            return BillingPartyResolver.IsPayerOfUnit(unit, User.FindFirst(ClaimTypes.NameIdentifier)!.Value);
+        return await CanAccessBuilding(unit.BuildingId);
+    }
+
+    private Task<bool> CanAccessBuilding(int buildingId)
+        => _permissions.CanAccessBuildingAsync(this, PermissionResource.Finance, buildingId);
+}
@@ -1,24 +1,42 @@
+using BuildingManagement.Api.Authorization;
+using BuildingManagement.Api.Configuration;
 using BuildingManagement.Core.DTOs;
 using BuildingManagement.Core.Entities.Finance;
 using BuildingManagement.Core.Enums;
+using BuildingManagement.Core.Interfaces;
 using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using System.Diagnostics;
 using System.Security.Claims;
 
 namespace BuildingManagement.Api.Controllers;
 
 [ApiController]
 [Route("api/payment-config")]
-[Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+[Authorize]
+[RequirePermission(PermissionResource.Finance)]
 public class PaymentProviderConfigController : ControllerBase
 {
     private readonly AppDbContext _db;
+    private readonly IPaymentGatewayFactory _gatewayFactory;
+    private readonly ILogger<PaymentProviderConfigController> _logger;
+    private readonly PermissionService _permissions;
+    private readonly IConfiguration _configuration;
 
-    public PaymentProviderConfigController(AppDbContext db)
+    /// <summary>How long a connection test waits for each provider call.</summary>
+    private static readonly TimeSpan TestCallTimeout = TimeSpan.FromSeconds(20);
+
+    public PaymentProviderConfigController(AppDbContext db, IPaymentGatewayFactory gatewayFactory, ILogger<PaymentProviderConfigController> logger,
+        PermissionService permissions, IConfiguration configuration)
     {
         _db = db;
+        _gatewayFactory = gatewayFactory;
+        _logger = logger;
+        _permissions = permissions;
+        _configuration = configuration;
     }
 
     [HttpGet]
@@ -27,6 +45,10 @@ public class PaymentProviderConfigController : ControllerBase
         IQueryable<PaymentProviderConfig> q = _db.Set<PaymentProviderConfig>().Include(c => c.Building);
         if (buildingId.HasValue)
             q = q.Where(c => c.BuildingId == buildingId || c.BuildingId == null);
+        if (!User.IsInRole(AppRoles.Admin))
+            q = q.Where(c => c.BuildingId != null);
+        if (await _permissions.VisibleBuildingIdsAsync(this, PermissionResource.Finance) is { } visible)
+            q = q.Where(c => c.BuildingId == null || visible.Contains(c.BuildingId.Value));
 
         var configs = await q.OrderBy(c => c.BuildingId).ToListAsync();
         return Ok(configs.Select(MapDto).ToList());
@@ -37,6 +59,7 @@ public class PaymentProviderConfigController : ControllerBase
     {
         var config = await _db.Set<PaymentProviderConfig>().Include(c => c.Building).FirstOrDefaultAsync(c => c.Id == id);
         if (config == null) return NotFound();
+        if (!await CanAccessConfig(config.BuildingId)) return Forbid();
         return Ok(MapDto(config));
     }
 
@@ -45,6 +68,7 @@ public class PaymentProviderConfigController : ControllerBase
     {
         if (!Enum.TryParse<PaymentProviderType>(req.ProviderType, true, out var pt))
             return BadRequest(new { message = $"Invalid provider type: {req.ProviderType}" });
+        if (!await CanAccessConfig(req.BuildingId)) return Forbid();
 
         var config = new PaymentProviderConfig
         {
@@ -59,6 +83,8 @@ public class PaymentProviderConfigController : ControllerBase
             SupportedFeatures = (ProviderFeatures)req.SupportedFeatures,
             Currency = req.Currency,
             BaseUrl = req.BaseUrl,
+            SimulatorScenario = req.SimulatorScenario,
+            SimulatorDelaySeconds = req.SimulatorDelaySeconds,
             CreatedBy = User.FindFirst(ClaimTypes.NameIdentifier)?.Value
         };
 
@@ -73,6 +99,7 @@ public class PaymentProviderConfigController : ControllerBase
     {
         var config = await _db.Set<PaymentProviderConfig>().FindAsync(id);
         if (config == null) return NotFound();
+        if (!await CanAccessConfig(config.BuildingId) || !await CanAccessConfig(req.BuildingId)) return Forbid();
 
         if (Enum.TryParse<PaymentProviderType>(req.ProviderType, true, out var pt))
             config.ProviderType = pt;
@@ -86,6 +113,8 @@ public class PaymentProviderConfigController : ControllerBase
         config.SupportedFeatures = (ProviderFeatures)req.SupportedFeatures;
         config.Currency = req.Currency;
         config.BaseUrl = req.BaseUrl;
+        config.SimulatorScenario = req.SimulatorScenario;
+        config.SimulatorDelaySeconds = req.SimulatorDelaySeconds;
         config.UpdatedBy = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
 
         await _db.SaveChangesAsync();
@@ -97,6 +126,7 @@ public class PaymentProviderConfigController : ControllerBase
     {
         var config = await _db.Set<PaymentProviderConfig>().FindAsync(id);
         if (config == null) return NotFound();
+        if (!await CanAccessConfig(config.BuildingId)) return Forbid();
         config.IsDeleted = true;
         await _db.SaveChangesAsync();
         return NoContent();
@@ -108,6 +138,128 @@ public class PaymentProviderConfigController : ControllerBase
         return Ok(Enum.GetNames<PaymentProviderType>());
     }
 
+    // ─── Connection Test ────────────────────────────────
+
+    /// <summary>
+    /// Checks the config before tenants hit a broken checkout: the Key Vault references the provider needs,
+    /// then a dry payment session and (when enabled) a tokenization session. Nothing is charged and no
+    /// payment is recorded; the outcome is saved on the config.
+    /// </summary>
+    [HttpPost("{id}/test")]
+    public async Task<ActionResult<PaymentProviderTestResultDto>> TestConnection(int id)
+    {
+        var config = await _db.Set<PaymentProviderConfig>().FirstOrDefaultAsync(c => c.Id == id);
+        if (config == null) return NotFound();
+        if (!await CanAccessConfig(config.BuildingId)) return Forbid();
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var gateway = _gatewayFactory.GetGateway(config.ProviderType);
+        var buildingId = config.BuildingId ?? 0;
+        var frontendBase = _configuration.FrontendBaseUrl();
+        var steps = new List<PaymentProviderTestStepDto>();
+
+        var missing = MissingCredentialRefs(config);
+        steps.Add(new PaymentProviderTestStepDto
+        {
+            Step = "Configuration",
+            Success = missing.Count == 0,
+            Message = missing.Count == 0 ? null : $"Missing Key Vault references: {string.Join(", ", missing)}"
+        });
+
+        if (missing.Count == 0)
+        {
+            steps.Add(await RunTestStepAsync("PaymentSession", async ct =>
+            {
+                var r = await gateway.CreatePaymentSessionAsync(new CreatePaymentSessionRequest(
+                    BuildingId: buildingId, UnitChargeId: 0, UserId: userId,
+                    UserEmail: User.FindFirst(ClaimTypes.Email)?.Value ?? "",
+                    UserName: User.FindFirst(ClaimTypes.Name)?.Value ?? "",
+                    Amount: 1m, Currency: config.Currency, Description: "Connection test",
+                    SuccessUrl: $"{frontendBase}/payment/success", CancelUrl: $"{frontendBase}/payment/cancel",
+                    WebhookUrl: "", IdempotencyKey: $"test-{config.Id}-{Guid.NewGuid():N}"), ct);
+                return (r.Success && r.PaymentUrl != null, r.Success ? $"Session {r.SessionId} created" : r.Error);
+            }));
+
+            if (config.SupportedFeatures.HasFlag(ProviderFeatures.Tokenization))
+            {
+                steps.Add(await RunTestStepAsync("Tokenization", async ct =>
+                {
+                    var r = await gateway.TokenizePaymentMethodAsync(new TokenizeRequest(
+                        BuildingId: buildingId, UserId: userId,
+                        UserEmail: User.FindFirst(ClaimTypes.Email)?.Value ?? "",
+                        UserName: User.FindFirst(ClaimTypes.Name)?.Value ?? "",
+                        SuccessUrl: $"{frontendBase}/payment/success?type=tokenize",
+                        CancelUrl: $"{frontendBase}/payment/cancel?type=tokenize", WebhookUrl: ""), ct);
+                    return (r.Success, r.Error);
+                }));
+            }
+        }
+
+        var failed = steps.FirstOrDefault(s => !s.Success);
+        config.LastTestedAtUtc = DateTime.UtcNow;
+        config.LastTestSucceeded = failed == null;
+        config.LastTestMessage = failed?.Message?[..Math.Min(failed.Message.Length, 1000)];
+        await _db.SaveChangesAsync();
+
+        _logger.LogInformation("Connection test of payment config {Id} ({Provider}): {Result}",
+            config.Id, config.ProviderType, failed == null ? "OK" : failed.Message);
+
+        return Ok(new PaymentProviderTestResultDto
+        {
+            Success = failed == null,
+            ProviderType = config.ProviderType.ToString(),
+            TestedAtUtc = config.LastTestedAtUtc.Value,
+            Steps = steps
+        });
+    }
+
+    /// <summary>Building configs follow the Finance permission on their building; the global config is for admins only.</summary>
+    private async Task<bool> CanAccessConfig(int? buildingId) => buildingId == null
+        ? User.IsInRole(AppRoles.Admin)
+        : await _permissions.CanAccessBuildingAsync(this, PermissionResource.Finance, buildingId.Value);
+
+    /// <summary>Runs one provider call with a timeout; exceptions and timeouts fail the step instead of the request.</summary>
+    private static async Task<PaymentProviderTestStepDto> RunTestStepAsync(string step, Func<CancellationToken, Task<(bool Success, string? Message)>> call)
+    {
+        using var cts = new CancellationTokenSource(TestCallTimeout);
+        var sw = Stopwatch.StartNew();
+        try
+        {
+            var (success, message) = await call(cts.Token);
+            return new PaymentProviderTestStepDto { Step = step, Success = success, Message = message, DurationMs = sw.ElapsedMilliseconds };
+        }
+        catch (OperationCanceledException)
+        {
+            return new PaymentProviderTestStepDto { Step = step, Success = false, Message = $"No response within {TestCallTimeout.TotalSeconds:0} seconds.", DurationMs = sw.ElapsedMilliseconds };
+        }
+        catch (Exception ex)
+        {
+            return new PaymentProviderTestStepDto { Step = step, Success = false, Message = ex.Message, DurationMs = sw.ElapsedMilliseconds };
+        }
+    }
+
+    /// <summary>Key Vault references each provider needs to create sessions and verify webhooks.</summary>
+    private static List<string> MissingCredentialRefs(PaymentProviderConfig c)
+    {
+        var required = c.ProviderType switch
+        {
+            PaymentProviderType.Meshulam => new[] { nameof(c.MerchantIdRef), nameof(c.ApiPasswordRef), nameof(c.WebhookSecretRef) },
+            PaymentProviderType.Pelecard => new[] { nameof(c.TerminalIdRef), nameof(c.ApiUserRef), nameof(c.ApiPasswordRef), nameof(c.WebhookSecretRef) },
+            PaymentProviderType.Tranzila => new[] { nameof(c.TerminalIdRef), nameof(c.ApiPasswordRef), nameof(c.WebhookSecretRef) },
+            PaymentProviderType.PayPal => new[] { nameof(c.MerchantIdRef), nameof(c.ApiPasswordRef), nameof(c.WebhookSecretRef) },
+            _ => Array.Empty<string>()
+        };
+        var values = new Dictionary<string, string?>
+        {
+            [nameof(c.MerchantIdRef)] = c.MerchantIdRef,
+            [nameof(c.TerminalIdRef)] = c.TerminalIdRef,
+            [nameof(c.ApiUserRef)] = c.ApiUserRef,
+            [nameof(c.ApiPasswordRef)] = c.ApiPasswordRef,
+            [nameof(c.WebhookSecretRef)] = c.WebhookSecretRef
+        };
+        return required.Where(r => string.IsNullOrWhiteSpace(values[r])).ToList();
+    }
+
     private static PaymentProviderConfigDto MapDto(PaymentProviderConfig c) => new()
     {
         Id = c.Id,
@@ -122,6 +274,11 @@ public class PaymentProviderConfigController : ControllerBase
         WebhookSecretRef = c.WebhookSecretRef,
         SupportedFeatures = (int)c.SupportedFeatures,
         Currency = c.Currency,
-        BaseUrl = c.BaseUrl
+        BaseUrl = c.BaseUrl,
+        SimulatorScenario = c.SimulatorScenario,
+        SimulatorDelaySeconds = c.SimulatorDelaySeconds,
+        LastTestedAtUtc = c.LastTestedAtUtc,
+        LastTestSucceeded = c.LastTestSucceeded,
+        LastTestMessage = c.LastTestMessage
     };
 }
@@ -1,10 +1,17 @@
+using System.Linq.Expressions;
 using System.Security.Cryptography;
 using System.Text;
+using BuildingManagement.Api.Authorization;
+using BuildingManagement.Api.Configuration;
 using BuildingManagement.Core.DTOs;
+using BuildingManagement.Core.Entities;
 using BuildingManagement.Core.Entities.Finance;
+using BuildingManagement.Core.Entities.Notifications;
 using BuildingManagement.Core.Enums;
 using BuildingManagement.Core.Interfaces;
 using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
+using BuildingManagement.Infrastructure.Services.Gateways;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
@@ -22,83 +29,164 @@ public class PaymentsController : ControllerBase
     private readonly IEmailService _emailService;
     private readonly IAccountingDocProvider _docProvider;
     private readonly ILogger<PaymentsController> _logger;
+    private readonly PaymentLinkSigner _linkSigner;
+    private readonly PermissionService _permissions;
+    private readonly IConfiguration _configuration;
 
-    public PaymentsController(AppDbContext db, IPaymentGatewayFactory gatewayFactory, IEmailService emailService, IAccountingDocProvider docProvider, ILogger<PaymentsController> logger)
+    /// <summary>Ledger adjustments of refunds and chargebacks; they reference the refund, not a charge.</summary>
+    private const string RefundLedgerCategory = "PaymentRefund";
+
+    public PaymentsController(AppDbContext db, IPaymentGatewayFactory gatewayFactory, IEmailService emailService, IAccountingDocProvider docProvider, ILogger<PaymentsController> logger,
+        PaymentLinkSigner linkSigner, PermissionService permissions, IConfiguration configuration)
     {
         _db = db;
         _gatewayFactory = gatewayFactory;
         _emailService = emailService;
         _docProvider = docProvider;
         _logger = logger;
+        _linkSigner = linkSigner;
+        _permissions = permissions;
+        _configuration = configuration;
     }
 
     // ─── Hosted Payment Session (Pay Now) ───────────────
 
     [HttpPost("session/{unitChargeId}")]
     [Authorize(Roles = $"{AppRoles.Tenant},{AppRoles.Admin},{AppRoles.Manager}")]
-    public async Task<ActionResult<CreatePaymentSessionResponse>> CreatePaymentSession(int unitChargeId)
+    public Task<ActionResult<CreatePaymentSessionResponse>> CreatePaymentSession(int unitChargeId)
+        => CreateCheckoutSession(new CheckoutChargesRequest { UnitChargeIds = new List<int> { unitChargeId } });
+
+    /// <summary>Hosted checkout for several charges, or the unit's full balance, paid in one transaction.</summary>
+    [HttpPost("session")]
+    [Authorize(Roles = $"{AppRoles.Tenant},{AppRoles.Admin},{AppRoles.Manager}")]
+    public async Task<ActionResult<CreatePaymentSessionResponse>> CreateCheckoutSession([FromBody] CheckoutChargesRequest request)
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
 
-        var charge = await _db.UnitCharges
-            .Include(uc => uc.Unit)
-            .Include(uc => uc.Allocations)
-            .FirstOrDefaultAsync(uc => uc.Id == unitChargeId);
-        if (charge == null) return NotFound();
+        var (charges, error) = await LoadCheckoutChargesAsync(request, userId);
+        if (error != null) return error;
 
-        if (User.IsInRole(AppRoles.Tenant) && charge.Unit.TenantUserId != userId)
-            return Forbid();
+        var frontendBase = _configuration.FrontendBaseUrl();
+        return await StartHostedCheckoutAsync(charges, userId,
+            User.FindFirst(ClaimTypes.Email)?.Value ?? "", User.FindFirst(ClaimTypes.Name)?.Value ?? "",
+            $"{frontendBase}/payment/success", $"{frontendBase}/payment/cancel", null);
+    }
+
+    // ─── Reminder Payment Links (no login) ──────────────
+
+    /// <summary>
+    /// What a reminder's signed payment link opens: the unit's open charges billed to the reminded party.
+    /// The page asks for <paramref name="countClick"/> once per browser session, so reloads and returns from a
+    /// cancelled checkout don't inflate the campaign's click stats.
+    /// </summary>
+    [HttpGet("link/{token}")]
+    [AllowAnonymous]
+    public async Task<ActionResult<PaymentLinkCheckoutDto>> GetPaymentLink(string token, [FromQuery] bool countClick = false)
+    {
+        var (recipient, error) = await LoadPaymentLinkAsync(token);
+        if (error != null) return error;
+
+        if (countClick)
+        {
+            recipient!.LinkClickCount++;
+            recipient.LinkFirstClickedAtUtc ??= DateTime.UtcNow;
+            await _db.SaveChangesAsync();
+        }
+
+        var (unit, charges) = await LoadPaymentLinkChargesAsync(recipient!);
+        return Ok(new PaymentLinkCheckoutDto
+        {
+            BuildingName = unit.Building.Name,
+            UnitNumber = unit.UnitNumber,
+            PayerName = recipient.FullNameSnapshot,
+            Charges = charges.Select(c => new PaymentLinkChargeDto
+            {
+                Id = c.Id,
+                Period = c.Period,
+                ChargeType = c.ChargeType,
+                DueDate = c.DueDate,
+                Balance = PaymentPlanCalculator.Outstanding(c)
+            }).ToList(),
+            Total = PaymentAllocator.Outstanding(charges),
+            ExpiresAtUtc = recipient.PaymentLinkExpiresAtUtc!.Value
+        });
+    }
+
+    /// <summary>Hosted checkout of everything the payment link shows, paid under the reminded payer's account.</summary>
+    [HttpPost("link/{token}/session")]
+    [AllowAnonymous]
+    public async Task<ActionResult<CreatePaymentSessionResponse>> CreatePaymentLinkSession(string token)
+    {
+        var (recipient, error) = await LoadPaymentLinkAsync(token);
+        if (error != null) return error;
 
-        var totalPaid = charge.Allocations.Sum(a => a.AllocatedAmount);
-        var remaining = charge.AmountDue - totalPaid;
-        if (remaining <= 0) return BadRequest(new { message = "Charge is already fully paid." });
+        var (unit, charges) = await LoadPaymentLinkChargesAsync(recipient!);
+        if (charges.Count == 0) return BadRequest(new { message = "There is nothing left to pay." });
 
-        var gateway = await _gatewayFactory.GetGatewayAsync(charge.Unit.BuildingId);
+        // Payments belong to a user: the payer's account, else the tenant's, else the manager who sent the reminder
+        var tenantUserId = recipient!.TenantProfileId == null ? null
+            : await _db.TenantProfiles.Where(tp => tp.Id == recipient.TenantProfileId).Select(tp => tp.UserId).FirstOrDefaultAsync();
+        var userId = BillingPartyResolver.PayerUserId(unit, unit.HOAFeePayer) ?? tenantUserId ?? recipient.Campaign.CreatedByUserId;
+
+        var frontendBase = _configuration.FrontendBaseUrl();
+        return await StartHostedCheckoutAsync(charges, userId, recipient.EmailSnapshot ?? "", recipient.FullNameSnapshot,
+            $"{frontendBase}/pay/{token}?status=success", $"{frontendBase}/pay/{token}?status=cancel", recipient.Id);
+    }
+
+    /// <summary>
+    /// Opens a hosted checkout for the charges (oldest first) with a pending Payment. The provider returns to
+    /// the success or cancel URL with the payment id appended.
+    /// </summary>
+    private async Task<ActionResult<CreatePaymentSessionResponse>> StartHostedCheckoutAsync(List<UnitCharge> charges, string userId,
+        string userEmail, string userName, string successUrl, string cancelUrl, int? campaignRecipientId)
+    {
+        var remaining = PaymentAllocator.Outstanding(charges);
+        if (remaining <= 0) return BadRequest(new { message = "The selected charges are already fully paid." });
+
+        var unit = charges[0].Unit;
+        var gateway = await _gatewayFactory.GetGatewayAsync(unit.BuildingId);
         var baseUrl = $"{Request.Scheme}://{Request.Host}";
-        var frontendBase = Request.Headers["Origin"].FirstOrDefault() ?? "http://localhost:5173";
 
         // Create pending Payment record first
         var payment = new Payment
         {
-            UnitId = charge.UnitId,
+            UnitId = unit.Id,
+            CheckoutChargeIds = charges.Select(c => c.Id).ToList(),
             UserId = userId,
             Amount = remaining,
-            Status = PaymentStatus.Pending
+            Status = PaymentStatus.Pending,
+            CampaignRecipientId = campaignRecipientId
         };
         _db.Payments.Add(payment);
         await _db.SaveChangesAsync();
 
+        string WithPaymentId(string url) => $"{url}{(url.Contains('?') ? '&' : '?')}payment_id={payment.Id}";
         var result = await gateway.CreatePaymentSessionAsync(new CreatePaymentSessionRequest(
-            BuildingId: charge.Unit.BuildingId,
-            UnitChargeId: unitChargeId,
+            BuildingId: unit.BuildingId,
+            UnitChargeId: charges[0].Id,
             UserId: userId,
-            UserEmail: User.FindFirst(ClaimTypes.Email)?.Value ?? "",
-            UserName: User.FindFirst(ClaimTypes.Name)?.Value ?? "",
+            UserEmail: userEmail,
+            UserName: userName,
             Amount: remaining,
             Currency: "ILS",
-            Description: $"HOA Payment - Unit {charge.Unit.UnitNumber} - {charge.Period}",
-            SuccessUrl: $"{frontendBase}/payment/success",
-            CancelUrl: $"{frontendBase}/payment/cancel",
+            Description: $"HOA Payment - Unit {unit.UnitNumber} - {string.Join(", ", charges.Select(c => c.Period).Distinct())}",
+            SuccessUrl: WithPaymentId(successUrl),
+            CancelUrl: WithPaymentId(cancelUrl),
             WebhookUrl: $"{baseUrl}/api/payments/webhook/{gateway.ProviderType}",
-            IdempotencyKey: $"pay-{unitChargeId}-{payment.Id}"));
+            IdempotencyKey: $"pay-{charges[0].Id}-{payment.Id}"));
 
         if (result.Success)
         {
             payment.ProviderReference = result.ProviderReference;
 
-            // For Fake gateway: auto-confirm the payment immediately so the
-            // full flow works in development without needing a real webhook callback.
-            if (gateway.ProviderType == PaymentProviderType.Fake)
+            // Fake gateway (approve scenario): the payment is already captured, so confirm it
+            // immediately — the full flow works in development without a webhook callback.
+            if (result.Completed)
             {
                 payment.Status = PaymentStatus.Succeeded;
-                // Reload charge with allocations to get accurate totals
-                charge = await _db.UnitCharges
-                    .Include(uc => uc.Unit).ThenInclude(u => u.TenantUser)
-                    .Include(uc => uc.Allocations)
-                    .FirstAsync(uc => uc.Id == unitChargeId);
-                await AllocatePaymentAsync(payment, charge, remaining);
-                _logger.LogInformation("FAKE: Auto-confirmed payment {PaymentId} for charge {ChargeId}, amount {Amount} ILS",
-                    payment.Id, unitChargeId, remaining);
+                await AllocatePaymentAsync(payment, charges, remaining);
+                _logger.LogInformation("FAKE: Auto-confirmed payment {PaymentId} for {Count} charge(s), amount {Amount} ILS",
+                    payment.Id, charges.Count, remaining);
 
                 // Issue receipt in background (best-effort, non-blocking)
                 _ = Task.Run(async () => { try { await IssueReceiptSafe(payment.Id); } catch { /* logged inside */ } });
@@ -106,6 +194,11 @@ public class PaymentsController : ControllerBase
 
             await _db.SaveChangesAsync();
         }
+        else
+        {
+            payment.Status = PaymentStatus.Failed;
+            await _db.SaveChangesAsync();
+        }
 
         return Ok(new CreatePaymentSessionResponse
         {
@@ -124,7 +217,7 @@ public class PaymentsController : ControllerBase
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
         var gateway = await _gatewayFactory.GetGatewayAsync(request.BuildingId);
-        var frontendBase = Request.Headers["Origin"].FirstOrDefault() ?? "http://localhost:5173";
+        var frontendBase = _configuration.FrontendBaseUrl();
         var baseUrl = $"{Request.Scheme}://{Request.Host}";
 
         var result = await gateway.TokenizePaymentMethodAsync(new TokenizeRequest(
@@ -262,23 +355,31 @@ public class PaymentsController : ControllerBase
 
     [HttpPost("pay/{unitChargeId}")]
     [Authorize(Roles = $"{AppRoles.Tenant},{AppRoles.Admin},{AppRoles.Manager}")]
-    public async Task<ActionResult<PaymentDto>> PayCharge(int unitChargeId, [FromBody] PayChargeRequest request)
+    public Task<ActionResult<PaymentDto>> PayCharge(int unitChargeId, [FromBody] PayChargeRequest request)
+        => PayCharges(new PayChargesRequest
+        {
+            UnitChargeIds = new List<int> { unitChargeId },
+            PaymentMethodId = request.PaymentMethodId,
+            Amount = request.Amount
+        });
+
+    /// <summary>
+    /// Pays several charges (or the unit's full balance) with a saved payment method in one charge.
+    /// The amount is allocated oldest charge first; one receipt is issued for the payment.
+    /// </summary>
+    [HttpPost("pay")]
+    [Authorize(Roles = $"{AppRoles.Tenant},{AppRoles.Admin},{AppRoles.Manager}")]
+    public async Task<ActionResult<PaymentDto>> PayCharges([FromBody] PayChargesRequest request)
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
 
-        var charge = await _db.UnitCharges
-            .Include(uc => uc.Unit)
-            .Include(uc => uc.Allocations)
-            .FirstOrDefaultAsync(uc => uc.Id == unitChargeId);
-        if (charge == null) return NotFound();
-
-        if (User.IsInRole(AppRoles.Tenant) && charge.Unit.TenantUserId != userId) return Forbid();
+        var (charges, error) = await LoadCheckoutChargesAsync(request, userId);
+        if (error != null) return error;
 
-        var totalPaid = charge.Allocations.Sum(a => a.AllocatedAmount);
-        var remaining = charge.AmountDue - totalPaid;
-        if (remaining <= 0) return BadRequest(new { message = "This charge is already fully paid." });
+        var outstanding = PaymentAllocator.Outstanding(charges);
+        if (outstanding <= 0) return BadRequest(new { message = "The selected charges are already fully paid." });
 
-        var payAmount = request.Amount.HasValue && request.Amount.Value < remaining ? request.Amount.Value : remaining;
+        var payAmount = request.Amount is > 0 && request.Amount.Value < outstanding ? request.Amount.Value : outstanding;
 
         PaymentMethod? method = null;
         if (request.PaymentMethodId.HasValue)
@@ -289,18 +390,19 @@ public class PaymentsController : ControllerBase
         if (method == null)
             return BadRequest(new { message = "No payment method found. Add a payment method first." });
 
-        var gateway = await _gatewayFactory.GetGatewayAsync(charge.Unit.BuildingId);
+        var unit = charges[0].Unit;
+        var gateway = await _gatewayFactory.GetGatewayAsync(unit.BuildingId);
         var chargeResult = await gateway.ChargeTokenAsync(new ChargeTokenRequest(
-            BuildingId: charge.Unit.BuildingId,
+            BuildingId: unit.BuildingId,
             Token: method.Token,
             Amount: payAmount,
             Currency: "ILS",
-            Description: $"HOA - Unit {charge.Unit.UnitNumber} - {charge.Period}",
-            IdempotencyKey: $"charge-{unitChargeId}-{DateTime.UtcNow:yyyyMMdd}"));
+            Description: $"HOA - Unit {unit.UnitNumber} - {string.Join(", ", charges.Select(c => c.Period).Distinct())}",
+            IdempotencyKey: $"charge-{string.Join("-", charges.Select(c => c.Id))}-{DateTime.UtcNow:yyyyMMdd}"));
 
         var payment = new Payment
         {
-            UnitId = charge.UnitId,
+            UnitId = unit.Id,
             UserId = userId,
             Amount = payAmount,
             PaymentMethodId = method.Id,
@@ -310,10 +412,17 @@ public class PaymentsController : ControllerBase
         _db.Payments.Add(payment);
         await _db.SaveChangesAsync();
 
+        var allocations = new List<PaymentAllocation>();
         if (chargeResult.Success)
-            await AllocatePaymentAsync(payment, charge, payAmount);
+        {
+            allocations = await AllocatePaymentAsync(payment, charges, payAmount);
+            _ = Task.Run(async () => { try { await IssueReceiptSafe(payment.Id); } catch { /* logged inside */ } });
+        }
 
-        return Ok(MapPaymentDto(payment, charge.Unit.UnitNumber, method.Last4Digits));
+        return Ok(MapPaymentDto(payment, unit.UnitNumber, method.Last4Digits) with
+        {
+            Allocations = allocations.Select(MapAllocationDto).ToList()
+        });
     }
 
     // ─── Payment History ────────────────────────────────
@@ -321,12 +430,14 @@ public class PaymentsController : ControllerBase
     [HttpGet("unit/{unitId}")]
     public async Task<ActionResult<List<PaymentDto>>> GetPaymentsForUnit(int unitId)
     {
+        var unit = await _db.Units.FindAsync(unitId);
+        if (unit == null) return NotFound();
         if (User.IsInRole(AppRoles.Tenant))
         {
             var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
-            var unit = await _db.Units.FindAsync(unitId);
-            if (unit?.TenantUserId != userId) return Forbid();
+            if (!BillingPartyResolver.IsPayerOfUnit(unit, userId)) return Forbid();
         }
+        else if (!await CanAccessBuilding(unit.BuildingId)) return Forbid();
 
         var payments = await _db.Payments.Include(p => p.Unit).Include(p => p.User).Include(p => p.PaymentMethod)
             .Where(p => p.UnitId == unitId).OrderByDescending(p => p.PaymentDateUtc)
@@ -335,7 +446,14 @@ public class PaymentsController : ControllerBase
                 Id = p.Id, UnitId = p.UnitId, UnitNumber = p.Unit.UnitNumber, UserId = p.UserId,
                 UserName = p.User.FullName, Amount = p.Amount, PaymentDateUtc = p.PaymentDateUtc,
                 PaymentMethodId = p.PaymentMethodId, Last4 = p.PaymentMethod != null ? p.PaymentMethod.Last4Digits : null,
-                ProviderReference = p.ProviderReference, Status = p.Status, CreatedAtUtc = p.CreatedAtUtc
+                ProviderReference = p.ProviderReference, Status = p.Status, CreatedAtUtc = p.CreatedAtUtc,
+                IsManual = p.IsManual,
+                RefundedAmount = _db.PaymentRefunds
+                    .Where(r => r.PaymentId == p.Id && !r.IsDeleted
+                        && (r.Type == PaymentRefundType.Refund || r.ChargebackStatus != ChargebackStatus.Won))
+                    .Sum(r => (decimal?)r.Amount) ?? 0,
+                HasOpenChargeback = _db.PaymentRefunds.Any(r => r.PaymentId == p.Id && !r.IsDeleted
+                    && r.Type == PaymentRefundType.Chargeback && r.ChargebackStatus == ChargebackStatus.Open)
             }).ToListAsync();
         return Ok(payments);
     }
@@ -357,6 +475,166 @@ public class PaymentsController : ControllerBase
         return Ok(payments);
     }
 
+    /// <summary>A single payment — the success page polls it until the provider's webhook settles the status.</summary>
+    [HttpGet("{paymentId:int}")]
+    public async Task<ActionResult<PaymentDto>> GetPayment(int paymentId)
+    {
+        var payment = await _db.Payments.Include(p => p.Unit).Include(p => p.PaymentMethod)
+            .Include(p => p.Allocations).ThenInclude(a => a.UnitCharge).ThenInclude(uc => uc.Allocations)
+            .FirstOrDefaultAsync(p => p.Id == paymentId);
+        if (payment == null) return NotFound();
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        if (payment.UserId != userId && !await CanAccessBuilding(payment.Unit.BuildingId)) return Forbid();
+
+        return Ok(MapPaymentDto(payment, payment.Unit.UnitNumber, payment.PaymentMethod?.Last4Digits) with
+        {
+            Allocations = payment.Allocations.OrderBy(a => a.UnitCharge.DueDate).Select(MapAllocationDto).ToList()
+        });
+    }
+
+    // ─── Refunds & Chargebacks ──────────────────────────
+
+    /// <summary>
+    /// Refund all or part of a payment. Goes through the provider when the payment was taken by it and the
+    /// building's provider supports refunds; otherwise it is recorded as returned outside the system.
+    /// </summary>
+    [HttpPost("{paymentId}/refund")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<PaymentRefundDto>> RefundPayment(int paymentId, [FromBody] RefundPaymentRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Reason))
+            return BadRequest(new { message = "A reason is required." });
+
+        var payment = await LoadPaymentForRefundAsync(p => p.Id == paymentId);
+        if (payment == null) return NotFound();
+        if (!await CanAccessBuilding(payment.Unit.BuildingId)) return Forbid();
+
+        var refunds = await _db.PaymentRefunds.Where(r => r.PaymentId == paymentId).ToListAsync();
+        var refundable = PaymentRefundCalculator.Refundable(payment, refunds);
+        if (refundable <= 0)
+            return BadRequest(new { message = "Nothing is left to refund on this payment." });
+
+        var amount = request.Amount ?? refundable;
+        if (amount <= 0)
+            return BadRequest(new { message = "Amount must be greater than zero." });
+        if (amount > refundable)
+            return BadRequest(new { message = $"Amount ({amount:F2}) exceeds the refundable balance ({refundable:F2})." });
+
+        var viaProvider = false;
+        string? refundReference = null;
+        if (!payment.IsManual && payment.ProviderReference != null && !request.RecordOnly
+            && await ProviderSupportsRefundsAsync(payment.Unit.BuildingId))
+        {
+            var gateway = await _gatewayFactory.GetGatewayAsync(payment.Unit.BuildingId);
+            var result = await gateway.RefundAsync(new RefundRequest(
+                BuildingId: payment.Unit.BuildingId,
+                ProviderReference: payment.ProviderReference,
+                Amount: amount,
+                Currency: "ILS",
+                Reason: request.Reason));
+            if (!result.Success)
+            {
+                _logger.LogWarning("Refund of payment {PaymentId} declined by {Provider}: {Error}", paymentId, gateway.ProviderName, result.Error);
+                return BadRequest(new { message = $"The payment provider did not refund the payment: {result.Error ?? "unknown error"}" });
+            }
+            viaProvider = true;
+            refundReference = result.RefundReference;
+        }
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var refund = await RecordRefundAsync(payment, refunds, PaymentRefundType.Refund, amount,
+            request.Reason.Trim(), viaProvider, refundReference, userId);
+
+        var dtos = await MapRefundDtosAsync(await RefundsQuery().Where(r => r.Id == refund.Id).ToListAsync());
+        return Ok(dtos[0]);
+    }
+
+    [HttpGet("{paymentId}/refunds")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<List<PaymentRefundDto>>> GetPaymentRefunds(int paymentId)
+    {
+        var payment = await _db.Payments.Include(p => p.Unit).FirstOrDefaultAsync(p => p.Id == paymentId);
+        if (payment == null) return NotFound();
+        if (!await CanAccessBuilding(payment.Unit.BuildingId)) return Forbid();
+
+        var refunds = await RefundsQuery().Where(r => r.PaymentId == paymentId).OrderByDescending(r => r.CreatedAtUtc).ToListAsync();
+        return Ok(await MapRefundDtosAsync(refunds));
+    }
+
+    /// <summary>Refunds and chargebacks of the buildings the caller manages, newest first.</summary>
+    [HttpGet("refunds")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<List<PaymentRefundDto>>> GetRefunds(
+        [FromQuery] int? buildingId, [FromQuery] PaymentRefundType? type, [FromQuery] ChargebackStatus? chargebackStatus)
+    {
+        var query = RefundsQuery();
+        if (buildingId.HasValue)
+        {
+            if (!await CanAccessBuilding(buildingId.Value)) return Forbid();
+            query = query.Where(r => r.BuildingId == buildingId);
+        }
+        else if (await _permissions.VisibleBuildingIdsAsync(this, PermissionResource.Finance) is { } visible)
+        {
+            query = query.Where(r => visible.Contains(r.BuildingId));
+        }
+        if (type.HasValue)
+            query = query.Where(r => r.Type == type);
+        if (chargebackStatus.HasValue)
+            query = query.Where(r => r.ChargebackStatus == chargebackStatus);
+
+        var refunds = await query.OrderByDescending(r => r.CreatedAtUtc).Take(500).ToListAsync();
+        return Ok(await MapRefundDtosAsync(refunds));
+    }
+
+    /// <summary>
+    /// Record the outcome of a chargeback the provider did not report. A won chargeback puts the money
+    /// back on the charges it reopened.
+    /// </summary>
+    [HttpPost("refunds/{id}/resolve")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<PaymentRefundDto>> ResolveChargeback(int id, [FromBody] ResolveChargebackRequest request)
+    {
+        var chargeback = await _db.PaymentRefunds.Include(r => r.Allocations).FirstOrDefaultAsync(r => r.Id == id);
+        if (chargeback == null) return NotFound();
+        if (!await CanAccessBuilding(chargeback.BuildingId)) return Forbid();
+        if (chargeback.Type != PaymentRefundType.Chargeback || chargeback.ChargebackStatus != ChargebackStatus.Open)
+            return BadRequest(new { message = "Only open chargebacks can be resolved." });
+
+        var payment = await LoadPaymentForRefundAsync(p => p.Id == chargeback.PaymentId);
+        if (payment == null) return NotFound();
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        await ResolveChargebackAsync(payment, chargeback, request.Won, request.Note, userId);
+
+        var dtos = await MapRefundDtosAsync(await RefundsQuery().Where(r => r.Id == id).ToListAsync());
+        return Ok(dtos[0]);
+    }
+
+    // ─── Payment Simulator (Fake provider) ──────────────
+
+    /// <summary>
+    /// Completes the simulated 3-D Secure challenge of a Fake checkout: the Fake provider posts the
+    /// succeeded or failed webhook, and the challenge page redirects to the success or cancel page.
+    /// </summary>
+    [HttpPost("simulator/challenge")]
+    [Authorize(Roles = $"{AppRoles.Tenant},{AppRoles.Admin},{AppRoles.Manager}")]
+    public async Task<IActionResult> CompleteSimulatedChallenge([FromBody] CompleteSimulatedChallengeRequest request)
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var payment = await _db.Payments.FirstOrDefaultAsync(p => p.ProviderReference == request.ProviderReference && p.UserId == userId);
+        if (payment == null) return NotFound();
+        if (payment.Status != PaymentStatus.Pending)
+            return BadRequest(new { message = "This checkout is already completed." });
+
+        if (_gatewayFactory.GetGateway(PaymentProviderType.Fake) is not FakePaymentGateway fake)
+            return BadRequest(new { message = "The payment simulator is not available." });
+
+        fake.SendWebhook($"{Request.Scheme}://{Request.Host}/api/payments/webhook/{PaymentProviderType.Fake}",
+            request.ProviderReference, request.Approved ? "succeeded" : "failed");
+        return NoContent();
+    }
+
     // ─── Webhook (per-provider routing) ─────────────────
 
     [HttpPost("webhook/{providerType}")]
@@ -425,12 +703,17 @@ public class PaymentsController : ControllerBase
                 payment.Status = parsed.Status.Value;
                 if (parsed.Status == PaymentStatus.Succeeded)
                 {
-                    var charge = await _db.UnitCharges
-                        .Include(uc => uc.Unit).Include(uc => uc.Allocations)
-                        .FirstOrDefaultAsync(uc => uc.Id == payment.UnitId); // Look up by matching
-                    // Allocate if not already done
-                    if (charge != null && !payment.Allocations.Any())
-                        await AllocatePaymentAsync(payment, charge, payment.Amount);
+                    // Allocate to the checkout's charges if not already done
+                    if (!payment.Allocations.Any())
+                    {
+                        var charges = await _db.UnitCharges
+                            .Include(uc => uc.Unit).ThenInclude(u => u.TenantUser)
+                            .Include(uc => uc.Allocations)
+                            .Where(uc => payment.CheckoutChargeIds.Contains(uc.Id))
+                            .ToListAsync();
+                        if (charges.Count > 0)
+                            await AllocatePaymentAsync(payment, charges, payment.Amount);
+                    }
                 }
                 await _db.SaveChangesAsync();
 
@@ -438,8 +721,30 @@ public class PaymentsController : ControllerBase
                 if (parsed.Status == PaymentStatus.Succeeded)
                     _ = Task.Run(async () => { try { await IssueReceiptSafe(payment.Id); } catch { /* logged inside */ } });
             }
+            else if (payment != null && parsed.Status == PaymentStatus.Refunded && payment.Status == PaymentStatus.Succeeded)
+            {
+                // Refunded from the provider's own dashboard. A refund we sent through the API comes back here
+                // too and is already recorded, so only record when no provider refund exists yet.
+                var refunds = await _db.PaymentRefunds.Where(r => r.PaymentId == payment.Id).ToListAsync();
+                if (!refunds.Any(r => r.Type == PaymentRefundType.Refund && r.ViaProvider))
+                {
+                    var refunded = (await LoadPaymentForRefundAsync(p => p.Id == payment.Id))!;
+                    var remaining = PaymentRefundCalculator.Refundable(refunded, refunds);
+                    if (remaining > 0)
+                        await RecordRefundAsync(refunded, refunds, PaymentRefundType.Refund, remaining,
+                            "Refunded at the payment provider", true, null, "System");
+                }
+            }
         }
 
+        // Process chargeback (dispute) update
+        if (parsed.Dispute != null && parsed.ProviderReference != null)
+            await ApplyDisputeAsync(pt, parsed.ProviderReference, parsed.Dispute);
+
+        // Process standing order (subscription) update
+        if (parsed.Subscription != null)
+            await ApplySubscriptionUpdateAsync(pt, parsed.Subscription);
+
         // Process tokenization callback
         if (parsed.Token != null)
         {
@@ -475,7 +780,7 @@ public class PaymentsController : ControllerBase
             .FirstOrDefaultAsync(u => u.Id == request.UnitId);
         if (unit == null) return NotFound(new { message = "Unit not found" });
 
-        if (User.IsInRole(AppRoles.Tenant) && unit.TenantUserId != userId)
+        if (User.IsInRole(AppRoles.Tenant) && !BillingPartyResolver.IsPayerOfUnit(unit, userId))
             return Forbid();
 
         // Check for existing active standing order
@@ -486,7 +791,7 @@ public class PaymentsController : ControllerBase
             return BadRequest(new { message = "An active standing order already exists for this unit." });
 
         var gateway = await _gatewayFactory.GetGatewayAsync(request.BuildingId);
-        var frontendBase = Request.Headers["Origin"].FirstOrDefault() ?? "http://localhost:5173";
+        var frontendBase = _configuration.FrontendBaseUrl();
 
         var standingOrder = new StandingOrder
         {
@@ -567,52 +872,139 @@ public class PaymentsController : ControllerBase
         });
     }
 
+    /// <summary>
+    /// Tenants get their own standing orders; managers those of their buildings, optionally by building and status,
+    /// with the unit's current HOA fee to spot orders that no longer match the fee plan.
+    /// </summary>
     [HttpGet("standing-orders")]
-    [Authorize(Roles = $"{AppRoles.Tenant},{AppRoles.Admin},{AppRoles.Manager}")]
-    public async Task<ActionResult<List<StandingOrderDto>>> GetStandingOrders()
+    [Authorize(Roles = $"{AppRoles.Tenant},{AppRoles.Admin},{AppRoles.Manager},{AppRoles.Bookkeeper}")]
+    public async Task<ActionResult<List<StandingOrderDto>>> GetStandingOrders([FromQuery] int? buildingId, [FromQuery] StandingOrderStatus? status)
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
         var isTenant = User.IsInRole(AppRoles.Tenant);
 
-        var query = _db.StandingOrders
-            .Include(so => so.Unit).ThenInclude(u => u.Building)
-            .AsQueryable();
+        var query = StandingOrdersQuery();
 
         if (isTenant)
             query = query.Where(so => so.UserId == userId);
+        else if (buildingId.HasValue)
+        {
+            if (!await CanAccessBuilding(buildingId.Value)) return Forbid();
+            query = query.Where(so => so.BuildingId == buildingId);
+        }
+        else if (await _permissions.VisibleBuildingIdsAsync(this, PermissionResource.Finance) is { } visible)
+        {
+            query = query.Where(so => visible.Contains(so.BuildingId));
+        }
+        if (status.HasValue)
+            query = query.Where(so => so.Status == status);
 
-        var orders = await query
-            .OrderByDescending(so => so.CreatedAtUtc)
-            .Select(so => new StandingOrderDto
-            {
-                Id = so.Id,
-                UserId = so.UserId,
-                UnitId = so.UnitId,
-                UnitNumber = so.Unit.UnitNumber,
-                BuildingId = so.BuildingId,
-                BuildingName = so.Unit.Building.Name,
-                ProviderType = so.ProviderType.ToString(),
-                ProviderSubscriptionId = so.ProviderSubscriptionId,
-                Amount = so.Amount,
-                Currency = so.Currency,
-                Frequency = so.Frequency.ToString(),
-                Status = so.Status,
-                StartDate = so.StartDate,
-                EndDate = so.EndDate,
-                NextChargeDate = so.NextChargeDate,
-                LastChargedAtUtc = so.LastChargedAtUtc,
-                ApprovalUrl = so.ApprovalUrl,
-                SuccessfulCharges = so.SuccessfulCharges,
-                FailedCharges = so.FailedCharges,
-                CreatedAtUtc = so.CreatedAtUtc
-            })
-            .ToListAsync();
+        var orders = await query.OrderByDescending(so => so.CreatedAtUtc).ToListAsync();
+        var fees = isTenant ? null : await CurrentHoaFeePlansAsync(orders.Select(so => so.BuildingId));
+        return Ok(orders.Select(so => MapStandingOrderDto(so, fees)).ToList());
+    }
+
+    /// <summary>
+    /// Manager change of a standing order's amount (e.g. after the HOA fee plan changed). Providers that bill a
+    /// fixed plan (PayPal) need the tenant to approve the new amount: it stays pending until their webhook confirms it.
+    /// </summary>
+    [HttpPut("standing-orders/{id}/amount")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<AdjustStandingOrderAmountResult>> AdjustStandingOrderAmount(int id, [FromBody] AdjustStandingOrderAmountRequest request)
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var order = await StandingOrdersQuery().FirstOrDefaultAsync(so => so.Id == id);
+        if (order == null) return NotFound();
+        if (!await CanAccessBuilding(order.BuildingId)) return Forbid();
+
+        if (order.Status is StandingOrderStatus.Cancelled or StandingOrderStatus.Expired)
+            return BadRequest(new { message = "Cancelled or expired standing orders cannot be changed." });
+        if (request.Amount == order.Amount && order.PendingAmount == null)
+            return BadRequest(new { message = "The standing order already has this amount." });
+
+        var oldAmount = order.Amount;
+        var requiresApproval = false;
+
+        if (order.ProviderType == PaymentProviderType.PayPal && order.ProviderSubscriptionId != null)
+        {
+            var config = await _db.PaymentProviderConfigs
+                .FirstOrDefaultAsync(c => c.ProviderType == PaymentProviderType.PayPal
+                    && (c.BuildingId == order.BuildingId || c.BuildingId == null)
+                    && c.IsActive && !c.IsDeleted);
+            if (config == null || _gatewayFactory.GetGateway(PaymentProviderType.PayPal) is not BuildingManagement.Infrastructure.Services.Gateways.PayPalGateway paypalGateway)
+                return BadRequest(new { message = "PayPal not configured for this building." });
+
+            var planResult = await paypalGateway.CreateBillingPlanAsync(
+                productId: "PROD-HOA-PAYMENT",
+                amount: request.Amount,
+                currency: order.Currency,
+                description: $"HOA - {order.Building.Name} Unit {order.Unit.UnitNumber}",
+                clientId: config.MerchantIdRef,
+                clientSecret: config.ApiPasswordRef,
+                baseUrl: config.BaseUrl);
+            if (!planResult.Success)
+                return BadRequest(new { message = planResult.Error });
+
+            var frontendBase = _configuration.FrontendBaseUrl();
+            var reviseResult = await paypalGateway.ReviseSubscriptionAsync(
+                order.ProviderSubscriptionId, planResult.PlanId!,
+                returnUrl: $"{frontendBase}/payment/success?type=standing-order",
+                cancelUrl: $"{frontendBase}/payment/cancel?type=standing-order",
+                clientId: config.MerchantIdRef,
+                clientSecret: config.ApiPasswordRef,
+                baseUrl: config.BaseUrl);
+            if (!reviseResult.Success)
+                return BadRequest(new { message = reviseResult.Error });
+
+            requiresApproval = true;
+            order.PendingAmount = request.Amount;
+            order.PendingProviderPlanId = planResult.PlanId;
+            order.ApprovalUrl = reviseResult.ApprovalUrl;
+        }
+        else
+        {
+            // Fake and token-based orders: we charge the amount ourselves, so it applies from the next charge
+            order.Amount = request.Amount;
+            order.PendingAmount = null;
+            order.PendingProviderPlanId = null;
+        }
 
-        return Ok(orders);
+        order.AmountChangeRequestedAtUtc = DateTime.UtcNow;
+        order.AmountChangeReason = request.Reason;
+        order.UpdatedAtUtc = DateTime.UtcNow;
+
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = "AdjustStandingOrderAmount",
+            EntityName = "StandingOrder",
+            EntityId = order.Id.ToString(),
+            PerformedBy = userId,
+            Details = $"Amount {oldAmount:F2} → {request.Amount:F2}{(requiresApproval ? " (awaiting tenant approval)" : "")}. Reason: {request.Reason}"
+        });
+        await _db.SaveChangesAsync();
+
+        var tenantEmail = order.User?.Email;
+        if (tenantEmail != null)
+        {
+            var body = requiresApproval
+                ? $"Your standing order for unit {order.Unit.UnitNumber} changes from {oldAmount:N2} to {request.Amount:N2} {order.Currency}. " +
+                  $"Please approve the new amount with your payment provider: {order.ApprovalUrl}"
+                : $"Your standing order for unit {order.Unit.UnitNumber} changed from {oldAmount:N2} to {request.Amount:N2} {order.Currency}, starting with the next charge.";
+            if (!string.IsNullOrEmpty(request.Reason)) body += $" Reason: {request.Reason}";
+            await _emailService.SendEmailAsync(tenantEmail, "Standing Order Amount Change", body);
+        }
+
+        var fees = await CurrentHoaFeePlansAsync(new[] { order.BuildingId });
+        return Ok(new AdjustStandingOrderAmountResult
+        {
+            RequiresApproval = requiresApproval,
+            ApprovalUrl = requiresApproval ? order.ApprovalUrl : null,
+            Order = MapStandingOrderDto(order, fees)
+        });
     }
 
     [HttpPost("standing-orders/{id}/cancel")]
-    [Authorize(Roles = $"{AppRoles.Tenant},{AppRoles.Admin},{AppRoles.Manager}")]
+    [Authorize(Roles = $"{AppRoles.Tenant},{AppRoles.Admin},{AppRoles.Manager},{AppRoles.Bookkeeper}")]
     public async Task<IActionResult> CancelStandingOrder(int id)
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
@@ -620,7 +1012,7 @@ public class PaymentsController : ControllerBase
         var order = await _db.StandingOrders.FindAsync(id);
         if (order == null) return NotFound();
 
-        if (User.IsInRole(AppRoles.Tenant) && order.UserId != userId)
+        if (User.IsInRole(AppRoles.Tenant) ? order.UserId != userId : !await CanAccessBuilding(order.BuildingId))
             return Forbid();
 
         if (order.Status == StandingOrderStatus.Cancelled)
@@ -659,14 +1051,14 @@ public class PaymentsController : ControllerBase
     }
 
     [HttpPost("standing-orders/{id}/pause")]
-    [Authorize(Roles = $"{AppRoles.Tenant},{AppRoles.Admin},{AppRoles.Manager}")]
+    [Authorize(Roles = $"{AppRoles.Tenant},{AppRoles.Admin},{AppRoles.Manager},{AppRoles.Bookkeeper}")]
     public async Task<IActionResult> PauseStandingOrder(int id)
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
         var order = await _db.StandingOrders.FindAsync(id);
         if (order == null) return NotFound();
 
-        if (User.IsInRole(AppRoles.Tenant) && order.UserId != userId) return Forbid();
+        if (User.IsInRole(AppRoles.Tenant) ? order.UserId != userId : !await CanAccessBuilding(order.BuildingId)) return Forbid();
         if (order.Status != StandingOrderStatus.Active)
             return BadRequest(new { message = "Only active standing orders can be paused." });
 
@@ -678,14 +1070,14 @@ public class PaymentsController : ControllerBase
     }
 
     [HttpPost("standing-orders/{id}/resume")]
-    [Authorize(Roles = $"{AppRoles.Tenant},{AppRoles.Admin},{AppRoles.Manager}")]
+    [Authorize(Roles = $"{AppRoles.Tenant},{AppRoles.Admin},{AppRoles.Manager},{AppRoles.Bookkeeper}")]
     public async Task<IActionResult> ResumeStandingOrder(int id)
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
         var order = await _db.StandingOrders.FindAsync(id);
         if (order == null) return NotFound();
 
-        if (User.IsInRole(AppRoles.Tenant) && order.UserId != userId) return Forbid();
+        if (User.IsInRole(AppRoles.Tenant) ? order.UserId != userId : !await CanAccessBuilding(order.BuildingId)) return Forbid();
         if (order.Status != StandingOrderStatus.Paused)
             return BadRequest(new { message = "Only paused standing orders can be resumed." });
 
@@ -698,46 +1090,416 @@ public class PaymentsController : ControllerBase
 
     // ─── Helpers ────────────────────────────────────────
 
-    private async Task AllocatePaymentAsync(Payment payment, UnitCharge charge, decimal amount)
+    /// <summary>
+    /// Allocates a payment to the charges oldest first, with a ledger entry per charge and one confirmation email.
+    /// Needs each charge's unit (with its tenant) and allocations loaded.
+    /// </summary>
+    private async Task<List<PaymentAllocation>> AllocatePaymentAsync(Payment payment, List<UnitCharge> charges, decimal amount)
     {
-        _db.PaymentAllocations.Add(new PaymentAllocation
-        {
-            PaymentId = payment.Id,
-            UnitChargeId = charge.Id,
-            AllocatedAmount = amount
-        });
-
-        var newTotal = charge.Allocations.Sum(a => a.AllocatedAmount) + amount;
-        charge.Status = newTotal >= charge.AmountDue ? UnitChargeStatus.Paid : UnitChargeStatus.PartiallyPaid;
+        var allocations = PaymentAllocator.Allocate(payment, charges, amount, DateTime.UtcNow);
+        var unit = charges[0].Unit;
 
         var lastBalance = await _db.LedgerEntries
-            .Where(le => le.UnitId == charge.UnitId)
+            .Where(le => le.UnitId == unit.Id)
             .OrderByDescending(le => le.Id)
             .Select(le => (decimal?)le.BalanceAfter)
             .FirstOrDefaultAsync() ?? 0m;
 
-        _db.LedgerEntries.Add(new LedgerEntry
-        {
-            BuildingId = charge.Unit.BuildingId,
-            UnitId = charge.UnitId,
-            EntryType = LedgerEntryType.Payment,
-            Category = "HOAMonthlyFees",
-            Description = $"Payment for charge #{charge.Id}",
-            ReferenceId = payment.Id,
-            Debit = 0,
-            Credit = amount,
-            BalanceAfter = lastBalance - amount
-        });
+        foreach (var a in allocations)
+        {
+            lastBalance -= a.AllocatedAmount;
+            _db.LedgerEntries.Add(new LedgerEntry
+            {
+                BuildingId = unit.BuildingId,
+                UnitId = unit.Id,
+                EntryType = LedgerEntryType.Payment,
+                Category = a.UnitCharge.LedgerCategory,
+                Description = $"Payment for charge #{a.UnitChargeId}",
+                ReferenceId = payment.Id,
+                Debit = 0,
+                Credit = a.AllocatedAmount,
+                BalanceAfter = lastBalance
+            });
+        }
 
         await _db.SaveChangesAsync();
 
-        var tenantEmail = charge.Unit.TenantUser?.Email;
+        var tenantEmail = unit.TenantUser?.Email;
         if (tenantEmail != null)
         {
+            var periods = PaymentAllocator.Periods(allocations);
             await _emailService.SendEmailAsync(tenantEmail,
-                $"Payment Confirmation - {charge.Period}",
-                $"Your payment of {amount:N2} ILS for {charge.Period} was successful. Reference: {payment.ProviderReference}");
+                $"Payment Confirmation - {periods}",
+                $"Your payment of {amount:N2} ILS for {periods} was successful. Reference: {payment.ProviderReference}");
+        }
+        return allocations;
+    }
+
+    /// <summary>
+    /// The charges of a checkout that still owe money, oldest first: the requested ones, or the unit's open charges
+    /// when none are listed (a tenant's full balance is only the charges billed to them). All must be of one unit.
+    /// </summary>
+    private async Task<(List<UnitCharge> Charges, ActionResult? Error)> LoadCheckoutChargesAsync(CheckoutChargesRequest request, string userId)
+    {
+        var ids = request.UnitChargeIds.Distinct().ToList();
+        if (ids.Count == 0 && request.UnitId == null)
+            return (new List<UnitCharge>(), BadRequest(new { message = "Select the charges to pay." }));
+
+        var charges = await _db.UnitCharges
+            .Include(uc => uc.Unit).ThenInclude(u => u.TenantUser)
+            .Include(uc => uc.Allocations)
+            .Where(uc => ids.Count > 0 ? ids.Contains(uc.Id) : uc.UnitId == request.UnitId)
+            .ToListAsync();
+        if (ids.Count > 0 && charges.Count != ids.Count)
+            return (charges, NotFound());
+        if (charges.Select(c => c.UnitId).Distinct().Count() > 1)
+            return (charges, BadRequest(new { message = "Charges of different units must be paid separately." }));
+
+        if (User.IsInRole(AppRoles.Tenant))
+        {
+            if (ids.Count == 0)
+            {
+                if (charges.Count > 0 && !BillingPartyResolver.IsPayerOfUnit(charges[0].Unit, userId)) return (charges, Forbid());
+                charges = charges.Where(c => BillingPartyResolver.IsPayer(c, userId)).ToList();
+            }
+            else if (charges.Any(c => !BillingPartyResolver.IsPayer(c, userId)))
+                return (charges, Forbid());
+        }
+        else if (charges.Count > 0 && !await CanAccessBuilding(charges[0].Unit.BuildingId))
+            return (charges, Forbid());
+
+        charges = PaymentAllocator.OldestFirst(charges);
+        if (charges.Count == 0)
+            return (charges, BadRequest(new { message = "There is nothing left to pay on the selected charges." }));
+        return (charges, null);
+    }
+
+    /// <summary>
+    /// The campaign recipient of a payment link. The token must carry a valid signature and be the one issued to
+    /// the recipient when the campaign was sent; expired links are refused with a message telling the payer what to do.
+    /// </summary>
+    private async Task<(SmsCampaignRecipient? Recipient, ActionResult? Error)> LoadPaymentLinkAsync(string token)
+    {
+        var verified = _linkSigner.Verify(token);
+        var recipient = verified == null ? null : await _db.SmsCampaignRecipients
+            .Include(r => r.Campaign)
+            .FirstOrDefaultAsync(r => r.Id == verified.Value.RecipientId);
+        if (recipient == null || recipient.PaymentLinkToken != token)
+            return (null, NotFound(new { message = "This payment link is not valid." }));
+        if (verified!.Value.ExpiresAtUtc < DateTime.UtcNow)
+            return (recipient, BadRequest(new { message = "This payment link has expired. Log in to pay, or ask the building manager for a new link.", expired = true }));
+        return (recipient, null);
+    }
+
+    /// <summary>The reminded unit and its open charges billed to the HOA fee payer, oldest first.</summary>
+    private async Task<(Unit Unit, List<UnitCharge> Charges)> LoadPaymentLinkChargesAsync(SmsCampaignRecipient recipient)
+    {
+        var unit = await _db.Units
+            .Include(u => u.Building).Include(u => u.TenantUser).Include(u => u.OwnerUser)
+            .FirstAsync(u => u.Id == recipient.UnitId);
+        var charges = await _db.UnitCharges
+            .Include(uc => uc.Unit).ThenInclude(u => u.TenantUser)
+            .Include(uc => uc.Allocations)
+            .Where(uc => uc.UnitId == unit.Id && uc.Party == unit.HOAFeePayer)
+            .ToListAsync();
+        return (unit, PaymentAllocator.OldestFirst(charges));
+    }
+
+    private Task<bool> CanAccessBuilding(int buildingId)
+        => _permissions.CanAccessBuildingAsync(this, PermissionResource.Finance, buildingId);
+
+    /// <summary>Payment with its unit, allocations, charges and the charges' allocations — what a refund changes.</summary>
+    private Task<Payment?> LoadPaymentForRefundAsync(Expression<Func<Payment, bool>> predicate) =>
+        _db.Payments
+            .Include(p => p.Unit)
+            .Include(p => p.Allocations).ThenInclude(a => a.UnitCharge).ThenInclude(uc => uc.Allocations)
+            .FirstOrDefaultAsync(predicate);
+
+    /// <summary>Whether the building's payment provider (or the global one) is configured with the Refunds feature.</summary>
+    private async Task<bool> ProviderSupportsRefundsAsync(int buildingId)
+    {
+        var config = await _db.PaymentProviderConfigs
+            .Where(c => (c.BuildingId == buildingId || c.BuildingId == null) && c.IsActive && !c.IsDeleted)
+            .OrderBy(c => c.BuildingId == null)
+            .FirstOrDefaultAsync();
+        return config != null && config.SupportedFeatures.HasFlag(ProviderFeatures.Refunds);
+    }
+
+    /// <summary>
+    /// Records a refund or chargeback: takes the amount off the payment's allocations, reopens the charges and
+    /// writes ledger and audit entries. The payment must come from <see cref="LoadPaymentForRefundAsync"/>.
+    /// </summary>
+    private async Task<PaymentRefund> RecordRefundAsync(Payment payment, IReadOnlyCollection<PaymentRefund> existing,
+        PaymentRefundType type, decimal amount, string? reason, bool viaProvider, string? providerReference, string performedBy)
+    {
+        var now = DateTime.UtcNow;
+        var refund = new PaymentRefund
+        {
+            PaymentId = payment.Id,
+            BuildingId = payment.Unit.BuildingId,
+            UnitId = payment.UnitId,
+            Type = type,
+            Amount = amount,
+            Reason = reason,
+            ViaProvider = viaProvider,
+            ProviderReference = providerReference,
+            ChargebackStatus = type == PaymentRefundType.Chargeback ? ChargebackStatus.Open : null,
+            CreatedBy = performedBy
+        };
+        foreach (var ra in PaymentRefundCalculator.Reverse(payment.Allocations, amount))
+            refund.Allocations.Add(ra);
+        _db.PaymentRefunds.Add(refund);
+
+        foreach (var charge in refund.Allocations.Select(ra => ra.UnitCharge).Distinct())
+            charge.Status = PaymentAllocator.ChargeStatus(charge, now);
+
+        if (PaymentRefundCalculator.Refundable(payment, existing.Append(refund)) <= 0)
+            payment.Status = PaymentStatus.Refunded;
+
+        await _db.SaveChangesAsync(); // ledger entries reference the refund id
+
+        var label = type == PaymentRefundType.Chargeback ? "Chargeback" : "Refund";
+        foreach (var ra in refund.Allocations)
+        {
+            _db.LedgerEntries.Add(new LedgerEntry
+            {
+                BuildingId = refund.BuildingId,
+                UnitId = refund.UnitId,
+                EntryType = LedgerEntryType.Adjustment,
+                Category = RefundLedgerCategory,
+                Description = $"{label} of payment #{payment.Id} (charge #{ra.UnitChargeId})",
+                ReferenceId = refund.Id,
+                Debit = ra.Amount,
+                Credit = 0,
+                BalanceAfter = 0
+            });
+        }
+
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = type == PaymentRefundType.Chargeback ? "PaymentChargeback" : "PaymentRefund",
+            EntityName = "Payment",
+            EntityId = payment.Id.ToString(),
+            PerformedBy = performedBy,
+            Details = $"{label} of {amount:F2} {(viaProvider ? $"via provider (ref {providerReference})" : "recorded manually")}. Reason: {reason}. " +
+                $"Reopened: {(refund.Allocations.Count > 0 ? string.Join(", ", refund.Allocations.Select(ra => $"charge #{ra.UnitChargeId} {ra.Amount:F2}")) : "none")}"
+        });
+
+        await _db.SaveChangesAsync();
+        return refund;
+    }
+
+    /// <summary>Closes an open chargeback; a won one puts its amount back on the charges it reopened.</summary>
+    private async Task ResolveChargebackAsync(Payment payment, PaymentRefund chargeback, bool won, string? note, string performedBy)
+    {
+        var now = DateTime.UtcNow;
+        chargeback.ChargebackStatus = won ? ChargebackStatus.Won : ChargebackStatus.Lost;
+        chargeback.ResolvedAtUtc = now;
+        chargeback.ResolvedBy = performedBy;
+        chargeback.ResolutionNote = note;
+
+        var restored = new Dictionary<int, decimal>();
+        if (won)
+        {
+            restored = PaymentRefundCalculator.Restore(chargeback, payment.Allocations);
+            foreach (var a in payment.Allocations.Where(a => restored.ContainsKey(a.UnitChargeId)))
+                a.UnitCharge.Status = PaymentAllocator.ChargeStatus(a.UnitCharge, now);
+
+            foreach (var (chargeId, amount) in restored)
+            {
+                _db.LedgerEntries.Add(new LedgerEntry
+                {
+                    BuildingId = chargeback.BuildingId,
+                    UnitId = chargeback.UnitId,
+                    EntryType = LedgerEntryType.Adjustment,
+                    Category = RefundLedgerCategory,
+                    Description = $"Chargeback on payment #{payment.Id} won (charge #{chargeId})",
+                    ReferenceId = chargeback.Id,
+                    Debit = 0,
+                    Credit = amount,
+                    BalanceAfter = 0
+                });
+            }
+
+            if (payment.Status == PaymentStatus.Refunded)
+                payment.Status = PaymentStatus.Succeeded;
         }
+
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = "ChargebackResolved",
+            EntityName = "Payment",
+            EntityId = payment.Id.ToString(),
+            PerformedBy = performedBy,
+            Details = $"Chargeback #{chargeback.Id} of {chargeback.Amount:F2} {(won ? "won" : "lost")}. Restored: {restored.Values.Sum():F2}. Note: {note}"
+        });
+
+        await _db.SaveChangesAsync();
+    }
+
+    /// <summary>
+    /// Applies a provider's standing order event: status changes, failed charges, and approval of a pending amount.
+    /// </summary>
+    private async Task ApplySubscriptionUpdateAsync(PaymentProviderType provider, WebhookSubscriptionUpdate update)
+    {
+        var order = await _db.StandingOrders.FirstOrDefaultAsync(so =>
+            so.ProviderType == provider && so.ProviderSubscriptionId == update.SubscriptionId);
+        if (order == null)
+        {
+            _logger.LogWarning("Subscription event from {Provider} for unknown standing order {SubscriptionId}", provider, update.SubscriptionId);
+            return;
+        }
+
+        if (update.AmountApproved && order.PendingAmount.HasValue)
+        {
+            _logger.LogInformation("Standing order {Id}: tenant approved amount {Old} → {New}", order.Id, order.Amount, order.PendingAmount);
+            order.Amount = order.PendingAmount.Value;
+            order.ProviderPlanId = order.PendingProviderPlanId ?? order.ProviderPlanId;
+            order.PendingAmount = null;
+            order.PendingProviderPlanId = null;
+            order.ApprovalUrl = null;
+        }
+        if (update.ChargeFailed)
+            order.FailedCharges++;
+        if (update.Status.HasValue && order.Status != StandingOrderStatus.Cancelled)
+        {
+            order.Status = update.Status.Value;
+            if (update.Status is StandingOrderStatus.Cancelled or StandingOrderStatus.Expired)
+                order.EndDate ??= DateTime.UtcNow;
+        }
+        order.UpdatedAtUtc = DateTime.UtcNow;
+        await _db.SaveChangesAsync();
+    }
+
+    private IQueryable<StandingOrder> StandingOrdersQuery() => _db.StandingOrders
+        .Include(so => so.Unit)
+        .Include(so => so.Building)
+        .Include(so => so.User);
+
+    /// <summary>Active HOA fee plan per building (latest effective), for comparing standing order amounts.</summary>
+    private async Task<Dictionary<int, HOAFeePlan>> CurrentHoaFeePlansAsync(IEnumerable<int> buildingIds)
+    {
+        var ids = buildingIds.Distinct().ToList();
+        var plans = await _db.HOAFeePlans
+            .Where(p => ids.Contains(p.BuildingId) && p.IsActive && !p.IsDeleted)
+            .ToListAsync();
+        return plans.GroupBy(p => p.BuildingId)
+            .ToDictionary(g => g.Key, g => g.OrderByDescending(p => p.EffectiveFrom).First());
+    }
+
+    private static StandingOrderDto MapStandingOrderDto(StandingOrder so, Dictionary<int, HOAFeePlan>? feePlans)
+    {
+        decimal? currentFee = feePlans != null && feePlans.TryGetValue(so.BuildingId, out var plan)
+            ? HOAFeeService.CalculateUnitAmount(so.Unit, plan)
+            : null;
+        return new StandingOrderDto
+        {
+            Id = so.Id,
+            UserId = so.UserId,
+            TenantName = so.User?.FullName,
+            UnitId = so.UnitId,
+            UnitNumber = so.Unit.UnitNumber,
+            BuildingId = so.BuildingId,
+            BuildingName = so.Building?.Name,
+            ProviderType = so.ProviderType.ToString(),
+            ProviderSubscriptionId = so.ProviderSubscriptionId,
+            Amount = so.Amount,
+            Currency = so.Currency,
+            Frequency = so.Frequency.ToString(),
+            Status = so.Status,
+            StartDate = so.StartDate,
+            EndDate = so.EndDate,
+            NextChargeDate = so.NextChargeDate,
+            LastChargedAtUtc = so.LastChargedAtUtc,
+            ApprovalUrl = so.ApprovalUrl,
+            SuccessfulCharges = so.SuccessfulCharges,
+            FailedCharges = so.FailedCharges,
+            CreatedAtUtc = so.CreatedAtUtc,
+            PendingAmount = so.PendingAmount,
+            AmountChangeRequestedAtUtc = so.AmountChangeRequestedAtUtc,
+            AmountChangeReason = so.AmountChangeReason,
+            CurrentHoaFee = currentFee > 0 ? currentFee : null
+        };
+    }
+
+    /// <summary>Opens or closes the chargeback a provider webhook reported on one of our payments.</summary>
+    private async Task ApplyDisputeAsync(PaymentProviderType provider, string paymentReference, WebhookDispute dispute)
+    {
+        var payment = await LoadPaymentForRefundAsync(p => p.ProviderReference == paymentReference);
+        if (payment == null)
+        {
+            _logger.LogWarning("Chargeback {DisputeId} from {Provider} for unknown payment {Reference}", dispute.DisputeId, provider, paymentReference);
+            return;
+        }
+
+        var refunds = await _db.PaymentRefunds.Include(r => r.Allocations).Where(r => r.PaymentId == payment.Id).ToListAsync();
+        var chargeback = refunds.FirstOrDefault(r => r.Type == PaymentRefundType.Chargeback && r.ProviderReference == dispute.DisputeId);
+        if (chargeback == null)
+        {
+            // Won before we ever saw it open: no money was taken back
+            if (dispute.Status == ChargebackStatus.Won) return;
+
+            var refundable = PaymentRefundCalculator.Refundable(payment, refunds);
+            var amount = Math.Min(dispute.Amount ?? refundable, refundable);
+            if (amount <= 0)
+            {
+                _logger.LogWarning("Chargeback {DisputeId} on payment {PaymentId}: nothing left to take back", dispute.DisputeId, payment.Id);
+                return;
+            }
+            chargeback = await RecordRefundAsync(payment, refunds, PaymentRefundType.Chargeback, amount,
+                dispute.Reason, true, dispute.DisputeId, "System");
+        }
+
+        if (dispute.Status != ChargebackStatus.Open && chargeback.ChargebackStatus == ChargebackStatus.Open)
+            await ResolveChargebackAsync(payment, chargeback, dispute.Status == ChargebackStatus.Won, $"Reported by {provider}", "System");
+    }
+
+    private IQueryable<PaymentRefund> RefundsQuery() => _db.PaymentRefunds
+        .Include(r => r.Payment)
+        .Include(r => r.Building)
+        .Include(r => r.Unit).ThenInclude(u => u.TenantUser)
+        .Include(r => r.Unit).ThenInclude(u => u.OwnerUser)
+        .Include(r => r.Allocations).ThenInclude(ra => ra.UnitCharge)
+        .Where(r => !r.IsDeleted);
+
+    private async Task<List<PaymentRefundDto>> MapRefundDtosAsync(List<PaymentRefund> refunds)
+    {
+        var userIds = refunds.Select(r => r.CreatedBy).OfType<string>().Distinct().ToList();
+        var names = await _db.Users.Where(u => userIds.Contains(u.Id)).ToDictionaryAsync(u => u.Id, u => u.FullName);
+
+        return refunds.Select(r => new PaymentRefundDto
+        {
+            Id = r.Id,
+            PaymentId = r.PaymentId,
+            BuildingId = r.BuildingId,
+            BuildingName = r.Building?.Name,
+            UnitId = r.UnitId,
+            UnitNumber = r.Unit?.UnitNumber,
+            PayerName = r.Unit != null
+                ? BillingPartyResolver.PayerName(r.Unit, r.Allocations.Select(ra => (BillingParty?)ra.UnitCharge.Party).FirstOrDefault() ?? r.Unit.HOAFeePayer)
+                : null,
+            Type = r.Type,
+            Amount = r.Amount,
+            PaymentAmount = r.Payment.Amount,
+            PaymentDateUtc = r.Payment.PaymentDateUtc,
+            PaymentReference = r.Payment.ProviderReference,
+            Reason = r.Reason,
+            ViaProvider = r.ViaProvider,
+            ProviderReference = r.ProviderReference,
+            ChargebackStatus = r.ChargebackStatus,
+            ResolvedAtUtc = r.ResolvedAtUtc,
+            ResolutionNote = r.ResolutionNote,
+            CreatedByName = r.CreatedBy != null ? names.GetValueOrDefault(r.CreatedBy) : null,
+            CreatedAtUtc = r.CreatedAtUtc,
+            Charges = r.Allocations.Select(ra => new PaymentRefundChargeDto
+            {
+                UnitChargeId = ra.UnitChargeId,
+                Period = ra.UnitCharge?.Period,
+                ChargeType = ra.UnitCharge?.ChargeType ?? default,
+                Amount = ra.Amount,
+                RestoredAmount = ra.RestoredAmount
+            }).ToList()
+        }).ToList();
     }
 
     private static PaymentMethodDto MapMethodDto(PaymentMethod pm) => new()
@@ -747,6 +1509,16 @@ public class PaymentsController : ControllerBase
         IsDefault = pm.IsDefault, IsActive = pm.IsActive
     };
 
+    private static PaymentAllocationDto MapAllocationDto(PaymentAllocation a) => new()
+    {
+        UnitChargeId = a.UnitChargeId,
+        Period = a.UnitCharge.Period,
+        ChargeType = a.UnitCharge.ChargeType,
+        Allocated = a.AllocatedAmount,
+        Outstanding = PaymentPlanCalculator.Outstanding(a.UnitCharge),
+        Status = a.UnitCharge.Status
+    };
+
     private static PaymentDto MapPaymentDto(Payment p, string? unitNumber, string? last4) => new()
     {
         Id = p.Id, UnitId = p.UnitId, UnitNumber = unitNumber, UserId = p.UserId,
@@ -775,7 +1547,7 @@ public class PaymentsController : ControllerBase
                 return;
             }
 
-            var period = payment.Allocations.FirstOrDefault()?.UnitCharge?.Period ?? "N/A";
+            var period = PaymentAllocator.Periods(payment.Allocations) ?? "N/A";
             var result = await _docProvider.CreateReceiptAsync(new CreateDocRequest
             {
                 IssuerProfileId = building.IssuerProfileId,
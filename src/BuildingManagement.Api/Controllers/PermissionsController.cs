@@ -0,0 +1,169 @@
+using BuildingManagement.Api.Authorization;
+using BuildingManagement.Core.DTOs;
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Identity;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using System.Security.Claims;
+
+namespace BuildingManagement.Api.Controllers;
+
+/// <summary>
+/// Who may do what: staff roles, the buildings each manager runs and the permissions granted on top of the role.
+/// House committee members are listed too; their read-only reports follow from the tenant profile.
+/// </summary>
+[ApiController]
+[Route("api/permissions")]
+[Authorize]
+[RequirePermission(PermissionResource.Users)]
+public class PermissionsController : ControllerBase
+{
+    private readonly AppDbContext _db;
+    private readonly UserManager<ApplicationUser> _userManager;
+
+    public PermissionsController(AppDbContext db, UserManager<ApplicationUser> userManager)
+    {
+        _db = db;
+        _userManager = userManager;
+    }
+
+    // ─── Users ──────────────────────────────────────────
+
+    [HttpGet("users")]
+    public async Task<ActionResult<List<UserPermissionsDto>>> GetUsers()
+    {
+        var committee = await _db.TenantProfiles
+            .Where(tp => tp.IsActive && tp.IsCommitteeMember && tp.UserId != null)
+            .Select(tp => new { UserId = tp.UserId!, tp.Unit.BuildingId })
+            .ToListAsync();
+        var committeeUserIds = committee.Select(c => c.UserId).Distinct().ToList();
+
+        var userIds = await (from ur in _db.UserRoles
+                             join r in _db.Roles on ur.RoleId equals r.Id
+                             where AppRoles.Staff.Contains(r.Name!)
+                             select ur.UserId).ToListAsync();
+        userIds = userIds.Concat(committeeUserIds).Distinct().ToList();
+
+        var users = await _db.Users.Where(u => userIds.Contains(u.Id)).OrderBy(u => u.FullName).ToListAsync();
+        var result = new List<UserPermissionsDto>();
+        foreach (var user in users)
+        {
+            result.Add(await MapDtoAsync(user, committee.Where(c => c.UserId == user.Id).Select(c => c.BuildingId).ToList()));
+        }
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Replaces the user's staff role, managed buildings and granted permissions. Roles, admins and permissions on
+    /// every building are for admins to hand out; nobody edits their own.
+    /// </summary>
+    [HttpPut("users/{id}")]
+    public async Task<ActionResult<UserPermissionsDto>> UpdateUser(string id, [FromBody] UpdateUserPermissionsRequest request)
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        if (id == userId)
+            return BadRequest(new { message = "You can't change your own permissions." });
+        var user = await _userManager.FindByIdAsync(id);
+        if (user == null) return NotFound();
+
+        var isAdmin = User.IsInRole(AppRoles.Admin);
+        var roles = await _userManager.GetRolesAsync(user);
+        var staffRoles = roles.Where(r => AppRoles.Staff.Contains(r)).ToList();
+        if (!isAdmin && staffRoles.Contains(AppRoles.Admin)) return Forbid();
+
+        var existingGrants = await _db.UserPermissions.Where(p => p.UserId == id).ToListAsync();
+        if (!isAdmin && request.Grants.Any(g => g.BuildingId == null
+                && !existingGrants.Any(p => p.BuildingId == null && p.Resource == g.Resource && p.Action == g.Action)))
+            return BadRequest(new { message = "Only admins can grant permissions on all buildings." });
+
+        if (request.Role != null && !staffRoles.SequenceEqual([request.Role]))
+        {
+            if (!isAdmin) return BadRequest(new { message = "Only admins can change roles." });
+            if (!AppRoles.Staff.Contains(request.Role))
+                return BadRequest(new { message = "Role must be Admin, Manager or Bookkeeper." });
+            if (staffRoles.Count == 0)
+                return BadRequest(new { message = "Only staff members can be given a staff role." });
+
+            var removed = await _userManager.RemoveFromRolesAsync(user, staffRoles);
+            var added = removed.Succeeded ? await _userManager.AddToRoleAsync(user, request.Role) : removed;
+            if (!added.Succeeded)
+                return BadRequest(new { message = string.Join(" ", added.Errors.Select(e => e.Description)) });
+            staffRoles = [request.Role];
+        }
+
+        var buildingIds = request.ManagedBuildingIds
+            .Concat(request.Grants.Where(g => g.BuildingId != null).Select(g => g.BuildingId!.Value))
+            .Distinct().ToList();
+        if (await _db.Buildings.CountAsync(b => buildingIds.Contains(b.Id)) != buildingIds.Count)
+            return BadRequest(new { message = "Building not found." });
+
+        // Only managers run buildings; a new role drops the assignments
+        var managedIds = staffRoles.Contains(AppRoles.Manager) ? request.ManagedBuildingIds.Distinct().ToList() : [];
+        var assignments = await _db.BuildingManagers.Where(bm => bm.UserId == id).ToListAsync();
+        _db.BuildingManagers.RemoveRange(assignments.Where(bm => !managedIds.Contains(bm.BuildingId)));
+        _db.BuildingManagers.AddRange(managedIds
+            .Where(b => assignments.All(bm => bm.BuildingId != b))
+            .Select(b => new BuildingManager { UserId = id, BuildingId = b }));
+
+        var grants = request.Grants
+            .Select(g => (g.Resource, g.Action, g.BuildingId))
+            .Distinct()
+            .ToList();
+        _db.UserPermissions.RemoveRange(existingGrants);
+        _db.UserPermissions.AddRange(grants.Select(g => new UserPermission
+        {
+            UserId = id,
+            Resource = g.Resource,
+            Action = g.Action,
+            BuildingId = g.BuildingId,
+            GrantedByUserId = userId
+        }));
+
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = "UpdatePermissions",
+            EntityName = "ApplicationUser",
+            EntityId = id,
+            PerformedBy = userId,
+            Details = $"Role {string.Join("/", staffRoles.DefaultIfEmpty("-"))}; manages [{string.Join(", ", managedIds)}]; grants: "
+                + (grants.Count == 0 ? "none" : string.Join(", ", grants.Select(g => $"{g.Resource} {g.Action} @{g.BuildingId?.ToString() ?? "all"}")))
+        });
+
+        await _db.SaveChangesAsync();
+
+        var committeeBuildingIds = await _db.TenantProfiles
+            .Where(tp => tp.UserId == id && tp.IsActive && tp.IsCommitteeMember)
+            .Select(tp => tp.Unit.BuildingId)
+            .ToListAsync();
+        return Ok(await MapDtoAsync(user, committeeBuildingIds));
+    }
+
+    private async Task<UserPermissionsDto> MapDtoAsync(ApplicationUser user, List<int> committeeBuildingIds)
+    {
+        var grants = await _db.UserPermissions
+            .Where(p => p.UserId == user.Id)
+            .OrderBy(p => p.Resource).ThenBy(p => p.BuildingId)
+            .Select(p => new PermissionGrantDto
+            {
+                Resource = p.Resource,
+                Action = p.Action,
+                BuildingId = p.BuildingId,
+                BuildingName = p.Building != null ? p.Building.Name : null
+            })
+            .ToListAsync();
+
+        return new UserPermissionsDto
+        {
+            UserId = user.Id,
+            FullName = user.FullName,
+            Email = user.Email ?? "",
+            Roles = (await _userManager.GetRolesAsync(user)).ToList(),
+            ManagedBuildingIds = await _db.BuildingManagers.Where(bm => bm.UserId == user.Id).Select(bm => bm.BuildingId).ToListAsync(),
+            CommitteeBuildingIds = committeeBuildingIds.Distinct().ToList(),
+            Grants = grants
+        };
+    }
+}
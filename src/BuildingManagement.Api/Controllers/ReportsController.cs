@@ -1,25 +1,31 @@
+using BuildingManagement.Api.Authorization;
 using BuildingManagement.Core.DTOs;
 using BuildingManagement.Core.Entities;
 using BuildingManagement.Core.Entities.Finance;
 using BuildingManagement.Core.Enums;
 using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using System.Linq.Expressions;
 using System.Text;
 
 namespace BuildingManagement.Api.Controllers;
 
 [ApiController]
 [Route("api/reports")]
-[Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+[Authorize]
+[RequirePermission(PermissionResource.Reports)]
 public class ReportsController : ControllerBase
 {
     private readonly AppDbContext _db;
+    private readonly PermissionService _permissions;
 
-    public ReportsController(AppDbContext db)
+    public ReportsController(AppDbContext db, PermissionService permissions)
     {
         _db = db;
+        _permissions = permissions;
     }
 
     // ─── Collection Status (Who Paid / Who Has Not) ─────────
@@ -28,17 +34,67 @@ public class ReportsController : ControllerBase
     public async Task<ActionResult<CollectionStatusReport>> CollectionStatus(
         int buildingId,
         [FromQuery] string? period,
-        [FromQuery] bool includeNotGenerated = false)
+        [FromQuery] bool includeNotGenerated = false,
+        [FromQuery] BillingParty? party = null)
     {
         period ??= DateTime.UtcNow.ToString("yyyy-MM");
 
         var building = await _db.Buildings.FindAsync(buildingId);
         if (building == null) return NotFound();
 
-        var report = await BuildCollectionReport(building, period, includeNotGenerated);
+        var report = await BuildCollectionReport(building, period, includeNotGenerated, party);
         return Ok(report);
     }
 
+    private static readonly Dictionary<string, Expression<Func<CollectionRowDto, object?>>> CollectionSortableColumns = new()
+    {
+        ["unitNumber"] = r => r.UnitNumber,
+        ["payerDisplayName"] = r => r.PayerDisplayName,
+        ["amountDue"] = r => r.AmountDue,
+        ["amountPaid"] = r => r.AmountPaid,
+        ["outstanding"] = r => r.Outstanding,
+        ["dueDate"] = r => r.DueDate,
+        ["status"] = r => r.Status,
+        ["lastPaymentDateUtc"] = r => r.LastPaymentDateUtc,
+    };
+
+    /// <summary>
+    /// Collection rows for the data grid. The rows are computed per period in memory, so they are
+    /// built in full and then filtered, sorted and paged here; summary totals stay on the unpaged endpoint.
+    /// </summary>
+    [HttpGet("collection-status/{buildingId}/paged")]
+    public async Task<ActionResult<PagedResult<CollectionRowDto>>> CollectionStatusPaged(
+        int buildingId,
+        [FromQuery] PagedQuery paging,
+        [FromQuery] string? period,
+        [FromQuery] bool includeNotGenerated = false,
+        [FromQuery] BillingParty? party = null,
+        [FromQuery] string? status = null)
+    {
+        period ??= DateTime.UtcNow.ToString("yyyy-MM");
+
+        var building = await _db.Buildings.FindAsync(buildingId);
+        if (building == null) return NotFound();
+
+        var report = await BuildCollectionReport(building, period, includeNotGenerated, party);
+        IEnumerable<CollectionRowDto> rows = report.Rows;
+
+        if (!string.IsNullOrWhiteSpace(status)) rows = rows.Where(r => r.Status == status);
+        if (!string.IsNullOrWhiteSpace(paging.Search))
+        {
+            var term = paging.Search.Trim();
+            rows = rows.Where(r =>
+                r.UnitNumber.Contains(term, StringComparison.OrdinalIgnoreCase) ||
+                (r.PayerDisplayName != null && r.PayerDisplayName.Contains(term, StringComparison.OrdinalIgnoreCase)) ||
+                (r.PayerPhone != null && r.PayerPhone.Contains(term)));
+        }
+
+        var result = rows.AsQueryable()
+            .ApplySort(paging, CollectionSortableColumns, q => q.OrderBy(r => r.UnitNumber), r => r.UnitId)
+            .ToPagedResult(paging);
+        return Ok(result);
+    }
+
     [HttpGet("collection-status/{buildingId}/unit/{unitId}")]
     public async Task<IActionResult> CollectionUnitDetail(
         int buildingId, int unitId, [FromQuery] string? period)
@@ -50,6 +106,7 @@ public class ReportsController : ControllerBase
             .Include(uc => uc.Allocations)
             .FirstOrDefaultAsync(uc => uc.UnitId == unitId
                 && uc.Unit.BuildingId == buildingId
+                && uc.ChargeType == UnitChargeType.HOAMonthlyFee
                 && uc.Period == period);
 
         if (charge == null) return NotFound(new { message = $"No charge found for unit {unitId} in period {period}" });
@@ -72,7 +129,8 @@ public class ReportsController : ControllerBase
         });
     }
 
-    private async Task<CollectionStatusReport> BuildCollectionReport(Building building, string period, bool includeNotGenerated)
+    /// <param name="party">Only charges billed to this party; units whose HOA fee goes to the other party are left out</param>
+    private async Task<CollectionStatusReport> BuildCollectionReport(Building building, string period, bool includeNotGenerated, BillingParty? party)
     {
         var buildingId = building.Id;
         var now = DateTime.UtcNow;
@@ -83,13 +141,16 @@ public class ReportsController : ControllerBase
         // All units in this building
         var allUnits = await _db.Units
             .Include(u => u.TenantUser)
+            .Include(u => u.OwnerUser)
             .Where(u => u.BuildingId == buildingId)
             .ToListAsync();
 
         // Charges for this period
         var charges = await _db.UnitCharges
             .Include(uc => uc.Allocations)
-            .Where(uc => uc.Unit.BuildingId == buildingId && uc.Period == period)
+            .Where(uc => uc.Unit.BuildingId == buildingId && uc.Period == period
+                && uc.ChargeType == UnitChargeType.HOAMonthlyFee
+                && (party == null || uc.Party == party))
             .ToListAsync();
 
         // Last payment date per unit
@@ -128,8 +189,9 @@ public class ReportsController : ControllerBase
                     UnitNumber = unit.UnitNumber,
                     Floor = unit.Floor,
                     SizeSqm = unit.SizeSqm,
-                    PayerDisplayName = unit.TenantUser?.FullName ?? unit.OwnerName ?? "—",
-                    PayerPhone = unit.TenantUser?.Phone,
+                    PayerDisplayName = BillingPartyResolver.PayerName(unit, charge.Party) ?? "—",
+                    PayerPhone = BillingPartyResolver.PayerPhone(unit, charge.Party),
+                    Party = charge.Party,
                     AmountDue = charge.AmountDue,
                     AmountPaid = paid,
                     Outstanding = outstanding > 0 ? outstanding : 0,
@@ -138,7 +200,7 @@ public class ReportsController : ControllerBase
                     LastPaymentDateUtc = lastPaymentDates.GetValueOrDefault(unit.Id)
                 });
             }
-            else if (includeNotGenerated)
+            else if (includeNotGenerated && (party == null || unit.HOAFeePayer == party))
             {
                 rows.Add(new CollectionRowDto
                 {
@@ -146,8 +208,8 @@ public class ReportsController : ControllerBase
                     UnitNumber = unit.UnitNumber,
                     Floor = unit.Floor,
                     SizeSqm = unit.SizeSqm,
-                    PayerDisplayName = unit.TenantUser?.FullName ?? unit.OwnerName ?? "—",
-                    PayerPhone = unit.TenantUser?.Phone,
+                    PayerDisplayName = BillingPartyResolver.PayerName(unit, unit.HOAFeePayer) ?? "—",
+                    PayerPhone = BillingPartyResolver.PayerPhone(unit, unit.HOAFeePayer),
                     AmountDue = 0,
                     AmountPaid = 0,
                     Outstanding = 0,
@@ -166,7 +228,7 @@ public class ReportsController : ControllerBase
             BuildingId = buildingId,
             BuildingName = building.Name,
             Period = period,
-            TotalUnits = allUnits.Count,
+            TotalUnits = party == null ? allUnits.Count : allUnits.Count(u => u.HOAFeePayer == party),
             GeneratedCount = generated.Count,
             PaidCount = rows.Count(r => r.Status == "Paid"),
             PartialCount = rows.Count(r => r.Status == "Partial"),
@@ -184,7 +246,7 @@ public class ReportsController : ControllerBase
     }
 
     [HttpGet("aging/{buildingId}")]
-    public async Task<ActionResult<AgingReport>> Aging(int buildingId)
+    public async Task<ActionResult<AgingReport>> Aging(int buildingId, [FromQuery] BillingParty? party = null)
     {
         var building = await _db.Buildings.FindAsync(buildingId);
         if (building == null) return NotFound();
@@ -194,8 +256,10 @@ public class ReportsController : ControllerBase
         // Get all unpaid/partially paid charges for this building
         var charges = await _db.UnitCharges
             .Include(uc => uc.Unit).ThenInclude(u => u.TenantUser)
+            .Include(uc => uc.Unit).ThenInclude(u => u.OwnerUser)
             .Include(uc => uc.Allocations)
             .Where(uc => uc.Unit.BuildingId == buildingId
+                && (party == null || uc.Party == party)
                 && (uc.Status == UnitChargeStatus.Pending
                     || uc.Status == UnitChargeStatus.PartiallyPaid
                     || uc.Status == UnitChargeStatus.Overdue))
@@ -212,7 +276,7 @@ public class ReportsController : ControllerBase
             {
                 UnitId = unit.Id,
                 UnitNumber = unit.UnitNumber,
-                ResidentName = unit.TenantUser?.FullName ?? unit.OwnerName ?? "—"
+                ResidentName = BillingPartyResolver.PayerName(unit, party ?? BillingParty.Resident) ?? "—"
             };
 
             decimal current = 0, d1 = 0, d31 = 0, d61 = 0, d90 = 0;
@@ -263,8 +327,13 @@ public class ReportsController : ControllerBase
         var fromDate = from ?? DateTime.UtcNow.AddMonths(-12);
         var toDate = to ?? DateTime.UtcNow;
 
+        return Ok(await BuildIncomeExpensesReport(building, fromDate, toDate));
+    }
+
+    private async Task<IncomeExpensesReport> BuildIncomeExpensesReport(Building building, DateTime fromDate, DateTime toDate)
+    {
         var entries = await _db.LedgerEntries
-            .Where(le => le.BuildingId == buildingId
+            .Where(le => le.BuildingId == building.Id
                 && le.CreatedAtUtc >= fromDate
                 && le.CreatedAtUtc <= toDate)
             .ToListAsync();
@@ -305,9 +374,9 @@ public class ReportsController : ControllerBase
             })
             .ToList();
 
-        return Ok(new IncomeExpensesReport
+        return new IncomeExpensesReport
         {
-            BuildingId = buildingId,
+            BuildingId = building.Id,
             BuildingName = building.Name,
             FromDate = fromDate,
             ToDate = toDate,
@@ -317,7 +386,7 @@ public class ReportsController : ControllerBase
             IncomeByCategory = incomeByCategory,
             ExpensesByCategory = expensesByCategory,
             MonthlyBreakdown = monthlyBreakdown
-        });
+        };
     }
 
     [HttpGet("income-expenses/{buildingId}/csv")]
@@ -364,6 +433,58 @@ public class ReportsController : ControllerBase
             : new() { ["Date"] = "תאריך", ["Type"] = "סוג", ["Category"] = "קטגוריה", ["Description"] = "תיאור", ["Debit"] = "חובה", ["Credit"] = "זכות", ["Balance"] = "יתרה" };
     }
 
+    // ─── Budget vs Actual ─────────────────────────────────
+
+    [HttpGet("budget-vs-actual/{buildingId}")]
+    public async Task<ActionResult<BudgetVsActualReport>> BudgetVsActual(int buildingId, [FromQuery] int? year)
+    {
+        var building = await _db.Buildings.FindAsync(buildingId);
+        if (building == null) return NotFound();
+
+        var y = year ?? DateTime.UtcNow.Year;
+        var budget = await _db.BuildingBudgets
+            .Include(b => b.Lines)
+            .FirstOrDefaultAsync(b => b.BuildingId == buildingId && b.Year == y);
+        var lines = budget?.Lines.ToList() ?? [];
+
+        var actual = await BuildIncomeExpensesReport(building,
+            new DateTime(y, 1, 1, 0, 0, 0, DateTimeKind.Utc),
+            new DateTime(y + 1, 1, 1, 0, 0, 0, DateTimeKind.Utc).AddTicks(-1));
+
+        CategoryAmount ToCategoryAmount(BudgetLine l) => new() { Category = l.Category, Amount = l.Amount };
+        var incomeLines = lines.Where(l => l.LineType == BudgetLineType.Income).ToList();
+        var expenseLines = lines.Where(l => l.LineType == BudgetLineType.Expense).ToList();
+
+        var months = Enumerable.Range(1, 12).Select(m =>
+        {
+            var key = $"{y}-{m:00}";
+            var actualMonth = actual.MonthlyBreakdown.FirstOrDefault(mb => mb.Month == key);
+            return new BudgetVarianceMonth
+            {
+                Month = key,
+                BudgetIncome = incomeLines.Where(l => l.Month == m).Sum(l => l.Amount),
+                ActualIncome = actualMonth?.Income ?? 0,
+                BudgetExpenses = expenseLines.Where(l => l.Month == m).Sum(l => l.Amount),
+                ActualExpenses = actualMonth?.Expenses ?? 0
+            };
+        }).ToList();
+
+        return Ok(new BudgetVsActualReport
+        {
+            BuildingId = buildingId,
+            BuildingName = building.Name,
+            Year = y,
+            BudgetStatus = budget?.Status,
+            BudgetIncome = incomeLines.Sum(l => l.Amount),
+            ActualIncome = actual.TotalIncome,
+            BudgetExpenses = expenseLines.Sum(l => l.Amount),
+            ActualExpenses = actual.TotalExpenses,
+            IncomeByCategory = BudgetCalculator.Compare(incomeLines.Select(ToCategoryAmount), actual.IncomeByCategory, BudgetLineType.Income),
+            ExpensesByCategory = BudgetCalculator.Compare(expenseLines.Select(ToCategoryAmount), actual.ExpensesByCategory, BudgetLineType.Expense),
+            Months = months
+        });
+    }
+
     // ─── CSV Exports ────────────────────────────────────
 
     // Simple CSV header localization dictionary (NOT .resx, as per spec)
@@ -400,13 +521,14 @@ public class ReportsController : ControllerBase
         int buildingId,
         [FromQuery] string? period,
         [FromQuery] bool includeNotGenerated = false,
-        [FromQuery] string? lang = null)
+        [FromQuery] string? lang = null,
+        [FromQuery] BillingParty? party = null)
     {
         var building = await _db.Buildings.FindAsync(buildingId);
         if (building == null) return NotFound();
 
         period ??= DateTime.UtcNow.ToString("yyyy-MM");
-        var report = await BuildCollectionReport(building, period, includeNotGenerated);
+        var report = await BuildCollectionReport(building, period, includeNotGenerated, party);
 
         var h = GetHeaders(lang);
         var sb = new StringBuilder();
@@ -423,9 +545,9 @@ public class ReportsController : ControllerBase
     }
 
     [HttpGet("aging/{buildingId}/csv")]
-    public async Task<IActionResult> AgingCsv(int buildingId, [FromQuery] string? lang)
+    public async Task<IActionResult> AgingCsv(int buildingId, [FromQuery] string? lang, [FromQuery] BillingParty? party = null)
     {
-        var result = await Aging(buildingId);
+        var result = await Aging(buildingId, party);
         if (result.Result is not OkObjectResult ok || ok.Value is not AgingReport report)
             return NotFound();
 
@@ -448,12 +570,15 @@ public class ReportsController : ControllerBase
     {
         period ??= DateTime.UtcNow.ToString("yyyy-MM");
 
-        var buildings = await _db.Buildings.ToListAsync();
+        IQueryable<Building> query = _db.Buildings;
+        if (await _permissions.VisibleBuildingIdsAsync(this, PermissionResource.Reports) is { } visible)
+            query = query.Where(b => visible.Contains(b.Id));
+        var buildings = await query.ToListAsync();
         var summaries = new List<CollectionSummaryDto>();
 
         foreach (var building in buildings)
         {
-            var report = await BuildCollectionReport(building, period, false);
+            var report = await BuildCollectionReport(building, period, false, null);
             summaries.Add(report.Summary);
         }
 
@@ -1,11 +1,15 @@
+using BuildingManagement.Api.Authorization;
+using BuildingManagement.Api.Configuration;
 using BuildingManagement.Core.DTOs;
 using BuildingManagement.Core.Entities;
 using BuildingManagement.Core.Enums;
 using BuildingManagement.Core.Interfaces;
 using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using System.Linq.Expressions;
 using System.Security.Claims;
 
 namespace BuildingManagement.Api.Controllers;
@@ -20,14 +24,21 @@ public class ServiceRequestsController : ControllerBase
     private readonly IEmailService _emailService;
     private readonly IServiceScopeFactory _scopeFactory;
     private readonly ILogger<ServiceRequestsController> _logger;
+    private readonly ITenantNotifier _notifier;
+    private readonly PermissionService _permissions;
+    private readonly IConfiguration _configuration;
 
-    public ServiceRequestsController(AppDbContext db, IFileStorageService fileStorage, IEmailService emailService, IServiceScopeFactory scopeFactory, ILogger<ServiceRequestsController> logger)
+    public ServiceRequestsController(AppDbContext db, IFileStorageService fileStorage, IEmailService emailService, IServiceScopeFactory scopeFactory, ILogger<ServiceRequestsController> logger,
+        ITenantNotifier notifier, PermissionService permissions, IConfiguration configuration)
     {
         _db = db;
         _fileStorage = fileStorage;
         _emailService = emailService;
         _scopeFactory = scopeFactory;
         _logger = logger;
+        _notifier = notifier;
+        _permissions = permissions;
+        _configuration = configuration;
     }
 
     [HttpPost]
@@ -111,40 +122,70 @@ public class ServiceRequestsController : ControllerBase
     }
 
     [HttpGet]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Maintenance)]
     public async Task<ActionResult<List<ServiceRequestDto>>> GetAll(
         [FromQuery] int? buildingId,
         [FromQuery] int? unitId,
         [FromQuery] ServiceRequestStatus? status)
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
-        var isAdmin = User.IsInRole(AppRoles.Admin);
+        var query = await ManagerQuery(buildingId, unitId, status);
 
-        IQueryable<ServiceRequest> query = _db.ServiceRequests
-            .Include(sr => sr.Building)
-            .Include(sr => sr.Unit)
-            .Include(sr => sr.Attachments)
-            .Include(sr => sr.WorkOrders).ThenInclude(wo => wo.Vendor)
-            .Include(sr => sr.IncidentGroup).ThenInclude(ig => ig!.ServiceRequests)
-            .Include(sr => sr.Messages);
+        var items = await query.OrderByDescending(sr => sr.CreatedAtUtc).ToListAsync();
+        var readReceipts = await GetReadReceipts(userId!, items.Select(s => s.Id).ToList());
+        return Ok(items.Select(sr => MapToDto(sr, readReceipts)).ToList());
+    }
 
-        // Manager: filter to their buildings
-        if (!isAdmin)
+    private static readonly Dictionary<string, Expression<Func<ServiceRequest, object?>>> SortableColumns = new()
+    {
+        ["id"] = sr => sr.Id,
+        ["createdAtUtc"] = sr => sr.CreatedAtUtc,
+        ["priority"] = sr => sr.Priority,
+        ["status"] = sr => sr.Status,
+        ["submittedByName"] = sr => sr.SubmittedByName,
+        ["buildingName"] = sr => sr.Building.Name,
+        ["category"] = sr => sr.Category,
+        ["area"] = sr => sr.Area
+    };
+
+    /// <summary>Paged, sorted and searchable variant of GetAll for the manager grid.</summary>
+    [HttpGet("paged")]
+    [RequirePermission(PermissionResource.Maintenance)]
+    public async Task<ActionResult<PagedResult<ServiceRequestDto>>> GetPaged(
+        [FromQuery] PagedQuery paging,
+        [FromQuery] int? buildingId,
+        [FromQuery] int? unitId,
+        [FromQuery] ServiceRequestStatus? status,
+        [FromQuery] Priority? priority,
+        [FromQuery] ServiceRequestCategory? category,
+        [FromQuery] bool unassignedOnly = false)
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        var query = await ManagerQuery(buildingId, unitId, status);
+
+        if (priority.HasValue) query = query.Where(sr => sr.Priority == priority);
+        if (category.HasValue) query = query.Where(sr => sr.Category == category);
+        if (unassignedOnly) query = query.Where(sr => !sr.WorkOrders.Any(wo => wo.VendorId != null));
+        if (!string.IsNullOrWhiteSpace(paging.Search))
         {
-            var buildingIds = await _db.BuildingManagers
-                .Where(bm => bm.UserId == userId)
-                .Select(bm => bm.BuildingId)
-                .ToListAsync();
-            query = query.Where(sr => buildingIds.Contains(sr.BuildingId));
+            var term = paging.Search.Trim();
+            var idTerm = int.TryParse(term.TrimStart('#'), out var parsedId) ? parsedId : (int?)null;
+            query = query.Where(sr =>
+                sr.Id == idTerm ||
+                sr.Description.Contains(term) ||
+                sr.SubmittedByName.Contains(term) ||
+                sr.Building.Name.Contains(term) ||
+                (sr.Unit != null && sr.Unit.UnitNumber.Contains(term)));
         }
 
-        if (buildingId.HasValue) query = query.Where(sr => sr.BuildingId == buildingId);
-        if (unitId.HasValue) query = query.Where(sr => sr.UnitId == unitId);
-        if (status.HasValue) query = query.Where(sr => sr.Status == status);
-
-        var items = await query.OrderByDescending(sr => sr.CreatedAtUtc).ToListAsync();
-        var readReceipts = await GetReadReceipts(userId!, items.Select(s => s.Id).ToList());
-        return Ok(items.Select(sr => MapToDto(sr, readReceipts)).ToList());
+        var result = await query
+            .ApplySort(paging, SortableColumns, q => q.OrderByDescending(sr => sr.CreatedAtUtc), sr => sr.Id)
+            .ToPagedResultAsync(paging, async items =>
+            {
+                var readReceipts = await GetReadReceipts(userId!, items.Select(s => s.Id).ToList());
+                return items.Select(sr => MapToDto(sr, readReceipts)).ToList();
+            });
+        return Ok(result);
     }
 
     [HttpGet("my")]
@@ -195,7 +236,7 @@ public class ServiceRequestsController : ControllerBase
 
     /// <summary>Assign a vendor to a service request by creating/updating a linked work order.</summary>
     [HttpPut("{id}/assign-vendor")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Maintenance)]
     public async Task<ActionResult<object>> AssignVendor(int id, [FromBody] AssignVendorToSrRequest request)
     {
         var sr = await _db.ServiceRequests
@@ -205,14 +246,8 @@ public class ServiceRequestsController : ControllerBase
         if (sr == null) return NotFound();
 
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
-        var isAdmin = User.IsInRole(AppRoles.Admin);
 
-        // Manager building access check
-        if (!isAdmin)
-        {
-            var hasAccess = await _db.BuildingManagers.AnyAsync(bm => bm.UserId == userId && bm.BuildingId == sr.BuildingId);
-            if (!hasAccess) return Forbid();
-        }
+        if (!await _permissions.CanAccessBuildingAsync(this, PermissionResource.Maintenance, sr.BuildingId)) return Forbid();
 
         var vendor = await _db.Vendors.FindAsync(request.VendorId);
         if (vendor == null) return BadRequest(new { message = "Vendor not found." });
@@ -270,22 +305,35 @@ public class ServiceRequestsController : ControllerBase
     }
 
     [HttpPut("{id}/status")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Maintenance)]
     public async Task<IActionResult> UpdateStatus(int id, [FromBody] UpdateServiceRequestStatusRequest request)
     {
         var sr = await _db.ServiceRequests.FindAsync(id);
         if (sr == null) return NotFound();
 
+        var previousStatus = sr.Status;
         sr.Status = request.Status;
         sr.UpdatedBy = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
         await _db.SaveChangesAsync();
 
+        // A tenant hears about every status change as they chose; other submitters get the resolved email
+        TenantNotifyResult? notified = null;
+        if (previousStatus != request.Status)
+        {
+            var url = _configuration.FrontendUrl("my-requests");
+            notified = await _notifier.NotifyUserAsync(sr.SubmittedByUserId, sr.BuildingId, sr.UnitId,
+                tenant => TicketNotificationTexts.StatusChanged(tenant, sr.Id, request.Status, url));
+            if (notified?.Sent == false)
+                _logger.LogInformation("Status change of ticket #{Id} not sent to its tenant: {Error}", sr.Id, notified.Error);
+        }
+
         if (request.Status == ServiceRequestStatus.Resolved)
         {
-            await _emailService.SendEmailAsync(
-                sr.Email ?? "",
-                $"Service Request #{sr.Id} Resolved",
-                $"Your service request has been resolved.");
+            if (notified == null)
+                await _emailService.SendEmailAsync(
+                    sr.Email ?? "",
+                    $"Service Request #{sr.Id} Resolved",
+                    $"Your service request has been resolved.");
 
             // Trigger AI agent satisfaction follow-up via singleton scope factory
             var resolvedSrId = sr.Id;
@@ -354,6 +402,27 @@ public class ServiceRequestsController : ControllerBase
         return Ok(result);
     }
 
+    /// <summary>Service requests visible to the current manager (admins see all), with the shared filters applied.</summary>
+    private async Task<IQueryable<ServiceRequest>> ManagerQuery(int? buildingId, int? unitId, ServiceRequestStatus? status)
+    {
+        IQueryable<ServiceRequest> query = _db.ServiceRequests
+            .Include(sr => sr.Building)
+            .Include(sr => sr.Unit)
+            .Include(sr => sr.Attachments)
+            .Include(sr => sr.WorkOrders).ThenInclude(wo => wo.Vendor)
+            .Include(sr => sr.IncidentGroup).ThenInclude(ig => ig!.ServiceRequests)
+            .Include(sr => sr.Messages);
+
+        // Narrow to the buildings the user may see
+        if (await _permissions.VisibleBuildingIdsAsync(this, PermissionResource.Maintenance) is { } buildingIds)
+            query = query.Where(sr => buildingIds.Contains(sr.BuildingId));
+
+        if (buildingId.HasValue) query = query.Where(sr => sr.BuildingId == buildingId);
+        if (unitId.HasValue) query = query.Where(sr => sr.UnitId == unitId);
+        if (status.HasValue) query = query.Where(sr => sr.Status == status);
+        return query;
+    }
+
     private async Task<Dictionary<int, int>> GetReadReceipts(string userId, List<int> srIds)
     {
         return await _db.TicketReadReceipts
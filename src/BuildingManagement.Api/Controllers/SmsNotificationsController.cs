@@ -1,10 +1,16 @@
+using BuildingManagement.Api.Authorization;
+using BuildingManagement.Api.Configuration;
 using BuildingManagement.Core.DTOs;
 using BuildingManagement.Core.Entities;
 using BuildingManagement.Core.Entities.Notifications;
 using BuildingManagement.Core.Enums;
 using BuildingManagement.Core.Interfaces;
 using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
+using BuildingManagement.Infrastructure.Services.Email;
+using BuildingManagement.Infrastructure.Services.Push;
 using BuildingManagement.Infrastructure.Services.Sms;
+using BuildingManagement.Infrastructure.Services.WhatsApp;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
@@ -14,38 +20,253 @@ namespace BuildingManagement.Api.Controllers;
 
 [ApiController]
 [Route("api/notifications/sms")]
-[Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+[Authorize]
+[RequirePermission(PermissionResource.Communications)]
 public class SmsNotificationsController : ControllerBase
 {
     private readonly AppDbContext _db;
     private readonly ISmsSender _smsSender;
     private readonly IEmailSender _emailSender;
+    private readonly IWhatsAppSender _whatsAppSender;
+    private readonly IPushSender _pushSender;
+    private readonly ITenantNotifier _notifier;
     private readonly SmsRateLimiter _rateLimiter;
+    private readonly PaymentLinkSigner _linkSigner;
+    private readonly IConfiguration _config;
+    private readonly PermissionService _permissions;
 
-    public SmsNotificationsController(AppDbContext db, ISmsSender smsSender, IEmailSender emailSender, SmsRateLimiter rateLimiter)
+    public SmsNotificationsController(AppDbContext db, ISmsSender smsSender, IEmailSender emailSender, IWhatsAppSender whatsAppSender,
+        IPushSender pushSender, ITenantNotifier notifier, SmsRateLimiter rateLimiter, PaymentLinkSigner linkSigner, IConfiguration config, PermissionService permissions)
     {
         _db = db;
         _smsSender = smsSender;
         _emailSender = emailSender;
+        _whatsAppSender = whatsAppSender;
+        _pushSender = pushSender;
+        _notifier = notifier;
         _rateLimiter = rateLimiter;
+        _linkSigner = linkSigner;
+        _config = config;
+        _permissions = permissions;
     }
 
     // ─── Templates ──────────────────────────────────────
 
+    private static readonly string[] TemplateLanguages = ["he", "en"];
+
     [HttpGet("templates")]
-    public async Task<ActionResult<List<SmsTemplateDto>>> GetTemplates([FromQuery] string? lang)
+    public async Task<ActionResult<List<SmsTemplateDto>>> GetTemplates([FromQuery] string? lang, [FromQuery] bool includeInactive = false)
     {
-        var q = _db.SmsTemplates.Where(t => t.IsActive);
+        var q = _db.SmsTemplates.Where(t => includeInactive || t.IsActive);
         if (!string.IsNullOrEmpty(lang))
             q = q.Where(t => t.Language == lang);
 
-        var templates = await q.OrderBy(t => t.Language).ThenBy(t => t.Name)
-            .Select(t => new SmsTemplateDto
+        var templates = await q.OrderBy(t => t.Language).ThenBy(t => t.Name).ToListAsync();
+        return Ok(templates.Select(MapTemplateDto).ToList());
+    }
+
+    [HttpGet("templates/{id:int}")]
+    public async Task<ActionResult<SmsTemplateDto>> GetTemplate(int id)
+    {
+        var template = await _db.SmsTemplates.FindAsync(id);
+        if (template == null) return NotFound();
+        return Ok(MapTemplateDto(template));
+    }
+
+    [HttpPost("templates")]
+    public async Task<ActionResult<SmsTemplateDto>> CreateTemplate([FromBody] SaveSmsTemplateRequest request)
+    {
+        var error = await ValidateTemplateAsync(request, null);
+        if (error != null) return BadRequest(new { message = error });
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var template = new SmsTemplate
+        {
+            Name = request.Name.Trim(),
+            Language = request.Language,
+            Body = request.Body,
+            EmailSubject = string.IsNullOrWhiteSpace(request.EmailSubject) ? null : request.EmailSubject.Trim(),
+            IsActive = request.IsActive,
+            UpdatedByUserId = userId
+        };
+        _db.SmsTemplates.Add(template);
+        await _db.SaveChangesAsync();
+
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = "CreateReminderTemplate",
+            EntityName = "SmsTemplate",
+            EntityId = template.Id.ToString(),
+            PerformedBy = userId,
+            Details = $"Created {template.Language} reminder template '{template.Name}'"
+        });
+        await _db.SaveChangesAsync();
+
+        return CreatedAtAction(nameof(GetTemplate), new { id = template.Id }, MapTemplateDto(template));
+    }
+
+    [HttpPut("templates/{id:int}")]
+    public async Task<ActionResult<SmsTemplateDto>> UpdateTemplate(int id, [FromBody] SaveSmsTemplateRequest request)
+    {
+        var template = await _db.SmsTemplates.FindAsync(id);
+        if (template == null) return NotFound();
+
+        var error = await ValidateTemplateAsync(request, template);
+        if (error != null) return BadRequest(new { message = error });
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var previousVersion = template.Version;
+        var contentChanged = ApplyTemplateContent(template, request.Name, request.Body, request.EmailSubject, userId);
+        var activeChanged = template.IsActive != request.IsActive;
+        var languageChanged = template.Language != request.Language;
+        if (!contentChanged && !activeChanged && !languageChanged) return Ok(MapTemplateDto(template));
+
+        template.Language = request.Language;
+        template.IsActive = request.IsActive;
+        template.UpdatedAtUtc = DateTime.UtcNow;
+        template.UpdatedByUserId = userId;
+
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = "UpdateReminderTemplate",
+            EntityName = "SmsTemplate",
+            EntityId = template.Id.ToString(),
+            PerformedBy = userId,
+            Details = contentChanged
+                ? $"Saved version {template.Version} of reminder template '{template.Name}' (was {previousVersion})" + (activeChanged ? $", active: {template.IsActive}" : "")
+                : $"Reminder template '{template.Name}' language: {request.Language}, active: {request.IsActive}"
+        });
+        await _db.SaveChangesAsync();
+
+        return Ok(MapTemplateDto(template));
+    }
+
+    [HttpGet("templates/{id:int}/versions")]
+    public async Task<ActionResult<List<SmsTemplateVersionDto>>> GetTemplateVersions(int id)
+    {
+        var template = await _db.SmsTemplates.FindAsync(id);
+        if (template == null) return NotFound();
+
+        var versions = await _db.SmsTemplateVersions
+            .Where(v => v.TemplateId == id)
+            .OrderByDescending(v => v.Version)
+            .ToListAsync();
+
+        var userIds = versions.Select(v => v.CreatedByUserId).Append(template.UpdatedByUserId)
+            .Where(u => u != null).Distinct().ToList();
+        var names = await _db.Users.Where(u => userIds.Contains(u.Id)).ToDictionaryAsync(u => u.Id, u => u.FullName);
+
+        var result = new List<SmsTemplateVersionDto>
+        {
+            new()
             {
-                Id = t.Id, Name = t.Name, Language = t.Language, Body = t.Body,
-                EmailSubject = t.EmailSubject, IsActive = t.IsActive
-            }).ToListAsync();
-        return Ok(templates);
+                Version = template.Version, Name = template.Name, Body = template.Body, EmailSubject = template.EmailSubject,
+                CreatedByName = template.UpdatedByUserId != null ? names.GetValueOrDefault(template.UpdatedByUserId) : null,
+                CreatedAtUtc = template.UpdatedAtUtc ?? template.CreatedAtUtc, IsCurrent = true
+            }
+        };
+        result.AddRange(versions.Select(v => new SmsTemplateVersionDto
+        {
+            Version = v.Version, Name = v.Name, Body = v.Body, EmailSubject = v.EmailSubject,
+            CreatedByName = v.CreatedByUserId != null ? names.GetValueOrDefault(v.CreatedByUserId) : null,
+            CreatedAtUtc = v.CreatedAtUtc
+        }));
+        return Ok(result);
+    }
+
+    /// <summary>Makes an earlier version current again. The restored text is saved as a new version, so nothing is lost.</summary>
+    [HttpPost("templates/{id:int}/versions/{version:int}/restore")]
+    public async Task<ActionResult<SmsTemplateDto>> RestoreTemplateVersion(int id, int version)
+    {
+        var template = await _db.SmsTemplates.FindAsync(id);
+        if (template == null) return NotFound();
+
+        var old = await _db.SmsTemplateVersions.FirstOrDefaultAsync(v => v.TemplateId == id && v.Version == version);
+        if (old == null) return NotFound();
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        if (!ApplyTemplateContent(template, old.Name, old.Body, old.EmailSubject, userId))
+            return BadRequest(new { message = "The current version already has this content." });
+
+        template.UpdatedAtUtc = DateTime.UtcNow;
+        template.UpdatedByUserId = userId;
+
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = "RestoreReminderTemplate",
+            EntityName = "SmsTemplate",
+            EntityId = template.Id.ToString(),
+            PerformedBy = userId,
+            Details = $"Restored version {version} of reminder template '{template.Name}' as version {template.Version}"
+        });
+        await _db.SaveChangesAsync();
+
+        return Ok(MapTemplateDto(template));
+    }
+
+    /// <summary>
+    /// Renders template text as it is being edited — against a real unit's payer and open charges when a unit
+    /// is given, otherwise against sample values.
+    /// </summary>
+    [HttpPost("templates/preview")]
+    public async Task<ActionResult<SmsTemplatePreviewDto>> PreviewTemplate([FromBody] PreviewSmsTemplateRequest request)
+    {
+        string fullName, buildingName, unitNumber, period;
+        decimal amountDue, outstanding;
+        var isSample = request.UnitId == null;
+
+        if (request.UnitId is int unitId)
+        {
+            var unit = await _db.Units
+                .Include(u => u.Building).Include(u => u.TenantUser).Include(u => u.OwnerUser)
+                .FirstOrDefaultAsync(u => u.Id == unitId);
+            if (unit == null) return NotFound();
+
+            if (!await _permissions.CanAccessBuildingAsync(this, PermissionResource.Communications, unit.BuildingId)) return Forbid();
+
+            var party = unit.HOAFeePayer;
+            var charges = await _db.UnitCharges
+                .Include(uc => uc.Allocations)
+                .Where(uc => uc.UnitId == unit.Id && uc.Party == party)
+                .ToListAsync();
+            var open = PaymentAllocator.OldestFirst(charges.Where(c => PaymentPlanCalculator.Outstanding(c) > 0));
+            var focus = open.FirstOrDefault() ?? charges.OrderByDescending(c => c.DueDate).FirstOrDefault();
+
+            var tenant = party == BillingParty.Resident
+                ? await _db.TenantProfiles.FirstOrDefaultAsync(tp => tp.UnitId == unit.Id && tp.IsActive)
+                : null;
+            fullName = BillingPartyResolver.PayerName(unit, party) ?? tenant?.FullName ?? unit.OwnerName ?? "—";
+            buildingName = unit.Building.Name;
+            unitNumber = unit.UnitNumber;
+            period = focus?.Period ?? DateTime.UtcNow.ToString("yyyy-MM");
+            amountDue = focus?.AmountDue ?? 0;
+            outstanding = PaymentAllocator.Outstanding(open);
+        }
+        else
+        {
+            var en = request.Language == "en";
+            fullName = en ? "Dana Cohen" : "דנה כהן";
+            buildingName = en ? "12 Herzl St." : "הרצל 12";
+            unitNumber = "7";
+            period = DateTime.UtcNow.ToString("yyyy-MM");
+            amountDue = 450;
+            outstanding = 900;
+        }
+
+        string Render(string text) => ReminderTemplateRenderer.Render(text, fullName, buildingName, unitNumber, period, amountDue, outstanding);
+
+        var message = Render(request.Body);
+        return Ok(new SmsTemplatePreviewDto
+        {
+            Message = message,
+            Subject = string.IsNullOrWhiteSpace(request.EmailSubject) ? null : Render(request.EmailSubject),
+            EmailHtml = ReminderTemplateRenderer.ToEmailHtml(message, request.Language),
+            RecipientName = fullName,
+            UnitNumber = isSample ? null : unitNumber,
+            IsSample = isSample,
+            UnknownPlaceholders = ReminderTemplateRenderer.UnknownPlaceholders(request.Body)
+                .Union(ReminderTemplateRenderer.UnknownPlaceholders(request.EmailSubject)).ToList()
+        });
     }
 
     // ─── Campaigns ──────────────────────────────────────
@@ -53,26 +274,30 @@ public class SmsNotificationsController : ControllerBase
     [HttpGet("campaigns")]
     public async Task<ActionResult<List<SmsCampaignDto>>> GetCampaigns([FromQuery] int? buildingId, [FromQuery] string? period)
     {
-        var q = _db.SmsCampaigns.Include(c => c.Building).Include(c => c.Template).AsQueryable();
+        var q = _db.SmsCampaigns.Include(c => c.Building).Include(c => c.Template).Include(c => c.Recipients).AsQueryable();
         if (buildingId.HasValue) q = q.Where(c => c.BuildingId == buildingId);
         if (!string.IsNullOrEmpty(period)) q = q.Where(c => c.Period == period);
 
         var items = await q.OrderByDescending(c => c.CreatedAtUtc).Take(50).ToListAsync();
-        return Ok(items.Select(MapCampaignDto).ToList());
+        var (afterSend, viaLink) = await PaymentsAfterSendAsync(items);
+        return Ok(items.Select(c => MapCampaignWithConversions(c, afterSend, viaLink)).ToList());
     }
 
     [HttpGet("campaigns/{id}")]
     public async Task<ActionResult<CreateCampaignResult>> GetCampaign(int id)
     {
         var campaign = await _db.SmsCampaigns
-            .Include(c => c.Building).Include(c => c.Template).Include(c => c.Recipients)
+            .Include(c => c.Building).Include(c => c.Template).Include(c => c.Recipients).ThenInclude(r => r.Deliveries)
             .FirstOrDefaultAsync(c => c.Id == id);
         if (campaign == null) return NotFound();
 
+        var (afterSend, viaLink) = await PaymentsAfterSendAsync(new List<SmsCampaign> { campaign });
         return Ok(new CreateCampaignResult
         {
-            Campaign = MapCampaignDto(campaign),
-            Recipients = campaign.Recipients.Select(MapRecipientDto).OrderBy(r => r.FullNameSnapshot).ToList()
+            Campaign = MapCampaignWithConversions(campaign, afterSend, viaLink),
+            Recipients = campaign.Recipients
+                .Select(r => MapRecipientDto(r) with { PaidAfterSendAmount = afterSend.GetValueOrDefault(r.Id) })
+                .OrderBy(r => r.FullNameSnapshot).ToList()
         });
     }
 
@@ -83,11 +308,7 @@ public class SmsNotificationsController : ControllerBase
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
 
-        if (!User.IsInRole(AppRoles.Admin))
-        {
-            var hasAccess = await _db.BuildingManagers.AnyAsync(bm => bm.UserId == userId && bm.BuildingId == request.BuildingId);
-            if (!hasAccess) return Forbid();
-        }
+        if (!await _permissions.CanAccessBuildingAsync(this, PermissionResource.Communications, request.BuildingId)) return Forbid();
 
         var template = await _db.SmsTemplates.FindAsync(request.TemplateId);
         if (template == null) return BadRequest(new { message = "Template not found." });
@@ -171,19 +392,20 @@ public class SmsNotificationsController : ControllerBase
                 var phone = tenant?.Phone ?? unit.TenantUser?.Phone;
                 var email = tenant?.Email ?? unit.TenantUser?.Email;
 
-                // For SMS channel, skip units without phone; for Email, skip without email
+                // For SMS and WhatsApp, skip units without phone; for Email, without email; for Push, tenants who cannot log in
                 var hasContact = campaign.Channel switch
                 {
-                    ReminderChannel.Sms => !string.IsNullOrWhiteSpace(phone),
+                    ReminderChannel.Sms or ReminderChannel.WhatsApp => !string.IsNullOrWhiteSpace(phone),
                     ReminderChannel.Email => !string.IsNullOrWhiteSpace(email),
                     ReminderChannel.Both => !string.IsNullOrWhiteSpace(phone) || !string.IsNullOrWhiteSpace(email),
+                    ReminderChannel.Push => !string.IsNullOrEmpty(tenant?.UserId),
                     _ => !string.IsNullOrWhiteSpace(phone)
                 };
                 if (!hasContact) continue;
 
                 var charge = await _db.UnitCharges
                     .Include(uc => uc.Allocations)
-                    .Where(uc => uc.UnitId == unitId && uc.Period == campaign.Period)
+                    .Where(uc => uc.UnitId == unitId && uc.Period == campaign.Period && uc.ChargeType == UnitChargeType.HOAMonthlyFee)
                     .FirstOrDefaultAsync();
 
                 var amountDue = charge?.AmountDue ?? 0;
@@ -224,9 +446,10 @@ public class SmsNotificationsController : ControllerBase
         var recipient = await _db.SmsCampaignRecipients.FirstOrDefaultAsync(r => r.Id == recipientId && r.CampaignId == campaignId);
         if (recipient == null) return NotFound();
 
-        var message = RenderTemplate(campaign.Template.Body, campaign, recipient);
+        var unitNumber = await _db.Units.Where(u => u.Id == recipient.UnitId).Select(u => u.UnitNumber).FirstOrDefaultAsync() ?? "";
+        var message = RenderTemplate(campaign.Template.Body, campaign, recipient, unitNumber);
         var subject = campaign.Template.EmailSubject != null
-            ? RenderTemplate(campaign.Template.EmailSubject, campaign, recipient)
+            ? RenderTemplate(campaign.Template.EmailSubject, campaign, recipient, unitNumber)
             : null;
         return Ok(new { message, subject });
     }
@@ -249,100 +472,19 @@ public class SmsNotificationsController : ControllerBase
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
         var selectedRecipients = campaign.Recipients.Where(r => r.IsSelected && r.SendStatus == SmsSendStatus.Pending).ToList();
 
-        int sentCount = 0, failedCount = 0, skippedCount = 0;
+        var unitNumbers = await _db.Units.Where(u => u.BuildingId == campaign.BuildingId)
+            .ToDictionaryAsync(u => u.Id, u => u.UnitNumber);
 
-        foreach (var recipient in selectedRecipients)
-        {
-            var message = RenderTemplate(campaign.Template.Body, campaign, recipient);
-            var subject = campaign.Template.EmailSubject != null
-                ? RenderTemplate(campaign.Template.EmailSubject, campaign, recipient)
-                : "Payment Reminder";
-
-            bool smsSent = false, emailSent = false;
-            string? lastError = null;
-
-            // Send SMS if channel is Sms or Both
-            if (campaign.Channel is ReminderChannel.Sms or ReminderChannel.Both)
-            {
-                var e164 = PhoneNormalizer.NormalizeIsraeli(recipient.PhoneSnapshot);
-                if (!string.IsNullOrEmpty(e164) && PhoneNormalizer.IsValidIsraeliMobile(e164))
-                {
-                    try
-                    {
-                        await _rateLimiter.WaitForSlotAsync();
-                        var smsResult = await _smsSender.SendAsync(e164, message);
-                        if (smsResult.Success)
-                        {
-                            smsSent = true;
-                            recipient.ProviderMessageId = smsResult.MessageId;
-                        }
-                        else
-                        {
-                            lastError = smsResult.Error ?? "SMS send failed";
-                        }
-                    }
-                    catch (Exception ex)
-                    {
-                        lastError = $"SMS: {ex.Message}";
-                    }
-                }
-                else if (campaign.Channel == ReminderChannel.Sms)
-                {
-                    recipient.SendStatus = SmsSendStatus.Skipped;
-                    recipient.ErrorMessage = "Invalid or missing phone number";
-                    skippedCount++;
-                    continue;
-                }
-            }
+        var contacts = await LoadContactsAsync(selectedRecipients);
 
-            // Send Email if channel is Email or Both
-            if (campaign.Channel is ReminderChannel.Email or ReminderChannel.Both)
-            {
-                var email = recipient.EmailSnapshot;
-                if (!string.IsNullOrWhiteSpace(email))
-                {
-                    try
-                    {
-                        var htmlBody = $"<div dir=\"rtl\" style=\"font-family:Arial,sans-serif;font-size:14px;line-height:1.6\">{message.Replace("\n", "<br/>")}</div>";
-                        var emailResult = await _emailSender.SendAsync(email, subject, htmlBody);
-                        if (emailResult.Success)
-                        {
-                            emailSent = true;
-                            recipient.ProviderMessageId ??= emailResult.MessageId;
-                        }
-                        else
-                        {
-                            lastError = emailResult.Error ?? "Email send failed";
-                        }
-                    }
-                    catch (Exception ex)
-                    {
-                        lastError = $"Email: {ex.Message}";
-                    }
-                }
-                else if (campaign.Channel == ReminderChannel.Email)
-                {
-                    recipient.SendStatus = SmsSendStatus.Skipped;
-                    recipient.ErrorMessage = "Missing email address";
-                    skippedCount++;
-                    continue;
-                }
-            }
+        IssuePaymentLinks(selectedRecipients);
+        foreach (var recipient in selectedRecipients)
+            await SendToRecipientAsync(campaign, recipient, campaign.Channel, unitNumbers.GetValueOrDefault(recipient.UnitId) ?? "",
+                recipient.TenantProfileId.HasValue ? contacts.GetValueOrDefault(recipient.TenantProfileId.Value) : null);
 
-            // Determine final status
-            if (smsSent || emailSent)
-            {
-                recipient.SendStatus = SmsSendStatus.Sent;
-                recipient.SentAtUtc = DateTime.UtcNow;
-                sentCount++;
-            }
-            else
-            {
-                recipient.SendStatus = SmsSendStatus.Failed;
-                recipient.ErrorMessage = lastError ?? "No contact info available";
-                failedCount++;
-            }
-        }
+        var sentCount = selectedRecipients.Count(r => r.SendStatus == SmsSendStatus.Sent);
+        var failedCount = selectedRecipients.Count(r => r.SendStatus == SmsSendStatus.Failed);
+        var skippedCount = selectedRecipients.Count(r => r.SendStatus == SmsSendStatus.Skipped);
 
         campaign.Status = SmsCampaignStatus.Sent;
         campaign.TotalSelected = selectedRecipients.Count;
@@ -371,6 +513,211 @@ public class SmsNotificationsController : ControllerBase
         });
     }
 
+    // ─── Retry ──────────────────────────────────────────
+
+    /// <summary>
+    /// Sends a sent campaign again to the recipients it did not reach — failed or skipped at send, or reported
+    /// undelivered or bounced since — optionally on another channel. Each retry is a new attempt per recipient.
+    /// </summary>
+    [HttpPost("campaigns/{campaignId}/retry")]
+    public async Task<ActionResult<SendCampaignResult>> RetryCampaign(int campaignId, [FromBody] RetryCampaignRequest request)
+    {
+        if (!request.Confirm)
+            return BadRequest(new { message = "Must confirm before sending." });
+
+        var campaign = await _db.SmsCampaigns
+            .Include(c => c.Template).Include(c => c.Building).Include(c => c.Recipients)
+            .FirstOrDefaultAsync(c => c.Id == campaignId);
+        if (campaign == null) return NotFound();
+        if (campaign.Status != SmsCampaignStatus.Sent)
+            return BadRequest(new { message = "Only a sent campaign can be retried." });
+
+        var retryRecipients = campaign.Recipients.Where(DeliveryReceipts.IsRetryable)
+            .Where(r => request.RecipientIds is not { Count: > 0 } || request.RecipientIds.Contains(r.Id))
+            .ToList();
+        if (retryRecipients.Count == 0)
+            return BadRequest(new { message = "No failed or undelivered recipients to retry." });
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        var unitNumbers = await _db.Units.Where(u => u.BuildingId == campaign.BuildingId)
+            .ToDictionaryAsync(u => u.Id, u => u.UnitNumber);
+
+        var contacts = await LoadContactsAsync(retryRecipients);
+
+        IssuePaymentLinks(retryRecipients);
+        foreach (var recipient in retryRecipients)
+            await SendToRecipientAsync(campaign, recipient, request.Channel, unitNumbers.GetValueOrDefault(recipient.UnitId) ?? "",
+                recipient.TenantProfileId.HasValue ? contacts.GetValueOrDefault(recipient.TenantProfileId.Value) : null);
+
+        var result = new SendCampaignResult
+        {
+            TotalSelected = retryRecipients.Count,
+            SentCount = retryRecipients.Count(r => r.SendStatus == SmsSendStatus.Sent),
+            FailedCount = retryRecipients.Count(r => r.SendStatus == SmsSendStatus.Failed),
+            SkippedCount = retryRecipients.Count(r => r.SendStatus == SmsSendStatus.Skipped)
+        };
+
+        var selected = campaign.Recipients.Where(r => r.IsSelected).ToList();
+        campaign.SentCount = selected.Count(r => r.SendStatus == SmsSendStatus.Sent);
+        campaign.FailedCount = selected.Count(r => r.SendStatus == SmsSendStatus.Failed);
+        campaign.SkippedCount = selected.Count(r => r.SendStatus == SmsSendStatus.Skipped);
+        campaign.LastRetryAtUtc = DateTime.UtcNow;
+
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = "RetryReminderCampaign",
+            EntityName = "SmsCampaign",
+            EntityId = campaign.Id.ToString(),
+            PerformedBy = userId,
+            Details = $"Retried reminder campaign #{campaign.Id} by {request.Channel}. Recipients: {result.TotalSelected}, Sent: {result.SentCount}, Failed: {result.FailedCount}, Skipped: {result.SkippedCount}"
+        });
+
+        await _db.SaveChangesAsync();
+        return Ok(result);
+    }
+
+    // ─── Delivery Receipts ──────────────────────────────
+
+    /// <summary>
+    /// Status callback of the SMS provider (<c>sms</c>), the email provider (<c>email</c>) or WhatsApp
+    /// (<c>whatsapp</c>); push services send none. When <c>Notifications:ReceiptKey</c> is set, the callback URL
+    /// configured at the provider must carry it as <c>?key=</c>.
+    /// </summary>
+    [HttpPost("delivery-receipts/{channel}")]
+    [AllowAnonymous]
+    public async Task<IActionResult> ReceiveDeliveryReceipts(string channel, [FromQuery] string? key)
+    {
+        if (!Enum.TryParse<ReminderChannel>(channel, true, out var ch) || ch is ReminderChannel.Both or ReminderChannel.Push)
+            return BadRequest(new { message = "Unknown channel." });
+
+        var receiptKey = _config["Notifications:ReceiptKey"];
+        if (!string.IsNullOrEmpty(receiptKey) && key != receiptKey)
+            return Unauthorized();
+
+        using var reader = new StreamReader(Request.Body);
+        var payload = await reader.ReadToEndAsync();
+        if (ch == ReminderChannel.Sms && DeliveryReceipts.EventGridValidationCode(payload) is { } validationCode)
+            return Ok(new { validationResponse = validationCode });
+
+        var receipts = ch switch
+        {
+            ReminderChannel.Sms => _smsSender.ParseDeliveryReceipts(payload),
+            ReminderChannel.WhatsApp => _whatsAppSender.ParseDeliveryReceipts(payload),
+            _ => _emailSender.ParseDeliveryReceipts(payload)
+        };
+        if (receipts.Count == 0) return Ok(new { received = true, applied = 0 });
+
+        var messageIds = receipts.Select(r => r.MessageId).Distinct().ToList();
+        var deliveries = await _db.SmsCampaignDeliveries
+            .Include(d => d.Recipient)
+            .Where(d => d.Channel == ch && messageIds.Contains(d.ProviderMessageId))
+            .ToListAsync();
+
+        var applied = 0;
+        foreach (var receipt in receipts)
+        {
+            var delivery = deliveries.FirstOrDefault(d => d.ProviderMessageId == receipt.MessageId);
+            if (delivery == null) continue;
+
+            // Receipts may arrive out of order; an older one never replaces a newer status
+            var atUtc = receipt.OccurredAtUtc ?? DateTime.UtcNow;
+            if (delivery.StatusAtUtc > atUtc) continue;
+
+            delivery.Status = receipt.Status;
+            delivery.StatusAtUtc = atUtc;
+            delivery.Error = receipt.Status == MessageDeliveryStatus.Delivered ? null : receipt.Error;
+            applied++;
+        }
+
+        // Roll each recipient's latest attempt up again; a late receipt of an earlier attempt changes nothing
+        var recipients = deliveries.Select(d => d.Recipient).DistinctBy(r => r.Id).ToList();
+        var recipientIds = recipients.Select(r => r.Id).ToList();
+        var allDeliveries = await _db.SmsCampaignDeliveries.Where(d => recipientIds.Contains(d.RecipientId)).ToListAsync();
+        foreach (var recipient in recipients)
+        {
+            var latest = allDeliveries.Where(d => d.RecipientId == recipient.Id && d.Attempt == recipient.AttemptCount).ToList();
+            if (latest.Count == 0) continue;
+
+            recipient.DeliveryStatus = DeliveryReceipts.Rollup(latest);
+            recipient.DeliveryStatusAtUtc = latest.Max(d => d.StatusAtUtc);
+            if (recipient.DeliveryStatus is MessageDeliveryStatus.Undelivered or MessageDeliveryStatus.Bounced)
+                recipient.ErrorMessage = latest.Select(d => d.Error).FirstOrDefault(e => !string.IsNullOrEmpty(e));
+        }
+
+        await _db.SaveChangesAsync();
+        return Ok(new { received = true, applied });
+    }
+
+    /// <summary>
+    /// Verification handshake Meta runs when the WhatsApp webhook is registered: echoes <c>hub.challenge</c> when
+    /// <c>hub.verify_token</c> matches <c>WhatsApp:Meta:VerifyToken</c>.
+    /// </summary>
+    [HttpGet("delivery-receipts/whatsapp")]
+    [AllowAnonymous]
+    public IActionResult VerifyWhatsAppWebhook([FromQuery(Name = "hub.mode")] string? mode,
+        [FromQuery(Name = "hub.verify_token")] string? verifyToken, [FromQuery(Name = "hub.challenge")] string? challenge)
+    {
+        var expected = _config["WhatsApp:Meta:VerifyToken"];
+        if (mode != "subscribe" || string.IsNullOrEmpty(expected) || verifyToken != expected)
+            return Unauthorized();
+        return Content(challenge ?? "", "text/plain");
+    }
+
+    // ─── Stand-in Outbox ────────────────────────────────
+
+    /// <summary>
+    /// What the local stand-in providers accepted instead of sending, newest first, to check reminders and
+    /// notifications without real SMS, email, WhatsApp or push accounts.
+    /// </summary>
+    [HttpGet("outbox")]
+    public ActionResult<StandInOutboxDto> GetStandInOutbox([FromQuery] int count = 50)
+    {
+        count = Math.Clamp(count, 1, 200);
+        var channels = new List<ReminderChannel>();
+        var messages = new List<StandInMessageDto>();
+
+        if (_smsSender is FakeSmsSender)
+        {
+            channels.Add(ReminderChannel.Sms);
+            messages.AddRange(FakeSmsSender.GetRecentMessages(count).Select(m => new StandInMessageDto
+            {
+                Channel = ReminderChannel.Sms, To = m.To, Body = m.Body, MessageId = m.MessageId, SentAtUtc = m.SentAt
+            }));
+        }
+        if (_emailSender is FakeEmailSender)
+        {
+            channels.Add(ReminderChannel.Email);
+            messages.AddRange(FakeEmailSender.GetRecentMessages(count).Select(m => new StandInMessageDto
+            {
+                Channel = ReminderChannel.Email, To = m.To, Subject = m.Subject, Body = m.Body, MessageId = m.MessageId, SentAtUtc = m.SentAt
+            }));
+        }
+        if (_whatsAppSender is FakeWhatsAppSender)
+        {
+            channels.Add(ReminderChannel.WhatsApp);
+            messages.AddRange(FakeWhatsAppSender.GetRecentMessages(count).Select(m => new StandInMessageDto
+            {
+                Channel = ReminderChannel.WhatsApp, To = m.To, Subject = $"{m.Kind} ({m.Language})",
+                Body = string.Join(" | ", m.Parameters), MessageId = m.MessageId, SentAtUtc = m.SentAt
+            }));
+        }
+        if (_pushSender is FakePushSender)
+        {
+            channels.Add(ReminderChannel.Push);
+            messages.AddRange(FakePushSender.GetRecentMessages(count).Select(m => new StandInMessageDto
+            {
+                Channel = ReminderChannel.Push, To = m.Endpoint, Subject = m.Title,
+                Body = m.Url != null ? $"{m.Body}\n{m.Url}" : m.Body, MessageId = m.MessageId, SentAtUtc = m.SentAt
+            }));
+        }
+
+        return Ok(new StandInOutboxDto
+        {
+            StandInChannels = channels,
+            Messages = messages.OrderByDescending(m => m.SentAtUtc).Take(count).ToList()
+        });
+    }
+
     // ─── Helpers ─────────────────────────────────────────
 
     private async Task<List<SmsCampaignRecipient>> GenerateRecipients(SmsCampaign campaign, bool includePartial)
@@ -402,7 +749,7 @@ public class SmsNotificationsController : ControllerBase
 
             var charge = await _db.UnitCharges
                 .Include(uc => uc.Allocations)
-                .Where(uc => uc.UnitId == unit.Id && uc.Period == campaign.Period)
+                .Where(uc => uc.UnitId == unit.Id && uc.Period == campaign.Period && uc.ChargeType == UnitChargeType.HOAMonthlyFee)
                 .FirstOrDefaultAsync();
 
             var amountDue = charge?.AmountDue ?? 0;
@@ -452,19 +799,268 @@ public class SmsNotificationsController : ControllerBase
         return recipients;
     }
 
-    private static string RenderTemplate(string templateBody, SmsCampaign campaign, SmsCampaignRecipient recipient)
+    /// <summary>Gives every recipient without a valid payment link a newly signed one, for {{PayLink}}.</summary>
+    private void IssuePaymentLinks(IEnumerable<SmsCampaignRecipient> recipients)
     {
-        var payLink = "https://app.homehero.co.il/my-charges";
-
-        return templateBody
-            .Replace("{{FullName}}", recipient.FullNameSnapshot)
-            .Replace("{{BuildingName}}", campaign.Building?.Name ?? "")
-            .Replace("{{Period}}", campaign.Period)
-            .Replace("{{AmountDue}}", recipient.AmountDueSnapshot.ToString("F2"))
-            .Replace("{{Outstanding}}", recipient.OutstandingSnapshot.ToString("F2"))
-            .Replace("{{PayLink}}", payLink);
+        var frontendBase = _config.FrontendBaseUrl();
+        var linkExpiresAtUtc = DateTime.UtcNow.AddDays(_linkSigner.ValidDays);
+        foreach (var recipient in recipients.Where(r => r.PaymentLinkToken == null || r.PaymentLinkExpiresAtUtc <= DateTime.UtcNow))
+        {
+            recipient.PaymentLinkToken = _linkSigner.Create(recipient.Id, linkExpiresAtUtc);
+            recipient.PaymentLinkUrl = $"{frontendBase}/pay/{recipient.PaymentLinkToken}";
+            recipient.PaymentLinkExpiresAtUtc = linkExpiresAtUtc;
+        }
     }
 
+    /// <summary>
+    /// Sends a recipient's reminder on the channel (SMS and email for Both) as their next attempt, leaving out
+    /// channels the tenant opted out of, all channels when they turned payment reminders off, and SMS, WhatsApp
+    /// and push during their quiet hours (a retry sends those later). Every message the provider accepts is
+    /// recorded for its delivery receipts; the recipient ends Sent, Failed, or Skipped when no channel could be tried.
+    /// </summary>
+    private async Task SendToRecipientAsync(SmsCampaign campaign, SmsCampaignRecipient recipient, ReminderChannel channel,
+        string unitNumber, RecipientContact? contact)
+    {
+        var message = RenderTemplate(campaign.Template.Body, campaign, recipient, unitNumber);
+        var subject = campaign.Template.EmailSubject != null
+            ? RenderTemplate(campaign.Template.EmailSubject, campaign, recipient, unitNumber)
+            : "Payment Reminder";
+
+        recipient.AttemptCount++;
+        recipient.LastChannel = channel;
+        recipient.DeliveryStatus = null;
+        recipient.DeliveryStatusAtUtc = null;
+
+        var accepted = new List<SmsCampaignDelivery>();
+        var skipReasons = new List<string>();
+        string? lastError = null;
+
+        ReminderChannel[] channels = channel == ReminderChannel.Both ? [ReminderChannel.Sms, ReminderChannel.Email] : [channel];
+        foreach (var ch in channels)
+        {
+            var blocked = NotificationPolicy.BlockReason(contact?.Preferences, NotificationKind.PaymentReminder, ch, DateTime.UtcNow, true);
+            if (blocked != null)
+            {
+                skipReasons.Add(blocked);
+                continue;
+            }
+
+            try
+            {
+                switch (ch)
+                {
+                    case ReminderChannel.Sms or ReminderChannel.WhatsApp:
+                    {
+                        var e164 = PhoneNormalizer.NormalizeIsraeli(recipient.PhoneSnapshot);
+                        if (string.IsNullOrEmpty(e164) || !PhoneNormalizer.IsValidIsraeliMobile(e164))
+                        {
+                            skipReasons.Add("Invalid or missing phone number");
+                            break;
+                        }
+
+                        if (ch == ReminderChannel.Sms)
+                        {
+                            await _rateLimiter.WaitForSlotAsync();
+                            var smsResult = await _smsSender.SendAsync(e164, message);
+                            if (smsResult.Success)
+                                accepted.Add(NewDelivery(recipient, ch, _smsSender.ProviderName, smsResult.MessageId, e164));
+                            else
+                                lastError = smsResult.Error ?? "SMS send failed";
+                        }
+                        else
+                        {
+                            // WhatsApp only takes the approved template, filled with the reminder's values, and
+                            // has it in both languages, so it goes in the tenant's
+                            var waResult = await _whatsAppSender.SendTemplateAsync(e164, NotificationKind.PaymentReminder,
+                                contact?.Language ?? campaign.Template.Language,
+                                [recipient.FullNameSnapshot, campaign.Building?.Name ?? "", campaign.Period,
+                                 recipient.OutstandingSnapshot.ToString("F2"), recipient.PaymentLinkUrl ?? ReminderTemplateRenderer.PayLink]);
+                            if (waResult.Success)
+                                accepted.Add(NewDelivery(recipient, ch, _whatsAppSender.ProviderName, waResult.MessageId, e164));
+                            else
+                                lastError = waResult.Error ?? "WhatsApp send failed";
+                        }
+                        break;
+                    }
+                    case ReminderChannel.Email:
+                    {
+                        var email = recipient.EmailSnapshot;
+                        if (string.IsNullOrWhiteSpace(email))
+                        {
+                            skipReasons.Add("Missing email address");
+                            break;
+                        }
+
+                        var htmlBody = ReminderTemplateRenderer.ToEmailHtml(message, campaign.Template.Language);
+                        var emailResult = await _emailSender.SendAsync(email, subject, htmlBody);
+                        if (emailResult.Success)
+                            accepted.Add(NewDelivery(recipient, ch, _emailSender.ProviderName, emailResult.MessageId, email));
+                        else
+                            lastError = emailResult.Error ?? "Email send failed";
+                        break;
+                    }
+                    case ReminderChannel.Push:
+                    {
+                        if (contact?.PushUserId == null)
+                        {
+                            skipReasons.Add("No push subscription");
+                            break;
+                        }
+
+                        var pushResult = await _notifier.PushToUserAsync(contact.PushUserId, subject, message, recipient.PaymentLinkUrl);
+                        if (pushResult.Success)
+                        {
+                            // Push services send no receipts; the hand-off is as far as delivery can be followed
+                            var delivery = NewDelivery(recipient, ch, _pushSender.ProviderName, pushResult.MessageId, "Web push");
+                            delivery.Status = MessageDeliveryStatus.Delivered;
+                            accepted.Add(delivery);
+                        }
+                        else
+                            lastError = pushResult.Error ?? "Push send failed";
+                        break;
+                    }
+                }
+            }
+            catch (Exception ex)
+            {
+                lastError = $"{ch}: {ex.Message}";
+            }
+        }
+
+        if (accepted.Count > 0)
+        {
+            foreach (var delivery in accepted)
+                recipient.Deliveries.Add(delivery);
+            recipient.SendStatus = SmsSendStatus.Sent;
+            recipient.SentAtUtc = DateTime.UtcNow;
+            recipient.ProviderMessageId = accepted[0].ProviderMessageId;
+            recipient.ErrorMessage = null;
+            recipient.DeliveryStatus = DeliveryReceipts.Rollup(accepted);
+            if (recipient.DeliveryStatus != MessageDeliveryStatus.Pending)
+                recipient.DeliveryStatusAtUtc = DateTime.UtcNow;
+        }
+        else if (lastError != null)
+        {
+            recipient.SendStatus = SmsSendStatus.Failed;
+            recipient.ErrorMessage = lastError;
+        }
+        else
+        {
+            recipient.SendStatus = SmsSendStatus.Skipped;
+            recipient.ErrorMessage = skipReasons.Count > 0 ? string.Join("; ", skipReasons.Distinct()) : "No contact info available";
+        }
+    }
+
+    /// <summary>
+    /// The recipient's tenant as far as sending goes: their notification preferences, their language, and their user
+    /// when a browser of theirs subscribed to push.
+    /// </summary>
+    private record RecipientContact(TenantNotificationPreferences? Preferences, string? PushUserId, string? Language);
+
+    private async Task<Dictionary<int, RecipientContact>> LoadContactsAsync(IEnumerable<SmsCampaignRecipient> recipients)
+    {
+        var tenantIds = recipients.Where(r => r.TenantProfileId.HasValue).Select(r => r.TenantProfileId!.Value).Distinct().ToList();
+        var prefs = await _db.TenantNotificationPreferences.Where(p => tenantIds.Contains(p.TenantProfileId))
+            .ToDictionaryAsync(p => p.TenantProfileId);
+        var users = await _db.TenantProfiles
+            .Where(t => tenantIds.Contains(t.Id) && t.User != null)
+            .Select(t => new { t.Id, t.UserId, t.User!.PreferredLanguage, HasPush = _db.PushSubscriptions.Any(s => s.UserId == t.UserId) })
+            .ToDictionaryAsync(t => t.Id);
+        return tenantIds.ToDictionary(id => id, id =>
+        {
+            var user = users.GetValueOrDefault(id);
+            return new RecipientContact(prefs.GetValueOrDefault(id), user?.HasPush == true ? user.UserId : null, user?.PreferredLanguage);
+        });
+    }
+
+    private static SmsCampaignDelivery NewDelivery(SmsCampaignRecipient recipient, ReminderChannel channel, string provider,
+        string? messageId, string destination) => new()
+    {
+        Attempt = recipient.AttemptCount,
+        Channel = channel,
+        Provider = provider,
+        // Providers that return no id can never be matched to a receipt
+        ProviderMessageId = messageId ?? $"{provider}-{Guid.NewGuid():N}",
+        Destination = destination,
+        SentAtUtc = DateTime.UtcNow
+    };
+
+    private async Task<string?> ValidateTemplateAsync(SaveSmsTemplateRequest request, SmsTemplate? existing)
+    {
+        if (string.IsNullOrWhiteSpace(request.Name) || string.IsNullOrWhiteSpace(request.Body))
+            return "Name and body are required.";
+        if (!TemplateLanguages.Contains(request.Language))
+            return $"Language must be one of: {string.Join(", ", TemplateLanguages)}.";
+
+        var unknown = ReminderTemplateRenderer.UnknownPlaceholders(request.Body)
+            .Union(ReminderTemplateRenderer.UnknownPlaceholders(request.EmailSubject)).ToList();
+        if (unknown.Count > 0)
+            return $"Unknown placeholders: {string.Join(", ", unknown)}. Available: {string.Join(", ", ReminderTemplateRenderer.Placeholders.Select(p => $"{{{{{p}}}}}"))}.";
+
+        var name = request.Name.Trim();
+        var duplicate = await _db.SmsTemplates.AnyAsync(t => t.Name == name && t.Language == request.Language && (existing == null || t.Id != existing.Id));
+        if (duplicate) return $"A {request.Language} template named '{name}' already exists.";
+
+        if (existing != null && existing.IsActive && !request.IsActive)
+        {
+            var usedBy = await _db.DunningSteps
+                .Where(s => s.TemplateId == existing.Id && s.IsEnabled)
+                .Select(s => s.Building.Name)
+                .Distinct()
+                .ToListAsync();
+            if (usedBy.Count > 0)
+                return $"The template is used by the dunning schedule of {string.Join(", ", usedBy)}. Replace it there before deactivating.";
+        }
+        if (existing != null && existing.Language != request.Language
+            && await _db.DunningSteps.AnyAsync(s => s.TemplateId == existing.Id))
+            return "The language of a template used by a dunning schedule cannot be changed.";
+        return null;
+    }
+
+    /// <summary>
+    /// Applies new name, body and subject; when any of them differ, the current content is kept as a
+    /// SmsTemplateVersion first and the version number moves up. Returns whether the content changed.
+    /// </summary>
+    private bool ApplyTemplateContent(SmsTemplate template, string name, string body, string? emailSubject, string userId)
+    {
+        name = name.Trim();
+        emailSubject = string.IsNullOrWhiteSpace(emailSubject) ? null : emailSubject.Trim();
+        if (template.Name == name && template.Body == body && template.EmailSubject == emailSubject)
+            return false;
+
+        _db.SmsTemplateVersions.Add(new SmsTemplateVersion
+        {
+            TemplateId = template.Id,
+            Version = template.Version,
+            Name = template.Name,
+            Body = template.Body,
+            EmailSubject = template.EmailSubject,
+            CreatedByUserId = template.UpdatedByUserId,
+            CreatedAtUtc = template.UpdatedAtUtc ?? template.CreatedAtUtc
+        });
+        template.Name = name;
+        template.Body = body;
+        template.EmailSubject = emailSubject;
+        template.Version++;
+        return true;
+    }
+
+    private static SmsTemplateDto MapTemplateDto(SmsTemplate t) => new()
+    {
+        Id = t.Id,
+        Name = t.Name,
+        Language = t.Language,
+        Body = t.Body,
+        EmailSubject = t.EmailSubject,
+        IsActive = t.IsActive,
+        Version = t.Version,
+        UpdatedAtUtc = t.UpdatedAtUtc
+    };
+
+    private static string RenderTemplate(string templateBody, SmsCampaign campaign, SmsCampaignRecipient recipient, string unitNumber)
+        => ReminderTemplateRenderer.Render(templateBody, recipient.FullNameSnapshot, campaign.Building?.Name ?? "",
+            unitNumber, campaign.Period, recipient.AmountDueSnapshot, recipient.OutstandingSnapshot, recipient.PaymentLinkUrl);
+
     private static SmsCampaignDto MapCampaignDto(SmsCampaign c) => new()
     {
         Id = c.Id,
@@ -482,9 +1078,50 @@ public class SmsNotificationsController : ControllerBase
         SentCount = c.SentCount,
         FailedCount = c.FailedCount,
         SkippedCount = c.SkippedCount,
-        SentAtUtc = c.SentAtUtc
+        SentAtUtc = c.SentAtUtc,
+        LastRetryAtUtc = c.LastRetryAtUtc,
+        DeliveredCount = c.Recipients.Count(r => r.SendStatus == SmsSendStatus.Sent && r.DeliveryStatus == MessageDeliveryStatus.Delivered),
+        UndeliveredCount = c.Recipients.Count(r => r.SendStatus == SmsSendStatus.Sent && r.DeliveryStatus == MessageDeliveryStatus.Undelivered),
+        BouncedCount = c.Recipients.Count(r => r.SendStatus == SmsSendStatus.Sent && r.DeliveryStatus == MessageDeliveryStatus.Bounced),
+        AwaitingReceiptCount = c.Recipients.Count(r => r.SendStatus == SmsSendStatus.Sent && r.DeliveryStatus == MessageDeliveryStatus.Pending),
+        RetryableCount = c.Status == SmsCampaignStatus.Sent ? c.Recipients.Count(DeliveryReceipts.IsRetryable) : 0
     };
 
+    /// <summary>
+    /// Succeeded payments per recipient since their campaign was sent: of the reminded unit by any channel, and
+    /// through the recipient's own payment link. Only recipients the reminder reached are counted.
+    /// </summary>
+    private async Task<(Dictionary<int, decimal> AfterSend, Dictionary<int, decimal> ViaLink)> PaymentsAfterSendAsync(List<SmsCampaign> campaigns)
+    {
+        var reached = campaigns
+            .Where(c => c.SentAtUtc != null)
+            .SelectMany(c => c.Recipients.Where(r => r.SendStatus == SmsSendStatus.Sent).Select(r => (Recipient: r, SentAtUtc: c.SentAtUtc!.Value)))
+            .ToList();
+        if (reached.Count == 0) return (new Dictionary<int, decimal>(), new Dictionary<int, decimal>());
+
+        var unitIds = reached.Select(x => x.Recipient.UnitId).Distinct().ToList();
+        var since = reached.Min(x => x.SentAtUtc);
+        var payments = await _db.Payments
+            .Where(p => unitIds.Contains(p.UnitId) && p.Status == PaymentStatus.Succeeded && p.PaymentDateUtc >= since)
+            .Select(p => new { p.UnitId, p.Amount, p.PaymentDateUtc, p.CampaignRecipientId })
+            .ToListAsync();
+
+        var afterSend = reached.ToDictionary(x => x.Recipient.Id,
+            x => payments.Where(p => p.UnitId == x.Recipient.UnitId && p.PaymentDateUtc >= x.SentAtUtc).Sum(p => p.Amount));
+        var viaLink = reached.ToDictionary(x => x.Recipient.Id,
+            x => payments.Where(p => p.CampaignRecipientId == x.Recipient.Id).Sum(p => p.Amount));
+        return (afterSend, viaLink);
+    }
+
+    private static SmsCampaignDto MapCampaignWithConversions(SmsCampaign c, Dictionary<int, decimal> afterSend, Dictionary<int, decimal> viaLink)
+        => MapCampaignDto(c) with
+        {
+            LinksClicked = c.Recipients.Count(r => r.LinkClickCount > 0),
+            PaidRecipients = c.Recipients.Count(r => afterSend.GetValueOrDefault(r.Id) > 0),
+            PaidAfterSendAmount = c.Recipients.Sum(r => afterSend.GetValueOrDefault(r.Id)),
+            PaidViaLinkAmount = c.Recipients.Sum(r => viaLink.GetValueOrDefault(r.Id))
+        };
+
     private static SmsCampaignRecipientDto MapRecipientDto(SmsCampaignRecipient r) => new()
     {
         Id = r.Id,
@@ -501,6 +1138,29 @@ public class SmsNotificationsController : ControllerBase
         SendStatus = r.SendStatus,
         ProviderMessageId = r.ProviderMessageId,
         ErrorMessage = r.ErrorMessage,
-        SentAtUtc = r.SentAtUtc
+        SentAtUtc = r.SentAtUtc,
+        PaymentLinkUrl = r.PaymentLinkUrl,
+        PaymentLinkExpiresAtUtc = r.PaymentLinkExpiresAtUtc,
+        LinkClickCount = r.LinkClickCount,
+        LinkFirstClickedAtUtc = r.LinkFirstClickedAtUtc,
+        DeliveryStatus = r.DeliveryStatus,
+        DeliveryStatusAtUtc = r.DeliveryStatusAtUtc,
+        AttemptCount = r.AttemptCount,
+        LastChannel = r.LastChannel,
+        Deliveries = r.Deliveries
+            .OrderBy(d => d.Attempt).ThenBy(d => d.Channel)
+            .Select(d => new SmsCampaignDeliveryDto
+            {
+                Id = d.Id,
+                Attempt = d.Attempt,
+                Channel = d.Channel,
+                Provider = d.Provider,
+                ProviderMessageId = d.ProviderMessageId,
+                Destination = d.Destination,
+                SentAtUtc = d.SentAtUtc,
+                Status = d.Status,
+                StatusAtUtc = d.StatusAtUtc,
+                Error = d.Error
+            }).ToList()
     };
 }
@@ -0,0 +1,426 @@
+using BuildingManagement.Api.Authorization;
+using BuildingManagement.Core.DTOs;
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Core.Entities.Finance;
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Core.Interfaces;
+using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using System.Security.Claims;
+
+namespace BuildingManagement.Api.Controllers;
+
+/// <summary>
+/// Special assessments: one-off budgets (roof, elevator...) split between units when activated
+/// and billed as monthly installment charges, period by period.
+/// </summary>
+[ApiController]
+[Route("api/special-assessments")]
+[Authorize]
+public class SpecialAssessmentsController : ControllerBase
+{
+    private readonly AppDbContext _db;
+    private readonly PermissionService _permissions;
+
+    public SpecialAssessmentsController(AppDbContext db, PermissionService permissions)
+    {
+        _db = db;
+        _permissions = permissions;
+    }
+
+    // ─── Manager ────────────────────────────────────────
+
+    [HttpGet]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<List<SpecialAssessmentDto>>> GetAll([FromQuery] int buildingId)
+    {
+        if (!await CanAccessBuilding(buildingId)) return Forbid();
+
+        var items = await _db.SpecialAssessments
+            .Include(sa => sa.Building)
+            .Include(sa => sa.Charges).ThenInclude(c => c.Allocations)
+            .Where(sa => sa.BuildingId == buildingId && !sa.IsDeleted)
+            .OrderByDescending(sa => sa.CreatedAtUtc)
+            .ToListAsync();
+
+        return Ok(items.Select(MapDto).ToList());
+    }
+
+    [HttpGet("{id}")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<SpecialAssessmentDetailDto>> Get(int id)
+    {
+        var sa = await _db.SpecialAssessments
+            .Include(x => x.Building)
+            .Include(x => x.Charges).ThenInclude(c => c.Allocations)
+            .Include(x => x.Shares).ThenInclude(s => s.Unit).ThenInclude(u => u.TenantUser)
+            .FirstOrDefaultAsync(x => x.Id == id && !x.IsDeleted);
+        if (sa == null) return NotFound();
+        if (!await CanAccessBuilding(sa.BuildingId)) return Forbid();
+
+        var shares = sa.Shares
+            .OrderBy(s => s.Unit.Floor).ThenBy(s => s.Unit.UnitNumber)
+            .Select(s =>
+            {
+                var charges = sa.Charges.Where(c => c.UnitId == s.UnitId && c.Status != UnitChargeStatus.Cancelled).ToList();
+                return new SpecialAssessmentShareDto
+                {
+                    UnitId = s.UnitId,
+                    UnitNumber = s.Unit.UnitNumber,
+                    Floor = s.Unit.Floor,
+                    SizeSqm = s.Unit.SizeSqm,
+                    PayerDisplayName = s.Unit.TenantUser?.FullName ?? s.Unit.OwnerName,
+                    ShareAmount = s.Amount,
+                    InstallmentAmount = SpecialAssessmentCalculator.InstallmentAmount(s.Amount, sa.InstallmentCount, 1),
+                    AmountBilled = charges.Sum(c => c.AmountDue),
+                    AmountPaid = charges.Sum(c => c.Allocations.Sum(a => a.AllocatedAmount))
+                };
+            }).ToList();
+
+        return Ok(new SpecialAssessmentDetailDto { Assessment = MapDto(sa), Shares = shares });
+    }
+
+    [HttpPost]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<SpecialAssessmentDto>> Create([FromBody] SaveSpecialAssessmentRequest request)
+    {
+        if (!await CanAccessBuilding(request.BuildingId)) return Forbid();
+        if (!SpecialAssessmentCalculator.IsValidPeriod(request.StartPeriod))
+            return BadRequest(new { message = "Start period must be in YYYY-MM format." });
+
+        var sa = new SpecialAssessment
+        {
+            BuildingId = request.BuildingId,
+            Name = request.Name.Trim(),
+            Description = request.Description,
+            TotalBudget = request.TotalBudget,
+            AllocationMethod = request.AllocationMethod,
+            InstallmentCount = request.InstallmentCount,
+            StartPeriod = request.StartPeriod,
+            CreatedBy = User.FindFirst(ClaimTypes.NameIdentifier)?.Value
+        };
+        _db.SpecialAssessments.Add(sa);
+        await _db.SaveChangesAsync();
+
+        await _db.Entry(sa).Reference(x => x.Building).LoadAsync();
+        return Ok(MapDto(sa));
+    }
+
+    [HttpPut("{id}")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<IActionResult> Update(int id, [FromBody] SaveSpecialAssessmentRequest request)
+    {
+        var sa = await _db.SpecialAssessments.FirstOrDefaultAsync(x => x.Id == id && !x.IsDeleted);
+        if (sa == null) return NotFound();
+        if (!await CanAccessBuilding(sa.BuildingId)) return Forbid();
+        if (sa.Status != SpecialAssessmentStatus.Draft)
+            return BadRequest(new { message = "Only draft assessments can be edited." });
+        if (!SpecialAssessmentCalculator.IsValidPeriod(request.StartPeriod))
+            return BadRequest(new { message = "Start period must be in YYYY-MM format." });
+
+        sa.Name = request.Name.Trim();
+        sa.Description = request.Description;
+        sa.TotalBudget = request.TotalBudget;
+        sa.AllocationMethod = request.AllocationMethod;
+        sa.InstallmentCount = request.InstallmentCount;
+        sa.StartPeriod = request.StartPeriod;
+        sa.UpdatedBy = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+
+        await _db.SaveChangesAsync();
+        return NoContent();
+    }
+
+    [HttpDelete("{id}")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<IActionResult> Delete(int id)
+    {
+        var sa = await _db.SpecialAssessments.FirstOrDefaultAsync(x => x.Id == id && !x.IsDeleted);
+        if (sa == null) return NotFound();
+        if (!await CanAccessBuilding(sa.BuildingId)) return Forbid();
+        if (sa.Status != SpecialAssessmentStatus.Draft)
+            return BadRequest(new { message = "Only draft assessments can be deleted. Cancel it instead." });
+
+        sa.IsDeleted = true;
+        await _db.SaveChangesAsync();
+        return NoContent();
+    }
+
+    /// <summary>Fix each unit's share of the budget. No charges are created until installments are generated.</summary>
+    [HttpPost("{id}/activate")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<IActionResult> Activate(int id)
+    {
+        var sa = await _db.SpecialAssessments.FirstOrDefaultAsync(x => x.Id == id && !x.IsDeleted);
+        if (sa == null) return NotFound();
+        if (!await CanAccessBuilding(sa.BuildingId)) return Forbid();
+        if (sa.Status != SpecialAssessmentStatus.Draft)
+            return BadRequest(new { message = "This assessment is already active or cancelled." });
+
+        var units = await _db.Units
+            .Where(u => u.BuildingId == sa.BuildingId)
+            .Select(u => new { u.Id, u.SizeSqm })
+            .ToListAsync();
+
+        Dictionary<int, decimal> shares;
+        try
+        {
+            shares = SpecialAssessmentCalculator.AllocateShares(
+                sa.TotalBudget, sa.AllocationMethod, units.Select(u => (u.Id, u.SizeSqm)).ToList());
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+
+        foreach (var (unitId, amount) in shares)
+            _db.SpecialAssessmentShares.Add(new SpecialAssessmentShare { SpecialAssessmentId = sa.Id, UnitId = unitId, Amount = amount });
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        sa.Status = SpecialAssessmentStatus.Active;
+        sa.ActivatedAtUtc = DateTime.UtcNow;
+        sa.UpdatedBy = userId;
+
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = "ActivateSpecialAssessment",
+            EntityName = "SpecialAssessment",
+            EntityId = sa.Id.ToString(),
+            PerformedBy = userId,
+            Details = $"Activated '{sa.Name}': budget {sa.TotalBudget:F2} split {sa.AllocationMethod} across {shares.Count} units, {sa.InstallmentCount} installments from {sa.StartPeriod}"
+        });
+
+        await _db.SaveChangesAsync();
+        return NoContent();
+    }
+
+    /// <summary>Bill the installment that falls in <paramref name="period"/>. Idempotent per assessment+period.</summary>
+    [HttpPost("{id}/generate/{period}")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<ActionResult<GenerateChargesResult>> GenerateInstallment(int id, string period)
+    {
+        var sa = await _db.SpecialAssessments
+            .Include(x => x.Shares).ThenInclude(s => s.Unit)
+            .FirstOrDefaultAsync(x => x.Id == id && !x.IsDeleted);
+        if (sa == null) return NotFound();
+        if (!await CanAccessBuilding(sa.BuildingId)) return Forbid();
+        if (sa.Status != SpecialAssessmentStatus.Active)
+            return BadRequest(new { message = "Only active assessments can be billed." });
+        if (!SpecialAssessmentCalculator.IsValidPeriod(period))
+            return BadRequest(new { message = "Period must be in YYYY-MM format." });
+
+        var installment = SpecialAssessmentCalculator.InstallmentNumberFor(sa.StartPeriod, sa.InstallmentCount, period);
+        if (installment == null)
+            return BadRequest(new { message = $"{period} is outside this assessment's schedule." });
+
+        var jobName = $"SpecialAssessment-{sa.Id}";
+        if (await _db.JobRunLogs.AnyAsync(j => j.JobName == jobName && j.PeriodKey == period))
+            return Ok(new GenerateChargesResult(true, period, 0, "Already generated for this period."));
+
+        var billedUnits = await _db.UnitCharges
+            .Where(uc => uc.SpecialAssessmentId == sa.Id && uc.Period == period)
+            .Select(uc => uc.UnitId)
+            .ToListAsync();
+
+        var dueDate = SpecialAssessmentCalculator.DueDate(period);
+        var description = $"{sa.Name} – installment {installment}/{sa.InstallmentCount}";
+        var created = 0;
+
+        foreach (var share in sa.Shares)
+        {
+            if (billedUnits.Contains(share.UnitId)) continue;
+
+            var amount = SpecialAssessmentCalculator.InstallmentAmount(share.Amount, sa.InstallmentCount, installment.Value);
+            if (amount <= 0) continue;
+
+            _db.UnitCharges.Add(new UnitCharge
+            {
+                UnitId = share.UnitId,
+                SpecialAssessmentId = sa.Id,
+                InstallmentNumber = installment,
+                ChargeType = UnitChargeType.SpecialAssessment,
+                Party = BillingPartyResolver.PartyFor(share.Unit, UnitChargeType.SpecialAssessment),
+                Period = period,
+                AmountDue = amount,
+                DueDate = dueDate,
+                Description = description,
+                Status = UnitChargeStatus.Pending
+            });
+
+            var lastBalance = await _db.LedgerEntries
+                .Where(le => le.UnitId == share.UnitId)
+                .OrderByDescending(le => le.Id)
+                .Select(le => (decimal?)le.BalanceAfter)
+                .FirstOrDefaultAsync() ?? 0m;
+
+            _db.LedgerEntries.Add(new LedgerEntry
+            {
+                BuildingId = sa.BuildingId,
+                UnitId = share.UnitId,
+                EntryType = LedgerEntryType.Charge,
+                Category = nameof(IncomeCategory.SpecialAssessment),
+                Description = description,
+                ReferenceId = sa.Id,
+                Debit = amount,
+                Credit = 0,
+                BalanceAfter = lastBalance + amount
+            });
+
+            created++;
+        }
+
+        _db.JobRunLogs.Add(new JobRunLog { JobName = jobName, PeriodKey = period });
+        await _db.SaveChangesAsync();
+
+        return Ok(new GenerateChargesResult(false, period, created,
+            $"Generated {created} charges for installment {installment}/{sa.InstallmentCount} ({period})."));
+    }
+
+    /// <summary>Stop billing further installments. Charges already billed stay open.</summary>
+    [HttpPost("{id}/cancel")]
+    [RequirePermission(PermissionResource.Finance)]
+    public async Task<IActionResult> Cancel(int id)
+    {
+        var sa = await _db.SpecialAssessments.FirstOrDefaultAsync(x => x.Id == id && !x.IsDeleted);
+        if (sa == null) return NotFound();
+        if (!await CanAccessBuilding(sa.BuildingId)) return Forbid();
+        if (sa.Status == SpecialAssessmentStatus.Cancelled)
+            return BadRequest(new { message = "This assessment is already cancelled." });
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        sa.Status = SpecialAssessmentStatus.Cancelled;
+        sa.UpdatedBy = userId;
+
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = "CancelSpecialAssessment",
+            EntityName = "SpecialAssessment",
+            EntityId = sa.Id.ToString(),
+            PerformedBy = userId,
+            Details = $"Cancelled '{sa.Name}'"
+        });
+
+        await _db.SaveChangesAsync();
+        return NoContent();
+    }
+
+    // ─── Tenant ─────────────────────────────────────────
+
+    /// <summary>Full installment schedule for every assessment the user pays on their units, billed or not.</summary>
+    [HttpGet("my")]
+    [Authorize(Roles = AppRoles.Tenant)]
+    public async Task<ActionResult<List<MyAssessmentScheduleDto>>> GetMySchedules()
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+
+        var shares = await _db.SpecialAssessmentShares
+            .Include(s => s.Unit)
+            .Include(s => s.SpecialAssessment).ThenInclude(sa => sa.Building)
+            .Where(s => ((s.Unit.SpecialAssessmentPayer == BillingParty.Owner ? s.Unit.OwnerUserId : s.Unit.TenantUserId) == userId)
+                && !s.SpecialAssessment.IsDeleted
+                && s.SpecialAssessment.Status != SpecialAssessmentStatus.Draft)
+            .OrderByDescending(s => s.SpecialAssessment.StartPeriod)
+            .ToListAsync();
+
+        var assessmentIds = shares.Select(s => s.SpecialAssessmentId).Distinct().ToList();
+        var unitIds = shares.Select(s => s.UnitId).Distinct().ToList();
+        var charges = await _db.UnitCharges
+            .Include(uc => uc.Allocations)
+            .Where(uc => uc.SpecialAssessmentId != null
+                && assessmentIds.Contains(uc.SpecialAssessmentId.Value)
+                && unitIds.Contains(uc.UnitId))
+            .ToListAsync();
+
+        var result = shares.Select(s =>
+        {
+            var sa = s.SpecialAssessment;
+            var unitCharges = charges
+                .Where(c => c.SpecialAssessmentId == sa.Id && c.UnitId == s.UnitId)
+                .ToDictionary(c => c.Period);
+
+            var installments = Enumerable.Range(1, sa.InstallmentCount).Select(n =>
+            {
+                var period = SpecialAssessmentCalculator.InstallmentPeriod(sa.StartPeriod, n);
+                unitCharges.TryGetValue(period, out var charge);
+                return new AssessmentInstallmentDto
+                {
+                    InstallmentNumber = n,
+                    Period = period,
+                    DueDate = charge?.DueDate ?? SpecialAssessmentCalculator.DueDate(period),
+                    Amount = charge?.AmountDue ?? SpecialAssessmentCalculator.InstallmentAmount(s.Amount, sa.InstallmentCount, n),
+                    UnitChargeId = charge?.Id,
+                    AmountPaid = charge?.Allocations.Sum(a => a.AllocatedAmount) ?? 0,
+                    Status = charge?.Status
+                };
+            })
+            // A cancelled assessment no longer bills its remaining installments
+            .Where(i => sa.Status != SpecialAssessmentStatus.Cancelled || i.UnitChargeId != null)
+            .ToList();
+
+            var paid = installments.Sum(i => i.AmountPaid);
+            return new MyAssessmentScheduleDto
+            {
+                AssessmentId = sa.Id,
+                Name = sa.Name,
+                Description = sa.Description,
+                BuildingName = sa.Building.Name,
+                UnitId = s.UnitId,
+                UnitNumber = s.Unit.UnitNumber,
+                ShareAmount = s.Amount,
+                AmountPaid = paid,
+                Remaining = installments.Sum(i => i.Amount) - paid,
+                Installments = installments
+            };
+        }).ToList();
+
+        return Ok(result);
+    }
+
+    // ─── Helpers ────────────────────────────────────────
+
+    private static SpecialAssessmentDto MapDto(SpecialAssessment sa)
+    {
+        var charges = sa.Charges.Where(c => c.Status != UnitChargeStatus.Cancelled).ToList();
+        var billedPeriods = charges.Select(c => c.Period).ToHashSet();
+        var billed = charges.Sum(c => c.AmountDue);
+        var collected = charges.Sum(c => c.Allocations.Sum(a => a.AllocatedAmount));
+
+        string? nextPeriod = null;
+        if (sa.Status == SpecialAssessmentStatus.Active)
+        {
+            nextPeriod = Enumerable.Range(1, sa.InstallmentCount)
+                .Select(n => SpecialAssessmentCalculator.InstallmentPeriod(sa.StartPeriod, n))
+                .FirstOrDefault(p => !billedPeriods.Contains(p));
+        }
+
+        return new SpecialAssessmentDto
+        {
+            Id = sa.Id,
+            BuildingId = sa.BuildingId,
+            BuildingName = sa.Building?.Name,
+            Name = sa.Name,
+            Description = sa.Description,
+            TotalBudget = sa.TotalBudget,
+            AllocationMethod = sa.AllocationMethod,
+            InstallmentCount = sa.InstallmentCount,
+            StartPeriod = sa.StartPeriod,
+            EndPeriod = SpecialAssessmentCalculator.IsValidPeriod(sa.StartPeriod)
+                ? SpecialAssessmentCalculator.InstallmentPeriod(sa.StartPeriod, sa.InstallmentCount)
+                : sa.StartPeriod,
+            Status = sa.Status,
+            ActivatedAtUtc = sa.ActivatedAtUtc,
+            InstallmentsGenerated = billedPeriods.Count,
+            NextPeriod = nextPeriod,
+            AmountBilled = billed,
+            AmountCollected = collected,
+            Outstanding = billed - collected,
+            CollectedPercent = sa.TotalBudget > 0 ? Math.Round(collected / sa.TotalBudget * 100, 1) : 0,
+            CreatedAtUtc = sa.CreatedAtUtc
+        };
+    }
+
+    private Task<bool> CanAccessBuilding(int buildingId)
+        => _permissions.CanAccessBuildingAsync(this, PermissionResource.Finance, buildingId);
+}
@@ -1,8 +1,12 @@
+using BuildingManagement.Api.Authorization;
+using BuildingManagement.Api.Configuration;
 using BuildingManagement.Api.Hubs;
 using BuildingManagement.Core.DTOs;
 using BuildingManagement.Core.Entities;
 using BuildingManagement.Core.Enums;
+using BuildingManagement.Core.Interfaces;
 using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.SignalR;
@@ -19,20 +23,31 @@ public class TenantMessagesController : ControllerBase
     private readonly AppDbContext _db;
     private readonly ILogger<TenantMessagesController> _logger;
     private readonly IHubContext<TicketChatHub> _hub;
+    private readonly ITenantNotifier _notifier;
+    private readonly PermissionService _permissions;
+    private readonly IConfiguration _configuration;
 
-    public TenantMessagesController(AppDbContext db, ILogger<TenantMessagesController> logger, IHubContext<TicketChatHub> hub)
+    public TenantMessagesController(AppDbContext db, ILogger<TenantMessagesController> logger, IHubContext<TicketChatHub> hub,
+        ITenantNotifier notifier, PermissionService permissions, IConfiguration configuration)
     {
         _db = db;
         _logger = logger;
         _hub = hub;
+        _notifier = notifier;
+        _permissions = permissions;
+        _configuration = configuration;
     }
 
     // ─── Manager endpoints ────────────────────────────────
 
     [HttpGet("tenant/{tenantProfileId}")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Tenants)]
     public async Task<ActionResult<List<TenantMessageDto>>> GetMessagesForTenant(int tenantProfileId)
     {
+        var buildingId = await TenantBuildingIdAsync(tenantProfileId);
+        if (buildingId == null) return NotFound();
+        if (!await CanAccessBuilding(buildingId.Value)) return Forbid();
+
         var allMessages = await _db.TenantMessages
             .Where(m => m.TenantProfileId == tenantProfileId)
             .OrderByDescending(m => m.CreatedAtUtc)
@@ -58,11 +73,12 @@ public class TenantMessagesController : ControllerBase
     }
 
     [HttpPost("tenant/{tenantProfileId}/send")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Tenants)]
     public async Task<ActionResult<TenantMessageDto>> SendMessage(int tenantProfileId, [FromBody] SendTenantMessageRequest req)
     {
-        var tp = await _db.TenantProfiles.FirstOrDefaultAsync(t => t.Id == tenantProfileId);
+        var tp = await _db.TenantProfiles.Include(t => t.Unit).FirstOrDefaultAsync(t => t.Id == tenantProfileId);
         if (tp == null) return NotFound();
+        if (!await CanAccessBuilding(tp.Unit.BuildingId)) return Forbid();
 
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
         var userName = User.FindFirst("fullName")?.Value ?? "Manager";
@@ -89,6 +105,13 @@ public class TenantMessagesController : ControllerBase
                 .SendAsync("UnreadCountChanged");
         }
 
+        // Tenants who are not in the app hear about it on their preferred channel
+        var messagesUrl = $"{_configuration.FrontendBaseUrl()}/my-messages";
+        var notifyResult = await _notifier.NotifyAsync(tp.Id, new TenantNotification(NotificationKind.TenantMessage,
+            req.Subject, req.Body, messagesUrl, [tp.FullName, req.Subject, messagesUrl]));
+        if (!notifyResult.Sent)
+            _logger.LogInformation("Message {MessageId} not sent out to tenant {TenantProfileId}: {Error}", msg.Id, tp.Id, notifyResult.Error);
+
         return Ok(new TenantMessageDto
         {
             Id = msg.Id,
@@ -105,10 +128,68 @@ public class TenantMessagesController : ControllerBase
         });
     }
 
+    /// <summary>
+    /// Posts an announcement to the in-app messages of every active tenant of the building. It also goes out on
+    /// their preferred channel to the tenants who agreed to receive updates.
+    /// </summary>
+    [HttpPost("building/{buildingId}/announce")]
+    [RequirePermission(PermissionResource.Tenants)]
+    public async Task<ActionResult<object>> SendAnnouncement(int buildingId, [FromBody] SendAnnouncementRequest req)
+    {
+        var building = await _db.Buildings.FindAsync(buildingId);
+        if (building == null) return NotFound();
+
+        var tenants = await _db.TenantProfiles
+            .Where(t => t.Unit.BuildingId == buildingId && t.IsActive && !t.IsDeleted)
+            .ToListAsync();
+        if (tenants.Count == 0)
+            return BadRequest(new { message = "No active tenants in this building." });
+
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        foreach (var tp in tenants)
+        {
+            _db.TenantMessages.Add(new TenantMessage
+            {
+                TenantProfileId = tp.Id,
+                SentByUserId = userId,
+                Subject = req.Subject,
+                Body = req.Body,
+                MessageType = "Announcement"
+            });
+        }
+        await _db.SaveChangesAsync();
+
+        var messagesUrl = $"{_configuration.FrontendBaseUrl()}/my-messages";
+        int notified = 0;
+        foreach (var tp in tenants)
+        {
+            if (!string.IsNullOrEmpty(tp.UserId))
+            {
+                await _hub.Clients.Group($"user-{tp.UserId}")
+                    .SendAsync("NewTenantMessage");
+                await _hub.Clients.Group($"user-{tp.UserId}")
+                    .SendAsync("UnreadCountChanged");
+            }
+
+            var result = await _notifier.NotifyAsync(tp.Id, new TenantNotification(NotificationKind.BuildingAnnouncement,
+                req.Subject, req.Body, messagesUrl, [tp.FullName, building.Name, req.Subject, messagesUrl]));
+            if (result.Sent) notified++;
+        }
+
+        _logger.LogInformation("Announcement to {Count} tenants of building {BuildingId}, {Notified} notified outside the app",
+            tenants.Count, buildingId, notified);
+        return Ok(new
+        {
+            recipients = tenants.Count,
+            notified,
+            message = $"Posted to {tenants.Count} tenant(s); {notified} also notified outside the app."
+        });
+    }
+
     // ─── Payment analysis & AI reminders ──────────────────
 
     [HttpGet("payment-analysis/{buildingId}")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Tenants)]
     public async Task<ActionResult<List<PaymentAnalysisDto>>> GetPaymentAnalysis(int buildingId)
     {
         var analyses = await AnalyzeTenantsInBuilding(buildingId);
@@ -116,9 +197,11 @@ public class TenantMessagesController : ControllerBase
     }
 
     [HttpPost("send-payment-reminders")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Tenants)]
     public async Task<ActionResult<object>> SendPaymentReminders([FromBody] SendPaymentRemindersRequest req)
     {
+        if (!await CanAccessBuilding(req.BuildingId)) return Forbid();
+
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
         var analyses = await AnalyzeTenantsInBuilding(req.BuildingId);
 
@@ -129,6 +212,7 @@ public class TenantMessagesController : ControllerBase
         var building = await _db.Buildings.FindAsync(req.BuildingId);
         var paymentUrl = $"/my-charges";
         int sent = 0;
+        var messages = new List<TenantMessage>();
 
         foreach (var analysis in tenantsWithDebt)
         {
@@ -144,6 +228,7 @@ public class TenantMessagesController : ControllerBase
                 PayerCategory = analysis.PayerCategory
             };
             _db.TenantMessages.Add(msg);
+            messages.Add(msg);
             sent++;
         }
 
@@ -161,6 +246,12 @@ public class TenantMessagesController : ControllerBase
                 await _hub.Clients.Group($"user-{tp.UserId}")
                     .SendAsync("UnreadCountChanged");
             }
+
+            var msg = messages.First(m => m.TenantProfileId == analysis.TenantProfileId);
+            var chargesUrl = $"{_configuration.FrontendBaseUrl()}{paymentUrl}";
+            await _notifier.NotifyAsync(analysis.TenantProfileId, new TenantNotification(NotificationKind.PaymentReminder,
+                msg.Subject, msg.Body, chargesUrl,
+                [analysis.TenantName, building?.Name ?? "", DateTime.UtcNow.ToString("yyyy-MM"), analysis.Outstanding.ToString("F2"), chargesUrl]));
         }
 
         return Ok(new { sent, message = $"Sent {sent} payment reminder(s)." });
@@ -217,6 +308,10 @@ public class TenantMessagesController : ControllerBase
                 .FirstOrDefaultAsync(t => t.UserId == userId && t.IsActive && !t.IsDeleted);
             if (tenantProfile == null || rootMsg.TenantProfileId != tenantProfile.Id) return Forbid();
         }
+        else if (await TenantBuildingIdAsync(rootMsg.TenantProfileId) is not { } buildingId || !await CanAccessBuilding(buildingId))
+        {
+            return Forbid();
+        }
 
         var rootId = rootMsg.ParentMessageId ?? rootMsg.Id;
 
@@ -474,6 +569,12 @@ public class TenantMessagesController : ControllerBase
         }).OrderByDescending(r => r.LastReplyAtUtc ?? r.CreatedAtUtc).ToList();
     }
 
+    private Task<bool> CanAccessBuilding(int buildingId)
+        => _permissions.CanAccessBuildingAsync(this, PermissionResource.Tenants, buildingId);
+
+    private Task<int?> TenantBuildingIdAsync(int tenantProfileId)
+        => _db.TenantProfiles.Where(t => t.Id == tenantProfileId).Select(t => (int?)t.Unit.BuildingId).FirstOrDefaultAsync();
+
     private static (string Subject, string Body) GeneratePaymentMessage(
         PaymentAnalysisDto analysis, string buildingName, string paymentUrl)
     {
@@ -1,10 +1,14 @@
+using BuildingManagement.Api.Authorization;
+using BuildingManagement.Api.Configuration;
 using BuildingManagement.Core.DTOs;
 using BuildingManagement.Core.Entities;
 using BuildingManagement.Core.Enums;
 using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using System.Linq.Expressions;
 using System.Security.Claims;
 
 namespace BuildingManagement.Api.Controllers;
@@ -15,8 +19,18 @@ namespace BuildingManagement.Api.Controllers;
 public class TenantsController : ControllerBase
 {
     private readonly AppDbContext _db;
+    private readonly TenantOnboardingService _onboardingService;
+    private readonly PermissionService _permissions;
+    private readonly IConfiguration _configuration;
 
-    public TenantsController(AppDbContext db) => _db = db;
+    public TenantsController(AppDbContext db, TenantOnboardingService onboardingService, PermissionService permissions,
+        IConfiguration configuration)
+    {
+        _db = db;
+        _onboardingService = onboardingService;
+        _permissions = permissions;
+        _configuration = configuration;
+    }
 
     // ─── MY PROFILE (tenant) ────────────────────────────
 
@@ -36,7 +50,7 @@ public class TenantsController : ControllerBase
     // ─── LIST ────────────────────────────────────────────
 
     [HttpGet]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Tenants)]
     public async Task<ActionResult<List<TenantProfileDto>>> GetAll(
         [FromQuery] int? buildingId,
         [FromQuery] int? unitId,
@@ -47,6 +61,8 @@ public class TenantsController : ControllerBase
             .Include(tp => tp.Unit).ThenInclude(u => u.Building)
             .Include(tp => tp.User);
 
+        if (await _permissions.VisibleBuildingIdsAsync(this, PermissionResource.Tenants) is { } visible)
+            query = query.Where(tp => visible.Contains(tp.Unit.BuildingId));
         if (buildingId.HasValue)
             query = query.Where(tp => tp.Unit.BuildingId == buildingId);
         if (unitId.HasValue)
@@ -62,13 +78,74 @@ public class TenantsController : ControllerBase
             .Select(tp => MapDto(tp))
             .ToListAsync();
 
-        return Ok(tenants);
+        return Ok(await WithInvitationsAsync(tenants));
+    }
+
+    private static readonly Dictionary<string, Expression<Func<TenantProfile, object?>>> SortableColumns = new()
+    {
+        ["fullName"] = tp => tp.FullName,
+        ["unitNumber"] = tp => tp.Unit.UnitNumber,
+        ["buildingName"] = tp => tp.Unit.Building.Name,
+        ["phone"] = tp => tp.Phone,
+        ["email"] = tp => tp.Email,
+        ["moveInDate"] = tp => tp.MoveInDate,
+        ["moveOutDate"] = tp => tp.MoveOutDate,
+        ["createdAtUtc"] = tp => tp.CreatedAtUtc
+    };
+
+    /// <summary>
+    /// Paged tenant list for the manager grid. Status is one of Active | Inactive | Archived;
+    /// without it archived tenants are hidden, as in GetAll.
+    /// </summary>
+    [HttpGet("paged")]
+    [RequirePermission(PermissionResource.Tenants)]
+    public async Task<ActionResult<PagedResult<TenantProfileDto>>> GetPaged(
+        [FromQuery] PagedQuery paging,
+        [FromQuery] int? buildingId,
+        [FromQuery] int? unitId,
+        [FromQuery] string? status)
+    {
+        IQueryable<TenantProfile> query = _db.TenantProfiles
+            .Include(tp => tp.Unit).ThenInclude(u => u.Building)
+            .Include(tp => tp.User);
+
+        if (await _permissions.VisibleBuildingIdsAsync(this, PermissionResource.Tenants) is { } visible)
+            query = query.Where(tp => visible.Contains(tp.Unit.BuildingId));
+        if (buildingId.HasValue)
+            query = query.Where(tp => tp.Unit.BuildingId == buildingId);
+        if (unitId.HasValue)
+            query = query.Where(tp => tp.UnitId == unitId);
+
+        query = status switch
+        {
+            "Active" => query.Where(tp => tp.IsActive && !tp.IsArchived),
+            "Inactive" => query.Where(tp => !tp.IsActive && !tp.IsArchived),
+            "Archived" => query.Where(tp => tp.IsArchived),
+            _ => query.Where(tp => !tp.IsArchived)
+        };
+
+        if (!string.IsNullOrWhiteSpace(paging.Search))
+        {
+            var term = paging.Search.Trim();
+            query = query.Where(tp =>
+                tp.FullName.Contains(term) ||
+                (tp.Phone != null && tp.Phone.Contains(term)) ||
+                (tp.Email != null && tp.Email.Contains(term)) ||
+                tp.Unit.UnitNumber.Contains(term));
+        }
+
+        var result = await query
+            .ApplySort(paging, SortableColumns,
+                q => q.OrderByDescending(tp => tp.IsActive).ThenByDescending(tp => tp.MoveInDate),
+                tp => tp.Id)
+            .ToPagedResultAsync(paging, items => items.Select(MapDto).ToList());
+        return Ok(result with { Items = await WithInvitationsAsync(result.Items) });
     }
 
     // ─── GET BY ID ───────────────────────────────────────
 
     [HttpGet("{id}")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Tenants)]
     public async Task<ActionResult<TenantProfileDto>> GetById(int id)
     {
         var tp = await _db.TenantProfiles
@@ -77,17 +154,19 @@ public class TenantsController : ControllerBase
             .FirstOrDefaultAsync(t => t.Id == id);
 
         if (tp == null) return NotFound();
-        return Ok(MapDto(tp));
+        if (!await CanAccessBuilding(tp.Unit.BuildingId)) return Forbid();
+        return Ok((await WithInvitationsAsync([MapDto(tp)]))[0]);
     }
 
     // ─── CREATE ──────────────────────────────────────────
 
     [HttpPost]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Tenants)]
     public async Task<ActionResult<TenantProfileDto>> Create([FromBody] CreateTenantRequest request)
     {
         var unit = await _db.Units.Include(u => u.Building).FirstOrDefaultAsync(u => u.Id == request.UnitId);
         if (unit == null) return BadRequest(new { message = "Unit not found." });
+        if (!await CanAccessBuilding(unit.BuildingId)) return Forbid();
 
         // If creating as active, end current active tenant
         if (request.IsActive)
@@ -135,13 +214,14 @@ public class TenantsController : ControllerBase
     // ─── UPDATE ──────────────────────────────────────────
 
     [HttpPut("{id}")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Tenants)]
     public async Task<IActionResult> Update(int id, [FromBody] UpdateTenantRequest request)
     {
         var tenant = await _db.TenantProfiles
             .Include(t => t.Unit)
             .FirstOrDefaultAsync(t => t.Id == id);
         if (tenant == null) return NotFound();
+        if (!await CanAccessBuilding(tenant.Unit.BuildingId)) return Forbid();
 
         // If setting active, end other active tenants for this unit
         if (request.IsActive && !tenant.IsActive)
@@ -155,6 +235,7 @@ public class TenantsController : ControllerBase
         tenant.MoveInDate = request.MoveInDate;
         tenant.MoveOutDate = request.MoveOutDate;
         tenant.IsActive = request.IsActive;
+        tenant.IsCommitteeMember = request.IsCommitteeMember;
         tenant.Notes = request.Notes;
         tenant.UpdatedBy = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
 
@@ -171,13 +252,14 @@ public class TenantsController : ControllerBase
     // ─── END TENANCY ─────────────────────────────────────
 
     [HttpPost("{id}/end-tenancy")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Tenants)]
     public async Task<IActionResult> EndTenancy(int id, [FromBody] EndTenancyRequest request)
     {
         var tenant = await _db.TenantProfiles
             .Include(t => t.Unit)
             .FirstOrDefaultAsync(t => t.Id == id);
         if (tenant == null) return NotFound();
+        if (!await CanAccessBuilding(tenant.Unit.BuildingId)) return Forbid();
 
         tenant.MoveOutDate = request.MoveOutDate;
         tenant.IsActive = false;
@@ -196,11 +278,12 @@ public class TenantsController : ControllerBase
     // ─── DELETE (soft or hard) ───────────────────────────
 
     [HttpDelete("{id}")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Tenants)]
     public async Task<IActionResult> Delete(int id)
     {
-        var tenant = await _db.TenantProfiles.FindAsync(id);
+        var tenant = await _db.TenantProfiles.Include(t => t.Unit).FirstOrDefaultAsync(t => t.Id == id);
         if (tenant == null) return NotFound();
+        if (!await CanAccessBuilding(tenant.Unit.BuildingId)) return Forbid();
 
         // Check if tenant has related records
         var hasCharges = await _db.UnitCharges.AnyAsync(uc => uc.UnitId == tenant.UnitId);
@@ -231,9 +314,13 @@ public class TenantsController : ControllerBase
     // ─── UNIT TENANT HISTORY ─────────────────────────────
 
     [HttpGet("unit/{unitId}/history")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Tenants)]
     public async Task<ActionResult<List<TenantProfileDto>>> UnitHistory(int unitId)
     {
+        var unit = await _db.Units.FindAsync(unitId);
+        if (unit == null) return NotFound();
+        if (!await CanAccessBuilding(unit.BuildingId)) return Forbid();
+
         // Include archived tenants by ignoring the soft-delete query filter
         var history = await _db.TenantProfiles
             .IgnoreQueryFilters()
@@ -247,6 +334,192 @@ public class TenantsController : ControllerBase
         return Ok(history);
     }
 
+    // ─── INVITATIONS ─────────────────────────────────────
+
+    /// <summary>
+    /// Sends the tenant a one-time sign-up link bound to their unit by SMS or email. A new invitation replaces the
+    /// previous one.
+    /// </summary>
+    [HttpPost("{id}/invite")]
+    [RequirePermission(PermissionResource.Tenants)]
+    public async Task<ActionResult<TenantInvitationDto>> Invite(int id, [FromBody] InviteTenantRequest request)
+    {
+        var tenant = await _db.TenantProfiles
+            .Include(t => t.Unit).ThenInclude(u => u.Building)
+            .FirstOrDefaultAsync(t => t.Id == id);
+        if (tenant == null) return NotFound();
+        if (!await CanAccessBuilding(tenant.Unit.BuildingId)) return Forbid();
+
+        var (invitation, error) = await _onboardingService.InviteAsync(tenant, request.Channel, request.Language,
+            _configuration.FrontendBaseUrl(), User.FindFirst(ClaimTypes.NameIdentifier)?.Value, HttpContext.RequestAborted);
+        if (invitation == null)
+            return BadRequest(new { message = error });
+
+        return Ok(new TenantInvitationDto
+        {
+            Id = invitation.Id,
+            TenantProfileId = invitation.TenantProfileId,
+            Channel = invitation.Channel,
+            SentTo = invitation.SentTo,
+            CreatedAtUtc = invitation.CreatedAtUtc,
+            ExpiresAtUtc = invitation.ExpiresAtUtc
+        });
+    }
+
+    // ─── SELF-REGISTRATION QUEUE ─────────────────────────
+
+    /// <summary>Self-registrations, pending ones by default, oldest first so none waits forever.</summary>
+    [HttpGet("registrations")]
+    [RequirePermission(PermissionResource.Tenants)]
+    public async Task<ActionResult<List<TenantRegistrationDto>>> GetRegistrations(
+        [FromQuery] int? buildingId,
+        [FromQuery] TenantRegistrationStatus status = TenantRegistrationStatus.Pending)
+    {
+        var query = _db.TenantRegistrations
+            .Include(r => r.User)
+            .Include(r => r.Building)
+            .Include(r => r.Unit)
+            .Where(r => r.Status == status);
+        if (await _permissions.VisibleBuildingIdsAsync(this, PermissionResource.Tenants) is { } visible)
+            query = query.Where(r => visible.Contains(r.BuildingId));
+        if (buildingId.HasValue)
+            query = query.Where(r => r.BuildingId == buildingId);
+
+        var registrations = await query.OrderBy(r => r.CreatedAtUtc).ToListAsync();
+
+        // Suggest the unit the tenant named, and flag it when someone already holds it
+        var buildingIds = registrations.Select(r => r.BuildingId).Distinct().ToList();
+        var units = await _db.Units.Where(u => buildingIds.Contains(u.BuildingId)).ToListAsync();
+        var unitIds = units.Select(u => u.Id).ToList();
+        var currentTenants = (await _db.TenantProfiles
+                .Where(tp => unitIds.Contains(tp.UnitId) && tp.IsActive && tp.UserId != null)
+                .Select(tp => new { tp.UnitId, tp.FullName })
+                .ToListAsync())
+            .GroupBy(tp => tp.UnitId)
+            .ToDictionary(g => g.Key, g => g.First().FullName);
+
+        return Ok(registrations.Select(r =>
+        {
+            var match = units.FirstOrDefault(u => u.BuildingId == r.BuildingId
+                && string.Equals(u.UnitNumber.Trim(), r.ApartmentNumber, StringComparison.OrdinalIgnoreCase)
+                && (r.Floor == null || u.Floor == null || u.Floor == r.Floor));
+            return new TenantRegistrationDto
+            {
+                Id = r.Id,
+                UserId = r.UserId,
+                FullName = r.User.FullName,
+                Email = r.User.Email,
+                EmailConfirmed = r.User.EmailConfirmed,
+                Phone = r.User.Phone,
+                BuildingId = r.BuildingId,
+                BuildingName = r.Building.Name,
+                ApartmentNumber = r.ApartmentNumber,
+                Floor = r.Floor,
+                PropertyRole = r.PropertyRole,
+                IsCommitteeMember = r.IsCommitteeMember,
+                Status = r.Status,
+                MatchingUnitId = match?.Id,
+                CurrentTenantName = match != null && currentTenants.TryGetValue(match.Id, out var name) && name != r.User.FullName ? name : null,
+                UnitId = r.UnitId,
+                UnitNumber = r.Unit?.UnitNumber,
+                RejectionReason = r.RejectionReason,
+                CreatedAtUtc = r.CreatedAtUtc,
+                ReviewedAtUtc = r.ReviewedAtUtc
+            };
+        }).ToList());
+    }
+
+    /// <summary>
+    /// Links the registered tenant to a unit of the building they chose: the one the manager picked, else the
+    /// apartment they typed, which is added to the building if it isn't listed.
+    /// </summary>
+    [HttpPost("registrations/{id}/approve")]
+    [RequirePermission(PermissionResource.Tenants)]
+    public async Task<IActionResult> ApproveRegistration(int id, [FromBody] ApproveRegistrationRequest request)
+    {
+        var registration = await _db.TenantRegistrations
+            .Include(r => r.User)
+            .Include(r => r.Building)
+            .FirstOrDefaultAsync(r => r.Id == id);
+        if (registration == null) return NotFound();
+        if (!await CanAccessBuilding(registration.BuildingId)) return Forbid();
+        if (registration.Status != TenantRegistrationStatus.Pending)
+            return BadRequest(new { message = "The registration was already reviewed." });
+
+        var reviewerId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        Unit? unit;
+        if (request.UnitId.HasValue)
+        {
+            unit = await _db.Units.FirstOrDefaultAsync(u => u.Id == request.UnitId && u.BuildingId == registration.BuildingId);
+            if (unit == null) return BadRequest(new { message = "Unit not found in the registration's building." });
+        }
+        else
+        {
+            unit = await _db.Units.FirstOrDefaultAsync(u =>
+                u.BuildingId == registration.BuildingId &&
+                u.UnitNumber == registration.ApartmentNumber &&
+                u.Floor == registration.Floor);
+            if (unit == null)
+            {
+                unit = new Unit
+                {
+                    BuildingId = registration.BuildingId,
+                    UnitNumber = registration.ApartmentNumber,
+                    Floor = registration.Floor,
+                    CreatedBy = reviewerId
+                };
+                _db.Units.Add(unit);
+                await _db.SaveChangesAsync();
+            }
+        }
+
+        var tenant = await _onboardingService.ApproveRegistrationAsync(registration, unit, reviewerId,
+            _configuration.FrontendBaseUrl(), HttpContext.RequestAborted);
+
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = "ApproveTenantRegistration",
+            EntityName = "TenantRegistration",
+            EntityId = registration.Id.ToString(),
+            PerformedBy = reviewerId,
+            Details = $"{registration.User.Email} linked to unit {unit.UnitNumber} ({registration.PropertyRole})"
+        });
+        await _db.SaveChangesAsync();
+
+        return Ok(new { message = "Registration approved.", unitId = unit.Id, tenantProfileId = tenant?.Id });
+    }
+
+    [HttpPost("registrations/{id}/reject")]
+    [RequirePermission(PermissionResource.Tenants)]
+    public async Task<IActionResult> RejectRegistration(int id, [FromBody] RejectRegistrationRequest request)
+    {
+        var registration = await _db.TenantRegistrations
+            .Include(r => r.User)
+            .FirstOrDefaultAsync(r => r.Id == id);
+        if (registration == null) return NotFound();
+        if (!await CanAccessBuilding(registration.BuildingId)) return Forbid();
+        if (registration.Status != TenantRegistrationStatus.Pending)
+            return BadRequest(new { message = "The registration was already reviewed." });
+
+        var reviewerId = User.FindFirst(ClaimTypes.NameIdentifier)!.Value;
+        await _onboardingService.RejectRegistrationAsync(registration, request.Reason, reviewerId, HttpContext.RequestAborted);
+
+        _db.AuditLogs.Add(new AuditLog
+        {
+            Action = "RejectTenantRegistration",
+            EntityName = "TenantRegistration",
+            EntityId = registration.Id.ToString(),
+            PerformedBy = reviewerId,
+            Details = registration.RejectionReason ?? registration.User.Email
+        });
+        await _db.SaveChangesAsync();
+
+        return Ok(new { message = "Registration rejected." });
+    }
+
+    private Task<bool> CanAccessBuilding(int buildingId)
+        => _permissions.CanAccessBuildingAsync(this, PermissionResource.Tenants, buildingId);
+
     // ─── Helper: end all active tenants for a unit ───────
 
     private async Task EndActiveTenantsForUnit(int unitId)
@@ -262,6 +535,24 @@ public class TenantsController : ControllerBase
         }
     }
 
+    /// <summary>Adds the open sign-up invitation of each tenant who has no account yet.</summary>
+    private async Task<List<TenantProfileDto>> WithInvitationsAsync(List<TenantProfileDto> tenants)
+    {
+        var ids = tenants.Where(t => t.UserId == null).Select(t => t.Id).ToList();
+        if (ids.Count == 0) return tenants;
+
+        var now = DateTime.UtcNow;
+        var invitations = (await _db.TenantInvitations
+                .Where(i => ids.Contains(i.TenantProfileId) && i.AcceptedAtUtc == null && i.RevokedAtUtc == null && i.ExpiresAtUtc > now)
+                .ToListAsync())
+            .GroupBy(i => i.TenantProfileId)
+            .ToDictionary(g => g.Key, g => g.OrderByDescending(i => i.CreatedAtUtc).First());
+
+        return tenants.Select(t => invitations.TryGetValue(t.Id, out var i)
+            ? t with { InvitationChannel = i.Channel, InvitedAtUtc = i.CreatedAtUtc, InvitationExpiresAtUtc = i.ExpiresAtUtc }
+            : t).ToList();
+    }
+
     private static TenantProfileDto MapDto(TenantProfile tp) => new()
     {
         Id = tp.Id,
@@ -278,6 +569,7 @@ public class TenantsController : ControllerBase
         MoveOutDate = tp.MoveOutDate,
         IsActive = tp.IsActive,
         IsArchived = tp.IsArchived,
+        IsCommitteeMember = tp.IsCommitteeMember,
         Notes = tp.Notes,
         CreatedAtUtc = tp.CreatedAtUtc
     };
@@ -1,9 +1,11 @@
+using BuildingManagement.Api.Configuration;
 using BuildingManagement.Api.Hubs;
 using BuildingManagement.Core.DTOs;
 using BuildingManagement.Core.Entities;
 using BuildingManagement.Core.Enums;
 using BuildingManagement.Core.Interfaces;
 using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.SignalR;
@@ -22,14 +24,19 @@ public class TicketMessagesController : ControllerBase
     private readonly IServiceScopeFactory _scopeFactory;
     private readonly IHubContext<TicketChatHub> _hubContext;
     private readonly ILogger<TicketMessagesController> _logger;
+    private readonly ITenantNotifier _notifier;
+    private readonly IConfiguration _configuration;
 
-    public TicketMessagesController(AppDbContext db, ITicketAiAgent aiAgent, IServiceScopeFactory scopeFactory, IHubContext<TicketChatHub> hubContext, ILogger<TicketMessagesController> logger)
+    public TicketMessagesController(AppDbContext db, ITicketAiAgent aiAgent, IServiceScopeFactory scopeFactory, IHubContext<TicketChatHub> hubContext, ILogger<TicketMessagesController> logger,
+        ITenantNotifier notifier, IConfiguration configuration)
     {
         _db = db;
         _aiAgent = aiAgent;
         _scopeFactory = scopeFactory;
         _hubContext = hubContext;
         _logger = logger;
+        _notifier = notifier;
+        _configuration = configuration;
     }
 
     /// <summary>Get message thread for a ticket.</summary>
@@ -179,6 +186,16 @@ public class TicketMessagesController : ControllerBase
         // Broadcast via SignalR
         await BroadcastMessageAsync(id, MapDto(message));
 
+        // A manager's reply reaches the tenant outside the app too, as their ticket update preferences allow
+        if (senderType == TicketMessageSender.Manager && sr.SubmittedByUserId != userId)
+        {
+            var url = _configuration.FrontendUrl("my-requests");
+            var notified = await _notifier.NotifyUserAsync(sr.SubmittedByUserId, sr.BuildingId, sr.UnitId,
+                tenant => TicketNotificationTexts.NewReply(tenant, sr.Id, user.FullName, request.Text, url));
+            if (notified?.Sent == false)
+                _logger.LogInformation("Reply on ticket #{Id} not sent to its tenant: {Error}", sr.Id, notified.Error);
+        }
+
         // If tenant posted, trigger AI agent response in a new scope (fire-and-forget)
         if (senderType == TicketMessageSender.Tenant)
         {
@@ -1,3 +1,4 @@
+using BuildingManagement.Api.Authorization;
 using BuildingManagement.Core.DTOs;
 using BuildingManagement.Core.Entities.Finance;
 using BuildingManagement.Core.Enums;
@@ -5,13 +6,15 @@ using BuildingManagement.Infrastructure.Data;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using System.Linq.Expressions;
 using System.Security.Claims;
 
 namespace BuildingManagement.Api.Controllers;
 
 [ApiController]
 [Route("api/vendor-invoices")]
-[Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+[Authorize]
+[RequirePermission(PermissionResource.Finance)]
 public class VendorInvoicesController : ControllerBase
 {
     private readonly AppDbContext _db;
@@ -41,6 +44,50 @@ public class VendorInvoicesController : ControllerBase
         return Ok(items.Select(MapDto).ToList());
     }
 
+    private static readonly Dictionary<string, Expression<Func<VendorInvoice, object?>>> SortableColumns = new()
+    {
+        ["vendorName"] = vi => vi.Vendor.Name,
+        ["buildingName"] = vi => vi.Building.Name,
+        ["category"] = vi => vi.Category,
+        ["invoiceDate"] = vi => vi.InvoiceDate,
+        ["dueDate"] = vi => vi.DueDate,
+        ["amount"] = vi => vi.Amount,
+        ["status"] = vi => vi.Status
+    };
+
+    [HttpGet("paged")]
+    public async Task<ActionResult<PagedResult<VendorInvoiceDto>>> GetPaged(
+        [FromQuery] PagedQuery paging,
+        [FromQuery] int? buildingId, [FromQuery] int? vendorId,
+        [FromQuery] VendorInvoiceStatus? status,
+        [FromQuery] DateTime? from, [FromQuery] DateTime? to)
+    {
+        var query = _db.VendorInvoices
+            .Include(vi => vi.Building)
+            .Include(vi => vi.Vendor)
+            .Include(vi => vi.Payments)
+            .AsQueryable();
+
+        if (buildingId.HasValue) query = query.Where(vi => vi.BuildingId == buildingId);
+        if (vendorId.HasValue) query = query.Where(vi => vi.VendorId == vendorId);
+        if (status.HasValue) query = query.Where(vi => vi.Status == status);
+        if (from.HasValue) query = query.Where(vi => vi.InvoiceDate >= from);
+        if (to.HasValue) query = query.Where(vi => vi.InvoiceDate <= to);
+        if (!string.IsNullOrWhiteSpace(paging.Search))
+        {
+            var term = paging.Search.Trim();
+            query = query.Where(vi =>
+                vi.Vendor.Name.Contains(term) ||
+                (vi.InvoiceNumber != null && vi.InvoiceNumber.Contains(term)) ||
+                (vi.Description != null && vi.Description.Contains(term)));
+        }
+
+        var result = await query
+            .ApplySort(paging, SortableColumns, q => q.OrderByDescending(vi => vi.InvoiceDate), vi => vi.Id)
+            .ToPagedResultAsync(paging, items => items.Select(MapDto).ToList());
+        return Ok(result);
+    }
+
     [HttpGet("{id}")]
     public async Task<ActionResult<VendorInvoiceDto>> GetById(int id)
     {
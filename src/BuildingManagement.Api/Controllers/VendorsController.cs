@@ -1,3 +1,4 @@
+using BuildingManagement.Api.Authorization;
 using BuildingManagement.Core.DTOs;
 using BuildingManagement.Core.Entities;
 using BuildingManagement.Core.Enums;
@@ -11,7 +12,8 @@ namespace BuildingManagement.Api.Controllers;
 
 [ApiController]
 [Route("api/vendors")]
-[Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+[Authorize]
+[RequirePermission(PermissionResource.Vendors)]
 public class VendorsController : ControllerBase
 {
     private readonly AppDbContext _db;
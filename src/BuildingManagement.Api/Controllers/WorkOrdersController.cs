@@ -1,11 +1,14 @@
+using BuildingManagement.Api.Authorization;
 using BuildingManagement.Core.DTOs;
 using BuildingManagement.Core.Entities;
 using BuildingManagement.Core.Enums;
 using BuildingManagement.Core.Interfaces;
 using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using System.Linq.Expressions;
 using System.Security.Claims;
 
 namespace BuildingManagement.Api.Controllers;
@@ -18,19 +21,23 @@ public class WorkOrdersController : ControllerBase
     private readonly AppDbContext _db;
     private readonly IFileStorageService _fileStorage;
     private readonly IEmailService _emailService;
+    private readonly PermissionService _permissions;
 
-    public WorkOrdersController(AppDbContext db, IFileStorageService fileStorage, IEmailService emailService)
+    public WorkOrdersController(AppDbContext db, IFileStorageService fileStorage, IEmailService emailService, PermissionService permissions)
     {
         _db = db;
         _fileStorage = fileStorage;
         _emailService = emailService;
+        _permissions = permissions;
     }
 
     [HttpPost]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Maintenance)]
     public async Task<ActionResult<WorkOrderDto>> Create([FromBody] CreateWorkOrderRequest request)
     {
         var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (!await _permissions.CanAccessBuildingAsync(this, PermissionResource.Maintenance, request.BuildingId))
+            return Forbid();
 
         // Prevent duplicate work orders for the same service request
         if (request.ServiceRequestId.HasValue)
@@ -47,6 +54,8 @@ public class WorkOrdersController : ControllerBase
         if (request.ServiceRequestId.HasValue)
         {
             sr = await _db.ServiceRequests.Include(s => s.Building).FirstOrDefaultAsync(s => s.Id == request.ServiceRequestId.Value);
+            if (sr != null && sr.BuildingId != request.BuildingId)
+                return BadRequest(new { message = "The service request belongs to another building." });
             if (sr != null && string.IsNullOrWhiteSpace(title))
                 title = $"{sr.Building?.Name} – {sr.Area} – {sr.Category}";
         }
@@ -88,15 +97,65 @@ public class WorkOrdersController : ControllerBase
     }
 
     [HttpGet]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Maintenance)]
     public async Task<ActionResult<List<WorkOrderDto>>> GetAll(
         [FromQuery] int? buildingId,
         [FromQuery] int? vendorId,
-        [FromQuery] WorkOrderStatus? status)
+        [FromQuery] WorkOrderStatus? status,
+        [FromQuery] DateTime? from,
+        [FromQuery] DateTime? to,
+        [FromQuery] bool unscheduled = false)
     {
-        var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
-        var isAdmin = User.IsInRole(AppRoles.Admin);
+        var query = await ManagerQuery(buildingId, vendorId, status, from, to, unscheduled);
+        var items = await query.OrderByDescending(wo => wo.CreatedAtUtc).ToListAsync();
+        return Ok(items.Select(MapToDto).ToList());
+    }
+
+    private static readonly Dictionary<string, Expression<Func<WorkOrder, object?>>> SortableColumns = new()
+    {
+        ["id"] = wo => wo.Id,
+        ["title"] = wo => wo.Title,
+        ["buildingName"] = wo => wo.Building.Name,
+        ["vendorName"] = wo => wo.Vendor != null ? wo.Vendor.Name : null,
+        ["status"] = wo => wo.Status,
+        ["scheduledFor"] = wo => wo.ScheduledFor,
+        ["createdAtUtc"] = wo => wo.CreatedAtUtc
+    };
+
+    /// <summary>Paged, sorted and searchable variant of GetAll for the manager grid.</summary>
+    [HttpGet("paged")]
+    [RequirePermission(PermissionResource.Maintenance)]
+    public async Task<ActionResult<PagedResult<WorkOrderDto>>> GetPaged(
+        [FromQuery] PagedQuery paging,
+        [FromQuery] int? buildingId,
+        [FromQuery] int? vendorId,
+        [FromQuery] WorkOrderStatus? status,
+        [FromQuery] DateTime? from,
+        [FromQuery] DateTime? to)
+    {
+        var query = await ManagerQuery(buildingId, vendorId, status, from, to);
+        if (!string.IsNullOrWhiteSpace(paging.Search))
+        {
+            var term = paging.Search.Trim();
+            var idTerm = int.TryParse(term.TrimStart('#'), out var parsedId) ? parsedId : (int?)null;
+            query = query.Where(wo =>
+                wo.Id == idTerm ||
+                wo.Title.Contains(term) ||
+                (wo.Description != null && wo.Description.Contains(term)) ||
+                wo.Building.Name.Contains(term) ||
+                (wo.Vendor != null && wo.Vendor.Name.Contains(term)));
+        }
 
+        var result = await query
+            .ApplySort(paging, SortableColumns, q => q.OrderByDescending(wo => wo.CreatedAtUtc), wo => wo.Id)
+            .ToPagedResultAsync(paging, items => items.Select(MapToDto).ToList());
+        return Ok(result);
+    }
+
+    /// <summary>Work orders visible to the current manager (admins see all), with the shared filters applied.</summary>
+    private async Task<IQueryable<WorkOrder>> ManagerQuery(
+        int? buildingId, int? vendorId, WorkOrderStatus? status, DateTime? from, DateTime? to, bool unscheduled = false)
+    {
         IQueryable<WorkOrder> query = _db.WorkOrders
             .Include(wo => wo.Building)
             .Include(wo => wo.Vendor)
@@ -104,21 +163,18 @@ public class WorkOrdersController : ControllerBase
             .Include(wo => wo.Notes).ThenInclude(n => n.CreatedByUser)
             .Include(wo => wo.Attachments);
 
-        if (!isAdmin)
-        {
-            var buildingIds = await _db.BuildingManagers
-                .Where(bm => bm.UserId == userId)
-                .Select(bm => bm.BuildingId)
-                .ToListAsync();
+        if (await _permissions.VisibleBuildingIdsAsync(this, PermissionResource.Maintenance) is { } buildingIds)
             query = query.Where(wo => buildingIds.Contains(wo.BuildingId));
-        }
 
         if (buildingId.HasValue) query = query.Where(wo => wo.BuildingId == buildingId);
         if (vendorId.HasValue) query = query.Where(wo => wo.VendorId == vendorId);
         if (status.HasValue) query = query.Where(wo => wo.Status == status);
-
-        var items = await query.OrderByDescending(wo => wo.CreatedAtUtc).ToListAsync();
-        return Ok(items.Select(MapToDto).ToList());
+        // Date window on ScheduledFor (used by the dispatcher calendar)
+        if (from.HasValue) query = query.Where(wo => wo.ScheduledFor >= from);
+        if (to.HasValue) query = query.Where(wo => wo.ScheduledFor < to);
+        // The calendar's tray of orders still waiting for a date
+        if (unscheduled) query = query.Where(wo => wo.ScheduledFor == null);
+        return query;
     }
 
     [HttpGet("my")]
@@ -166,11 +222,13 @@ public class WorkOrdersController : ControllerBase
     }
 
     [HttpPut("{id}/assign")]
-    [Authorize(Roles = $"{AppRoles.Admin},{AppRoles.Manager}")]
+    [RequirePermission(PermissionResource.Maintenance)]
     public async Task<IActionResult> Assign(int id, [FromBody] AssignWorkOrderRequest request)
     {
         var wo = await _db.WorkOrders.FindAsync(id);
         if (wo == null) return NotFound();
+        if (!await _permissions.CanAccessBuildingAsync(this, PermissionResource.Maintenance, wo.BuildingId))
+            return Forbid();
 
         wo.VendorId = request.VendorId;
         if (request.ScheduledFor.HasValue) wo.ScheduledFor = request.ScheduledFor;
@@ -190,6 +248,42 @@ public class WorkOrdersController : ControllerBase
         return NoContent();
     }
 
+    /// <summary>
+    /// Moves a work order to another slot or vendor from the dispatch calendar. Unlike Assign the status is kept,
+    /// so a job already in progress or on hold doesn't fall back to Assigned; only a draft becomes Assigned.
+    /// </summary>
+    [HttpPut("{id}/schedule")]
+    [RequirePermission(PermissionResource.Maintenance)]
+    public async Task<IActionResult> Reschedule(int id, [FromBody] RescheduleWorkOrderRequest request)
+    {
+        var wo = await _db.WorkOrders.FindAsync(id);
+        if (wo == null) return NotFound();
+        if (!await _permissions.CanAccessBuildingAsync(this, PermissionResource.Maintenance, wo.BuildingId))
+            return Forbid();
+        if (wo.Status is WorkOrderStatus.Completed or WorkOrderStatus.Cancelled)
+            return BadRequest(new { message = "Closed work orders can't be rescheduled." });
+
+        var vendor = await _db.Vendors.FindAsync(request.VendorId);
+        if (vendor == null) return BadRequest(new { message = "Vendor not found." });
+
+        var vendorChanged = wo.VendorId != request.VendorId;
+        wo.VendorId = request.VendorId;
+        wo.ScheduledFor = request.ScheduledFor;
+        if (wo.Status == WorkOrderStatus.Draft) wo.Status = WorkOrderStatus.Assigned;
+        wo.UpdatedBy = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+
+        await _db.SaveChangesAsync();
+
+        if (vendorChanged && vendor.Email != null)
+        {
+            await _emailService.SendEmailAsync(vendor.Email,
+                $"Work Order #{wo.Id} Assigned",
+                $"Work order '{wo.Title}' has been assigned to you.");
+        }
+
+        return NoContent();
+    }
+
     [HttpPut("{id}/status")]
     [Authorize]
     public async Task<IActionResult> UpdateStatus(int id, [FromBody] UpdateWorkOrderStatusRequest request)
@@ -197,6 +291,20 @@ public class WorkOrdersController : ControllerBase
         var wo = await _db.WorkOrders.FindAsync(id);
         if (wo == null) return NotFound();
 
+        // Optimistic concurrency: a status change queued offline must not silently
+        // overwrite a change the manager made in the meantime. An order never modified
+        // has no UpdatedAtUtc yet, so its version is the creation time
+        var version = wo.UpdatedAtUtc ?? wo.CreatedAtUtc;
+        if (request.ExpectedUpdatedAtUtc.HasValue
+            && Math.Abs((version - request.ExpectedUpdatedAtUtc.Value).TotalSeconds) > 1)
+        {
+            return Conflict(new
+            {
+                message = "The work order was changed by someone else since it was loaded.",
+                current = await GetWorkOrderDto(id)
+            });
+        }
+
         wo.Status = request.Status;
         wo.UpdatedBy = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
 
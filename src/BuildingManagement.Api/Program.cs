@@ -11,6 +11,7 @@ using Microsoft.AspNetCore.Authentication.JwtBearer;
 using Microsoft.Extensions.Diagnostics.HealthChecks;
 using Microsoft.AspNetCore.Identity;
 using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Diagnostics;
 using Microsoft.IdentityModel.Tokens;
 using Microsoft.OpenApi.Models;
 
@@ -23,7 +24,9 @@ var dbProvider = builder.Configuration["Database:Provider"] ?? "InMemory";
 if (dbProvider.Equals("InMemory", StringComparison.OrdinalIgnoreCase))
 {
     builder.Services.AddDbContext<AppDbContext>(options =>
-        options.UseInMemoryDatabase("BuildingManagementDb"));
+        options.UseInMemoryDatabase("BuildingManagementDb")
+            // The in-memory store has no transactions; code that uses them runs without one
+            .ConfigureWarnings(w => w.Ignore(InMemoryEventId.TransactionIgnoredWarning)));
 }
 else if (dbProvider.Equals("SqlServer", StringComparison.OrdinalIgnoreCase))
 {
@@ -96,6 +99,11 @@ builder.Services.AddAuthorization();
 
 // ─── Services ───────────────────────────────────────────
 builder.Services.AddScoped<JwtTokenService>();
+builder.Services.AddScoped<RefreshTokenService>();
+builder.Services.AddScoped<TrustedDeviceService>();
+builder.Services.AddScoped<TenantOnboardingService>();
+builder.Services.AddScoped<PermissionService>();
+builder.Services.AddSingleton<PaymentLinkSigner>();
 
 // File Storage
 var fileProvider = builder.Configuration["FileStorage:Provider"] ?? "Local";
@@ -130,6 +138,9 @@ builder.Services.AddSingleton<IPaymentGatewayFactory, PaymentGatewayFactory>();
 
 // HOA Fee Service
 builder.Services.AddScoped<IHOAFeeService, HOAFeeService>();
+builder.Services.AddScoped<ILateFeeService, LateFeeService>();
+builder.Services.AddScoped<IPaymentPlanService, PaymentPlanService>();
+builder.Services.AddScoped<IDunningService, DunningService>();
 
 // SMS
 var smsProvider = builder.Configuration["Sms:Provider"] ?? "Fake";
@@ -142,6 +153,31 @@ builder.Services.AddSingleton(new BuildingManagement.Infrastructure.Services.Sms
 // Email sender
 builder.Services.AddSingleton<IEmailSender, BuildingManagement.Infrastructure.Services.Email.FakeEmailSender>();
 
+// WhatsApp Business
+var whatsAppProvider = builder.Configuration["WhatsApp:Provider"] ?? "Fake";
+if (whatsAppProvider.Equals("Meta", StringComparison.OrdinalIgnoreCase))
+{
+    builder.Services.AddHttpClient<BuildingManagement.Infrastructure.Services.WhatsApp.MetaWhatsAppSender>();
+    builder.Services.AddSingleton<IWhatsAppSender, BuildingManagement.Infrastructure.Services.WhatsApp.MetaWhatsAppSender>();
+}
+else
+{
+    builder.Services.AddSingleton<IWhatsAppSender, BuildingManagement.Infrastructure.Services.WhatsApp.FakeWhatsAppSender>();
+}
+
+// Web push
+var pushProvider = builder.Configuration["Push:Provider"] ?? "Fake";
+if (pushProvider.Equals("WebPush", StringComparison.OrdinalIgnoreCase))
+{
+    builder.Services.AddHttpClient<BuildingManagement.Infrastructure.Services.Push.WebPushSender>();
+    builder.Services.AddSingleton<IPushSender, BuildingManagement.Infrastructure.Services.Push.WebPushSender>();
+}
+else
+{
+    builder.Services.AddSingleton<IPushSender, BuildingManagement.Infrastructure.Services.Push.FakePushSender>();
+}
+builder.Services.AddScoped<ITenantNotifier, TenantNotifier>();
+
 // AI Ticket Agent
 var aiProvider = builder.Configuration["Ai:Provider"] ?? "Fake";
 if (aiProvider.Equals("OpenAi", StringComparison.OrdinalIgnoreCase))
@@ -172,6 +208,12 @@ builder.Services.AddSingleton<MaintenanceJobService>();
 builder.Services.AddHostedService(sp => sp.GetRequiredService<MaintenanceJobService>());
 builder.Services.AddSingleton<RecurringPaymentJob>();
 builder.Services.AddHostedService(sp => sp.GetRequiredService<RecurringPaymentJob>());
+builder.Services.AddSingleton<LateFeeJob>();
+builder.Services.AddHostedService(sp => sp.GetRequiredService<LateFeeJob>());
+builder.Services.AddSingleton<PaymentPlanJob>();
+builder.Services.AddHostedService(sp => sp.GetRequiredService<PaymentPlanJob>());
+builder.Services.AddSingleton<DunningJob>();
+builder.Services.AddHostedService(sp => sp.GetRequiredService<DunningJob>());
 
 // Health Checks
 builder.Services.AddHealthChecks()
@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations;
+using BuildingManagement.Core.Enums;
 
 namespace BuildingManagement.Core.DTOs;
 
@@ -14,24 +15,154 @@ public record LoginRequest
 public record LoginResponse
 {
     public string AccessToken { get; init; } = string.Empty;
-    public string RefreshToken { get; init; } = string.Empty;
     public int ExpiresIn { get; init; }
     public List<string> Roles { get; init; } = [];
     public string FullName { get; init; } = string.Empty;
     public string Email { get; init; } = string.Empty;
     public string UserId { get; init; } = string.Empty;
     public string? Phone { get; init; }
+
+    /// <summary>False until a tenant opens the verification link emailed at registration.</summary>
+    public bool EmailConfirmed { get; init; }
+
+    /// <summary>A self-registered tenant's latest registration; null for everyone else.</summary>
+    public TenantRegistrationStatus? RegistrationStatus { get; init; }
+
+    /// <summary>What the user may do, from their role and any extra grants; the UI hides the rest.</summary>
+    public List<PermissionGrantDto> Permissions { get; init; } = [];
+
+    /// <summary>
+    /// "Verify" when the password was right but a two-factor code is still needed, "Enroll" when the user's role
+    /// requires two-factor and it is not set up yet. Null once signed in; AccessToken is empty until then.
+    /// </summary>
+    public string? TwoFactorStep { get; init; }
+
+    /// <summary>Short-lived proof of the password step, sent back with the code.</summary>
+    public string? ChallengeToken { get; init; }
+}
+
+public record TwoFactorVerifyRequest
+{
+    [Required]
+    public string ChallengeToken { get; init; } = string.Empty;
+
+    /// <summary>A six-digit authenticator code or one of the recovery codes.</summary>
+    [Required, MaxLength(20)]
+    public string Code { get; init; } = string.Empty;
+
+    /// <summary>Skip the code on this browser for the next 30 days.</summary>
+    public bool RememberDevice { get; init; }
+}
+
+/// <summary>During enforced enrollment at sign-in the challenge identifies the user; otherwise the access token does.</summary>
+public record TwoFactorSetupRequest
+{
+    public string? ChallengeToken { get; init; }
+}
+
+public record TwoFactorEnableRequest
+{
+    public string? ChallengeToken { get; init; }
+
+    [Required, MaxLength(20)]
+    public string Code { get; init; } = string.Empty;
+}
+
+public record TwoFactorCodeRequest
+{
+    [Required, MaxLength(20)]
+    public string Code { get; init; } = string.Empty;
+}
+
+public record TwoFactorSetupResponse
+{
+    /// <summary>The authenticator key in groups of four, for typing into an app that can't scan the QR code.</summary>
+    public string SharedKey { get; init; } = string.Empty;
+
+    /// <summary>otpauth:// URI shown as a QR code.</summary>
+    public string AuthenticatorUri { get; init; } = string.Empty;
+}
+
+public record TwoFactorEnableResponse
+{
+    public List<string> RecoveryCodes { get; init; } = [];
+
+    /// <summary>Set when enrollment finished a sign-in.</summary>
+    public LoginResponse? Session { get; init; }
+}
+
+public record TwoFactorStatusResponse
+{
+    public bool Enabled { get; init; }
+
+    /// <summary>The user's role requires two-factor, so it can't be turned off.</summary>
+    public bool Required { get; init; }
+    public int RecoveryCodesLeft { get; init; }
+    public int TrustedDevices { get; init; }
+}
+
+public record ForgotPasswordRequest
+{
+    [Required, EmailAddress]
+    public string Email { get; init; } = string.Empty;
+}
+
+public record ResetPasswordRequest
+{
+    [Required, EmailAddress]
+    public string Email { get; init; } = string.Empty;
+
+    /// <summary>The token from the emailed link, as it appears there (Base64Url).</summary>
+    [Required]
+    public string Token { get; init; } = string.Empty;
+
+    [Required, MinLength(8)]
+    public string NewPassword { get; init; } = string.Empty;
 }
 
-public record RefreshTokenRequest
+/// <summary>Confirms the address of the account, or with NewEmail, switches the account to that address.</summary>
+public record ConfirmEmailRequest
 {
     [Required]
-    public string RefreshToken { get; init; } = string.Empty;
+    public string UserId { get; init; } = string.Empty;
+
+    [Required]
+    public string Token { get; init; } = string.Empty;
+
+    [EmailAddress]
+    public string? NewEmail { get; init; }
 }
 
-public record LogoutRequest
+public record UpdateProfileRequest
 {
-    public string? RefreshToken { get; init; }
+    [Required, MaxLength(200)]
+    public string FullName { get; init; } = string.Empty;
+
+    [MaxLength(20)]
+    public string? Phone { get; init; }
+
+    /// <summary>A different address takes effect only once confirmed from the link sent to it.</summary>
+    [Required, EmailAddress]
+    public string Email { get; init; } = string.Empty;
+}
+
+public record UpdateProfileResponse
+{
+    public string FullName { get; init; } = string.Empty;
+    public string? Phone { get; init; }
+    public string Email { get; init; } = string.Empty;
+
+    /// <summary>Set when a confirmation link was sent to a new address.</summary>
+    public string? PendingEmail { get; init; }
+}
+
+public record ChangePasswordRequest
+{
+    [Required]
+    public string CurrentPassword { get; init; } = string.Empty;
+
+    [Required, MinLength(8)]
+    public string NewPassword { get; init; } = string.Empty;
 }
 
 public record RegisterManagerRequest
@@ -93,6 +224,40 @@ public record RegisterTenantRequest
     public bool IsCommitteeMember { get; init; }
 }
 
+/// <summary>What the invitation page shows before the tenant creates the account.</summary>
+public record InvitationDetailsResponse
+{
+    public string FullName { get; init; } = string.Empty;
+    public string? Email { get; init; }
+    public string? Phone { get; init; }
+    public string BuildingName { get; init; } = string.Empty;
+    public string? AddressLine { get; init; }
+    public string UnitNumber { get; init; } = string.Empty;
+    public int? Floor { get; init; }
+    public string Language { get; init; } = "he";
+    public DateTime ExpiresAtUtc { get; init; }
+}
+
+public record AcceptInvitationRequest
+{
+    [Required, MaxLength(200)]
+    public string FullName { get; init; } = string.Empty;
+
+    [Required, EmailAddress]
+    public string Email { get; init; } = string.Empty;
+
+    [Required, MinLength(8)]
+    public string Password { get; init; } = string.Empty;
+
+    [MaxLength(30)]
+    public string? Phone { get; init; }
+
+    public bool MarketingConsent { get; init; }
+
+    [Required]
+    public bool TermsAccepted { get; init; }
+}
+
 public record BuildingSearchResult
 {
     public int Id { get; init; }
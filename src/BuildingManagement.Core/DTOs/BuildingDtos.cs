@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations;
+using BuildingManagement.Core.Enums;
 
 namespace BuildingManagement.Core.DTOs;
 
@@ -49,8 +50,14 @@ public record UnitDto
     public int? Floor { get; init; }
     public decimal? SizeSqm { get; init; }
     public string? OwnerName { get; init; }
+    public string? OwnerPhone { get; init; }
+    public string? OwnerEmail { get; init; }
+    public string? OwnerUserId { get; init; }
+    public string? OwnerAccountName { get; init; }
     public string? TenantUserId { get; init; }
     public string? TenantName { get; init; }
+    public BillingParty HOAFeePayer { get; init; }
+    public BillingParty SpecialAssessmentPayer { get; init; }
 }
 
 public record CreateUnitRequest
@@ -69,3 +76,22 @@ public record CreateUnitRequest
 
     public string? TenantUserId { get; init; }
 }
+
+/// <summary>Owner contact details and who pays each charge type</summary>
+public record UpdateUnitBillingRequest
+{
+    [MaxLength(200)]
+    public string? OwnerName { get; init; }
+
+    [MaxLength(30)]
+    public string? OwnerPhone { get; init; }
+
+    [MaxLength(200), EmailAddress]
+    public string? OwnerEmail { get; init; }
+
+    public BillingParty HOAFeePayer { get; init; }
+    public BillingParty SpecialAssessmentPayer { get; init; }
+
+    /// <summary>Re-route charges that are still open; otherwise only new charges follow the change</summary>
+    public bool ApplyToOpenCharges { get; init; }
+}
@@ -52,13 +52,21 @@ public record UnitChargeDto
     public string? UnitNumber { get; init; }
     public int? Floor { get; init; }
     public string? TenantName { get; init; }
-    public int HOAFeePlanId { get; init; }
+    public int? HOAFeePlanId { get; init; }
+    public int? SpecialAssessmentId { get; init; }
+    public int? InstallmentNumber { get; init; }
     public string Period { get; init; } = string.Empty;
     public decimal AmountDue { get; init; }
     public decimal AmountPaid { get; init; }
     public decimal Balance { get; init; }
     public DateTime DueDate { get; init; }
     public UnitChargeStatus Status { get; init; }
+    public UnitChargeType ChargeType { get; init; }
+    public BillingParty Party { get; init; }
+    public int? SourceChargeId { get; init; }
+    public string? Description { get; init; }
+    public DateTime? WaivedAtUtc { get; init; }
+    public string? WaiverReason { get; init; }
     public DateTime CreatedAtUtc { get; init; }
 }
 
@@ -71,6 +79,139 @@ public record AdjustChargeRequest
     public string? Reason { get; init; }
 }
 
+// ─── Late Fees ──────────────────────────────────────────
+
+public record LateFeeRuleDto
+{
+    public int? Id { get; init; }
+    public int BuildingId { get; init; }
+    public bool IsEnabled { get; init; }
+    public LateFeeType FeeType { get; init; }
+    public decimal Amount { get; init; }
+    public int GraceDays { get; init; }
+    public decimal? MaxFeePerCharge { get; init; }
+    public DateTime? UpdatedAtUtc { get; init; }
+}
+
+public record SaveLateFeeRuleRequest
+{
+    public bool IsEnabled { get; init; } = true;
+    public LateFeeType FeeType { get; init; }
+
+    /// <summary>Flat amount (FixedAmount) or percent per month (MonthlyPercentage)</summary>
+    [Range(0.01, 100000)]
+    public decimal Amount { get; init; }
+
+    [Range(0, 365)]
+    public int GraceDays { get; init; }
+
+    [Range(0.01, 100000)]
+    public decimal? MaxFeePerCharge { get; init; }
+}
+
+public record WaiveLateFeeRequest
+{
+    [Required, MaxLength(500)]
+    public string Reason { get; init; } = string.Empty;
+}
+
+// ─── Special Assessments ────────────────────────────────
+
+public record SpecialAssessmentDto
+{
+    public int Id { get; init; }
+    public int BuildingId { get; init; }
+    public string? BuildingName { get; init; }
+    public string Name { get; init; } = string.Empty;
+    public string? Description { get; init; }
+    public decimal TotalBudget { get; init; }
+    public AssessmentAllocationMethod AllocationMethod { get; init; }
+    public int InstallmentCount { get; init; }
+    public string StartPeriod { get; init; } = string.Empty;
+    public string EndPeriod { get; init; } = string.Empty;
+    public SpecialAssessmentStatus Status { get; init; }
+    public DateTime? ActivatedAtUtc { get; init; }
+    public int InstallmentsGenerated { get; init; }
+    /// <summary>First scheduled period not billed yet; null when all installments are billed</summary>
+    public string? NextPeriod { get; init; }
+    public decimal AmountBilled { get; init; }
+    public decimal AmountCollected { get; init; }
+    public decimal Outstanding { get; init; }
+    /// <summary>Collected as a percentage of the total budget</summary>
+    public decimal CollectedPercent { get; init; }
+    public DateTime CreatedAtUtc { get; init; }
+}
+
+public record SpecialAssessmentShareDto
+{
+    public int UnitId { get; init; }
+    public string UnitNumber { get; init; } = string.Empty;
+    public int? Floor { get; init; }
+    public decimal? SizeSqm { get; init; }
+    public string? PayerDisplayName { get; init; }
+    public decimal ShareAmount { get; init; }
+    public decimal InstallmentAmount { get; init; }
+    public decimal AmountBilled { get; init; }
+    public decimal AmountPaid { get; init; }
+}
+
+public record SpecialAssessmentDetailDto
+{
+    public SpecialAssessmentDto Assessment { get; init; } = null!;
+    public List<SpecialAssessmentShareDto> Shares { get; init; } = [];
+}
+
+public record SaveSpecialAssessmentRequest
+{
+    /// <summary>Ignored on update</summary>
+    public int BuildingId { get; init; }
+
+    [Required, MaxLength(200)]
+    public string Name { get; init; } = string.Empty;
+
+    [MaxLength(1000)]
+    public string? Description { get; init; }
+
+    [Range(0.01, 100000000)]
+    public decimal TotalBudget { get; init; }
+
+    public AssessmentAllocationMethod AllocationMethod { get; init; }
+
+    [Range(1, 120)]
+    public int InstallmentCount { get; init; } = 1;
+
+    /// <summary>YYYY-MM</summary>
+    [Required, MaxLength(7)]
+    public string StartPeriod { get; init; } = string.Empty;
+}
+
+public record AssessmentInstallmentDto
+{
+    public int InstallmentNumber { get; init; }
+    public string Period { get; init; } = string.Empty;
+    public DateTime DueDate { get; init; }
+    public decimal Amount { get; init; }
+    /// <summary>Set once the installment has been billed</summary>
+    public int? UnitChargeId { get; init; }
+    public decimal AmountPaid { get; init; }
+    /// <summary>Null while the installment is only scheduled</summary>
+    public UnitChargeStatus? Status { get; init; }
+}
+
+public record MyAssessmentScheduleDto
+{
+    public int AssessmentId { get; init; }
+    public string Name { get; init; } = string.Empty;
+    public string? Description { get; init; }
+    public string? BuildingName { get; init; }
+    public int UnitId { get; init; }
+    public string UnitNumber { get; init; } = string.Empty;
+    public decimal ShareAmount { get; init; }
+    public decimal AmountPaid { get; init; }
+    public decimal Remaining { get; init; }
+    public List<AssessmentInstallmentDto> Installments { get; init; } = [];
+}
+
 // ─── Payment Methods ────────────────────────────────────
 
 public record PaymentMethodDto
@@ -138,6 +279,11 @@ public record PaymentProviderConfigDto
     public int SupportedFeatures { get; init; }
     public string Currency { get; init; } = "ILS";
     public string? BaseUrl { get; init; }
+    public PaymentSimulatorScenario SimulatorScenario { get; init; }
+    public int SimulatorDelaySeconds { get; init; }
+    public DateTime? LastTestedAtUtc { get; init; }
+    public bool? LastTestSucceeded { get; init; }
+    public string? LastTestMessage { get; init; }
 }
 
 public record CreatePaymentProviderConfigRequest
@@ -155,6 +301,36 @@ public record CreatePaymentProviderConfigRequest
     public int SupportedFeatures { get; init; }
     public string Currency { get; init; } = "ILS";
     public string? BaseUrl { get; init; }
+
+    /// <summary>Fake provider only</summary>
+    public PaymentSimulatorScenario SimulatorScenario { get; init; }
+
+    [Range(0, 120)]
+    public int SimulatorDelaySeconds { get; init; } = 10;
+}
+
+public record PaymentProviderTestResultDto
+{
+    public bool Success { get; init; }
+    public string ProviderType { get; init; } = string.Empty;
+    public DateTime TestedAtUtc { get; init; }
+    public List<PaymentProviderTestStepDto> Steps { get; init; } = new();
+}
+
+/// <summary>One check of a connection test: Configuration, PaymentSession or Tokenization.</summary>
+public record PaymentProviderTestStepDto
+{
+    public string Step { get; init; } = string.Empty;
+    public bool Success { get; init; }
+    public string? Message { get; init; }
+    public long DurationMs { get; init; }
+}
+
+public record CompleteSimulatedChallengeRequest
+{
+    [Required, MaxLength(200)]
+    public string ProviderReference { get; init; } = string.Empty;
+    public bool Approved { get; init; }
 }
 
 // ─── Payments ───────────────────────────────────────────
@@ -173,6 +349,12 @@ public record PaymentDto
     public string? ProviderReference { get; init; }
     public PaymentStatus Status { get; init; }
     public DateTime CreatedAtUtc { get; init; }
+    public bool IsManual { get; init; }
+    public decimal RefundedAmount { get; init; }
+    public bool HasOpenChargeback { get; init; }
+
+    /// <summary>Filled by checkout; a payment can settle several charges</summary>
+    public List<PaymentAllocationDto> Allocations { get; init; } = new();
 }
 
 public record PayChargeRequest
@@ -181,6 +363,55 @@ public record PayChargeRequest
     public decimal? Amount { get; init; }
 }
 
+/// <summary>
+/// Charges paid together in one checkout. An empty UnitChargeIds with a UnitId pays the unit's full balance
+/// (the charges the caller pays). All charges must belong to one unit.
+/// </summary>
+public record CheckoutChargesRequest
+{
+    public List<int> UnitChargeIds { get; init; } = new();
+    public int? UnitId { get; init; }
+}
+
+/// <summary>What a reminder's payment link opens without a login: the reminded party's open charges of the unit.</summary>
+public record PaymentLinkCheckoutDto
+{
+    public string BuildingName { get; init; } = string.Empty;
+    public string UnitNumber { get; init; } = string.Empty;
+    public string PayerName { get; init; } = string.Empty;
+    public List<PaymentLinkChargeDto> Charges { get; init; } = new();
+    public decimal Total { get; init; }
+    public DateTime ExpiresAtUtc { get; init; }
+}
+
+public record PaymentLinkChargeDto
+{
+    public int Id { get; init; }
+    public string Period { get; init; } = string.Empty;
+    public UnitChargeType ChargeType { get; init; }
+    public DateTime DueDate { get; init; }
+    public decimal Balance { get; init; }
+}
+
+public record PayChargesRequest : CheckoutChargesRequest
+{
+    public int? PaymentMethodId { get; init; }
+
+    /// <summary>Less than the total pays part of it, oldest charges first</summary>
+    public decimal? Amount { get; init; }
+}
+
+/// <summary>The part of a payment applied to one charge.</summary>
+public record PaymentAllocationDto
+{
+    public int UnitChargeId { get; init; }
+    public string Period { get; init; } = string.Empty;
+    public UnitChargeType ChargeType { get; init; }
+    public decimal Allocated { get; init; }
+    public decimal Outstanding { get; init; }
+    public UnitChargeStatus Status { get; init; }
+}
+
 // ─── Manual Payment ─────────────────────────────────────
 
 public record ManualPaymentRequest
@@ -200,6 +431,20 @@ public record ManualPaymentRequest
     public string? Notes { get; init; }
 }
 
+/// <summary>Manual payment spread over several charges of a unit, oldest first.</summary>
+public record UnitManualPaymentRequest : ManualPaymentRequest
+{
+    [MinLength(1)]
+    public List<int> UnitChargeIds { get; init; } = new();
+}
+
+public record UnitManualPaymentResultDto
+{
+    public int PaymentId { get; init; }
+    public decimal Amount { get; init; }
+    public List<PaymentAllocationDto> Allocations { get; init; } = new();
+}
+
 public record ManualPaymentResultDto
 {
     public int PaymentId { get; init; }
@@ -223,6 +468,67 @@ public record ChargePaymentDto
     public string? EnteredByName { get; init; }
     public PaymentStatus Status { get; init; }
     public DateTime CreatedAtUtc { get; init; }
+    /// <summary>Full payment amount; Amount above is only the part allocated to this charge</summary>
+    public decimal PaymentAmount { get; init; }
+    public decimal RefundedAmount { get; init; }
+    public bool HasOpenChargeback { get; init; }
+}
+
+// ─── Refunds & Chargebacks ──────────────────────────────
+
+public record RefundPaymentRequest
+{
+    /// <summary>Null refunds everything still refundable</summary>
+    public decimal? Amount { get; init; }
+
+    [Required, MaxLength(500)]
+    public string Reason { get; init; } = string.Empty;
+
+    /// <summary>The money was already returned outside the system; record it without calling the provider</summary>
+    public bool RecordOnly { get; init; }
+}
+
+public record ResolveChargebackRequest
+{
+    public bool Won { get; init; }
+
+    [MaxLength(1000)]
+    public string? Note { get; init; }
+}
+
+public record PaymentRefundDto
+{
+    public int Id { get; init; }
+    public int PaymentId { get; init; }
+    public int BuildingId { get; init; }
+    public string? BuildingName { get; init; }
+    public int UnitId { get; init; }
+    public string? UnitNumber { get; init; }
+    public string? PayerName { get; init; }
+    public PaymentRefundType Type { get; init; }
+    public decimal Amount { get; init; }
+    public decimal PaymentAmount { get; init; }
+    public DateTime PaymentDateUtc { get; init; }
+    public string? PaymentReference { get; init; }
+    public string? Reason { get; init; }
+    public bool ViaProvider { get; init; }
+    public string? ProviderReference { get; init; }
+    public ChargebackStatus? ChargebackStatus { get; init; }
+    public DateTime? ResolvedAtUtc { get; init; }
+    public string? ResolutionNote { get; init; }
+    public string? CreatedByName { get; init; }
+    public DateTime CreatedAtUtc { get; init; }
+    /// <summary>Charges reopened by this refund</summary>
+    public List<PaymentRefundChargeDto> Charges { get; init; } = new();
+}
+
+public record PaymentRefundChargeDto
+{
+    public int UnitChargeId { get; init; }
+    public string? Period { get; init; }
+    public UnitChargeType ChargeType { get; init; }
+    public decimal Amount { get; init; }
+    public decimal RestoredAmount { get; init; }
 }
 
 // ─── Reports: Collection Status (Who Paid / Who Has Not) ─────
@@ -235,6 +541,8 @@ public record CollectionRowDto
     public decimal? SizeSqm { get; init; }
     public string? PayerDisplayName { get; init; }
     public string? PayerPhone { get; init; }
+    /// <summary>Null for units with no charge in the period</summary>
+    public BillingParty? Party { get; init; }
     public decimal AmountDue { get; init; }
     public decimal AmountPaid { get; init; }
     public decimal Outstanding { get; init; }
@@ -324,6 +632,31 @@ public record StandingOrderDto
     public int SuccessfulCharges { get; init; }
     public int FailedCharges { get; init; }
     public DateTime CreatedAtUtc { get; init; }
+    public string? TenantName { get; init; }
+    public decimal? PendingAmount { get; init; }
+    public DateTime? AmountChangeRequestedAtUtc { get; init; }
+    public string? AmountChangeReason { get; init; }
+
+    /// <summary>The unit's monthly fee under the building's active HOA fee plan (managers only; null when not computable)</summary>
+    public decimal? CurrentHoaFee { get; init; }
+}
+
+/// <summary>Manager change of a standing order's amount, e.g. after the HOA fee plan changed.</summary>
+public record AdjustStandingOrderAmountRequest
+{
+    [Range(0.01, 100000)]
+    public decimal Amount { get; init; }
+
+    [MaxLength(500)]
+    public string? Reason { get; init; }
+}
+
+public record AdjustStandingOrderAmountResult
+{
+    /// <summary>True when the provider needs the tenant to approve the new amount first</summary>
+    public bool RequiresApproval { get; init; }
+    public string? ApprovalUrl { get; init; }
+    public StandingOrderDto Order { get; init; } = null!;
 }
 
 public record CreateStandingOrderRequest
@@ -379,3 +712,347 @@ public record IncomeExpensesReport
     public List<CategoryAmount> ExpensesByCategory { get; init; } = [];
     public List<MonthlyBreakdown> MonthlyBreakdown { get; init; } = [];
 }
+
+// ─── Budgets ────────────────────────────────────────────
+
+public record BudgetLineDto
+{
+    public BudgetLineType LineType { get; init; }
+    public string Category { get; init; } = string.Empty;
+    public int Month { get; init; }
+    public decimal Amount { get; init; }
+}
+
+public record BuildingBudgetDto
+{
+    public int Id { get; init; }
+    public int BuildingId { get; init; }
+    public string? BuildingName { get; init; }
+    public int Year { get; init; }
+    public BudgetStatus Status { get; init; }
+    public DateTime? ApprovedAtUtc { get; init; }
+    public string? ApprovedBy { get; init; }
+    public string? Notes { get; init; }
+    public decimal TotalIncome { get; init; }
+    public decimal TotalExpenses { get; init; }
+    public List<BudgetLineDto> Lines { get; init; } = [];
+}
+
+public record SaveBuildingBudgetRequest
+{
+    [MaxLength(1000)]
+    public string? Notes { get; init; }
+
+    public List<BudgetLineDto> Lines { get; init; } = [];
+}
+
+/// <summary>
+/// Budget against actual for one category. Variance is positive when favourable:
+/// income above budget, or expenses below budget.
+/// </summary>
+public record BudgetVarianceLine
+{
+    public string Category { get; init; } = string.Empty;
+    public decimal Budget { get; init; }
+    public decimal Actual { get; init; }
+    public decimal Variance { get; init; }
+}
+
+public record BudgetVarianceMonth
+{
+    public string Month { get; init; } = string.Empty;
+    public decimal BudgetIncome { get; init; }
+    public decimal ActualIncome { get; init; }
+    public decimal BudgetExpenses { get; init; }
+    public decimal ActualExpenses { get; init; }
+}
+
+public record BudgetVsActualReport
+{
+    public int BuildingId { get; init; }
+    public string? BuildingName { get; init; }
+    public int Year { get; init; }
+    public BudgetStatus? BudgetStatus { get; init; }
+    public decimal BudgetIncome { get; init; }
+    public decimal ActualIncome { get; init; }
+    public decimal BudgetExpenses { get; init; }
+    public decimal ActualExpenses { get; init; }
+    public List<BudgetVarianceLine> IncomeByCategory { get; init; } = [];
+    public List<BudgetVarianceLine> ExpensesByCategory { get; init; } = [];
+    public List<BudgetVarianceMonth> Months { get; init; } = [];
+}
+
+/// <summary>Monthly HOA fee that covers the approved budget's expenses net of its other income.</summary>
+public record SuggestedHOAFeeDto
+{
+    public int BuildingId { get; init; }
+    public int Year { get; init; }
+    public decimal BudgetedExpenses { get; init; }
+    public decimal BudgetedOtherIncome { get; init; }
+    public decimal AnnualAmountToCollect { get; init; }
+    public decimal MonthlyAmountToCollect { get; init; }
+    public int UnitCount { get; init; }
+    public decimal TotalSqm { get; init; }
+    public decimal FixedAmountPerUnit { get; init; }
+    public decimal? AmountPerSqm { get; init; }
+}
+
+// ─── Billing Parties ────────────────────────────────────
+
+public record PartyBalanceDto
+{
+    public BillingParty Party { get; init; }
+    public string? PayerName { get; init; }
+    public string? PayerPhone { get; init; }
+    public string? PayerEmail { get; init; }
+    public bool HasPortalAccount { get; init; }
+    public decimal TotalCharged { get; init; }
+    public decimal TotalPaid { get; init; }
+    public decimal Balance { get; init; }
+    public int OpenCharges { get; init; }
+}
+
+/// <summary>A unit's balance split between the resident and the owner</summary>
+public record UnitPartyBalancesDto
+{
+    public int UnitId { get; init; }
+    public string? UnitNumber { get; init; }
+    public BillingParty HOAFeePayer { get; init; }
+    public BillingParty SpecialAssessmentPayer { get; init; }
+    public List<PartyBalanceDto> Parties { get; init; } = [];
+}
+
+// ─── Unit Statement ─────────────────────────────────────
+
+public record UnitStatementLineDto
+{
+    public DateTime DateUtc { get; init; }
+    public StatementLineType LineType { get; init; }
+    public int? UnitChargeId { get; init; }
+    public int? PaymentId { get; init; }
+    public UnitChargeType? ChargeType { get; init; }
+    public string? Period { get; init; }
+    public string? Description { get; init; }
+    /// <summary>Payment method (CreditCard, BankTransfer, Cash, ...) for payments and refunds</summary>
+    public PaymentMethodType? Method { get; init; }
+    /// <summary>Refund or chargeback, for refund lines</summary>
+    public PaymentRefundType? RefundType { get; init; }
+    public string? Reference { get; init; }
+    public decimal Debit { get; init; }
+    public decimal Credit { get; init; }
+    /// <summary>Running balance after the line; positive means the payer owes</summary>
+    public decimal Balance { get; init; }
+}
+
+/// <summary>Account statement of a unit (or one billing party of it) for a date range</summary>
+public record UnitStatementDto
+{
+    public int UnitId { get; init; }
+    public string? UnitNumber { get; init; }
+    public int BuildingId { get; init; }
+    public string? BuildingName { get; init; }
+    public BillingParty? Party { get; init; }
+    public string? PayerName { get; init; }
+    public DateTime? From { get; init; }
+    public DateTime To { get; init; }
+    public decimal OpeningBalance { get; init; }
+    public decimal TotalDebits { get; init; }
+    public decimal TotalCredits { get; init; }
+    public decimal ClosingBalance { get; init; }
+    public DateTime GeneratedAtUtc { get; init; }
+    public List<UnitStatementLineDto> Lines { get; init; } = [];
+}
+
+// ─── Payment Plans ──────────────────────────────────────
+
+public record PaymentPlanInstallmentDto
+{
+    public int InstallmentNumber { get; init; }
+    public DateTime DueDate { get; init; }
+    public decimal Amount { get; init; }
+    public decimal AmountPaid { get; init; }
+    public PaymentPlanInstallmentStatus Status { get; init; }
+    public DateTime? PaidAtUtc { get; init; }
+}
+
+public record PaymentPlanChargeDto
+{
+    public int UnitChargeId { get; init; }
+    public string Period { get; init; } = string.Empty;
+    public UnitChargeType ChargeType { get; init; }
+    public string? Description { get; init; }
+    public DateTime DueDate { get; init; }
+    public decimal OutstandingAtStart { get; init; }
+    public decimal Outstanding { get; init; }
+}
+
+public record PaymentPlanDto
+{
+    public int Id { get; init; }
+    public int BuildingId { get; init; }
+    public string? BuildingName { get; init; }
+    public int UnitId { get; init; }
+    public string? UnitNumber { get; init; }
+    public string? TenantName { get; init; }
+    public PaymentPlanStatus Status { get; init; }
+    public BillingParty? Party { get; init; }
+    public bool RequestedByTenant { get; init; }
+    public string? RequestNote { get; init; }
+    public string? ManagerNote { get; init; }
+    public decimal TotalAmount { get; init; }
+    public decimal AmountPaid { get; init; }
+    public decimal Remaining { get; init; }
+    public int InstallmentCount { get; init; }
+    public DateTime FirstDueDate { get; init; }
+    public int MissedInstallments { get; init; }
+    public DateTime? NextDueDate { get; init; }
+    public int? StandingOrderId { get; init; }
+    public StandingOrderStatus? StandingOrderStatus { get; init; }
+    public DateTime CreatedAtUtc { get; init; }
+    public DateTime? ApprovedAtUtc { get; init; }
+    public List<PaymentPlanInstallmentDto> Installments { get; init; } = [];
+    public List<PaymentPlanChargeDto> Charges { get; init; } = [];
+}
+
+/// <summary>Overdue charges of a unit that a payment plan would consolidate.</summary>
+public record UnitDebtDto
+{
+    public int UnitId { get; init; }
+    public string? UnitNumber { get; init; }
+    public BillingParty? Party { get; init; }
+    public decimal TotalOutstanding { get; init; }
+    public int? OpenPlanId { get; init; }
+    public List<PaymentPlanChargeDto> Charges { get; init; } = [];
+}
+
+public record CreatePaymentPlanRequest
+{
+    [Required]
+    public int UnitId { get; init; }
+
+    [Range(2, 36)]
+    public int InstallmentCount { get; init; }
+
+    public DateTime FirstDueDate { get; init; }
+
+    /// <summary>Consolidate only this party's charges; null for all of them</summary>
+    public BillingParty? Party { get; init; }
+
+    public int? StandingOrderId { get; init; }
+
+    [MaxLength(1000)]
+    public string? Note { get; init; }
+}
+
+public record RequestPaymentPlanRequest
+{
+    [Required]
+    public int UnitId { get; init; }
+
+    [Range(2, 36)]
+    public int InstallmentCount { get; init; }
+
+    [MaxLength(1000)]
+    public string? Note { get; init; }
+}
+
+public record ApprovePaymentPlanRequest
+{
+    [Range(2, 36)]
+    public int InstallmentCount { get; init; }
+
+    public DateTime FirstDueDate { get; init; }
+
+    [MaxLength(1000)]
+    public string? Note { get; init; }
+}
+
+public record RejectPaymentPlanRequest
+{
+    [MaxLength(1000)]
+    public string? Reason { get; init; }
+}
+
+public record LinkStandingOrderRequest
+{
+    /// <summary>Null unlinks the current standing order</summary>
+    public int? StandingOrderId { get; init; }
+}
+
+// ─── Bank Reconciliation ───────────────────────────────
+
+public record BankStatementImportDto
+{
+    public int Id { get; init; }
+    public int BuildingId { get; init; }
+    public string? BuildingName { get; init; }
+    public string FileName { get; init; } = string.Empty;
+    public BankStatementFormat Format { get; init; }
+    public string? ImportedByName { get; init; }
+    public DateTime ImportedAtUtc { get; init; }
+    public int LineCount { get; init; }
+    public int DuplicateCount { get; init; }
+    public int SuggestedCount { get; init; }
+    public int ConfirmedCount { get; init; }
+}
+
+public record BankStatementLineDto
+{
+    public int Id { get; init; }
+    public int ImportId { get; init; }
+    public int BuildingId { get; init; }
+    public DateTime TransactionDate { get; init; }
+    public decimal Amount { get; init; }
+    public string? Reference { get; init; }
+    public string? PayerName { get; init; }
+    public string? Description { get; init; }
+    public BankStatementLineStatus Status { get; init; }
+    public int? SuggestedUnitChargeId { get; init; }
+    public string? SuggestedUnitNumber { get; init; }
+    public string? SuggestedPeriod { get; init; }
+    public string? SuggestedTenantName { get; init; }
+    public int MatchScore { get; init; }
+    public string? MatchReason { get; init; }
+    public int? PaymentId { get; init; }
+    public DateTime? ResolvedAtUtc { get; init; }
+}
+
+public record BankMatchCandidateDto
+{
+    public int UnitChargeId { get; init; }
+    public int UnitId { get; init; }
+    public string? UnitNumber { get; init; }
+    public string? TenantName { get; init; }
+    public string Period { get; init; } = string.Empty;
+    public decimal Outstanding { get; init; }
+    public DateTime DueDate { get; init; }
+    public int Score { get; init; }
+    public string? Reason { get; init; }
+}
+
+public record BankMatchConfirmation
+{
+    [Required]
+    public int LineId { get; init; }
+
+    [Required]
+    public int UnitChargeId { get; init; }
+}
+
+public record ConfirmBankMatchesRequest
+{
+    [Required]
+    public List<BankMatchConfirmation> Matches { get; init; } = new();
+}
+
+public record BankMatchErrorDto
+{
+    public int LineId { get; init; }
+    public string Message { get; init; } = string.Empty;
+}
+
+public record ConfirmBankMatchesResultDto
+{
+    public int Confirmed { get; init; }
+    public List<BankMatchErrorDto> Errors { get; init; } = new();
+}
@@ -0,0 +1,61 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace BuildingManagement.Core.DTOs;
+
+// ─── Paging ─────────────────────────────────────────────
+
+/// <summary>Paging, sorting and free-text search shared by all paged list endpoints.</summary>
+public record PagedQuery
+{
+    public const int MaxPageSize = 200;
+
+    /// <summary>1-based page number</summary>
+    public int Page { get; init; } = 1;
+    public int PageSize { get; init; } = 25;
+
+    /// <summary>Column key from the endpoint's sortable columns (camelCase, as in the DTO)</summary>
+    public string? SortBy { get; init; }
+
+    /// <summary>"asc" | "desc"</summary>
+    public string? SortDir { get; init; }
+
+    public string? Search { get; init; }
+
+    public bool Descending => string.Equals(SortDir, "desc", StringComparison.OrdinalIgnoreCase);
+}
+
+public record PagedResult<T>
+{
+    public List<T> Items { get; init; } = new();
+    public int TotalCount { get; init; }
+    public int Page { get; init; }
+    public int PageSize { get; init; }
+}
+
+// ─── Saved Grid Views ───────────────────────────────────
+
+public record SavedGridViewDto
+{
+    public int Id { get; init; }
+    public string GridKey { get; init; } = string.Empty;
+    public string Name { get; init; } = string.Empty;
+
+    /// <summary>Opaque JSON owned by the frontend grid (filters, sort, page size, hidden columns)</summary>
+    public string StateJson { get; init; } = "{}";
+    public bool IsDefault { get; init; }
+    public DateTime UpdatedAtUtc { get; init; }
+}
+
+public record SaveGridViewRequest
+{
+    [Required, MaxLength(100)]
+    public string GridKey { get; init; } = string.Empty;
+
+    [Required, MaxLength(100)]
+    public string Name { get; init; } = string.Empty;
+
+    [Required, MaxLength(4000)]
+    public string StateJson { get; init; } = "{}";
+
+    public bool IsDefault { get; init; }
+}
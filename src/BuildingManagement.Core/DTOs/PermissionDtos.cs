@@ -0,0 +1,42 @@
+using System.ComponentModel.DataAnnotations;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Core.DTOs;
+
+/// <summary>An action on a resource, in one building or (BuildingId null) in every building.</summary>
+public record PermissionGrantDto
+{
+    public PermissionResource Resource { get; init; }
+    public PermissionAction Action { get; init; }
+    public int? BuildingId { get; init; }
+    public string? BuildingName { get; init; }
+}
+
+/// <summary>A staff member or house committee member, as shown on the permissions page.</summary>
+public record UserPermissionsDto
+{
+    public string UserId { get; init; } = string.Empty;
+    public string FullName { get; init; } = string.Empty;
+    public string Email { get; init; } = string.Empty;
+    public List<string> Roles { get; init; } = [];
+
+    /// <summary>Buildings the user manages; managers get everything but user administration there.</summary>
+    public List<int> ManagedBuildingIds { get; init; } = [];
+
+    /// <summary>Buildings whose house committee the user sits on; read-only reports there.</summary>
+    public List<int> CommitteeBuildingIds { get; init; } = [];
+
+    /// <summary>Permissions an admin granted on top of the role.</summary>
+    public List<PermissionGrantDto> Grants { get; init; } = [];
+}
+
+public record UpdateUserPermissionsRequest
+{
+    /// <summary>Admin, Manager or Bookkeeper; committee members keep their Tenant role.</summary>
+    [MaxLength(50)]
+    public string? Role { get; init; }
+
+    public List<int> ManagedBuildingIds { get; init; } = [];
+
+    public List<PermissionGrantDto> Grants { get; init; } = [];
+}
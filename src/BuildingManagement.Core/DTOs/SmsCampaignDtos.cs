@@ -14,6 +14,62 @@ public record SmsTemplateDto
     public string Body { get; init; } = string.Empty;
     public string? EmailSubject { get; init; }
     public bool IsActive { get; init; }
+    public int Version { get; init; }
+    public DateTime? UpdatedAtUtc { get; init; }
+}
+
+public record SaveSmsTemplateRequest
+{
+    [Required, MaxLength(200)]
+    public string Name { get; init; } = string.Empty;
+
+    [Required, MaxLength(5)]
+    public string Language { get; init; } = "he";
+
+    [Required, MaxLength(1000)]
+    public string Body { get; init; } = string.Empty;
+
+    [MaxLength(300)]
+    public string? EmailSubject { get; init; }
+
+    public bool IsActive { get; init; } = true;
+}
+
+public record SmsTemplateVersionDto
+{
+    public int Version { get; init; }
+    public string Name { get; init; } = string.Empty;
+    public string Body { get; init; } = string.Empty;
+    public string? EmailSubject { get; init; }
+    public string? CreatedByName { get; init; }
+    public DateTime CreatedAtUtc { get; init; }
+    public bool IsCurrent { get; init; }
+}
+
+/// <summary>Renders unsaved template text for a real unit, or for sample values when no unit is given.</summary>
+public record PreviewSmsTemplateRequest
+{
+    [MaxLength(1000)]
+    public string Body { get; init; } = string.Empty;
+
+    [MaxLength(300)]
+    public string? EmailSubject { get; init; }
+
+    [MaxLength(5)]
+    public string Language { get; init; } = "he";
+
+    public int? UnitId { get; init; }
+}
+
+public record SmsTemplatePreviewDto
+{
+    public string Message { get; init; } = string.Empty;
+    public string? Subject { get; init; }
+    public string EmailHtml { get; init; } = string.Empty;
+    public string RecipientName { get; init; } = string.Empty;
+    public string? UnitNumber { get; init; }
+    public bool IsSample { get; init; }
+    public List<string> UnknownPlaceholders { get; init; } = new();
 }
 
 // ─── Reminder Campaign ──────────────────────────────────
@@ -55,6 +111,22 @@ public record SmsCampaignDto
     public int FailedCount { get; init; }
     public int SkippedCount { get; init; }
     public DateTime? SentAtUtc { get; init; }
+    public DateTime? LastRetryAtUtc { get; init; }
+
+    // Delivery receipts of the sent recipients' latest attempt
+    public int DeliveredCount { get; init; }
+    public int UndeliveredCount { get; init; }
+    public int BouncedCount { get; init; }
+    public int AwaitingReceiptCount { get; init; }
+
+    /// <summary>Selected recipients not reached: failed or skipped at send, undelivered or bounced since</summary>
+    public int RetryableCount { get; init; }
+
+    // Conversions since sending
+    public int LinksClicked { get; init; }
+    public int PaidRecipients { get; init; }
+    public decimal PaidAfterSendAmount { get; init; }
+    public decimal PaidViaLinkAmount { get; init; }
 }
 
 public record SmsCampaignRecipientDto
@@ -74,6 +146,33 @@ public record SmsCampaignRecipientDto
     public string? ProviderMessageId { get; init; }
     public string? ErrorMessage { get; init; }
     public DateTime? SentAtUtc { get; init; }
+    public string? PaymentLinkUrl { get; init; }
+    public DateTime? PaymentLinkExpiresAtUtc { get; init; }
+    public int LinkClickCount { get; init; }
+    public DateTime? LinkFirstClickedAtUtc { get; init; }
+
+    /// <summary>Succeeded payments of the unit since the reminder was sent, by any channel.</summary>
+    public decimal PaidAfterSendAmount { get; init; }
+
+    public MessageDeliveryStatus? DeliveryStatus { get; init; }
+    public DateTime? DeliveryStatusAtUtc { get; init; }
+    public int AttemptCount { get; init; }
+    public ReminderChannel? LastChannel { get; init; }
+    public List<SmsCampaignDeliveryDto> Deliveries { get; init; } = [];
+}
+
+public record SmsCampaignDeliveryDto
+{
+    public int Id { get; init; }
+    public int Attempt { get; init; }
+    public ReminderChannel Channel { get; init; }
+    public string Provider { get; init; } = string.Empty;
+    public string ProviderMessageId { get; init; } = string.Empty;
+    public string Destination { get; init; } = string.Empty;
+    public DateTime SentAtUtc { get; init; }
+    public MessageDeliveryStatus Status { get; init; }
+    public DateTime? StatusAtUtc { get; init; }
+    public string? Error { get; init; }
 }
 
 public record CreateCampaignResult
@@ -104,6 +203,17 @@ public record SendCampaignRequest
     public bool Confirm { get; init; }
 }
 
+/// <summary>Sends a sent campaign again to recipients it did not reach, on the campaign's channel or another one.</summary>
+public record RetryCampaignRequest
+{
+    public bool Confirm { get; init; }
+
+    public ReminderChannel Channel { get; init; } = ReminderChannel.Sms;
+
+    /// <summary>Recipients to retry; every retryable recipient when empty</summary>
+    public List<int>? RecipientIds { get; init; }
+}
+
 public record SendCampaignResult
 {
     public int TotalSelected { get; init; }
@@ -111,3 +221,184 @@ public record SendCampaignResult
     public int FailedCount { get; init; }
     public int SkippedCount { get; init; }
 }
+
+// ─── Dunning ────────────────────────────────────────────
+
+public record DunningStepDto
+{
+    public int Id { get; init; }
+    public int DaysAfterDue { get; init; }
+    public DunningAction Action { get; init; }
+    public int? TemplateId { get; init; }
+    public string? TemplateName { get; init; }
+    public bool IsEnabled { get; init; }
+}
+
+public record DunningStepRequest
+{
+    [Range(1, 365)]
+    public int DaysAfterDue { get; init; }
+
+    public DunningAction Action { get; init; }
+
+    public int? TemplateId { get; init; }
+
+    public bool IsEnabled { get; init; } = true;
+}
+
+/// <summary>Replaces the building's whole dunning schedule.</summary>
+public record SaveDunningScheduleRequest
+{
+    [Required, MaxLength(20)]
+    public List<DunningStepRequest> Steps { get; init; } = new();
+}
+
+public record DunningNoticeDto
+{
+    public int Id { get; init; }
+    public int UnitChargeId { get; init; }
+    public string? ChargePeriod { get; init; }
+    public BillingParty Party { get; init; }
+    public DunningAction Action { get; init; }
+    public int DaysAfterDue { get; init; }
+    public string RecipientName { get; init; } = string.Empty;
+    public string? RecipientAddress { get; init; }
+    public decimal OutstandingSnapshot { get; init; }
+    public string? Subject { get; init; }
+    public string Message { get; init; } = string.Empty;
+    public SmsSendStatus SendStatus { get; init; }
+    public string? ErrorMessage { get; init; }
+    public DateTime CreatedAtUtc { get; init; }
+}
+
+/// <summary>A unit's billed party with overdue debt, and how far through the dunning schedule they are.</summary>
+public record DunningDebtorDto
+{
+    public int UnitId { get; init; }
+    public string UnitNumber { get; init; } = string.Empty;
+    public BillingParty Party { get; init; }
+    public string? PayerName { get; init; }
+    public decimal Outstanding { get; init; }
+    public int OverdueCharges { get; init; }
+
+    /// <summary>Oldest unpaid charge, which drives the schedule</summary>
+    public int OldestChargeId { get; init; }
+    public string OldestPeriod { get; init; } = string.Empty;
+    public DateTime OldestDueDate { get; init; }
+    public int DaysOverdue { get; init; }
+
+    /// <summary>Days-after-due of the last step reached for the oldest charge (null = none yet)</summary>
+    public int? ReachedDaysAfterDue { get; init; }
+    public int? NextDaysAfterDue { get; init; }
+    public DateTime? NextStepDate { get; init; }
+
+    /// <summary>Debt under an active payment plan is not dunned</summary>
+    public bool InPaymentPlan { get; init; }
+
+    /// <summary>Notices sent for the oldest charge</summary>
+    public List<DunningNoticeDto> Notices { get; init; } = new();
+}
+
+// ─── Notification Preferences ───────────────────────────
+
+public record NotificationPreferencesDto
+{
+    public ReminderChannel PreferredChannel { get; init; }
+    public bool SmsOptOut { get; init; }
+    public bool EmailOptOut { get; init; }
+    public bool WhatsAppOptOut { get; init; }
+    public bool PushOptOut { get; init; }
+    public bool PaymentReminders { get; init; }
+    public bool TicketUpdates { get; init; }
+    public bool BuildingAnnouncements { get; init; }
+    /// <summary>"HH:mm", Israel time; both set or both null</summary>
+    public string? QuietHoursStart { get; init; }
+    public string? QuietHoursEnd { get; init; }
+    /// <summary>"he" or "en"</summary>
+    public string Language { get; init; } = "he";
+    public DateTime? UpdatedAtUtc { get; init; }
+
+    // What the tenant can be reached on
+    public string? Phone { get; init; }
+    public string? Email { get; init; }
+    public int PushDevices { get; init; }
+
+    /// <summary>VAPID key to subscribe the browser with; null when push is not configured.</summary>
+    public string? PushPublicKey { get; init; }
+}
+
+public record SaveNotificationPreferencesRequest
+{
+    public ReminderChannel PreferredChannel { get; init; } = ReminderChannel.Email;
+    public bool SmsOptOut { get; init; }
+    public bool EmailOptOut { get; init; }
+    public bool WhatsAppOptOut { get; init; }
+    public bool PushOptOut { get; init; }
+    public bool PaymentReminders { get; init; } = true;
+    public bool TicketUpdates { get; init; } = true;
+    public bool BuildingAnnouncements { get; init; }
+
+    [RegularExpression("^([01][0-9]|2[0-3]):[0-5][0-9]$")]
+    public string? QuietHoursStart { get; init; }
+
+    [RegularExpression("^([01][0-9]|2[0-3]):[0-5][0-9]$")]
+    public string? QuietHoursEnd { get; init; }
+
+    [Required, RegularExpression("^(he|en)$")]
+    public string Language { get; init; } = "he";
+}
+
+/// <summary>One change to what a tenant agreed to receive.</summary>
+public record NotificationConsentLogDto
+{
+    public int Id { get; init; }
+    public string Setting { get; init; } = string.Empty;
+    public string? OldValue { get; init; }
+    public string? NewValue { get; init; }
+    public string Source { get; init; } = string.Empty;
+    public string? ChangedByName { get; init; }
+    public string? IpAddress { get; init; }
+    public DateTime ChangedAtUtc { get; init; }
+}
+
+public record SavePushSubscriptionRequest
+{
+    [Required, MaxLength(500)]
+    public string Endpoint { get; init; } = string.Empty;
+
+    [Required, MaxLength(200)]
+    public string P256dh { get; init; } = string.Empty;
+
+    [Required, MaxLength(100)]
+    public string Auth { get; init; } = string.Empty;
+}
+
+public record TestPushRequest
+{
+    [Required, MaxLength(100)]
+    public string Title { get; init; } = string.Empty;
+
+    [Required, MaxLength(300)]
+    public string Body { get; init; } = string.Empty;
+
+    [MaxLength(500)]
+    public string? Url { get; init; }
+}
+
+/// <summary>A message the local stand-in providers accepted instead of sending.</summary>
+public record StandInMessageDto
+{
+    public ReminderChannel Channel { get; init; }
+    public string To { get; init; } = string.Empty;
+    public string? Subject { get; init; }
+    public string Body { get; init; } = string.Empty;
+    public string MessageId { get; init; } = string.Empty;
+    public DateTime SentAtUtc { get; init; }
+}
+
+public record StandInOutboxDto
+{
+    /// <summary>Channels whose provider is the local stand-in; the others send for real and are not listed.</summary>
+    public List<ReminderChannel> StandInChannels { get; init; } = [];
+    public List<StandInMessageDto> Messages { get; init; } = [];
+}
@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations;
+using BuildingManagement.Core.Enums;
 
 namespace BuildingManagement.Core.DTOs;
 
@@ -18,8 +19,16 @@ public record TenantProfileDto
     public DateTime? MoveOutDate { get; init; }
     public bool IsActive { get; init; }
     public bool IsArchived { get; init; }
+
+    /// <summary>House committee members see their building's reports.</summary>
+    public bool IsCommitteeMember { get; init; }
     public string? Notes { get; init; }
     public DateTime CreatedAtUtc { get; init; }
+
+    /// <summary>The open sign-up invitation, while the tenant has no account yet.</summary>
+    public ReminderChannel? InvitationChannel { get; init; }
+    public DateTime? InvitedAtUtc { get; init; }
+    public DateTime? InvitationExpiresAtUtc { get; init; }
 }
 
 public record CreateTenantRequest
@@ -63,6 +72,8 @@ public record UpdateTenantRequest
 
     public bool IsActive { get; init; }
 
+    public bool IsCommitteeMember { get; init; }
+
     [MaxLength(1000)]
     public string? Notes { get; init; }
 }
@@ -73,6 +84,68 @@ public record EndTenancyRequest
     public DateTime MoveOutDate { get; init; }
 }
 
+// ─── Onboarding ────────────────────────────────────────
+
+public record InviteTenantRequest
+{
+    /// <summary>Sms or Email</summary>
+    public ReminderChannel Channel { get; init; } = ReminderChannel.Email;
+
+    /// <summary>"he" | "en"</summary>
+    [MaxLength(5)]
+    public string Language { get; init; } = "he";
+}
+
+public record TenantInvitationDto
+{
+    public int Id { get; init; }
+    public int TenantProfileId { get; init; }
+    public ReminderChannel Channel { get; init; }
+    public string SentTo { get; init; } = string.Empty;
+    public DateTime CreatedAtUtc { get; init; }
+    public DateTime ExpiresAtUtc { get; init; }
+}
+
+public record TenantRegistrationDto
+{
+    public int Id { get; init; }
+    public string UserId { get; init; } = string.Empty;
+    public string FullName { get; init; } = string.Empty;
+    public string? Email { get; init; }
+    public bool EmailConfirmed { get; init; }
+    public string? Phone { get; init; }
+    public int BuildingId { get; init; }
+    public string? BuildingName { get; init; }
+    public string ApartmentNumber { get; init; } = string.Empty;
+    public int? Floor { get; init; }
+    public PropertyRole PropertyRole { get; init; }
+    public bool IsCommitteeMember { get; init; }
+    public TenantRegistrationStatus Status { get; init; }
+
+    /// <summary>The building's unit with the typed number and floor, suggested for approval.</summary>
+    public int? MatchingUnitId { get; init; }
+
+    /// <summary>Someone already has an account for the matching unit, so the request deserves a closer look.</summary>
+    public string? CurrentTenantName { get; init; }
+    public int? UnitId { get; init; }
+    public string? UnitNumber { get; init; }
+    public string? RejectionReason { get; init; }
+    public DateTime CreatedAtUtc { get; init; }
+    public DateTime? ReviewedAtUtc { get; init; }
+}
+
+public record ApproveRegistrationRequest
+{
+    /// <summary>The unit to link; without it the typed apartment is used, and created if the building doesn't list it.</summary>
+    public int? UnitId { get; init; }
+}
+
+public record RejectRegistrationRequest
+{
+    [MaxLength(500)]
+    public string? Reason { get; init; }
+}
+
 // ─── Tenant Messages ───────────────────────────────────
 
 public record TenantMessageDto
@@ -112,6 +185,15 @@ public record SendPaymentRemindersRequest
     public int BuildingId { get; init; }
 }
 
+public record SendAnnouncementRequest
+{
+    [Required, MaxLength(100)]
+    public string Subject { get; init; } = string.Empty;
+
+    [Required]
+    public string Body { get; init; } = string.Empty;
+}
+
 public record PaymentAnalysisDto
 {
     public int TenantProfileId { get; init; }
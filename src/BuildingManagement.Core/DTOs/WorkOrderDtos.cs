@@ -57,6 +57,14 @@ public record AssignWorkOrderRequest
     public DateTime? ScheduledFor { get; init; }
 }
 
+public record RescheduleWorkOrderRequest
+{
+    [Required]
+    public int VendorId { get; init; }
+    [Required]
+    public DateTime ScheduledFor { get; init; }
+}
+
 public record AssignVendorToSrRequest
 {
     [Required]
@@ -72,6 +80,12 @@ public record UpdateWorkOrderStatusRequest
 {
     [Required]
     public WorkOrderStatus Status { get; init; }
+
+    /// <summary>
+    /// UpdatedAtUtc of the work order as last seen by the client. When set and the order has
+    /// changed since, the update is rejected with 409 (used by the vendor offline queue).
+    /// </summary>
+    public DateTime? ExpectedUpdatedAtUtc { get; init; }
 }
 
 public record CreateWorkOrderNoteRequest
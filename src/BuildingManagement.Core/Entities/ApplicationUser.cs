@@ -28,6 +28,9 @@ public class ApplicationUser : IdentityUser
 
     // Units this user is tenant of
     public ICollection<Unit> TenantUnits { get; set; } = new List<Unit>();
+
+    // Units this user owns but may not live in
+    public ICollection<Unit> OwnedUnits { get; set; } = new List<Unit>();
 }
 
 /// <summary>
@@ -0,0 +1,88 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Core.Entities.Finance;
+
+/// <summary>
+/// One uploaded bank statement file (CSV export or MT940) for a building's account.
+/// </summary>
+public class BankStatementImport
+{
+    public int Id { get; set; }
+
+    public int BuildingId { get; set; }
+    public Building Building { get; set; } = null!;
+
+    [Required, MaxLength(260)]
+    public string FileName { get; set; } = string.Empty;
+
+    public BankStatementFormat Format { get; set; }
+
+    [MaxLength(450)]
+    public string? ImportedByUserId { get; set; }
+
+    public DateTime ImportedAtUtc { get; set; } = DateTime.UtcNow;
+
+    /// <summary>Incoming (credit) lines kept from the file.</summary>
+    public int LineCount { get; set; }
+
+    /// <summary>Lines skipped because they were already imported from an earlier file.</summary>
+    public int DuplicateCount { get; set; }
+
+    public ICollection<BankStatementLine> Lines { get; set; } = new List<BankStatementLine>();
+}
+
+/// <summary>
+/// A single incoming transfer from a bank statement, waiting in the reconciliation queue
+/// until it is confirmed against a unit charge or ignored.
+/// </summary>
+public class BankStatementLine
+{
+    public int Id { get; set; }
+
+    public int ImportId { get; set; }
+    public BankStatementImport Import { get; set; } = null!;
+
+    public int BuildingId { get; set; }
+    public Building Building { get; set; } = null!;
+
+    public DateTime TransactionDate { get; set; }
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal Amount { get; set; }
+
+    /// <summary>Bank reference (אסמכתא)</summary>
+    [MaxLength(200)]
+    public string? Reference { get; set; }
+
+    [MaxLength(200)]
+    public string? PayerName { get; set; }
+
+    [MaxLength(500)]
+    public string? Description { get; set; }
+
+    /// <summary>Hash of date + amount + reference + description, used to skip re-imported lines.</summary>
+    [Required, MaxLength(64)]
+    public string Fingerprint { get; set; } = string.Empty;
+
+    public BankStatementLineStatus Status { get; set; } = BankStatementLineStatus.Unmatched;
+
+    public int? SuggestedUnitChargeId { get; set; }
+    public UnitCharge? SuggestedUnitCharge { get; set; }
+
+    /// <summary>Matcher confidence 0-100 for the suggested charge.</summary>
+    public int MatchScore { get; set; }
+
+    [MaxLength(500)]
+    public string? MatchReason { get; set; }
+
+    /// <summary>Manual payment created when the line was confirmed.</summary>
+    public int? PaymentId { get; set; }
+    public Payment? Payment { get; set; }
+
+    [MaxLength(450)]
+    public string? ResolvedByUserId { get; set; }
+
+    public DateTime? ResolvedAtUtc { get; set; }
+}
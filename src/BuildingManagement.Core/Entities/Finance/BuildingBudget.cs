@@ -0,0 +1,49 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Core.Entities.Finance;
+
+/// <summary>
+/// Yearly budget of a building, entered per category and month.
+/// Locked once the committee approves it; the approved figures drive budget-vs-actual and the suggested HOA fee.
+/// </summary>
+public class BuildingBudget : BaseEntity
+{
+    public int BuildingId { get; set; }
+    public Building Building { get; set; } = null!;
+
+    public int Year { get; set; }
+
+    public BudgetStatus Status { get; set; } = BudgetStatus.Draft;
+
+    public DateTime? ApprovedAtUtc { get; set; }
+
+    [MaxLength(450)]
+    public string? ApprovedBy { get; set; }
+
+    [MaxLength(1000)]
+    public string? Notes { get; set; }
+
+    public ICollection<BudgetLine> Lines { get; set; } = new List<BudgetLine>();
+}
+
+/// <summary>Budgeted amount for one category in one month. Category is an <see cref="ExpenseCategory"/> or <see cref="IncomeCategory"/> name.</summary>
+public class BudgetLine
+{
+    public int Id { get; set; }
+
+    public int BuildingBudgetId { get; set; }
+    public BuildingBudget BuildingBudget { get; set; } = null!;
+
+    public BudgetLineType LineType { get; set; }
+
+    [Required, MaxLength(50)]
+    public string Category { get; set; } = string.Empty;
+
+    /// <summary>1-12</summary>
+    public int Month { get; set; }
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal Amount { get; set; }
+}
@@ -0,0 +1,29 @@
+using System.ComponentModel.DataAnnotations.Schema;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Core.Entities.Finance;
+
+/// <summary>
+/// Per-building late fee policy applied to overdue HOA charges.
+/// At most one rule per building.
+/// </summary>
+public class LateFeeRule : BaseEntity
+{
+    public int BuildingId { get; set; }
+    public Building Building { get; set; } = null!;
+
+    public bool IsEnabled { get; set; } = true;
+
+    public LateFeeType FeeType { get; set; }
+
+    /// <summary>Flat amount (FixedAmount) or percent of the outstanding balance (MonthlyPercentage)</summary>
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal Amount { get; set; }
+
+    /// <summary>Days after the due date before the first fee is assessed</summary>
+    public int GraceDays { get; set; }
+
+    /// <summary>Maximum total late fees per overdue charge (null = no cap)</summary>
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal? MaxFeePerCharge { get; set; }
+}
@@ -28,6 +28,12 @@ public class Payment
 
     public PaymentStatus Status { get; set; } = PaymentStatus.Pending;
 
+    /// <summary>Charges a hosted checkout was opened for; allocated oldest first when the provider confirms the payment.</summary>
+    public List<int> CheckoutChargeIds { get; set; } = new();
+
+    /// <summary>Reminder campaign recipient whose payment link opened this checkout.</summary>
+    public int? CampaignRecipientId { get; set; }
+
     /// <summary>True when entered manually by manager (not via payment gateway).</summary>
     public bool IsManual { get; set; }
 
@@ -0,0 +1,91 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Core.Entities.Finance;
+
+/// <summary>
+/// Debt arrangement for a unit: its overdue charges are consolidated into a schedule of installments.
+/// The charges themselves stay as they are and keep receiving payments; the schedule only tracks
+/// whether the tenant is paying the debt down on time.
+/// </summary>
+public class PaymentPlan : BaseEntity
+{
+    public int BuildingId { get; set; }
+    public Building Building { get; set; } = null!;
+
+    public int UnitId { get; set; }
+    public Unit Unit { get; set; } = null!;
+
+    public PaymentPlanStatus Status { get; set; } = PaymentPlanStatus.Requested;
+
+    /// <summary>Billing party whose charges are consolidated; null for all of the unit's charges</summary>
+    public BillingParty? Party { get; set; }
+
+    /// <summary>True when the tenant asked for the plan; false when a manager offered it</summary>
+    public bool RequestedByTenant { get; set; }
+
+    [MaxLength(1000)]
+    public string? RequestNote { get; set; }
+
+    [MaxLength(1000)]
+    public string? ManagerNote { get; set; }
+
+    /// <summary>Outstanding balance of the consolidated charges when the plan started</summary>
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal TotalAmount { get; set; }
+
+    public int InstallmentCount { get; set; }
+
+    public DateTime FirstDueDate { get; set; }
+
+    public int? StandingOrderId { get; set; }
+    public StandingOrder? StandingOrder { get; set; }
+
+    public DateTime? ApprovedAtUtc { get; set; }
+
+    [MaxLength(450)]
+    public string? ApprovedBy { get; set; }
+
+    public DateTime? LastEvaluatedAtUtc { get; set; }
+
+    public ICollection<PaymentPlanInstallment> Installments { get; set; } = new List<PaymentPlanInstallment>();
+    public ICollection<PaymentPlanCharge> Charges { get; set; } = new List<PaymentPlanCharge>();
+}
+
+public class PaymentPlanInstallment
+{
+    public int Id { get; set; }
+
+    public int PaymentPlanId { get; set; }
+    public PaymentPlan PaymentPlan { get; set; } = null!;
+
+    public int InstallmentNumber { get; set; }
+
+    public DateTime DueDate { get; set; }
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal Amount { get; set; }
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal AmountPaid { get; set; }
+
+    public PaymentPlanInstallmentStatus Status { get; set; } = PaymentPlanInstallmentStatus.Pending;
+
+    public DateTime? PaidAtUtc { get; set; }
+}
+
+/// <summary>A charge consolidated into a plan, with what was still owed on it when the plan started.</summary>
+public class PaymentPlanCharge
+{
+    public int Id { get; set; }
+
+    public int PaymentPlanId { get; set; }
+    public PaymentPlan PaymentPlan { get; set; } = null!;
+
+    public int UnitChargeId { get; set; }
+    public UnitCharge UnitCharge { get; set; } = null!;
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal OutstandingAtStart { get; set; }
+}
@@ -46,4 +46,17 @@ public class PaymentProviderConfig : BaseEntity
     /// <summary>Provider-specific base URL override (for sandbox/production switching)</summary>
     [MaxLength(500)]
     public string? BaseUrl { get; set; }
+
+    // ─── Simulator (Fake provider only) ──────────────────
+    public PaymentSimulatorScenario SimulatorScenario { get; set; }
+
+    /// <summary>Webhook delay, or how long a simulated timeout hangs</summary>
+    public int SimulatorDelaySeconds { get; set; } = 10;
+
+    // ─── Last connection test ────────────────────────────
+    public DateTime? LastTestedAtUtc { get; set; }
+    public bool? LastTestSucceeded { get; set; }
+
+    [MaxLength(1000)]
+    public string? LastTestMessage { get; set; }
 }
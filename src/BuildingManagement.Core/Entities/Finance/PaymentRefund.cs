@@ -0,0 +1,69 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Core.Entities.Finance;
+
+/// <summary>
+/// Money returned from a payment: a refund issued by a manager (through the provider or recorded manually)
+/// or a chargeback reported by the provider. The amount is taken off the payment's allocations,
+/// so the charges it paid reopen.
+/// </summary>
+public class PaymentRefund : BaseEntity
+{
+    public int PaymentId { get; set; }
+    public Payment Payment { get; set; } = null!;
+
+    public int BuildingId { get; set; }
+    public Building Building { get; set; } = null!;
+
+    public int UnitId { get; set; }
+    public Unit Unit { get; set; } = null!;
+
+    public PaymentRefundType Type { get; set; }
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal Amount { get; set; }
+
+    [MaxLength(500)]
+    public string? Reason { get; set; }
+
+    /// <summary>True when the provider processed it (refund API or chargeback webhook); false when recorded manually</summary>
+    public bool ViaProvider { get; set; }
+
+    /// <summary>Provider refund id, or dispute id for chargebacks</summary>
+    [MaxLength(200)]
+    public string? ProviderReference { get; set; }
+
+    /// <summary>Only set for chargebacks</summary>
+    public ChargebackStatus? ChargebackStatus { get; set; }
+
+    public DateTime? ResolvedAtUtc { get; set; }
+
+    [MaxLength(450)]
+    public string? ResolvedBy { get; set; }
+
+    [MaxLength(1000)]
+    public string? ResolutionNote { get; set; }
+
+    public ICollection<PaymentRefundAllocation> Allocations { get; set; } = new List<PaymentRefundAllocation>();
+}
+
+/// <summary>The part of a refund taken off one charge the payment had paid.</summary>
+public class PaymentRefundAllocation
+{
+    public int Id { get; set; }
+
+    public int PaymentRefundId { get; set; }
+    public PaymentRefund PaymentRefund { get; set; } = null!;
+
+    public int UnitChargeId { get; set; }
+    public UnitCharge UnitCharge { get; set; } = null!;
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal Amount { get; set; }
+
+    /// <summary>Put back on the charge when a chargeback was won</summary>
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal RestoredAmount { get; set; }
+}
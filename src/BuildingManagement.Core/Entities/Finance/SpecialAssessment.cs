@@ -0,0 +1,54 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Core.Entities.Finance;
+
+/// <summary>
+/// One-off building levy (roof, elevator replacement...) billed to units in monthly installments.
+/// Unit shares are fixed when the assessment is activated.
+/// </summary>
+public class SpecialAssessment : BaseEntity
+{
+    public int BuildingId { get; set; }
+    public Building Building { get; set; } = null!;
+
+    [Required, MaxLength(200)]
+    public string Name { get; set; } = string.Empty;
+
+    [MaxLength(1000)]
+    public string? Description { get; set; }
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal TotalBudget { get; set; }
+
+    public AssessmentAllocationMethod AllocationMethod { get; set; }
+
+    public int InstallmentCount { get; set; } = 1;
+
+    /// <summary>Period of the first installment, YYYY-MM format</summary>
+    [Required, MaxLength(7)]
+    public string StartPeriod { get; set; } = string.Empty;
+
+    public SpecialAssessmentStatus Status { get; set; } = SpecialAssessmentStatus.Draft;
+
+    public DateTime? ActivatedAtUtc { get; set; }
+
+    public ICollection<SpecialAssessmentShare> Shares { get; set; } = new List<SpecialAssessmentShare>();
+    public ICollection<UnitCharge> Charges { get; set; } = new List<UnitCharge>();
+}
+
+/// <summary>A unit's part of a special assessment budget, split evenly across installments.</summary>
+public class SpecialAssessmentShare
+{
+    public int Id { get; set; }
+
+    public int SpecialAssessmentId { get; set; }
+    public SpecialAssessment SpecialAssessment { get; set; } = null!;
+
+    public int UnitId { get; set; }
+    public Unit Unit { get; set; } = null!;
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal Amount { get; set; }
+}
@@ -52,6 +52,19 @@ public class StandingOrder
     public int SuccessfulCharges { get; set; }
     public int FailedCharges { get; set; }
 
+    // ─── Amount change awaiting tenant approval ─────────
+    /// <summary>New amount set by a manager; applied once the tenant approves it at the provider</summary>
+    public decimal? PendingAmount { get; set; }
+
+    /// <summary>Provider plan carrying the pending amount (PayPal)</summary>
+    [MaxLength(200)]
+    public string? PendingProviderPlanId { get; set; }
+
+    public DateTime? AmountChangeRequestedAtUtc { get; set; }
+
+    [MaxLength(500)]
+    public string? AmountChangeReason { get; set; }
+
     public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
     public DateTime? UpdatedAtUtc { get; set; }
 }
@@ -11,8 +11,15 @@ public class UnitCharge
     public int UnitId { get; set; }
     public Unit Unit { get; set; } = null!;
 
-    public int HOAFeePlanId { get; set; }
-    public HOAFeePlan HOAFeePlan { get; set; } = null!;
+    /// <summary>Null for special assessment installments</summary>
+    public int? HOAFeePlanId { get; set; }
+    public HOAFeePlan? HOAFeePlan { get; set; }
+
+    public int? SpecialAssessmentId { get; set; }
+    public SpecialAssessment? SpecialAssessment { get; set; }
+
+    /// <summary>1-based installment number for special assessment charges</summary>
+    public int? InstallmentNumber { get; set; }
 
     /// <summary>YYYY-MM format</summary>
     [Required, MaxLength(7)]
@@ -25,7 +32,36 @@ public class UnitCharge
 
     public UnitChargeStatus Status { get; set; } = UnitChargeStatus.Pending;
 
+    public UnitChargeType ChargeType { get; set; } = UnitChargeType.HOAMonthlyFee;
+
+    /// <summary>Who the charge is billed to, fixed when the charge is created</summary>
+    public BillingParty Party { get; set; } = BillingParty.Resident;
+
+    /// <summary>For late fees: the overdue charge the fee was assessed on</summary>
+    public int? SourceChargeId { get; set; }
+    public UnitCharge? SourceCharge { get; set; }
+
+    [MaxLength(200)]
+    public string? Description { get; set; }
+
+    public DateTime? WaivedAtUtc { get; set; }
+
+    [MaxLength(450)]
+    public string? WaivedByUserId { get; set; }
+
+    [MaxLength(500)]
+    public string? WaiverReason { get; set; }
+
     public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
 
     public ICollection<PaymentAllocation> Allocations { get; set; } = new List<PaymentAllocation>();
+
+    /// <summary>Ledger / income report category for payments against this charge</summary>
+    [NotMapped]
+    public string LedgerCategory => ChargeType switch
+    {
+        UnitChargeType.LateFee => nameof(IncomeCategory.LateFees),
+        UnitChargeType.SpecialAssessment => nameof(IncomeCategory.SpecialAssessment),
+        _ => nameof(IncomeCategory.HOAMonthlyFees)
+    };
 }
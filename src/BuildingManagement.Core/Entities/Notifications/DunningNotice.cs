@@ -0,0 +1,60 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using BuildingManagement.Core.Entities.Finance;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Core.Entities.Notifications;
+
+/// <summary>
+/// A dunning step reached by a debtor (unit + billed party). Tied to the oldest unpaid charge that triggered it,
+/// so the schedule starts over for the next charge once that one is paid.
+/// </summary>
+public class DunningNotice
+{
+    public int Id { get; set; }
+
+    public int BuildingId { get; set; }
+
+    public int UnitId { get; set; }
+    public Unit Unit { get; set; } = null!;
+
+    public BillingParty Party { get; set; }
+
+    /// <summary>Oldest unpaid charge of the debtor when the step was reached</summary>
+    public int UnitChargeId { get; set; }
+    public UnitCharge UnitCharge { get; set; } = null!;
+
+    /// <summary>Null once the step was removed from the schedule</summary>
+    public int? DunningStepId { get; set; }
+    public DunningStep? Step { get; set; }
+
+    // Step snapshot
+    public DunningAction Action { get; set; }
+    public int DaysAfterDue { get; set; }
+
+    [MaxLength(200)]
+    public string RecipientName { get; set; } = string.Empty;
+
+    /// <summary>Phone or email the notice went to (committee escalation: the members' emails)</summary>
+    [MaxLength(1000)]
+    public string? RecipientAddress { get; set; }
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal OutstandingSnapshot { get; set; }
+
+    [MaxLength(300)]
+    public string? Subject { get; set; }
+
+    [MaxLength(4000)]
+    public string Message { get; set; } = string.Empty;
+
+    public SmsSendStatus SendStatus { get; set; } = SmsSendStatus.Pending;
+
+    [MaxLength(200)]
+    public string? ProviderMessageId { get; set; }
+
+    [MaxLength(500)]
+    public string? ErrorMessage { get; set; }
+
+    public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
+}
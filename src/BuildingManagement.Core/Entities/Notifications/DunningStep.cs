@@ -0,0 +1,30 @@
+using System.ComponentModel.DataAnnotations;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Core.Entities.Notifications;
+
+/// <summary>
+/// One step of a building's dunning schedule: what is sent once a debtor's oldest unpaid charge
+/// is a number of days past its due date.
+/// </summary>
+public class DunningStep
+{
+    public int Id { get; set; }
+
+    public int BuildingId { get; set; }
+    public Building Building { get; set; } = null!;
+
+    [Range(1, 365)]
+    public int DaysAfterDue { get; set; }
+
+    public DunningAction Action { get; set; }
+
+    /// <summary>Message template; optional for committee escalation (a default summary is sent)</summary>
+    public int? TemplateId { get; set; }
+    public SmsTemplate? Template { get; set; }
+
+    public bool IsEnabled { get; set; } = true;
+
+    public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
+    public DateTime? UpdatedAtUtc { get; set; }
+}
@@ -0,0 +1,40 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace BuildingManagement.Core.Entities.Notifications;
+
+/// <summary>
+/// One change to what a tenant agreed to receive, with who made it and from where. Rows are never updated or
+/// deleted; they are the record of consent.
+/// </summary>
+public class NotificationConsentLog
+{
+    public int Id { get; set; }
+
+    public int TenantProfileId { get; set; }
+    public TenantProfile TenantProfile { get; set; } = null!;
+
+    /// <summary>The setting that changed, e.g. "MarketingConsent", "SmsOptOut" or "QuietHours"</summary>
+    [Required, MaxLength(50)]
+    public string Setting { get; set; } = string.Empty;
+
+    [MaxLength(100)]
+    public string? OldValue { get; set; }
+
+    [MaxLength(100)]
+    public string? NewValue { get; set; }
+
+    /// <summary>Registration, or Tenant for a change on the notification settings page</summary>
+    [Required, MaxLength(20)]
+    public string Source { get; set; } = string.Empty;
+
+    [MaxLength(450)]
+    public string? ChangedByUserId { get; set; }
+
+    [MaxLength(64)]
+    public string? IpAddress { get; set; }
+
+    [MaxLength(300)]
+    public string? UserAgent { get; set; }
+
+    public DateTime ChangedAtUtc { get; set; } = DateTime.UtcNow;
+}
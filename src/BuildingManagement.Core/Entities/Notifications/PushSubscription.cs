@@ -0,0 +1,28 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace BuildingManagement.Core.Entities.Notifications;
+
+/// <summary>A browser or installed app a user enabled push notifications on; one user may have several.</summary>
+public class PushSubscription
+{
+    public int Id { get; set; }
+
+    [Required, MaxLength(450)]
+    public string UserId { get; set; } = string.Empty;
+    public ApplicationUser User { get; set; } = null!;
+
+    [Required, MaxLength(500)]
+    public string Endpoint { get; set; } = string.Empty;
+
+    [Required, MaxLength(200)]
+    public string P256dh { get; set; } = string.Empty;
+
+    [Required, MaxLength(100)]
+    public string Auth { get; set; } = string.Empty;
+
+    [MaxLength(300)]
+    public string? UserAgent { get; set; }
+
+    public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
+    public DateTime? LastSuccessAtUtc { get; set; }
+}
@@ -43,5 +43,8 @@ public class SmsCampaign
     public int SkippedCount { get; set; }
     public DateTime? SentAtUtc { get; set; }
 
+    /// <summary>When failed or undelivered recipients were last sent again</summary>
+    public DateTime? LastRetryAtUtc { get; set; }
+
     public ICollection<SmsCampaignRecipient> Recipients { get; set; } = new List<SmsCampaignRecipient>();
 }
@@ -0,0 +1,42 @@
+using System.ComponentModel.DataAnnotations;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Core.Entities.Notifications;
+
+/// <summary>
+/// One message of a reminder the provider accepted: an SMS or an email, from the first send or a retry.
+/// The provider's delivery receipts update it by <see cref="ProviderMessageId"/>.
+/// </summary>
+public class SmsCampaignDelivery
+{
+    public int Id { get; set; }
+
+    public int RecipientId { get; set; }
+    public SmsCampaignRecipient Recipient { get; set; } = null!;
+
+    /// <summary>1 for the campaign's send, then one more for each retry</summary>
+    public int Attempt { get; set; }
+
+    /// <summary>Sms or Email — never Both</summary>
+    public ReminderChannel Channel { get; set; }
+
+    [Required, MaxLength(50)]
+    public string Provider { get; set; } = string.Empty;
+
+    [Required, MaxLength(200)]
+    public string ProviderMessageId { get; set; } = string.Empty;
+
+    /// <summary>Phone (E.164) or email address the message went to</summary>
+    [MaxLength(200)]
+    public string Destination { get; set; } = string.Empty;
+
+    public DateTime SentAtUtc { get; set; } = DateTime.UtcNow;
+
+    public MessageDeliveryStatus Status { get; set; } = MessageDeliveryStatus.Pending;
+
+    /// <summary>When the provider reported the current status</summary>
+    public DateTime? StatusAtUtc { get; set; }
+
+    [MaxLength(500)]
+    public string? Error { get; set; }
+}
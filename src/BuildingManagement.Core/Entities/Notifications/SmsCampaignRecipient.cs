@@ -1,5 +1,6 @@
 using System.ComponentModel.DataAnnotations;
 using System.ComponentModel.DataAnnotations.Schema;
+using BuildingManagement.Core.Enums;
 
 namespace BuildingManagement.Core.Entities.Notifications;
 
@@ -54,4 +55,32 @@ public class SmsCampaignRecipient
     public string? ErrorMessage { get; set; }
 
     public DateTime? SentAtUtc { get; set; }
+
+    // ─── Delivery ───────────────────────────────────────
+
+    /// <summary>Delivery of the latest attempt, from the providers' receipts; null until a message was accepted.</summary>
+    public MessageDeliveryStatus? DeliveryStatus { get; set; }
+    public DateTime? DeliveryStatusAtUtc { get; set; }
+
+    /// <summary>Sends so far: the campaign's own plus retries</summary>
+    public int AttemptCount { get; set; }
+
+    /// <summary>Channel of the latest attempt; a retry may use another channel than the campaign</summary>
+    public ReminderChannel? LastChannel { get; set; }
+
+    public ICollection<SmsCampaignDelivery> Deliveries { get; set; } = new List<SmsCampaignDelivery>();
+
+    // ─── Payment link ───────────────────────────────────
+
+    /// <summary>Signed token of the recipient's payment link ({{PayLink}}), issued when the campaign is sent.</summary>
+    [MaxLength(100)]
+    public string? PaymentLinkToken { get; set; }
+
+    [MaxLength(500)]
+    public string? PaymentLinkUrl { get; set; }
+
+    public DateTime? PaymentLinkExpiresAtUtc { get; set; }
+
+    public int LinkClickCount { get; set; }
+    public DateTime? LinkFirstClickedAtUtc { get; set; }
 }
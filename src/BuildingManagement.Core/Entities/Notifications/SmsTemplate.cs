@@ -12,7 +12,7 @@ public class SmsTemplate
     [Required, MaxLength(5)]
     public string Language { get; set; } = "he";
 
-    /// <summary>Message body with placeholders: {{FullName}}, {{BuildingName}}, {{Period}}, {{AmountDue}}, {{Outstanding}}, {{PayLink}}</summary>
+    /// <summary>Message body with placeholders: {{FullName}}, {{BuildingName}}, {{UnitNumber}}, {{Period}}, {{AmountDue}}, {{Outstanding}}, {{PayLink}}</summary>
     [Required, MaxLength(1000)]
     public string Body { get; set; } = string.Empty;
 
@@ -22,6 +22,14 @@ public class SmsTemplate
 
     public bool IsActive { get; set; } = true;
 
+    /// <summary>Current version number; each saved change of name, body or subject moves the previous one to Versions.</summary>
+    public int Version { get; set; } = 1;
+
+    [MaxLength(450)]
+    public string? UpdatedByUserId { get; set; }
+
+    public ICollection<SmsTemplateVersion> Versions { get; set; } = new List<SmsTemplateVersion>();
+
     public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
     public DateTime? UpdatedAtUtc { get; set; }
 }
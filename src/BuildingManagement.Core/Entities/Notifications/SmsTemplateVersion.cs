@@ -0,0 +1,33 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace BuildingManagement.Core.Entities.Notifications;
+
+/// <summary>
+/// Earlier version of a reminder template. The template row always holds the current version; when the
+/// template editor saves a change, the previous name, body and subject are kept here so they can be restored.
+/// </summary>
+public class SmsTemplateVersion
+{
+    public int Id { get; set; }
+
+    public int TemplateId { get; set; }
+    public SmsTemplate Template { get; set; } = null!;
+
+    public int Version { get; set; }
+
+    [Required, MaxLength(200)]
+    public string Name { get; set; } = string.Empty;
+
+    [Required, MaxLength(1000)]
+    public string Body { get; set; } = string.Empty;
+
+    [MaxLength(300)]
+    public string? EmailSubject { get; set; }
+
+    /// <summary>Who saved this version (null for seeded templates).</summary>
+    [MaxLength(450)]
+    public string? CreatedByUserId { get; set; }
+
+    /// <summary>When this version was saved, not when it was replaced.</summary>
+    public DateTime CreatedAtUtc { get; set; }
+}
@@ -0,0 +1,62 @@
+using System.ComponentModel.DataAnnotations;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Core.Entities.Notifications;
+
+/// <summary>
+/// How a tenant wants to hear from the building. Ticket updates and messages go out on the preferred channel;
+/// an opted-out channel is never used, not even by a reminder campaign sent on it. Payment reminders and ticket
+/// updates can be turned off; during quiet hours nothing goes out by SMS, WhatsApp or push.
+/// </summary>
+public class TenantNotificationPreferences
+{
+    public int Id { get; set; }
+
+    public int TenantProfileId { get; set; }
+    public TenantProfile TenantProfile { get; set; } = null!;
+
+    /// <summary>Sms, Email, WhatsApp or Push — never Both</summary>
+    public ReminderChannel PreferredChannel { get; set; } = ReminderChannel.Email;
+
+    public bool SmsOptOut { get; set; }
+    public bool EmailOptOut { get; set; }
+    public bool WhatsAppOptOut { get; set; }
+    public bool PushOptOut { get; set; }
+
+    public bool PaymentReminders { get; set; } = true;
+    public bool TicketUpdates { get; set; } = true;
+
+    /// <summary>Start of quiet hours, Israel time; with <see cref="QuietHoursEnd"/> it may span midnight</summary>
+    public TimeOnly? QuietHoursStart { get; set; }
+    public TimeOnly? QuietHoursEnd { get; set; }
+
+    public DateTime UpdatedAtUtc { get; set; } = DateTime.UtcNow;
+
+    [MaxLength(450)]
+    public string? UpdatedByUserId { get; set; }
+
+    public bool IsOptedOut(ReminderChannel channel) => channel switch
+    {
+        ReminderChannel.Sms => SmsOptOut,
+        ReminderChannel.Email => EmailOptOut,
+        ReminderChannel.WhatsApp => WhatsAppOptOut,
+        ReminderChannel.Push => PushOptOut,
+        _ => SmsOptOut && EmailOptOut
+    };
+
+    /// <summary>Direct messages from the manager always go out; announcement consent is kept on the tenant profile.</summary>
+    public bool Wants(NotificationKind kind) => kind switch
+    {
+        NotificationKind.PaymentReminder => PaymentReminders,
+        NotificationKind.TicketUpdate => TicketUpdates,
+        _ => true
+    };
+
+    public bool IsQuietAt(TimeOnly localTime)
+    {
+        if (QuietHoursStart is not { } start || QuietHoursEnd is not { } end || start == end) return false;
+        return start < end
+            ? localTime >= start && localTime < end
+            : localTime >= start || localTime < end;
+    }
+}
@@ -0,0 +1,33 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace BuildingManagement.Core.Entities;
+
+/// <summary>
+/// A refresh token issued to one browser session. Only the SHA-256 hash is stored; the token itself lives in the
+/// browser's httpOnly cookie. Each refresh revokes the token and issues its replacement.
+/// </summary>
+public class RefreshToken
+{
+    public int Id { get; set; }
+
+    [Required, MaxLength(64)]
+    public string TokenHash { get; set; } = string.Empty;
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+    public ApplicationUser User { get; set; } = null!;
+
+    public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
+    public DateTime ExpiresAtUtc { get; set; }
+    public DateTime? RevokedAtUtc { get; set; }
+
+    /// <summary>Set when the token was rotated rather than revoked by logout.</summary>
+    [MaxLength(64)]
+    public string? ReplacedByTokenHash { get; set; }
+
+    [MaxLength(50)]
+    public string? CreatedByIp { get; set; }
+
+    [MaxLength(300)]
+    public string? UserAgent { get; set; }
+}
@@ -0,0 +1,31 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace BuildingManagement.Core.Entities;
+
+/// <summary>
+/// A named set of grid settings (filters, sort, page size, visible columns) saved by a user
+/// for one list page. GridKey identifies the page, e.g. "serviceRequests".
+/// </summary>
+public class SavedGridView
+{
+    public int Id { get; set; }
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+    public ApplicationUser User { get; set; } = null!;
+
+    [Required, MaxLength(100)]
+    public string GridKey { get; set; } = string.Empty;
+
+    [Required, MaxLength(100)]
+    public string Name { get; set; } = string.Empty;
+
+    [Required, MaxLength(4000)]
+    public string StateJson { get; set; } = "{}";
+
+    /// <summary>Applied automatically when the user opens the page. At most one per user and grid.</summary>
+    public bool IsDefault { get; set; }
+
+    public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
+    public DateTime UpdatedAtUtc { get; set; } = DateTime.UtcNow;
+}
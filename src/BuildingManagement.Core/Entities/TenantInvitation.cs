@@ -0,0 +1,40 @@
+using System.ComponentModel.DataAnnotations;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Core.Entities;
+
+/// <summary>
+/// A one-time sign-up link a manager sent to a tenant the building already knows. The link is bound to the tenant
+/// profile, so accepting it creates the account and links it to the unit without the tenant choosing one. Only the
+/// SHA-256 hash of the token is stored.
+/// </summary>
+public class TenantInvitation
+{
+    public int Id { get; set; }
+
+    [Required, MaxLength(64)]
+    public string TokenHash { get; set; } = string.Empty;
+
+    public int TenantProfileId { get; set; }
+    public TenantProfile TenantProfile { get; set; } = null!;
+
+    /// <summary>Sms or Email</summary>
+    public ReminderChannel Channel { get; set; }
+
+    /// <summary>The phone number or email address the link went to.</summary>
+    [Required, MaxLength(200)]
+    public string SentTo { get; set; } = string.Empty;
+
+    [MaxLength(5)]
+    public string Language { get; set; } = "he";
+
+    [MaxLength(450)]
+    public string? InvitedByUserId { get; set; }
+
+    public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
+    public DateTime ExpiresAtUtc { get; set; }
+    public DateTime? AcceptedAtUtc { get; set; }
+
+    /// <summary>Set when a newer invitation replaced this one.</summary>
+    public DateTime? RevokedAtUtc { get; set; }
+}
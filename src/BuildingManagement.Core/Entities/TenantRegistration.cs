@@ -0,0 +1,53 @@
+using System.ComponentModel.DataAnnotations;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Core.Entities;
+
+/// <summary>
+/// A self-registration waiting for a manager. The tenant's account exists, but it is linked to a unit only when a
+/// manager approves the request, possibly correcting the apartment the tenant typed.
+/// </summary>
+public class TenantRegistration : BaseEntity
+{
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+    public ApplicationUser User { get; set; } = null!;
+
+    public int BuildingId { get; set; }
+    public Building Building { get; set; } = null!;
+
+    /// <summary>The apartment as the tenant typed it.</summary>
+    [Required, MaxLength(20)]
+    public string ApartmentNumber { get; set; } = string.Empty;
+
+    public int? Floor { get; set; }
+
+    public PropertyRole PropertyRole { get; set; } = PropertyRole.Renter;
+
+    public bool IsCommitteeMember { get; set; }
+
+    public bool MarketingConsent { get; set; }
+
+    public DateTime TermsAcceptedAtUtc { get; set; }
+
+    /// <summary>Where the terms were accepted from, for the consent log written on approval.</summary>
+    [MaxLength(64)]
+    public string? IpAddress { get; set; }
+
+    [MaxLength(300)]
+    public string? UserAgent { get; set; }
+
+    public TenantRegistrationStatus Status { get; set; } = TenantRegistrationStatus.Pending;
+
+    /// <summary>The unit the manager linked the tenant to on approval.</summary>
+    public int? UnitId { get; set; }
+    public Unit? Unit { get; set; }
+
+    [MaxLength(450)]
+    public string? ReviewedByUserId { get; set; }
+
+    public DateTime? ReviewedAtUtc { get; set; }
+
+    [MaxLength(500)]
+    public string? RejectionReason { get; set; }
+}
@@ -0,0 +1,29 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace BuildingManagement.Core.Entities;
+
+/// <summary>
+/// A browser where the user passed two-factor verification and ticked "remember this device". Logins from it skip
+/// the code until ExpiresAtUtc. Only the SHA-256 hash of the device cookie is stored.
+/// </summary>
+public class TrustedDevice
+{
+    public int Id { get; set; }
+
+    [Required, MaxLength(64)]
+    public string TokenHash { get; set; } = string.Empty;
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+    public ApplicationUser User { get; set; } = null!;
+
+    public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
+    public DateTime ExpiresAtUtc { get; set; }
+    public DateTime? LastUsedAtUtc { get; set; }
+
+    [MaxLength(50)]
+    public string? IpAddress { get; set; }
+
+    [MaxLength(300)]
+    public string? UserAgent { get; set; }
+}
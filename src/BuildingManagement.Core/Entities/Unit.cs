@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations;
+using BuildingManagement.Core.Enums;
 
 namespace BuildingManagement.Core.Entities;
 
@@ -16,7 +17,23 @@ public class Unit : BaseEntity
     [MaxLength(200)]
     public string? OwnerName { get; set; }
 
+    [MaxLength(30)]
+    public string? OwnerPhone { get; set; }
+
+    [MaxLength(200)]
+    public string? OwnerEmail { get; set; }
+
+    // Owner's portal account, when the owner is billed separately from the resident
+    public string? OwnerUserId { get; set; }
+    public ApplicationUser? OwnerUser { get; set; }
+
     // Tenant user linked to this unit
     public string? TenantUserId { get; set; }
     public ApplicationUser? TenantUser { get; set; }
+
+    /// <summary>Who pays the monthly HOA fee</summary>
+    public BillingParty HOAFeePayer { get; set; } = BillingParty.Resident;
+
+    /// <summary>Who pays special assessment installments. Late fees follow the charge they were assessed on.</summary>
+    public BillingParty SpecialAssessmentPayer { get; set; } = BillingParty.Resident;
 }
@@ -0,0 +1,26 @@
+using System.ComponentModel.DataAnnotations;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Core.Entities;
+
+/// <summary>
+/// A permission an admin granted on top of what the user's role gives: an action on a resource, in one building or
+/// (BuildingId null) in every building.
+/// </summary>
+public class UserPermission
+{
+    public int Id { get; set; }
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+    public ApplicationUser User { get; set; } = null!;
+
+    public PermissionResource Resource { get; set; }
+    public PermissionAction Action { get; set; }
+
+    public int? BuildingId { get; set; }
+    public Building? Building { get; set; }
+
+    public string? GrantedByUserId { get; set; }
+    public DateTime GrantedAtUtc { get; set; } = DateTime.UtcNow;
+}
@@ -111,6 +111,65 @@ public enum UnitChargeStatus
     Cancelled = 4
 }
 
+public enum UnitChargeType
+{
+    HOAMonthlyFee = 0,
+    LateFee = 1,
+    SpecialAssessment = 2
+}
+
+public enum LateFeeType
+{
+    /// <summary>One-time flat fee per overdue charge</summary>
+    FixedAmount = 0,
+    /// <summary>Percentage of the outstanding balance, added every month the charge stays unpaid</summary>
+    MonthlyPercentage = 1
+}
+
+public enum AssessmentAllocationMethod
+{
+    /// <summary>Budget split in proportion to unit size</summary>
+    BySqm = 0,
+    /// <summary>Budget split equally between all units</summary>
+    EqualPerUnit = 1
+}
+
+public enum SpecialAssessmentStatus
+{
+    Draft = 0,
+    Active = 1,
+    Cancelled = 2
+}
+
+public enum BudgetStatus
+{
+    Draft = 0,
+    Approved = 1
+}
+
+public enum BudgetLineType
+{
+    Income = 0,
+    Expense = 1
+}
+
+public enum PaymentPlanStatus
+{
+    Requested = 0,
+    Active = 1,
+    Defaulted = 2,
+    Completed = 3,
+    Rejected = 4,
+    Cancelled = 5
+}
+
+public enum PaymentPlanInstallmentStatus
+{
+    Pending = 0,
+    Paid = 1,
+    Missed = 2
+}
+
 public enum PaymentMethodType
 {
     CreditCard = 0,
@@ -183,6 +242,17 @@ public enum ProviderFeatures
     StandingOrders = 32
 }
 
+/// <summary>Outcome the Fake provider simulates for hosted checkouts and token charges.</summary>
+public enum PaymentSimulatorScenario
+{
+    Approve = 0,
+    Decline = 1,
+    ThreeDSecure = 2,
+    Timeout = 3,
+    WebhookDelay = 4,
+    DuplicateWebhook = 5
+}
+
 public enum StandingOrderStatus
 {
     Active = 0,
@@ -196,7 +266,45 @@ public enum ReminderChannel
 {
     Sms = 0,
     Email = 1,
-    Both = 2
+    /// <summary>SMS and email together</summary>
+    Both = 2,
+    /// <summary>WhatsApp Business template message to the phone number</summary>
+    WhatsApp = 3,
+    /// <summary>Web push to the browsers and installed apps the tenant enabled notifications on</summary>
+    Push = 4
+}
+
+/// <summary>What a notification to a tenant is about; picks the WhatsApp template it goes out with.</summary>
+public enum NotificationKind
+{
+    PaymentReminder = 0,
+    TicketUpdate = 1,
+    TenantMessage = 2,
+    /// <summary>A notice to every tenant of a building; only sent to tenants who agreed to receive updates</summary>
+    BuildingAnnouncement = 3
+}
+
+/// <summary>What the SMS or email provider reported back about a message it accepted.</summary>
+public enum MessageDeliveryStatus
+{
+    /// <summary>Accepted by the provider, no delivery receipt yet</summary>
+    Pending = 0,
+    Delivered = 1,
+    /// <summary>The carrier or mail server gave up (phone off too long, blocked, mailbox full)</summary>
+    Undelivered = 2,
+    /// <summary>Permanently rejected: unknown number or address</summary>
+    Bounced = 3
+}
+
+/// <summary>What a dunning step does once a charge has been unpaid for its number of days.</summary>
+public enum DunningAction
+{
+    Sms = 0,
+    Email = 1,
+    /// <summary>Formal notice letter: emailed when an address is known, printable from the unit's timeline</summary>
+    FormalLetter = 2,
+    /// <summary>Emails the building's committee members; the debtor is not contacted</summary>
+    CommitteeEscalation = 3
 }
 
 public enum VendorInvoiceStatus
@@ -216,6 +324,21 @@ public enum VendorPaymentMethod
     Other = 99
 }
 
+public enum BankStatementFormat
+{
+    Auto = 0,
+    Csv = 1,
+    Mt940 = 2
+}
+
+public enum BankStatementLineStatus
+{
+    Unmatched = 0,
+    Suggested = 1,
+    Confirmed = 2,
+    Ignored = 3
+}
+
 public enum PropertyRole
 {
     Owner = 0,       // בעלים
@@ -223,6 +346,40 @@ public enum PropertyRole
     Renter = 2       // שוכר
 }
 
+public enum TenantRegistrationStatus
+{
+    Pending = 0,
+    Approved = 1,
+    Rejected = 2
+}
+
+public enum BillingParty
+{
+    Resident = 0,    // דייר – whoever lives in the unit
+    Owner = 1        // בעל הדירה
+}
+
+public enum StatementLineType
+{
+    Charge = 0,
+    Adjustment = 1,  // amount changed or late fee waived
+    Payment = 2,
+    Refund = 3
+}
+
+public enum PaymentRefundType
+{
+    Refund = 0,      // issued by a manager
+    Chargeback = 1   // payer disputed the payment with their card issuer
+}
+
+public enum ChargebackStatus
+{
+    Open = 0,
+    Won = 1,         // dispute decided for the building, funds returned
+    Lost = 2
+}
+
 public enum TicketMessageSender
 {
     Tenant = 0,
@@ -230,12 +387,35 @@ public enum TicketMessageSender
     Manager = 2
 }
 
+/// <summary>A group of pages and the API endpoints behind them that a permission covers.</summary>
+public enum PermissionResource
+{
+    Buildings = 0,       // buildings, units, assets and the dashboard
+    Maintenance = 1,     // service requests, work orders, schedule, cleaning plans, jobs
+    Vendors = 2,
+    Tenants = 3,         // tenant profiles, messages, notification preferences, onboarding
+    Finance = 4,         // HOA, payments, budgets, bank reconciliation, vendor invoices, dunning
+    Reports = 5,         // collection status, aging, income & expenses, budget vs. actual
+    Communications = 6,  // payment reminders and their templates
+    Users = 7            // roles and permissions of other users
+}
+
+public enum PermissionAction
+{
+    View = 0,
+    Manage = 1   // includes View
+}
+
 public static class AppRoles
 {
     public const string Admin = "Admin";
     public const string Manager = "Manager";
+    public const string Bookkeeper = "Bookkeeper";
     public const string Tenant = "Tenant";
     public const string Vendor = "Vendor";
 
-    public static readonly string[] All = [Admin, Manager, Tenant, Vendor];
+    public static readonly string[] All = [Admin, Manager, Bookkeeper, Tenant, Vendor];
+
+    /// <summary>Roles an admin can give a staff account; what they can do comes from permissions.</summary>
+    public static readonly string[] Staff = [Admin, Manager, Bookkeeper];
 }
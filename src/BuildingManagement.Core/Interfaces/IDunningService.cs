@@ -0,0 +1,17 @@
+using BuildingManagement.Core.DTOs;
+
+namespace BuildingManagement.Core.Interfaces;
+
+public record DunningRunResult(int BuildingsProcessed, int NoticesSent, int NoticesFailed, int NoticesSkipped, string Message);
+
+public interface IDunningService
+{
+    /// <summary>
+    /// Sends each debtor the latest step of their building's dunning schedule that their oldest unpaid charge
+    /// has reached. Safe to run repeatedly: a step is sent once per charge, and never after a later one.
+    /// </summary>
+    Task<DunningRunResult> RunAsync(int? buildingId = null, CancellationToken ct = default);
+
+    /// <summary>Debtors of a building with overdue charges and the dunning steps they have reached.</summary>
+    Task<List<DunningDebtorDto>> GetDebtorsAsync(int buildingId, CancellationToken ct = default);
+}
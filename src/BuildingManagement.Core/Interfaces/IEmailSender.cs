@@ -6,4 +6,7 @@ public interface IEmailSender
 {
     string ProviderName { get; }
     Task<EmailSendResult> SendAsync(string toEmail, string subject, string htmlBody, CancellationToken ct = default);
+
+    /// <summary>Delivery and bounce receipts in the body of a status callback; empty when the payload holds none.</summary>
+    IReadOnlyList<DeliveryReceipt> ParseDeliveryReceipts(string payload);
 }
@@ -0,0 +1,12 @@
+namespace BuildingManagement.Core.Interfaces;
+
+public record LateFeeRunResult(int BuildingsProcessed, int ChargesMarkedOverdue, int FeesCreated, decimal TotalFees, string Message);
+
+public interface ILateFeeService
+{
+    /// <summary>
+    /// Mark past-due HOA charges as overdue and raise late fees per each building's rule.
+    /// Safe to run repeatedly: a charge never gets two fees for the same month.
+    /// </summary>
+    Task<LateFeeRunResult> ApplyLateFeesAsync(int? buildingId = null, CancellationToken ct = default);
+}
@@ -18,12 +18,14 @@ public record CreatePaymentSessionRequest(
     string WebhookUrl,
     string? IdempotencyKey = null);
 
+/// <summary>Completed: the provider captured the payment already (Fake approve flow), so no webhook follows.</summary>
 public record PaymentSessionResult(
     bool Success,
     string? PaymentUrl,
     string? SessionId,
     string? ProviderReference,
-    string? Error = null);
+    string? Error = null,
+    bool Completed = false);
 
 public record TokenizeRequest(
     int BuildingId,
@@ -80,7 +82,26 @@ public record WebhookParseResult(
     string? CardBrand,
     string? ProviderCustomerId,
     string? RawSignature,
-    string? Error = null);
+    string? Error = null,
+    WebhookDispute? Dispute = null,
+    WebhookSubscriptionUpdate? Subscription = null);
+
+/// <summary>
+/// Standing order (subscription) event. Status is the order's new status, if it changed;
+/// AmountApproved means the payer accepted a pending amount change.
+/// </summary>
+public record WebhookSubscriptionUpdate(
+    string SubscriptionId,
+    StandingOrderStatus? Status,
+    bool ChargeFailed = false,
+    bool AmountApproved = false);
+
+/// <summary>Chargeback reported in a webhook. ProviderReference of the parse result is the disputed payment.</summary>
+public record WebhookDispute(
+    string DisputeId,
+    decimal? Amount,
+    string? Reason,
+    ChargebackStatus Status);
 
 // ─── Gateway interface ──────────────────────────────────
 
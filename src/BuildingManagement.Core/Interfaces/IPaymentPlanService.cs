@@ -0,0 +1,12 @@
+namespace BuildingManagement.Core.Interfaces;
+
+public record PaymentPlanCheckResult(int PlansChecked, int PlansDefaulted, int PlansCompleted, int InstallmentsMissed, string Message);
+
+public interface IPaymentPlanService
+{
+    /// <summary>
+    /// Re-check adherence of active and defaulted payment plans: apply what has been paid on the
+    /// consolidated charges to the installments, flag missed installments and close settled plans.
+    /// </summary>
+    Task<PaymentPlanCheckResult> CheckAdherenceAsync(int? buildingId = null, CancellationToken ct = default);
+}
@@ -0,0 +1,17 @@
+namespace BuildingManagement.Core.Interfaces;
+
+/// <summary>A browser's push subscription, as returned by <c>PushManager.subscribe</c>.</summary>
+public record PushTarget(string Endpoint, string P256dh, string Auth);
+
+/// <param name="SubscriptionGone">The push service no longer knows the subscription; it should be deleted.</param>
+public record PushSendResult(bool Success, string? MessageId = null, string? Error = null, bool SubscriptionGone = false);
+
+public interface IPushSender
+{
+    string ProviderName { get; }
+
+    /// <summary>Public VAPID key browsers subscribe with; null when push is not configured.</summary>
+    string? PublicKey { get; }
+
+    Task<PushSendResult> SendAsync(PushTarget target, string title, string body, string? url, CancellationToken ct = default);
+}
@@ -1,9 +1,17 @@
+using BuildingManagement.Core.Enums;
+
 namespace BuildingManagement.Core.Interfaces;
 
 public record SmsSendResult(bool Success, string? MessageId = null, string? Error = null);
 
+/// <summary>A delivery receipt from the provider's status callback, matched to the message by its provider id.</summary>
+public record DeliveryReceipt(string MessageId, MessageDeliveryStatus Status, string? Error = null, DateTime? OccurredAtUtc = null);
+
 public interface ISmsSender
 {
     string ProviderName { get; }
     Task<SmsSendResult> SendAsync(string toPhoneE164, string message, CancellationToken ct = default);
+
+    /// <summary>Delivery receipts in the body of a status callback; empty when the payload holds none.</summary>
+    IReadOnlyList<DeliveryReceipt> ParseDeliveryReceipts(string payload);
 }
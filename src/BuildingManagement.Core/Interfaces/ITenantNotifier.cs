@@ -0,0 +1,36 @@
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Core.Interfaces;
+
+/// <param name="Url">Absolute link into the app, appended to SMS, email and push and opened by a push click.</param>
+/// <param name="WhatsAppParameters">Body parameters of the WhatsApp template for <paramref name="Kind"/>, in order.</param>
+public record TenantNotification(NotificationKind Kind, string Title, string Body, string? Url, IReadOnlyList<string> WhatsAppParameters);
+
+/// <param name="Language">The tenant's preferred language, "he" or "en"</param>
+public record NotificationRecipient(string FullName, string Language);
+
+public record TenantNotifyResult(bool Sent, ReminderChannel? Channel = null, string? Error = null);
+
+public interface ITenantNotifier
+{
+    /// <summary>
+    /// Sends a notification to a tenant on their preferred channel (email until they choose one). Nothing goes out
+    /// when they opted out of that channel or of the kind of notification, or have no address for the channel; the
+    /// in-app message or ticket is still there. During their quiet hours it goes by email instead, if they take email.
+    /// Never throws: a failed send is reported in the result.
+    /// </summary>
+    Task<TenantNotifyResult> NotifyAsync(int tenantProfileId, TenantNotification notification, CancellationToken ct = default);
+
+    /// <summary>As above, with the text built for the tenant, in their preferred language.</summary>
+    Task<TenantNotifyResult> NotifyAsync(int tenantProfileId, Func<NotificationRecipient, TenantNotification> build, CancellationToken ct = default);
+
+    /// <summary>
+    /// Notifies the user as tenant of the building, preferring their tenancy of <paramref name="unitId"/>.
+    /// Null when they are not an active tenant there, e.g. a unit owner or a staff member.
+    /// </summary>
+    Task<TenantNotifyResult?> NotifyUserAsync(string userId, int buildingId, int? unitId, Func<NotificationRecipient, TenantNotification> build,
+        CancellationToken ct = default);
+
+    /// <summary>Pushes to every device the user subscribed; subscriptions the push service dropped are deleted.</summary>
+    Task<PushSendResult> PushToUserAsync(string userId, string title, string body, string? url, CancellationToken ct = default);
+}
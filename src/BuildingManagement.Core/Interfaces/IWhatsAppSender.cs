@@ -0,0 +1,20 @@
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Core.Interfaces;
+
+public record WhatsAppSendResult(bool Success, string? MessageId = null, string? Error = null);
+
+/// <summary>
+/// WhatsApp Business messages. Outside a conversation the tenant started, WhatsApp only delivers templates
+/// approved in advance, so every notification goes out as the template configured for its kind, filled with
+/// positional body parameters ({{1}}, {{2}}, ...).
+/// </summary>
+public interface IWhatsAppSender
+{
+    string ProviderName { get; }
+    Task<WhatsAppSendResult> SendTemplateAsync(string toPhoneE164, NotificationKind kind, string language,
+        IReadOnlyList<string> parameters, CancellationToken ct = default);
+
+    /// <summary>Delivery receipts in the body of a status callback; empty when the payload holds none.</summary>
+    IReadOnlyList<DeliveryReceipt> ParseDeliveryReceipts(string payload);
+}
@@ -29,6 +29,12 @@ public class AppDbContext : IdentityDbContext<ApplicationUser>
     public DbSet<IncidentGroup> IncidentGroups => Set<IncidentGroup>();
     public DbSet<TicketReadReceipt> TicketReadReceipts => Set<TicketReadReceipt>();
     public DbSet<TenantMessage> TenantMessages => Set<TenantMessage>();
+    public DbSet<SavedGridView> SavedGridViews => Set<SavedGridView>();
+    public DbSet<RefreshToken> RefreshTokens => Set<RefreshToken>();
+    public DbSet<TrustedDevice> TrustedDevices => Set<TrustedDevice>();
+    public DbSet<UserPermission> UserPermissions => Set<UserPermission>();
+    public DbSet<TenantInvitation> TenantInvitations => Set<TenantInvitation>();
+    public DbSet<TenantRegistration> TenantRegistrations => Set<TenantRegistration>();
 
     // Finance
     public DbSet<HOAFeePlan> HOAFeePlans => Set<HOAFeePlan>();
@@ -43,11 +49,30 @@ public class AppDbContext : IdentityDbContext<ApplicationUser>
     public DbSet<VendorPayment> VendorPayments => Set<VendorPayment>();
     public DbSet<StandingOrder> StandingOrders => Set<StandingOrder>();
     public DbSet<ManagerInvoice> ManagerInvoices => Set<ManagerInvoice>();
+    public DbSet<BankStatementImport> BankStatementImports => Set<BankStatementImport>();
+    public DbSet<BankStatementLine> BankStatementLines => Set<BankStatementLine>();
+    public DbSet<LateFeeRule> LateFeeRules => Set<LateFeeRule>();
+    public DbSet<SpecialAssessment> SpecialAssessments => Set<SpecialAssessment>();
+    public DbSet<SpecialAssessmentShare> SpecialAssessmentShares => Set<SpecialAssessmentShare>();
+    public DbSet<BuildingBudget> BuildingBudgets => Set<BuildingBudget>();
+    public DbSet<BudgetLine> BudgetLines => Set<BudgetLine>();
+    public DbSet<PaymentPlan> PaymentPlans => Set<PaymentPlan>();
+    public DbSet<PaymentPlanInstallment> PaymentPlanInstallments => Set<PaymentPlanInstallment>();
+    public DbSet<PaymentPlanCharge> PaymentPlanCharges => Set<PaymentPlanCharge>();
+    public DbSet<PaymentRefund> PaymentRefunds => Set<PaymentRefund>();
+    public DbSet<PaymentRefundAllocation> PaymentRefundAllocations => Set<PaymentRefundAllocation>();
 
     // Notifications
     public DbSet<SmsTemplate> SmsTemplates => Set<SmsTemplate>();
+    public DbSet<SmsTemplateVersion> SmsTemplateVersions => Set<SmsTemplateVersion>();
     public DbSet<SmsCampaign> SmsCampaigns => Set<SmsCampaign>();
     public DbSet<SmsCampaignRecipient> SmsCampaignRecipients => Set<SmsCampaignRecipient>();
+    public DbSet<SmsCampaignDelivery> SmsCampaignDeliveries => Set<SmsCampaignDelivery>();
+    public DbSet<TenantNotificationPreferences> TenantNotificationPreferences => Set<TenantNotificationPreferences>();
+    public DbSet<PushSubscription> PushSubscriptions => Set<PushSubscription>();
+    public DbSet<NotificationConsentLog> NotificationConsentLogs => Set<NotificationConsentLog>();
+    public DbSet<DunningStep> DunningSteps => Set<DunningStep>();
+    public DbSet<DunningNotice> DunningNotices => Set<DunningNotice>();
 
     protected override void OnModelCreating(ModelBuilder builder)
     {
@@ -63,6 +88,7 @@ public class AppDbContext : IdentityDbContext<ApplicationUser>
         builder.Entity<PreventivePlan>().HasQueryFilter(e => !e.IsDeleted);
         builder.Entity<CleaningPlan>().HasQueryFilter(e => !e.IsDeleted);
         builder.Entity<TenantProfile>().HasQueryFilter(e => !e.IsDeleted);
+        builder.Entity<TenantRegistration>().HasQueryFilter(e => !e.IsDeleted);
         builder.Entity<VendorInvoice>().HasQueryFilter(e => !e.IsDeleted);
 
         // Building -> Units
@@ -78,6 +104,12 @@ public class AppDbContext : IdentityDbContext<ApplicationUser>
             .HasForeignKey(u => u.TenantUserId)
             .OnDelete(DeleteBehavior.SetNull);
 
+        builder.Entity<Unit>()
+            .HasOne(u => u.OwnerUser)
+            .WithMany(au => au.OwnedUnits)
+            .HasForeignKey(u => u.OwnerUserId)
+            .OnDelete(DeleteBehavior.SetNull);
+
         // BuildingManager join table
         builder.Entity<BuildingManager>()
             .HasOne(bm => bm.User)
@@ -254,6 +286,56 @@ public class AppDbContext : IdentityDbContext<ApplicationUser>
             .HasForeignKey(u => u.VendorId)
             .OnDelete(DeleteBehavior.SetNull);
 
+        // ─── Saved Grid Views ────────────────────────────────
+
+        builder.Entity<SavedGridView>()
+            .HasOne(v => v.User)
+            .WithMany()
+            .HasForeignKey(v => v.UserId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<SavedGridView>()
+            .HasIndex(v => new { v.UserId, v.GridKey, v.Name }).IsUnique();
+
+        // ─── RefreshToken ────────────────────────────────────
+
+        builder.Entity<RefreshToken>()
+            .HasIndex(t => t.TokenHash).IsUnique();
+
+        builder.Entity<RefreshToken>()
+            .HasOne(t => t.User)
+            .WithMany()
+            .HasForeignKey(t => t.UserId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        // ─── TrustedDevice ───────────────────────────────────
+
+        builder.Entity<TrustedDevice>()
+            .HasIndex(d => d.TokenHash).IsUnique();
+
+        builder.Entity<TrustedDevice>()
+            .HasOne(d => d.User)
+            .WithMany()
+            .HasForeignKey(d => d.UserId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        // ─── UserPermission ──────────────────────────────────
+
+        builder.Entity<UserPermission>()
+            .HasOne(p => p.User)
+            .WithMany()
+            .HasForeignKey(p => p.UserId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<UserPermission>()
+            .HasOne(p => p.Building)
+            .WithMany()
+            .HasForeignKey(p => p.BuildingId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<UserPermission>()
+            .HasIndex(p => new { p.UserId, p.Resource, p.Action, p.BuildingId }).IsUnique();
+
         // ─── TenantProfile ───────────────────────────────────
 
         builder.Entity<TenantProfile>()
@@ -271,6 +353,38 @@ public class AppDbContext : IdentityDbContext<ApplicationUser>
         builder.Entity<TenantProfile>()
             .HasIndex(tp => new { tp.UnitId, tp.IsActive });
 
+        // ─── Tenant onboarding ───────────────────────────────
+
+        builder.Entity<TenantInvitation>()
+            .HasIndex(i => i.TokenHash).IsUnique();
+
+        builder.Entity<TenantInvitation>()
+            .HasOne(i => i.TenantProfile)
+            .WithMany()
+            .HasForeignKey(i => i.TenantProfileId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<TenantRegistration>()
+            .HasOne(r => r.User)
+            .WithMany()
+            .HasForeignKey(r => r.UserId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<TenantRegistration>()
+            .HasOne(r => r.Building)
+            .WithMany()
+            .HasForeignKey(r => r.BuildingId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        builder.Entity<TenantRegistration>()
+            .HasOne(r => r.Unit)
+            .WithMany()
+            .HasForeignKey(r => r.UnitId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        builder.Entity<TenantRegistration>()
+            .HasIndex(r => new { r.BuildingId, r.Status });
+
         // ─── Finance Entities ────────────────────────────────
 
         builder.Entity<HOAFeePlan>()
@@ -296,8 +410,119 @@ public class AppDbContext : IdentityDbContext<ApplicationUser>
             .HasForeignKey(uc => uc.HOAFeePlanId)
             .OnDelete(DeleteBehavior.Restrict);
 
+        // One monthly HOA charge per unit + plan + period; late fees are unique per source charge + assessment month
+        builder.Entity<UnitCharge>()
+            .HasIndex(uc => new { uc.UnitId, uc.HOAFeePlanId, uc.Period }).IsUnique()
+            .HasFilter("[ChargeType] = 0");
+
         builder.Entity<UnitCharge>()
-            .HasIndex(uc => new { uc.UnitId, uc.HOAFeePlanId, uc.Period }).IsUnique();
+            .HasOne(uc => uc.SourceCharge)
+            .WithMany()
+            .HasForeignKey(uc => uc.SourceChargeId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        builder.Entity<UnitCharge>()
+            .HasIndex(uc => new { uc.SourceChargeId, uc.Period }).IsUnique()
+            .HasFilter("[SourceChargeId] IS NOT NULL");
+
+        builder.Entity<LateFeeRule>()
+            .HasOne(r => r.Building)
+            .WithMany()
+            .HasForeignKey(r => r.BuildingId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<LateFeeRule>()
+            .HasIndex(r => r.BuildingId).IsUnique();
+
+        builder.Entity<UnitCharge>()
+            .HasOne(uc => uc.SpecialAssessment)
+            .WithMany(sa => sa.Charges)
+            .HasForeignKey(uc => uc.SpecialAssessmentId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        // One installment per unit per assessment month
+        builder.Entity<UnitCharge>()
+            .HasIndex(uc => new { uc.SpecialAssessmentId, uc.UnitId, uc.Period }).IsUnique()
+            .HasFilter("[SpecialAssessmentId] IS NOT NULL");
+
+        builder.Entity<SpecialAssessment>()
+            .HasOne(sa => sa.Building)
+            .WithMany()
+            .HasForeignKey(sa => sa.BuildingId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        builder.Entity<SpecialAssessmentShare>()
+            .HasOne(s => s.SpecialAssessment)
+            .WithMany(sa => sa.Shares)
+            .HasForeignKey(s => s.SpecialAssessmentId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<SpecialAssessmentShare>()
+            .HasOne(s => s.Unit)
+            .WithMany()
+            .HasForeignKey(s => s.UnitId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        builder.Entity<SpecialAssessmentShare>()
+            .HasIndex(s => new { s.SpecialAssessmentId, s.UnitId }).IsUnique();
+
+        // One budget per building per year
+        builder.Entity<BuildingBudget>()
+            .HasOne(b => b.Building)
+            .WithMany()
+            .HasForeignKey(b => b.BuildingId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        builder.Entity<BuildingBudget>()
+            .HasIndex(b => new { b.BuildingId, b.Year }).IsUnique();
+
+        builder.Entity<BudgetLine>()
+            .HasOne(l => l.BuildingBudget)
+            .WithMany(b => b.Lines)
+            .HasForeignKey(l => l.BuildingBudgetId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<BudgetLine>()
+            .HasIndex(l => new { l.BuildingBudgetId, l.Category, l.Month }).IsUnique();
+
+        builder.Entity<PaymentPlan>()
+            .HasOne(p => p.Building)
+            .WithMany()
+            .HasForeignKey(p => p.BuildingId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        builder.Entity<PaymentPlan>()
+            .HasOne(p => p.Unit)
+            .WithMany()
+            .HasForeignKey(p => p.UnitId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        builder.Entity<PaymentPlan>()
+            .HasOne(p => p.StandingOrder)
+            .WithMany()
+            .HasForeignKey(p => p.StandingOrderId)
+            .OnDelete(DeleteBehavior.SetNull);
+
+        builder.Entity<PaymentPlanInstallment>()
+            .HasOne(i => i.PaymentPlan)
+            .WithMany(p => p.Installments)
+            .HasForeignKey(i => i.PaymentPlanId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<PaymentPlanInstallment>()
+            .HasIndex(i => new { i.PaymentPlanId, i.InstallmentNumber }).IsUnique();
+
+        builder.Entity<PaymentPlanCharge>()
+            .HasOne(pc => pc.PaymentPlan)
+            .WithMany(p => p.Charges)
+            .HasForeignKey(pc => pc.PaymentPlanId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<PaymentPlanCharge>()
+            .HasOne(pc => pc.UnitCharge)
+            .WithMany()
+            .HasForeignKey(pc => pc.UnitChargeId)
+            .OnDelete(DeleteBehavior.Restrict);
 
         builder.Entity<PaymentMethod>()
             .HasOne(pm => pm.User)
@@ -323,6 +548,12 @@ public class AppDbContext : IdentityDbContext<ApplicationUser>
             .HasForeignKey(p => p.PaymentMethodId)
             .OnDelete(DeleteBehavior.SetNull);
 
+        builder.Entity<Payment>()
+            .HasOne<SmsCampaignRecipient>()
+            .WithMany()
+            .HasForeignKey(p => p.CampaignRecipientId)
+            .OnDelete(DeleteBehavior.SetNull);
+
         builder.Entity<PaymentAllocation>()
             .HasOne(pa => pa.Payment)
             .WithMany(p => p.Allocations)
@@ -335,6 +566,42 @@ public class AppDbContext : IdentityDbContext<ApplicationUser>
             .HasForeignKey(pa => pa.UnitChargeId)
             .OnDelete(DeleteBehavior.Restrict);
 
+        builder.Entity<PaymentRefund>()
+            .HasOne(r => r.Payment)
+            .WithMany()
+            .HasForeignKey(r => r.PaymentId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        builder.Entity<PaymentRefund>()
+            .HasOne(r => r.Building)
+            .WithMany()
+            .HasForeignKey(r => r.BuildingId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        builder.Entity<PaymentRefund>()
+            .HasOne(r => r.Unit)
+            .WithMany()
+            .HasForeignKey(r => r.UnitId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        builder.Entity<PaymentRefund>()
+            .HasIndex(r => new { r.BuildingId, r.Type, r.ChargebackStatus });
+
+        builder.Entity<PaymentRefund>()
+            .HasIndex(r => r.ProviderReference);
+
+        builder.Entity<PaymentRefundAllocation>()
+            .HasOne(ra => ra.PaymentRefund)
+            .WithMany(r => r.Allocations)
+            .HasForeignKey(ra => ra.PaymentRefundId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<PaymentRefundAllocation>()
+            .HasOne(ra => ra.UnitCharge)
+            .WithMany()
+            .HasForeignKey(ra => ra.UnitChargeId)
+            .OnDelete(DeleteBehavior.Restrict);
+
         builder.Entity<LedgerEntry>()
             .HasOne(le => le.Building)
             .WithMany()
@@ -413,6 +680,88 @@ public class AppDbContext : IdentityDbContext<ApplicationUser>
             .HasForeignKey(r => r.CampaignId)
             .OnDelete(DeleteBehavior.Cascade);
 
+        builder.Entity<SmsCampaignDelivery>()
+            .HasOne(d => d.Recipient)
+            .WithMany(r => r.Deliveries)
+            .HasForeignKey(d => d.RecipientId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<SmsCampaignDelivery>()
+            .HasIndex(d => d.ProviderMessageId);
+
+        builder.Entity<TenantNotificationPreferences>()
+            .HasOne(p => p.TenantProfile)
+            .WithOne()
+            .HasForeignKey<TenantNotificationPreferences>(p => p.TenantProfileId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<PushSubscription>()
+            .HasOne(p => p.User)
+            .WithMany()
+            .HasForeignKey(p => p.UserId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<PushSubscription>()
+            .HasIndex(p => p.Endpoint)
+            .IsUnique();
+
+        builder.Entity<NotificationConsentLog>()
+            .HasOne(l => l.TenantProfile)
+            .WithMany()
+            .HasForeignKey(l => l.TenantProfileId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        builder.Entity<NotificationConsentLog>()
+            .HasIndex(l => new { l.TenantProfileId, l.ChangedAtUtc });
+
+        builder.Entity<SmsTemplateVersion>()
+            .HasOne(v => v.Template)
+            .WithMany(t => t.Versions)
+            .HasForeignKey(v => v.TemplateId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<SmsTemplateVersion>()
+            .HasIndex(v => new { v.TemplateId, v.Version })
+            .IsUnique();
+
+        // ─── Dunning ─────────────────────────────────────────
+
+        builder.Entity<DunningStep>()
+            .HasOne(s => s.Building)
+            .WithMany()
+            .HasForeignKey(s => s.BuildingId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<DunningStep>()
+            .HasOne(s => s.Template)
+            .WithMany()
+            .HasForeignKey(s => s.TemplateId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        builder.Entity<DunningStep>()
+            .HasIndex(s => new { s.BuildingId, s.DaysAfterDue });
+
+        builder.Entity<DunningNotice>()
+            .HasOne(n => n.Unit)
+            .WithMany()
+            .HasForeignKey(n => n.UnitId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        builder.Entity<DunningNotice>()
+            .HasOne(n => n.UnitCharge)
+            .WithMany()
+            .HasForeignKey(n => n.UnitChargeId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<DunningNotice>()
+            .HasOne(n => n.Step)
+            .WithMany()
+            .HasForeignKey(n => n.DunningStepId)
+            .OnDelete(DeleteBehavior.SetNull);
+
+        builder.Entity<DunningNotice>()
+            .HasIndex(n => new { n.UnitChargeId, n.Party });
+
         // ─── Standing Orders ──────────────────────────────────
 
         builder.Entity<StandingOrder>()
@@ -461,6 +810,45 @@ public class AppDbContext : IdentityDbContext<ApplicationUser>
             .HasIndex(mi => new { mi.ManagerUserId, mi.BuildingId, mi.Period })
             .IsUnique();
 
+        // ─── Bank Reconciliation ─────────────────────────────
+
+        builder.Entity<BankStatementImport>()
+            .HasOne(bi => bi.Building)
+            .WithMany()
+            .HasForeignKey(bi => bi.BuildingId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        builder.Entity<BankStatementLine>()
+            .HasOne(bl => bl.Import)
+            .WithMany(bi => bi.Lines)
+            .HasForeignKey(bl => bl.ImportId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.Entity<BankStatementLine>()
+            .HasOne(bl => bl.Building)
+            .WithMany()
+            .HasForeignKey(bl => bl.BuildingId)
+            .OnDelete(DeleteBehavior.Restrict);
+
+        builder.Entity<BankStatementLine>()
+            .HasOne(bl => bl.SuggestedUnitCharge)
+            .WithMany()
+            .HasForeignKey(bl => bl.SuggestedUnitChargeId)
+            .OnDelete(DeleteBehavior.SetNull);
+
+        builder.Entity<BankStatementLine>()
+            .HasOne(bl => bl.Payment)
+            .WithMany()
+            .HasForeignKey(bl => bl.PaymentId)
+            .OnDelete(DeleteBehavior.SetNull);
+
+        // Same transfer in overlapping exports is imported once per building
+        builder.Entity<BankStatementLine>()
+            .HasIndex(bl => new { bl.BuildingId, bl.Fingerprint }).IsUnique();
+
+        builder.Entity<BankStatementLine>()
+            .HasIndex(bl => new { bl.BuildingId, bl.Status });
+
         // Payment: unique receipt (at most one receipt per payment)
         builder.Entity<Payment>()
             .HasIndex(p => p.ReceiptDocId)
@@ -172,6 +172,16 @@ public static class DataSeeder
         };
         await CreateUserWithRole(userManager, vendorUser, devPassword, AppRoles.Vendor, logger);
 
+        var bookkeeperUser = new ApplicationUser
+        {
+            UserName = "bookkeeper@example.com",
+            Email = "bookkeeper@example.com",
+            EmailConfirmed = true,
+            FullName = "Dana Bookkeeper",
+            Phone = "050-0000005"
+        };
+        await CreateUserWithRole(userManager, bookkeeperUser, devPassword, AppRoles.Bookkeeper, logger);
+
         // Create tenant users for each unit and link them
         var tenantUsers = new Dictionary<string, ApplicationUser>();
         foreach (var (unitNum, info) in tenantNames)
@@ -211,6 +221,11 @@ public static class DataSeeder
             UserId = managerUser.Id,
             BuildingId = building1.Id
         });
+
+        // Bookkeeper keeps the books of building 1 and reads its reports
+        context.UserPermissions.AddRange(
+            new UserPermission { UserId = bookkeeperUser.Id, Resource = PermissionResource.Finance, Action = PermissionAction.Manage, BuildingId = building1.Id, GrantedByUserId = adminUser.Id },
+            new UserPermission { UserId = bookkeeperUser.Id, Resource = PermissionResource.Reports, Action = PermissionAction.View, BuildingId = building1.Id, GrantedByUserId = adminUser.Id });
         await context.SaveChangesAsync();
 
         // ─── Seed Tenant Profiles ────────────────────────────
@@ -234,6 +249,7 @@ public static class DataSeeder
                     Email = info.email,
                     MoveInDate = moveInDate,
                     IsActive = true,
+                    IsCommitteeMember = unit.UnitNumber == "101",
                     Notes = "Seeded tenant",
                     CreatedBy = "seed"
                 });
@@ -414,6 +430,22 @@ public static class DataSeeder
                     Body = "Hello {{FullName}}, reminder: HOA fees for {{BuildingName}} period {{Period}} have not been paid. Outstanding: {{Outstanding}} ILS. Pay now: {{PayLink}}",
                     EmailSubject = "HOA Payment Reminder – {{BuildingName}} – {{Period}}",
                     IsActive = true
+                },
+                new Core.Entities.Notifications.SmsTemplate
+                {
+                    Name = "מכתב התראה על חוב",
+                    Language = "he",
+                    Body = "לכבוד {{FullName}},\n\nהנדון: התראה על חוב דמי ועד בית – {{BuildingName}}\n\nלמרות תזכורות קודמות, החיוב לתקופה {{Period}} טרם שולם. היתרה הפתוחה עומדת על {{Outstanding}} ₪.\nנבקשך להסדיר את התשלום בהקדם: {{PayLink}}\n\nאי הסדרת החוב עלולה להוביל להעברת הטיפול לוועד הבית ולנקיטת צעדים נוספים.\n\nבכבוד רב,\nהנהלת הבניין",
+                    EmailSubject = "התראה על חוב דמי ועד בית – {{BuildingName}}",
+                    IsActive = true
+                },
+                new Core.Entities.Notifications.SmsTemplate
+                {
+                    Name = "Formal Notice of Debt",
+                    Language = "en",
+                    Body = "Dear {{FullName}},\n\nRe: Notice of unpaid HOA fees – {{BuildingName}}\n\nDespite earlier reminders, the charge for {{Period}} is still unpaid. Your outstanding balance is {{Outstanding}} ILS.\nPlease settle it as soon as possible: {{PayLink}}\n\nIf the debt is not settled, the matter may be referred to the building committee for further action.\n\nSincerely,\nBuilding Management",
+                    EmailSubject = "Notice of unpaid HOA fees – {{BuildingName}}",
+                    IsActive = true
                 }
             );
             await context.SaveChangesAsync();
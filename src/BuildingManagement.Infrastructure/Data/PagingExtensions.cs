@@ -0,0 +1,78 @@
+using System.Linq.Expressions;
+using BuildingManagement.Core.DTOs;
+using Microsoft.EntityFrameworkCore;
+
+namespace BuildingManagement.Infrastructure.Data;
+
+/// <summary>
+/// Server-side sorting and paging for list endpoints. Each endpoint declares which columns
+/// may be sorted, so clients can't order by arbitrary (unindexed or private) properties.
+/// </summary>
+public static class PagingExtensions
+{
+    /// <summary>
+    /// Orders by the requested column when it is in <paramref name="sortable"/>, otherwise falls
+    /// back to <paramref name="defaultOrder"/>. Id is always the tie-breaker so pages are stable.
+    /// </summary>
+    public static IQueryable<T> ApplySort<T>(
+        this IQueryable<T> query,
+        PagedQuery paging,
+        IReadOnlyDictionary<string, Expression<Func<T, object?>>> sortable,
+        Func<IQueryable<T>, IOrderedQueryable<T>> defaultOrder,
+        Expression<Func<T, int>> idSelector)
+    {
+        if (paging.SortBy == null || !sortable.TryGetValue(paging.SortBy, out var key))
+            return defaultOrder(query).ThenBy(idSelector);
+
+        var ordered = paging.Descending ? query.OrderByDescending(key) : query.OrderBy(key);
+        return ordered.ThenBy(idSelector);
+    }
+
+    public static Task<PagedResult<TDto>> ToPagedResultAsync<T, TDto>(
+        this IQueryable<T> query,
+        PagedQuery paging,
+        Func<List<T>, List<TDto>> map,
+        CancellationToken ct = default) =>
+        query.ToPagedResultAsync(paging, items => Task.FromResult(map(items)), ct);
+
+    /// <summary>Variant for DTO mapping that needs extra lookups for the page (read receipts, names).</summary>
+    public static async Task<PagedResult<TDto>> ToPagedResultAsync<T, TDto>(
+        this IQueryable<T> query,
+        PagedQuery paging,
+        Func<List<T>, Task<List<TDto>>> map,
+        CancellationToken ct = default)
+    {
+        var page = Math.Max(1, paging.Page);
+        var pageSize = Math.Clamp(paging.PageSize, 1, PagedQuery.MaxPageSize);
+
+        var total = await query.CountAsync(ct);
+        var items = await query.Skip((page - 1) * pageSize).Take(pageSize).ToListAsync(ct);
+
+        return new PagedResult<TDto>
+        {
+            Items = await map(items),
+            TotalCount = total,
+            Page = page,
+            PageSize = pageSize
+        };
+    }
+
+    /// <summary>
+    /// Pages rows that are computed in memory (reports) rather than queried from the database.
+    /// Sort with <see cref="ApplySort{T}"/> over <c>rows.AsQueryable()</c> first.
+    /// </summary>
+    public static PagedResult<T> ToPagedResult<T>(this IEnumerable<T> rows, PagedQuery paging)
+    {
+        var page = Math.Max(1, paging.Page);
+        var pageSize = Math.Clamp(paging.PageSize, 1, PagedQuery.MaxPageSize);
+        var list = rows as IReadOnlyCollection<T> ?? rows.ToList();
+
+        return new PagedResult<T>
+        {
+            Items = list.Skip((page - 1) * pageSize).Take(pageSize).ToList(),
+            TotalCount = list.Count,
+            Page = page,
+            PageSize = pageSize
+        };
+    }
+}
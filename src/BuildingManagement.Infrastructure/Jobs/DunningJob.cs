@@ -0,0 +1,65 @@
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Core.Interfaces;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+
+namespace BuildingManagement.Infrastructure.Jobs;
+
+/// <summary>
+/// Background service that applies each building's dunning schedule to debtors with overdue charges.
+/// Runs daily. Disabled by default; managers can trigger a run from the Dunning page.
+/// </summary>
+public class DunningJob : BackgroundService
+{
+    private readonly IServiceProvider _serviceProvider;
+    private readonly ILogger<DunningJob> _logger;
+    private readonly bool _autoRunEnabled;
+    private const string JobName = "Dunning";
+
+    public DunningJob(IServiceProvider serviceProvider, ILogger<DunningJob> logger, IConfiguration configuration)
+    {
+        _serviceProvider = serviceProvider;
+        _logger = logger;
+        _autoRunEnabled = configuration.GetValue<bool>("Jobs:DunningEnabled");
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        if (!_autoRunEnabled)
+        {
+            _logger.LogInformation("Dunning job disabled. Use API endpoints to trigger manually.");
+            return;
+        }
+
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try { await RunDailyAsync(stoppingToken); }
+            catch (Exception ex) { _logger.LogError(ex, "Error in dunning job"); }
+            await Task.Delay(TimeSpan.FromHours(24), stoppingToken);
+        }
+    }
+
+    private async Task RunDailyAsync(CancellationToken ct)
+    {
+        var todayKey = DateTime.UtcNow.ToString("yyyy-MM-dd");
+
+        using var scope = _serviceProvider.CreateScope();
+        var db = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+        var dunningService = scope.ServiceProvider.GetRequiredService<IDunningService>();
+
+        if (await db.JobRunLogs.AnyAsync(j => j.JobName == JobName && j.PeriodKey == todayKey, ct))
+        {
+            _logger.LogInformation("Dunning already ran for {Date}", todayKey);
+            return;
+        }
+
+        await dunningService.RunAsync(null, ct);
+
+        db.JobRunLogs.Add(new JobRunLog { JobName = JobName, PeriodKey = todayKey });
+        await db.SaveChangesAsync(ct);
+    }
+}
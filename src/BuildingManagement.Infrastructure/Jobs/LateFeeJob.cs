@@ -0,0 +1,65 @@
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Core.Interfaces;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+
+namespace BuildingManagement.Infrastructure.Jobs;
+
+/// <summary>
+/// Background service that applies each building's late fee rule to overdue HOA charges.
+/// Runs daily. Disabled by default; managers can trigger a run from the HOA page.
+/// </summary>
+public class LateFeeJob : BackgroundService
+{
+    private readonly IServiceProvider _serviceProvider;
+    private readonly ILogger<LateFeeJob> _logger;
+    private readonly bool _autoRunEnabled;
+    private const string JobName = "LateFees";
+
+    public LateFeeJob(IServiceProvider serviceProvider, ILogger<LateFeeJob> logger, IConfiguration configuration)
+    {
+        _serviceProvider = serviceProvider;
+        _logger = logger;
+        _autoRunEnabled = configuration.GetValue<bool>("Jobs:LateFeesEnabled");
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        if (!_autoRunEnabled)
+        {
+            _logger.LogInformation("Late fee job disabled. Use API endpoints to trigger manually.");
+            return;
+        }
+
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try { await RunDailyAsync(stoppingToken); }
+            catch (Exception ex) { _logger.LogError(ex, "Error in late fee job"); }
+            await Task.Delay(TimeSpan.FromHours(24), stoppingToken);
+        }
+    }
+
+    private async Task RunDailyAsync(CancellationToken ct)
+    {
+        var todayKey = DateTime.UtcNow.ToString("yyyy-MM-dd");
+
+        using var scope = _serviceProvider.CreateScope();
+        var db = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+        var lateFeeService = scope.ServiceProvider.GetRequiredService<ILateFeeService>();
+
+        if (await db.JobRunLogs.AnyAsync(j => j.JobName == JobName && j.PeriodKey == todayKey, ct))
+        {
+            _logger.LogInformation("Late fees already applied for {Date}", todayKey);
+            return;
+        }
+
+        await lateFeeService.ApplyLateFeesAsync(null, ct);
+
+        db.JobRunLogs.Add(new JobRunLog { JobName = JobName, PeriodKey = todayKey });
+        await db.SaveChangesAsync(ct);
+    }
+}
@@ -134,6 +134,7 @@ public class MaintenanceJobService : BackgroundService
             .ToListAsync();
 
         var created = 0;
+        var today = DateTime.UtcNow.Date;
         foreach (var plan in duePlans)
         {
             db.WorkOrders.Add(new WorkOrder
@@ -143,6 +144,8 @@ public class MaintenanceJobService : BackgroundService
                 Description = $"Checklist:\n{plan.ChecklistText ?? "N/A"}",
                 Status = WorkOrderStatus.Draft,
                 VendorId = plan.Asset.VendorId,
+                // On the dispatch calendar from the due date; overdue plans land on today
+                ScheduledFor = plan.NextDueDate.Date < today ? today : plan.NextDueDate.Date,
                 CreatedBy = "System"
             });
             created++;
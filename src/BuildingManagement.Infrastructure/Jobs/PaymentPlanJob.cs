@@ -0,0 +1,65 @@
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Core.Interfaces;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+
+namespace BuildingManagement.Infrastructure.Jobs;
+
+/// <summary>
+/// Background service that checks payment plan adherence and flags missed installments.
+/// Runs daily. Disabled by default; managers can trigger a check from the Collection Status page.
+/// </summary>
+public class PaymentPlanJob : BackgroundService
+{
+    private readonly IServiceProvider _serviceProvider;
+    private readonly ILogger<PaymentPlanJob> _logger;
+    private readonly bool _autoRunEnabled;
+    private const string JobName = "PaymentPlans";
+
+    public PaymentPlanJob(IServiceProvider serviceProvider, ILogger<PaymentPlanJob> logger, IConfiguration configuration)
+    {
+        _serviceProvider = serviceProvider;
+        _logger = logger;
+        _autoRunEnabled = configuration.GetValue<bool>("Jobs:PaymentPlansEnabled");
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        if (!_autoRunEnabled)
+        {
+            _logger.LogInformation("Payment plan job disabled. Use API endpoints to trigger manually.");
+            return;
+        }
+
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try { await RunDailyAsync(stoppingToken); }
+            catch (Exception ex) { _logger.LogError(ex, "Error in payment plan job"); }
+            await Task.Delay(TimeSpan.FromHours(24), stoppingToken);
+        }
+    }
+
+    private async Task RunDailyAsync(CancellationToken ct)
+    {
+        var todayKey = DateTime.UtcNow.ToString("yyyy-MM-dd");
+
+        using var scope = _serviceProvider.CreateScope();
+        var db = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+        var paymentPlanService = scope.ServiceProvider.GetRequiredService<IPaymentPlanService>();
+
+        if (await db.JobRunLogs.AnyAsync(j => j.JobName == JobName && j.PeriodKey == todayKey, ct))
+        {
+            _logger.LogInformation("Payment plans already checked for {Date}", todayKey);
+            return;
+        }
+
+        await paymentPlanService.CheckAdherenceAsync(null, ct);
+
+        db.JobRunLogs.Add(new JobRunLog { JobName = JobName, PeriodKey = todayKey });
+        await db.SaveChangesAsync(ct);
+    }
+}
@@ -3,6 +3,7 @@ using BuildingManagement.Core.Entities.Finance;
 using BuildingManagement.Core.Enums;
 using BuildingManagement.Core.Interfaces;
 using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Configuration;
 using Microsoft.Extensions.DependencyInjection;
@@ -65,6 +66,7 @@ public class RecurringPaymentJob : BackgroundService
 
         var pendingCharges = await db.UnitCharges
             .Include(uc => uc.Unit).ThenInclude(u => u.TenantUser)
+            .Include(uc => uc.Unit).ThenInclude(u => u.OwnerUser)
             .Where(uc => uc.Status == UnitChargeStatus.Pending || uc.Status == UnitChargeStatus.Overdue)
             .ToListAsync(ct);
 
@@ -72,7 +74,8 @@ public class RecurringPaymentJob : BackgroundService
 
         foreach (var charge in pendingCharges)
         {
-            var tenantUserId = charge.Unit?.TenantUserId;
+            // Charge whoever the charge is billed to: the resident or the owner
+            var tenantUserId = BillingPartyResolver.PayerUserId(charge.Unit, charge.Party);
             if (tenantUserId == null) continue;
 
             var paymentMethod = await db.PaymentMethods
@@ -142,7 +145,7 @@ public class RecurringPaymentJob : BackgroundService
                     BuildingId = charge.Unit.BuildingId,
                     UnitId = charge.UnitId,
                     EntryType = LedgerEntryType.Payment,
-                    Category = "HOAMonthlyFees",
+                    Category = charge.LedgerCategory,
                     Description = $"Recurring payment for charge #{charge.Id}",
                     ReferenceId = payment.Id,
                     Debit = 0,
@@ -151,10 +154,11 @@ public class RecurringPaymentJob : BackgroundService
                 });
                 await db.SaveChangesAsync(ct);
 
-                if (charge.Unit.TenantUser?.Email != null)
+                var payer = charge.Party == BillingParty.Owner ? charge.Unit.OwnerUser : charge.Unit.TenantUser;
+                if (payer?.Email != null)
                 {
                     await emailService.SendEmailAsync(
-                        charge.Unit.TenantUser.Email,
+                        payer.Email,
                         $"Payment Received - {charge.Period}",
                         $"Your HOA payment of {remaining:N2} ILS for {charge.Period} has been processed successfully.",
                         ct);
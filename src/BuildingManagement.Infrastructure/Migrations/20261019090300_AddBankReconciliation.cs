@@ -0,0 +1,136 @@
+using System;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BuildingManagement.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(AppDbContext))]
+    [Migration("20261019090300_AddBankReconciliation")]
+    public partial class AddBankReconciliation : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "BankStatementImports",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    BuildingId = table.Column<int>(type: "INTEGER", nullable: false),
+                    FileName = table.Column<string>(type: "TEXT", maxLength: 260, nullable: false),
+                    Format = table.Column<int>(type: "INTEGER", nullable: false),
+                    ImportedByUserId = table.Column<string>(type: "TEXT", maxLength: 450, nullable: true),
+                    ImportedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    LineCount = table.Column<int>(type: "INTEGER", nullable: false),
+                    DuplicateCount = table.Column<int>(type: "INTEGER", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_BankStatementImports", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_BankStatementImports_Buildings_BuildingId",
+                        column: x => x.BuildingId,
+                        principalTable: "Buildings",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                });
+
+            migrationBuilder.CreateTable(
+                name: "BankStatementLines",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    ImportId = table.Column<int>(type: "INTEGER", nullable: false),
+                    BuildingId = table.Column<int>(type: "INTEGER", nullable: false),
+                    TransactionDate = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    Amount = table.Column<decimal>(type: "decimal(18,2)", nullable: false),
+                    Reference = table.Column<string>(type: "TEXT", maxLength: 200, nullable: true),
+                    PayerName = table.Column<string>(type: "TEXT", maxLength: 200, nullable: true),
+                    Description = table.Column<string>(type: "TEXT", maxLength: 500, nullable: true),
+                    Fingerprint = table.Column<string>(type: "TEXT", maxLength: 64, nullable: false),
+                    Status = table.Column<int>(type: "INTEGER", nullable: false),
+                    SuggestedUnitChargeId = table.Column<int>(type: "INTEGER", nullable: true),
+                    MatchScore = table.Column<int>(type: "INTEGER", nullable: false),
+                    MatchReason = table.Column<string>(type: "TEXT", maxLength: 500, nullable: true),
+                    PaymentId = table.Column<int>(type: "INTEGER", nullable: true),
+                    ResolvedByUserId = table.Column<string>(type: "TEXT", maxLength: 450, nullable: true),
+                    ResolvedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_BankStatementLines", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_BankStatementLines_BankStatementImports_ImportId",
+                        column: x => x.ImportId,
+                        principalTable: "BankStatementImports",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_BankStatementLines_Buildings_BuildingId",
+                        column: x => x.BuildingId,
+                        principalTable: "Buildings",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                    table.ForeignKey(
+                        name: "FK_BankStatementLines_Payments_PaymentId",
+                        column: x => x.PaymentId,
+                        principalTable: "Payments",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.SetNull);
+                    table.ForeignKey(
+                        name: "FK_BankStatementLines_UnitCharges_SuggestedUnitChargeId",
+                        column: x => x.SuggestedUnitChargeId,
+                        principalTable: "UnitCharges",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.SetNull);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_BankStatementImports_BuildingId",
+                table: "BankStatementImports",
+                column: "BuildingId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_BankStatementLines_BuildingId_Fingerprint",
+                table: "BankStatementLines",
+                columns: new[] { "BuildingId", "Fingerprint" },
+                unique: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_BankStatementLines_BuildingId_Status",
+                table: "BankStatementLines",
+                columns: new[] { "BuildingId", "Status" });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_BankStatementLines_ImportId",
+                table: "BankStatementLines",
+                column: "ImportId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_BankStatementLines_PaymentId",
+                table: "BankStatementLines",
+                column: "PaymentId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_BankStatementLines_SuggestedUnitChargeId",
+                table: "BankStatementLines",
+                column: "SuggestedUnitChargeId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "BankStatementLines");
+
+            migrationBuilder.DropTable(
+                name: "BankStatementImports");
+        }
+    }
+}
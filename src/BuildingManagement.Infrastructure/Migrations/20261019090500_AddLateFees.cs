@@ -0,0 +1,169 @@
+using System;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BuildingManagement.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(AppDbContext))]
+    [Migration("20261019090500_AddLateFees")]
+    public partial class AddLateFees : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_UnitCharges_UnitId_HOAFeePlanId_Period",
+                table: "UnitCharges");
+
+            migrationBuilder.AddColumn<int>(
+                name: "ChargeType",
+                table: "UnitCharges",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<string>(
+                name: "Description",
+                table: "UnitCharges",
+                type: "TEXT",
+                maxLength: 200,
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "SourceChargeId",
+                table: "UnitCharges",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "WaivedAtUtc",
+                table: "UnitCharges",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "WaivedByUserId",
+                table: "UnitCharges",
+                type: "TEXT",
+                maxLength: 450,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "WaiverReason",
+                table: "UnitCharges",
+                type: "TEXT",
+                maxLength: 500,
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "LateFeeRules",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    CreatedBy = table.Column<string>(type: "TEXT", nullable: true),
+                    CreatedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    UpdatedBy = table.Column<string>(type: "TEXT", nullable: true),
+                    UpdatedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: true),
+                    IsDeleted = table.Column<bool>(type: "INTEGER", nullable: false),
+                    BuildingId = table.Column<int>(type: "INTEGER", nullable: false),
+                    IsEnabled = table.Column<bool>(type: "INTEGER", nullable: false),
+                    FeeType = table.Column<int>(type: "INTEGER", nullable: false),
+                    Amount = table.Column<decimal>(type: "decimal(18,2)", nullable: false),
+                    GraceDays = table.Column<int>(type: "INTEGER", nullable: false),
+                    MaxFeePerCharge = table.Column<decimal>(type: "decimal(18,2)", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_LateFeeRules", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_LateFeeRules_Buildings_BuildingId",
+                        column: x => x.BuildingId,
+                        principalTable: "Buildings",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_LateFeeRules_BuildingId",
+                table: "LateFeeRules",
+                column: "BuildingId",
+                unique: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_UnitCharges_SourceChargeId_Period",
+                table: "UnitCharges",
+                columns: new[] { "SourceChargeId", "Period" },
+                unique: true,
+                filter: "[SourceChargeId] IS NOT NULL");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_UnitCharges_UnitId_HOAFeePlanId_Period",
+                table: "UnitCharges",
+                columns: new[] { "UnitId", "HOAFeePlanId", "Period" },
+                unique: true,
+                filter: "[ChargeType] = 0");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_UnitCharges_UnitCharges_SourceChargeId",
+                table: "UnitCharges",
+                column: "SourceChargeId",
+                principalTable: "UnitCharges",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.Restrict);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_UnitCharges_UnitId_HOAFeePlanId_Period",
+                table: "UnitCharges");
+
+            migrationBuilder.DropForeignKey(
+                name: "FK_UnitCharges_UnitCharges_SourceChargeId",
+                table: "UnitCharges");
+
+            migrationBuilder.DropTable(
+                name: "LateFeeRules");
+
+            migrationBuilder.DropIndex(
+                name: "IX_UnitCharges_SourceChargeId_Period",
+                table: "UnitCharges");
+
+            migrationBuilder.DropColumn(
+                name: "ChargeType",
+                table: "UnitCharges");
+
+            migrationBuilder.DropColumn(
+                name: "Description",
+                table: "UnitCharges");
+
+            migrationBuilder.DropColumn(
+                name: "SourceChargeId",
+                table: "UnitCharges");
+
+            migrationBuilder.DropColumn(
+                name: "WaivedAtUtc",
+                table: "UnitCharges");
+
+            migrationBuilder.DropColumn(
+                name: "WaivedByUserId",
+                table: "UnitCharges");
+
+            migrationBuilder.DropColumn(
+                name: "WaiverReason",
+                table: "UnitCharges");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_UnitCharges_UnitId_HOAFeePlanId_Period",
+                table: "UnitCharges",
+                columns: new[] { "UnitId", "HOAFeePlanId", "Period" },
+                unique: true);
+        }
+    }
+}
@@ -0,0 +1,165 @@
+using System;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BuildingManagement.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(AppDbContext))]
+    [Migration("20261019090600_AddSpecialAssessments")]
+    public partial class AddSpecialAssessments : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AlterColumn<int>(
+                name: "HOAFeePlanId",
+                table: "UnitCharges",
+                type: "INTEGER",
+                nullable: true,
+                oldClrType: typeof(int),
+                oldType: "INTEGER");
+
+            migrationBuilder.AddColumn<int>(
+                name: "InstallmentNumber",
+                table: "UnitCharges",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "SpecialAssessmentId",
+                table: "UnitCharges",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "SpecialAssessments",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    CreatedBy = table.Column<string>(type: "TEXT", nullable: true),
+                    CreatedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    UpdatedBy = table.Column<string>(type: "TEXT", nullable: true),
+                    UpdatedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: true),
+                    IsDeleted = table.Column<bool>(type: "INTEGER", nullable: false),
+                    BuildingId = table.Column<int>(type: "INTEGER", nullable: false),
+                    Name = table.Column<string>(type: "TEXT", maxLength: 200, nullable: false),
+                    Description = table.Column<string>(type: "TEXT", maxLength: 1000, nullable: true),
+                    TotalBudget = table.Column<decimal>(type: "decimal(18,2)", nullable: false),
+                    AllocationMethod = table.Column<int>(type: "INTEGER", nullable: false),
+                    InstallmentCount = table.Column<int>(type: "INTEGER", nullable: false),
+                    StartPeriod = table.Column<string>(type: "TEXT", maxLength: 7, nullable: false),
+                    Status = table.Column<int>(type: "INTEGER", nullable: false),
+                    ActivatedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_SpecialAssessments", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_SpecialAssessments_Buildings_BuildingId",
+                        column: x => x.BuildingId,
+                        principalTable: "Buildings",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                });
+
+            migrationBuilder.CreateTable(
+                name: "SpecialAssessmentShares",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    SpecialAssessmentId = table.Column<int>(type: "INTEGER", nullable: false),
+                    UnitId = table.Column<int>(type: "INTEGER", nullable: false),
+                    Amount = table.Column<decimal>(type: "decimal(18,2)", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_SpecialAssessmentShares", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_SpecialAssessmentShares_SpecialAssessments_SpecialAssessmentId",
+                        column: x => x.SpecialAssessmentId,
+                        principalTable: "SpecialAssessments",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_SpecialAssessmentShares_Units_UnitId",
+                        column: x => x.UnitId,
+                        principalTable: "Units",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SpecialAssessmentShares_SpecialAssessmentId_UnitId",
+                table: "SpecialAssessmentShares",
+                columns: new[] { "SpecialAssessmentId", "UnitId" },
+                unique: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SpecialAssessmentShares_UnitId",
+                table: "SpecialAssessmentShares",
+                column: "UnitId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SpecialAssessments_BuildingId",
+                table: "SpecialAssessments",
+                column: "BuildingId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_UnitCharges_SpecialAssessmentId_UnitId_Period",
+                table: "UnitCharges",
+                columns: new[] { "SpecialAssessmentId", "UnitId", "Period" },
+                unique: true,
+                filter: "[SpecialAssessmentId] IS NOT NULL");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_UnitCharges_SpecialAssessments_SpecialAssessmentId",
+                table: "UnitCharges",
+                column: "SpecialAssessmentId",
+                principalTable: "SpecialAssessments",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.Restrict);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_UnitCharges_SpecialAssessments_SpecialAssessmentId",
+                table: "UnitCharges");
+
+            migrationBuilder.DropTable(
+                name: "SpecialAssessmentShares");
+
+            migrationBuilder.DropTable(
+                name: "SpecialAssessments");
+
+            migrationBuilder.DropIndex(
+                name: "IX_UnitCharges_SpecialAssessmentId_UnitId_Period",
+                table: "UnitCharges");
+
+            migrationBuilder.DropColumn(
+                name: "InstallmentNumber",
+                table: "UnitCharges");
+
+            migrationBuilder.DropColumn(
+                name: "SpecialAssessmentId",
+                table: "UnitCharges");
+
+            migrationBuilder.AlterColumn<int>(
+                name: "HOAFeePlanId",
+                table: "UnitCharges",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0,
+                oldClrType: typeof(int),
+                oldType: "INTEGER",
+                oldNullable: true);
+        }
+    }
+}
@@ -0,0 +1,163 @@
+using System;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BuildingManagement.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(AppDbContext))]
+    [Migration("20261019090800_AddPaymentPlans")]
+    public partial class AddPaymentPlans : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "PaymentPlans",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    CreatedBy = table.Column<string>(type: "TEXT", nullable: true),
+                    CreatedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    UpdatedBy = table.Column<string>(type: "TEXT", nullable: true),
+                    UpdatedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: true),
+                    IsDeleted = table.Column<bool>(type: "INTEGER", nullable: false),
+                    BuildingId = table.Column<int>(type: "INTEGER", nullable: false),
+                    UnitId = table.Column<int>(type: "INTEGER", nullable: false),
+                    Status = table.Column<int>(type: "INTEGER", nullable: false),
+                    RequestedByTenant = table.Column<bool>(type: "INTEGER", nullable: false),
+                    RequestNote = table.Column<string>(type: "TEXT", maxLength: 1000, nullable: true),
+                    ManagerNote = table.Column<string>(type: "TEXT", maxLength: 1000, nullable: true),
+                    TotalAmount = table.Column<decimal>(type: "decimal(18,2)", nullable: false),
+                    InstallmentCount = table.Column<int>(type: "INTEGER", nullable: false),
+                    FirstDueDate = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    StandingOrderId = table.Column<int>(type: "INTEGER", nullable: true),
+                    ApprovedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: true),
+                    ApprovedBy = table.Column<string>(type: "TEXT", maxLength: 450, nullable: true),
+                    LastEvaluatedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_PaymentPlans", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_PaymentPlans_Buildings_BuildingId",
+                        column: x => x.BuildingId,
+                        principalTable: "Buildings",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                    table.ForeignKey(
+                        name: "FK_PaymentPlans_StandingOrders_StandingOrderId",
+                        column: x => x.StandingOrderId,
+                        principalTable: "StandingOrders",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.SetNull);
+                    table.ForeignKey(
+                        name: "FK_PaymentPlans_Units_UnitId",
+                        column: x => x.UnitId,
+                        principalTable: "Units",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                });
+
+            migrationBuilder.CreateTable(
+                name: "PaymentPlanCharges",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    PaymentPlanId = table.Column<int>(type: "INTEGER", nullable: false),
+                    UnitChargeId = table.Column<int>(type: "INTEGER", nullable: false),
+                    OutstandingAtStart = table.Column<decimal>(type: "decimal(18,2)", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_PaymentPlanCharges", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_PaymentPlanCharges_PaymentPlans_PaymentPlanId",
+                        column: x => x.PaymentPlanId,
+                        principalTable: "PaymentPlans",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_PaymentPlanCharges_UnitCharges_UnitChargeId",
+                        column: x => x.UnitChargeId,
+                        principalTable: "UnitCharges",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                });
+
+            migrationBuilder.CreateTable(
+                name: "PaymentPlanInstallments",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    PaymentPlanId = table.Column<int>(type: "INTEGER", nullable: false),
+                    InstallmentNumber = table.Column<int>(type: "INTEGER", nullable: false),
+                    DueDate = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    Amount = table.Column<decimal>(type: "decimal(18,2)", nullable: false),
+                    AmountPaid = table.Column<decimal>(type: "decimal(18,2)", nullable: false),
+                    Status = table.Column<int>(type: "INTEGER", nullable: false),
+                    PaidAtUtc = table.Column<DateTime>(type: "TEXT", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_PaymentPlanInstallments", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_PaymentPlanInstallments_PaymentPlans_PaymentPlanId",
+                        column: x => x.PaymentPlanId,
+                        principalTable: "PaymentPlans",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_PaymentPlanCharges_PaymentPlanId",
+                table: "PaymentPlanCharges",
+                column: "PaymentPlanId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_PaymentPlanCharges_UnitChargeId",
+                table: "PaymentPlanCharges",
+                column: "UnitChargeId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_PaymentPlanInstallments_PaymentPlanId_InstallmentNumber",
+                table: "PaymentPlanInstallments",
+                columns: new[] { "PaymentPlanId", "InstallmentNumber" },
+                unique: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_PaymentPlans_BuildingId",
+                table: "PaymentPlans",
+                column: "BuildingId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_PaymentPlans_StandingOrderId",
+                table: "PaymentPlans",
+                column: "StandingOrderId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_PaymentPlans_UnitId",
+                table: "PaymentPlans",
+                column: "UnitId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "PaymentPlanInstallments");
+
+            migrationBuilder.DropTable(
+                name: "PaymentPlanCharges");
+
+            migrationBuilder.DropTable(
+                name: "PaymentPlans");
+        }
+    }
+}
@@ -0,0 +1,118 @@
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BuildingManagement.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(AppDbContext))]
+    [Migration("20261019090900_AddOwnerBilling")]
+    public partial class AddOwnerBilling : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "HOAFeePayer",
+                table: "Units",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<string>(
+                name: "OwnerEmail",
+                table: "Units",
+                type: "TEXT",
+                maxLength: 200,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "OwnerPhone",
+                table: "Units",
+                type: "TEXT",
+                maxLength: 30,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "OwnerUserId",
+                table: "Units",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "SpecialAssessmentPayer",
+                table: "Units",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<int>(
+                name: "Party",
+                table: "UnitCharges",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<int>(
+                name: "Party",
+                table: "PaymentPlans",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Units_OwnerUserId",
+                table: "Units",
+                column: "OwnerUserId");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_Units_AspNetUsers_OwnerUserId",
+                table: "Units",
+                column: "OwnerUserId",
+                principalTable: "AspNetUsers",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_Units_AspNetUsers_OwnerUserId",
+                table: "Units");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Units_OwnerUserId",
+                table: "Units");
+
+            migrationBuilder.DropColumn(
+                name: "HOAFeePayer",
+                table: "Units");
+
+            migrationBuilder.DropColumn(
+                name: "OwnerEmail",
+                table: "Units");
+
+            migrationBuilder.DropColumn(
+                name: "OwnerPhone",
+                table: "Units");
+
+            migrationBuilder.DropColumn(
+                name: "OwnerUserId",
+                table: "Units");
+
+            migrationBuilder.DropColumn(
+                name: "SpecialAssessmentPayer",
+                table: "Units");
+
+            migrationBuilder.DropColumn(
+                name: "Party",
+                table: "UnitCharges");
+
+            migrationBuilder.DropColumn(
+                name: "Party",
+                table: "PaymentPlans");
+        }
+    }
+}
@@ -0,0 +1,86 @@
+using System;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BuildingManagement.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(AppDbContext))]
+    [Migration("20261019091200_AddPaymentProviderTesting")]
+    public partial class AddPaymentProviderTesting : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "LastTestMessage",
+                table: "PaymentProviderConfigs",
+                type: "TEXT",
+                maxLength: 1000,
+                nullable: true);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "LastTestSucceeded",
+                table: "PaymentProviderConfigs",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "LastTestedAtUtc",
+                table: "PaymentProviderConfigs",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "SimulatorDelaySeconds",
+                table: "PaymentProviderConfigs",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<int>(
+                name: "SimulatorScenario",
+                table: "PaymentProviderConfigs",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<int>(
+                name: "UnitChargeId",
+                table: "Payments",
+                type: "INTEGER",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "LastTestMessage",
+                table: "PaymentProviderConfigs");
+
+            migrationBuilder.DropColumn(
+                name: "LastTestSucceeded",
+                table: "PaymentProviderConfigs");
+
+            migrationBuilder.DropColumn(
+                name: "LastTestedAtUtc",
+                table: "PaymentProviderConfigs");
+
+            migrationBuilder.DropColumn(
+                name: "SimulatorDelaySeconds",
+                table: "PaymentProviderConfigs");
+
+            migrationBuilder.DropColumn(
+                name: "SimulatorScenario",
+                table: "PaymentProviderConfigs");
+
+            migrationBuilder.DropColumn(
+                name: "UnitChargeId",
+                table: "Payments");
+        }
+    }
+}
@@ -0,0 +1,47 @@
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BuildingManagement.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(AppDbContext))]
+    [Migration("20261019091300_AddMultiChargeCheckout")]
+    public partial class AddMultiChargeCheckout : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "CheckoutChargeIds",
+                table: "Payments",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: "[]");
+
+            // Checkouts started before multi-charge checkout paid a single charge
+            migrationBuilder.Sql(
+                "UPDATE Payments SET CheckoutChargeIds = '[' || UnitChargeId || ']' WHERE UnitChargeId IS NOT NULL");
+
+            migrationBuilder.DropColumn(
+                name: "UnitChargeId",
+                table: "Payments");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "CheckoutChargeIds",
+                table: "Payments");
+
+            migrationBuilder.AddColumn<int>(
+                name: "UnitChargeId",
+                table: "Payments",
+                type: "INTEGER",
+                nullable: true);
+        }
+    }
+}
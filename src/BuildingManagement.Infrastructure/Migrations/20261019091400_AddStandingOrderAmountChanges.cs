@@ -0,0 +1,65 @@
+using System;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BuildingManagement.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(AppDbContext))]
+    [Migration("20261019091400_AddStandingOrderAmountChanges")]
+    public partial class AddStandingOrderAmountChanges : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "AmountChangeReason",
+                table: "StandingOrders",
+                type: "TEXT",
+                maxLength: 500,
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "AmountChangeRequestedAtUtc",
+                table: "StandingOrders",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "PendingAmount",
+                table: "StandingOrders",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "PendingProviderPlanId",
+                table: "StandingOrders",
+                type: "TEXT",
+                maxLength: 200,
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "AmountChangeReason",
+                table: "StandingOrders");
+
+            migrationBuilder.DropColumn(
+                name: "AmountChangeRequestedAtUtc",
+                table: "StandingOrders");
+
+            migrationBuilder.DropColumn(
+                name: "PendingAmount",
+                table: "StandingOrders");
+
+            migrationBuilder.DropColumn(
+                name: "PendingProviderPlanId",
+                table: "StandingOrders");
+        }
+    }
+}
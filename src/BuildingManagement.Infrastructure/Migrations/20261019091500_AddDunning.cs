@@ -0,0 +1,131 @@
+using System;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BuildingManagement.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(AppDbContext))]
+    [Migration("20261019091500_AddDunning")]
+    public partial class AddDunning : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "DunningSteps",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    BuildingId = table.Column<int>(type: "INTEGER", nullable: false),
+                    DaysAfterDue = table.Column<int>(type: "INTEGER", nullable: false),
+                    Action = table.Column<int>(type: "INTEGER", nullable: false),
+                    TemplateId = table.Column<int>(type: "INTEGER", nullable: true),
+                    IsEnabled = table.Column<bool>(type: "INTEGER", nullable: false),
+                    CreatedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    UpdatedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_DunningSteps", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_DunningSteps_Buildings_BuildingId",
+                        column: x => x.BuildingId,
+                        principalTable: "Buildings",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_DunningSteps_SmsTemplates_TemplateId",
+                        column: x => x.TemplateId,
+                        principalTable: "SmsTemplates",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                });
+
+            migrationBuilder.CreateTable(
+                name: "DunningNotices",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    BuildingId = table.Column<int>(type: "INTEGER", nullable: false),
+                    UnitId = table.Column<int>(type: "INTEGER", nullable: false),
+                    Party = table.Column<int>(type: "INTEGER", nullable: false),
+                    UnitChargeId = table.Column<int>(type: "INTEGER", nullable: false),
+                    DunningStepId = table.Column<int>(type: "INTEGER", nullable: true),
+                    Action = table.Column<int>(type: "INTEGER", nullable: false),
+                    DaysAfterDue = table.Column<int>(type: "INTEGER", nullable: false),
+                    RecipientName = table.Column<string>(type: "TEXT", maxLength: 200, nullable: false),
+                    RecipientAddress = table.Column<string>(type: "TEXT", maxLength: 1000, nullable: true),
+                    OutstandingSnapshot = table.Column<decimal>(type: "decimal(18,2)", nullable: false),
+                    Subject = table.Column<string>(type: "TEXT", maxLength: 300, nullable: true),
+                    Message = table.Column<string>(type: "TEXT", maxLength: 4000, nullable: false),
+                    SendStatus = table.Column<int>(type: "INTEGER", nullable: false),
+                    ProviderMessageId = table.Column<string>(type: "TEXT", maxLength: 200, nullable: true),
+                    ErrorMessage = table.Column<string>(type: "TEXT", maxLength: 500, nullable: true),
+                    CreatedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_DunningNotices", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_DunningNotices_DunningSteps_DunningStepId",
+                        column: x => x.DunningStepId,
+                        principalTable: "DunningSteps",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.SetNull);
+                    table.ForeignKey(
+                        name: "FK_DunningNotices_UnitCharges_UnitChargeId",
+                        column: x => x.UnitChargeId,
+                        principalTable: "UnitCharges",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_DunningNotices_Units_UnitId",
+                        column: x => x.UnitId,
+                        principalTable: "Units",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_DunningNotices_DunningStepId",
+                table: "DunningNotices",
+                column: "DunningStepId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_DunningNotices_UnitChargeId_Party",
+                table: "DunningNotices",
+                columns: new[] { "UnitChargeId", "Party" });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_DunningNotices_UnitId",
+                table: "DunningNotices",
+                column: "UnitId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_DunningSteps_BuildingId_DaysAfterDue",
+                table: "DunningSteps",
+                columns: new[] { "BuildingId", "DaysAfterDue" });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_DunningSteps_TemplateId",
+                table: "DunningSteps",
+                column: "TemplateId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "DunningNotices");
+
+            migrationBuilder.DropTable(
+                name: "DunningSteps");
+        }
+    }
+}
@@ -0,0 +1,107 @@
+using System;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BuildingManagement.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(AppDbContext))]
+    [Migration("20261019091700_AddReminderPaymentLinks")]
+    public partial class AddReminderPaymentLinks : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "LinkClickCount",
+                table: "SmsCampaignRecipients",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "LinkFirstClickedAtUtc",
+                table: "SmsCampaignRecipients",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "PaymentLinkExpiresAtUtc",
+                table: "SmsCampaignRecipients",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "PaymentLinkToken",
+                table: "SmsCampaignRecipients",
+                type: "TEXT",
+                maxLength: 100,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "PaymentLinkUrl",
+                table: "SmsCampaignRecipients",
+                type: "TEXT",
+                maxLength: 500,
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "CampaignRecipientId",
+                table: "Payments",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Payments_CampaignRecipientId",
+                table: "Payments",
+                column: "CampaignRecipientId");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_Payments_SmsCampaignRecipients_CampaignRecipientId",
+                table: "Payments",
+                column: "CampaignRecipientId",
+                principalTable: "SmsCampaignRecipients",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_Payments_SmsCampaignRecipients_CampaignRecipientId",
+                table: "Payments");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Payments_CampaignRecipientId",
+                table: "Payments");
+
+            migrationBuilder.DropColumn(
+                name: "LinkClickCount",
+                table: "SmsCampaignRecipients");
+
+            migrationBuilder.DropColumn(
+                name: "LinkFirstClickedAtUtc",
+                table: "SmsCampaignRecipients");
+
+            migrationBuilder.DropColumn(
+                name: "PaymentLinkExpiresAtUtc",
+                table: "SmsCampaignRecipients");
+
+            migrationBuilder.DropColumn(
+                name: "PaymentLinkToken",
+                table: "SmsCampaignRecipients");
+
+            migrationBuilder.DropColumn(
+                name: "PaymentLinkUrl",
+                table: "SmsCampaignRecipients");
+
+            migrationBuilder.DropColumn(
+                name: "CampaignRecipientId",
+                table: "Payments");
+        }
+    }
+}
@@ -0,0 +1,115 @@
+using System;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BuildingManagement.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(AppDbContext))]
+    [Migration("20261019091800_AddReminderDeliveryTracking")]
+    public partial class AddReminderDeliveryTracking : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "AttemptCount",
+                table: "SmsCampaignRecipients",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<int>(
+                name: "DeliveryStatus",
+                table: "SmsCampaignRecipients",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "DeliveryStatusAtUtc",
+                table: "SmsCampaignRecipients",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "LastChannel",
+                table: "SmsCampaignRecipients",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "LastRetryAtUtc",
+                table: "SmsCampaigns",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "SmsCampaignDeliveries",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    RecipientId = table.Column<int>(type: "INTEGER", nullable: false),
+                    Attempt = table.Column<int>(type: "INTEGER", nullable: false),
+                    Channel = table.Column<int>(type: "INTEGER", nullable: false),
+                    Provider = table.Column<string>(type: "TEXT", maxLength: 50, nullable: false),
+                    ProviderMessageId = table.Column<string>(type: "TEXT", maxLength: 200, nullable: false),
+                    Destination = table.Column<string>(type: "TEXT", maxLength: 200, nullable: false),
+                    SentAtUtc = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    Status = table.Column<int>(type: "INTEGER", nullable: false),
+                    StatusAtUtc = table.Column<DateTime>(type: "TEXT", nullable: true),
+                    Error = table.Column<string>(type: "TEXT", maxLength: 500, nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_SmsCampaignDeliveries", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_SmsCampaignDeliveries_SmsCampaignRecipients_RecipientId",
+                        column: x => x.RecipientId,
+                        principalTable: "SmsCampaignRecipients",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SmsCampaignDeliveries_ProviderMessageId",
+                table: "SmsCampaignDeliveries",
+                column: "ProviderMessageId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SmsCampaignDeliveries_RecipientId",
+                table: "SmsCampaignDeliveries",
+                column: "RecipientId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "SmsCampaignDeliveries");
+
+            migrationBuilder.DropColumn(
+                name: "AttemptCount",
+                table: "SmsCampaignRecipients");
+
+            migrationBuilder.DropColumn(
+                name: "DeliveryStatus",
+                table: "SmsCampaignRecipients");
+
+            migrationBuilder.DropColumn(
+                name: "DeliveryStatusAtUtc",
+                table: "SmsCampaignRecipients");
+
+            migrationBuilder.DropColumn(
+                name: "LastChannel",
+                table: "SmsCampaignRecipients");
+
+            migrationBuilder.DropColumn(
+                name: "LastRetryAtUtc",
+                table: "SmsCampaigns");
+        }
+    }
+}
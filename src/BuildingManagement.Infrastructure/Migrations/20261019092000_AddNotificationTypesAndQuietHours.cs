@@ -0,0 +1,100 @@
+using System;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BuildingManagement.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    [DbContext(typeof(AppDbContext))]
+    [Migration("20261019092000_AddNotificationTypesAndQuietHours")]
+    public partial class AddNotificationTypesAndQuietHours : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<bool>(
+                name: "PaymentReminders",
+                table: "TenantNotificationPreferences",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: true);
+
+            migrationBuilder.AddColumn<TimeOnly>(
+                name: "QuietHoursEnd",
+                table: "TenantNotificationPreferences",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<TimeOnly>(
+                name: "QuietHoursStart",
+                table: "TenantNotificationPreferences",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "TicketUpdates",
+                table: "TenantNotificationPreferences",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: true);
+
+            migrationBuilder.CreateTable(
+                name: "NotificationConsentLogs",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    TenantProfileId = table.Column<int>(type: "INTEGER", nullable: false),
+                    Setting = table.Column<string>(type: "TEXT", maxLength: 50, nullable: false),
+                    OldValue = table.Column<string>(type: "TEXT", maxLength: 100, nullable: true),
+                    NewValue = table.Column<string>(type: "TEXT", maxLength: 100, nullable: true),
+                    Source = table.Column<string>(type: "TEXT", maxLength: 20, nullable: false),
+                    ChangedByUserId = table.Column<string>(type: "TEXT", maxLength: 450, nullable: true),
+                    IpAddress = table.Column<string>(type: "TEXT", maxLength: 64, nullable: true),
+                    UserAgent = table.Column<string>(type: "TEXT", maxLength: 300, nullable: true),
+                    ChangedAtUtc = table.Column<DateTime>(type: "TEXT", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_NotificationConsentLogs", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_NotificationConsentLogs_TenantProfiles_TenantProfileId",
+                        column: x => x.TenantProfileId,
+                        principalTable: "TenantProfiles",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_NotificationConsentLogs_TenantProfileId_ChangedAtUtc",
+                table: "NotificationConsentLogs",
+                columns: new[] { "TenantProfileId", "ChangedAtUtc" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "NotificationConsentLogs");
+
+            migrationBuilder.DropColumn(
+                name: "PaymentReminders",
+                table: "TenantNotificationPreferences");
+
+            migrationBuilder.DropColumn(
+                name: "QuietHoursEnd",
+                table: "TenantNotificationPreferences");
+
+            migrationBuilder.DropColumn(
+                name: "QuietHoursStart",
+                table: "TenantNotificationPreferences");
+
+            migrationBuilder.DropColumn(
+                name: "TicketUpdates",
+                table: "TenantNotificationPreferences");
+        }
+    }
+}
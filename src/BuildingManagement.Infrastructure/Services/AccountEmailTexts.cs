@@ -0,0 +1,68 @@
+using System.Net;
+using BuildingManagement.Infrastructure.Services.Sms;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+public record AccountEmail(string Subject, string HtmlBody);
+
+/// <summary>An invitation goes out by SMS or email, so it comes in both forms.</summary>
+public record InvitationText(string SmsBody, AccountEmail Email);
+
+/// <summary>Password reset, email confirmation and tenant onboarding messages, in the user's language.</summary>
+public static class AccountEmailTexts
+{
+    public static AccountEmail PasswordReset(string language, string fullName, string url) => Build(language,
+        "Reset your HomeHero password",
+        $"Hello {Name(fullName)},\n\nWe received a request to reset your password. Choose a new one here:\n{Link(url)}\n\nIf you didn't ask for this, ignore this email; your password stays the same.",
+        "איפוס הסיסמה ב-HomeHero",
+        $"שלום {Name(fullName)},\n\nקיבלנו בקשה לאיפוס הסיסמה שלך. לבחירת סיסמה חדשה:\n{Link(url)}\n\nאם לא ביקשת זאת, אפשר להתעלם מהמייל והסיסמה לא תשתנה.");
+
+    public static AccountEmail VerifyEmail(string language, string fullName, string url) => Build(language,
+        "Confirm your email address",
+        $"Hello {Name(fullName)},\n\nWelcome to HomeHero. Please confirm your email address so we can reach you about your home:\n{Link(url)}",
+        "אישור כתובת המייל",
+        $"שלום {Name(fullName)},\n\nברוכים הבאים ל-HomeHero. נא לאשר את כתובת המייל כדי שנוכל לעדכן אותך על הבית:\n{Link(url)}");
+
+    public static AccountEmail ChangeEmail(string language, string fullName, string url) => Build(language,
+        "Confirm your new email address",
+        $"Hello {Name(fullName)},\n\nTo use this address for your HomeHero account, confirm it here:\n{Link(url)}\n\nUntil then your account keeps the previous address.",
+        "אישור כתובת המייל החדשה",
+        $"שלום {Name(fullName)},\n\nכדי להשתמש בכתובת הזו בחשבון HomeHero, נא לאשר אותה כאן:\n{Link(url)}\n\nעד האישור החשבון נשאר עם הכתובת הקודמת.");
+
+    public static InvitationText TenantInvitation(string language, string fullName, string unit, string url)
+    {
+        var sms = language == "en"
+            ? $"Hello {fullName}, you're invited to HomeHero for {unit}. Create your account: {url}"
+            : $"שלום {fullName}, הוזמנת ל-HomeHero עבור {unit}. ליצירת החשבון: {url}";
+        var email = Build(language,
+            "Your invitation to HomeHero",
+            $"Hello {Name(fullName)},\n\nYour building manager invited you to HomeHero for {Name(unit)}. Create your account here to pay charges, open service requests and get building updates:\n{Link(url)}\n\nThe link works once and expires in {TenantOnboardingService.InvitationDays} days.",
+            "ההזמנה שלך ל-HomeHero",
+            $"שלום {Name(fullName)},\n\nניהול הבניין הזמין אותך ל-HomeHero עבור {Name(unit)}. ליצירת החשבון, לתשלום חיובים, לפתיחת קריאות שירות ולעדכונים מהבניין:\n{Link(url)}\n\nהקישור חד-פעמי ותקף {TenantOnboardingService.InvitationDays} ימים.");
+        return new InvitationText(sms, email);
+    }
+
+    public static AccountEmail RegistrationApproved(string language, string fullName, string unit, string url) => Build(language,
+        "Your HomeHero registration was approved",
+        $"Hello {Name(fullName)},\n\nThe building manager approved your registration for {Name(unit)}. Everything for your home is now available:\n{Link(url)}",
+        "ההרשמה שלך ל-HomeHero אושרה",
+        $"שלום {Name(fullName)},\n\nניהול הבניין אישר את ההרשמה שלך עבור {Name(unit)}. כל מה שקשור לבית זמין עכשיו:\n{Link(url)}");
+
+    public static AccountEmail RegistrationRejected(string language, string fullName, string? reason) => Build(language,
+        "Your HomeHero registration",
+        $"Hello {Name(fullName)},\n\nThe building manager could not approve your registration." +
+            (reason != null ? $"\n\nReason: {Name(reason)}" : "") + "\n\nPlease contact the building management, who can send you an invitation link.",
+        "ההרשמה שלך ל-HomeHero",
+        $"שלום {Name(fullName)},\n\nניהול הבניין לא יכול היה לאשר את ההרשמה שלך." +
+            (reason != null ? $"\n\nסיבה: {Name(reason)}" : "") + "\n\nאפשר לפנות לניהול הבניין, שיכול לשלוח לך קישור הזמנה.");
+
+    private static string Name(string fullName) => WebUtility.HtmlEncode(fullName);
+
+    private static string Link(string url) => $"<a href=\"{WebUtility.HtmlEncode(url)}\">{WebUtility.HtmlEncode(url)}</a>";
+
+    private static AccountEmail Build(string language, string subjectEn, string bodyEn, string subjectHe, string bodyHe)
+    {
+        var en = language == "en";
+        return new AccountEmail(en ? subjectEn : subjectHe, ReminderTemplateRenderer.ToEmailHtml(en ? bodyEn : bodyHe, language));
+    }
+}
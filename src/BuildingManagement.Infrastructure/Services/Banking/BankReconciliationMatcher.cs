@@ -0,0 +1,127 @@
+using System.Text.RegularExpressions;
+
+namespace BuildingManagement.Infrastructure.Services.Banking;
+
+/// <summary>An open unit charge together with the people who might pay it.</summary>
+public record ChargeCandidate(
+    int UnitChargeId,
+    string UnitNumber,
+    string Period,
+    decimal Outstanding,
+    DateTime DueDate,
+    IReadOnlyList<string> PayerNames,
+    IReadOnlyList<string> Phones);
+
+public record ChargeMatch(int UnitChargeId, int Score, string Reason);
+
+/// <summary>
+/// Scores open unit charges against an incoming bank transfer.
+///   Amount equals outstanding balance  +50 (less than balance +15 — partial payment)
+///   Unit number in the text ("דירה 5", "apt 5")  +25
+///   Tenant / owner full name in payer or text  +30 (surname only +15)
+///   Tenant phone number in the text  +30
+///   Charge period in the text ("10/2026", "2026-10")  +10
+/// Scores are capped at 100. Ties go to the oldest charge.
+/// </summary>
+public static partial class BankReconciliationMatcher
+{
+    /// <summary>Minimum score for a match to be offered as a suggestion.</summary>
+    public const int SuggestThreshold = 50;
+
+    /// <summary>Score at which a suggestion is trusted even when another charge scores the same.</summary>
+    public const int StrongMatch = 80;
+
+    public static List<ChargeMatch> Rank(
+        decimal amount, string? reference, string? payerName, string? description,
+        IEnumerable<ChargeCandidate> candidates)
+    {
+        var raw = $"{reference} {payerName} {description}".ToLowerInvariant();
+        var text = Normalize(raw);
+        var payer = Normalize(payerName ?? description ?? "");
+
+        return candidates
+            .Where(c => c.Outstanding > 0)
+            .Select(c => (Charge: c, Match: Score(c, amount, raw, text, payer)))
+            .Where(x => x.Match.Score > 0)
+            .OrderByDescending(x => x.Match.Score)
+            .ThenBy(x => x.Charge.DueDate)
+            .Select(x => x.Match)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Picks the suggestion for a line: the best match when it clears the threshold and is
+    /// not tied with another charge (amount alone fits every unit on the same plan).
+    /// </summary>
+    public static ChargeMatch? PickSuggestion(List<ChargeMatch> ranked)
+    {
+        if (ranked.Count == 0 || ranked[0].Score < SuggestThreshold) return null;
+        if (ranked.Count > 1 && ranked[1].Score == ranked[0].Score && ranked[0].Score < StrongMatch) return null;
+        return ranked[0];
+    }
+
+    private static ChargeMatch Score(ChargeCandidate c, decimal amount, string raw, string text, string payer)
+    {
+        var score = 0;
+        var reasons = new List<string>();
+
+        if (amount == c.Outstanding) { score += 50; reasons.Add("amount"); }
+        else if (amount < c.Outstanding) { score += 15; reasons.Add("partial amount"); }
+
+        var unit = Regex.Escape(c.UnitNumber.ToLowerInvariant());
+        if (Regex.IsMatch(text, $@"(דירה|דירת|apt|apartment|unit|flat)\s*(no\s*|#\s*)?{unit}(?![\p{{L}}\p{{N}}])"))
+        {
+            score += 25; reasons.Add("unit number");
+        }
+
+        var nameScore = 0;
+        foreach (var name in c.PayerNames.Where(n => !string.IsNullOrWhiteSpace(n)))
+        {
+            var tokens = Normalize(name).Split(' ', StringSplitOptions.RemoveEmptyEntries).Where(t => t.Length > 1).ToList();
+            if (tokens.Count == 0) continue;
+            var haystack = payer.Length > 0 ? $"{payer} {text}" : text;
+            if (tokens.All(t => ContainsWord(haystack, t))) nameScore = Math.Max(nameScore, 30);
+            else if (tokens.Count > 1 && ContainsWord(haystack, tokens[^1])) nameScore = Math.Max(nameScore, 15);
+        }
+        if (nameScore > 0) { score += nameScore; reasons.Add(nameScore == 30 ? "name" : "surname"); }
+
+        // Only phone-shaped digit runs count: joining every digit of the text would let amounts,
+        // dates and account numbers run together into a tenant's number
+        var phoneRuns = PhoneRun().Matches(raw).Select(m => Digits().Replace(m.Value, "")).ToList();
+        foreach (var phone in c.Phones.Where(p => !string.IsNullOrWhiteSpace(p)))
+        {
+            // Compare the local 9-digit part so 050-1234567, 0501234567 and +972501234567 all match
+            var digits = Digits().Replace(phone, "");
+            var local = digits.Length >= 9 ? digits[^9..] : digits;
+            if (local.Length == 9 && phoneRuns.Any(run => run.Contains(local)))
+            {
+                score += 30; reasons.Add("phone");
+                break;
+            }
+        }
+
+        if (c.Period.Length == 7)
+        {
+            var mmYyyy = $"{c.Period[5..]}/{c.Period[..4]}";
+            if (raw.Contains(c.Period) || raw.Contains(mmYyyy)) { score += 10; reasons.Add("period"); }
+        }
+
+        return new ChargeMatch(c.UnitChargeId, Math.Min(score, 100), string.Join(", ", reasons));
+    }
+
+    private static bool ContainsWord(string haystack, string word) =>
+        Regex.IsMatch(haystack, $@"(?<![\p{{L}}]){Regex.Escape(word)}(?![\p{{L}}])");
+
+    private static string Normalize(string value) =>
+        Whitespace().Replace(value.ToLowerInvariant().Replace('-', ' ').Replace('.', ' '), " ").Trim();
+
+    [GeneratedRegex(@"[^\d]+")]
+    private static partial Regex Digits();
+
+    /// <summary>9 to 13 digits, optionally split by spaces, dashes or brackets ("+972 50-123-4567", "(050) 1234567").</summary>
+    [GeneratedRegex(@"(?<!\d)\+?\d(?:[ \-()]{0,2}\d){8,12}(?!\d)")]
+    private static partial Regex PhoneRun();
+
+    [GeneratedRegex(@"\s+")]
+    private static partial Regex Whitespace();
+}
@@ -0,0 +1,298 @@
+using System.Globalization;
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.RegularExpressions;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Infrastructure.Services.Banking;
+
+/// <summary>An incoming transfer read from a bank statement file.</summary>
+public record ParsedBankLine(DateTime Date, decimal Amount, string? Reference, string? PayerName, string? Description)
+{
+    /// <summary>
+    /// Stable hash used to detect the same line in overlapping statement exports. Identical
+    /// transfers within one file are told apart by their occurrence number (1, 2, ...).
+    /// </summary>
+    public string Fingerprint(int occurrence = 1)
+    {
+        var raw = $"{Date:yyyy-MM-dd}|{Amount:F2}|{Reference}|{PayerName}|{Description}|{occurrence}";
+        return Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(raw)));
+    }
+}
+
+/// <summary>
+/// Reads bank statement exports into incoming transfer lines. Debits are dropped — only money
+/// received can settle unit charges.
+/// Supports:
+///   CSV with English or Hebrew headers (Hapoalim / Leumi / Discount / Mizrahi exports),
+///   comma, semicolon or tab separated, UTF-8 or Windows-1255 encoded.
+///   MT940 (SWIFT) — :61: statement lines with their :86: information.
+/// </summary>
+public static partial class BankStatementParser
+{
+    private static readonly string[] DateHeaders = ["date", "transaction date", "תאריך", "תאריך פעולה", "תאריך ערך", "value date"];
+    private static readonly string[] CreditHeaders = ["credit", "זכות", "בזכות"];
+    private static readonly string[] DebitHeaders = ["debit", "חובה", "בחובה"];
+    private static readonly string[] AmountHeaders = ["amount", "סכום", "סכום פעולה"];
+    private static readonly string[] ReferenceHeaders = ["reference", "ref", "אסמכתא", "אסמכתה", "מספר אסמכתא"];
+    private static readonly string[] DescriptionHeaders = ["description", "details", "תיאור", "תיאור הפעולה", "הפעולה", "פרטים"];
+    private static readonly string[] PayerHeaders = ["payer", "payer name", "name", "שם", "שם המעביר", "פרטים נוספים", "לטובת"];
+
+    private static readonly string[] DateFormats =
+        ["dd/MM/yyyy", "d/M/yyyy", "dd/MM/yy", "d/M/yy", "dd.MM.yyyy", "dd.MM.yy", "dd-MM-yyyy", "yyyy-MM-dd", "yyyy/MM/dd"];
+
+    public static BankStatementFormat DetectFormat(string content) =>
+        Mt940TagPattern().IsMatch(content) ? BankStatementFormat.Mt940 : BankStatementFormat.Csv;
+
+    /// <summary>Decode a statement file — UTF-8 when valid, otherwise the Hebrew Windows code page most Israeli banks export.</summary>
+    public static string Decode(byte[] bytes)
+    {
+        try
+        {
+            return new UTF8Encoding(false, true).GetString(bytes).TrimStart('\uFEFF');
+        }
+        catch (DecoderFallbackException)
+        {
+            Encoding.RegisterProvider(CodePagesEncodingProvider.Instance);
+            return Encoding.GetEncoding(1255).GetString(bytes);
+        }
+    }
+
+    /// <summary>Parse a statement. Throws <see cref="FormatException"/> when the file cannot be read.</summary>
+    public static List<ParsedBankLine> Parse(string content, BankStatementFormat format)
+    {
+        if (format == BankStatementFormat.Auto)
+            format = DetectFormat(content);
+
+        return format == BankStatementFormat.Mt940 ? ParseMt940(content) : ParseCsv(content);
+    }
+
+    // ─── CSV ────────────────────────────────────────────
+
+    private static List<ParsedBankLine> ParseCsv(string content)
+    {
+        var rows = content.Split('\n').Select(r => r.TrimEnd('\r')).Where(r => r.Trim().Length > 0).ToList();
+        if (rows.Count == 0) throw new FormatException("The file is empty.");
+
+        var delimiter = new[] { ',', ';', '\t' }
+            .OrderByDescending(d => rows.Take(20).Sum(r => r.Count(c => c == d)))
+            .First();
+
+        // Bank exports often start with title rows (account number, period) — find the real header row
+        int headerIndex = -1;
+        Dictionary<string, int> columns = new();
+        for (var i = 0; i < Math.Min(rows.Count, 20); i++)
+        {
+            columns = MapColumns(SplitCsvRow(rows[i], delimiter));
+            if (columns.ContainsKey("date") && (columns.ContainsKey("credit") || columns.ContainsKey("amount")))
+            {
+                headerIndex = i;
+                break;
+            }
+        }
+        if (headerIndex < 0)
+            throw new FormatException("Could not find a header row with date and amount/credit columns.");
+
+        var result = new List<ParsedBankLine>();
+        foreach (var row in rows.Skip(headerIndex + 1))
+        {
+            var cells = SplitCsvRow(row, delimiter);
+            string? Cell(string key) =>
+                columns.TryGetValue(key, out var idx) && idx < cells.Count && cells[idx].Length > 0 ? cells[idx] : null;
+
+            if (!TryParseDate(Cell("date"), out var date)) continue; // totals / footer rows
+
+            decimal amount;
+            if (columns.ContainsKey("credit"))
+            {
+                if (!TryParseAmount(Cell("credit"), out amount) || amount <= 0) continue;
+            }
+            else if (!TryParseAmount(Cell("amount"), out amount) || amount <= 0)
+            {
+                continue;
+            }
+            if (TryParseAmount(Cell("debit"), out var debit) && debit > 0) continue;
+
+            result.Add(new ParsedBankLine(date, amount, Cell("reference"), Cell("payer"), Cell("description")));
+        }
+        return result;
+    }
+
+    private static Dictionary<string, int> MapColumns(List<string> headers)
+    {
+        var map = new Dictionary<string, int>();
+        var normalized = headers.Select(NormalizeHeader).ToList();
+
+        void Find(string key, string[] aliases)
+        {
+            // Exact names first, then prefixes ("זכות שח", "amount ils"). Aliases are in
+            // priority order, so "תאריך" wins over "תאריך ערך" when both exist.
+            foreach (var exact in new[] { true, false })
+            foreach (var alias in aliases)
+            {
+                for (var j = 0; j < normalized.Count; j++)
+                {
+                    var matches = exact ? normalized[j] == alias : normalized[j].StartsWith(alias + " ");
+                    if (matches && !map.ContainsValue(j)) { map[key] = j; return; }
+                }
+            }
+        }
+
+        Find("date", DateHeaders);
+        Find("credit", CreditHeaders);
+        Find("debit", DebitHeaders);
+        Find("amount", AmountHeaders);
+        Find("reference", ReferenceHeaders);
+        Find("description", DescriptionHeaders);
+        Find("payer", PayerHeaders);
+        return map;
+    }
+
+    private static string NormalizeHeader(string header)
+    {
+        var cleaned = HeaderNoise().Replace(header.ToLowerInvariant(), " ");
+        return Whitespace().Replace(cleaned, " ").Trim();
+    }
+
+    private static List<string> SplitCsvRow(string row, char delimiter)
+    {
+        var cells = new List<string>();
+        var current = new StringBuilder();
+        var inQuotes = false;
+        for (var i = 0; i < row.Length; i++)
+        {
+            var c = row[i];
+            if (c == '"')
+            {
+                if (inQuotes && i + 1 < row.Length && row[i + 1] == '"') { current.Append('"'); i++; }
+                else inQuotes = !inQuotes;
+            }
+            else if (c == delimiter && !inQuotes)
+            {
+                cells.Add(current.ToString().Trim());
+                current.Clear();
+            }
+            else
+            {
+                current.Append(c);
+            }
+        }
+        cells.Add(current.ToString().Trim());
+        return cells;
+    }
+
+    private static bool TryParseDate(string? value, out DateTime date)
+    {
+        date = default;
+        if (string.IsNullOrWhiteSpace(value)) return false;
+        if (!DateTime.TryParseExact(value.Trim(), DateFormats, CultureInfo.InvariantCulture, DateTimeStyles.None, out var parsed))
+            return false;
+        date = DateTime.SpecifyKind(parsed.Date, DateTimeKind.Utc);
+        return true;
+    }
+
+    /// <summary>Handles "1,234.50", "1.234,50", "₪ 850", "(120.00)" and trailing-minus "120.00-".</summary>
+    private static bool TryParseAmount(string? value, out decimal amount)
+    {
+        amount = 0;
+        if (string.IsNullOrWhiteSpace(value)) return false;
+
+        var s = value.Replace("₪", "").Replace("ILS", "").Replace(" ", "").Trim();
+        var negative = false;
+        if (s.StartsWith('(') && s.EndsWith(')')) { negative = true; s = s[1..^1]; }
+        if (s.EndsWith('-')) { negative = true; s = s[..^1]; }
+        if (s.StartsWith('-')) { negative = true; s = s[1..]; }
+
+        var lastComma = s.LastIndexOf(',');
+        var lastDot = s.LastIndexOf('.');
+        if (lastComma > lastDot && s.Length - lastComma - 1 is 1 or 2)
+            s = s.Replace(".", "").Replace(',', '.');   // European decimal comma
+        else
+            s = s.Replace(",", "");
+
+        if (!decimal.TryParse(s, NumberStyles.AllowDecimalPoint, CultureInfo.InvariantCulture, out amount))
+            return false;
+        if (negative) amount = -amount;
+        return true;
+    }
+
+    // ─── MT940 ──────────────────────────────────────────
+
+    private static List<ParsedBankLine> ParseMt940(string content)
+    {
+        var result = new List<ParsedBankLine>();
+
+        // Join continuation lines onto their tag so each :tag: is a single entry
+        var entries = new List<(string Tag, string Value)>();
+        foreach (var rawLine in content.Split('\n'))
+        {
+            var line = rawLine.TrimEnd('\r');
+            var tag = Mt940LinePattern().Match(line);
+            if (tag.Success)
+                entries.Add((tag.Groups["tag"].Value, tag.Groups["value"].Value));
+            else if (entries.Count > 0 && line.Length > 0 && line != "-")
+                entries[^1] = (entries[^1].Tag, entries[^1].Value + "\n" + line);
+        }
+
+        for (var i = 0; i < entries.Count; i++)
+        {
+            if (entries[i].Tag != "61") continue;
+
+            var m = Mt940StatementLine().Match(entries[i].Value.Split('\n')[0]);
+            if (!m.Success)
+                throw new FormatException($"Unreadable :61: line \"{entries[i].Value}\".");
+
+            // Only credits; reversals and debits are not incoming payments
+            if (m.Groups["mark"].Value != "C") continue;
+
+            var date = DateTime.ParseExact(m.Groups["date"].Value, "yyMMdd", CultureInfo.InvariantCulture);
+            var amount = decimal.Parse(m.Groups["amount"].Value.Replace(',', '.'), CultureInfo.InvariantCulture);
+            var reference = m.Groups["ref"].Value.Trim();
+            if (reference is "" or "NONREF") reference = m.Groups["bankref"].Value.Trim();
+
+            string? payer = null, description = null;
+            if (i + 1 < entries.Count && entries[i + 1].Tag == "86")
+                (payer, description) = ParseMt940Information(entries[i + 1].Value);
+
+            result.Add(new ParsedBankLine(
+                DateTime.SpecifyKind(date, DateTimeKind.Utc), amount,
+                string.IsNullOrEmpty(reference) ? null : reference, payer, description));
+        }
+        return result;
+    }
+
+    /// <summary>
+    /// :86: is free text, or structured with ?NN subfields (?20-?29 purpose, ?32-?33 counterparty name).
+    /// </summary>
+    private static (string? Payer, string? Description) ParseMt940Information(string value)
+    {
+        var text = value.Replace("\n", "");
+        if (!text.Contains('?'))
+            return (null, text.Trim());
+
+        var fields = Mt940Subfield().Matches(text)
+            .Select(f => (Code: int.Parse(f.Groups["code"].Value), Text: f.Groups["text"].Value.Trim()))
+            .ToList();
+        var purpose = string.Join(" ", fields.Where(f => f.Code is >= 20 and <= 29).Select(f => f.Text));
+        var name = string.Join(" ", fields.Where(f => f.Code is 32 or 33).Select(f => f.Text));
+        return (name.Length > 0 ? name : null, purpose.Length > 0 ? purpose : text.Trim());
+    }
+
+    [GeneratedRegex(@"^:(20|25|28C|60F|61):", RegexOptions.Multiline)]
+    private static partial Regex Mt940TagPattern();
+
+    [GeneratedRegex(@"^:(?<tag>\d{2}[A-Z]?):(?<value>.*)$")]
+    private static partial Regex Mt940LinePattern();
+
+    [GeneratedRegex(@"^(?<date>\d{6})(?<entry>\d{4})?(?<mark>RC|RD|C|D)[A-Z]?(?<amount>\d+,\d*)[NSF][A-Z0-9]{3}(?<ref>[^/]*)(//(?<bankref>.*))?")]
+    private static partial Regex Mt940StatementLine();
+
+    [GeneratedRegex(@"\?(?<code>\d{2})(?<text>[^?]*)")]
+    private static partial Regex Mt940Subfield();
+
+    [GeneratedRegex(@"[^\p{L}\p{N} ]")]
+    private static partial Regex HeaderNoise();
+
+    [GeneratedRegex(@"\s+")]
+    private static partial Regex Whitespace();
+}
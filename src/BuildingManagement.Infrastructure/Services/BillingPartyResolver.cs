@@ -0,0 +1,52 @@
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Core.Entities.Finance;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+/// <summary>
+/// Owner / resident split: which party a unit charge is billed to, and who that party is.
+/// </summary>
+public static class BillingPartyResolver
+{
+    /// <summary>Party for a new charge. Late fees go to whoever owed the source charge.</summary>
+    public static BillingParty PartyFor(Unit unit, UnitChargeType chargeType, BillingParty? sourceParty = null) => chargeType switch
+    {
+        UnitChargeType.HOAMonthlyFee => unit.HOAFeePayer,
+        UnitChargeType.SpecialAssessment => unit.SpecialAssessmentPayer,
+        _ => sourceParty ?? BillingParty.Resident
+    };
+
+    public static string? PayerUserId(Unit unit, BillingParty party)
+        => party == BillingParty.Owner ? unit.OwnerUserId : unit.TenantUserId;
+
+    /// <summary>Display name of the party. Needs TenantUser / OwnerUser loaded.</summary>
+    public static string? PayerName(Unit unit, BillingParty party)
+        => party == BillingParty.Owner
+            ? unit.OwnerUser?.FullName ?? unit.OwnerName
+            : unit.TenantUser?.FullName ?? unit.OwnerName;
+
+    public static string? PayerPhone(Unit unit, BillingParty party)
+        => party == BillingParty.Owner
+            ? unit.OwnerUser?.Phone ?? unit.OwnerPhone
+            : unit.TenantUser?.Phone;
+
+    public static string? PayerEmail(Unit unit, BillingParty party)
+        => party == BillingParty.Owner
+            ? unit.OwnerUser?.Email ?? unit.OwnerEmail
+            : unit.TenantUser?.Email;
+
+    /// <summary>Whether the user is billed for this charge (charge.Unit must be loaded).</summary>
+    public static bool IsPayer(UnitCharge charge, string userId)
+        => PayerUserId(charge.Unit, charge.Party) == userId;
+
+    /// <summary>The party the user pays for on the unit; null when they are both resident and owner.</summary>
+    public static BillingParty? PartyOfUser(Unit unit, string userId)
+        => unit.TenantUserId == userId && unit.OwnerUserId == userId ? null
+            : unit.OwnerUserId == userId ? BillingParty.Owner
+            : BillingParty.Resident;
+
+    /// <summary>Whether the user is billed for anything on the unit, as resident or owner.</summary>
+    public static bool IsPayerOfUnit(Unit unit, string userId)
+        => unit.TenantUserId == userId || unit.OwnerUserId == userId;
+}
@@ -0,0 +1,61 @@
+using BuildingManagement.Core.DTOs;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+/// <summary>
+/// Budget-vs-actual comparison and the HOA fee suggested by an approved budget.
+/// </summary>
+public static class BudgetCalculator
+{
+    /// <summary>Budget lines must use the ledger category names: <see cref="IncomeCategory"/> or <see cref="ExpenseCategory"/>.</summary>
+    public static bool IsKnownCategory(BudgetLineType lineType, string category)
+        => lineType == BudgetLineType.Income
+            ? Enum.GetNames<IncomeCategory>().Contains(category)
+            : Enum.GetNames<ExpenseCategory>().Contains(category);
+
+    /// <summary>
+    /// Joins budgeted and actual amounts per category. Categories that appear on either side are listed,
+    /// largest budget first; variance is positive when favourable.
+    /// </summary>
+    public static List<BudgetVarianceLine> Compare(
+        IEnumerable<CategoryAmount> budget, IEnumerable<CategoryAmount> actual, BudgetLineType lineType)
+    {
+        var budgeted = budget.GroupBy(b => b.Category).ToDictionary(g => g.Key, g => g.Sum(b => b.Amount));
+        var actuals = actual.GroupBy(a => a.Category).ToDictionary(g => g.Key, g => g.Sum(a => a.Amount));
+
+        return budgeted.Keys.Union(actuals.Keys)
+            .Select(category =>
+            {
+                var b = budgeted.GetValueOrDefault(category);
+                var a = actuals.GetValueOrDefault(category);
+                return new BudgetVarianceLine
+                {
+                    Category = category,
+                    Budget = b,
+                    Actual = a,
+                    Variance = lineType == BudgetLineType.Income ? a - b : b - a
+                };
+            })
+            .OrderByDescending(l => l.Budget)
+            .ThenByDescending(l => l.Actual)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Fee that collects the budgeted expenses minus income expected from other sources
+    /// (special assessments, late fees, other income). Amounts are rounded up to whole agorot so the
+    /// twelve monthly charges never fall short of the budget.
+    /// </summary>
+    public static (decimal Annual, decimal Monthly, decimal PerUnit, decimal? PerSqm) SuggestFee(
+        decimal budgetedExpenses, decimal budgetedOtherIncome, int unitCount, decimal totalSqm)
+    {
+        var annual = Math.Max(0, budgetedExpenses - budgetedOtherIncome);
+        var monthly = RoundUp(annual / 12m);
+        var perUnit = unitCount > 0 ? RoundUp(monthly / unitCount) : 0;
+        decimal? perSqm = totalSqm > 0 ? RoundUp(monthly / totalSqm) : null;
+        return (annual, monthly, perUnit, perSqm);
+    }
+
+    private static decimal RoundUp(decimal amount) => Math.Ceiling(amount * 100m) / 100m;
+}
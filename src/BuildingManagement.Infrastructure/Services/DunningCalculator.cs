@@ -0,0 +1,20 @@
+using BuildingManagement.Core.Entities.Notifications;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+/// <summary>
+/// Where a debtor stands in a dunning schedule. Only the latest step the oldest unpaid charge has reached is
+/// sent: a debtor first dunned at 50 days gets the 45-day letter, not the 3- and 14-day reminders as well.
+/// </summary>
+public static class DunningCalculator
+{
+    /// <summary>The step to send now, or null when nothing is due beyond what was already reached.</summary>
+    public static DunningStep? StepDue(IEnumerable<DunningStep> steps, int daysOverdue, int? reachedDaysAfterDue)
+        => steps.Where(s => s.IsEnabled && s.DaysAfterDue <= daysOverdue && s.DaysAfterDue > (reachedDaysAfterDue ?? 0))
+            .MaxBy(s => s.DaysAfterDue);
+
+    /// <summary>The first enabled step after <paramref name="daysAfterDue"/>.</summary>
+    public static DunningStep? NextStep(IEnumerable<DunningStep> steps, int daysAfterDue)
+        => steps.Where(s => s.IsEnabled && s.DaysAfterDue > daysAfterDue)
+            .MinBy(s => s.DaysAfterDue);
+}
@@ -0,0 +1,384 @@
+using BuildingManagement.Core.DTOs;
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Core.Entities.Finance;
+using BuildingManagement.Core.Entities.Notifications;
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Core.Interfaces;
+using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services.Sms;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Logging;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+public class DunningService : IDunningService
+{
+    private readonly IServiceProvider _serviceProvider;
+    private readonly ISmsSender _smsSender;
+    private readonly IEmailSender _emailSender;
+    private readonly SmsRateLimiter _rateLimiter;
+    private readonly ILogger<DunningService> _logger;
+
+    public DunningService(IServiceProvider serviceProvider, ISmsSender smsSender, IEmailSender emailSender,
+        SmsRateLimiter rateLimiter, ILogger<DunningService> logger)
+    {
+        _serviceProvider = serviceProvider;
+        _smsSender = smsSender;
+        _emailSender = emailSender;
+        _rateLimiter = rateLimiter;
+        _logger = logger;
+    }
+
+    /// <summary>A unit's billed party with overdue charges, oldest first.</summary>
+    private record Debtor(Unit Unit, BillingParty Party, List<UnitCharge> Charges, bool InPaymentPlan)
+    {
+        public UnitCharge Oldest => Charges[0];
+        public decimal Outstanding => Charges.Sum(PaymentPlanCalculator.Outstanding);
+    }
+
+    public async Task<DunningRunResult> RunAsync(int? buildingId = null, CancellationToken ct = default)
+    {
+        using var scope = _serviceProvider.CreateScope();
+        var db = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+
+        var stepsQuery = db.DunningSteps.Include(s => s.Template).Where(s => s.IsEnabled);
+        if (buildingId.HasValue)
+            stepsQuery = stepsQuery.Where(s => s.BuildingId == buildingId);
+        var stepsByBuilding = (await stepsQuery.ToListAsync(ct)).GroupBy(s => s.BuildingId).ToList();
+
+        var today = DateTime.UtcNow.Date;
+        int sent = 0, failed = 0, skipped = 0, held = 0;
+
+        foreach (var steps in stepsByBuilding)
+        {
+            var building = await db.Buildings.FirstOrDefaultAsync(b => b.Id == steps.Key, ct);
+            if (building == null) continue;
+
+            var debtors = await LoadDebtorsAsync(db, steps.Key, today, ct);
+            var reached = await ReachedStepsAsync(db, debtors, ct);
+            var tenants = await db.TenantProfiles
+                .Where(tp => tp.Unit.BuildingId == steps.Key && tp.IsActive && !tp.IsDeleted)
+                .ToListAsync(ct);
+            var tenantIds = tenants.Select(tp => tp.Id).ToList();
+            var preferences = await db.TenantNotificationPreferences
+                .Where(p => tenantIds.Contains(p.TenantProfileId))
+                .ToDictionaryAsync(p => p.TenantProfileId, ct);
+
+            foreach (var debtor in debtors.Where(d => !d.InPaymentPlan))
+            {
+                var daysOverdue = (today - debtor.Oldest.DueDate.Date).Days;
+                var step = DunningCalculator.StepDue(steps, daysOverdue, reached.GetValueOrDefault((debtor.Oldest.Id, debtor.Party)));
+                if (step == null) continue;
+
+                var tenant = tenants.FirstOrDefault(tp => tp.UnitId == debtor.Unit.Id);
+                var notice = await SendStepAsync(db, building, step, debtor, daysOverdue, tenant,
+                    tenant != null ? preferences.GetValueOrDefault(tenant.Id) : null, tenants, ct);
+                if (notice == null)
+                {
+                    held++;
+                    continue;
+                }
+                db.DunningNotices.Add(notice);
+
+                switch (notice.SendStatus)
+                {
+                    case SmsSendStatus.Sent: sent++; break;
+                    case SmsSendStatus.Failed: failed++; break;
+                    default: skipped++; break;
+                }
+            }
+
+            await db.SaveChangesAsync(ct);
+        }
+
+        _logger.LogInformation("Dunning run: {Buildings} buildings, {Sent} notices sent, {Failed} failed, {Skipped} skipped, {Held} held for quiet hours",
+            stepsByBuilding.Count, sent, failed, skipped, held);
+        return new DunningRunResult(stepsByBuilding.Count, sent, failed, skipped,
+            held > 0
+                ? $"Sent {sent} dunning notices ({failed} failed, {skipped} skipped, {held} held for the tenant's quiet hours)."
+                : $"Sent {sent} dunning notices ({failed} failed, {skipped} skipped).");
+    }
+
+    public async Task<List<DunningDebtorDto>> GetDebtorsAsync(int buildingId, CancellationToken ct = default)
+    {
+        using var scope = _serviceProvider.CreateScope();
+        var db = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+
+        var today = DateTime.UtcNow.Date;
+        var steps = await db.DunningSteps.Where(s => s.BuildingId == buildingId && s.IsEnabled).ToListAsync(ct);
+        var debtors = await LoadDebtorsAsync(db, buildingId, today, ct);
+
+        var oldestIds = debtors.Select(d => d.Oldest.Id).ToList();
+        var notices = await db.DunningNotices
+            .Include(n => n.UnitCharge)
+            .Where(n => oldestIds.Contains(n.UnitChargeId))
+            .OrderBy(n => n.CreatedAtUtc)
+            .ToListAsync(ct);
+
+        return debtors.Select(d =>
+        {
+            var own = notices.Where(n => n.UnitChargeId == d.Oldest.Id && n.Party == d.Party).ToList();
+            int? reachedDays = own.Count > 0 ? own.Max(n => n.DaysAfterDue) : null;
+            var next = DunningCalculator.NextStep(steps, reachedDays ?? 0);
+            return new DunningDebtorDto
+            {
+                UnitId = d.Unit.Id,
+                UnitNumber = d.Unit.UnitNumber,
+                Party = d.Party,
+                PayerName = BillingPartyResolver.PayerName(d.Unit, d.Party),
+                Outstanding = d.Outstanding,
+                OverdueCharges = d.Charges.Count,
+                OldestChargeId = d.Oldest.Id,
+                OldestPeriod = d.Oldest.Period,
+                OldestDueDate = d.Oldest.DueDate,
+                DaysOverdue = (today - d.Oldest.DueDate.Date).Days,
+                ReachedDaysAfterDue = reachedDays,
+                NextDaysAfterDue = next?.DaysAfterDue,
+                NextStepDate = next == null ? null : d.Oldest.DueDate.Date.AddDays(next.DaysAfterDue),
+                InPaymentPlan = d.InPaymentPlan,
+                Notices = own.Select(MapNoticeDto).ToList()
+            };
+        }).OrderByDescending(d => d.DaysOverdue).ThenBy(d => d.UnitNumber).ToList();
+    }
+
+    public static DunningNoticeDto MapNoticeDto(DunningNotice n) => new()
+    {
+        Id = n.Id,
+        UnitChargeId = n.UnitChargeId,
+        ChargePeriod = n.UnitCharge?.Period,
+        Party = n.Party,
+        Action = n.Action,
+        DaysAfterDue = n.DaysAfterDue,
+        RecipientName = n.RecipientName,
+        RecipientAddress = n.RecipientAddress,
+        OutstandingSnapshot = n.OutstandingSnapshot,
+        Subject = n.Subject,
+        Message = n.Message,
+        SendStatus = n.SendStatus,
+        ErrorMessage = n.ErrorMessage,
+        CreatedAtUtc = n.CreatedAtUtc
+    };
+
+    // ─── Helpers ─────────────────────────────────────────
+
+    /// <summary>Open charges past their due date, grouped per unit and billed party.</summary>
+    private static async Task<List<Debtor>> LoadDebtorsAsync(AppDbContext db, int buildingId, DateTime today, CancellationToken ct)
+    {
+        var charges = await db.UnitCharges
+            .Include(uc => uc.Allocations)
+            .Include(uc => uc.Unit).ThenInclude(u => u.TenantUser)
+            .Include(uc => uc.Unit).ThenInclude(u => u.OwnerUser)
+            .Where(uc => uc.Unit.BuildingId == buildingId
+                && uc.DueDate < today
+                && (uc.Status == UnitChargeStatus.Pending
+                    || uc.Status == UnitChargeStatus.PartiallyPaid
+                    || uc.Status == UnitChargeStatus.Overdue))
+            .ToListAsync(ct);
+        charges = charges.Where(c => PaymentPlanCalculator.Outstanding(c) > 0).ToList();
+
+        var chargeIds = charges.Select(c => c.Id).ToList();
+        var inActivePlan = (await db.PaymentPlanCharges
+            .Where(pc => chargeIds.Contains(pc.UnitChargeId)
+                && pc.PaymentPlan.Status == PaymentPlanStatus.Active
+                && !pc.PaymentPlan.IsDeleted)
+            .Select(pc => pc.UnitChargeId)
+            .ToListAsync(ct))
+            .ToHashSet();
+
+        return charges
+            .GroupBy(c => (c.UnitId, c.Party))
+            .Select(g =>
+            {
+                var ordered = g.OrderBy(c => c.DueDate).ThenBy(c => c.Id).ToList();
+                return new Debtor(ordered[0].Unit, g.Key.Party, ordered, inActivePlan.Contains(ordered[0].Id));
+            })
+            .ToList();
+    }
+
+    /// <summary>Latest step (days after due) already reached per oldest charge and party.</summary>
+    private static async Task<Dictionary<(int ChargeId, BillingParty Party), int?>> ReachedStepsAsync(
+        AppDbContext db, List<Debtor> debtors, CancellationToken ct)
+    {
+        var oldestIds = debtors.Select(d => d.Oldest.Id).ToList();
+        var reached = await db.DunningNotices
+            .Where(n => oldestIds.Contains(n.UnitChargeId))
+            .GroupBy(n => new { n.UnitChargeId, n.Party })
+            .Select(g => new { g.Key.UnitChargeId, g.Key.Party, Days = g.Max(n => n.DaysAfterDue) })
+            .ToListAsync(ct);
+        return reached.ToDictionary(r => (r.UnitChargeId, r.Party), r => (int?)r.Days);
+    }
+
+    /// <summary>
+    /// Sends the step to the debtor. SMS and email reminders to a resident follow their tenant's notification
+    /// preferences; formal letters and committee escalations go out regardless. Returns null when an SMS falls in
+    /// the tenant's quiet hours: nothing is recorded, so the next run sends it.
+    /// </summary>
+    private async Task<DunningNotice?> SendStepAsync(AppDbContext db, Building building, DunningStep step, Debtor debtor,
+        int daysOverdue, TenantProfile? tenant, TenantNotificationPreferences? prefs, List<TenantProfile> buildingTenants,
+        CancellationToken ct)
+    {
+        var unit = debtor.Unit;
+        var isResident = debtor.Party == BillingParty.Resident;
+        var name = BillingPartyResolver.PayerName(unit, debtor.Party) ?? (isResident ? tenant?.FullName : null) ?? "—";
+        var phone = BillingPartyResolver.PayerPhone(unit, debtor.Party) ?? (isResident ? tenant?.Phone : null);
+        var email = BillingPartyResolver.PayerEmail(unit, debtor.Party) ?? (isResident ? tenant?.Email : null);
+
+        var notice = new DunningNotice
+        {
+            BuildingId = building.Id,
+            UnitId = unit.Id,
+            Party = debtor.Party,
+            UnitChargeId = debtor.Oldest.Id,
+            DunningStepId = step.Id,
+            Action = step.Action,
+            DaysAfterDue = step.DaysAfterDue,
+            RecipientName = name,
+            OutstandingSnapshot = debtor.Outstanding
+        };
+
+        string Render(string template) => ReminderTemplateRenderer.Render(template, name, building.Name,
+            unit.UnitNumber, debtor.Oldest.Period, debtor.Oldest.AmountDue, debtor.Outstanding);
+
+        if (step.Action == DunningAction.CommitteeEscalation)
+        {
+            notice.Subject = step.Template?.EmailSubject != null
+                ? Render(step.Template.EmailSubject)
+                : $"Debt escalation – {building.Name} unit {unit.UnitNumber}";
+            notice.Message = step.Template != null
+                ? Render(step.Template.Body)
+                : $"Unit {unit.UnitNumber} ({name}) owes {debtor.Outstanding:N2} ILS over {debtor.Charges.Count} charge(s). " +
+                  $"The oldest unpaid charge ({debtor.Oldest.Period}) is {daysOverdue} days overdue and reminders have not been answered. " +
+                  "Please decide on further steps.";
+            await EscalateToCommitteeAsync(db, notice, building, buildingTenants, ct);
+            return notice;
+        }
+
+        if (step.Template == null)
+        {
+            notice.SendStatus = SmsSendStatus.Skipped;
+            notice.ErrorMessage = "No template set for this step";
+            return notice;
+        }
+
+        notice.Message = Render(step.Template.Body);
+        notice.Subject = step.Template.EmailSubject != null ? Render(step.Template.EmailSubject) : "Payment Reminder";
+
+        if (isResident && step.Action is DunningAction.Sms or DunningAction.Email)
+        {
+            var blocked = NotificationPolicy.BlockReason(prefs, NotificationKind.PaymentReminder,
+                step.Action == DunningAction.Sms ? ReminderChannel.Sms : ReminderChannel.Email, DateTime.UtcNow, true);
+            if (blocked == NotificationPolicy.QuietHoursReason) return null;
+            if (blocked != null)
+            {
+                notice.SendStatus = SmsSendStatus.Skipped;
+                notice.ErrorMessage = blocked;
+                return notice;
+            }
+        }
+
+        if (step.Action == DunningAction.Sms)
+        {
+            var e164 = PhoneNormalizer.NormalizeIsraeli(phone);
+            if (string.IsNullOrEmpty(e164) || !PhoneNormalizer.IsValidIsraeliMobile(e164))
+            {
+                notice.SendStatus = SmsSendStatus.Skipped;
+                notice.ErrorMessage = "Invalid or missing phone number";
+                return notice;
+            }
+            notice.RecipientAddress = e164;
+            try
+            {
+                await _rateLimiter.WaitForSlotAsync(ct);
+                var result = await _smsSender.SendAsync(e164, notice.Message, ct);
+                Apply(notice, result.Success, result.MessageId, result.Error ?? "SMS send failed");
+            }
+            catch (Exception ex)
+            {
+                Apply(notice, false, null, $"SMS: {ex.Message}");
+            }
+            return notice;
+        }
+
+        // Email and formal letter
+        if (string.IsNullOrWhiteSpace(email))
+        {
+            notice.SendStatus = SmsSendStatus.Skipped;
+            notice.ErrorMessage = step.Action == DunningAction.FormalLetter
+                ? "No email address: print the letter from the unit's timeline"
+                : "Missing email address";
+            return notice;
+        }
+        notice.RecipientAddress = email;
+        try
+        {
+            var html = step.Action == DunningAction.FormalLetter
+                ? FormalLetterHtml(building, name, unit.UnitNumber, notice.Message)
+                : ReminderTemplateRenderer.ToEmailHtml(notice.Message, step.Template?.Language ?? "he");
+            var result = await _emailSender.SendAsync(email, notice.Subject, html, ct);
+            Apply(notice, result.Success, result.MessageId, result.Error ?? "Email send failed");
+        }
+        catch (Exception ex)
+        {
+            Apply(notice, false, null, $"Email: {ex.Message}");
+        }
+        return notice;
+    }
+
+    private async Task EscalateToCommitteeAsync(AppDbContext db, DunningNotice notice, Building building,
+        List<TenantProfile> buildingTenants, CancellationToken ct)
+    {
+        var members = buildingTenants
+            .Where(tp => tp.IsCommitteeMember && !string.IsNullOrWhiteSpace(tp.Email))
+            .Select(tp => tp.Email!)
+            .Distinct()
+            .ToList();
+        if (members.Count == 0)
+        {
+            notice.SendStatus = SmsSendStatus.Skipped;
+            notice.ErrorMessage = "No committee members with an email address";
+            return;
+        }
+
+        notice.RecipientAddress = string.Join(", ", members);
+        string? lastError = null;
+        var anySent = false;
+        foreach (var member in members)
+        {
+            try
+            {
+                var result = await _emailSender.SendAsync(member, notice.Subject!, ReminderTemplateRenderer.ToEmailHtml(notice.Message), ct);
+                if (result.Success) anySent = true;
+                else lastError = result.Error ?? "Email send failed";
+            }
+            catch (Exception ex)
+            {
+                lastError = $"Email: {ex.Message}";
+            }
+        }
+        Apply(notice, anySent, null, lastError ?? "Email send failed");
+
+        db.AuditLogs.Add(new AuditLog
+        {
+            Action = "DunningEscalation",
+            EntityName = "Unit",
+            EntityId = notice.UnitId.ToString(),
+            Details = $"Escalated {notice.Party} debt of {notice.OutstandingSnapshot:F2} in {building.Name} to {members.Count} committee member(s)"
+        });
+    }
+
+    private static void Apply(DunningNotice notice, bool success, string? messageId, string error)
+    {
+        notice.SendStatus = success ? SmsSendStatus.Sent : SmsSendStatus.Failed;
+        notice.ProviderMessageId = messageId;
+        notice.ErrorMessage = success ? null : error;
+    }
+
+    private static string FormalLetterHtml(Building building, string name, string unitNumber, string message)
+        => "<div dir=\"rtl\" style=\"font-family:Arial,sans-serif;font-size:14px;line-height:1.6;max-width:640px\">" +
+           $"<p style=\"text-align:left\">{DateTime.UtcNow:dd/MM/yyyy}</p>" +
+           $"<p><strong>{building.CommitteeLegalName ?? building.Name}</strong><br/>{building.AddressLine}</p>" +
+           $"<p>{name}<br/>{unitNumber}</p>" +
+           $"<div>{message.Replace("\n", "<br/>")}</div>" +
+           "</div>";
+}
@@ -1,5 +1,6 @@
 using System.Collections.Concurrent;
 using BuildingManagement.Core.Interfaces;
+using BuildingManagement.Infrastructure.Services.Sms;
 using Microsoft.Extensions.Logging;
 
 namespace BuildingManagement.Infrastructure.Services.Email;
@@ -29,6 +30,9 @@ public class FakeEmailSender : IEmailSender
         return Task.FromResult(new EmailSendResult(true, msgId));
     }
 
+    /// <summary>Simulated receipts, posted by hand: { "messageId", "status": "delivered|undelivered|bounced", "error" }.</summary>
+    public IReadOnlyList<DeliveryReceipt> ParseDeliveryReceipts(string payload) => DeliveryReceipts.ParseSimple(payload);
+
     public static IReadOnlyList<FakeEmailMessage> GetRecentMessages(int count = 50)
         => _sentMessages.Reverse().Take(count).ToList();
 }
@@ -1,7 +1,11 @@
 using System.Text;
 using System.Text.Json;
+using BuildingManagement.Core.Entities.Finance;
 using BuildingManagement.Core.Enums;
 using BuildingManagement.Core.Interfaces;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
 using Microsoft.Extensions.Logging;
 
 namespace BuildingManagement.Infrastructure.Services.Gateways;
@@ -9,56 +13,115 @@ namespace BuildingManagement.Infrastructure.Services.Gateways;
 /// <summary>
 /// Fully working fake payment gateway for local development and testing.
 /// Simulates hosted payment pages, tokenization, and charging without a real provider.
+///
+/// Simulator mode: the Fake provider config's SimulatorScenario scripts the outcome —
+/// decline, 3-D Secure challenge, provider timeout, delayed webhook or duplicate webhook —
+/// so the success / cancel pages and webhook handling can be tested end to end.
+/// Webhooks are posted back to the API like a real provider would.
 /// </summary>
 public class FakePaymentGateway : IPaymentGateway
 {
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly IHttpClientFactory _httpClientFactory;
     private readonly ILogger<FakePaymentGateway> _logger;
 
-    public FakePaymentGateway(ILogger<FakePaymentGateway> logger)
+    public FakePaymentGateway(IServiceScopeFactory scopeFactory, IHttpClientFactory httpClientFactory, ILogger<FakePaymentGateway> logger)
     {
+        _scopeFactory = scopeFactory;
+        _httpClientFactory = httpClientFactory;
         _logger = logger;
     }
 
     public string ProviderName => "Fake (Development)";
     public PaymentProviderType ProviderType => PaymentProviderType.Fake;
 
-    public Task<PaymentSessionResult> CreatePaymentSessionAsync(CreatePaymentSessionRequest req, CancellationToken ct = default)
+    public async Task<PaymentSessionResult> CreatePaymentSessionAsync(CreatePaymentSessionRequest req, CancellationToken ct = default)
     {
         var sessionId = $"fake_sess_{Guid.NewGuid():N}";
         var providerRef = $"fake_pay_{Guid.NewGuid():N}";
+        var (scenario, delaySeconds) = await GetScenarioAsync(req.BuildingId, ct);
+
+        switch (scenario)
+        {
+            case PaymentSimulatorScenario.Timeout:
+                _logger.LogInformation("FAKE: Simulating provider timeout ({Seconds}s) for session {Session}", delaySeconds, sessionId);
+                await Task.Delay(TimeSpan.FromSeconds(delaySeconds), ct);
+                return new PaymentSessionResult(false, null, null, null, $"Payment provider did not respond within {delaySeconds} seconds (simulated timeout).");
+
+            case PaymentSimulatorScenario.Decline:
+                SendWebhook(req.WebhookUrl, providerRef, "failed");
+                _logger.LogInformation("FAKE: Simulating decline for session {Session}", sessionId);
+                return new PaymentSessionResult(true, AppendQuery(req.CancelUrl, $"provider_ref={providerRef}&reason=declined"), sessionId, providerRef);
+
+            case PaymentSimulatorScenario.ThreeDSecure:
+                // The simulated bank challenge page completes the session through POST /api/payments/simulator/challenge
+                var challengeUrl = $"{new Uri(req.SuccessUrl).GetLeftPart(UriPartial.Authority)}/payment/simulator" +
+                    $"?provider_ref={providerRef}&amount={req.Amount:0.00}" +
+                    $"&success_url={Uri.EscapeDataString(req.SuccessUrl)}&cancel_url={Uri.EscapeDataString(req.CancelUrl)}";
+                _logger.LogInformation("FAKE: Session {Session} requires 3-D Secure, redirect -> {Url}", sessionId, challengeUrl);
+                return new PaymentSessionResult(true, challengeUrl, sessionId, providerRef);
+
+            case PaymentSimulatorScenario.WebhookDelay:
+            case PaymentSimulatorScenario.DuplicateWebhook:
+                var duplicate = scenario == PaymentSimulatorScenario.DuplicateWebhook;
+                SendWebhook(req.WebhookUrl, providerRef, "succeeded", duplicate ? 0 : delaySeconds, duplicate ? 2 : 1);
+                return new PaymentSessionResult(true, AppendQuery(req.SuccessUrl, $"session_id={sessionId}&provider_ref={providerRef}&status=pending"), sessionId, providerRef);
+        }
 
         // For Fake gateway, immediately create a "succeeded" session and return success URL with params
-        var paymentUrl = $"{req.SuccessUrl}?session_id={sessionId}&provider_ref={providerRef}&status=succeeded";
+        var paymentUrl = AppendQuery(req.SuccessUrl, $"session_id={sessionId}&provider_ref={providerRef}&status=succeeded");
 
         _logger.LogInformation("FAKE: Created payment session {Session} for {Amount} {Currency}, redirect -> {Url}",
             sessionId, req.Amount, req.Currency, paymentUrl);
 
-        return Task.FromResult(new PaymentSessionResult(true, paymentUrl, sessionId, providerRef));
+        return new PaymentSessionResult(true, paymentUrl, sessionId, providerRef, Completed: true);
     }
 
-    public Task<TokenizeResult> TokenizePaymentMethodAsync(TokenizeRequest req, CancellationToken ct = default)
+    public async Task<TokenizeResult> TokenizePaymentMethodAsync(TokenizeRequest req, CancellationToken ct = default)
     {
+        var (scenario, delaySeconds) = await GetScenarioAsync(req.BuildingId, ct);
+        if (scenario == PaymentSimulatorScenario.Timeout)
+        {
+            await Task.Delay(TimeSpan.FromSeconds(delaySeconds), ct);
+            return new TokenizeResult(false, null, null, null, null, null, null, $"Payment provider did not respond within {delaySeconds} seconds (simulated timeout).");
+        }
+        if (scenario == PaymentSimulatorScenario.Decline)
+            return new TokenizeResult(false, null, null, null, null, null, null, "Card declined (simulated).");
+
         var token = $"fake_tok_{Guid.NewGuid():N}";
         var last4 = "1111";
         var expiry = "12/28";
-        var redirectUrl = $"{req.SuccessUrl}?token={token}&last4={last4}&expiry={expiry}&brand=Visa&customer_id=fake_cust_{req.UserId[..Math.Min(8, req.UserId.Length)]}";
+        var redirectUrl = AppendQuery(req.SuccessUrl, $"token={token}&last4={last4}&expiry={expiry}&brand=Visa&customer_id=fake_cust_{req.UserId[..Math.Min(8, req.UserId.Length)]}");
 
         _logger.LogInformation("FAKE: Tokenization session created for user {UserId}, redirect -> {Url}", req.UserId, redirectUrl);
 
-        return Task.FromResult(new TokenizeResult(true, redirectUrl, token, last4, expiry, "Visa", $"fake_cust_{req.UserId[..Math.Min(8, req.UserId.Length)]}"));
+        return new TokenizeResult(true, redirectUrl, token, last4, expiry, "Visa", $"fake_cust_{req.UserId[..Math.Min(8, req.UserId.Length)]}");
     }
 
-    public Task<ChargeResult> ChargeTokenAsync(ChargeTokenRequest req, CancellationToken ct = default)
+    public async Task<ChargeResult> ChargeTokenAsync(ChargeTokenRequest req, CancellationToken ct = default)
     {
         if (req.Token.Contains("_fail_"))
         {
             _logger.LogWarning("FAKE: Charge FAILED (simulated) for token {Token}, amount {Amount}", req.Token, req.Amount);
-            return Task.FromResult(new ChargeResult(false, null, "Simulated payment failure"));
+            return new ChargeResult(false, null, "Simulated payment failure");
+        }
+
+        // Token charges have no redirect or webhook, so only the decline / 3DS / timeout scenarios change them
+        var (scenario, delaySeconds) = await GetScenarioAsync(req.BuildingId, ct);
+        switch (scenario)
+        {
+            case PaymentSimulatorScenario.Decline:
+                return new ChargeResult(false, null, "Card declined (simulated).");
+            case PaymentSimulatorScenario.ThreeDSecure:
+                return new ChargeResult(false, null, "3-D Secure authentication required (simulated).");
+            case PaymentSimulatorScenario.Timeout:
+                await Task.Delay(TimeSpan.FromSeconds(delaySeconds), ct);
+                return new ChargeResult(false, null, $"Payment provider did not respond within {delaySeconds} seconds (simulated timeout).");
         }
 
         var providerRef = $"fake_ch_{Guid.NewGuid():N}";
         _logger.LogInformation("FAKE: Charged {Amount} {Currency} on token {Token} -> {Ref}", req.Amount, req.Currency, req.Token, providerRef);
-        return Task.FromResult(new ChargeResult(true, providerRef));
+        return new ChargeResult(true, providerRef);
     }
 
     public Task<RefundResult> RefundAsync(RefundRequest req, CancellationToken ct = default)
@@ -80,13 +143,49 @@ public class FakePaymentGateway : IPaymentGateway
             var root = doc.RootElement;
             var eventId = root.TryGetProperty("eventId", out var eid) ? eid.GetString() : $"fake_evt_{Guid.NewGuid():N}";
             var providerRef = root.TryGetProperty("providerReference", out var pr) ? pr.GetString() : null;
-            var status = root.TryGetProperty("status", out var st) && st.GetString() == "succeeded"
-                ? PaymentStatus.Succeeded
-                : PaymentStatus.Failed;
+            var statusText = root.TryGetProperty("status", out var st) ? st.GetString() : null;
+            PaymentStatus? status = statusText switch
+            {
+                "succeeded" => PaymentStatus.Succeeded,
+                "refunded" => PaymentStatus.Refunded,
+                _ => PaymentStatus.Failed
+            };
             var token = root.TryGetProperty("token", out var tk) ? tk.GetString() : null;
             var last4 = root.TryGetProperty("last4", out var l4) ? l4.GetString() : null;
 
-            return new WebhookParseResult(true, eventId, providerRef, status, token, last4, null, null, null, null);
+            // Simulated chargeback: { "providerReference", "disputeId", "disputeStatus": "open|won|lost", "amount", "reason" }
+            WebhookDispute? dispute = null;
+            if (root.TryGetProperty("disputeId", out var did) && did.GetString() is { } disputeId)
+            {
+                var disputeStatus = root.TryGetProperty("disputeStatus", out var ds) ? ds.GetString() : null;
+                dispute = new WebhookDispute(
+                    disputeId,
+                    root.TryGetProperty("amount", out var amt) && amt.TryGetDecimal(out var a) ? a : null,
+                    root.TryGetProperty("reason", out var rs) ? rs.GetString() : null,
+                    disputeStatus == "won" ? ChargebackStatus.Won : disputeStatus == "lost" ? ChargebackStatus.Lost : ChargebackStatus.Open);
+                status = null;
+            }
+
+            // Simulated standing order event: { "subscriptionId", "subscriptionStatus": "active|paused|cancelled|expired|payment_failed|charge_failed|updated" }
+            WebhookSubscriptionUpdate? subscription = null;
+            if (root.TryGetProperty("subscriptionId", out var sub) && sub.GetString() is { } subscriptionId)
+            {
+                var subscriptionStatus = root.TryGetProperty("subscriptionStatus", out var ss) ? ss.GetString() : null;
+                subscription = subscriptionStatus switch
+                {
+                    "active" => new WebhookSubscriptionUpdate(subscriptionId, StandingOrderStatus.Active),
+                    "paused" => new WebhookSubscriptionUpdate(subscriptionId, StandingOrderStatus.Paused),
+                    "cancelled" => new WebhookSubscriptionUpdate(subscriptionId, StandingOrderStatus.Cancelled),
+                    "expired" => new WebhookSubscriptionUpdate(subscriptionId, StandingOrderStatus.Expired),
+                    "payment_failed" => new WebhookSubscriptionUpdate(subscriptionId, StandingOrderStatus.PaymentFailed, ChargeFailed: true),
+                    "updated" => new WebhookSubscriptionUpdate(subscriptionId, null, AmountApproved: true),
+                    _ => new WebhookSubscriptionUpdate(subscriptionId, null, ChargeFailed: true)
+                };
+                status = null;
+            }
+
+            return new WebhookParseResult(true, eventId, providerRef, status, token, last4, null, null, null, null,
+                Dispute: dispute, Subscription: subscription);
         }
         catch
         {
@@ -99,4 +198,54 @@ public class FakePaymentGateway : IPaymentGateway
         // Fake gateway: always valid
         return Task.FromResult(true);
     }
+
+    // ─── Simulator ───────────────────────────────────────
+
+    /// <summary>
+    /// Posts a webhook for a simulated payment in the background, after <paramref name="delaySeconds"/>,
+    /// <paramref name="times"/> times with the same event id. Does nothing without a webhook URL (connection tests).
+    /// </summary>
+    public void SendWebhook(string webhookUrl, string providerReference, string status, int delaySeconds = 0, int times = 1)
+    {
+        if (string.IsNullOrEmpty(webhookUrl)) return;
+
+        var eventId = $"fake_evt_{Guid.NewGuid():N}";
+        var payload = JsonSerializer.Serialize(new { eventId, providerReference, status });
+        _ = Task.Run(async () =>
+        {
+            try
+            {
+                if (delaySeconds > 0) await Task.Delay(TimeSpan.FromSeconds(delaySeconds));
+                var client = _httpClientFactory.CreateClient(nameof(FakePaymentGateway));
+                for (var i = 1; i <= times; i++)
+                {
+                    using var response = await client.PostAsync(webhookUrl, new StringContent(payload, Encoding.UTF8, "application/json"));
+                    _logger.LogInformation("FAKE: Webhook {EventId} ({Status}) delivery {Attempt}/{Times} -> {Code}",
+                        eventId, status, i, times, (int)response.StatusCode);
+                }
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "FAKE: Webhook {EventId} delivery to {Url} failed", eventId, webhookUrl);
+            }
+        });
+    }
+
+    /// <summary>Scenario of the Fake config that applies to the building (building config first, then global).</summary>
+    private async Task<(PaymentSimulatorScenario Scenario, int DelaySeconds)> GetScenarioAsync(int buildingId, CancellationToken ct)
+    {
+        using var scope = _scopeFactory.CreateScope();
+        var db = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+        var config = await db.Set<PaymentProviderConfig>()
+            .Where(c => (c.BuildingId == buildingId || c.BuildingId == null) && c.IsActive && !c.IsDeleted)
+            .OrderBy(c => c.BuildingId == null)
+            .FirstOrDefaultAsync(ct);
+
+        return config is { ProviderType: PaymentProviderType.Fake }
+            ? (config.SimulatorScenario, Math.Clamp(config.SimulatorDelaySeconds, 0, 120))
+            : (PaymentSimulatorScenario.Approve, 0);
+    }
+
+    private static string AppendQuery(string url, string query)
+        => $"{url}{(url.Contains('?') ? '&' : '?')}{query}";
 }
@@ -1,3 +1,4 @@
+using System.Globalization;
 using System.Net.Http.Headers;
 using System.Text;
 using System.Text.Json;
@@ -165,6 +166,8 @@ public class PayPalGateway : IPaymentGateway
             string? providerReference = null;
             PaymentStatus? status = null;
             string? subscriptionId = null;
+            WebhookDispute? dispute = null;
+            WebhookSubscriptionUpdate? subscription = null;
 
             switch (eventType)
             {
@@ -198,6 +201,7 @@ public class PayPalGateway : IPaymentGateway
                 case "BILLING.SUBSCRIPTION.UPDATED":
                 case "BILLING.SUBSCRIPTION.CANCELLED":
                 case "BILLING.SUBSCRIPTION.SUSPENDED":
+                case "BILLING.SUBSCRIPTION.EXPIRED":
                 case "BILLING.SUBSCRIPTION.PAYMENT.FAILED":
                     // Standing order events handled by the controller
                     if (root.TryGetProperty("resource", out var subResource))
@@ -205,6 +209,43 @@ public class PayPalGateway : IPaymentGateway
                         subscriptionId = subResource.TryGetProperty("id", out var sid) ? sid.GetString() : null;
                         providerReference = subscriptionId;
                     }
+                    if (subscriptionId != null)
+                        subscription = eventType switch
+                        {
+                            "BILLING.SUBSCRIPTION.ACTIVATED" => new WebhookSubscriptionUpdate(subscriptionId, StandingOrderStatus.Active),
+                            // Sent once the subscriber approves a revised plan
+                            "BILLING.SUBSCRIPTION.UPDATED" => new WebhookSubscriptionUpdate(subscriptionId, null, AmountApproved: true),
+                            "BILLING.SUBSCRIPTION.CANCELLED" => new WebhookSubscriptionUpdate(subscriptionId, StandingOrderStatus.Cancelled),
+                            "BILLING.SUBSCRIPTION.SUSPENDED" => new WebhookSubscriptionUpdate(subscriptionId, StandingOrderStatus.PaymentFailed),
+                            "BILLING.SUBSCRIPTION.EXPIRED" => new WebhookSubscriptionUpdate(subscriptionId, StandingOrderStatus.Expired),
+                            _ => new WebhookSubscriptionUpdate(subscriptionId, null, ChargeFailed: true)
+                        };
+                    break;
+
+                case "CUSTOMER.DISPUTE.CREATED":
+                case "CUSTOMER.DISPUTE.RESOLVED":
+                    if (root.TryGetProperty("resource", out var disputeResource))
+                    {
+                        if (disputeResource.TryGetProperty("disputed_transactions", out var txs) && txs.GetArrayLength() > 0)
+                            providerReference = txs[0].TryGetProperty("seller_transaction_id", out var stid) ? stid.GetString() : null;
+
+                        decimal? amount = disputeResource.TryGetProperty("dispute_amount", out var da)
+                            && da.TryGetProperty("value", out var dv)
+                            && decimal.TryParse(dv.GetString(), NumberStyles.Number, CultureInfo.InvariantCulture, out var parsedAmount)
+                                ? parsedAmount : null;
+
+                        // Buyer favour = funds stay with the payer; anything else (seller favour, cancelled by buyer) returns them
+                        var outcome = disputeResource.TryGetProperty("dispute_outcome", out var outcomeEl)
+                            && outcomeEl.TryGetProperty("outcome_code", out var oc) ? oc.GetString() : null;
+                        var disputeStatus = eventType == "CUSTOMER.DISPUTE.CREATED" ? ChargebackStatus.Open
+                            : outcome == "RESOLVED_BUYER_FAVOUR" ? ChargebackStatus.Lost
+                            : ChargebackStatus.Won;
+
+                        var disputeId = disputeResource.TryGetProperty("dispute_id", out var did) ? did.GetString() : null;
+                        if (disputeId != null)
+                            dispute = new WebhookDispute(disputeId, amount,
+                                disputeResource.TryGetProperty("reason", out var dr) ? dr.GetString() : null, disputeStatus);
+                    }
                     break;
 
                 default:
@@ -222,7 +263,9 @@ public class PayPalGateway : IPaymentGateway
                 Expiry: null,
                 CardBrand: null,
                 ProviderCustomerId: null,
-                RawSignature: headers.TryGetValue("paypal-transmission-sig", out var sig) ? sig : null);
+                RawSignature: headers.TryGetValue("paypal-transmission-sig", out var sig) ? sig : null,
+                Dispute: dispute,
+                Subscription: subscription);
         }
         catch (Exception ex)
         {
@@ -361,6 +404,53 @@ public class PayPalGateway : IPaymentGateway
         return new PayPalSubscriptionResult(true, subResponse?.Id, approveLink, null);
     }
 
+    /// <summary>
+    /// Move a PayPal subscription to another plan (e.g. a new amount).
+    /// POST /v1/billing/subscriptions/{id}/revise
+    /// A price change needs the subscriber's consent: the returned approval URL must be visited by the tenant,
+    /// after which PayPal sends BILLING.SUBSCRIPTION.UPDATED.
+    /// </summary>
+    public async Task<PayPalSubscriptionResult> ReviseSubscriptionAsync(
+        string subscriptionId, string planId, string returnUrl, string cancelUrl,
+        string? clientId, string? clientSecret, string? baseUrl, CancellationToken ct = default)
+    {
+        var apiBase = baseUrl ?? SandboxBaseUrl;
+        var token = await GetAccessTokenAsync(clientId, clientSecret, apiBase, ct);
+        if (token == null)
+            return new PayPalSubscriptionResult(false, null, null, "Failed to obtain PayPal access token");
+
+        var reviseBody = new
+        {
+            plan_id = planId,
+            application_context = new
+            {
+                brand_name = "HomeHero",
+                locale = "en-US",
+                shipping_preference = "NO_SHIPPING",
+                return_url = returnUrl,
+                cancel_url = cancelUrl
+            }
+        };
+
+        var request = new HttpRequestMessage(HttpMethod.Post, $"{apiBase}/v1/billing/subscriptions/{subscriptionId}/revise");
+        request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", token);
+        request.Content = new StringContent(JsonSerializer.Serialize(reviseBody), Encoding.UTF8, "application/json");
+
+        var response = await _httpClient.SendAsync(request, ct);
+        if (!response.IsSuccessStatusCode)
+        {
+            var errorBody = await response.Content.ReadAsStringAsync(ct);
+            _logger.LogError("PayPal revise subscription failed: {Status} {Body}", response.StatusCode, errorBody);
+            return new PayPalSubscriptionResult(false, null, null, $"PayPal API error: {response.StatusCode}");
+        }
+
+        var json = await response.Content.ReadAsStringAsync(ct);
+        var subResponse = JsonSerializer.Deserialize<PayPalSubscriptionResponse>(json);
+
+        var approveLink = subResponse?.Links?.FirstOrDefault(l => l.Rel == "approve")?.Href;
+        return new PayPalSubscriptionResult(true, subscriptionId, approveLink, null);
+    }
+
     /// <summary>
     /// Cancel a PayPal subscription.
     /// POST /v1/billing/subscriptions/{id}/cancel
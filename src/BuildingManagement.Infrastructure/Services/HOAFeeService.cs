@@ -61,7 +61,8 @@ public class HOAFeeService : IHOAFeeService
 
             // Check if charge already exists (safety, in addition to JobRunLog)
             var exists = await db.UnitCharges.AnyAsync(
-                uc => uc.UnitId == unit.Id && uc.HOAFeePlanId == plan.Id && uc.Period == period, ct);
+                uc => uc.UnitId == unit.Id && uc.HOAFeePlanId == plan.Id && uc.Period == period
+                    && uc.ChargeType == UnitChargeType.HOAMonthlyFee, ct);
             if (exists) continue;
 
             var charge = new UnitCharge
@@ -71,6 +72,7 @@ public class HOAFeeService : IHOAFeeService
                 Period = period,
                 AmountDue = amount,
                 DueDate = dueDate,
+                Party = BillingPartyResolver.PartyFor(unit, UnitChargeType.HOAMonthlyFee),
                 Status = UnitChargeStatus.Pending
             };
             db.UnitCharges.Add(charge);
@@ -1,6 +1,5 @@
 using System.IdentityModel.Tokens.Jwt;
 using System.Security.Claims;
-using System.Security.Cryptography;
 using System.Text;
 using BuildingManagement.Core.Entities;
 using Microsoft.AspNetCore.Identity;
@@ -11,6 +10,8 @@ namespace BuildingManagement.Infrastructure.Services;
 
 public class JwtTokenService
 {
+    private const int TwoFactorChallengeMinutes = 5;
+
     private readonly IConfiguration _configuration;
     private readonly UserManager<ApplicationUser> _userManager;
 
@@ -20,7 +21,8 @@ public class JwtTokenService
         _userManager = userManager;
     }
 
-    public async Task<(string accessToken, string refreshToken, int expiresIn)> GenerateTokensAsync(ApplicationUser user)
+    /// <summary>A signed access token and its lifetime in seconds. Refresh tokens come from <see cref="RefreshTokenService"/>.</summary>
+    public async Task<(string accessToken, int expiresIn)> GenerateAccessTokenAsync(ApplicationUser user)
     {
         var roles = await _userManager.GetRolesAsync(user);
         var claims = new List<Claim>
@@ -36,13 +38,11 @@ public class JwtTokenService
             claims.Add(new Claim(ClaimTypes.Role, role));
         }
 
-        var key = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(
-            _configuration["Jwt:Key"] ?? "SuperSecretKeyForDevelopmentOnly123456!"));
-        var creds = new SigningCredentials(key, SecurityAlgorithms.HmacSha256);
+        var creds = new SigningCredentials(SigningKey(), SecurityAlgorithms.HmacSha256);
         var expiresIn = int.Parse(_configuration["Jwt:ExpiresInMinutes"] ?? "60");
 
         var token = new JwtSecurityToken(
-            issuer: _configuration["Jwt:Issuer"] ?? "BuildingManagement",
+            issuer: Issuer,
             audience: _configuration["Jwt:Audience"] ?? "BuildingManagement",
             claims: claims,
             expires: DateTime.UtcNow.AddMinutes(expiresIn),
@@ -50,16 +50,51 @@ public class JwtTokenService
         );
 
         var accessToken = new JwtSecurityTokenHandler().WriteToken(token);
-        var refreshToken = GenerateRefreshToken();
 
-        return (accessToken, refreshToken, expiresIn * 60); // return seconds
+        return (accessToken, expiresIn * 60); // return seconds
     }
 
-    private static string GenerateRefreshToken()
+    /// <summary>
+    /// Proof that the password was right, exchanged for a session once the second factor is verified. It carries
+    /// its own audience, so the API never accepts it as an access token.
+    /// </summary>
+    public string GenerateTwoFactorChallenge(ApplicationUser user)
     {
-        var randomBytes = new byte[64];
-        using var rng = RandomNumberGenerator.Create();
-        rng.GetBytes(randomBytes);
-        return Convert.ToBase64String(randomBytes);
+        var token = new JwtSecurityToken(
+            issuer: Issuer,
+            audience: TwoFactorAudience,
+            claims: [new Claim("sub", user.Id)],
+            expires: DateTime.UtcNow.AddMinutes(TwoFactorChallengeMinutes),
+            signingCredentials: new SigningCredentials(SigningKey(), SecurityAlgorithms.HmacSha256)
+        );
+        return new JwtSecurityTokenHandler().WriteToken(token);
     }
+
+    /// <summary>The user id of a valid, unexpired challenge; null otherwise.</summary>
+    public string? ValidateTwoFactorChallenge(string challengeToken)
+    {
+        var parameters = new TokenValidationParameters
+        {
+            ValidIssuer = Issuer,
+            ValidAudience = TwoFactorAudience,
+            IssuerSigningKey = SigningKey(),
+            ClockSkew = TimeSpan.Zero
+        };
+        var handler = new JwtSecurityTokenHandler { MapInboundClaims = false };
+        try
+        {
+            return handler.ValidateToken(challengeToken, parameters, out _).FindFirst("sub")?.Value;
+        }
+        catch (Exception ex) when (ex is SecurityTokenException or ArgumentException)
+        {
+            return null;
+        }
+    }
+
+    private string Issuer => _configuration["Jwt:Issuer"] ?? "BuildingManagement";
+
+    private string TwoFactorAudience => (_configuration["Jwt:Audience"] ?? "BuildingManagement") + ".2fa";
+
+    private SymmetricSecurityKey SigningKey() => new(Encoding.UTF8.GetBytes(
+        _configuration["Jwt:Key"] ?? "SuperSecretKeyForDevelopmentOnly123456!"));
 }
@@ -0,0 +1,65 @@
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+/// <summary>A late fee already raised on a charge (waived fees still block their month).</summary>
+public record ExistingLateFee(string Period, decimal Amount, bool Waived);
+
+/// <summary>A late fee that should be raised now.</summary>
+public record LateFeeAssessment(string Period, DateTime AccruedOn, decimal Amount);
+
+/// <summary>
+/// Works out which late fees an overdue charge should carry as of a given date.
+///   FixedAmount        one fee, the day after the grace period ends
+///   MonthlyPercentage  a fee every month from the end of the grace period, as a percent of the
+///                      balance still outstanding; months missed by the job are caught up
+/// Fees are capped per charge; waived fees do not count towards the cap.
+/// </summary>
+public static class LateFeeCalculator
+{
+    public static List<LateFeeAssessment> Assess(
+        LateFeeType feeType, decimal amount, int graceDays, decimal? maxFeePerCharge,
+        DateTime dueDate, decimal outstanding, DateTime asOf,
+        IReadOnlyCollection<ExistingLateFee> existing)
+    {
+        var result = new List<LateFeeAssessment>();
+        if (outstanding <= 0 || amount <= 0) return result;
+
+        var firstAccrual = dueDate.Date.AddDays(Math.Max(0, graceDays) + 1);
+        if (asOf.Date < firstAccrual) return result;
+
+        var charged = existing.Where(f => !f.Waived).Sum(f => f.Amount);
+        var takenPeriods = existing.Select(f => f.Period).ToHashSet();
+
+        var accruals = feeType == LateFeeType.FixedAmount
+            ? (existing.Count == 0 ? [firstAccrual] : [])
+            : MonthlyAccruals(firstAccrual, asOf.Date);
+
+        foreach (var accrual in accruals)
+        {
+            var period = accrual.ToString("yyyy-MM");
+            if (takenPeriods.Contains(period)) continue;
+
+            var fee = feeType == LateFeeType.FixedAmount
+                ? amount
+                : Math.Round(outstanding * amount / 100m, 2, MidpointRounding.AwayFromZero);
+
+            if (maxFeePerCharge.HasValue)
+                fee = Math.Min(fee, maxFeePerCharge.Value - charged);
+            if (fee <= 0) break;
+
+            result.Add(new LateFeeAssessment(period, accrual, fee));
+            takenPeriods.Add(period);
+            charged += fee;
+        }
+        return result;
+    }
+
+    private static List<DateTime> MonthlyAccruals(DateTime first, DateTime asOf)
+    {
+        var dates = new List<DateTime>();
+        for (var k = 0; first.AddMonths(k) <= asOf; k++)
+            dates.Add(first.AddMonths(k));
+        return dates;
+    }
+}
@@ -0,0 +1,136 @@
+using BuildingManagement.Core.Entities.Finance;
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Core.Interfaces;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Logging;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+public class LateFeeService : ILateFeeService
+{
+    private readonly IServiceProvider _serviceProvider;
+    private readonly ILogger<LateFeeService> _logger;
+
+    public LateFeeService(IServiceProvider serviceProvider, ILogger<LateFeeService> logger)
+    {
+        _serviceProvider = serviceProvider;
+        _logger = logger;
+    }
+
+    public async Task<LateFeeRunResult> ApplyLateFeesAsync(int? buildingId = null, CancellationToken ct = default)
+    {
+        using var scope = _serviceProvider.CreateScope();
+        var db = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+
+        var rulesQuery = db.LateFeeRules.Where(r => r.IsEnabled);
+        if (buildingId.HasValue)
+            rulesQuery = rulesQuery.Where(r => r.BuildingId == buildingId);
+        var rules = await rulesQuery.ToListAsync(ct);
+
+        var today = DateTime.UtcNow.Date;
+        int markedOverdue = 0, created = 0;
+        var total = 0m;
+
+        foreach (var rule in rules)
+        {
+            var overdue = await db.UnitCharges
+                .Include(uc => uc.Allocations)
+                .Where(uc => uc.Unit.BuildingId == rule.BuildingId
+                    && uc.ChargeType == UnitChargeType.HOAMonthlyFee
+                    && uc.DueDate < today
+                    && (uc.Status == UnitChargeStatus.Pending
+                        || uc.Status == UnitChargeStatus.PartiallyPaid
+                        || uc.Status == UnitChargeStatus.Overdue))
+                .ToListAsync(ct);
+            if (overdue.Count == 0) continue;
+
+            var chargeIds = overdue.Select(c => c.Id).ToList();
+
+            // Debt that is being paid off under an active payment plan does not accrue late fees
+            var inActivePlan = (await db.PaymentPlanCharges
+                .Where(pc => chargeIds.Contains(pc.UnitChargeId)
+                    && pc.PaymentPlan.Status == PaymentPlanStatus.Active
+                    && !pc.PaymentPlan.IsDeleted)
+                .Select(pc => pc.UnitChargeId)
+                .ToListAsync(ct))
+                .ToHashSet();
+            var existingFees = (await db.UnitCharges
+                .Where(uc => uc.SourceChargeId != null && chargeIds.Contains(uc.SourceChargeId.Value))
+                .Select(uc => new { SourceChargeId = uc.SourceChargeId!.Value, uc.Period, uc.AmountDue, Waived = uc.WaivedAtUtc != null })
+                .ToListAsync(ct))
+                .ToLookup(f => f.SourceChargeId, f => new ExistingLateFee(f.Period, f.AmountDue, f.Waived));
+
+            var balances = new Dictionary<int, decimal>();
+
+            foreach (var charge in overdue)
+            {
+                var outstanding = charge.AmountDue - charge.Allocations.Sum(a => a.AllocatedAmount);
+                if (outstanding <= 0) continue;
+
+                if (charge.Status != UnitChargeStatus.Overdue)
+                {
+                    charge.Status = UnitChargeStatus.Overdue;
+                    markedOverdue++;
+                }
+                if (inActivePlan.Contains(charge.Id)) continue;
+
+                var fees = LateFeeCalculator.Assess(rule.FeeType, rule.Amount, rule.GraceDays, rule.MaxFeePerCharge,
+                    charge.DueDate, outstanding, today, existingFees[charge.Id].ToList());
+
+                foreach (var fee in fees)
+                {
+                    var description = $"Late fee on {charge.Period} charge";
+                    db.UnitCharges.Add(new UnitCharge
+                    {
+                        UnitId = charge.UnitId,
+                        HOAFeePlanId = charge.HOAFeePlanId,
+                        ChargeType = UnitChargeType.LateFee,
+                        Party = charge.Party,
+                        SourceChargeId = charge.Id,
+                        Period = fee.Period,
+                        AmountDue = fee.Amount,
+                        DueDate = today,
+                        Description = description,
+                        Status = UnitChargeStatus.Pending
+                    });
+
+                    // Running balance per unit; several fees for one unit may be raised in the same pass
+                    if (!balances.TryGetValue(charge.UnitId, out var lastBalance))
+                    {
+                        lastBalance = await db.LedgerEntries
+                            .Where(le => le.UnitId == charge.UnitId)
+                            .OrderByDescending(le => le.Id)
+                            .Select(le => (decimal?)le.BalanceAfter)
+                            .FirstOrDefaultAsync(ct) ?? 0m;
+                    }
+                    balances[charge.UnitId] = lastBalance + fee.Amount;
+
+                    db.LedgerEntries.Add(new LedgerEntry
+                    {
+                        BuildingId = rule.BuildingId,
+                        UnitId = charge.UnitId,
+                        EntryType = LedgerEntryType.Charge,
+                        Category = nameof(IncomeCategory.LateFees),
+                        Description = $"{description} ({fee.Period})",
+                        ReferenceId = charge.Id,
+                        Debit = fee.Amount,
+                        Credit = 0,
+                        BalanceAfter = lastBalance + fee.Amount
+                    });
+
+                    created++;
+                    total += fee.Amount;
+                }
+            }
+
+            await db.SaveChangesAsync(ct);
+        }
+
+        _logger.LogInformation("Late fee run: {Buildings} buildings, {Overdue} charges marked overdue, {Fees} fees totalling {Total}",
+            rules.Count, markedOverdue, created, total);
+        return new LateFeeRunResult(rules.Count, markedOverdue, created, total,
+            $"Marked {markedOverdue} charges overdue and raised {created} late fees.");
+    }
+}
@@ -0,0 +1,41 @@
+using BuildingManagement.Core.Entities.Notifications;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+/// <summary>
+/// Whether a tenant's preferences let a notification go out on a channel right now. Every send path to tenants —
+/// reminder campaigns, dunning, manager messages, announcements and ticket updates — asks here first.
+/// </summary>
+public static class NotificationPolicy
+{
+    public const string QuietHoursReason = "Quiet hours";
+
+    private static readonly TimeZoneInfo IsraelTimeZone = TimeZoneInfo.FindSystemTimeZoneById("Israel Standard Time");
+
+    public static TimeOnly LocalTime(DateTime utcNow)
+        => TimeOnly.FromDateTime(TimeZoneInfo.ConvertTimeFromUtc(utcNow, IsraelTimeZone));
+
+    /// <summary>Channels that buzz a phone; email waits in the inbox and is not held back by quiet hours.</summary>
+    public static bool IsIntrusive(ReminderChannel channel)
+        => channel is ReminderChannel.Sms or ReminderChannel.WhatsApp or ReminderChannel.Push;
+
+    /// <summary>
+    /// Why the notification may not be sent on <paramref name="channel"/>, or null when it may. Tenants without
+    /// saved preferences get everything but announcements, which need <paramref name="marketingConsent"/>.
+    /// </summary>
+    public static string? BlockReason(TenantNotificationPreferences? prefs, NotificationKind kind, ReminderChannel channel,
+        DateTime utcNow, bool marketingConsent)
+    {
+        if (kind == NotificationKind.BuildingAnnouncement && !marketingConsent)
+            return "No consent to building announcements";
+        if (prefs == null) return null;
+        if (!prefs.Wants(kind))
+            return $"Opted out of {(kind == NotificationKind.PaymentReminder ? "payment reminders" : "ticket updates")}";
+        if (prefs.IsOptedOut(channel))
+            return $"Opted out of {channel}";
+        if (IsIntrusive(channel) && prefs.IsQuietAt(LocalTime(utcNow)))
+            return QuietHoursReason;
+        return null;
+    }
+}
@@ -0,0 +1,73 @@
+using BuildingManagement.Core.Entities.Finance;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+/// <summary>
+/// Spreads one payment over several open charges, oldest first (due date, then id), so the oldest debt
+/// is settled before newer charges. Shared by tenant checkout, token charges and manual payments.
+/// Needs each charge's allocations loaded.
+/// </summary>
+public static class PaymentAllocator
+{
+    /// <summary>Open charges in the order a payment settles them.</summary>
+    public static List<UnitCharge> OldestFirst(IEnumerable<UnitCharge> charges)
+        => charges.Where(c => PaymentPlanCalculator.Outstanding(c) > 0)
+            .OrderBy(c => c.DueDate).ThenBy(c => c.Id)
+            .ToList();
+
+    /// <summary>What the charges still owe together.</summary>
+    public static decimal Outstanding(IEnumerable<UnitCharge> charges)
+        => charges.Sum(PaymentPlanCalculator.Outstanding);
+
+    /// <summary>
+    /// Allocates <paramref name="amount"/> to the charges oldest first and updates their status.
+    /// The allocations are added to each charge's Allocations; the payment must be saved (it has an Id).
+    /// Whatever exceeds the outstanding total is left unallocated — callers reject overpayments first.
+    /// </summary>
+    public static List<PaymentAllocation> Allocate(Payment payment, IEnumerable<UnitCharge> charges, decimal amount, DateTime nowUtc)
+    {
+        var result = new List<PaymentAllocation>();
+        var remaining = amount;
+        foreach (var charge in OldestFirst(charges))
+        {
+            if (remaining <= 0) break;
+            var take = Math.Min(PaymentPlanCalculator.Outstanding(charge), remaining);
+            var allocation = new PaymentAllocation
+            {
+                PaymentId = payment.Id,
+                UnitChargeId = charge.Id,
+                UnitCharge = charge,
+                AllocatedAmount = take
+            };
+            charge.Allocations.Add(allocation);
+            charge.Status = ChargeStatus(charge, nowUtc);
+            remaining -= take;
+            result.Add(allocation);
+        }
+        return result;
+    }
+
+    /// <summary>Charge status after its paid amount changed. Needs the charge's allocations loaded.</summary>
+    public static UnitChargeStatus ChargeStatus(UnitCharge charge, DateTime nowUtc)
+    {
+        if (charge.Status == UnitChargeStatus.Cancelled) return charge.Status;
+        var paid = charge.Allocations.Sum(a => a.AllocatedAmount);
+        return paid >= charge.AmountDue
+            ? UnitChargeStatus.Paid
+            : paid > 0
+                ? UnitChargeStatus.PartiallyPaid
+                : (charge.DueDate < nowUtc ? UnitChargeStatus.Overdue : UnitChargeStatus.Pending);
+    }
+
+    /// <summary>Periods a payment paid, for receipts and payment lists (e.g. "2026-01, 2026-02").</summary>
+    public static string? Periods(IEnumerable<PaymentAllocation> allocations)
+    {
+        var periods = allocations.Where(a => a.UnitCharge != null)
+            .OrderBy(a => a.UnitCharge.DueDate)
+            .Select(a => a.UnitCharge.Period)
+            .Distinct()
+            .ToList();
+        return periods.Count == 0 ? null : string.Join(", ", periods);
+    }
+}
@@ -0,0 +1,76 @@
+using System.Globalization;
+using System.Security.Cryptography;
+using System.Text;
+using Microsoft.Extensions.Configuration;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+/// <summary>
+/// Signs and verifies the per-recipient payment links of reminder campaigns. A token is
+/// "{recipientId}-{expiry in base 36 unix seconds}-{first 96 bits of HMAC-SHA256 in hex}", short enough for an SMS
+/// and without punctuation that messaging apps would cut off a link at.
+/// </summary>
+public class PaymentLinkSigner
+{
+    private readonly byte[] _key;
+
+    public PaymentLinkSigner(IConfiguration configuration)
+    {
+        var key = configuration["PaymentLinks:SigningKey"];
+        if (string.IsNullOrEmpty(key))
+            key = configuration["Jwt:Key"] ?? "SuperSecretKeyForDevelopmentOnly123456!";
+        _key = Encoding.UTF8.GetBytes(key);
+        ValidDays = int.TryParse(configuration["PaymentLinks:ValidDays"], out var days) && days > 0 ? days : 14;
+    }
+
+    /// <summary>How long a link stays valid after the campaign is sent.</summary>
+    public int ValidDays { get; }
+
+    public string Create(int recipientId, DateTime expiresAtUtc)
+    {
+        var payload = $"{recipientId}-{ToBase36(new DateTimeOffset(expiresAtUtc, TimeSpan.Zero).ToUnixTimeSeconds())}";
+        return $"{payload}-{Sign(payload)}";
+    }
+
+    /// <summary>Recipient and expiry of a token whose signature matches; null for anything malformed or tampered with.</summary>
+    public (int RecipientId, DateTime ExpiresAtUtc)? Verify(string token)
+    {
+        var parts = token.Split('-');
+        if (parts.Length != 3) return null;
+        if (!int.TryParse(parts[0], NumberStyles.None, CultureInfo.InvariantCulture, out var recipientId)) return null;
+        var expiry = FromBase36(parts[1]);
+        if (expiry == null) return null;
+
+        var expected = Encoding.ASCII.GetBytes(Sign($"{parts[0]}-{parts[1]}"));
+        if (!CryptographicOperations.FixedTimeEquals(expected, Encoding.ASCII.GetBytes(parts[2]))) return null;
+
+        return (recipientId, DateTimeOffset.FromUnixTimeSeconds(expiry.Value).UtcDateTime);
+    }
+
+    private string Sign(string payload)
+    {
+        var mac = HMACSHA256.HashData(_key, Encoding.UTF8.GetBytes(payload));
+        return Convert.ToHexString(mac, 0, 12).ToLowerInvariant();
+    }
+
+    private static string ToBase36(long value)
+    {
+        const string digits = "0123456789abcdefghijklmnopqrstuvwxyz";
+        var sb = new StringBuilder();
+        do { sb.Insert(0, digits[(int)(value % 36)]); value /= 36; } while (value > 0);
+        return sb.ToString();
+    }
+
+    private static long? FromBase36(string text)
+    {
+        if (text.Length is 0 or > 12) return null;
+        long value = 0;
+        foreach (var c in text)
+        {
+            var d = c is >= '0' and <= '9' ? c - '0' : c is >= 'a' and <= 'z' ? c - 'a' + 10 : -1;
+            if (d < 0) return null;
+            value = value * 36 + d;
+        }
+        return value;
+    }
+}
@@ -0,0 +1,66 @@
+using BuildingManagement.Core.Entities.Finance;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+/// <summary>
+/// Installment schedule of a payment plan and its adherence check.
+/// Payments are not tied to installments: whatever the consolidated charges have been paid down
+/// since the plan started is applied to the installments in order.
+/// </summary>
+public static class PaymentPlanCalculator
+{
+    /// <summary>Monthly installments from <paramref name="firstDueDate"/>; the last one absorbs the rounding.</summary>
+    public static List<PaymentPlanInstallment> BuildSchedule(decimal totalAmount, int installmentCount, DateTime firstDueDate)
+        => Enumerable.Range(1, installmentCount).Select(n => new PaymentPlanInstallment
+        {
+            InstallmentNumber = n,
+            DueDate = firstDueDate.AddMonths(n - 1),
+            Amount = SpecialAssessmentCalculator.InstallmentAmount(totalAmount, installmentCount, n)
+        }).ToList();
+
+    /// <summary>What is still owed on a charge. Cancelled (e.g. waived) charges owe nothing.</summary>
+    public static decimal Outstanding(UnitCharge charge)
+        => charge.Status == UnitChargeStatus.Cancelled
+            ? 0
+            : Math.Max(0, charge.AmountDue - charge.Allocations.Sum(a => a.AllocatedAmount));
+
+    /// <summary>
+    /// How much of the consolidated debt has been settled since the plan started.
+    /// Needs each charge's allocations loaded.
+    /// </summary>
+    public static decimal PaidTowardPlan(IEnumerable<PaymentPlanCharge> charges)
+        => charges.Sum(c => Math.Max(0, c.OutstandingAtStart - Outstanding(c.UnitCharge)));
+
+    /// <summary>
+    /// Spreads <paramref name="paidTowardPlan"/> over the installments in order and marks each one
+    /// Paid, Missed (past due and not covered) or Pending. Returns the plan status that follows.
+    /// </summary>
+    public static PaymentPlanStatus Apply(IList<PaymentPlanInstallment> installments, decimal paidTowardPlan, DateTime today, DateTime nowUtc)
+    {
+        var remaining = paidTowardPlan;
+        foreach (var installment in installments.OrderBy(i => i.InstallmentNumber))
+        {
+            installment.AmountPaid = Math.Min(installment.Amount, remaining);
+            remaining -= installment.AmountPaid;
+
+            if (installment.AmountPaid >= installment.Amount)
+            {
+                if (installment.Status != PaymentPlanInstallmentStatus.Paid) installment.PaidAtUtc = nowUtc;
+                installment.Status = PaymentPlanInstallmentStatus.Paid;
+            }
+            else
+            {
+                installment.PaidAtUtc = null;
+                installment.Status = installment.DueDate.Date < today
+                    ? PaymentPlanInstallmentStatus.Missed
+                    : PaymentPlanInstallmentStatus.Pending;
+            }
+        }
+
+        if (installments.All(i => i.Status == PaymentPlanInstallmentStatus.Paid)) return PaymentPlanStatus.Completed;
+        return installments.Any(i => i.Status == PaymentPlanInstallmentStatus.Missed)
+            ? PaymentPlanStatus.Defaulted
+            : PaymentPlanStatus.Active;
+    }
+}
@@ -0,0 +1,70 @@
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Core.Interfaces;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Logging;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+public class PaymentPlanService : IPaymentPlanService
+{
+    private readonly IServiceProvider _serviceProvider;
+    private readonly ILogger<PaymentPlanService> _logger;
+
+    public PaymentPlanService(IServiceProvider serviceProvider, ILogger<PaymentPlanService> logger)
+    {
+        _serviceProvider = serviceProvider;
+        _logger = logger;
+    }
+
+    public async Task<PaymentPlanCheckResult> CheckAdherenceAsync(int? buildingId = null, CancellationToken ct = default)
+    {
+        using var scope = _serviceProvider.CreateScope();
+        var db = scope.ServiceProvider.GetRequiredService<AppDbContext>();
+
+        var query = db.PaymentPlans
+            .Include(p => p.Installments)
+            .Include(p => p.Charges).ThenInclude(pc => pc.UnitCharge).ThenInclude(uc => uc.Allocations)
+            .Where(p => !p.IsDeleted
+                && (p.Status == PaymentPlanStatus.Active || p.Status == PaymentPlanStatus.Defaulted));
+        if (buildingId.HasValue)
+            query = query.Where(p => p.BuildingId == buildingId);
+        var plans = await query.ToListAsync(ct);
+
+        var today = DateTime.UtcNow.Date;
+        var now = DateTime.UtcNow;
+        int defaulted = 0, completed = 0, missed = 0;
+
+        foreach (var plan in plans)
+        {
+            var paid = PaymentPlanCalculator.PaidTowardPlan(plan.Charges);
+
+            var previous = plan.Status;
+            plan.Status = PaymentPlanCalculator.Apply(plan.Installments.ToList(), paid, today, now);
+            plan.LastEvaluatedAtUtc = now;
+            missed += plan.Installments.Count(i => i.Status == PaymentPlanInstallmentStatus.Missed);
+
+            if (plan.Status == previous) continue;
+            if (plan.Status == PaymentPlanStatus.Defaulted) defaulted++;
+            if (plan.Status == PaymentPlanStatus.Completed) completed++;
+
+            db.AuditLogs.Add(new AuditLog
+            {
+                Action = "PaymentPlanStatusChanged",
+                EntityName = "PaymentPlan",
+                EntityId = plan.Id.ToString(),
+                PerformedBy = "System",
+                Details = $"{previous} → {plan.Status}; paid {paid:F2} of {plan.TotalAmount:F2}"
+            });
+        }
+
+        await db.SaveChangesAsync(ct);
+
+        _logger.LogInformation("Payment plan check: {Plans} plans, {Defaulted} newly defaulted, {Completed} completed, {Missed} missed installments",
+            plans.Count, defaulted, completed, missed);
+        return new PaymentPlanCheckResult(plans.Count, defaulted, completed, missed,
+            $"Checked {plans.Count} plans: {defaulted} newly defaulted, {completed} completed.");
+    }
+}
@@ -0,0 +1,62 @@
+using BuildingManagement.Core.Entities.Finance;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+/// <summary>
+/// How refunds and chargebacks move money off a payment's allocations and back.
+/// A refund reopens the charges the payment paid, the latest-due charge first, so the oldest debt stays settled.
+/// </summary>
+public static class PaymentRefundCalculator
+{
+    /// <summary>Refunds and chargebacks that still hold money back; a won chargeback returned its amount.</summary>
+    public static bool Counts(PaymentRefund r)
+        => r.Type == PaymentRefundType.Refund || r.ChargebackStatus != ChargebackStatus.Won;
+
+    /// <summary>What can still be refunded on the payment.</summary>
+    public static decimal Refundable(Payment payment, IEnumerable<PaymentRefund> refunds)
+        => payment.Status is PaymentStatus.Succeeded or PaymentStatus.Refunded
+            ? Math.Max(0, payment.Amount - refunds.Where(Counts).Sum(r => r.Amount))
+            : 0;
+
+    /// <summary>
+    /// Takes <paramref name="amount"/> off the payment's allocations and returns the part taken from each charge.
+    /// Needs each allocation's UnitCharge loaded. Whatever is left once the allocations are used up was never
+    /// allocated and reopens nothing.
+    /// </summary>
+    public static List<PaymentRefundAllocation> Reverse(IEnumerable<PaymentAllocation> allocations, decimal amount)
+    {
+        var result = new List<PaymentRefundAllocation>();
+        var remaining = amount;
+        foreach (var a in allocations.Where(a => a.AllocatedAmount > 0).OrderByDescending(a => a.UnitCharge.DueDate).ThenByDescending(a => a.Id))
+        {
+            if (remaining <= 0) break;
+            var take = Math.Min(a.AllocatedAmount, remaining);
+            a.AllocatedAmount -= take;
+            remaining -= take;
+            result.Add(new PaymentRefundAllocation { UnitChargeId = a.UnitChargeId, UnitCharge = a.UnitCharge, Amount = take });
+        }
+        return result;
+    }
+
+    /// <summary>
+    /// Puts a won chargeback back on the charges it reopened, capped at what each charge still owes
+    /// (the payer may have paid it again meanwhile). Returns the amount restored per charge.
+    /// Needs each allocation's UnitCharge and its allocations loaded.
+    /// </summary>
+    public static Dictionary<int, decimal> Restore(PaymentRefund chargeback, IEnumerable<PaymentAllocation> allocations)
+    {
+        var byCharge = allocations.GroupBy(a => a.UnitChargeId).ToDictionary(g => g.Key, g => g.First());
+        var restored = new Dictionary<int, decimal>();
+        foreach (var ra in chargeback.Allocations)
+        {
+            if (!byCharge.TryGetValue(ra.UnitChargeId, out var a)) continue;
+            var amount = Math.Min(ra.Amount - ra.RestoredAmount, PaymentPlanCalculator.Outstanding(a.UnitCharge));
+            if (amount <= 0) continue;
+            a.AllocatedAmount += amount;
+            ra.RestoredAmount += amount;
+            restored[ra.UnitChargeId] = amount;
+        }
+        return restored;
+    }
+}
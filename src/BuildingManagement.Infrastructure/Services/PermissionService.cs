@@ -0,0 +1,100 @@
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+/// <summary>An action on a resource, in one building or (BuildingId null) in every building.</summary>
+public record PermissionGrant(PermissionResource Resource, PermissionAction Action, int? BuildingId);
+
+/// <summary>
+/// What a user may do, per resource and building. Roles give the defaults: admins everything everywhere, managers
+/// everything except user administration in the buildings they manage, house committee members read-only reports
+/// for their own building. Permissions an admin granted come on top.
+/// </summary>
+public class PermissionService
+{
+    private static readonly PermissionResource[] ManagerResources =
+        Enum.GetValues<PermissionResource>().Where(r => r != PermissionResource.Users).ToArray();
+
+    private readonly AppDbContext _db;
+
+    // Scoped service, so this lives for one request
+    private readonly Dictionary<string, IReadOnlyList<PermissionGrant>> _cache = new();
+
+    public PermissionService(AppDbContext db) => _db = db;
+
+    public async Task<IReadOnlyList<PermissionGrant>> GetEffectiveAsync(string userId, CancellationToken ct = default)
+    {
+        if (_cache.TryGetValue(userId, out var cached)) return cached;
+
+        var roles = await (from ur in _db.UserRoles
+                           join r in _db.Roles on ur.RoleId equals r.Id
+                           where ur.UserId == userId
+                           select r.Name).ToListAsync(ct);
+
+        var grants = new List<PermissionGrant>();
+        if (roles.Contains(AppRoles.Admin))
+        {
+            grants.AddRange(Enum.GetValues<PermissionResource>().Select(r => new PermissionGrant(r, PermissionAction.Manage, null)));
+        }
+        else
+        {
+            if (roles.Contains(AppRoles.Manager))
+            {
+                var managed = await _db.BuildingManagers.Where(bm => bm.UserId == userId).Select(bm => bm.BuildingId).ToListAsync(ct);
+                grants.AddRange(from buildingId in managed
+                                from resource in ManagerResources
+                                select new PermissionGrant(resource, PermissionAction.Manage, buildingId));
+            }
+
+            if (roles.Contains(AppRoles.Tenant))
+            {
+                var committeeBuildings = await _db.TenantProfiles
+                    .Where(tp => tp.UserId == userId && tp.IsActive && tp.IsCommitteeMember)
+                    .Select(tp => tp.Unit.BuildingId)
+                    .Distinct()
+                    .ToListAsync(ct);
+                grants.AddRange(committeeBuildings.Select(b => new PermissionGrant(PermissionResource.Reports, PermissionAction.View, b)));
+            }
+
+            grants.AddRange(await _db.UserPermissions
+                .Where(p => p.UserId == userId)
+                .Select(p => new PermissionGrant(p.Resource, p.Action, p.BuildingId))
+                .ToListAsync(ct));
+        }
+
+        var effective = grants.Distinct().ToList();
+        _cache[userId] = effective;
+        return effective;
+    }
+
+    /// <summary>
+    /// True when the user may do <paramref name="action"/> on <paramref name="resource"/> in the building, or in at
+    /// least one building when <paramref name="buildingId"/> is null.
+    /// </summary>
+    public async Task<bool> CanAsync(string userId, PermissionResource resource, PermissionAction action, int? buildingId = null,
+        CancellationToken ct = default)
+        => (await GetEffectiveAsync(userId, ct))
+            .Any(g => Covers(g, resource, action) && (buildingId == null || g.BuildingId == null || g.BuildingId == buildingId));
+
+    /// <summary>The buildings the user may do <paramref name="action"/> on <paramref name="resource"/> in; null when every building.</summary>
+    public async Task<List<int>?> BuildingIdsAsync(string userId, PermissionResource resource, PermissionAction action = PermissionAction.View,
+        CancellationToken ct = default)
+    {
+        var matching = (await GetEffectiveAsync(userId, ct)).Where(g => Covers(g, resource, action)).ToList();
+        if (matching.Any(g => g.BuildingId == null)) return null;
+        return matching.Select(g => g.BuildingId!.Value).Distinct().ToList();
+    }
+
+    /// <summary>The buildings the user has any permission in, for building pickers; null when every building.</summary>
+    public async Task<List<int>?> AnyBuildingIdsAsync(string userId, CancellationToken ct = default)
+    {
+        var grants = await GetEffectiveAsync(userId, ct);
+        if (grants.Any(g => g.BuildingId == null)) return null;
+        return grants.Select(g => g.BuildingId!.Value).Distinct().ToList();
+    }
+
+    private static bool Covers(PermissionGrant grant, PermissionResource resource, PermissionAction action)
+        => grant.Resource == resource && grant.Action >= action;
+}
@@ -0,0 +1,47 @@
+using System.Collections.Concurrent;
+using BuildingManagement.Core.Interfaces;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+
+namespace BuildingManagement.Infrastructure.Services.Push;
+
+public record FakePushMessage(string Endpoint, string Title, string Body, string? Url, DateTime SentAt, string MessageId);
+
+/// <summary>
+/// Local stand-in for web push: browsers can subscribe (with the configured key, or a well-known demo key),
+/// but nothing reaches them — messages are kept for the outbox instead.
+/// </summary>
+public class FakePushSender : IPushSender
+{
+    // Public key of the web-push libraries' demo key pair; only good for subscribing in development
+    private const string DemoPublicKey = "BEl62iUYgUivxIkv69yViEuiBIa-Ib9-SkvMeAtA3LFgDzkrxZJjSgSnfckjBJuBkr3qBUYIHBQFLXYp5Nksh8U";
+
+    private readonly ILogger<FakePushSender> _logger;
+    private static readonly ConcurrentQueue<FakePushMessage> _sentMessages = new();
+    private const int MaxStoredMessages = 200;
+
+    public FakePushSender(IConfiguration config, ILogger<FakePushSender> logger)
+    {
+        _logger = logger;
+        PublicKey = string.IsNullOrEmpty(config["Push:VapidPublicKey"]) ? DemoPublicKey : config["Push:VapidPublicKey"];
+    }
+
+    public string ProviderName => "Fake";
+
+    public string? PublicKey { get; }
+
+    public Task<PushSendResult> SendAsync(PushTarget target, string title, string body, string? url, CancellationToken ct = default)
+    {
+        var msgId = $"FAKE-PUSH-{Guid.NewGuid():N}";
+        _logger.LogInformation("[FakePush] Endpoint: {Endpoint} | MsgId: {MsgId} | {Title}: {Body}", target.Endpoint, msgId, title, body);
+
+        _sentMessages.Enqueue(new FakePushMessage(target.Endpoint, title, body, url, DateTime.UtcNow, msgId));
+        while (_sentMessages.Count > MaxStoredMessages)
+            _sentMessages.TryDequeue(out _);
+
+        return Task.FromResult(new PushSendResult(true, msgId));
+    }
+
+    public static IReadOnlyList<FakePushMessage> GetRecentMessages(int count = 50)
+        => _sentMessages.Reverse().Take(count).ToList();
+}
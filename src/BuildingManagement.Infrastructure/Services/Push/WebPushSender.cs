@@ -0,0 +1,65 @@
+using System.Net;
+using System.Text.Json;
+using BuildingManagement.Core.Interfaces;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using WebPush;
+
+namespace BuildingManagement.Infrastructure.Services.Push;
+
+/// <summary>
+/// Web push (VAPID) through the browsers' push services, with the WebPush package.
+/// Set Push__VapidPublicKey, Push__VapidPrivateKey and Push__VapidSubject (mailto: or https: contact) in config/env.
+/// The service worker receives <c>{ title, body, url }</c> as JSON.
+/// </summary>
+public class WebPushSender : IPushSender
+{
+    private readonly WebPushClient _client;
+    private readonly IConfiguration _config;
+    private readonly ILogger<WebPushSender> _logger;
+
+    public WebPushSender(HttpClient http, IConfiguration config, ILogger<WebPushSender> logger)
+    {
+        _client = new WebPushClient(http);
+        _config = config;
+        _logger = logger;
+    }
+
+    public string ProviderName => "WebPush";
+
+    public string? PublicKey => string.IsNullOrEmpty(_config["Push:VapidPublicKey"]) ? null : _config["Push:VapidPublicKey"];
+
+    public async Task<PushSendResult> SendAsync(PushTarget target, string title, string body, string? url, CancellationToken ct = default)
+    {
+        var privateKey = _config["Push:VapidPrivateKey"];
+        var subject = _config["Push:VapidSubject"];
+        if (PublicKey == null || string.IsNullOrEmpty(privateKey) || string.IsNullOrEmpty(subject))
+        {
+            _logger.LogError("Web push is not configured. Set Push:VapidPublicKey, Push:VapidPrivateKey and Push:VapidSubject.");
+            return new PushSendResult(false, Error: "Web push not configured. Set Push:VapidPublicKey, Push:VapidPrivateKey and Push:VapidSubject in app settings.");
+        }
+
+        var payload = JsonSerializer.Serialize(new { title, body, url });
+        try
+        {
+            await _client.SendNotificationAsync(new PushSubscription(target.Endpoint, target.P256dh, target.Auth), payload,
+                new VapidDetails(subject, PublicKey, privateKey), ct);
+            return new PushSendResult(true, $"PUSH-{Guid.NewGuid():N}");
+        }
+        catch (WebPushException ex) when (ex.StatusCode is HttpStatusCode.NotFound or HttpStatusCode.Gone)
+        {
+            // The browser unsubscribed or the subscription expired
+            return new PushSendResult(false, Error: $"Subscription gone (HTTP {(int)ex.StatusCode}).", SubscriptionGone: true);
+        }
+        catch (WebPushException ex)
+        {
+            _logger.LogWarning(ex, "[WebPush] Push to {Endpoint} failed with HTTP {Status}", target.Endpoint, (int)ex.StatusCode);
+            return new PushSendResult(false, Error: $"Push service returned HTTP {(int)ex.StatusCode}: {ex.Message}");
+        }
+        catch (Exception ex) when (ex is HttpRequestException or ArgumentException)
+        {
+            _logger.LogWarning(ex, "[WebPush] Push to {Endpoint} failed", target.Endpoint);
+            return new PushSendResult(false, Error: ex.Message);
+        }
+    }
+}
@@ -0,0 +1,117 @@
+using System.Security.Cryptography;
+using System.Text;
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Configuration;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+/// <summary>
+/// Issues, rotates and revokes the refresh tokens behind browser sessions. A token is used once: refreshing revokes
+/// it and issues its replacement. Presenting a token that was rotated away more than a moment ago means it was
+/// copied, so every session of that user is revoked.
+/// </summary>
+public class RefreshTokenService
+{
+    /// <summary>Tabs that refresh at the same moment all send the same cookie; the late ones still get a session.</summary>
+    private static readonly TimeSpan RotationGracePeriod = TimeSpan.FromSeconds(30);
+
+    private readonly AppDbContext _db;
+
+    public RefreshTokenService(AppDbContext db, IConfiguration configuration)
+    {
+        _db = db;
+        LifetimeDays = int.TryParse(configuration["Jwt:RefreshTokenDays"], out var days) && days > 0 ? days : 14;
+    }
+
+    /// <summary>How long a session lasts without any refresh.</summary>
+    public int LifetimeDays { get; }
+
+    public async Task<(string Token, DateTime ExpiresAtUtc)> IssueAsync(string userId, string? ip, string? userAgent)
+    {
+        var now = DateTime.UtcNow;
+        _db.RefreshTokens.RemoveRange(await _db.RefreshTokens
+            .Where(t => t.UserId == userId && t.ExpiresAtUtc < now)
+            .ToListAsync());
+
+        var (token, entity) = NewToken(userId, now, ip, userAgent);
+        _db.RefreshTokens.Add(entity);
+        await _db.SaveChangesAsync();
+        return (token, entity.ExpiresAtUtc);
+    }
+
+    /// <summary>
+    /// Exchanges <paramref name="token"/> for a new one. Returns null for unknown, expired or revoked tokens.
+    /// </summary>
+    public async Task<(string UserId, string Token, DateTime ExpiresAtUtc)?> RotateAsync(string token, string? ip, string? userAgent)
+    {
+        var now = DateTime.UtcNow;
+        var hash = Hash(token);
+        var existing = await _db.RefreshTokens.FirstOrDefaultAsync(t => t.TokenHash == hash);
+        if (existing == null || existing.ExpiresAtUtc <= now) return null;
+
+        if (existing.RevokedAtUtc != null)
+        {
+            // The grace window only covers a rotation whose replacement is still live; a replay after the
+            // replacement was revoked (logout, theft detection) ends every session of the user.
+            var replacedBy = existing.ReplacedByTokenHash;
+            var justRotated = replacedBy != null && now - existing.RevokedAtUtc < RotationGracePeriod
+                && await _db.RefreshTokens.AnyAsync(t => t.TokenHash == replacedBy && t.RevokedAtUtc == null && t.ExpiresAtUtc > now);
+            if (!justRotated)
+            {
+                if (replacedBy != null)
+                    await RevokeAllAsync(existing.UserId);
+                return null;
+            }
+        }
+
+        var (newToken, replacement) = NewToken(existing.UserId, now, ip, userAgent);
+        _db.RefreshTokens.Add(replacement);
+        if (existing.RevokedAtUtc == null)
+        {
+            existing.RevokedAtUtc = now;
+            existing.ReplacedByTokenHash = replacement.TokenHash;
+        }
+        await _db.SaveChangesAsync();
+        return (existing.UserId, newToken, replacement.ExpiresAtUtc);
+    }
+
+    /// <summary>Ends the session of <paramref name="token"/>; unknown tokens are ignored.</summary>
+    public async Task RevokeAsync(string token)
+    {
+        var hash = Hash(token);
+        var existing = await _db.RefreshTokens.FirstOrDefaultAsync(t => t.TokenHash == hash && t.RevokedAtUtc == null);
+        if (existing == null) return;
+        existing.RevokedAtUtc = DateTime.UtcNow;
+        await _db.SaveChangesAsync();
+    }
+
+    public async Task RevokeAllAsync(string userId)
+    {
+        var now = DateTime.UtcNow;
+        var active = await _db.RefreshTokens
+            .Where(t => t.UserId == userId && t.RevokedAtUtc == null && t.ExpiresAtUtc > now)
+            .ToListAsync();
+        foreach (var t in active)
+            t.RevokedAtUtc = now;
+        await _db.SaveChangesAsync();
+    }
+
+    private (string Token, RefreshToken Entity) NewToken(string userId, DateTime now, string? ip, string? userAgent)
+    {
+        var token = Convert.ToBase64String(RandomNumberGenerator.GetBytes(64));
+        return (token, new RefreshToken
+        {
+            TokenHash = Hash(token),
+            UserId = userId,
+            CreatedAtUtc = now,
+            ExpiresAtUtc = now.AddDays(LifetimeDays),
+            CreatedByIp = ip,
+            UserAgent = userAgent
+        });
+    }
+
+    private static string Hash(string token)
+        => Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(token))).ToLowerInvariant();
+}
@@ -41,4 +41,11 @@ public class AzureAcsSmsSender : ISmsSender
         _logger.LogWarning("[AzureACS] Send not yet implemented. Would send to {To}: {Body}", toPhoneE164, message);
         return Task.FromResult(new SmsSendResult(false, Error: "AzureACS send not yet implemented. Use Fake provider for development."));
     }
+
+    /// <summary>
+    /// Delivery reports come through an Event Grid subscription to <c>SMSDeliveryReportReceived</c>; send requests
+    /// must ask for them (<c>enableDeliveryReport: true</c>). The receipts endpoint answers the subscription's
+    /// validation handshake.
+    /// </summary>
+    public IReadOnlyList<DeliveryReceipt> ParseDeliveryReceipts(string payload) => DeliveryReceipts.ParseAcsEventGrid(payload);
 }
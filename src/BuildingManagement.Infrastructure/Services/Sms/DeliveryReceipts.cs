@@ -0,0 +1,180 @@
+using System.Text.Json;
+using BuildingManagement.Core.Entities.Notifications;
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Core.Interfaces;
+
+namespace BuildingManagement.Infrastructure.Services.Sms;
+
+/// <summary>
+/// Parses providers' delivery receipts and rolls a reminder recipient's messages up into one delivery status.
+/// </summary>
+public static class DeliveryReceipts
+{
+    /// <summary>
+    /// Receipts of the Fake providers: <c>{ "messageId", "status": "delivered|undelivered|bounced", "error" }</c>,
+    /// or an array of them.
+    /// </summary>
+    public static IReadOnlyList<DeliveryReceipt> ParseSimple(string payload)
+    {
+        try
+        {
+            using var doc = JsonDocument.Parse(payload);
+            var items = doc.RootElement.ValueKind == JsonValueKind.Array
+                ? doc.RootElement.EnumerateArray().ToList()
+                : new List<JsonElement> { doc.RootElement };
+
+            var receipts = new List<DeliveryReceipt>();
+            foreach (var item in items)
+            {
+                if (item.ValueKind != JsonValueKind.Object) continue;
+                var messageId = item.TryGetProperty("messageId", out var mid) ? mid.GetString() : null;
+                var statusText = item.TryGetProperty("status", out var st) ? st.GetString()?.ToLowerInvariant() : null;
+                MessageDeliveryStatus? status = statusText switch
+                {
+                    "delivered" => MessageDeliveryStatus.Delivered,
+                    "undelivered" or "failed" => MessageDeliveryStatus.Undelivered,
+                    "bounced" => MessageDeliveryStatus.Bounced,
+                    _ => null
+                };
+                if (string.IsNullOrEmpty(messageId) || status == null) continue;
+
+                receipts.Add(new DeliveryReceipt(messageId, status.Value,
+                    item.TryGetProperty("error", out var err) ? err.GetString() : null,
+                    item.TryGetProperty("occurredAtUtc", out var at) && at.TryGetDateTime(out var occurred) ? occurred.ToUniversalTime() : null));
+            }
+            return receipts;
+        }
+        catch (JsonException)
+        {
+            return Array.Empty<DeliveryReceipt>();
+        }
+    }
+
+    /// <summary>
+    /// Azure Communication Services delivery reports, delivered through Event Grid as an array of
+    /// <c>Microsoft.Communication.SMSDeliveryReportReceived</c> events. Other event types are ignored.
+    /// </summary>
+    public static IReadOnlyList<DeliveryReceipt> ParseAcsEventGrid(string payload)
+    {
+        try
+        {
+            using var doc = JsonDocument.Parse(payload);
+            if (doc.RootElement.ValueKind != JsonValueKind.Array) return Array.Empty<DeliveryReceipt>();
+
+            var receipts = new List<DeliveryReceipt>();
+            foreach (var evt in doc.RootElement.EnumerateArray())
+            {
+                if (evt.ValueKind != JsonValueKind.Object
+                    || !evt.TryGetProperty("eventType", out var type) || type.GetString() != "Microsoft.Communication.SMSDeliveryReportReceived"
+                    || !evt.TryGetProperty("data", out var data) || data.ValueKind != JsonValueKind.Object)
+                    continue;
+
+                var messageId = data.TryGetProperty("messageId", out var mid) ? mid.GetString() : null;
+                if (string.IsNullOrEmpty(messageId)) continue;
+
+                var delivered = data.TryGetProperty("deliveryStatus", out var ds) && ds.GetString() == "Delivered";
+                receipts.Add(new DeliveryReceipt(messageId,
+                    delivered ? MessageDeliveryStatus.Delivered : MessageDeliveryStatus.Undelivered,
+                    delivered ? null : data.TryGetProperty("deliveryStatusDetails", out var details) ? details.GetString() : null,
+                    data.TryGetProperty("receivedTimestamp", out var at) && at.TryGetDateTime(out var received) ? received.ToUniversalTime() : null));
+            }
+            return receipts;
+        }
+        catch (JsonException)
+        {
+            return Array.Empty<DeliveryReceipt>();
+        }
+    }
+
+    /// <summary>
+    /// The code of the <c>Microsoft.EventGrid.SubscriptionValidationEvent</c> Event Grid sends once when the ACS
+    /// subscription is created; it only delivers reports after the endpoint answers
+    /// <c>{ "validationResponse": code }</c>. Null for any other payload.
+    /// </summary>
+    public static string? EventGridValidationCode(string payload)
+    {
+        try
+        {
+            using var doc = JsonDocument.Parse(payload);
+            if (doc.RootElement.ValueKind != JsonValueKind.Array) return null;
+
+            foreach (var evt in doc.RootElement.EnumerateArray())
+            {
+                if (evt.ValueKind == JsonValueKind.Object
+                    && evt.TryGetProperty("eventType", out var type) && type.GetString() == "Microsoft.EventGrid.SubscriptionValidationEvent"
+                    && evt.TryGetProperty("data", out var data) && data.ValueKind == JsonValueKind.Object
+                    && data.TryGetProperty("validationCode", out var code) && code.ValueKind == JsonValueKind.String)
+                    return code.GetString();
+            }
+            return null;
+        }
+        catch (JsonException)
+        {
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// WhatsApp Cloud API webhook: <c>entry[].changes[].value.statuses[]</c>. A read message counts as delivered,
+    /// a failed one as undelivered; "sent" only confirms the hand-off and is skipped.
+    /// </summary>
+    public static IReadOnlyList<DeliveryReceipt> ParseMetaWhatsApp(string payload)
+    {
+        try
+        {
+            using var doc = JsonDocument.Parse(payload);
+            if (!doc.RootElement.TryGetProperty("entry", out var entries) || entries.ValueKind != JsonValueKind.Array)
+                return Array.Empty<DeliveryReceipt>();
+
+            var receipts = new List<DeliveryReceipt>();
+            var statuses = entries.EnumerateArray()
+                .Where(e => e.TryGetProperty("changes", out var c) && c.ValueKind == JsonValueKind.Array)
+                .SelectMany(e => e.GetProperty("changes").EnumerateArray())
+                .Where(c => c.TryGetProperty("value", out var v) && v.TryGetProperty("statuses", out var s) && s.ValueKind == JsonValueKind.Array)
+                .SelectMany(c => c.GetProperty("value").GetProperty("statuses").EnumerateArray());
+            foreach (var st in statuses)
+            {
+                var messageId = st.TryGetProperty("id", out var mid) ? mid.GetString() : null;
+                MessageDeliveryStatus? status = (st.TryGetProperty("status", out var s) ? s.GetString() : null) switch
+                {
+                    "delivered" or "read" => MessageDeliveryStatus.Delivered,
+                    "failed" => MessageDeliveryStatus.Undelivered,
+                    _ => null
+                };
+                if (string.IsNullOrEmpty(messageId) || status == null) continue;
+
+                string? error = null;
+                if (st.TryGetProperty("errors", out var errors) && errors.ValueKind == JsonValueKind.Array && errors.GetArrayLength() > 0)
+                    error = errors[0].TryGetProperty("title", out var title) ? title.GetString() : null;
+                DateTime? occurred = st.TryGetProperty("timestamp", out var ts) && long.TryParse(ts.GetString(), out var unix)
+                    ? DateTimeOffset.FromUnixTimeSeconds(unix).UtcDateTime
+                    : null;
+                receipts.Add(new DeliveryReceipt(messageId, status.Value, error, occurred));
+            }
+            return receipts;
+        }
+        catch (Exception ex) when (ex is JsonException or InvalidOperationException)
+        {
+            return Array.Empty<DeliveryReceipt>();
+        }
+    }
+
+    /// <summary>
+    /// Delivery of one attempt sent on several channels: delivered once any message arrived, pending while any
+    /// still waits for its receipt, bounced when every message bounced, otherwise undelivered.
+    /// </summary>
+    public static MessageDeliveryStatus Rollup(IReadOnlyCollection<SmsCampaignDelivery> attemptDeliveries)
+    {
+        if (attemptDeliveries.Any(d => d.Status == MessageDeliveryStatus.Delivered)) return MessageDeliveryStatus.Delivered;
+        if (attemptDeliveries.Count == 0 || attemptDeliveries.Any(d => d.Status == MessageDeliveryStatus.Pending)) return MessageDeliveryStatus.Pending;
+        return attemptDeliveries.All(d => d.Status == MessageDeliveryStatus.Bounced)
+            ? MessageDeliveryStatus.Bounced
+            : MessageDeliveryStatus.Undelivered;
+    }
+
+    /// <summary>A selected recipient the reminder did not reach: failed or skipped at send, or undelivered or bounced since.</summary>
+    public static bool IsRetryable(SmsCampaignRecipient r)
+        => r.IsSelected
+           && (r.SendStatus is SmsSendStatus.Failed or SmsSendStatus.Skipped
+               || r.DeliveryStatus is MessageDeliveryStatus.Undelivered or MessageDeliveryStatus.Bounced);
+}
@@ -28,6 +28,9 @@ public class FakeSmsSender : ISmsSender
         return Task.FromResult(new SmsSendResult(true, msgId));
     }
 
+    /// <summary>Simulated receipts, posted by hand: { "messageId", "status": "delivered|undelivered|bounced", "error" }.</summary>
+    public IReadOnlyList<DeliveryReceipt> ParseDeliveryReceipts(string payload) => DeliveryReceipts.ParseSimple(payload);
+
     /// <summary>Get last N fake messages for debugging.</summary>
     public static IReadOnlyList<FakeSmsMessage> GetRecentMessages(int count = 50)
         => _sentMessages.Reverse().Take(count).ToList();
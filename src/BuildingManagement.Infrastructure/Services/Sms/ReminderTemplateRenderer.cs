@@ -0,0 +1,44 @@
+using System.Text.RegularExpressions;
+
+namespace BuildingManagement.Infrastructure.Services.Sms;
+
+/// <summary>
+/// Fills the placeholders of a reminder template: {{FullName}}, {{BuildingName}}, {{UnitNumber}}, {{Period}},
+/// {{AmountDue}}, {{Outstanding}}, {{PayLink}}. Shared by reminder campaigns, the dunning schedule and the template editor.
+/// </summary>
+public static class ReminderTemplateRenderer
+{
+    public const string PayLink = "https://app.homehero.co.il/my-charges";
+
+    /// <summary>Every placeholder a template may use, in the order the template editor offers them.</summary>
+    public static readonly IReadOnlyList<string> Placeholders =
+        ["FullName", "BuildingName", "UnitNumber", "Period", "AmountDue", "Outstanding", "PayLink"];
+
+    private static readonly Regex PlaceholderPattern = new(@"\{\{\s*(\w+)\s*\}\}", RegexOptions.Compiled);
+
+    /// <param name="payLink">The recipient's own payment link; the generic My Charges page when null.</param>
+    public static string Render(string template, string fullName, string buildingName, string unitNumber,
+        string period, decimal amountDue, decimal outstanding, string? payLink = null)
+        => template
+            .Replace("{{FullName}}", fullName)
+            .Replace("{{BuildingName}}", buildingName)
+            .Replace("{{UnitNumber}}", unitNumber)
+            .Replace("{{Period}}", period)
+            .Replace("{{AmountDue}}", amountDue.ToString("F2"))
+            .Replace("{{Outstanding}}", outstanding.ToString("F2"))
+            .Replace("{{PayLink}}", payLink ?? PayLink);
+
+    /// <summary>Placeholders in the text that the renderer would leave untouched (typos, unknown names, stray spaces).</summary>
+    public static List<string> UnknownPlaceholders(string? template)
+        => string.IsNullOrEmpty(template)
+            ? new List<string>()
+            : PlaceholderPattern.Matches(template)
+                .Where(m => m.Value != $"{{{{{m.Groups[1].Value}}}}}" || !Placeholders.Contains(m.Groups[1].Value))
+                .Select(m => m.Value)
+                .Distinct()
+                .ToList();
+
+    /// <summary>Plain-text message as an HTML email body, right-to-left unless the template is in English.</summary>
+    public static string ToEmailHtml(string message, string language = "he")
+        => $"<div dir=\"{(language == "en" ? "ltr" : "rtl")}\" style=\"font-family:Arial,sans-serif;font-size:14px;line-height:1.6\">{message.Replace("\n", "<br/>")}</div>";
+}
@@ -0,0 +1,73 @@
+using System.Globalization;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+/// <summary>
+/// Splits a special assessment budget between units and each unit's share into installments.
+/// All amounts are whole agorot; rounding leftovers go to the largest shares and to the last installment,
+/// so shares always add up to the budget and installments to the share.
+/// </summary>
+public static class SpecialAssessmentCalculator
+{
+    public static Dictionary<int, decimal> AllocateShares(
+        decimal totalBudget, AssessmentAllocationMethod method,
+        IReadOnlyCollection<(int UnitId, decimal? SizeSqm)> units)
+    {
+        var weights = units.ToDictionary(
+            u => u.UnitId,
+            u => method == AssessmentAllocationMethod.BySqm ? Math.Max(0, u.SizeSqm ?? 0) : 1m);
+        var totalWeight = weights.Values.Sum();
+        if (totalWeight <= 0)
+            throw new InvalidOperationException(method == AssessmentAllocationMethod.BySqm
+                ? "No unit in this building has a size set; cannot allocate by sqm."
+                : "This building has no units.");
+
+        var totalCents = (long)Math.Round(totalBudget * 100m, MidpointRounding.AwayFromZero);
+        var exact = weights.ToDictionary(w => w.Key, w => totalCents * w.Value / totalWeight);
+        var cents = exact.ToDictionary(e => e.Key, e => (long)Math.Floor(e.Value));
+
+        // Largest remainder: hand out the leftover agorot one by one
+        var leftover = totalCents - cents.Values.Sum();
+        foreach (var unitId in exact.OrderByDescending(e => e.Value - Math.Floor(e.Value)).ThenBy(e => e.Key).Select(e => e.Key))
+        {
+            if (leftover <= 0) break;
+            cents[unitId]++;
+            leftover--;
+        }
+
+        return cents.Where(c => c.Value > 0).ToDictionary(c => c.Key, c => c.Value / 100m);
+    }
+
+    /// <summary>Amount of installment <paramref name="installmentNumber"/> (1-based) of a share.</summary>
+    public static decimal InstallmentAmount(decimal share, int installmentCount, int installmentNumber)
+    {
+        var regular = Math.Floor(share * 100m / installmentCount) / 100m;
+        return installmentNumber < installmentCount
+            ? regular
+            : share - regular * (installmentCount - 1);
+    }
+
+    /// <summary>Billing period (YYYY-MM) of installment <paramref name="installmentNumber"/> (1-based).</summary>
+    public static string InstallmentPeriod(string startPeriod, int installmentNumber)
+        => ParsePeriod(startPeriod).AddMonths(installmentNumber - 1).ToString("yyyy-MM", CultureInfo.InvariantCulture);
+
+    /// <summary>Installment number billed in <paramref name="period"/>, or null if the period is outside the schedule.</summary>
+    public static int? InstallmentNumberFor(string startPeriod, int installmentCount, string period)
+    {
+        var start = ParsePeriod(startPeriod);
+        var target = ParsePeriod(period);
+        var n = (target.Year - start.Year) * 12 + target.Month - start.Month + 1;
+        return n >= 1 && n <= installmentCount ? n : null;
+    }
+
+    /// <summary>Installments fall due on the last day of their month, like monthly HOA charges.</summary>
+    public static DateTime DueDate(string period)
+        => DateTime.SpecifyKind(ParsePeriod(period).AddMonths(1).AddDays(-1), DateTimeKind.Utc);
+
+    public static bool IsValidPeriod(string? period)
+        => period != null && DateTime.TryParseExact(period, "yyyy-MM", CultureInfo.InvariantCulture, DateTimeStyles.None, out _);
+
+    private static DateTime ParsePeriod(string period)
+        => DateTime.ParseExact(period, "yyyy-MM", CultureInfo.InvariantCulture);
+}
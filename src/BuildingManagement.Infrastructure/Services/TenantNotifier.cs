@@ -0,0 +1,146 @@
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Core.Interfaces;
+using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services.Sms;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+public class TenantNotifier : ITenantNotifier
+{
+    private const int MaxSmsBodyLength = 300;
+
+    private readonly AppDbContext _db;
+    private readonly ISmsSender _smsSender;
+    private readonly IEmailSender _emailSender;
+    private readonly IWhatsAppSender _whatsAppSender;
+    private readonly IPushSender _pushSender;
+    private readonly SmsRateLimiter _rateLimiter;
+    private readonly ILogger<TenantNotifier> _logger;
+
+    public TenantNotifier(AppDbContext db, ISmsSender smsSender, IEmailSender emailSender, IWhatsAppSender whatsAppSender,
+        IPushSender pushSender, SmsRateLimiter rateLimiter, ILogger<TenantNotifier> logger)
+    {
+        _db = db;
+        _smsSender = smsSender;
+        _emailSender = emailSender;
+        _whatsAppSender = whatsAppSender;
+        _pushSender = pushSender;
+        _rateLimiter = rateLimiter;
+        _logger = logger;
+    }
+
+    public Task<TenantNotifyResult> NotifyAsync(int tenantProfileId, TenantNotification notification, CancellationToken ct = default)
+        => NotifyAsync(tenantProfileId, _ => notification, ct);
+
+    public async Task<TenantNotifyResult?> NotifyUserAsync(string userId, int buildingId, int? unitId,
+        Func<NotificationRecipient, TenantNotification> build, CancellationToken ct = default)
+    {
+        var tenantId = await _db.TenantProfiles
+            .Where(t => t.UserId == userId && t.Unit.BuildingId == buildingId && t.IsActive && !t.IsDeleted)
+            .OrderByDescending(t => t.UnitId == unitId)
+            .Select(t => (int?)t.Id)
+            .FirstOrDefaultAsync(ct);
+        return tenantId == null ? null : await NotifyAsync(tenantId.Value, build, ct);
+    }
+
+    public async Task<TenantNotifyResult> NotifyAsync(int tenantProfileId, Func<NotificationRecipient, TenantNotification> build, CancellationToken ct = default)
+    {
+        var tenant = await _db.TenantProfiles.Include(t => t.User).FirstOrDefaultAsync(t => t.Id == tenantProfileId, ct);
+        if (tenant == null) return new TenantNotifyResult(false, Error: "Tenant not found");
+
+        var language = tenant.User?.PreferredLanguage ?? "he";
+        var notification = build(new NotificationRecipient(tenant.FullName, language));
+
+        var prefs = await _db.TenantNotificationPreferences.FirstOrDefaultAsync(p => p.TenantProfileId == tenantProfileId, ct);
+        var channel = prefs?.PreferredChannel ?? ReminderChannel.Email;
+        var now = DateTime.UtcNow;
+        var blocked = NotificationPolicy.BlockReason(prefs, notification.Kind, channel, now, tenant.MarketingConsent);
+        if (blocked == NotificationPolicy.QuietHoursReason
+            && NotificationPolicy.BlockReason(prefs, notification.Kind, ReminderChannel.Email, now, tenant.MarketingConsent) == null)
+        {
+            channel = ReminderChannel.Email;
+            blocked = null;
+        }
+        if (blocked != null)
+            return new TenantNotifyResult(false, channel, blocked);
+
+        var link = notification.Url != null ? $"\n{notification.Url}" : "";
+
+        try
+        {
+            switch (channel)
+            {
+                case ReminderChannel.Sms:
+                {
+                    var phone = PhoneNormalizer.NormalizeIsraeli(tenant.Phone);
+                    if (string.IsNullOrEmpty(phone) || !PhoneNormalizer.IsValidIsraeliMobile(phone))
+                        return new TenantNotifyResult(false, channel, "Invalid or missing phone number");
+
+                    var body = notification.Body.Length > MaxSmsBodyLength ? notification.Body[..MaxSmsBodyLength] + "…" : notification.Body;
+                    await _rateLimiter.WaitForSlotAsync();
+                    var result = await _smsSender.SendAsync(phone, $"{notification.Title}\n{body}{link}", ct);
+                    return new TenantNotifyResult(result.Success, channel, result.Error);
+                }
+                case ReminderChannel.WhatsApp:
+                {
+                    var phone = PhoneNormalizer.NormalizeIsraeli(tenant.Phone);
+                    if (string.IsNullOrEmpty(phone) || !PhoneNormalizer.IsValidIsraeliMobile(phone))
+                        return new TenantNotifyResult(false, channel, "Invalid or missing phone number");
+
+                    var result = await _whatsAppSender.SendTemplateAsync(phone, notification.Kind, language, notification.WhatsAppParameters, ct);
+                    return new TenantNotifyResult(result.Success, channel, result.Error);
+                }
+                case ReminderChannel.Push:
+                {
+                    if (string.IsNullOrEmpty(tenant.UserId))
+                        return new TenantNotifyResult(false, channel, "No push subscription");
+
+                    var result = await PushToUserAsync(tenant.UserId, notification.Title, notification.Body, notification.Url, ct);
+                    return new TenantNotifyResult(result.Success, channel, result.Error);
+                }
+                default:
+                {
+                    var email = tenant.Email ?? tenant.User?.Email;
+                    if (string.IsNullOrWhiteSpace(email))
+                        return new TenantNotifyResult(false, ReminderChannel.Email, "Missing email address");
+
+                    var html = ReminderTemplateRenderer.ToEmailHtml($"{notification.Body}{(notification.Url != null ? $"\n\n{notification.Url}" : "")}", language);
+                    var result = await _emailSender.SendAsync(email, notification.Title, html, ct);
+                    return new TenantNotifyResult(result.Success, ReminderChannel.Email, result.Error);
+                }
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "{Kind} notification to tenant {TenantProfileId} by {Channel} failed", notification.Kind, tenantProfileId, channel);
+            return new TenantNotifyResult(false, channel, ex.Message);
+        }
+    }
+
+    public async Task<PushSendResult> PushToUserAsync(string userId, string title, string body, string? url, CancellationToken ct = default)
+    {
+        var subscriptions = await _db.PushSubscriptions.Where(s => s.UserId == userId).ToListAsync(ct);
+        if (subscriptions.Count == 0) return new PushSendResult(false, Error: "No push subscription");
+
+        string? messageId = null, lastError = null;
+        foreach (var subscription in subscriptions)
+        {
+            var result = await _pushSender.SendAsync(new PushTarget(subscription.Endpoint, subscription.P256dh, subscription.Auth), title, body, url, ct);
+            if (result.Success)
+            {
+                messageId ??= result.MessageId;
+                subscription.LastSuccessAtUtc = DateTime.UtcNow;
+            }
+            else
+            {
+                lastError = result.Error;
+                if (result.SubscriptionGone) _db.PushSubscriptions.Remove(subscription);
+            }
+        }
+
+        await _db.SaveChangesAsync(ct);
+        return messageId != null ? new PushSendResult(true, messageId) : new PushSendResult(false, Error: lastError ?? "Push send failed");
+    }
+}
@@ -0,0 +1,272 @@
+using System.Security.Cryptography;
+using System.Text;
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Core.Entities.Notifications;
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Core.Interfaces;
+using BuildingManagement.Infrastructure.Data;
+using BuildingManagement.Infrastructure.Services.Sms;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+/// <summary>
+/// How tenants get linked to their unit: by accepting an invitation a manager sent for a known tenant profile, or by
+/// registering themselves and waiting for a manager to approve the apartment they named.
+/// </summary>
+public class TenantOnboardingService
+{
+    public const int InvitationDays = 14;
+
+    private readonly AppDbContext _db;
+    private readonly ISmsSender _smsSender;
+    private readonly IEmailSender _emailSender;
+    private readonly SmsRateLimiter _rateLimiter;
+    private readonly ILogger<TenantOnboardingService> _logger;
+
+    public TenantOnboardingService(AppDbContext db, ISmsSender smsSender, IEmailSender emailSender, SmsRateLimiter rateLimiter,
+        ILogger<TenantOnboardingService> logger)
+    {
+        _db = db;
+        _smsSender = smsSender;
+        _emailSender = emailSender;
+        _rateLimiter = rateLimiter;
+        _logger = logger;
+    }
+
+    // ─── Invitations ─────────────────────────────────────
+
+    /// <summary>
+    /// Sends a sign-up link for <paramref name="tenant"/> by SMS or email and revokes earlier links. The tenant must
+    /// be loaded with Unit and Unit.Building. Returns the error instead when the link can't be sent.
+    /// </summary>
+    public async Task<(TenantInvitation? Invitation, string? Error)> InviteAsync(TenantProfile tenant, ReminderChannel channel,
+        string language, string frontendBase, string? invitedByUserId, CancellationToken ct = default)
+    {
+        if (tenant.UserId != null)
+            return (null, "The tenant already has an account.");
+        if (!tenant.IsActive)
+            return (null, "Only current tenants can be invited.");
+
+        string sentTo;
+        if (channel == ReminderChannel.Sms)
+        {
+            var phone = PhoneNormalizer.NormalizeIsraeli(tenant.Phone);
+            if (string.IsNullOrEmpty(phone) || !PhoneNormalizer.IsValidIsraeliMobile(phone))
+                return (null, "The tenant has no valid mobile number.");
+            sentTo = phone;
+        }
+        else if (channel == ReminderChannel.Email)
+        {
+            if (string.IsNullOrWhiteSpace(tenant.Email))
+                return (null, "The tenant has no email address.");
+            sentTo = tenant.Email.Trim();
+        }
+        else
+        {
+            return (null, "Invitations are sent by SMS or email.");
+        }
+
+        var now = DateTime.UtcNow;
+        foreach (var earlier in await PendingInvitations(tenant.Id, now).ToListAsync(ct))
+            earlier.RevokedAtUtc = now;
+
+        var token = Convert.ToBase64String(RandomNumberGenerator.GetBytes(32)).TrimEnd('=').Replace('+', '-').Replace('/', '_');
+        var invitation = new TenantInvitation
+        {
+            TokenHash = Hash(token),
+            TenantProfileId = tenant.Id,
+            Channel = channel,
+            SentTo = sentTo,
+            Language = language == "en" ? "en" : "he",
+            InvitedByUserId = invitedByUserId,
+            CreatedAtUtc = now,
+            ExpiresAtUtc = now.AddDays(InvitationDays)
+        };
+        _db.TenantInvitations.Add(invitation);
+        await _db.SaveChangesAsync(ct);
+
+        var url = $"{frontendBase}/invite/{token}";
+        var unitLabel = $"{tenant.Unit.Building.Name}, {(invitation.Language == "en" ? "apt." : "דירה")} {tenant.Unit.UnitNumber}";
+        var text = AccountEmailTexts.TenantInvitation(invitation.Language, tenant.FullName, unitLabel, url);
+
+        string? error;
+        if (channel == ReminderChannel.Sms)
+        {
+            await _rateLimiter.WaitForSlotAsync();
+            var sms = await _smsSender.SendAsync(sentTo, text.SmsBody, ct);
+            error = sms.Success ? null : sms.Error ?? "Send failed";
+        }
+        else
+        {
+            var email = await _emailSender.SendAsync(sentTo, text.Email.Subject, text.Email.HtmlBody, ct);
+            error = email.Success ? null : email.Error ?? "Send failed";
+        }
+        if (error != null)
+        {
+            _logger.LogWarning("Invitation for tenant {TenantProfileId} by {Channel} failed: {Error}", tenant.Id, channel, error);
+            invitation.RevokedAtUtc = DateTime.UtcNow;
+            await _db.SaveChangesAsync(ct);
+            return (null, $"The invitation could not be sent: {error}");
+        }
+
+        return (invitation, null);
+    }
+
+    /// <summary>The open invitation behind <paramref name="token"/>, with its tenant, unit and building; null when used, replaced or expired.</summary>
+    public Task<TenantInvitation?> FindInvitationAsync(string token, CancellationToken ct = default)
+    {
+        var hash = Hash(token);
+        var now = DateTime.UtcNow;
+        return _db.TenantInvitations
+            .Include(i => i.TenantProfile).ThenInclude(tp => tp.Unit).ThenInclude(u => u.Building)
+            .FirstOrDefaultAsync(i => i.TokenHash == hash && i.AcceptedAtUtc == null && i.RevokedAtUtc == null
+                && i.ExpiresAtUtc > now && i.TenantProfile.UserId == null && i.TenantProfile.IsActive, ct);
+    }
+
+    /// <summary>Links the new account to the invited tenant profile and its unit, and records the consent given on the invitation page.</summary>
+    public async Task AcceptInvitationAsync(TenantInvitation invitation, ApplicationUser user, bool marketingConsent,
+        string? ip, string? userAgent, CancellationToken ct = default)
+    {
+        var tenant = invitation.TenantProfile;
+        var now = DateTime.UtcNow;
+
+        invitation.AcceptedAtUtc = now;
+        tenant.UserId = user.Id;
+        tenant.Email = user.Email;
+        tenant.MarketingConsent = marketingConsent;
+        tenant.TermsAcceptedAtUtc = now;
+        tenant.UpdatedBy = user.Id;
+        LinkUnit(tenant.Unit, user, tenant.PropertyRole);
+
+        // Other links sent to the same tenant stop working
+        foreach (var other in await PendingInvitations(tenant.Id, now).Where(i => i.Id != invitation.Id).ToListAsync(ct))
+            other.RevokedAtUtc = now;
+
+        LogConsent(tenant, user.Id, marketingConsent, "Invitation", ip, userAgent);
+        await _db.SaveChangesAsync(ct);
+    }
+
+    // ─── Self-registration approval ──────────────────────
+
+    /// <summary>
+    /// Links the registered tenant to <paramref name="unit"/>: a resident becomes the unit's active tenant, an owner
+    /// or landlord its owner, and the tenant is told by email. The registration must be loaded with User and Building.
+    /// Returns the tenant profile created for a resident.
+    /// </summary>
+    public async Task<TenantProfile?> ApproveRegistrationAsync(TenantRegistration registration, Unit unit, string reviewerId,
+        string frontendBase, CancellationToken ct = default)
+    {
+        var user = registration.User;
+        var now = DateTime.UtcNow;
+
+        registration.Status = TenantRegistrationStatus.Approved;
+        registration.UnitId = unit.Id;
+        registration.ReviewedByUserId = reviewerId;
+        registration.ReviewedAtUtc = now;
+        registration.UpdatedBy = reviewerId;
+
+        LinkUnit(unit, user, registration.PropertyRole);
+
+        // A landlord owns the unit without living in it, so only residents get a tenant profile
+        TenantProfile? tenant = null;
+        if (registration.PropertyRole != PropertyRole.Landlord)
+        {
+            foreach (var current in await _db.TenantProfiles.Where(tp => tp.UnitId == unit.Id && tp.IsActive).ToListAsync(ct))
+            {
+                current.IsActive = false;
+                current.MoveOutDate ??= now;
+            }
+
+            tenant = new TenantProfile
+            {
+                UnitId = unit.Id,
+                UserId = user.Id,
+                FullName = user.FullName,
+                Phone = user.Phone,
+                Email = user.Email,
+                MoveInDate = now,
+                IsActive = true,
+                PropertyRole = registration.PropertyRole,
+                IsCommitteeMember = registration.IsCommitteeMember,
+                MarketingConsent = registration.MarketingConsent,
+                TermsAcceptedAtUtc = registration.TermsAcceptedAtUtc,
+                CreatedBy = reviewerId
+            };
+            _db.TenantProfiles.Add(tenant);
+            LogConsent(tenant, user.Id, registration.MarketingConsent, "Registration", registration.IpAddress, registration.UserAgent,
+                registration.TermsAcceptedAtUtc);
+        }
+
+        await _db.SaveChangesAsync(ct);
+
+        var unitLabel = $"{registration.Building.Name}, {(user.PreferredLanguage == "en" ? "apt." : "דירה")} {unit.UnitNumber}";
+        await SendReviewEmailAsync(user, AccountEmailTexts.RegistrationApproved(user.PreferredLanguage, user.FullName, unitLabel, frontendBase), ct);
+        return tenant;
+    }
+
+    public async Task RejectRegistrationAsync(TenantRegistration registration, string? reason, string reviewerId, CancellationToken ct = default)
+    {
+        registration.Status = TenantRegistrationStatus.Rejected;
+        registration.RejectionReason = string.IsNullOrWhiteSpace(reason) ? null : reason.Trim();
+        registration.ReviewedByUserId = reviewerId;
+        registration.ReviewedAtUtc = DateTime.UtcNow;
+        registration.UpdatedBy = reviewerId;
+        await _db.SaveChangesAsync(ct);
+
+        var user = registration.User;
+        await SendReviewEmailAsync(user, AccountEmailTexts.RegistrationRejected(user.PreferredLanguage, user.FullName, registration.RejectionReason), ct);
+    }
+
+    // ─── Helpers ─────────────────────────────────────────
+
+    private async Task SendReviewEmailAsync(ApplicationUser user, AccountEmail email, CancellationToken ct)
+    {
+        if (string.IsNullOrEmpty(user.Email)) return;
+        var result = await _emailSender.SendAsync(user.Email, email.Subject, email.HtmlBody, ct);
+        if (!result.Success)
+            _logger.LogWarning("Registration review email to {Email} failed: {Error}", user.Email, result.Error);
+    }
+
+    private IQueryable<TenantInvitation> PendingInvitations(int tenantProfileId, DateTime now)
+        => _db.TenantInvitations.Where(i => i.TenantProfileId == tenantProfileId
+            && i.AcceptedAtUtc == null && i.RevokedAtUtc == null && i.ExpiresAtUtc > now);
+
+    /// <summary>Owners and landlords are linked as the unit owner for owner-billed charges; owners and renters live in it.</summary>
+    private static void LinkUnit(Unit unit, ApplicationUser user, PropertyRole role)
+    {
+        if (role != PropertyRole.Landlord)
+            unit.TenantUserId = user.Id;
+        if (role != PropertyRole.Renter)
+        {
+            unit.OwnerUserId = user.Id;
+            unit.OwnerName = user.FullName;
+            unit.OwnerPhone = user.Phone;
+            unit.OwnerEmail = user.Email;
+        }
+    }
+
+    /// <summary>What the tenant agreed to when joining is the first entry of their consent record.</summary>
+    private void LogConsent(TenantProfile tenant, string userId, bool marketingConsent, string source, string? ip, string? userAgent,
+        DateTime? atUtc = null)
+    {
+        foreach (var (setting, value) in new[] { ("Terms", "Accepted"), ("MarketingConsent", marketingConsent.ToString()) })
+        {
+            _db.NotificationConsentLogs.Add(new NotificationConsentLog
+            {
+                TenantProfile = tenant,
+                Setting = setting,
+                NewValue = value,
+                Source = source,
+                ChangedByUserId = userId,
+                IpAddress = ip,
+                UserAgent = userAgent,
+                ChangedAtUtc = atUtc ?? DateTime.UtcNow
+            });
+        }
+    }
+
+    private static string Hash(string token)
+        => Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(token))).ToLowerInvariant();
+}
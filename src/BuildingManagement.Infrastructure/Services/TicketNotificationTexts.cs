@@ -0,0 +1,52 @@
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Core.Interfaces;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+/// <summary>Ticket update notifications to the submitting tenant, in their language.</summary>
+public static class TicketNotificationTexts
+{
+    private const int MaxReplyPreviewLength = 200;
+
+    public static TenantNotification StatusChanged(NotificationRecipient tenant, int ticketId, ServiceRequestStatus status, string url)
+    {
+        var statusText = tenant.Language == "en" ? status.ToString() : HebrewStatus(status);
+        return tenant.Language == "en"
+            ? new TenantNotification(NotificationKind.TicketUpdate,
+                $"Service Request #{ticketId}: {statusText}",
+                $"The status of your service request #{ticketId} changed to {statusText}.",
+                url, [tenant.FullName, ticketId.ToString(), statusText, url])
+            : new TenantNotification(NotificationKind.TicketUpdate,
+                $"קריאת שירות #{ticketId}: {statusText}",
+                $"הסטטוס של קריאת השירות #{ticketId} שלך השתנה ל{statusText}.",
+                url, [tenant.FullName, ticketId.ToString(), statusText, url]);
+    }
+
+    /// <summary>The WhatsApp ticket template has no text parameter, so the reply goes as the status "new reply".</summary>
+    public static TenantNotification NewReply(NotificationRecipient tenant, int ticketId, string senderName, string text, string url)
+    {
+        var preview = text.Length > MaxReplyPreviewLength ? text[..MaxReplyPreviewLength] + "…" : text;
+        return tenant.Language == "en"
+            ? new TenantNotification(NotificationKind.TicketUpdate,
+                $"Service Request #{ticketId}: new reply",
+                $"{senderName}: {preview}",
+                url, [tenant.FullName, ticketId.ToString(), "new reply", url])
+            : new TenantNotification(NotificationKind.TicketUpdate,
+                $"קריאת שירות #{ticketId}: תגובה חדשה",
+                $"{senderName}: {preview}",
+                url, [tenant.FullName, ticketId.ToString(), "תגובה חדשה", url]);
+    }
+
+    private static string HebrewStatus(ServiceRequestStatus status) => status switch
+    {
+        ServiceRequestStatus.New => "חדש",
+        ServiceRequestStatus.InReview => "בבדיקה",
+        ServiceRequestStatus.Approved => "מאושר",
+        ServiceRequestStatus.Assigned => "הוקצה לספק",
+        ServiceRequestStatus.InProgress => "בביצוע",
+        ServiceRequestStatus.Resolved => "נפתר",
+        ServiceRequestStatus.Closed => "סגור",
+        ServiceRequestStatus.Rejected => "נדחה",
+        _ => status.ToString()
+    };
+}
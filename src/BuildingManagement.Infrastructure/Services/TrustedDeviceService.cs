@@ -0,0 +1,64 @@
+using System.Security.Cryptography;
+using System.Text;
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Infrastructure.Data;
+using Microsoft.EntityFrameworkCore;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+/// <summary>Browsers that may skip the two-factor code for <see cref="TrustDays"/> days after a successful verification.</summary>
+public class TrustedDeviceService
+{
+    public const int TrustDays = 30;
+
+    private readonly AppDbContext _db;
+
+    public TrustedDeviceService(AppDbContext db) => _db = db;
+
+    public async Task<(string Token, DateTime ExpiresAtUtc)> TrustAsync(string userId, string? ip, string? userAgent)
+    {
+        var now = DateTime.UtcNow;
+        _db.TrustedDevices.RemoveRange(await _db.TrustedDevices
+            .Where(d => d.UserId == userId && d.ExpiresAtUtc < now)
+            .ToListAsync());
+
+        var token = Convert.ToBase64String(RandomNumberGenerator.GetBytes(32));
+        var device = new TrustedDevice
+        {
+            TokenHash = Hash(token),
+            UserId = userId,
+            CreatedAtUtc = now,
+            ExpiresAtUtc = now.AddDays(TrustDays),
+            IpAddress = ip,
+            UserAgent = userAgent
+        };
+        _db.TrustedDevices.Add(device);
+        await _db.SaveChangesAsync();
+        return (token, device.ExpiresAtUtc);
+    }
+
+    /// <summary>True when <paramref name="token"/> is an unexpired trusted device of this user.</summary>
+    public async Task<bool> IsTrustedAsync(string userId, string token)
+    {
+        var hash = Hash(token);
+        var device = await _db.TrustedDevices.FirstOrDefaultAsync(d => d.TokenHash == hash && d.UserId == userId);
+        if (device == null || device.ExpiresAtUtc <= DateTime.UtcNow) return false;
+
+        device.LastUsedAtUtc = DateTime.UtcNow;
+        await _db.SaveChangesAsync();
+        return true;
+    }
+
+    public Task<int> CountAsync(string userId)
+        => _db.TrustedDevices.CountAsync(d => d.UserId == userId && d.ExpiresAtUtc > DateTime.UtcNow);
+
+    /// <summary>Every device has to verify again, e.g. after the authenticator was reset or a phone was lost.</summary>
+    public async Task ForgetAllAsync(string userId)
+    {
+        _db.TrustedDevices.RemoveRange(await _db.TrustedDevices.Where(d => d.UserId == userId).ToListAsync());
+        await _db.SaveChangesAsync();
+    }
+
+    private static string Hash(string token)
+        => Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(token))).ToLowerInvariant();
+}
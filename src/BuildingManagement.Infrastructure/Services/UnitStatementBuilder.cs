@@ -0,0 +1,185 @@
+using BuildingManagement.Core.DTOs;
+using BuildingManagement.Core.Entities;
+using BuildingManagement.Core.Entities.Finance;
+using BuildingManagement.Core.Enums;
+
+namespace BuildingManagement.Infrastructure.Services;
+
+/// <summary>
+/// Account statement of a unit: charges, adjustments, payments and refunds in date order with a running balance.
+/// Built from the charges and payments themselves rather than the ledger's BalanceAfter, which is not
+/// kept for every entry type.
+/// </summary>
+public static class UnitStatementBuilder
+{
+    /// <summary>Adjustment entries in this category reverse a cancelled manual payment and reference the payment, not a charge.</summary>
+    private const string PaymentReversalCategory = "PaymentReversal";
+
+    /// <summary>Adjustment entries of refunds and chargebacks reference the refund; the refunds themselves are used instead.</summary>
+    private const string PaymentRefundCategory = "PaymentRefund";
+
+    /// <param name="unit">Needs Building, TenantUser and OwnerUser loaded</param>
+    /// <param name="charges">The charges on the statement, already filtered by party</param>
+    /// <param name="ledgerEntries">The unit's ledger entries; only adjustments of the charges are used</param>
+    /// <param name="payments">The unit's payments with allocations and payment method loaded</param>
+    /// <param name="refunds">The unit's refunds and chargebacks with allocations loaded</param>
+    /// <param name="to">Inclusive end of the range</param>
+    public static UnitStatementDto Build(
+        Unit unit,
+        BillingParty? party,
+        IReadOnlyCollection<UnitCharge> charges,
+        IEnumerable<LedgerEntry> ledgerEntries,
+        IEnumerable<Payment> payments,
+        IEnumerable<PaymentRefund> refunds,
+        DateTime? from,
+        DateTime to,
+        DateTime nowUtc)
+    {
+        var chargesById = charges.ToDictionary(c => c.Id);
+
+        var adjustments = ledgerEntries
+            .Where(le => le.EntryType == LedgerEntryType.Adjustment
+                && le.Category != PaymentReversalCategory
+                && le.Category != PaymentRefundCategory
+                && le.ReferenceId.HasValue && chargesById.ContainsKey(le.ReferenceId.Value))
+            .ToList();
+        var adjustedByCharge = adjustments
+            .GroupBy(le => le.ReferenceId!.Value)
+            .ToDictionary(g => g.Key, g => g.Sum(le => le.Debit - le.Credit));
+
+        var lines = new List<UnitStatementLineDto>();
+
+        // A charge shows at the amount it was billed at; later changes show as adjustment lines
+        foreach (var c in charges)
+        {
+            lines.Add(new UnitStatementLineDto
+            {
+                DateUtc = c.CreatedAtUtc,
+                LineType = StatementLineType.Charge,
+                UnitChargeId = c.Id,
+                ChargeType = c.ChargeType,
+                Period = c.Period,
+                Description = c.Description,
+                Debit = c.AmountDue - adjustedByCharge.GetValueOrDefault(c.Id)
+            });
+        }
+
+        foreach (var le in adjustments)
+        {
+            var c = chargesById[le.ReferenceId!.Value];
+            lines.Add(new UnitStatementLineDto
+            {
+                DateUtc = le.CreatedAtUtc,
+                LineType = StatementLineType.Adjustment,
+                UnitChargeId = c.Id,
+                ChargeType = c.ChargeType,
+                Period = c.Period,
+                Description = le.Description,
+                Debit = le.Debit,
+                Credit = le.Credit
+            });
+        }
+
+        var refundsByPayment = refunds.ToLookup(r => r.PaymentId);
+
+        foreach (var p in payments.Where(p => p.Status is PaymentStatus.Succeeded or PaymentStatus.Refunded))
+        {
+            var paymentRefunds = refundsByPayment[p.Id].ToList();
+
+            // Part of a refund that was taken off charges on this statement; what a won chargeback put back is still paid
+            decimal RefundedHere(PaymentRefund r) => p.Allocations.Count > 0
+                ? r.Allocations.Where(ra => chargesById.ContainsKey(ra.UnitChargeId)).Sum(ra => ra.Amount)
+                : party == null ? r.Amount : 0;
+            decimal RestoredHere(PaymentRefund r) =>
+                r.Allocations.Where(ra => chargesById.ContainsKey(ra.UnitChargeId)).Sum(ra => ra.RestoredAmount);
+
+            // Only the part of the payment that went to charges on this statement; unallocated
+            // payments belong to the whole unit and only show when no party is selected.
+            // Refunds already took their part off the allocations, so it is added back to get the amount paid.
+            var amount = p.Allocations.Count > 0
+                ? p.Allocations.Where(a => chargesById.ContainsKey(a.UnitChargeId)).Sum(a => a.AllocatedAmount)
+                    + paymentRefunds.Sum(r => RefundedHere(r) - RestoredHere(r))
+                : party == null ? p.Amount : 0;
+            if (amount <= 0) continue;
+
+            var method = p.IsManual ? p.ManualMethodType : p.PaymentMethod?.MethodType;
+            lines.Add(new UnitStatementLineDto
+            {
+                DateUtc = p.PaymentDateUtc,
+                LineType = StatementLineType.Payment,
+                PaymentId = p.Id,
+                Method = method,
+                Reference = p.ProviderReference,
+                Description = p.IsManual ? p.Notes : null,
+                Credit = amount
+            });
+
+            foreach (var r in paymentRefunds)
+            {
+                var refunded = RefundedHere(r);
+                if (refunded <= 0) continue;
+                lines.Add(new UnitStatementLineDto
+                {
+                    DateUtc = r.CreatedAtUtc,
+                    LineType = StatementLineType.Refund,
+                    PaymentId = p.Id,
+                    Method = method,
+                    RefundType = r.Type,
+                    Reference = r.ProviderReference ?? p.ProviderReference,
+                    Description = r.Reason,
+                    Debit = refunded
+                });
+
+                // A won chargeback pays the charges again
+                var restored = RestoredHere(r);
+                if (restored > 0 && r.ResolvedAtUtc.HasValue)
+                {
+                    lines.Add(new UnitStatementLineDto
+                    {
+                        DateUtc = r.ResolvedAtUtc.Value,
+                        LineType = StatementLineType.Refund,
+                        PaymentId = p.Id,
+                        Method = method,
+                        RefundType = r.Type,
+                        Reference = r.ProviderReference ?? p.ProviderReference,
+                        Description = r.ResolutionNote,
+                        Credit = restored
+                    });
+                }
+            }
+        }
+
+        var ordered = lines
+            .OrderBy(l => l.DateUtc)
+            .ThenBy(l => l.LineType)
+            .ThenBy(l => l.UnitChargeId ?? l.PaymentId)
+            .ToList();
+
+        var opening = ordered.Where(l => from.HasValue && l.DateUtc < from.Value).Sum(l => l.Debit - l.Credit);
+        var balance = opening;
+        var inRange = new List<UnitStatementLineDto>();
+        foreach (var l in ordered.Where(l => (!from.HasValue || l.DateUtc >= from.Value) && l.DateUtc <= to))
+        {
+            balance += l.Debit - l.Credit;
+            inRange.Add(l with { Balance = balance });
+        }
+
+        return new UnitStatementDto
+        {
+            UnitId = unit.Id,
+            UnitNumber = unit.UnitNumber,
+            BuildingId = unit.BuildingId,
+            BuildingName = unit.Building?.Name,
+            Party = party,
+            PayerName = BillingPartyResolver.PayerName(unit, party ?? unit.HOAFeePayer),
+            From = from,
+            To = to,
+            OpeningBalance = opening,
+            TotalDebits = inRange.Sum(l => l.Debit),
+            TotalCredits = inRange.Sum(l => l.Credit),
+            ClosingBalance = balance,
+            GeneratedAtUtc = nowUtc,
+            Lines = inRange
+        };
+    }
+}
@@ -0,0 +1,41 @@
+using System.Collections.Concurrent;
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Core.Interfaces;
+using BuildingManagement.Infrastructure.Services.Sms;
+using Microsoft.Extensions.Logging;
+
+namespace BuildingManagement.Infrastructure.Services.WhatsApp;
+
+public record FakeWhatsAppMessage(string To, NotificationKind Kind, string Language, IReadOnlyList<string> Parameters, DateTime SentAt, string MessageId);
+
+/// <summary>Local stand-in for WhatsApp Business: accepts every template message and keeps the last ones for the outbox.</summary>
+public class FakeWhatsAppSender : IWhatsAppSender
+{
+    private readonly ILogger<FakeWhatsAppSender> _logger;
+    private static readonly ConcurrentQueue<FakeWhatsAppMessage> _sentMessages = new();
+    private const int MaxStoredMessages = 200;
+
+    public FakeWhatsAppSender(ILogger<FakeWhatsAppSender> logger) => _logger = logger;
+
+    public string ProviderName => "Fake";
+
+    public Task<WhatsAppSendResult> SendTemplateAsync(string toPhoneE164, NotificationKind kind, string language,
+        IReadOnlyList<string> parameters, CancellationToken ct = default)
+    {
+        var msgId = $"FAKE-WA-{Guid.NewGuid():N}";
+        _logger.LogInformation("[FakeWhatsApp] To: {To} | Template: {Kind} ({Language}) | MsgId: {MsgId} | Params: {Params}",
+            toPhoneE164, kind, language, msgId, string.Join(" | ", parameters));
+
+        _sentMessages.Enqueue(new FakeWhatsAppMessage(toPhoneE164, kind, language, parameters, DateTime.UtcNow, msgId));
+        while (_sentMessages.Count > MaxStoredMessages)
+            _sentMessages.TryDequeue(out _);
+
+        return Task.FromResult(new WhatsAppSendResult(true, msgId));
+    }
+
+    /// <summary>Simulated receipts, posted by hand: { "messageId", "status": "delivered|undelivered|bounced", "error" }.</summary>
+    public IReadOnlyList<DeliveryReceipt> ParseDeliveryReceipts(string payload) => DeliveryReceipts.ParseSimple(payload);
+
+    public static IReadOnlyList<FakeWhatsAppMessage> GetRecentMessages(int count = 50)
+        => _sentMessages.Reverse().Take(count).ToList();
+}
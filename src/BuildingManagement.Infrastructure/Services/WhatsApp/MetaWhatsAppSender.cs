@@ -0,0 +1,102 @@
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using System.Text.Json;
+using BuildingManagement.Core.Enums;
+using BuildingManagement.Core.Interfaces;
+using BuildingManagement.Infrastructure.Services.Sms;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+
+namespace BuildingManagement.Infrastructure.Services.WhatsApp;
+
+/// <summary>
+/// WhatsApp Business through Meta's Cloud API.
+/// Docs: https://developers.facebook.com/docs/whatsapp/cloud-api/guides/send-message-templates
+/// Set WhatsApp__Meta__PhoneNumberId and WhatsApp__Meta__AccessToken; template names per notification kind
+/// under WhatsApp:Templates (defaults: payment_reminder, ticket_update, tenant_message, building_announcement).
+/// </summary>
+public class MetaWhatsAppSender : IWhatsAppSender
+{
+    private readonly HttpClient _http;
+    private readonly IConfiguration _config;
+    private readonly ILogger<MetaWhatsAppSender> _logger;
+
+    public MetaWhatsAppSender(HttpClient http, IConfiguration config, ILogger<MetaWhatsAppSender> logger)
+    {
+        _http = http;
+        _config = config;
+        _logger = logger;
+    }
+
+    public string ProviderName => "Meta";
+
+    public async Task<WhatsAppSendResult> SendTemplateAsync(string toPhoneE164, NotificationKind kind, string language,
+        IReadOnlyList<string> parameters, CancellationToken ct = default)
+    {
+        var phoneNumberId = _config["WhatsApp:Meta:PhoneNumberId"];
+        var accessToken = _config["WhatsApp:Meta:AccessToken"];
+        if (string.IsNullOrEmpty(phoneNumberId) || string.IsNullOrEmpty(accessToken))
+        {
+            _logger.LogError("WhatsApp Cloud API is not configured. Set WhatsApp:Meta:PhoneNumberId and WhatsApp:Meta:AccessToken.");
+            return new WhatsAppSendResult(false, Error: "WhatsApp not configured. Set WhatsApp:Meta:PhoneNumberId and WhatsApp:Meta:AccessToken in app settings.");
+        }
+
+        var apiVersion = _config["WhatsApp:Meta:ApiVersion"] ?? "v20.0";
+        var payload = new
+        {
+            messaging_product = "whatsapp",
+            to = toPhoneE164.TrimStart('+'),
+            type = "template",
+            template = new
+            {
+                name = TemplateName(kind),
+                language = new { code = language },
+                components = new[]
+                {
+                    new { type = "body", parameters = parameters.Select(p => new { type = "text", text = p }).ToArray() }
+                }
+            }
+        };
+
+        try
+        {
+            using var request = new HttpRequestMessage(HttpMethod.Post, $"https://graph.facebook.com/{apiVersion}/{phoneNumberId}/messages")
+            {
+                Content = JsonContent.Create(payload)
+            };
+            request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", accessToken);
+
+            using var response = await _http.SendAsync(request, ct);
+            using var doc = JsonDocument.Parse(await response.Content.ReadAsStringAsync(ct));
+            var root = doc.RootElement;
+
+            if (response.IsSuccessStatusCode
+                && root.TryGetProperty("messages", out var messages) && messages.GetArrayLength() > 0
+                && messages[0].TryGetProperty("id", out var id))
+                return new WhatsAppSendResult(true, id.GetString());
+
+            var error = root.TryGetProperty("error", out var err) && err.TryGetProperty("message", out var msg)
+                ? msg.GetString()
+                : $"HTTP {(int)response.StatusCode}";
+            _logger.LogWarning("WhatsApp template {Kind} to {To} was rejected: {Error}", kind, toPhoneE164, error);
+            return new WhatsAppSendResult(false, Error: error);
+        }
+        catch (Exception ex) when (ex is HttpRequestException or JsonException or TaskCanceledException)
+        {
+            _logger.LogError(ex, "WhatsApp send to {To} failed", toPhoneE164);
+            return new WhatsAppSendResult(false, Error: ex.Message);
+        }
+    }
+
+    /// <summary>Status updates of the Cloud API webhook (entry → changes → value → statuses).</summary>
+    public IReadOnlyList<DeliveryReceipt> ParseDeliveryReceipts(string payload) => DeliveryReceipts.ParseMetaWhatsApp(payload);
+
+    private string TemplateName(NotificationKind kind)
+        => _config[$"WhatsApp:Templates:{kind}"] ?? kind switch
+        {
+            NotificationKind.PaymentReminder => "payment_reminder",
+            NotificationKind.TicketUpdate => "ticket_update",
+            NotificationKind.BuildingAnnouncement => "building_announcement",
+            _ => "tenant_message"
+        };
+}